@@ -1,4 +1,6 @@
 // middleware.ts
+import { auth } from '@/lib/auth/auth';
+import { getPanelRoutePermission, hasPermission } from '@/lib/auth/permissions';
 import { getSessionCookie } from 'better-auth/cookies';
 import { NextRequest, NextResponse } from 'next/server';
 
@@ -24,6 +26,29 @@ export async function middleware(request: NextRequest) {
     }
   }
 
+  // Panel pages need a role with the page's permission (pages check again server-side)
+  const panelPermission = getPanelRoutePermission(pathname);
+
+  if (panelPermission) {
+    const session = getSessionCookie(request)
+      ? await auth.api.getSession({ headers: request.headers })
+      : null;
+
+    if (!session?.user) {
+      const response = NextResponse.redirect(new URL('/', request.url));
+      response.headers.set('x-request-id', reqId);
+      return response;
+    }
+
+    if (!hasPermission(session.user.role, panelPermission)) {
+      // Staff without access to this page go back to the panel home, everyone else to the dashboard
+      const fallback = hasPermission(session.user.role, 'panel.access') ? '/panel' : '/dashboard';
+      const response = NextResponse.redirect(new URL(fallback, request.url));
+      response.headers.set('x-request-id', reqId);
+      return response;
+    }
+  }
+
   const res = NextResponse.next();
 
   // Set request ID header for downstream audit logging on all requests
@@ -33,6 +58,8 @@ export async function middleware(request: NextRequest) {
 }
 
 export const config = {
+  // Node.js runtime so the panel check can load the session (and role) from the database
+  runtime: 'nodejs',
   // Match all routes to ensure request IDs are added everywhere
   matcher: ['/((?!_next/static|_next/image|favicon.ico|.*\\.(?:svg|png|jpg|jpeg|gif|webp)$).*)'],
 };
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "ads" ADD COLUMN     "expiryReminderSentAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "moderation_actions" ALTER COLUMN "actorUserId" DROP NOT NULL;
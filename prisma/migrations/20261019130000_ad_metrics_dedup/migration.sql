@@ -0,0 +1,11 @@
+-- CreateTable
+CREATE TABLE "ad_metrics_dedup" (
+    "key" VARCHAR(64) NOT NULL,
+    "adId" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ad_metrics_dedup_pkey" PRIMARY KEY ("key")
+);
+
+-- CreateIndex
+CREATE INDEX "ad_metrics_dedup_createdAt_idx" ON "ad_metrics_dedup"("createdAt");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "audit_logs" ADD COLUMN     "hiddenFromUser" BOOLEAN NOT NULL DEFAULT false;
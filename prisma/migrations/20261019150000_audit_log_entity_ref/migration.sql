@@ -0,0 +1,23 @@
+-- AlterEnum
+ALTER TYPE "AuditEntityType" ADD VALUE 'SESSION';
+
+-- AlterTable
+ALTER TABLE "audit_logs" ADD COLUMN     "entityRef" VARCHAR(64);
+
+-- CreateIndex
+CREATE INDEX "audit_logs_entityType_entityRef_createdAt_idx" ON "audit_logs"("entityType", "entityRef", "createdAt");
+
+-- Backfill: user ids are strings, so any numeric entityId on USER rows is a
+-- parseInt() artifact and cannot be trusted
+UPDATE "audit_logs"
+SET "entityId" = NULL
+WHERE "entityType" = 'USER' AND "entityId" IS NOT NULL;
+
+-- Backfill: account and profile actions target the acting user. Role changes
+-- target someone else and did not record who, so they stay without a target.
+UPDATE "audit_logs"
+SET "entityRef" = "actorUserId"
+WHERE "entityType" = 'USER'
+  AND "entityRef" IS NULL
+  AND "actorUserId" IS NOT NULL
+  AND "action" NOT IN ('ROLE_ASSIGN', 'ROLE_REVOKE');
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "audit_logs" ADD COLUMN     "hash" CHAR(64),
+ADD COLUMN     "prevHash" CHAR(64);
@@ -0,0 +1,21 @@
+-- AlterTable
+ALTER TABLE "audit_logs" ADD COLUMN     "piiHash" CHAR(64),
+ADD COLUMN     "piiScrubbedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "audit_log_archives" (
+    "id" SERIAL NOT NULL,
+    "storageKey" TEXT NOT NULL,
+    "rowCount" INTEGER NOT NULL,
+    "minEntryId" INTEGER NOT NULL,
+    "maxEntryId" INTEGER NOT NULL,
+    "fromCreatedAt" TIMESTAMP(3) NOT NULL,
+    "toCreatedAt" TIMESTAMP(3) NOT NULL,
+    "chainGapIds" INTEGER[] DEFAULT ARRAY[]::INTEGER[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "audit_log_archives_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "audit_log_archives_createdAt_idx" ON "audit_log_archives"("createdAt");
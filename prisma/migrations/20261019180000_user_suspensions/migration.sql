@@ -0,0 +1,44 @@
+-- AlterEnum
+ALTER TYPE "AdStatus" ADD VALUE 'SUSPENDED';
+
+-- AlterEnum
+ALTER TYPE "NotificationType" ADD VALUE 'ACCOUNT_EVENT';
+
+-- AlterEnum
+ALTER TYPE "AuditAction" ADD VALUE 'USER_SUSPEND';
+ALTER TYPE "AuditAction" ADD VALUE 'USER_UNSUSPEND';
+ALTER TYPE "AuditAction" ADD VALUE 'USER_SUSPENSION_EXPIRE';
+
+-- CreateTable
+CREATE TABLE "user_suspensions" (
+    "id" SERIAL NOT NULL,
+    "userId" TEXT NOT NULL,
+    "reason" VARCHAR(1000) NOT NULL,
+    "issuedById" TEXT,
+    "expiresAt" TIMESTAMP(3),
+    "liftedAt" TIMESTAMP(3),
+    "liftedById" TEXT,
+    "liftNote" VARCHAR(1000),
+    "hiddenAdIds" INTEGER[] DEFAULT ARRAY[]::INTEGER[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "user_suspensions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "user_suspensions_userId_liftedAt_idx" ON "user_suspensions"("userId", "liftedAt");
+
+-- CreateIndex
+CREATE INDEX "user_suspensions_liftedAt_expiresAt_idx" ON "user_suspensions"("liftedAt", "expiresAt");
+
+-- CreateIndex (partial, not expressible in schema.prisma): at most one open suspension per user
+CREATE UNIQUE INDEX "user_suspensions_open_user_key" ON "user_suspensions"("userId") WHERE "liftedAt" IS NULL;
+
+-- AddForeignKey
+ALTER TABLE "user_suspensions" ADD CONSTRAINT "user_suspensions_userId_fkey" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "user_suspensions" ADD CONSTRAINT "user_suspensions_issuedById_fkey" FOREIGN KEY ("issuedById") REFERENCES "user"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "user_suspensions" ADD CONSTRAINT "user_suspensions_liftedById_fkey" FOREIGN KEY ("liftedById") REFERENCES "user"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,29 @@
+-- AlterEnum
+ALTER TYPE "AuditAction" ADD VALUE 'MODERATOR_SCOPE_UPDATE';
+
+-- CreateTable
+CREATE TABLE "moderator_scopes" (
+    "id" SERIAL NOT NULL,
+    "moderatorId" TEXT NOT NULL,
+    "cityId" INTEGER,
+    "region" VARCHAR(120),
+    "assignedById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "moderator_scopes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "moderator_scopes_moderatorId_cityId_key" ON "moderator_scopes"("moderatorId", "cityId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "moderator_scopes_moderatorId_region_key" ON "moderator_scopes"("moderatorId", "region");
+
+-- AddForeignKey
+ALTER TABLE "moderator_scopes" ADD CONSTRAINT "moderator_scopes_moderatorId_fkey" FOREIGN KEY ("moderatorId") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "moderator_scopes" ADD CONSTRAINT "moderator_scopes_cityId_fkey" FOREIGN KEY ("cityId") REFERENCES "cities"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "moderator_scopes" ADD CONSTRAINT "moderator_scopes_assignedById_fkey" FOREIGN KEY ("assignedById") REFERENCES "user"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "review_claims" (
+    "id" SERIAL NOT NULL,
+    "targetType" "ModerationTargetType" NOT NULL,
+    "targetId" INTEGER NOT NULL,
+    "moderatorId" TEXT NOT NULL,
+    "claimedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "review_claims_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "review_claims_targetType_targetId_key" ON "review_claims"("targetType", "targetId");
+
+-- CreateIndex
+CREATE INDEX "review_claims_moderatorId_idx" ON "review_claims"("moderatorId");
+
+-- AddForeignKey
+ALTER TABLE "review_claims" ADD CONSTRAINT "review_claims_moderatorId_fkey" FOREIGN KEY ("moderatorId") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,22 @@
+-- AlterEnum
+ALTER TYPE "AdStatus" ADD VALUE 'CHANGES_REQUESTED';
+
+-- AlterEnum
+ALTER TYPE "AuditAction" ADD VALUE 'AD_REQUEST_CHANGES';
+
+-- CreateTable
+CREATE TABLE "moderation_field_comments" (
+    "id" SERIAL NOT NULL,
+    "moderationActionId" INTEGER NOT NULL,
+    "field" VARCHAR(40) NOT NULL,
+    "comment" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "moderation_field_comments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "moderation_field_comments_moderationActionId_idx" ON "moderation_field_comments"("moderationActionId");
+
+-- AddForeignKey
+ALTER TABLE "moderation_field_comments" ADD CONSTRAINT "moderation_field_comments_moderationActionId_fkey" FOREIGN KEY ("moderationActionId") REFERENCES "moderation_actions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
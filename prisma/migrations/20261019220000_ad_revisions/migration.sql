@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "ad_revisions" (
+    "id" SERIAL NOT NULL,
+    "adId" INTEGER NOT NULL,
+    "revisionNumber" INTEGER NOT NULL,
+    "snapshot" JSONB NOT NULL,
+    "approvedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ad_revisions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ad_revisions_adId_approvedAt_idx" ON "ad_revisions"("adId", "approvedAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ad_revisions_adId_revisionNumber_key" ON "ad_revisions"("adId", "revisionNumber");
+
+-- AddForeignKey
+ALTER TABLE "ad_revisions" ADD CONSTRAINT "ad_revisions_adId_fkey" FOREIGN KEY ("adId") REFERENCES "ads"("id") ON DELETE CASCADE ON UPDATE CASCADE;
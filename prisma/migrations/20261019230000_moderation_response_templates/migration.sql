@@ -0,0 +1,30 @@
+-- AlterEnum
+ALTER TYPE "AuditEntityType" ADD VALUE 'RESPONSE_TEMPLATE';
+
+-- AlterEnum
+ALTER TYPE "AuditAction" ADD VALUE 'RESPONSE_TEMPLATE_CREATE';
+ALTER TYPE "AuditAction" ADD VALUE 'RESPONSE_TEMPLATE_UPDATE';
+ALTER TYPE "AuditAction" ADD VALUE 'RESPONSE_TEMPLATE_DELETE';
+
+-- CreateTable
+CREATE TABLE "moderation_response_templates" (
+    "id" SERIAL NOT NULL,
+    "targetType" "ModerationTargetType" NOT NULL,
+    "reasonCode" "ModerationReasonCode",
+    "verificationCode" "VerificationRejectionCode",
+    "locale" VARCHAR(8) NOT NULL DEFAULT 'en',
+    "title" VARCHAR(80) NOT NULL,
+    "body" VARCHAR(1000) NOT NULL,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "moderation_response_templates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "moderation_response_templates_targetType_locale_isActive_idx" ON "moderation_response_templates"("targetType", "locale", "isActive");
+
+-- AddForeignKey
+ALTER TABLE "moderation_response_templates" ADD CONSTRAINT "moderation_response_templates_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "user"("id") ON DELETE SET NULL ON UPDATE CASCADE;
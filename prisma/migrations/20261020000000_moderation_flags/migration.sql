@@ -0,0 +1,38 @@
+-- AlterEnum
+ALTER TYPE "NotificationType" ADD VALUE 'MODERATION_EVENT';
+
+-- AlterEnum
+ALTER TYPE "AuditAction" ADD VALUE 'VERIFICATION_FLAG';
+ALTER TYPE "AuditAction" ADD VALUE 'VERIFICATION_UNFLAG';
+ALTER TYPE "AuditAction" ADD VALUE 'AD_FLAG';
+ALTER TYPE "AuditAction" ADD VALUE 'AD_UNFLAG';
+
+-- CreateTable
+CREATE TABLE "moderation_flags" (
+    "id" SERIAL NOT NULL,
+    "targetType" "ModerationTargetType" NOT NULL,
+    "targetId" INTEGER NOT NULL,
+    "flaggedById" TEXT NOT NULL,
+    "note" VARCHAR(500) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "resolvedAt" TIMESTAMP(3),
+    "resolvedById" TEXT,
+    "resolutionNote" VARCHAR(500),
+
+    CONSTRAINT "moderation_flags_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "moderation_flags_targetType_targetId_resolvedAt_idx" ON "moderation_flags"("targetType", "targetId", "resolvedAt");
+
+-- CreateIndex
+CREATE INDEX "moderation_flags_resolvedAt_createdAt_idx" ON "moderation_flags"("resolvedAt", "createdAt");
+
+-- CreateIndex (partial, not expressible in schema.prisma): at most one open flag per item
+CREATE UNIQUE INDEX "moderation_flags_open_target_key" ON "moderation_flags"("targetType", "targetId") WHERE "resolvedAt" IS NULL;
+
+-- AddForeignKey
+ALTER TABLE "moderation_flags" ADD CONSTRAINT "moderation_flags_flaggedById_fkey" FOREIGN KEY ("flaggedById") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "moderation_flags" ADD CONSTRAINT "moderation_flags_resolvedById_fkey" FOREIGN KEY ("resolvedById") REFERENCES "user"("id") ON DELETE SET NULL ON UPDATE CASCADE;
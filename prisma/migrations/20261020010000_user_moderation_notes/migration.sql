@@ -0,0 +1,14 @@
+-- AlterEnum
+ALTER TYPE "ModerationTargetType" ADD VALUE 'USER';
+
+-- AlterEnum
+ALTER TYPE "AuditAction" ADD VALUE 'USER_NOTE_ADD';
+
+-- AlterTable
+ALTER TABLE "moderation_actions" ADD COLUMN     "subjectUserId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "moderation_actions_subjectUserId_createdAt_idx" ON "moderation_actions"("subjectUserId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "moderation_actions" ADD CONSTRAINT "moderation_actions_subjectUserId_fkey" FOREIGN KEY ("subjectUserId") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE CASCADE;
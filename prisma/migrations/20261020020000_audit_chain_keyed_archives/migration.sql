@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "audit_log_archives" ADD COLUMN     "hash" CHAR(64);
@@ -0,0 +1,6 @@
+-- AlterEnum
+ALTER TYPE "AuditEntityType" ADD VALUE 'AUDIT_LOG';
+
+-- AlterEnum
+ALTER TYPE "AuditAction" ADD VALUE 'AUDIT_ENTRY_HIDE';
+ALTER TYPE "AuditAction" ADD VALUE 'AUDIT_ENTRY_UNHIDE';
@@ -0,0 +1,65 @@
+/*
+Runs a scheduled job by calling its protected /api/jobs/<name> route on a
+running app. Jobs are safe to run repeatedly, e.g. from a system crontab.
+
+Usage:
+  node scripts/run-job.js <job-name>     e.g. expire-ads, metrics-rollup, audit-retention
+
+Env options:
+  APP_URL=<url>       Base URL of the app (default http://localhost:3000)
+  CRON_SECRET=<str>   Shared secret, must match the app's CRON_SECRET
+  BATCH_SIZE=<n>      Batch size, for jobs that support it
+*/
+
+const path = require('path');
+// Ensure .env is loaded for CRON_SECRET
+try {
+  require('dotenv').config({ path: path.join(__dirname, '..', '.env') });
+} catch {}
+
+const JOBS = [
+  'expire-ads',
+  'expire-suspensions',
+  'metrics-rollup',
+  'verify-audit-chain',
+  'audit-retention',
+];
+
+async function main() {
+  const job = process.argv[2];
+  if (!JOBS.includes(job)) {
+    console.error(`Usage: node scripts/run-job.js <${JOBS.join('|')}>`);
+    process.exit(1);
+  }
+
+  const baseUrl = process.env.APP_URL || 'http://localhost:3000';
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    console.error('CRON_SECRET is not set');
+    process.exit(1);
+  }
+
+  const url = new URL(`/api/jobs/${job}`, baseUrl);
+  if (process.env.BATCH_SIZE) url.searchParams.set('batchSize', process.env.BATCH_SIZE);
+
+  const res = await fetch(url, {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${secret}` },
+  });
+  const body = await res.json().catch(() => ({}));
+
+  if (!res.ok) {
+    console.error(`Job ${job} failed (${res.status}):`, body.error || body);
+    process.exit(1);
+  }
+
+  console.log(`Job ${job} finished:`, body.data);
+  if (body.data && body.data.hasMore) {
+    console.log('Batch limit reached; run again to process the rest.');
+  }
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
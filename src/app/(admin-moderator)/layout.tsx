@@ -1,11 +1,11 @@
-import { requireUser } from '@/lib/auth/server';
+import { hasPermission, requireUser } from '@/lib/auth/server';
 import { cn } from '@/lib/utils';
 import { forbidden } from 'next/navigation';
 import { ReactNode } from 'react';
 
 export default async function ProtectedLayout({ children }: { children: ReactNode }) {
   const user = await requireUser();
-  if (user.role === 'USER') forbidden();
+  if (!hasPermission(user.role, 'panel.access')) forbidden();
 
   return (
     <div className={cn('min-h-screen ')}>
@@ -1,5 +1,5 @@
 import { NotificationForm } from '@/app/(admin-moderator)/panel/Send-notification/send-form';
-import { requireUser } from '@/lib/auth/server';
+import { hasPermission, requireUser } from '@/lib/auth/server';
 import { redirect } from 'next/navigation';
 
 export const metadata = {
@@ -8,7 +8,7 @@ export const metadata = {
 
 export default async function SendNotificationPage() {
   const user = await requireUser();
-  if (user.role !== 'MODERATOR' && user.role !== 'ADMIN') {
+  if (!hasPermission(user.role, 'notifications.send')) {
     redirect('/forbidden');
   }
 
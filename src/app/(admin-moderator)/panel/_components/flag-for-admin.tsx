@@ -0,0 +1,175 @@
+'use client';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { FLAG_NOTE_MAX_LENGTH, type FlagTargetType } from '@/constants/moderation-flag-config';
+import { useMutation } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { Flag, Loader2 } from 'lucide-react';
+import { useState } from 'react';
+import { toast } from 'sonner';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** Open flag as returned with moderation list items */
+export interface OpenFlag {
+  id: number;
+  note: string;
+  flaggedByName: string;
+  createdAt: string;
+}
+
+// =============================================================================
+// API Functions
+// =============================================================================
+
+async function flagItem(targetType: FlagTargetType, targetId: number, note: string) {
+  const response = await fetch('/api/moderator/flags', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ targetType, targetId, note }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to flag item');
+  }
+
+  return response.json();
+}
+
+// =============================================================================
+// Components
+// =============================================================================
+
+/**
+ * List badge for items escalated to admins; the note shows on hover
+ */
+export function FlagBadge({ flag }: { flag: OpenFlag | null }) {
+  if (!flag) return null;
+
+  return (
+    <Badge
+      variant="outline"
+      className="text-xs text-orange-700 border-orange-300"
+      title={`${flag.flaggedByName}: ${flag.note}`}
+    >
+      <Flag className="h-3 w-3 mr-1" />
+      Flagged
+    </Badge>
+  );
+}
+
+/**
+ * Review dialog notice with the flag's note
+ */
+export function FlagNotice({ flag }: { flag: OpenFlag | null }) {
+  if (!flag) return null;
+
+  return (
+    <div className="flex gap-2 mb-4 p-4 bg-orange-50 rounded-lg border border-orange-200 text-sm text-orange-900">
+      <Flag className="h-4 w-4 shrink-0 mt-0.5" />
+      <div>
+        <div className="font-medium">
+          Flagged for admin review by {flag.flaggedByName} on{' '}
+          {format(new Date(flag.createdAt), 'MMM d, yyyy')}
+        </div>
+        <p className="whitespace-pre-wrap">{flag.note}</p>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Escalate the item to admins with a note, without deciding it
+ */
+export function FlagForAdminButton({
+  targetType,
+  targetId,
+  flagged,
+  onFlagged,
+}: {
+  targetType: FlagTargetType;
+  targetId: number;
+  flagged: boolean;
+  onFlagged: () => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const [note, setNote] = useState('');
+
+  const flagMutation = useMutation({
+    mutationFn: () => flagItem(targetType, targetId, note.trim()),
+    onSuccess: () => {
+      toast.success('Flagged for admin review');
+      setOpen(false);
+      setNote('');
+      onFlagged();
+    },
+    onError: (error) => {
+      toast.error(`Failed to flag: ${error.message}`);
+    },
+  });
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        onClick={() => setOpen(true)}
+        disabled={flagged}
+        className="text-orange-700 border-orange-300 hover:bg-orange-50"
+      >
+        <Flag className="h-4 w-4 mr-2" />
+        {flagged ? 'Flagged' : 'Flag for Admin'}
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Flag for Admin Review</DialogTitle>
+            <DialogDescription>
+              Admins are notified right away. The item stays in the queue and nothing is sent to its
+              owner.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div>
+            <Label htmlFor="flag-note">What should the admins look at? *</Label>
+            <Textarea
+              id="flag-note"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              maxLength={FLAG_NOTE_MAX_LENGTH}
+              rows={4}
+              dir="auto"
+            />
+          </div>
+
+          <div className="flex justify-end gap-3 pt-4">
+            <Button variant="outline" onClick={() => setOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => flagMutation.mutate()}
+              disabled={note.trim().length < 5 || flagMutation.isPending}
+              className="bg-orange-600 hover:bg-orange-700"
+            >
+              {flagMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Flag
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
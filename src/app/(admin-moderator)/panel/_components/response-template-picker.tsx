@@ -0,0 +1,131 @@
+'use client';
+
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  renderResponseTemplate,
+  RESPONSE_TEMPLATE_LOCALE_OPTIONS,
+  type ResponseTemplateLocale,
+  type ResponseTemplatePlaceholder,
+  type ResponseTemplateTarget,
+} from '@/constants/response-template-config';
+import { useQuery } from '@tanstack/react-query';
+import { useState } from 'react';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface ResponseTemplate {
+  id: number;
+  reasonCode: string | null;
+  verificationCode: string | null;
+  locale: string;
+  title: string;
+  body: string;
+}
+
+// =============================================================================
+// API Functions
+// =============================================================================
+
+async function fetchResponseTemplates(targetType: ResponseTemplateTarget) {
+  const response = await fetch(`/api/moderator/response-templates?targetType=${targetType}`);
+
+  if (!response.ok) {
+    throw new Error('Failed to fetch response templates');
+  }
+
+  const data = await response.json();
+  return data.data as ResponseTemplate[];
+}
+
+// =============================================================================
+// Main Component
+// =============================================================================
+
+/**
+ * Template picker for the reject dialogs. Picking a template hands its text,
+ * with placeholders filled from `values`, to the dialog's editable note.
+ */
+export function ResponseTemplatePicker({
+  targetType,
+  code,
+  values,
+  onPick,
+}: {
+  targetType: ResponseTemplateTarget;
+  // Selected ModerationReasonCode / VerificationRejectionCode; '' until one is chosen
+  code: string;
+  values: Partial<Record<ResponseTemplatePlaceholder, string | null>>;
+  onPick: (text: string) => void;
+}) {
+  const [locale, setLocale] = useState<ResponseTemplateLocale>('en');
+
+  const { data: templates } = useQuery({
+    queryKey: ['response-templates', targetType],
+    queryFn: () => fetchResponseTemplates(targetType),
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const matching = (templates ?? []).filter(
+    (template) =>
+      template.locale === locale &&
+      (targetType === 'AD' ? template.reasonCode : template.verificationCode) === code
+  );
+
+  const handlePick = (id: string) => {
+    const template = matching.find((t) => String(t.id) === id);
+    if (template) onPick(renderResponseTemplate(template.body, values));
+  };
+
+  return (
+    <div>
+      <Label>Canned response</Label>
+      <div className="flex gap-2 mt-1">
+        <Select
+          value={locale}
+          onValueChange={(value) => setLocale(value as ResponseTemplateLocale)}
+        >
+          <SelectTrigger className="w-32">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {RESPONSE_TEMPLATE_LOCALE_OPTIONS.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {/* Always empty, so the same template can be inserted again after editing */}
+        <Select value="" onValueChange={handlePick} disabled={!code}>
+          <SelectTrigger className="flex-1">
+            <SelectValue
+              placeholder={
+                !code
+                  ? 'Choose a reason first'
+                  : matching.length === 0
+                    ? 'No templates for this reason'
+                    : 'Insert a template'
+              }
+            />
+          </SelectTrigger>
+          <SelectContent>
+            {matching.map((template) => (
+              <SelectItem key={template.id} value={String(template.id)}>
+                {template.title}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,181 @@
+'use client';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { USER_NOTE_MAX_LENGTH } from '@/lib/schemas/user-note-schema';
+import { cn } from '@/lib/utils';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { Loader2, NotebookPen } from 'lucide-react';
+import { useState } from 'react';
+import { toast } from 'sonner';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface UserNoteItem {
+  id: number;
+  note: string;
+  createdAt: string;
+  author: { name: string; userId: string | null } | null;
+}
+
+interface UserModerationProfile {
+  summary: {
+    adRejections: number;
+    verificationRejections: number;
+    reportsReceived: number;
+    reportsOpen: number;
+    reportsUpheld: number;
+    reportsFiled: number;
+    suspensions: number;
+  };
+  notes: UserNoteItem[];
+}
+
+// =============================================================================
+// API Functions
+// =============================================================================
+
+async function fetchUserProfile(userId: string): Promise<UserModerationProfile> {
+  const response = await fetch(`/api/moderator/users/${encodeURIComponent(userId)}/notes`);
+
+  if (!response.ok) {
+    throw new Error('Failed to fetch user notes');
+  }
+
+  const data = await response.json();
+  return data.data;
+}
+
+async function addNote(userId: string, note: string) {
+  const response = await fetch(`/api/moderator/users/${encodeURIComponent(userId)}/notes`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ note }),
+  });
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || 'Failed to add note');
+  }
+
+  return response.json();
+}
+
+// =============================================================================
+// Main Component
+// =============================================================================
+
+/**
+ * Internal notes on a user with a summary of their moderation history.
+ * Shown in the ad, verification and report review dialogs; never shown to the user.
+ */
+export function UserModerationNotes({ userId, className }: { userId: string; className?: string }) {
+  const queryClient = useQueryClient();
+  const [note, setNote] = useState('');
+
+  const { data: profile, isLoading } = useQuery({
+    queryKey: ['moderator-user-notes', userId],
+    queryFn: () => fetchUserProfile(userId),
+    staleTime: 30 * 1000,
+  });
+
+  const addMutation = useMutation({
+    mutationFn: () => addNote(userId, note.trim()),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['moderator-user-notes', userId] });
+      toast.success('Note added');
+      setNote('');
+    },
+    onError: (error) => {
+      toast.error(error.message);
+    },
+  });
+
+  const summary = profile?.summary;
+
+  return (
+    <div className={cn('space-y-3 rounded-lg border bg-white p-4', className)}>
+      <p className="flex items-center gap-2 text-sm font-medium text-muted-foreground">
+        <NotebookPen className="h-4 w-4" />
+        Moderator notes on this user
+      </p>
+
+      {isLoading ? (
+        <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+      ) : summary ? (
+        <>
+          <div className="flex flex-wrap gap-2">
+            <Badge variant="outline" className={cn(summary.adRejections > 0 && 'text-red-700')}>
+              {summary.adRejections} ad rejection(s)
+            </Badge>
+            <Badge
+              variant="outline"
+              className={cn(summary.verificationRejections > 0 && 'text-red-700')}
+            >
+              {summary.verificationRejections} verification rejection(s)
+            </Badge>
+            <Badge variant="outline" className={cn(summary.reportsUpheld > 0 && 'text-red-700')}>
+              {summary.reportsReceived} report(s) on their ads · {summary.reportsUpheld} upheld ·{' '}
+              {summary.reportsOpen} open
+            </Badge>
+            <Badge variant="outline">{summary.reportsFiled} report(s) filed</Badge>
+            <Badge variant="outline" className={cn(summary.suspensions > 0 && 'text-red-700')}>
+              {summary.suspensions} suspension(s)
+            </Badge>
+          </div>
+
+          {profile.notes.length > 0 ? (
+            <div className="space-y-1 max-h-60 overflow-y-auto">
+              {profile.notes.map((item) => (
+                <div key={item.id} className="text-sm p-2 border rounded-md space-y-1">
+                  <p className="text-xs text-muted-foreground">
+                    {item.author ? item.author.name || item.author.userId : 'Former moderator'} ·{' '}
+                    {format(new Date(item.createdAt), 'dd MMM yyyy, HH:mm')}
+                  </p>
+                  <p dir="auto" className="whitespace-pre-wrap">
+                    {item.note}
+                  </p>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">No notes yet</p>
+          )}
+        </>
+      ) : (
+        <p className="text-sm text-muted-foreground">Couldn&apos;t load notes</p>
+      )}
+
+      <div className="space-y-2">
+        <Label htmlFor={`user-note-${userId}`}>Add a note (never shown to the user)</Label>
+        <Textarea
+          id={`user-note-${userId}`}
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          maxLength={USER_NOTE_MAX_LENGTH}
+          placeholder="e.g. Same phone number as a banned account"
+          className="resize-none"
+          dir="auto"
+        />
+        <div className="flex justify-end">
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => addMutation.mutate()}
+            disabled={note.trim().length < 3 || addMutation.isPending}
+          >
+            {addMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Add note
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
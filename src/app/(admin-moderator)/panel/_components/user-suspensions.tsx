@@ -0,0 +1,302 @@
+'use client';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ConfirmDialog } from '@/components/ui/confirm-dialog';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { SUSPENSION_REASON_MAX_LENGTH } from '@/lib/schemas/suspension-schema';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { Ban, Loader2 } from 'lucide-react';
+import { useState } from 'react';
+import { toast } from 'sonner';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface UserSuspensionItem {
+  id: number;
+  reason: string;
+  expiresAt: string | null;
+  liftedAt: string | null;
+  liftNote: string | null;
+  createdAt: string;
+  state: 'ACTIVE' | 'LIFTED' | 'EXPIRED';
+  hiddenAdsCount: number;
+  issuedBy: { name: string; userId: string | null } | null;
+  liftedBy: { name: string; userId: string | null } | null;
+}
+
+// Select values; 'permanent' maps to durationDays null
+const DURATION_OPTIONS = [
+  { value: '1', label: '1 day' },
+  { value: '3', label: '3 days' },
+  { value: '7', label: '7 days' },
+  { value: '30', label: '30 days' },
+  { value: '90', label: '90 days' },
+  { value: 'permanent', label: 'Permanent ban' },
+];
+
+// =============================================================================
+// API Functions
+// =============================================================================
+
+async function fetchSuspensions(userId: string): Promise<UserSuspensionItem[]> {
+  const response = await fetch(`/api/moderator/users/${encodeURIComponent(userId)}/suspensions`);
+
+  if (!response.ok) {
+    throw new Error('Failed to fetch suspensions');
+  }
+
+  const data = await response.json();
+  return data.data;
+}
+
+async function suspendUser(userId: string, reason: string, durationDays: number | null) {
+  const response = await fetch(`/api/moderator/users/${encodeURIComponent(userId)}/suspensions`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ reason, durationDays }),
+  });
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || 'Failed to suspend user');
+  }
+
+  return response.json();
+}
+
+async function liftSuspension(id: number) {
+  const response = await fetch(`/api/moderator/suspensions/${id}`, {
+    method: 'PATCH',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ action: 'lift' }),
+  });
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || 'Failed to lift suspension');
+  }
+
+  return response.json();
+}
+
+// =============================================================================
+// Utility Functions
+// =============================================================================
+
+const formatTimestamp = (value: string) => format(new Date(value), 'dd MMM yyyy, HH:mm');
+
+const getStateColor = (state: UserSuspensionItem['state']) => {
+  switch (state) {
+    case 'ACTIVE':
+      return 'bg-red-100 text-red-800 border-red-200';
+    case 'LIFTED':
+      return 'bg-green-100 text-green-800 border-green-200';
+    default:
+      return 'bg-gray-100 text-gray-800 border-gray-200';
+  }
+};
+
+const formatActor = (actor: UserSuspensionItem['issuedBy']) =>
+  actor ? actor.name || actor.userId : 'System';
+
+// =============================================================================
+// Main Component
+// =============================================================================
+
+/**
+ * Suspension history of a user with suspend / lift controls.
+ * Used in the report review dialog (for the ad owner) and the admin users console.
+ */
+export function UserSuspensions({
+  userId,
+  userLabel,
+  onChange,
+}: {
+  userId: string;
+  userLabel: string;
+  // Called after a suspend or lift, e.g. to refresh ad statuses shown alongside
+  onChange?: () => void;
+}) {
+  const queryClient = useQueryClient();
+  const [showForm, setShowForm] = useState(false);
+  const [reason, setReason] = useState('');
+  const [duration, setDuration] = useState('7');
+  const [confirmOpen, setConfirmOpen] = useState(false);
+  const [liftId, setLiftId] = useState<number | null>(null);
+
+  const { data: suspensions, isLoading } = useQuery({
+    queryKey: ['moderator-user-suspensions', userId],
+    queryFn: () => fetchSuspensions(userId),
+    staleTime: 30 * 1000,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['moderator-user-suspensions', userId] });
+    onChange?.();
+  };
+
+  const suspendMutation = useMutation({
+    mutationFn: () =>
+      suspendUser(userId, reason.trim(), duration === 'permanent' ? null : Number(duration)),
+    onSuccess: (result) => {
+      invalidate();
+      toast.success(result.message || 'User suspended');
+      setShowForm(false);
+      setReason('');
+    },
+    onError: (error) => {
+      toast.error(error.message);
+    },
+  });
+
+  const liftMutation = useMutation({
+    mutationFn: (id: number) => liftSuspension(id),
+    onSuccess: () => {
+      invalidate();
+      toast.success('Suspension lifted');
+    },
+    onError: (error) => {
+      toast.error(error.message);
+    },
+  });
+
+  const active = suspensions?.find((suspension) => suspension.state === 'ACTIVE');
+  const durationLabel = DURATION_OPTIONS.find((o) => o.value === duration)?.label;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-medium text-muted-foreground">
+          Suspensions{suspensions ? ` (${suspensions.length})` : ''}
+        </p>
+        {!active && !showForm && (
+          <Button variant="outline" size="sm" onClick={() => setShowForm(true)}>
+            <Ban className="h-4 w-4 mr-2" />
+            Suspend
+          </Button>
+        )}
+      </div>
+
+      {isLoading ? (
+        <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+      ) : suspensions && suspensions.length > 0 ? (
+        <div className="space-y-1">
+          {suspensions.map((suspension) => (
+            <div key={suspension.id} className="text-sm p-2 border rounded-md space-y-1">
+              <div className="flex items-center gap-2">
+                <Badge className={getStateColor(suspension.state)}>{suspension.state}</Badge>
+                <span className="flex-1 text-xs text-muted-foreground">
+                  {formatTimestamp(suspension.createdAt)} →{' '}
+                  {suspension.expiresAt ? formatTimestamp(suspension.expiresAt) : 'permanent'} · by{' '}
+                  {formatActor(suspension.issuedBy)} · {suspension.hiddenAdsCount} ad(s) hidden
+                </span>
+                {suspension.state === 'ACTIVE' && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setLiftId(suspension.id)}
+                    disabled={liftMutation.isPending}
+                  >
+                    {liftMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    Lift
+                  </Button>
+                )}
+              </div>
+              <p className="whitespace-pre-line">{suspension.reason}</p>
+              {suspension.liftedAt && (
+                <p className="text-xs text-muted-foreground">
+                  {suspension.state === 'LIFTED' ? 'Lifted' : 'Ended'}{' '}
+                  {formatTimestamp(suspension.liftedAt)}
+                  {suspension.liftedBy && ` by ${formatActor(suspension.liftedBy)}`}
+                  {suspension.liftNote && ` · ${suspension.liftNote}`}
+                </p>
+              )}
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">Never suspended</p>
+      )}
+
+      {showForm && (
+        <div className="space-y-3 rounded-lg border p-3">
+          <div className="space-y-2">
+            <Label htmlFor={`suspension-reason-${userId}`}>Reason (shown to the user)</Label>
+            <Textarea
+              id={`suspension-reason-${userId}`}
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              maxLength={SUSPENSION_REASON_MAX_LENGTH}
+              placeholder="e.g. Repeated scam listings"
+              className="resize-none"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Duration</Label>
+            <Select value={duration} onValueChange={setDuration}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {DURATION_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button variant="ghost" size="sm" onClick={() => setShowForm(false)}>
+              Cancel
+            </Button>
+            <Button
+              size="sm"
+              className="bg-red-600 hover:bg-red-700 text-white"
+              onClick={() => setConfirmOpen(true)}
+              disabled={reason.trim().length < 3 || suspendMutation.isPending}
+            >
+              {suspendMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Suspend user
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <ConfirmDialog
+        open={confirmOpen}
+        onOpenChange={setConfirmOpen}
+        title={`Suspend ${userLabel}?`}
+        description={`${durationLabel}. Their online ads will be hidden and they won't be able to post, request verification or report until the suspension ends.`}
+        confirmText="Suspend"
+        confirmVariant="destructive"
+        onConfirm={() => suspendMutation.mutate()}
+      />
+
+      <ConfirmDialog
+        open={liftId !== null}
+        onOpenChange={(open) => !open && setLiftId(null)}
+        title={`Lift suspension for ${userLabel}?`}
+        description="Their hidden ads go back online and they can post again."
+        confirmText="Lift suspension"
+        onConfirm={() => liftId !== null && liftMutation.mutate(liftId)}
+      />
+    </div>
+  );
+}
@@ -1,21 +1,182 @@
 'use server';
 
-import { requireUser } from '@/lib/auth/server';
-import { forbidden, unauthorized } from 'next/navigation';
-import { setTimeout } from 'node:timers/promises';
-// Example admin action
-export async function deleteApplication() {
-  let user;
+import {
+  assignUserRole,
+  revokeUserRole,
+  setModeratorScope,
+  type ModeratorScopeAssignment,
+} from '@/data/admin/users.dal';
+import {
+  createResponseTemplate,
+  deleteResponseTemplate,
+  updateResponseTemplate,
+  type ResponseTemplateItem,
+} from '@/data/moderator/response-template.dal';
+import type { UserRole } from '@/generated/enums';
+import { requirePermission } from '@/lib/auth/server';
+import {
+  moderatorScopeSchema,
+  type ModeratorScopeInput,
+} from '@/lib/schemas/moderator-scope-schema';
+import {
+  responseTemplateSchema,
+  type ResponseTemplateInput,
+} from '@/lib/schemas/response-template-schema';
+
+export type ChangeUserRoleResult =
+  | { success: true; role: UserRole }
+  | { success: false; error: string };
+
+export type SetModeratorScopeResult =
+  | { success: true; scope: ModeratorScopeAssignment }
+  | { success: false; error: string };
+
+export type SaveResponseTemplateResult =
+  | { success: true; template: ResponseTemplateItem }
+  | { success: false; error: string };
+
+export type DeleteResponseTemplateResult = { success: true } | { success: false; error: string };
+
+const ASSIGNABLE_ROLES: UserRole[] = ['USER', 'MODERATOR', 'ADMIN'];
+
+/** Map of domain errors to user-friendly messages */
+const DOMAIN_ERROR_MESSAGES: Record<string, string> = {
+  SelfRoleChangeError: 'You cannot change your own role.',
+  LastAdminError: 'This is the last admin. Promote someone else before demoting them.',
+  PermissionError: 'You do not have permission to change roles.',
+  NotModeratorError: 'Only moderators can be limited to cities or regions.',
+  UnknownScopeLocationError: 'One of the selected cities or regions no longer exists.',
+};
+
+/**
+ * Promote or demote a user. Demoting to USER revokes the role; anything else assigns it.
+ * Both paths are audited (ROLE_REVOKE / ROLE_ASSIGN), including rejected attempts.
+ */
+export async function changeUserRoleAction(
+  targetUserId: string,
+  role: UserRole
+): Promise<ChangeUserRoleResult> {
+  if (!ASSIGNABLE_ROLES.includes(role)) {
+    return { success: false, error: 'Invalid role.' };
+  }
+
   try {
-    user = await requireUser();
-  } catch {
-    unauthorized();
+    const admin = await requirePermission('users.manage_roles');
+
+    if (role === 'USER') {
+      await revokeUserRole(targetUserId, admin.id);
+    } else {
+      await assignUserRole(targetUserId, role, admin.id);
+    }
+
+    return { success: true, role };
+  } catch (error) {
+    const name = error instanceof Error ? error.name : 'UnknownError';
+    const message = error instanceof Error ? error.message : '';
+
+    if (DOMAIN_ERROR_MESSAGES[name]) {
+      return { success: false, error: DOMAIN_ERROR_MESSAGES[name] };
+    }
+    if (message.includes('not found')) {
+      return { success: false, error: 'User not found.' };
+    }
+
+    console.error('Error changing user role:', error);
+    return { success: false, error: 'Failed to change role. Please try again later.' };
   }
-  if (user!.role !== 'admin') forbidden();
+}
+
+/**
+ * Limit a moderator to cities and regions, or lift the limit with an empty scope.
+ * Audited as MODERATOR_SCOPE_UPDATE, including rejected attempts.
+ */
+export async function setModeratorScopeAction(
+  targetUserId: string,
+  input: ModeratorScopeInput
+): Promise<SetModeratorScopeResult> {
+  const parsed = moderatorScopeSchema.safeParse(input);
+  if (!parsed.success) {
+    return { success: false, error: 'Invalid scope.' };
+  }
+
+  try {
+    const admin = await requirePermission('users.manage_roles');
+    const scope = await setModeratorScope(targetUserId, parsed.data, admin.id);
+
+    return { success: true, scope };
+  } catch (error) {
+    const name = error instanceof Error ? error.name : 'UnknownError';
+    const message = error instanceof Error ? error.message : '';
 
-  // Proceed with deleting the application
-  console.log('Deleting application...');
-  await setTimeout(2000);
-  console.log('Application deleted successfully!');
-  return { success: true, message: 'Application deleted successfully!' };
+    if (DOMAIN_ERROR_MESSAGES[name]) {
+      return { success: false, error: DOMAIN_ERROR_MESSAGES[name] };
+    }
+    if (message.includes('not found')) {
+      return { success: false, error: 'User not found.' };
+    }
+
+    console.error('Error updating moderator scope:', error);
+    return { success: false, error: 'Failed to update scope. Please try again later.' };
+  }
+}
+
+/**
+ * Create a canned response, or replace an existing one when templateId is given.
+ * Audited as RESPONSE_TEMPLATE_CREATE / RESPONSE_TEMPLATE_UPDATE.
+ */
+export async function saveResponseTemplateAction(
+  templateId: number | null,
+  input: ResponseTemplateInput
+): Promise<SaveResponseTemplateResult> {
+  const parsed = responseTemplateSchema.safeParse(input);
+  if (!parsed.success) {
+    return { success: false, error: parsed.error.issues[0]?.message ?? 'Invalid template.' };
+  }
+
+  try {
+    const admin = await requirePermission('responses.manage');
+    const template = templateId
+      ? await updateResponseTemplate(templateId, parsed.data, admin.id)
+      : await createResponseTemplate(parsed.data, admin.id);
+
+    return { success: true, template };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+
+    if (error instanceof Error && error.name === 'PermissionError') {
+      return { success: false, error: 'You do not have permission to manage templates.' };
+    }
+    if (message.includes('not found')) {
+      return { success: false, error: 'Template not found.' };
+    }
+
+    console.error('Error saving response template:', error);
+    return { success: false, error: 'Failed to save template. Please try again later.' };
+  }
+}
+
+/**
+ * Delete a canned response. Audited as RESPONSE_TEMPLATE_DELETE.
+ */
+export async function deleteResponseTemplateAction(
+  templateId: number
+): Promise<DeleteResponseTemplateResult> {
+  try {
+    const admin = await requirePermission('responses.manage');
+    await deleteResponseTemplate(templateId, admin.id);
+
+    return { success: true };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+
+    if (error instanceof Error && error.name === 'PermissionError') {
+      return { success: false, error: 'You do not have permission to manage templates.' };
+    }
+    if (message.includes('not found')) {
+      return { success: false, error: 'Template not found.' };
+    }
+
+    console.error('Error deleting response template:', error);
+    return { success: false, error: 'Failed to delete template. Please try again later.' };
+  }
 }
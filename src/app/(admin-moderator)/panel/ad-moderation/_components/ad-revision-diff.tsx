@@ -0,0 +1,249 @@
+'use client';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { AD_REVISION_FIELD_LABELS } from '@/constants/ad-revision-config';
+import { resolveImageUrl } from '@/lib/image_system/image-utils-client';
+import { cn } from '@/lib/utils';
+import { useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { GitCompare, Loader2 } from 'lucide-react';
+import Image from 'next/image';
+import { useState } from 'react';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+type RevisionValue = string | number | boolean | null | string[];
+
+interface RevisionSnapshot {
+  category: string;
+  cityId: number;
+  details: Record<string, RevisionValue>;
+  media: string[];
+  coverStorageKey: string | null;
+}
+
+interface RevisionItem {
+  id: number;
+  revisionNumber: number;
+  createdAt: string;
+  approvedAt: string | null;
+  snapshot: RevisionSnapshot;
+}
+
+interface RevisionDiff {
+  current: RevisionItem;
+  approved: RevisionItem | null;
+  changedFields: string[];
+  materialFields: string[];
+  cityNames: Record<number, string>;
+}
+
+// =============================================================================
+// API Functions
+// =============================================================================
+
+async function fetchRevisionDiff(adId: number): Promise<RevisionDiff | null> {
+  const response = await fetch(`/api/moderator/ads/${adId}/revisions`);
+
+  if (!response.ok) {
+    throw new Error('Failed to fetch ad revisions');
+  }
+
+  const data = await response.json();
+  return data.data;
+}
+
+// =============================================================================
+// Utility Functions
+// =============================================================================
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}T/;
+
+const formatTimestamp = (value: string) => format(new Date(value), 'dd MMM yyyy, HH:mm');
+
+/** priceAmount -> Price amount */
+const getFieldLabel = (field: string) =>
+  AD_REVISION_FIELD_LABELS[field] ??
+  field
+    .replace(/([A-Z])/g, ' $1')
+    .replace(/^./, (c) => c.toUpperCase())
+    .trim();
+
+const formatValue = (value: RevisionValue | undefined): string => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : '—';
+  if (typeof value === 'string' && ISO_DATE_PATTERN.test(value)) {
+    return format(new Date(value), 'dd MMM yyyy');
+  }
+  return String(value);
+};
+
+function MediaStrip({ keys, cover }: { keys: string[]; cover: string | null }) {
+  if (keys.length === 0) return <span>—</span>;
+
+  return (
+    <div className="flex flex-wrap gap-1">
+      {keys.map((key) => {
+        const url = resolveImageUrl(key, { width: 120 });
+        return url ? (
+          <Image
+            key={key}
+            src={url}
+            alt=""
+            width={48}
+            height={48}
+            className={cn(
+              'h-12 w-12 rounded object-cover border',
+              key === cover && 'ring-2 ring-primary'
+            )}
+          />
+        ) : null;
+      })}
+    </div>
+  );
+}
+
+// =============================================================================
+// Main Component
+// =============================================================================
+
+/**
+ * Side-by-side diff of an ad's latest revision against the last approved one.
+ * Rendered in the review dialog; hidden for ads without revisions.
+ */
+export function AdRevisionDiff({ adId }: { adId: number }) {
+  const [showAll, setShowAll] = useState(false);
+
+  const { data: diff, isLoading } = useQuery({
+    queryKey: ['moderator-ad-revisions', adId],
+    queryFn: () => fetchRevisionDiff(adId),
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center gap-2 mb-4 text-sm text-gray-500">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        Loading revisions...
+      </div>
+    );
+  }
+
+  if (!diff) return null;
+
+  const { current, approved, changedFields, materialFields, cityNames } = diff;
+
+  if (!approved) {
+    return (
+      <div className="mb-4 p-4 bg-gray-50 rounded-lg border text-sm text-gray-600">
+        Revision {current.revisionNumber}. This ad has never been approved, so there is nothing to
+        compare against.
+      </div>
+    );
+  }
+
+  if (approved.revisionNumber === current.revisionNumber) {
+    return (
+      <div className="mb-4 p-4 bg-gray-50 rounded-lg border text-sm text-gray-600">
+        No edits since the last approval ({formatTimestamp(approved.approvedAt!)}).
+      </div>
+    );
+  }
+
+  const before = approved.snapshot;
+  const after = current.snapshot;
+  const detailFields = [
+    ...new Set([...Object.keys(before.details), ...Object.keys(after.details)]),
+  ];
+  const rows = ['cityId', ...detailFields, 'media', 'cover'].filter(
+    (field) => showAll || changedFields.includes(field)
+  );
+
+  const approvedLabel = `Rev. ${approved.revisionNumber}, ${formatTimestamp(approved.approvedAt!)}`;
+  const currentLabel = `Rev. ${current.revisionNumber}, ${formatTimestamp(current.createdAt)}`;
+
+  const renderCell = (snapshot: RevisionSnapshot, field: string) => {
+    switch (field) {
+      case 'cityId':
+        return cityNames[snapshot.cityId] ?? `#${snapshot.cityId}`;
+      case 'media':
+        return <MediaStrip keys={snapshot.media} cover={snapshot.coverStorageKey} />;
+      case 'cover':
+        return snapshot.coverStorageKey ? (
+          <MediaStrip keys={[snapshot.coverStorageKey]} cover={null} />
+        ) : (
+          '—'
+        );
+      default:
+        return formatValue(snapshot.details[field]);
+    }
+  };
+
+  return (
+    <div className="mb-4 rounded-lg border border-blue-200 overflow-hidden">
+      <div className="flex items-center justify-between gap-2 p-4 bg-blue-50">
+        <div>
+          <h3 className="flex items-center gap-2 text-sm font-medium text-blue-900">
+            <GitCompare className="h-4 w-4" />
+            Changes since last approval
+          </h3>
+          <p className="text-xs text-blue-800 mt-1">
+            {changedFields.length} field{changedFields.length === 1 ? '' : 's'} changed,{' '}
+            {materialFields.length} need{materialFields.length === 1 ? 's' : ''} review
+          </p>
+        </div>
+        <Button variant="outline" size="sm" onClick={() => setShowAll((value) => !value)}>
+          {showAll ? 'Changed fields only' : 'Show all fields'}
+        </Button>
+      </div>
+
+      <table className="w-full text-sm">
+        <thead className="bg-gray-50 text-left text-xs text-gray-500">
+          <tr>
+            <th className="p-2 w-1/5 font-medium">Field</th>
+            <th className="p-2 w-2/5 font-medium">
+              Last approved
+              <span className="block font-normal">{approvedLabel}</span>
+            </th>
+            <th className="p-2 w-2/5 font-medium">
+              This revision
+              <span className="block font-normal">{currentLabel}</span>
+            </th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((field) => {
+            const changed = changedFields.includes(field);
+            const material = materialFields.includes(field);
+            return (
+              <tr
+                key={field}
+                className={cn(
+                  'border-t align-top',
+                  material && 'bg-red-50',
+                  changed && !material && 'bg-yellow-50'
+                )}
+              >
+                <td className="p-2 font-medium text-gray-700">
+                  {getFieldLabel(field)}
+                  {changed && !material && (
+                    <Badge variant="outline" className="ml-2 text-[10px]">
+                      minor
+                    </Badge>
+                  )}
+                </td>
+                <td className="p-2 text-gray-600 break-words">{renderCell(before, field)}</td>
+                <td className={cn('p-2 break-words', changed ? 'text-gray-900' : 'text-gray-600')}>
+                  {renderCell(after, field)}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
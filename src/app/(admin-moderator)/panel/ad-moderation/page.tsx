@@ -30,13 +30,23 @@ import { Textarea } from '@/components/ui/textarea';
 import { UserAvatar } from '@/components/user-avatar';
 import { AD_CATEGORY_BY_ID } from '@/constants/ad-categories';
 import { AD_DETAIL_COMPONENTS } from '@/constants/ad-detail-components';
+import {
+  AD_REVIEW_COMMENT_MAX_LENGTH,
+  AD_REVIEW_FIELD_OPTIONS,
+  getAdReviewFieldLabel,
+  type AdReviewField,
+} from '@/constants/ad-review-fields';
+import { REVIEW_CLAIM_RENEW_INTERVAL_MS } from '@/constants/review-claim-config';
 import { useCities } from '@/contexts/cities-context';
+import type { AdForModerationDetails } from '@/data/moderator/ad-moderation.dal';
+import { useSession } from '@/lib/auth/client';
 import { resolveImageUrl } from '@/lib/image_system/image-utils-client';
 import { cn } from '@/lib/utils';
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { format } from 'date-fns';
 import {
   AlertCircle,
+  Ban,
   Calendar,
   Check,
   CheckCircle2,
@@ -48,27 +58,43 @@ import {
   Filter,
   Home,
   Loader2,
+  Lock,
   MapPin,
+  MessageSquareWarning,
   Package,
   Plane,
   RefreshCw,
   Search,
+  SkipForward,
   Wrench,
   X,
   XCircle,
 } from 'lucide-react';
+import { useSearchParams } from 'next/navigation';
 import { memo, useCallback, useEffect, useMemo, useState } from 'react';
 import { toast } from 'sonner';
+import {
+  FlagBadge,
+  FlagForAdminButton,
+  FlagNotice,
+  type OpenFlag,
+} from '../_components/flag-for-admin';
+import { ResponseTemplatePicker } from '../_components/response-template-picker';
+import { UserModerationNotes } from '../_components/user-moderation-notes';
+import { AdRevisionDiff } from './_components/ad-revision-diff';
 
 // =============================================================================
 // Types
 // =============================================================================
 
+type ModerationHistoryAction = AdForModerationDetails['moderationActions'][number];
+type ModerationFieldComment = ModerationHistoryAction['fieldComments'][number];
+
 interface AdForModeration {
   id: number;
   userId: string;
   category: 'HOUSING' | 'TRANSPORTATION' | 'MARKETPLACE' | 'SERVICES' | 'CURRENCY';
-  status: 'PENDING' | 'ONLINE' | 'REJECTED' | 'EXPIRED';
+  status: 'PENDING' | 'ONLINE' | 'REJECTED' | 'EXPIRED' | 'SUSPENDED' | 'CHANGES_REQUESTED';
   cityId: number;
   createdAt: string;
   updatedAt: string;
@@ -94,6 +120,12 @@ interface AdForModeration {
   } | null;
   _categoryTitle: string | null;
   _categorySummary: string | null;
+  reviewClaim: {
+    moderatorId: string;
+    moderatorName: string;
+    expiresAt: string;
+  } | null;
+  flag: OpenFlag | null;
 }
 
 interface AdModerationFilters {
@@ -177,6 +209,45 @@ async function fetchAdDetails(id: number) {
   return response.json();
 }
 
+async function claimAd(id: number) {
+  const response = await fetch(`/api/moderator/ads/${id}/claim`, { method: 'POST' });
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || 'Failed to claim ad');
+  }
+
+  return response.json();
+}
+
+async function releaseAdClaim(id: number) {
+  // keepalive so the release still goes out when the tab is closing
+  await fetch(`/api/moderator/ads/${id}/claim`, { method: 'DELETE', keepalive: true }).catch(
+    () => undefined
+  );
+}
+
+async function claimNextAd(filters: { category?: string; cityId?: string }) {
+  const response = await fetch('/api/moderator/ads/claim-next', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      category: filters.category || undefined,
+      cityId: filters.cityId ? Number(filters.cityId) : undefined,
+    }),
+  });
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || 'Failed to claim next ad');
+  }
+
+  const data = await response.json();
+  return data.data as { adId: number; expiresAt: string } | null;
+}
+
 async function approveAd(id: number, note?: string) {
   const response = await fetch(`/api/moderator/ads/${id}`, {
     method: 'PATCH',
@@ -215,6 +286,31 @@ async function rejectAd(id: number, reasonCode: string, reasonText?: string) {
   return response.json();
 }
 
+async function requestAdChanges(
+  id: number,
+  comments: { field: AdReviewField; comment: string }[],
+  note?: string
+) {
+  const response = await fetch(`/api/moderator/ads/${id}`, {
+    method: 'PATCH',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      action: 'request-changes',
+      comments,
+      note: note || undefined,
+    }),
+  });
+
+  if (!response.ok) {
+    const data = await response.json();
+    throw new Error(data.error || 'Failed to request changes');
+  }
+
+  return response.json();
+}
+
 async function changeAdStatus(id: number, newStatus: string, note?: string) {
   const response = await fetch(`/api/moderator/ads/${id}`, {
     method: 'PATCH',
@@ -250,6 +346,10 @@ const getStatusColor = (status: string) => {
       return 'bg-red-100 text-red-800 border-red-200';
     case 'EXPIRED':
       return 'bg-gray-100 text-gray-800 border-gray-200';
+    case 'SUSPENDED':
+      return 'bg-red-100 text-red-800 border-red-200';
+    case 'CHANGES_REQUESTED':
+      return 'bg-orange-100 text-orange-800 border-orange-200';
     default:
       return 'bg-gray-100 text-gray-800 border-gray-200';
   }
@@ -265,6 +365,10 @@ const getStatusIcon = (status: string) => {
       return <XCircle className="h-3 w-3" />;
     case 'EXPIRED':
       return <AlertCircle className="h-3 w-3" />;
+    case 'SUSPENDED':
+      return <Ban className="h-3 w-3" />;
+    case 'CHANGES_REQUESTED':
+      return <MessageSquareWarning className="h-3 w-3" />;
     default:
       return <AlertCircle className="h-3 w-3" />;
   }
@@ -310,13 +414,24 @@ const getReasonCodeDisplayName = (code: string) => {
 
 interface AdRowProps {
   ad: AdForModeration;
+  currentUserId: string | undefined;
   isSelected: boolean;
   onSelect: (id: number) => void;
   onReview: (ad: AdForModeration) => void;
 }
 
-const AdRow = memo(({ ad, isSelected, onSelect, onReview }: AdRowProps) => {
+const AdRow = memo(({ ad, currentUserId, isSelected, onSelect, onReview }: AdRowProps) => {
   const coverUrl = ad.coverMedia ? resolveImageUrl(ad.coverMedia.storageKey, { width: 200 }) : null;
+  const claimedBy =
+    ad.reviewClaim && ad.reviewClaim.moderatorId !== currentUserId
+      ? ad.reviewClaim.moderatorName
+      : null;
+  const claimBadge = claimedBy && (
+    <Badge variant="outline" className="text-xs text-amber-700 border-amber-300">
+      <Lock className="h-3 w-3 mr-1" />
+      Being reviewed by {claimedBy}
+    </Badge>
+  );
 
   return (
     <div className="lg:grid lg:grid-cols-12 gap-4 p-4 border rounded-lg hover:bg-gray-50">
@@ -352,6 +467,12 @@ const AdRow = memo(({ ad, isSelected, onSelect, onReview }: AdRowProps) => {
               {getCategoryIcon(ad.category)}
               <span>{getCategoryDisplayName(ad.category)}</span>
             </div>
+            {(claimBadge || ad.flag) && (
+              <div className="mt-1 flex flex-wrap gap-1">
+                {claimBadge}
+                <FlagBadge flag={ad.flag} />
+              </div>
+            )}
           </div>
         </div>
 
@@ -404,6 +525,12 @@ const AdRow = memo(({ ad, isSelected, onSelect, onReview }: AdRowProps) => {
             {ad._categoryTitle || 'Untitled Ad'}
           </div>
           <div className="text-xs text-gray-500 truncate">{ad._categorySummary}</div>
+          {(claimBadge || ad.flag) && (
+            <div className="mt-1 flex flex-wrap gap-1">
+              {claimBadge}
+              <FlagBadge flag={ad.flag} />
+            </div>
+          )}
         </div>
 
         <div className="col-span-1 flex items-center">
@@ -495,15 +622,31 @@ export default function AdModerationPage() {
     code: '',
     note: '',
   });
+  const [changesDialogOpen, setChangesDialogOpen] = useState(false);
+  // Checked fields map to their comment
+  const [changesForm, setChangesForm] = useState<{
+    comments: Partial<Record<AdReviewField, string>>;
+    note: string;
+  }>({ comments: {}, note: '' });
   const [statusChangeDialogOpen, setStatusChangeDialogOpen] = useState(false);
   const [statusChangeForm, setStatusChangeForm] = useState({
     newStatus: '',
     note: '',
   });
+  // Set when another moderator holds the review claim on the open ad
+  const [claimError, setClaimError] = useState<string | null>(null);
+  // "Review next" mode: after a decision, move straight on to the next unclaimed ad
+  const [queueMode, setQueueMode] = useState(false);
 
   // Query client
   const queryClient = useQueryClient();
 
+  const { data: session } = useSession();
+  const currentUserId = session?.user.id;
+
+  // ?review=<adId> opens that ad's review, e.g. from the flagged items view
+  const reviewParam = useSearchParams().get('review');
+
   // Cities from context
   const cities = useCities();
 
@@ -545,6 +688,77 @@ export default function AdModerationPage() {
     staleTime: 30 * 1000,
   });
 
+  // Claim the ad while its review dialog is open, renew periodically and release on close
+  useEffect(() => {
+    if (!reviewDialogOpen || !selectedAd || selectedAd.status !== 'PENDING') return;
+
+    const adId = selectedAd.id;
+    let cancelled = false;
+
+    const claim = () =>
+      claimAd(adId)
+        .then(() => !cancelled && setClaimError(null))
+        .catch((error: Error) => !cancelled && setClaimError(error.message));
+
+    claim();
+    const interval = setInterval(claim, REVIEW_CLAIM_RENEW_INTERVAL_MS);
+
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+      setClaimError(null);
+      releaseAdClaim(adId);
+    };
+  }, [reviewDialogOpen, selectedAd]);
+
+  const reviewNextAd = useCallback(async () => {
+    try {
+      const next = await claimNextAd({ category: filters.category, cityId: filters.cityId });
+
+      if (!next) {
+        toast.info('No unclaimed pending ads left');
+        setQueueMode(false);
+        setReviewDialogOpen(false);
+        setSelectedAd(null);
+        return;
+      }
+
+      const details = await fetchAdDetails(next.adId);
+      setQueueMode(true);
+      setSelectedAd(details.data);
+      setReviewDialogOpen(true);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to load next ad');
+    }
+  }, [filters.category, filters.cityId]);
+
+  useEffect(() => {
+    const adId = Number(reviewParam);
+    if (!Number.isInteger(adId) || adId <= 0) return;
+
+    fetchAdDetails(adId)
+      .then((details) => {
+        setSelectedAd(details.data);
+        setReviewDialogOpen(true);
+      })
+      .catch(() => toast.error('Failed to load ad'));
+  }, [reviewParam]);
+
+  // After a decision: next ad in queue mode, otherwise close the review
+  const finishReview = useCallback(() => {
+    if (queueMode) {
+      reviewNextAd();
+    } else {
+      setReviewDialogOpen(false);
+      setSelectedAd(null);
+    }
+  }, [queueMode, reviewNextAd]);
+
+  const handleReviewDialogChange = useCallback((open: boolean) => {
+    setReviewDialogOpen(open);
+    if (!open) setQueueMode(false);
+  }, []);
+
   // Mutations
   const approveMutation = useMutation({
     mutationFn: (id: number) => approveAd(id),
@@ -552,10 +766,11 @@ export default function AdModerationPage() {
       queryClient.invalidateQueries({ queryKey: ['moderator-ads'] });
       queryClient.invalidateQueries({ queryKey: ['moderator-ad-stats'] });
       toast.success('Ad approved successfully');
-      setReviewDialogOpen(false);
-      setSelectedAd(null);
+      finishReview();
     },
     onError: (error) => {
+      // Another moderator may have claimed or decided it meanwhile
+      queryClient.invalidateQueries({ queryKey: ['moderator-ads'] });
       toast.error(`Failed to approve: ${error.message}`);
     },
   });
@@ -568,15 +783,41 @@ export default function AdModerationPage() {
       queryClient.invalidateQueries({ queryKey: ['moderator-ad-stats'] });
       toast.success('Ad rejected successfully');
       setRejectionDialogOpen(false);
-      setReviewDialogOpen(false);
-      setSelectedAd(null);
       setRejectionForm({ code: '', note: '' });
+      finishReview();
     },
     onError: (error) => {
+      // Another moderator may have claimed or decided it meanwhile
+      queryClient.invalidateQueries({ queryKey: ['moderator-ads'] });
       toast.error(`Failed to reject: ${error.message}`);
     },
   });
 
+  const requestChangesMutation = useMutation({
+    mutationFn: ({
+      id,
+      comments,
+      note,
+    }: {
+      id: number;
+      comments: { field: AdReviewField; comment: string }[];
+      note?: string;
+    }) => requestAdChanges(id, comments, note),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['moderator-ads'] });
+      queryClient.invalidateQueries({ queryKey: ['moderator-ad-stats'] });
+      toast.success('Ad sent back to the owner');
+      setChangesDialogOpen(false);
+      setChangesForm({ comments: {}, note: '' });
+      finishReview();
+    },
+    onError: (error) => {
+      // Another moderator may have claimed or decided it meanwhile
+      queryClient.invalidateQueries({ queryKey: ['moderator-ads'] });
+      toast.error(`Failed to request changes: ${error.message}`);
+    },
+  });
+
   const statusChangeMutation = useMutation({
     mutationFn: ({ id, newStatus, note }: { id: number; newStatus: string; note?: string }) =>
       changeAdStatus(id, newStatus, note),
@@ -700,6 +941,38 @@ export default function AdModerationPage() {
     });
   }, [selectedAd, rejectionForm, rejectMutation]);
 
+  const changeComments = useMemo(
+    () =>
+      AD_REVIEW_FIELD_OPTIONS.filter((o) => changesForm.comments[o.value] !== undefined).map(
+        (o) => ({ field: o.value, comment: (changesForm.comments[o.value] ?? '').trim() })
+      ),
+    [changesForm.comments]
+  );
+  const canSubmitChanges =
+    changeComments.length > 0 && changeComments.every((c) => c.comment.length >= 3);
+
+  const toggleChangeField = useCallback((field: AdReviewField, checked: boolean) => {
+    setChangesForm((prev) => {
+      const comments = { ...prev.comments };
+      if (checked) {
+        comments[field] = comments[field] ?? '';
+      } else {
+        delete comments[field];
+      }
+      return { ...prev, comments };
+    });
+  }, []);
+
+  const handleConfirmRequestChanges = useCallback(() => {
+    if (!selectedAd || !canSubmitChanges) return;
+
+    requestChangesMutation.mutate({
+      id: selectedAd.id,
+      comments: changeComments,
+      note: changesForm.note.trim(),
+    });
+  }, [selectedAd, canSubmitChanges, changeComments, changesForm.note, requestChangesMutation]);
+
   const handleConfirmStatusChange = useCallback(() => {
     if (!selectedAd || !statusChangeForm.newStatus) return;
 
@@ -741,6 +1014,10 @@ export default function AdModerationPage() {
   const ads = adsData?.data?.ads || [];
   const stats = statsData?.data;
   const details = detailsData?.data;
+  // Flags don't decide anything, so skip them when looking for the last decision
+  const lastDecision = details?.moderationActions?.find(
+    (action: ModerationHistoryAction) => action.action !== 'FLAG' && action.action !== 'UNFLAG'
+  );
 
   // Render ad details based on category
   const renderAdDetails = () => {
@@ -767,6 +1044,10 @@ export default function AdModerationPage() {
               <p className="text-gray-600">Review and manage user advertisements</p>
             </div>
             <div className="flex items-center gap-3">
+              <Button size="sm" onClick={reviewNextAd}>
+                <SkipForward className="h-4 w-4 mr-2" />
+                Review next
+              </Button>
               <Button variant="outline" size="sm" onClick={handleRefresh} disabled={isLoadingAds}>
                 <RefreshCw className={`h-4 w-4 mr-2 ${isLoadingAds ? 'animate-spin' : ''}`} />
                 Refresh
@@ -875,6 +1156,8 @@ export default function AdModerationPage() {
                     <SelectItem value="ONLINE">Online</SelectItem>
                     <SelectItem value="REJECTED">Rejected</SelectItem>
                     <SelectItem value="EXPIRED">Expired</SelectItem>
+                    <SelectItem value="SUSPENDED">Suspended</SelectItem>
+                    <SelectItem value="CHANGES_REQUESTED">Changes requested</SelectItem>
                   </SelectContent>
                 </Select>
 
@@ -1042,6 +1325,7 @@ export default function AdModerationPage() {
                     <AdRow
                       key={ad.id}
                       ad={ad}
+                      currentUserId={currentUserId}
                       isSelected={selectedAds.has(ad.id)}
                       onSelect={handleSelectAd}
                       onReview={handleReviewAd}
@@ -1105,7 +1389,7 @@ export default function AdModerationPage() {
         </Card>
 
         {/* Review Dialog */}
-        <Dialog open={reviewDialogOpen} onOpenChange={setReviewDialogOpen}>
+        <Dialog open={reviewDialogOpen} onOpenChange={handleReviewDialogChange}>
           <DialogContent className="w-full sm:max-w-[95vw] max-w-[95vw] xl:max-w-[1600px] h-[90vh] overflow-hidden p-0">
             <DialogHeader className="p-6 pb-0">
               <DialogTitle className="flex items-center gap-2">
@@ -1115,7 +1399,7 @@ export default function AdModerationPage() {
                 )}
               </DialogTitle>
               <DialogDescription>
-                Review the ad details and approve or reject this advertisement.
+                Review the ad details and approve, reject or request changes to this advertisement.
               </DialogDescription>
             </DialogHeader>
 
@@ -1155,31 +1439,80 @@ export default function AdModerationPage() {
                   </div>
                 </div>
 
+                {claimError && (
+                  <div className="flex items-center gap-2 mb-4 p-4 bg-amber-50 rounded-lg border border-amber-200 text-sm text-amber-900">
+                    <Lock className="h-4 w-4 shrink-0" />
+                    {claimError}. You can look, but decisions are locked until they finish.
+                  </div>
+                )}
+
+                <FlagNotice flag={details.flag} />
+
+                <UserModerationNotes userId={details.user.id} className="mb-4" />
+
+                {/* Resubmitted after a change request: show what was asked */}
+                {details.status === 'PENDING' && lastDecision?.action === 'REQUEST_CHANGES' && (
+                  <div className="mb-4 p-4 bg-orange-50 rounded-lg border border-orange-200 text-sm">
+                    <h3 className="font-medium text-orange-900 mb-2">
+                      Resubmitted after a change request
+                    </h3>
+                    <ul className="space-y-1">
+                      {lastDecision.fieldComments.map((c: ModerationFieldComment) => (
+                        <li key={c.field} className="text-orange-900">
+                          <span className="font-medium">{getAdReviewFieldLabel(c.field)}:</span>{' '}
+                          {c.comment}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
+                {/* What changed since the last approval */}
+                <AdRevisionDiff adId={details.id} />
+
                 {/* Moderation History */}
                 {details.moderationActions && details.moderationActions.length > 0 && (
                   <div className="mb-4 p-4 bg-amber-50 rounded-lg border border-amber-200">
                     <h3 className="text-sm font-medium text-amber-900 mb-2">Moderation History</h3>
                     <div className="space-y-2">
                       {details.moderationActions.slice(0, 5).map((action: any) => (
-                        <div key={action.id} className="flex items-center justify-between text-sm">
-                          <div className="flex items-center gap-2">
-                            <Badge
-                              variant="outline"
-                              className={
-                                action.action === 'APPROVE'
-                                  ? 'text-green-700 border-green-300'
-                                  : 'text-red-700 border-red-300'
-                              }
-                            >
-                              {action.action}
-                            </Badge>
-                            <span className="text-gray-600">
-                              by {action.actor.name || action.actor.userId || 'Unknown'}
+                        <div key={action.id} className="text-sm">
+                          <div className="flex items-center justify-between">
+                            <div className="flex items-center gap-2">
+                              <Badge
+                                variant="outline"
+                                className={
+                                  action.action === 'APPROVE'
+                                    ? 'text-green-700 border-green-300'
+                                    : action.action === 'REQUEST_CHANGES'
+                                      ? 'text-orange-700 border-orange-300'
+                                      : action.action === 'FLAG' || action.action === 'UNFLAG'
+                                        ? 'text-gray-700 border-gray-300'
+                                        : 'text-red-700 border-red-300'
+                                }
+                              >
+                                {action.action}
+                              </Badge>
+                              <span className="text-gray-600">
+                                by{' '}
+                                {action.actor
+                                  ? action.actor.name || action.actor.userId || 'Unknown'
+                                  : 'System'}
+                              </span>
+                            </div>
+                            <span className="text-gray-500">
+                              {format(new Date(action.createdAt), 'MMM d, yyyy')}
                             </span>
                           </div>
-                          <span className="text-gray-500">
-                            {format(new Date(action.createdAt), 'MMM d, yyyy')}
-                          </span>
+                          {action.fieldComments?.length > 0 && (
+                            <ul className="mt-1 ml-2 space-y-0.5 text-xs text-gray-600">
+                              {action.fieldComments.map((c: ModerationFieldComment) => (
+                                <li key={c.field}>
+                                  {getAdReviewFieldLabel(c.field)}: {c.comment}
+                                </li>
+                              ))}
+                            </ul>
+                          )}
                         </div>
                       ))}
                     </div>
@@ -1191,23 +1524,49 @@ export default function AdModerationPage() {
 
                 {/* Action Buttons - Always visible for all statuses */}
                 <div className="flex justify-between items-center gap-3 pt-6 mt-6 border-t">
-                  {/* Change Status Button - Available for all statuses */}
-                  <Button
-                    variant="outline"
-                    onClick={handleOpenStatusChange}
-                    disabled={statusChangeMutation.isPending}
-                  >
-                    <RefreshCw className="h-4 w-4 mr-2" />
-                    Change Status
-                  </Button>
+                  <div className="flex gap-3">
+                    {/* Change Status Button - Available for all statuses */}
+                    <Button
+                      variant="outline"
+                      onClick={handleOpenStatusChange}
+                      disabled={statusChangeMutation.isPending || !!claimError}
+                    >
+                      <RefreshCw className="h-4 w-4 mr-2" />
+                      Change Status
+                    </Button>
+
+                    {/* Escalate without deciding; allowed while someone else holds the claim */}
+                    <FlagForAdminButton
+                      targetType="AD"
+                      targetId={details.id}
+                      flagged={!!details.flag}
+                      onFlagged={() => {
+                        queryClient.invalidateQueries({ queryKey: ['moderator-ads'] });
+                        queryClient.invalidateQueries({ queryKey: ['moderator-ad-details'] });
+                      }}
+                    />
+                  </div>
 
                   <div className="flex gap-3">
+                    {/* Request Changes - Sends a pending ad back to its owner */}
+                    {details.status === 'PENDING' && (
+                      <Button
+                        variant="outline"
+                        onClick={() => setChangesDialogOpen(true)}
+                        disabled={requestChangesMutation.isPending || !!claimError}
+                        className="text-orange-700 border-orange-300 hover:bg-orange-50"
+                      >
+                        <MessageSquareWarning className="h-4 w-4 mr-2" />
+                        Request Changes
+                      </Button>
+                    )}
+
                     {/* Quick Reject - For non-rejected ads */}
                     {details.status !== 'REJECTED' && (
                       <Button
                         variant="outline"
                         onClick={() => setRejectionDialogOpen(true)}
-                        disabled={rejectMutation.isPending}
+                        disabled={rejectMutation.isPending || !!claimError}
                         className="text-red-600 border-red-300 hover:bg-red-50"
                       >
                         <X className="h-4 w-4 mr-2" />
@@ -1219,7 +1578,7 @@ export default function AdModerationPage() {
                     {details.status !== 'ONLINE' && (
                       <Button
                         onClick={() => approveMutation.mutate(details.id)}
-                        disabled={approveMutation.isPending}
+                        disabled={approveMutation.isPending || !!claimError}
                         className="bg-green-600 hover:bg-green-700"
                       >
                         {approveMutation.isPending && (
@@ -1274,14 +1633,26 @@ export default function AdModerationPage() {
                 </Select>
               </div>
 
+              <ResponseTemplatePicker
+                targetType="AD"
+                code={rejectionForm.code}
+                values={{
+                  adTitle: details?._categoryTitle ?? (selectedAd ? `ad #${selectedAd.id}` : null),
+                  city: details?.city?.name,
+                  userName: details?.user?.name,
+                }}
+                onPick={(text) => setRejectionForm((prev) => ({ ...prev, note: text }))}
+              />
+
               <div>
                 <Label htmlFor="rejection-note">Additional Notes (Optional)</Label>
                 <Textarea
                   id="rejection-note"
+                  dir="auto"
                   placeholder="Provide specific feedback to help the user understand what needs to be corrected..."
                   value={rejectionForm.note}
                   onChange={(e) => setRejectionForm((prev) => ({ ...prev, note: e.target.value }))}
-                  rows={3}
+                  rows={5}
                 />
               </div>
             </div>
@@ -1308,6 +1679,88 @@ export default function AdModerationPage() {
           </DialogContent>
         </Dialog>
 
+        {/* Request Changes Dialog */}
+        <Dialog open={changesDialogOpen} onOpenChange={setChangesDialogOpen}>
+          <DialogContent className="max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>Request Changes</DialogTitle>
+              <DialogDescription>
+                Pick the parts of the ad that need work and tell the owner what to fix. The ad goes
+                back to them for editing and returns to the queue once they save it.
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-3">
+              {AD_REVIEW_FIELD_OPTIONS.map((option) => {
+                const checked = changesForm.comments[option.value] !== undefined;
+                return (
+                  <div key={option.value} className="space-y-2">
+                    <div className="flex items-center gap-2">
+                      <Checkbox
+                        id={`change-field-${option.value}`}
+                        checked={checked}
+                        onCheckedChange={(value) => toggleChangeField(option.value, value === true)}
+                      />
+                      <Label htmlFor={`change-field-${option.value}`}>{option.label}</Label>
+                      {option.description && (
+                        <span className="text-xs text-gray-500">{option.description}</span>
+                      )}
+                    </div>
+                    {checked && (
+                      <Textarea
+                        placeholder={`What should change in ${option.label.toLowerCase()}?`}
+                        value={changesForm.comments[option.value] ?? ''}
+                        onChange={(e) =>
+                          setChangesForm((prev) => ({
+                            ...prev,
+                            comments: { ...prev.comments, [option.value]: e.target.value },
+                          }))
+                        }
+                        maxLength={AD_REVIEW_COMMENT_MAX_LENGTH}
+                        rows={2}
+                      />
+                    )}
+                  </div>
+                );
+              })}
+
+              <div>
+                <Label htmlFor="changes-note">Message to the owner (Optional)</Label>
+                <Textarea
+                  id="changes-note"
+                  placeholder="Anything else they should know..."
+                  value={changesForm.note}
+                  onChange={(e) => setChangesForm((prev) => ({ ...prev, note: e.target.value }))}
+                  maxLength={AD_REVIEW_COMMENT_MAX_LENGTH}
+                  rows={2}
+                />
+              </div>
+            </div>
+
+            <div className="flex justify-end gap-3 pt-4">
+              <Button
+                variant="outline"
+                onClick={() => {
+                  setChangesDialogOpen(false);
+                  setChangesForm({ comments: {}, note: '' });
+                }}
+              >
+                Cancel
+              </Button>
+              <Button
+                onClick={handleConfirmRequestChanges}
+                disabled={!canSubmitChanges || requestChangesMutation.isPending}
+                className="bg-orange-600 hover:bg-orange-700"
+              >
+                {requestChangesMutation.isPending && (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                )}
+                Send Back to Owner
+              </Button>
+            </div>
+          </DialogContent>
+        </Dialog>
+
         {/* Status Change Dialog */}
         <Dialog open={statusChangeDialogOpen} onOpenChange={setStatusChangeDialogOpen}>
           <DialogContent>
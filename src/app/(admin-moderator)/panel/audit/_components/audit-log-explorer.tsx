@@ -0,0 +1,592 @@
+'use client';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import * as Enum from '@/generated/enums';
+import { cn } from '@/lib/utils';
+import { useInfiniteQuery, useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { Download, Eye, EyeOff, Loader2, RefreshCw, ScrollText, Search, X } from 'lucide-react';
+import { memo, useState, type FormEvent } from 'react';
+import { toast } from 'sonner';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface AuditLogListItem {
+  id: number;
+  createdAt: string;
+  actorUserId: string | null;
+  actorRole: string | null;
+  actor: { name: string | null; email: string; userId: string | null } | null;
+  action: string;
+  outcome: 'SUCCESS' | 'FAILURE';
+  errorCode: string | null;
+  entityType: string;
+  entityId: number | null;
+  entityRef: string | null;
+  requestId: string | null;
+  sessionId: string | null;
+  ip: string | null;
+  userAgent: string | null;
+  note: string | null;
+  hiddenFromUser: boolean;
+}
+
+interface AuditLogDetails extends AuditLogListItem {
+  metadata: unknown;
+  relatedEntries: AuditLogListItem[];
+}
+
+interface AuditLogPage {
+  entries: AuditLogListItem[];
+  nextCursor: string | null;
+}
+
+interface AuditFilters {
+  actor: string;
+  action: string;
+  entityType: string;
+  entity: string;
+  outcome: string;
+  requestId: string;
+  ip: string;
+  from: string;
+  to: string;
+}
+
+const EMPTY_FILTERS: AuditFilters = {
+  actor: '',
+  action: 'all',
+  entityType: 'all',
+  entity: '',
+  outcome: 'all',
+  requestId: '',
+  ip: '',
+  from: '',
+  to: '',
+};
+
+const ACTION_OPTIONS = Object.values(Enum.AuditAction);
+const ENTITY_TYPE_OPTIONS = Object.values(Enum.AuditEntityType);
+const PAGE_SIZE = 50;
+
+// =============================================================================
+// API Functions
+// =============================================================================
+
+function buildSearchParams(filters: AuditFilters): URLSearchParams {
+  const searchParams = new URLSearchParams();
+
+  Object.entries(filters).forEach(([key, value]) => {
+    const trimmed = value.trim();
+    if (!trimmed || trimmed === 'all') return;
+    // datetime-local values carry no zone; send them as the admin's local time
+    searchParams.append(
+      key,
+      key === 'from' || key === 'to' ? new Date(trimmed).toISOString() : trimmed
+    );
+  });
+
+  return searchParams;
+}
+
+async function fetchAuditLogs(filters: AuditFilters, cursor: string | null): Promise<AuditLogPage> {
+  const searchParams = buildSearchParams(filters);
+  searchParams.set('limit', String(PAGE_SIZE));
+  if (cursor) searchParams.set('cursor', cursor);
+
+  const response = await fetch(`/api/admin/audit-logs?${searchParams}`);
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || 'Failed to fetch audit logs');
+  }
+
+  const data = await response.json();
+  return data.data;
+}
+
+async function fetchAuditLogDetails(id: number): Promise<AuditLogDetails> {
+  const response = await fetch(`/api/admin/audit-logs/${id}`);
+
+  if (!response.ok) {
+    throw new Error('Failed to fetch audit entry');
+  }
+
+  const data = await response.json();
+  return data.data;
+}
+
+async function setEntryHiddenFromUser(id: number, hiddenFromUser: boolean) {
+  const response = await fetch(`/api/admin/audit-logs/${id}`, {
+    method: 'PATCH',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ hiddenFromUser }),
+  });
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || 'Failed to update audit entry');
+  }
+
+  return response.json();
+}
+
+// =============================================================================
+// Utility Functions
+// =============================================================================
+
+const formatTimestamp = (value: string) => format(new Date(value), 'dd MMM yyyy, HH:mm:ss');
+
+const formatActor = (entry: AuditLogListItem) => {
+  if (entry.actor) return entry.actor.name || entry.actor.userId || entry.actor.email;
+  if (entry.actorUserId) return entry.actorUserId;
+  return entry.actorRole === 'SYSTEM' ? 'System' : 'Anonymous';
+};
+
+const formatEntity = (entry: AuditLogListItem) => {
+  const id = entry.entityId ?? entry.entityRef;
+  return id !== null ? `${entry.entityType} #${id}` : entry.entityType;
+};
+
+const getOutcomeColor = (outcome: AuditLogListItem['outcome']) =>
+  outcome === 'SUCCESS'
+    ? 'bg-green-100 text-green-800 border-green-200'
+    : 'bg-red-100 text-red-800 border-red-200';
+
+// =============================================================================
+// Memoized Components
+// =============================================================================
+
+interface AuditRowProps {
+  entry: AuditLogListItem;
+  onSelect: (id: number) => void;
+}
+
+const AuditRow = memo(function AuditRow({ entry, onSelect }: AuditRowProps) {
+  return (
+    <button
+      type="button"
+      onClick={() => onSelect(entry.id)}
+      className="w-full text-left flex flex-col md:flex-row md:items-center gap-2 md:gap-4 p-3 border rounded-lg hover:bg-gray-50"
+    >
+      <span className="text-xs text-muted-foreground md:w-40 shrink-0">
+        {formatTimestamp(entry.createdAt)}
+      </span>
+      <div className="flex flex-wrap items-center gap-2 md:w-72 shrink-0">
+        <span className="font-mono text-sm font-medium">{entry.action}</span>
+        <Badge className={getOutcomeColor(entry.outcome)}>{entry.outcome}</Badge>
+        {entry.hiddenFromUser && <EyeOff className="h-3.5 w-3.5 text-muted-foreground" />}
+      </div>
+      <span className="text-sm truncate md:w-48">
+        {formatActor(entry)}
+        {entry.actorRole && (
+          <span className="text-xs text-muted-foreground"> · {entry.actorRole}</span>
+        )}
+      </span>
+      <span className="text-sm text-muted-foreground truncate flex-1">{formatEntity(entry)}</span>
+      <span className="text-xs text-muted-foreground font-mono truncate md:w-28">
+        {entry.ip ?? '—'}
+      </span>
+    </button>
+  );
+});
+
+const DetailField = memo(function DetailField({
+  label,
+  value,
+  mono,
+}: {
+  label: string;
+  value: string | number | null | undefined;
+  mono?: boolean;
+}) {
+  return (
+    <div className="min-w-0">
+      <p className="text-xs font-medium text-muted-foreground">{label}</p>
+      <p className={cn('text-sm break-all', mono && 'font-mono')}>{value ?? '—'}</p>
+    </div>
+  );
+});
+
+// =============================================================================
+// Main Component
+// =============================================================================
+
+export function AuditLogExplorer({ canHideEntries }: { canHideEntries: boolean }) {
+  const queryClient = useQueryClient();
+  const [draftFilters, setDraftFilters] = useState<AuditFilters>(EMPTY_FILTERS);
+  const [filters, setFilters] = useState<AuditFilters>(EMPTY_FILTERS);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+
+  const { data, error, isLoading, isFetchingNextPage, hasNextPage, fetchNextPage, refetch } =
+    useInfiniteQuery({
+      queryKey: ['admin-audit-logs', filters],
+      queryFn: ({ pageParam }) => fetchAuditLogs(filters, pageParam),
+      initialPageParam: null as string | null,
+      getNextPageParam: (lastPage) => lastPage.nextCursor,
+      staleTime: 30 * 1000,
+    });
+
+  const { data: details, isLoading: isLoadingDetails } = useQuery({
+    queryKey: ['admin-audit-log-details', selectedId],
+    queryFn: () => fetchAuditLogDetails(selectedId as number),
+    enabled: selectedId !== null,
+    staleTime: 60 * 1000,
+  });
+
+  const visibilityMutation = useMutation({
+    mutationFn: ({ id, hiddenFromUser }: { id: number; hiddenFromUser: boolean }) =>
+      setEntryHiddenFromUser(id, hiddenFromUser),
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['admin-audit-logs'] });
+      queryClient.invalidateQueries({ queryKey: ['admin-audit-log-details'] });
+      toast.success(result.message);
+    },
+    onError: (error) => {
+      toast.error(error.message);
+    },
+  });
+
+  const entries = data?.pages.flatMap((page) => page.entries) ?? [];
+
+  const updateDraft = (key: keyof AuditFilters, value: string) => {
+    setDraftFilters((prev) => ({ ...prev, [key]: value }));
+  };
+
+  const applyFilters = (next: AuditFilters) => {
+    setDraftFilters(next);
+    setFilters(next);
+  };
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    applyFilters(draftFilters);
+  };
+
+  const showRequest = (requestId: string) => {
+    setSelectedId(null);
+    applyFilters({ ...EMPTY_FILTERS, requestId });
+  };
+
+  const exportHref = (exportFormat: 'csv' | 'ndjson') => {
+    const searchParams = buildSearchParams(filters);
+    searchParams.set('format', exportFormat);
+    return `/api/admin/audit-logs/export?${searchParams}`;
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto space-y-6">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+        <div>
+          <h1 className="text-2xl font-bold flex items-center gap-2">
+            <ScrollText className="h-6 w-6 text-slate-600" />
+            Audit Log
+          </h1>
+          <p className="text-muted-foreground">Search everything recorded by the audit system</p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={() => refetch()}>
+            <RefreshCw className="h-4 w-4 mr-2" />
+            Refresh
+          </Button>
+          <Button variant="outline" size="sm" asChild>
+            <a href={exportHref('csv')}>
+              <Download className="h-4 w-4 mr-2" />
+              CSV
+            </a>
+          </Button>
+          <Button variant="outline" size="sm" asChild>
+            <a href={exportHref('ndjson')}>
+              <Download className="h-4 w-4 mr-2" />
+              NDJSON
+            </a>
+          </Button>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <Card>
+        <CardContent className="p-4">
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="audit-actor">Actor</Label>
+                <Input
+                  id="audit-actor"
+                  value={draftFilters.actor}
+                  onChange={(e) => updateDraft('actor', e.target.value)}
+                  placeholder="User id, email or handle"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>Action</Label>
+                <Select value={draftFilters.action} onValueChange={(v) => updateDraft('action', v)}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Action" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All actions</SelectItem>
+                    {ACTION_OPTIONS.map((action) => (
+                      <SelectItem key={action} value={action}>
+                        {action}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>Entity type</Label>
+                <Select
+                  value={draftFilters.entityType}
+                  onValueChange={(v) => updateDraft('entityType', v)}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Entity type" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All entity types</SelectItem>
+                    {ENTITY_TYPE_OPTIONS.map((entityType) => (
+                      <SelectItem key={entityType} value={entityType}>
+                        {entityType}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="audit-entity">Entity ID</Label>
+                <Input
+                  id="audit-entity"
+                  value={draftFilters.entity}
+                  onChange={(e) => updateDraft('entity', e.target.value)}
+                  placeholder="e.g. 42 or a user id"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>Outcome</Label>
+                <Select
+                  value={draftFilters.outcome}
+                  onValueChange={(v) => updateDraft('outcome', v)}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Outcome" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All outcomes</SelectItem>
+                    <SelectItem value="SUCCESS">Success</SelectItem>
+                    <SelectItem value="FAILURE">Failure</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="audit-request">Request ID</Label>
+                <Input
+                  id="audit-request"
+                  value={draftFilters.requestId}
+                  onChange={(e) => updateDraft('requestId', e.target.value)}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="audit-ip">IP address</Label>
+                <Input
+                  id="audit-ip"
+                  value={draftFilters.ip}
+                  onChange={(e) => updateDraft('ip', e.target.value)}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <div className="space-y-1">
+                  <Label htmlFor="audit-from">From</Label>
+                  <Input
+                    id="audit-from"
+                    type="datetime-local"
+                    value={draftFilters.from}
+                    onChange={(e) => updateDraft('from', e.target.value)}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="audit-to">To</Label>
+                  <Input
+                    id="audit-to"
+                    type="datetime-local"
+                    value={draftFilters.to}
+                    onChange={(e) => updateDraft('to', e.target.value)}
+                  />
+                </div>
+              </div>
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="ghost" onClick={() => applyFilters(EMPTY_FILTERS)}>
+                <X className="h-4 w-4 mr-2" />
+                Reset
+              </Button>
+              <Button type="submit">
+                <Search className="h-4 w-4 mr-2" />
+                Search
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+
+      {/* Results */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Entries</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {isLoading ? (
+            <div className="flex justify-center py-12">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : error ? (
+            <p className="text-center py-12 text-red-600">{error.message}</p>
+          ) : entries.length === 0 ? (
+            <p className="text-center py-12 text-muted-foreground">
+              No entries match these filters.
+            </p>
+          ) : (
+            entries.map((entry) => (
+              <AuditRow key={entry.id} entry={entry} onSelect={setSelectedId} />
+            ))
+          )}
+
+          {hasNextPage && (
+            <div className="flex justify-center pt-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => fetchNextPage()}
+                disabled={isFetchingNextPage}
+              >
+                {isFetchingNextPage && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Load more
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Drill-down Dialog */}
+      <Dialog open={selectedId !== null} onOpenChange={(open) => !open && setSelectedId(null)}>
+        <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Audit entry #{selectedId}</DialogTitle>
+            <DialogDescription>
+              {details ? `${details.action} · ${formatTimestamp(details.createdAt)}` : 'Loading…'}
+            </DialogDescription>
+          </DialogHeader>
+
+          {isLoadingDetails || !details ? (
+            <div className="flex justify-center py-12">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : (
+            <div className="space-y-5">
+              <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+                <DetailField label="Outcome" value={details.outcome} />
+                <DetailField label="Error code" value={details.errorCode} mono />
+                <DetailField label="Entity" value={formatEntity(details)} />
+                <DetailField label="Actor" value={formatActor(details)} />
+                <DetailField label="Actor ID" value={details.actorUserId} mono />
+                <DetailField label="Actor role" value={details.actorRole} />
+                <DetailField label="Request ID" value={details.requestId} mono />
+                <DetailField label="Session ID" value={details.sessionId} mono />
+                <DetailField label="IP" value={details.ip} mono />
+              </div>
+              <DetailField label="User agent" value={details.userAgent} />
+              <DetailField label="Note" value={details.note} />
+              {(details.hiddenFromUser || canHideEntries) && (
+                <div className="flex items-center justify-between gap-2">
+                  <p className="text-sm text-muted-foreground flex items-center gap-2">
+                    {details.hiddenFromUser ? (
+                      <EyeOff className="h-4 w-4" />
+                    ) : (
+                      <Eye className="h-4 w-4" />
+                    )}
+                    {details.hiddenFromUser
+                      ? "Hidden from the user's activity feed"
+                      : "Shown in the user's activity feed"}
+                  </p>
+                  {canHideEntries && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() =>
+                        visibilityMutation.mutate({
+                          id: details.id,
+                          hiddenFromUser: !details.hiddenFromUser,
+                        })
+                      }
+                      disabled={visibilityMutation.isPending}
+                    >
+                      {visibilityMutation.isPending && (
+                        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                      )}
+                      {details.hiddenFromUser ? 'Show to user' : 'Hide from user'}
+                    </Button>
+                  )}
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <p className="text-sm font-medium text-muted-foreground">Metadata</p>
+                <pre className="rounded-lg border bg-muted/50 p-3 text-xs overflow-x-auto max-h-80">
+                  {details.metadata ? JSON.stringify(details.metadata, null, 2) : '—'}
+                </pre>
+              </div>
+
+              {details.requestId && (
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <p className="text-sm font-medium text-muted-foreground">
+                      Same request ({details.relatedEntries.length})
+                    </p>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => details.requestId && showRequest(details.requestId)}
+                    >
+                      Show in list
+                    </Button>
+                  </div>
+                  {details.relatedEntries.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No other entries</p>
+                  ) : (
+                    <div className="space-y-2">
+                      {details.relatedEntries.map((entry) => (
+                        <AuditRow key={entry.id} entry={entry} onSelect={setSelectedId} />
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
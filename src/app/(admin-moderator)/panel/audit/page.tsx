@@ -0,0 +1,11 @@
+import { hasPermission, requireUser } from '@/lib/auth/server';
+import { forbidden } from 'next/navigation';
+import { AuditLogExplorer } from './_components/audit-log-explorer';
+
+export default async function AuditLogPage() {
+  const user = await requireUser();
+  // The panel layout lets moderators in; the audit log is admin-only
+  if (!hasPermission(user.role, 'audit.view')) forbidden();
+
+  return <AuditLogExplorer canHideEntries={hasPermission(user.role, 'audit.hide_entries')} />;
+}
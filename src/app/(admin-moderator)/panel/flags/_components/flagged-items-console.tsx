@@ -0,0 +1,330 @@
+'use client';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  FLAG_NOTE_MAX_LENGTH,
+  FLAG_TARGET_LABELS,
+  getFlaggedItemHref,
+  type FlagTargetType,
+} from '@/constants/moderation-flag-config';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { CheckCircle, ChevronLeft, ChevronRight, ExternalLink, Flag, Loader2 } from 'lucide-react';
+import Link from 'next/link';
+import { useState } from 'react';
+import { toast } from 'sonner';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+type FlagState = 'open' | 'resolved';
+
+interface FlaggedItem {
+  id: number;
+  targetType: FlagTargetType;
+  targetId: number;
+  note: string;
+  createdAt: string;
+  flaggedBy: { name: string; userId: string | null };
+  resolvedAt: string | null;
+  resolvedBy: { name: string; userId: string | null } | null;
+  resolutionNote: string | null;
+  target: { label: string; status: string; cityName: string } | null;
+}
+
+interface FlaggedItemsResult {
+  items: FlaggedItem[];
+  total: number;
+  totalPages: number;
+  page: number;
+  limit: number;
+}
+
+// =============================================================================
+// API Functions
+// =============================================================================
+
+async function fetchFlaggedItems(
+  state: FlagState,
+  targetType: string,
+  page: number
+): Promise<FlaggedItemsResult> {
+  const params = new URLSearchParams({ state, targetType, page: String(page) });
+  const response = await fetch(`/api/moderator/flags?${params}`);
+
+  if (!response.ok) {
+    throw new Error('Failed to fetch flagged items');
+  }
+
+  const data = await response.json();
+  return data.data;
+}
+
+async function resolveFlag({ id, resolutionNote }: { id: number; resolutionNote: string }) {
+  const response = await fetch(`/api/moderator/flags/${id}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ resolutionNote: resolutionNote || undefined }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to resolve flag');
+  }
+
+  return response.json();
+}
+
+// =============================================================================
+// Main Component
+// =============================================================================
+
+/**
+ * Admin view of items moderators flagged for review
+ */
+export function FlaggedItemsConsole() {
+  const queryClient = useQueryClient();
+  const [state, setState] = useState<FlagState>('open');
+  const [targetType, setTargetType] = useState('all');
+  const [page, setPage] = useState(1);
+  const [resolveTarget, setResolveTarget] = useState<FlaggedItem | null>(null);
+  const [resolutionNote, setResolutionNote] = useState('');
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['admin-flags', state, targetType, page],
+    queryFn: () => fetchFlaggedItems(state, targetType, page),
+  });
+
+  const resolveMutation = useMutation({
+    mutationFn: resolveFlag,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin-flags'] });
+      toast.success('Flag resolved');
+      setResolveTarget(null);
+      setResolutionNote('');
+    },
+    onError: (error) => {
+      toast.error(`Failed to resolve flag: ${error.message}`);
+    },
+  });
+
+  const items = data?.items ?? [];
+  const totalPages = data?.totalPages ?? 1;
+
+  return (
+    <div className="max-w-7xl mx-auto space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold flex items-center gap-2">
+          <Flag className="h-6 w-6 text-orange-600" />
+          Flagged Items
+        </h1>
+        <p className="text-muted-foreground">
+          Ads, verification requests and reports moderators escalated for admin review
+        </p>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <Tabs
+          value={state}
+          onValueChange={(value) => {
+            setState(value as FlagState);
+            setPage(1);
+          }}
+        >
+          <TabsList>
+            <TabsTrigger value="open">Open</TabsTrigger>
+            <TabsTrigger value="resolved">Resolved</TabsTrigger>
+          </TabsList>
+        </Tabs>
+        <Select
+          value={targetType}
+          onValueChange={(value) => {
+            setTargetType(value);
+            setPage(1);
+          }}
+        >
+          <SelectTrigger className="w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All items</SelectItem>
+            {Object.entries(FLAG_TARGET_LABELS).map(([value, label]) => (
+              <SelectItem key={value} value={value}>
+                {label}s
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>
+            {state === 'open' ? 'Open flags' : 'Resolved flags'}
+            {data ? ` (${data.total})` : ''}
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {isLoading ? (
+            <div className="flex justify-center py-12">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : error ? (
+            <p className="text-center py-12 text-red-600">{error.message}</p>
+          ) : items.length === 0 ? (
+            <p className="text-center py-12 text-muted-foreground">
+              {state === 'open' ? 'Nothing is waiting for admin review.' : 'No resolved flags.'}
+            </p>
+          ) : (
+            items.map((item) => (
+              <div
+                key={item.id}
+                className="flex items-start justify-between gap-4 p-3 border rounded-lg"
+              >
+                <div className="min-w-0 space-y-1">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Badge variant="outline">{FLAG_TARGET_LABELS[item.targetType]}</Badge>
+                    {item.target ? (
+                      <>
+                        <span className="font-medium">{item.target.label}</span>
+                        <Badge variant="secondary">{item.target.status}</Badge>
+                        <span className="text-sm text-muted-foreground">
+                          {item.target.cityName}
+                        </span>
+                      </>
+                    ) : (
+                      <span className="text-muted-foreground">
+                        #{item.targetId} (no longer exists)
+                      </span>
+                    )}
+                  </div>
+                  <p dir="auto" className="text-sm whitespace-pre-wrap">
+                    {item.note}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    Flagged by {item.flaggedBy.name} on{' '}
+                    {format(new Date(item.createdAt), 'dd MMM yyyy, HH:mm')}
+                  </p>
+                  {item.resolvedAt && (
+                    <p className="text-xs text-muted-foreground">
+                      Resolved by {item.resolvedBy?.name ?? 'a former admin'} on{' '}
+                      {format(new Date(item.resolvedAt), 'dd MMM yyyy, HH:mm')}
+                      {item.resolutionNote && ` · ${item.resolutionNote}`}
+                    </p>
+                  )}
+                </div>
+                <div className="flex gap-2 shrink-0">
+                  {item.target && (
+                    <Button variant="outline" size="sm" asChild>
+                      <Link href={getFlaggedItemHref(item.targetType, item.targetId)}>
+                        <ExternalLink className="h-4 w-4 mr-1" />
+                        Open
+                      </Link>
+                    </Button>
+                  )}
+                  {!item.resolvedAt && (
+                    <Button size="sm" onClick={() => setResolveTarget(item)}>
+                      <CheckCircle className="h-4 w-4 mr-1" />
+                      Resolve
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))
+          )}
+
+          {totalPages > 1 && (
+            <div className="flex items-center justify-end gap-2 pt-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setPage((p) => Math.max(1, p - 1))}
+                disabled={page <= 1}
+              >
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <span className="text-sm text-muted-foreground">
+                Page {page} of {totalPages}
+              </span>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setPage((p) => Math.min(totalPages, p + 1))}
+                disabled={page >= totalPages}
+              >
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Resolve Dialog */}
+      <Dialog
+        open={resolveTarget !== null}
+        onOpenChange={(open) => !open && setResolveTarget(null)}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Resolve flag</DialogTitle>
+            <DialogDescription>
+              The moderator who raised it is notified. Any decision on the item itself is made from
+              its review dialog.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div>
+            <Label htmlFor="resolution-note">Note for the moderator (optional)</Label>
+            <Textarea
+              id="resolution-note"
+              value={resolutionNote}
+              onChange={(e) => setResolutionNote(e.target.value)}
+              maxLength={FLAG_NOTE_MAX_LENGTH}
+              rows={3}
+              dir="auto"
+            />
+          </div>
+
+          <div className="flex justify-end gap-3 pt-4">
+            <Button variant="outline" onClick={() => setResolveTarget(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() =>
+                resolveTarget &&
+                resolveMutation.mutate({
+                  id: resolveTarget.id,
+                  resolutionNote: resolutionNote.trim(),
+                })
+              }
+              disabled={resolveMutation.isPending}
+            >
+              {resolveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Resolve
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
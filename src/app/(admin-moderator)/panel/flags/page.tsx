@@ -0,0 +1,11 @@
+import { hasPermission, requireUser } from '@/lib/auth/server';
+import { forbidden } from 'next/navigation';
+import { FlaggedItemsConsole } from './_components/flagged-items-console';
+
+export default async function FlaggedItemsPage() {
+  const user = await requireUser();
+  // The panel layout lets moderators in; resolving flags is admin-only
+  if (!hasPermission(user.role, 'flags.resolve')) forbidden();
+
+  return <FlaggedItemsConsole />;
+}
@@ -6,6 +6,8 @@ import {
   FileCheck,
   Flag,
   Megaphone,
+  MessageSquareText,
+  ScrollText,
   Settings,
   Shield,
   Users,
@@ -62,6 +64,30 @@ const ModeratorDashboard = () => {
       href: '/panel/analytics',
       color: 'bg-indigo-50 text-indigo-600 border-indigo-200',
     },
+    {
+      id: 'responses',
+      title: 'Canned Responses',
+      description: 'Reusable rejection texts for moderators (admins only)',
+      icon: <MessageSquareText className="h-6 w-6" />,
+      href: '/panel/responses',
+      color: 'bg-teal-50 text-teal-600 border-teal-200',
+    },
+    {
+      id: 'flags',
+      title: 'Flagged Items',
+      description: 'Items moderators escalated for admin review (admins only)',
+      icon: <Flag className="h-6 w-6" />,
+      href: '/panel/flags',
+      color: 'bg-orange-50 text-orange-600 border-orange-200',
+    },
+    {
+      id: 'audit',
+      title: 'Audit Log',
+      description: 'Search, inspect and export audit entries (admins only)',
+      icon: <ScrollText className="h-6 w-6" />,
+      href: '/panel/audit',
+      color: 'bg-slate-50 text-slate-600 border-slate-200',
+    },
     {
       id: 'settings',
       title: 'Settings',
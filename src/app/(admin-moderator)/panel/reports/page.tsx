@@ -0,0 +1,621 @@
+'use client';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { AD_CATEGORY_BY_ID } from '@/constants/ad-categories';
+import {
+  REPORT_OUTCOME_OPTIONS,
+  REPORT_REASON_OPTIONS,
+  getReportOutcomeLabel,
+  getReportReasonLabel,
+} from '@/constants/report-config';
+import type { ReportOutcome, ReportReason } from '@/generated/enums';
+import { REPORT_RESOLUTION_NOTE_MAX_LENGTH } from '@/lib/schemas/report-schema';
+import { cn } from '@/lib/utils';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import {
+  ChevronLeft,
+  ChevronRight,
+  ExternalLink,
+  Flag,
+  Image as ImageIcon,
+  Loader2,
+  RefreshCw,
+} from 'lucide-react';
+import Image from 'next/image';
+import Link from 'next/link';
+import { useSearchParams } from 'next/navigation';
+import { memo, useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import {
+  FlagBadge,
+  FlagForAdminButton,
+  FlagNotice,
+  type OpenFlag,
+} from '../_components/flag-for-admin';
+import { UserModerationNotes } from '../_components/user-moderation-notes';
+import { UserSuspensions } from '../_components/user-suspensions';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface ReportListItem {
+  id: number;
+  adId: number;
+  reason: ReportReason;
+  note: string | null;
+  status: 'OPEN' | 'CLOSED';
+  outcome: ReportOutcome | null;
+  createdAt: string;
+  closedAt: string | null;
+  filesCount: number;
+  reporter: { id: string; name: string | null; userId: string | null } | null;
+  ad: {
+    id: number;
+    category: string;
+    status: string;
+    userId: string;
+    cityName: string;
+  };
+  openReportsOnAd: number;
+  flag: OpenFlag | null;
+}
+
+interface ReportDetails extends ReportListItem {
+  resolutionNote: string | null;
+  files: {
+    id: number;
+    storageKey: string;
+    mimeType: string | null;
+    bytes: number | null;
+    signedUrl: string | null;
+  }[];
+  moderationActions: {
+    id: number;
+    action: string;
+    reasonText: string | null;
+    createdAt: string;
+    actor: { name: string | null; userId: string | null } | null;
+  }[];
+}
+
+interface ReportStats {
+  openReports: number;
+  closedReports: number;
+  reportsThisWeek: number;
+  openByReason: { reason: ReportReason; count: number }[];
+}
+
+interface ReportFilters {
+  status: string;
+  reason: string;
+}
+
+type ResolveAction = 'close' | 'dismiss';
+
+// =============================================================================
+// API Functions
+// =============================================================================
+
+async function fetchReports(params: ReportFilters & { page: number; limit: number }) {
+  const searchParams = new URLSearchParams();
+
+  Object.entries(params).forEach(([key, value]) => {
+    if (value && value !== '' && value !== 'all') {
+      searchParams.append(key, value.toString());
+    }
+  });
+
+  const response = await fetch(`/api/moderator/reports?${searchParams}`);
+
+  if (!response.ok) {
+    throw new Error('Failed to fetch reports');
+  }
+
+  return response.json();
+}
+
+async function fetchReportStats() {
+  const response = await fetch('/api/moderator/reports/stats');
+
+  if (!response.ok) {
+    throw new Error('Failed to fetch report statistics');
+  }
+
+  return response.json();
+}
+
+async function fetchReportDetails(id: number) {
+  const response = await fetch(`/api/moderator/reports/${id}`);
+
+  if (!response.ok) {
+    throw new Error('Failed to fetch report details');
+  }
+
+  return response.json();
+}
+
+async function resolveReport(
+  id: number,
+  body: { action: ResolveAction; outcome: ReportOutcome; resolutionNote?: string }
+) {
+  const response = await fetch(`/api/moderator/reports/${id}`, {
+    method: 'PATCH',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    const data = await response.json();
+    throw new Error(data.error || 'Failed to resolve report');
+  }
+
+  return response.json();
+}
+
+// =============================================================================
+// Utility Functions
+// =============================================================================
+
+const getReportStatusColor = (status: string) =>
+  status === 'OPEN'
+    ? 'bg-red-100 text-red-800 border-red-200'
+    : 'bg-gray-100 text-gray-800 border-gray-200';
+
+const getCategoryDisplayName = (category: string) =>
+  AD_CATEGORY_BY_ID[category as keyof typeof AD_CATEGORY_BY_ID]?.name || category;
+
+const formatReporter = (reporter: ReportListItem['reporter']) =>
+  reporter ? reporter.name || reporter.userId || 'User' : 'Anonymous visitor';
+
+// =============================================================================
+// Memoized Components
+// =============================================================================
+
+interface ReportRowProps {
+  report: ReportListItem;
+  onReview: (report: ReportListItem) => void;
+}
+
+const ReportRow = memo(function ReportRow({ report, onReview }: ReportRowProps) {
+  return (
+    <div className="flex flex-col md:flex-row md:items-center gap-3 p-4 border rounded-lg hover:bg-gray-50">
+      <div className="flex-1 min-w-0 space-y-1">
+        <div className="flex flex-wrap items-center gap-2">
+          <Badge className={getReportStatusColor(report.status)}>{report.status}</Badge>
+          <span className="font-medium">{getReportReasonLabel(report.reason)}</span>
+          {report.openReportsOnAd > 1 && (
+            <Badge variant="outline" className="text-red-700 border-red-200">
+              {report.openReportsOnAd} open reports on this ad
+            </Badge>
+          )}
+          <FlagBadge flag={report.flag} />
+        </div>
+        <p className="text-sm text-muted-foreground">
+          Ad #{report.adId} · {getCategoryDisplayName(report.ad.category)} · {report.ad.cityName} ·{' '}
+          {report.ad.status}
+        </p>
+        {report.note && <p className="text-sm line-clamp-2">{report.note}</p>}
+        <p className="text-xs text-muted-foreground">
+          {formatReporter(report.reporter)} ·{' '}
+          {format(new Date(report.createdAt), 'dd MMM yyyy, HH:mm')}
+          {report.filesCount > 0 && ` · ${report.filesCount} screenshot(s)`}
+          {report.outcome && ` · ${getReportOutcomeLabel(report.outcome)}`}
+        </p>
+      </div>
+      <Button variant="outline" size="sm" onClick={() => onReview(report)}>
+        Review
+      </Button>
+    </div>
+  );
+});
+
+// =============================================================================
+// Main Component
+// =============================================================================
+
+export default function ReportsQueuePage() {
+  const [filters, setFilters] = useState<ReportFilters>({ status: 'OPEN', reason: 'all' });
+  const [page, setPage] = useState(1);
+  const limit = 20;
+
+  const [selectedReport, setSelectedReport] = useState<ReportListItem | null>(null);
+  const [resolveAction, setResolveAction] = useState<ResolveAction>('close');
+  const [outcome, setOutcome] = useState<ReportOutcome | ''>('');
+  const [resolutionNote, setResolutionNote] = useState('');
+
+  const queryClient = useQueryClient();
+
+  // ?review=<reportId> opens that report, e.g. from the flagged items view
+  const reviewParam = useSearchParams().get('review');
+
+  useEffect(() => {
+    const reportId = Number(reviewParam);
+    if (!Number.isInteger(reportId) || reportId <= 0) return;
+
+    fetchReportDetails(reportId)
+      .then((details) => setSelectedReport(details.data))
+      .catch(() => toast.error('Failed to load report'));
+  }, [reviewParam]);
+
+  const {
+    data: reportsData,
+    isLoading: isLoadingReports,
+    error: reportsError,
+    refetch: refetchReports,
+  } = useQuery({
+    queryKey: ['moderator-reports', filters, page],
+    queryFn: () => fetchReports({ ...filters, page, limit }),
+    staleTime: 30 * 1000,
+  });
+
+  const { data: statsData } = useQuery({
+    queryKey: ['moderator-report-stats'],
+    queryFn: fetchReportStats,
+    staleTime: 60 * 1000,
+    refetchInterval: 60 * 1000,
+  });
+
+  const { data: detailsData, isLoading: isLoadingDetails } = useQuery({
+    queryKey: ['moderator-report-details', selectedReport?.id],
+    queryFn: () => (selectedReport ? fetchReportDetails(selectedReport.id) : null),
+    enabled: !!selectedReport,
+    staleTime: 30 * 1000,
+  });
+
+  const closeReview = () => {
+    setSelectedReport(null);
+    setResolveAction('close');
+    setOutcome('');
+    setResolutionNote('');
+  };
+
+  const resolveMutation = useMutation({
+    mutationFn: (vars: { id: number; action: ResolveAction; outcome: ReportOutcome }) =>
+      resolveReport(vars.id, {
+        action: vars.action,
+        outcome: vars.outcome,
+        resolutionNote: resolutionNote.trim() || undefined,
+      }),
+    onSuccess: (_, vars) => {
+      queryClient.invalidateQueries({ queryKey: ['moderator-reports'] });
+      queryClient.invalidateQueries({ queryKey: ['moderator-report-stats'] });
+      queryClient.invalidateQueries({ queryKey: ['moderator-report-details'] });
+      toast.success(vars.action === 'dismiss' ? 'Report dismissed' : 'Report closed');
+      closeReview();
+    },
+    onError: (error) => {
+      toast.error(`Failed to resolve: ${error.message}`);
+    },
+  });
+
+  const reports: ReportListItem[] = reportsData?.data?.reports ?? [];
+  const totalPages: number = reportsData?.data?.totalPages ?? 1;
+  const stats: ReportStats | undefined = statsData?.data;
+  const details: ReportDetails | undefined = detailsData?.data;
+
+  const handleFilterChange = (key: keyof ReportFilters, value: string) => {
+    setFilters((prev) => ({ ...prev, [key]: value }));
+    setPage(1);
+  };
+
+  const handleResolve = (action: ResolveAction) => {
+    if (!selectedReport) return;
+    // Dismissing means the report needed no action
+    const chosenOutcome = action === 'dismiss' ? 'NO_ACTION' : outcome;
+    if (!chosenOutcome) {
+      toast.error('Choose an outcome first');
+      return;
+    }
+    setResolveAction(action);
+    resolveMutation.mutate({ id: selectedReport.id, action, outcome: chosenOutcome });
+  };
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold flex items-center gap-2">
+            <Flag className="h-6 w-6 text-red-600" />
+            Reports & Complaints
+          </h1>
+          <p className="text-muted-foreground">Review reports sent by visitors and users</p>
+        </div>
+        <Button variant="outline" size="sm" onClick={() => refetchReports()}>
+          <RefreshCw className="h-4 w-4 mr-2" />
+          Refresh
+        </Button>
+      </div>
+
+      {/* Stats */}
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        {[
+          { label: 'Open', value: stats?.openReports },
+          { label: 'Closed', value: stats?.closedReports },
+          { label: 'This week', value: stats?.reportsThisWeek },
+        ].map(({ label, value }) => (
+          <Card key={label}>
+            <CardContent className="p-4">
+              <p className="text-sm text-muted-foreground">{label}</p>
+              <p className="text-2xl font-bold">{value ?? '—'}</p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+          <CardTitle>Queue</CardTitle>
+          <div className="flex gap-2">
+            <Select value={filters.status} onValueChange={(v) => handleFilterChange('status', v)}>
+              <SelectTrigger className="w-36">
+                <SelectValue placeholder="Status" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All statuses</SelectItem>
+                <SelectItem value="OPEN">Open</SelectItem>
+                <SelectItem value="CLOSED">Closed</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select value={filters.reason} onValueChange={(v) => handleFilterChange('reason', v)}>
+              <SelectTrigger className="w-44">
+                <SelectValue placeholder="Reason" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All reasons</SelectItem>
+                {REPORT_REASON_OPTIONS.map((o) => (
+                  <SelectItem key={o.value} value={o.value}>
+                    {o.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {isLoadingReports ? (
+            <div className="flex justify-center py-12">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : reportsError ? (
+            <p className="text-center py-12 text-red-600">Failed to load reports.</p>
+          ) : reports.length === 0 ? (
+            <p className="text-center py-12 text-muted-foreground">No reports to show.</p>
+          ) : (
+            reports.map((report) => (
+              <ReportRow key={report.id} report={report} onReview={setSelectedReport} />
+            ))
+          )}
+
+          {totalPages > 1 && (
+            <div className="flex items-center justify-end gap-2 pt-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setPage((p) => Math.max(1, p - 1))}
+                disabled={page <= 1}
+              >
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <span className="text-sm text-muted-foreground">
+                Page {page} of {totalPages}
+              </span>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setPage((p) => Math.min(totalPages, p + 1))}
+                disabled={page >= totalPages}
+              >
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Review Dialog */}
+      <Dialog open={!!selectedReport} onOpenChange={(open) => !open && closeReview()}>
+        <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Report #{selectedReport?.id}</DialogTitle>
+            <DialogDescription>
+              {selectedReport && getReportReasonLabel(selectedReport.reason)} ·{' '}
+              {selectedReport && formatReporter(selectedReport.reporter)}
+            </DialogDescription>
+          </DialogHeader>
+
+          {isLoadingDetails || !details ? (
+            <div className="flex justify-center py-12">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : (
+            <div className="space-y-5">
+              <div className="flex flex-wrap items-center gap-3 text-sm">
+                <Link
+                  href={`/ads/${details.adId}`}
+                  target="_blank"
+                  className="inline-flex items-center gap-1 text-primary hover:underline"
+                >
+                  Open ad #{details.adId}
+                  <ExternalLink className="h-3.5 w-3.5" />
+                </Link>
+                <span className="text-muted-foreground">
+                  {getCategoryDisplayName(details.ad.category)} · {details.ad.status} ·{' '}
+                  {details.openReportsOnAd} open report(s)
+                </span>
+              </div>
+
+              <FlagNotice flag={details.flag} />
+
+              <div>
+                <p className="text-sm font-medium text-muted-foreground">Reporter note</p>
+                <p className="whitespace-pre-line">{details.note || '—'}</p>
+              </div>
+
+              <div className="space-y-2">
+                <p className="text-sm font-medium text-muted-foreground">Screenshots</p>
+                {details.files.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">None attached</p>
+                ) : (
+                  <div className="grid grid-cols-3 gap-2">
+                    {details.files.map((file) => (
+                      <a
+                        key={file.id}
+                        href={file.signedUrl ?? undefined}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="relative block aspect-video rounded-lg border overflow-hidden bg-muted"
+                      >
+                        {file.signedUrl ? (
+                          // Signed URLs expire, so skip the optimizer's cache
+                          <Image
+                            src={file.signedUrl}
+                            alt={`Screenshot ${file.id}`}
+                            fill
+                            unoptimized
+                            sizes="200px"
+                            className="object-cover"
+                          />
+                        ) : (
+                          <ImageIcon className="m-auto h-6 w-6 text-muted-foreground" />
+                        )}
+                      </a>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              {details.status === 'CLOSED' ? (
+                <div className="rounded-lg border p-3 text-sm space-y-1">
+                  <p>
+                    Outcome:{' '}
+                    <span className="font-medium">
+                      {details.outcome ? getReportOutcomeLabel(details.outcome) : '—'}
+                    </span>
+                  </p>
+                  {details.resolutionNote && (
+                    <p className="text-muted-foreground">{details.resolutionNote}</p>
+                  )}
+                </div>
+              ) : (
+                <div className="space-y-3">
+                  <div className="space-y-2">
+                    <Label>Outcome</Label>
+                    <Select value={outcome} onValueChange={(v) => setOutcome(v as ReportOutcome)}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Choose an outcome" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {REPORT_OUTCOME_OPTIONS.map((o) => (
+                          <SelectItem key={o.value} value={o.value}>
+                            {o.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="resolution-note">Internal note</Label>
+                    <Textarea
+                      id="resolution-note"
+                      value={resolutionNote}
+                      onChange={(e) => setResolutionNote(e.target.value)}
+                      maxLength={REPORT_RESOLUTION_NOTE_MAX_LENGTH}
+                      placeholder="What you checked and what you did"
+                      className="resize-none"
+                    />
+                  </div>
+                </div>
+              )}
+
+              <UserSuspensions
+                userId={details.ad.userId}
+                userLabel={`the owner of ad #${details.adId}`}
+                onChange={() => {
+                  queryClient.invalidateQueries({ queryKey: ['moderator-reports'] });
+                  queryClient.invalidateQueries({ queryKey: ['moderator-report-details'] });
+                  queryClient.invalidateQueries({ queryKey: ['moderator-user-notes'] });
+                }}
+              />
+
+              <UserModerationNotes userId={details.ad.userId} />
+
+              {details.moderationActions.length > 0 && (
+                <div className="space-y-1">
+                  <p className="text-sm font-medium text-muted-foreground">History</p>
+                  {details.moderationActions.map((action) => (
+                    <p key={action.id} className="text-xs text-muted-foreground">
+                      {format(new Date(action.createdAt), 'dd MMM yyyy, HH:mm')} · {action.action}{' '}
+                      by {action.actor ? action.actor.name || action.actor.userId : 'System'}
+                      {action.reasonText && ` · ${action.reasonText}`}
+                    </p>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          {details && (
+            <DialogFooter className="sm:justify-between">
+              <FlagForAdminButton
+                targetType="REPORT"
+                targetId={details.id}
+                flagged={!!details.flag}
+                onFlagged={() => {
+                  queryClient.invalidateQueries({ queryKey: ['moderator-reports'] });
+                  queryClient.invalidateQueries({ queryKey: ['moderator-report-details'] });
+                }}
+              />
+              {details.status === 'OPEN' && (
+                <div className="flex flex-col-reverse sm:flex-row gap-2">
+                  <Button
+                    variant="outline"
+                    onClick={() => handleResolve('dismiss')}
+                    disabled={resolveMutation.isPending}
+                  >
+                    {resolveMutation.isPending && resolveAction === 'dismiss' && (
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    )}
+                    Dismiss
+                  </Button>
+                  <Button
+                    className={cn('bg-red-600 hover:bg-red-700 text-white')}
+                    onClick={() => handleResolve('close')}
+                    disabled={resolveMutation.isPending || !outcome}
+                  >
+                    {resolveMutation.isPending && resolveAction === 'close' && (
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    )}
+                    Close report
+                  </Button>
+                </div>
+              )}
+            </DialogFooter>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
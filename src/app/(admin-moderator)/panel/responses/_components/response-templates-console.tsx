@@ -0,0 +1,427 @@
+'use client';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ConfirmDialog } from '@/components/ui/confirm-dialog';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  MODERATION_REASON_LABELS,
+  renderResponseTemplate,
+  RESPONSE_TEMPLATE_BODY_MAX_LENGTH,
+  RESPONSE_TEMPLATE_LOCALE_OPTIONS,
+  RESPONSE_TEMPLATE_PLACEHOLDERS,
+  VERIFICATION_REJECTION_LABELS,
+  type ResponseTemplateLocale,
+  type ResponseTemplateTarget,
+} from '@/constants/response-template-config';
+import type { ModerationReasonCode, VerificationRejectionCode } from '@/generated/enums';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { Loader2, MessageSquareText, Pencil, Plus, Trash2 } from 'lucide-react';
+import { useState } from 'react';
+import { toast } from 'sonner';
+import { deleteResponseTemplateAction, saveResponseTemplateAction } from '../../actions';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface ResponseTemplate {
+  id: number;
+  targetType: ResponseTemplateTarget;
+  reasonCode: ModerationReasonCode | null;
+  verificationCode: VerificationRejectionCode | null;
+  locale: ResponseTemplateLocale;
+  title: string;
+  body: string;
+  isActive: boolean;
+  updatedAt: string;
+  createdBy: { name: string; userId: string | null } | null;
+}
+
+interface TemplateDraft {
+  id: number | null;
+  code: string;
+  locale: ResponseTemplateLocale;
+  title: string;
+  body: string;
+  isActive: boolean;
+}
+
+const EMPTY_DRAFT: TemplateDraft = {
+  id: null,
+  code: '',
+  locale: 'en',
+  title: '',
+  body: '',
+  isActive: true,
+};
+
+// Shown in the preview in place of real ad / user data
+const SAMPLE_VALUES = { adTitle: 'Room in Navigli', city: 'Milano', userName: 'Sara' };
+
+const CODE_LABELS: Record<ResponseTemplateTarget, Record<string, string>> = {
+  AD: MODERATION_REASON_LABELS,
+  VERIFICATION: VERIFICATION_REJECTION_LABELS,
+};
+
+// =============================================================================
+// API Functions
+// =============================================================================
+
+async function fetchTemplates(targetType: ResponseTemplateTarget): Promise<ResponseTemplate[]> {
+  const response = await fetch(
+    `/api/moderator/response-templates?targetType=${targetType}&includeInactive=true`
+  );
+
+  if (!response.ok) {
+    throw new Error('Failed to fetch response templates');
+  }
+
+  const data = await response.json();
+  return data.data;
+}
+
+async function saveTemplate({
+  targetType,
+  draft,
+}: {
+  targetType: ResponseTemplateTarget;
+  draft: TemplateDraft;
+}) {
+  const content = {
+    locale: draft.locale,
+    title: draft.title,
+    body: draft.body,
+    isActive: draft.isActive,
+  };
+  const result = await saveResponseTemplateAction(
+    draft.id,
+    targetType === 'AD'
+      ? { targetType, reasonCode: draft.code as ModerationReasonCode, ...content }
+      : { targetType, verificationCode: draft.code as VerificationRejectionCode, ...content }
+  );
+  if (!result.success) throw new Error(result.error);
+  return result;
+}
+
+async function deleteTemplate(id: number) {
+  const result = await deleteResponseTemplateAction(id);
+  if (!result.success) throw new Error(result.error);
+  return result;
+}
+
+// =============================================================================
+// Main Component
+// =============================================================================
+
+/**
+ * Admin console for canned rejection responses, per target and reason code
+ */
+export function ResponseTemplatesConsole() {
+  const queryClient = useQueryClient();
+  const [targetType, setTargetType] = useState<ResponseTemplateTarget>('AD');
+  const [draft, setDraft] = useState<TemplateDraft | null>(null);
+  const [deleteTarget, setDeleteTarget] = useState<ResponseTemplate | null>(null);
+
+  const {
+    data: templates,
+    isLoading,
+    error,
+  } = useQuery({
+    queryKey: ['admin-response-templates', targetType],
+    queryFn: () => fetchTemplates(targetType),
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['admin-response-templates', targetType] });
+    queryClient.invalidateQueries({ queryKey: ['response-templates', targetType] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: saveTemplate,
+    onSuccess: () => {
+      invalidate();
+      toast.success('Template saved');
+      setDraft(null);
+    },
+    onError: (error) => {
+      toast.error(`Failed to save template: ${error.message}`);
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: deleteTemplate,
+    onSuccess: () => {
+      invalidate();
+      toast.success('Template deleted');
+      setDeleteTarget(null);
+    },
+    onError: (error) => {
+      toast.error(`Failed to delete template: ${error.message}`);
+    },
+  });
+
+  const codeLabels = CODE_LABELS[targetType];
+  const placeholders = RESPONSE_TEMPLATE_PLACEHOLDERS[targetType];
+
+  const getCode = (template: ResponseTemplate) =>
+    (targetType === 'AD' ? template.reasonCode : template.verificationCode) ?? '';
+
+  const openEdit = (template: ResponseTemplate) =>
+    setDraft({
+      id: template.id,
+      code: getCode(template),
+      locale: template.locale,
+      title: template.title,
+      body: template.body,
+      isActive: template.isActive,
+    });
+
+  const insertPlaceholder = (key: string) =>
+    setDraft((prev) => (prev ? { ...prev, body: `${prev.body}{{${key}}}` } : prev));
+
+  const draftDir =
+    RESPONSE_TEMPLATE_LOCALE_OPTIONS.find((option) => option.value === draft?.locale)?.dir ?? 'ltr';
+
+  return (
+    <div className="max-w-7xl mx-auto space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold flex items-center gap-2">
+            <MessageSquareText className="h-6 w-6 text-teal-600" />
+            Canned Responses
+          </h1>
+          <p className="text-muted-foreground">
+            Reusable rejection texts moderators can pick and edit before sending
+          </p>
+        </div>
+        <Button onClick={() => setDraft(EMPTY_DRAFT)}>
+          <Plus className="h-4 w-4 mr-2" />
+          New template
+        </Button>
+      </div>
+
+      <Tabs
+        value={targetType}
+        onValueChange={(value) => setTargetType(value as ResponseTemplateTarget)}
+      >
+        <TabsList>
+          <TabsTrigger value="AD">Ad rejections</TabsTrigger>
+          <TabsTrigger value="VERIFICATION">Verification rejections</TabsTrigger>
+        </TabsList>
+      </Tabs>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Templates{templates ? ` (${templates.length})` : ''}</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {isLoading ? (
+            <div className="flex justify-center py-12">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : error ? (
+            <p className="text-center py-12 text-red-600">{error.message}</p>
+          ) : !templates || templates.length === 0 ? (
+            <p className="text-center py-12 text-muted-foreground">No templates yet.</p>
+          ) : (
+            templates.map((template) => (
+              <div
+                key={template.id}
+                className="flex items-start justify-between gap-4 p-3 border rounded-lg"
+              >
+                <div className="min-w-0 space-y-1">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="font-medium">{template.title}</span>
+                    <Badge variant="outline">
+                      {codeLabels[getCode(template)] ?? getCode(template)}
+                    </Badge>
+                    <Badge variant="secondary">{template.locale.toUpperCase()}</Badge>
+                    {!template.isActive && (
+                      <Badge variant="outline" className="text-gray-500">
+                        Inactive
+                      </Badge>
+                    )}
+                  </div>
+                  <p dir="auto" className="text-sm text-muted-foreground line-clamp-2">
+                    {template.body}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    Updated {format(new Date(template.updatedAt), 'dd MMM yyyy, HH:mm')}
+                    {template.createdBy && ` · created by ${template.createdBy.name}`}
+                  </p>
+                </div>
+                <div className="flex gap-1 shrink-0">
+                  <Button variant="ghost" size="sm" onClick={() => openEdit(template)}>
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => setDeleteTarget(template)}>
+                    <Trash2 className="h-4 w-4 text-red-600" />
+                  </Button>
+                </div>
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Create / Edit Dialog */}
+      <Dialog open={draft !== null} onOpenChange={(open) => !open && setDraft(null)}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{draft?.id ? 'Edit template' : 'New template'}</DialogTitle>
+            <DialogDescription>
+              {targetType === 'AD' ? 'Ad rejection' : 'Verification rejection'} response.
+              Placeholders are filled in when a moderator uses the template.
+            </DialogDescription>
+          </DialogHeader>
+
+          {draft && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <Label>Reason *</Label>
+                  <Select value={draft.code} onValueChange={(code) => setDraft({ ...draft, code })}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select a reason" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(codeLabels).map(([code, label]) => (
+                        <SelectItem key={code} value={code}>
+                          {label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label>Language</Label>
+                  <Select
+                    value={draft.locale}
+                    onValueChange={(locale) =>
+                      setDraft({ ...draft, locale: locale as ResponseTemplateLocale })
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {RESPONSE_TEMPLATE_LOCALE_OPTIONS.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="space-y-1">
+                <Label htmlFor="template-title">Title *</Label>
+                <Input
+                  id="template-title"
+                  dir={draftDir}
+                  value={draft.title}
+                  onChange={(e) => setDraft({ ...draft, title: e.target.value })}
+                  placeholder="Shown to moderators in the picker"
+                />
+              </div>
+
+              <div className="space-y-1">
+                <Label htmlFor="template-body">Text *</Label>
+                <Textarea
+                  id="template-body"
+                  dir={draftDir}
+                  value={draft.body}
+                  onChange={(e) => setDraft({ ...draft, body: e.target.value })}
+                  maxLength={RESPONSE_TEMPLATE_BODY_MAX_LENGTH}
+                  rows={6}
+                />
+                <div className="flex flex-wrap items-center gap-1 text-xs text-muted-foreground">
+                  Insert:
+                  {placeholders.map((placeholder) => (
+                    <Button
+                      key={placeholder.key}
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      className="h-6 px-2 text-xs"
+                      title={placeholder.description}
+                      onClick={() => insertPlaceholder(placeholder.key)}
+                    >
+                      {`{{${placeholder.key}}}`}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+
+              {draft.body.trim() && (
+                <div className="space-y-1">
+                  <Label>Preview</Label>
+                  <p
+                    dir={draftDir}
+                    className="text-sm whitespace-pre-wrap p-3 bg-gray-50 rounded-lg border"
+                  >
+                    {renderResponseTemplate(draft.body, SAMPLE_VALUES)}
+                  </p>
+                </div>
+              )}
+
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="template-active"
+                  checked={draft.isActive}
+                  onCheckedChange={(checked) => setDraft({ ...draft, isActive: checked === true })}
+                />
+                <Label htmlFor="template-active">Active (offered to moderators)</Label>
+              </div>
+            </div>
+          )}
+
+          <div className="flex justify-end gap-3 pt-4">
+            <Button variant="outline" onClick={() => setDraft(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => draft && saveMutation.mutate({ targetType, draft })}
+              disabled={!draft?.code || saveMutation.isPending}
+            >
+              {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save template
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <ConfirmDialog
+        open={deleteTarget !== null}
+        onOpenChange={(open) => !open && setDeleteTarget(null)}
+        title={`Delete "${deleteTarget?.title}"?`}
+        description="Moderators will no longer be offered this template. Texts already sent are not affected."
+        confirmText="Delete"
+        confirmVariant="destructive"
+        onConfirm={() => deleteTarget && deleteMutation.mutate(deleteTarget.id)}
+      />
+    </div>
+  );
+}
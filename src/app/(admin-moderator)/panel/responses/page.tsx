@@ -0,0 +1,11 @@
+import { hasPermission, requireUser } from '@/lib/auth/server';
+import { forbidden } from 'next/navigation';
+import { ResponseTemplatesConsole } from './_components/response-templates-console';
+
+export default async function ResponseTemplatesPage() {
+  const user = await requireUser();
+  // The panel layout lets moderators in; managing templates is admin-only
+  if (!hasPermission(user.role, 'responses.manage')) forbidden();
+
+  return <ResponseTemplatesConsole />;
+}
@@ -0,0 +1,748 @@
+'use client';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { ConfirmDialog } from '@/components/ui/confirm-dialog';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useCities } from '@/contexts/cities-context';
+import type { UserRole } from '@/generated/enums';
+import { cn } from '@/lib/utils';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import {
+  BadgeCheck,
+  ChevronLeft,
+  ChevronRight,
+  Loader2,
+  MapPin,
+  Search,
+  Users,
+  X,
+} from 'lucide-react';
+import Link from 'next/link';
+import { memo, useMemo, useState, type FormEvent, type ReactNode } from 'react';
+import { toast } from 'sonner';
+import { UserSuspensions } from '../../_components/user-suspensions';
+import { changeUserRoleAction, setModeratorScopeAction } from '../../actions';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface AdminUserListItem {
+  id: string;
+  name: string;
+  email: string;
+  userId: string | null;
+  image: string | null;
+  role: UserRole;
+  verified: boolean;
+  cityName: string | null;
+  createdAt: string;
+  adsCount: number;
+}
+
+interface AdminUserDetails extends AdminUserListItem {
+  emailVerified: boolean;
+  telegramHandle: string | null;
+  isProfileComplete: boolean;
+  verifiedAt: string | null;
+  ads: Array<{
+    id: number;
+    category: string;
+    status: string;
+    expirationDate: string | null;
+    createdAt: string;
+  }>;
+  verifications: Array<{
+    id: number;
+    status: string;
+    submittedAt: string;
+    reviewedAt: string | null;
+  }>;
+  reports: Array<{
+    id: number;
+    adId: number;
+    reason: string;
+    status: string;
+    createdAt: string;
+  }>;
+  sessions: Array<{
+    id: string;
+    createdAt: string;
+    expiresAt: string;
+    ipAddress: string | null;
+    userAgent: string | null;
+  }>;
+  moderationScope: ModeratorScope;
+}
+
+interface ModeratorScope {
+  cities: Array<{ id: number; name: string; region: string | null }>;
+  regions: string[];
+}
+
+interface AdminUserListResult {
+  users: AdminUserListItem[];
+  total: number;
+  totalPages: number;
+  page: number;
+}
+
+interface UserFilters {
+  query: string;
+  role: string;
+}
+
+interface PendingRoleChange {
+  user: AdminUserDetails;
+  role: UserRole;
+}
+
+const EMPTY_FILTERS: UserFilters = { query: '', role: 'all' };
+const ROLE_OPTIONS: UserRole[] = ['USER', 'MODERATOR', 'ADMIN'];
+const PAGE_SIZE = 20;
+
+// =============================================================================
+// API Functions
+// =============================================================================
+
+async function fetchUsers(filters: UserFilters, page: number): Promise<AdminUserListResult> {
+  const searchParams = new URLSearchParams({ page: String(page), limit: String(PAGE_SIZE) });
+  if (filters.query.trim()) searchParams.set('query', filters.query.trim());
+  if (filters.role !== 'all') searchParams.set('role', filters.role);
+
+  const response = await fetch(`/api/admin/users?${searchParams}`);
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || 'Failed to fetch users');
+  }
+
+  const data = await response.json();
+  return data.data;
+}
+
+async function fetchUserDetails(id: string): Promise<AdminUserDetails> {
+  const response = await fetch(`/api/admin/users/${encodeURIComponent(id)}`);
+
+  if (!response.ok) {
+    throw new Error('Failed to fetch user details');
+  }
+
+  const data = await response.json();
+  return data.data;
+}
+
+async function changeUserRole({ userId, role }: { userId: string; role: UserRole }) {
+  const result = await changeUserRoleAction(userId, role);
+  if (!result.success) throw new Error(result.error);
+  return result;
+}
+
+async function saveModeratorScope({ userId, scope }: { userId: string; scope: ModeratorScope }) {
+  const result = await setModeratorScopeAction(userId, {
+    cityIds: scope.cities.map((city) => city.id),
+    regions: scope.regions,
+  });
+  if (!result.success) throw new Error(result.error);
+  return result;
+}
+
+// =============================================================================
+// Utility Functions
+// =============================================================================
+
+const formatDate = (value: string) => format(new Date(value), 'dd MMM yyyy');
+const formatTimestamp = (value: string) => format(new Date(value), 'dd MMM yyyy, HH:mm');
+
+const getRoleColor = (role: UserRole) => {
+  switch (role) {
+    case 'ADMIN':
+      return 'bg-purple-100 text-purple-800 border-purple-200';
+    case 'MODERATOR':
+      return 'bg-blue-100 text-blue-800 border-blue-200';
+    default:
+      return 'bg-gray-100 text-gray-800 border-gray-200';
+  }
+};
+
+const describeRoleChange = (from: UserRole, to: UserRole) => {
+  const rank: Record<UserRole, number> = { USER: 0, MODERATOR: 1, ADMIN: 2 };
+  return rank[to] > rank[from] ? 'Promote' : 'Demote';
+};
+
+// =============================================================================
+// Memoized Components
+// =============================================================================
+
+interface UserRowProps {
+  user: AdminUserListItem;
+  onSelect: (id: string) => void;
+}
+
+const UserRow = memo(function UserRow({ user, onSelect }: UserRowProps) {
+  return (
+    <button
+      type="button"
+      onClick={() => onSelect(user.id)}
+      className="w-full text-left flex flex-col md:flex-row md:items-center gap-2 md:gap-4 p-3 border rounded-lg hover:bg-gray-50"
+    >
+      <div className="min-w-0 md:w-64 shrink-0">
+        <p className="text-sm font-medium truncate flex items-center gap-1">
+          {user.name}
+          {user.verified && <BadgeCheck className="h-4 w-4 text-blue-600 shrink-0" />}
+        </p>
+        <p className="text-xs text-muted-foreground truncate">{user.email}</p>
+      </div>
+      <span className="text-sm text-muted-foreground truncate md:w-40">
+        {user.userId ? `@${user.userId}` : '—'}
+      </span>
+      <span className="text-sm text-muted-foreground truncate md:w-32">{user.cityName ?? '—'}</span>
+      <Badge className={cn('w-fit', getRoleColor(user.role))}>{user.role}</Badge>
+      <span className="text-xs text-muted-foreground flex-1 md:text-right">
+        {user.adsCount} ads · joined {formatDate(user.createdAt)}
+      </span>
+    </button>
+  );
+});
+
+const DetailField = memo(function DetailField({
+  label,
+  value,
+  mono,
+}: {
+  label: string;
+  value: string | number | null | undefined;
+  mono?: boolean;
+}) {
+  return (
+    <div className="min-w-0">
+      <p className="text-xs font-medium text-muted-foreground">{label}</p>
+      <p className={cn('text-sm break-all', mono && 'font-mono')}>{value ?? '—'}</p>
+    </div>
+  );
+});
+
+const DetailSection = memo(function DetailSection({
+  title,
+  count,
+  children,
+}: {
+  title: string;
+  count: number;
+  children: ReactNode;
+}) {
+  return (
+    <div className="space-y-2">
+      <p className="text-sm font-medium text-muted-foreground">
+        {title} ({count})
+      </p>
+      {count === 0 ? <p className="text-sm text-muted-foreground">None</p> : children}
+    </div>
+  );
+});
+
+/**
+ * Cities and regions a moderator is limited to. Empty means every city.
+ */
+function ModeratorScopeEditor({ userId, scope }: { userId: string; scope: ModeratorScope }) {
+  const queryClient = useQueryClient();
+  const cities = useCities();
+  const [draft, setDraft] = useState<ModeratorScope>(scope);
+
+  const regions = useMemo(
+    () => [...new Set(cities.map((city) => city.region).filter((r): r is string => !!r))].sort(),
+    [cities]
+  );
+
+  const scopeMutation = useMutation({
+    mutationFn: saveModeratorScope,
+    onSuccess: (result) => {
+      setDraft(result.scope);
+      queryClient.invalidateQueries({ queryKey: ['admin-user-details', userId] });
+      toast.success('Moderation scope updated');
+    },
+    onError: (error) => {
+      toast.error(`Failed to update scope: ${error.message}`);
+    },
+  });
+
+  const addCity = (id: string) => {
+    const city = cities.find((c) => c.id === Number(id));
+    if (!city || draft.cities.some((c) => c.id === city.id)) return;
+    setDraft((prev) => ({
+      ...prev,
+      cities: [...prev.cities, { id: city.id, name: city.name, region: city.region }],
+    }));
+  };
+
+  const addRegion = (region: string) => {
+    if (draft.regions.includes(region)) return;
+    setDraft((prev) => ({ ...prev, regions: [...prev.regions, region] }));
+  };
+
+  const isDirty =
+    draft.regions.join('|') !== scope.regions.join('|') ||
+    draft.cities.map((c) => c.id).join('|') !== scope.cities.map((c) => c.id).join('|');
+  const isEmpty = draft.cities.length === 0 && draft.regions.length === 0;
+
+  return (
+    <div className="space-y-3 rounded-lg border p-3">
+      <div>
+        <p className="text-sm font-medium flex items-center gap-1">
+          <MapPin className="h-4 w-4" />
+          Moderation scope
+        </p>
+        <p className="text-xs text-muted-foreground">
+          {isEmpty
+            ? 'Moderates every city. Add regions or cities to limit their queues.'
+            : 'Only sees ads, reports and verifications from these regions and cities.'}
+        </p>
+      </div>
+
+      {!isEmpty && (
+        <div className="flex flex-wrap gap-2">
+          {draft.regions.map((region) => (
+            <Badge key={`region-${region}`} variant="secondary" className="gap-1">
+              {region}
+              <button
+                type="button"
+                aria-label={`Remove ${region}`}
+                onClick={() =>
+                  setDraft((prev) => ({
+                    ...prev,
+                    regions: prev.regions.filter((r) => r !== region),
+                  }))
+                }
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+          {draft.cities.map((city) => (
+            <Badge key={`city-${city.id}`} variant="outline" className="gap-1">
+              {city.name}
+              <button
+                type="button"
+                aria-label={`Remove ${city.name}`}
+                onClick={() =>
+                  setDraft((prev) => ({
+                    ...prev,
+                    cities: prev.cities.filter((c) => c.id !== city.id),
+                  }))
+                }
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+
+      <div className="flex flex-col sm:flex-row gap-2">
+        <Select value="" onValueChange={addRegion}>
+          <SelectTrigger className="sm:w-48">
+            <SelectValue placeholder="Add region" />
+          </SelectTrigger>
+          <SelectContent>
+            {regions.map((region) => (
+              <SelectItem key={region} value={region} disabled={draft.regions.includes(region)}>
+                {region}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value="" onValueChange={addCity}>
+          <SelectTrigger className="sm:w-48">
+            <SelectValue placeholder="Add city" />
+          </SelectTrigger>
+          <SelectContent>
+            {cities.map((city) => (
+              <SelectItem
+                key={city.id}
+                value={String(city.id)}
+                disabled={draft.cities.some((c) => c.id === city.id)}
+              >
+                {city.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <div className="flex gap-2 sm:ml-auto">
+          {isDirty && (
+            <Button variant="ghost" size="sm" onClick={() => setDraft(scope)}>
+              Reset
+            </Button>
+          )}
+          <Button
+            size="sm"
+            onClick={() => scopeMutation.mutate({ userId, scope: draft })}
+            disabled={!isDirty || scopeMutation.isPending}
+          >
+            {scopeMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save scope
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// =============================================================================
+// Main Component
+// =============================================================================
+
+export function UsersConsole({ currentUserId }: { currentUserId: string }) {
+  const queryClient = useQueryClient();
+  const [draftFilters, setDraftFilters] = useState<UserFilters>(EMPTY_FILTERS);
+  const [filters, setFilters] = useState<UserFilters>(EMPTY_FILTERS);
+  const [page, setPage] = useState(1);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [pendingRoleChange, setPendingRoleChange] = useState<PendingRoleChange | null>(null);
+
+  const { data, error, isLoading } = useQuery({
+    queryKey: ['admin-users', filters, page],
+    queryFn: () => fetchUsers(filters, page),
+    staleTime: 30 * 1000,
+  });
+
+  const { data: details, isLoading: isLoadingDetails } = useQuery({
+    queryKey: ['admin-user-details', selectedId],
+    queryFn: () => fetchUserDetails(selectedId as string),
+    enabled: selectedId !== null,
+    staleTime: 30 * 1000,
+  });
+
+  const roleMutation = useMutation({
+    mutationFn: changeUserRole,
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['admin-users'] });
+      queryClient.invalidateQueries({ queryKey: ['admin-user-details'] });
+      toast.success(`Role changed to ${result.role}`);
+    },
+    onError: (error) => {
+      toast.error(`Failed to change role: ${error.message}`);
+    },
+  });
+
+  const applyFilters = (next: UserFilters) => {
+    setDraftFilters(next);
+    setFilters(next);
+    setPage(1);
+  };
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    applyFilters(draftFilters);
+  };
+
+  const users = data?.users ?? [];
+  const isSelf = details?.id === currentUserId;
+
+  return (
+    <div className="max-w-7xl mx-auto space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold flex items-center gap-2">
+          <Users className="h-6 w-6 text-purple-600" />
+          User Management
+        </h1>
+        <p className="text-muted-foreground">Find users and manage moderator and admin roles</p>
+      </div>
+
+      {/* Filters */}
+      <Card>
+        <CardContent className="p-4">
+          <form onSubmit={handleSubmit} className="flex flex-col md:flex-row md:items-end gap-3">
+            <div className="space-y-1 flex-1">
+              <Label htmlFor="users-query">Search</Label>
+              <Input
+                id="users-query"
+                value={draftFilters.query}
+                onChange={(e) => setDraftFilters((prev) => ({ ...prev, query: e.target.value }))}
+                placeholder="Email, user ID, name or city"
+              />
+            </div>
+            <div className="space-y-1 md:w-48">
+              <Label>Role</Label>
+              <Select
+                value={draftFilters.role}
+                onValueChange={(role) => setDraftFilters((prev) => ({ ...prev, role }))}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Role" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All roles</SelectItem>
+                  {ROLE_OPTIONS.map((role) => (
+                    <SelectItem key={role} value={role}>
+                      {role}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex gap-2">
+              <Button type="button" variant="ghost" onClick={() => applyFilters(EMPTY_FILTERS)}>
+                <X className="h-4 w-4 mr-2" />
+                Reset
+              </Button>
+              <Button type="submit">
+                <Search className="h-4 w-4 mr-2" />
+                Search
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+
+      {/* Results */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Users{data ? ` (${data.total})` : ''}</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {isLoading ? (
+            <div className="flex justify-center py-12">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : error ? (
+            <p className="text-center py-12 text-red-600">{error.message}</p>
+          ) : users.length === 0 ? (
+            <p className="text-center py-12 text-muted-foreground">No users match these filters.</p>
+          ) : (
+            users.map((user) => <UserRow key={user.id} user={user} onSelect={setSelectedId} />)
+          )}
+
+          {data && data.totalPages > 1 && (
+            <div className="flex items-center justify-center gap-3 pt-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setPage((p) => p - 1)}
+                disabled={page <= 1}
+              >
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <span className="text-sm text-muted-foreground">
+                Page {data.page} of {data.totalPages}
+              </span>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setPage((p) => p + 1)}
+                disabled={page >= data.totalPages}
+              >
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* User Detail Dialog */}
+      <Dialog open={selectedId !== null} onOpenChange={(open) => !open && setSelectedId(null)}>
+        <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{details?.name ?? 'User'}</DialogTitle>
+            <DialogDescription>{details ? details.email : 'Loading…'}</DialogDescription>
+          </DialogHeader>
+
+          {isLoadingDetails || !details ? (
+            <div className="flex justify-center py-12">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : (
+            <div className="space-y-5">
+              <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+                <DetailField label="ID" value={details.id} mono />
+                <DetailField label="User ID" value={details.userId} />
+                <DetailField label="City" value={details.cityName} />
+                <DetailField label="Telegram" value={details.telegramHandle} />
+                <DetailField label="Email verified" value={details.emailVerified ? 'Yes' : 'No'} />
+                <DetailField
+                  label="Verified"
+                  value={details.verifiedAt ? formatDate(details.verifiedAt) : 'No'}
+                />
+                <DetailField
+                  label="Profile complete"
+                  value={details.isProfileComplete ? 'Yes' : 'No'}
+                />
+                <DetailField label="Joined" value={formatDate(details.createdAt)} />
+              </div>
+
+              {/* Role */}
+              <div className="flex flex-col sm:flex-row sm:items-center gap-3 rounded-lg border p-3">
+                <div className="flex-1">
+                  <p className="text-sm font-medium">Role</p>
+                  <p className="text-xs text-muted-foreground">
+                    {isSelf
+                      ? 'You cannot change your own role.'
+                      : 'Changes take effect on the user’s next request and are audited.'}
+                  </p>
+                </div>
+                <Select
+                  value={details.role}
+                  disabled={isSelf || roleMutation.isPending}
+                  onValueChange={(role) =>
+                    role !== details.role &&
+                    setPendingRoleChange({ user: details, role: role as UserRole })
+                  }
+                >
+                  <SelectTrigger className="sm:w-44">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ROLE_OPTIONS.map((role) => (
+                      <SelectItem key={role} value={role}>
+                        {role}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {details.role === 'MODERATOR' && (
+                <ModeratorScopeEditor
+                  key={details.id}
+                  userId={details.id}
+                  scope={details.moderationScope}
+                />
+              )}
+
+              {details.role === 'USER' && (
+                <UserSuspensions
+                  userId={details.id}
+                  userLabel={details.name}
+                  onChange={() =>
+                    queryClient.invalidateQueries({ queryKey: ['admin-user-details', details.id] })
+                  }
+                />
+              )}
+
+              <DetailSection title="Ads" count={details.ads.length}>
+                <div className="space-y-1">
+                  {details.ads.map((ad) => (
+                    <Link
+                      key={ad.id}
+                      href={`/ads/${ad.id}`}
+                      className="flex items-center gap-3 text-sm p-2 border rounded-md hover:bg-gray-50"
+                    >
+                      <span className="font-mono">#{ad.id}</span>
+                      <span className="flex-1">{ad.category}</span>
+                      <Badge variant="outline">{ad.status}</Badge>
+                      <span className="text-xs text-muted-foreground">
+                        {formatDate(ad.createdAt)}
+                      </span>
+                    </Link>
+                  ))}
+                </div>
+              </DetailSection>
+
+              <DetailSection title="Verifications" count={details.verifications.length}>
+                <div className="space-y-1">
+                  {details.verifications.map((verification) => (
+                    <div
+                      key={verification.id}
+                      className="flex items-center gap-3 text-sm p-2 border rounded-md"
+                    >
+                      <span className="font-mono">#{verification.id}</span>
+                      <Badge variant="outline">{verification.status}</Badge>
+                      <span className="flex-1 text-xs text-muted-foreground text-right">
+                        submitted {formatDate(verification.submittedAt)}
+                        {verification.reviewedAt &&
+                          ` · reviewed ${formatDate(verification.reviewedAt)}`}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </DetailSection>
+
+              <DetailSection title="Reports filed" count={details.reports.length}>
+                <div className="space-y-1">
+                  {details.reports.map((report) => (
+                    <div
+                      key={report.id}
+                      className="flex items-center gap-3 text-sm p-2 border rounded-md"
+                    >
+                      <span className="font-mono">#{report.id}</span>
+                      <span className="flex-1">
+                        {report.reason} · ad #{report.adId}
+                      </span>
+                      <Badge variant="outline">{report.status}</Badge>
+                      <span className="text-xs text-muted-foreground">
+                        {formatDate(report.createdAt)}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </DetailSection>
+
+              <DetailSection title="Active sessions" count={details.sessions.length}>
+                <div className="space-y-1">
+                  {details.sessions.map((session) => (
+                    <div key={session.id} className="text-sm p-2 border rounded-md space-y-0.5">
+                      <div className="flex items-center gap-3">
+                        <span className="font-mono text-xs">{session.ipAddress ?? '—'}</span>
+                        <span className="flex-1 text-xs text-muted-foreground text-right">
+                          {formatTimestamp(session.createdAt)} →{' '}
+                          {formatTimestamp(session.expiresAt)}
+                        </span>
+                      </div>
+                      <p className="text-xs text-muted-foreground truncate">
+                        {session.userAgent ?? 'Unknown device'}
+                      </p>
+                    </div>
+                  ))}
+                </div>
+              </DetailSection>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Role Change Confirmation */}
+      <ConfirmDialog
+        open={pendingRoleChange !== null}
+        onOpenChange={(open) => !open && setPendingRoleChange(null)}
+        title={
+          pendingRoleChange
+            ? `${describeRoleChange(pendingRoleChange.user.role, pendingRoleChange.role)} ${pendingRoleChange.user.name}?`
+            : undefined
+        }
+        description={
+          pendingRoleChange
+            ? `${pendingRoleChange.user.email} will change from ${pendingRoleChange.user.role} to ${pendingRoleChange.role}. This is recorded in the audit log.`
+            : undefined
+        }
+        confirmText="Change role"
+        confirmVariant={
+          pendingRoleChange &&
+          describeRoleChange(pendingRoleChange.user.role, pendingRoleChange.role) === 'Demote'
+            ? 'destructive'
+            : 'default'
+        }
+        onConfirm={() =>
+          pendingRoleChange &&
+          roleMutation.mutate({ userId: pendingRoleChange.user.id, role: pendingRoleChange.role })
+        }
+      />
+    </div>
+  );
+}
@@ -0,0 +1,11 @@
+import { hasPermission, requireUser } from '@/lib/auth/server';
+import { forbidden } from 'next/navigation';
+import { UsersConsole } from './_components/users-console';
+
+export default async function UsersPage() {
+  const user = await requireUser();
+  // The panel layout lets moderators in; user management is admin-only
+  if (!hasPermission(user.role, 'users.view')) forbidden();
+
+  return <UsersConsole currentUserId={user.id} />;
+}
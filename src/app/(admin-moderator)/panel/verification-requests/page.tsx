@@ -28,7 +28,9 @@ import {
 } from '@/components/ui/select';
 import { Textarea } from '@/components/ui/textarea';
 import { UserAvatar } from '@/components/user-avatar';
+import { REVIEW_CLAIM_RENEW_INTERVAL_MS } from '@/constants/review-claim-config';
 import { useCities } from '@/contexts/cities-context';
+import { useSession } from '@/lib/auth/client';
 import { resolveImageUrl } from '@/lib/image_system/image-utils-client';
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { format } from 'date-fns';
@@ -44,14 +46,25 @@ import {
   FileText,
   Filter,
   Loader2,
+  Lock,
   MapPin,
   RefreshCw,
   Search,
+  SkipForward,
   X,
   XCircle,
 } from 'lucide-react';
+import { useSearchParams } from 'next/navigation';
 import { memo, useCallback, useEffect, useMemo, useState } from 'react';
 import { toast } from 'sonner';
+import {
+  FlagBadge,
+  FlagForAdminButton,
+  FlagNotice,
+  type OpenFlag,
+} from '../_components/flag-for-admin';
+import { ResponseTemplatePicker } from '../_components/response-template-picker';
+import { UserModerationNotes } from '../_components/user-moderation-notes';
 
 // =============================================================================
 // Types
@@ -96,6 +109,12 @@ interface VerificationRequest {
     role: 'IMAGE' | 'DOCUMENT' | 'OTHER';
     createdAt: string;
   }[];
+  reviewClaim: {
+    moderatorId: string;
+    moderatorName: string;
+    expiresAt: string;
+  } | null;
+  flag: OpenFlag | null;
 }
 
 interface VerificationFilters {
@@ -203,7 +222,8 @@ async function approveVerificationRequest(id: number) {
   });
 
   if (!response.ok) {
-    throw new Error('Failed to approve verification request');
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || 'Failed to approve verification request');
   }
 
   return response.json();
@@ -227,12 +247,55 @@ async function rejectVerificationRequest(
   });
 
   if (!response.ok) {
-    throw new Error('Failed to reject verification request');
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || 'Failed to reject verification request');
+  }
+
+  return response.json();
+}
+
+async function claimVerificationRequest(id: number) {
+  const response = await fetch(`/api/moderator/verification-requests/${id}/claim`, {
+    method: 'POST',
+  });
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || 'Failed to claim verification request');
   }
 
   return response.json();
 }
 
+async function releaseVerificationClaim(id: number) {
+  // keepalive so the release still goes out when the tab is closing
+  await fetch(`/api/moderator/verification-requests/${id}/claim`, {
+    method: 'DELETE',
+    keepalive: true,
+  }).catch(() => undefined);
+}
+
+async function claimNextVerificationRequest(filters: { method?: string; cityId?: string }) {
+  const response = await fetch('/api/moderator/verification-requests/claim-next', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      method: filters.method || undefined,
+      cityId: filters.cityId ? Number(filters.cityId) : undefined,
+    }),
+  });
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || 'Failed to claim next verification request');
+  }
+
+  const data = await response.json();
+  return data.data as { requestId: number; expiresAt: string } | null;
+}
+
 // =============================================================================
 // Utility Functions
 // =============================================================================
@@ -292,13 +355,25 @@ const getRejectionCodeDisplayName = (code: string) => {
 
 interface VerificationRequestRowProps {
   request: VerificationRequest;
+  currentUserId: string | undefined;
   isSelected: boolean;
   onSelect: (id: number) => void;
   onReview: (request: VerificationRequest) => void;
 }
 
 const VerificationRequestRow = memo(
-  ({ request, isSelected, onSelect, onReview }: VerificationRequestRowProps) => {
+  ({ request, currentUserId, isSelected, onSelect, onReview }: VerificationRequestRowProps) => {
+    const claimedBy =
+      request.reviewClaim && request.reviewClaim.moderatorId !== currentUserId
+        ? request.reviewClaim.moderatorName
+        : null;
+    const claimBadge = claimedBy && (
+      <Badge variant="outline" className="text-xs text-amber-700 border-amber-300">
+        <Lock className="h-3 w-3 mr-1" />
+        Being reviewed by {claimedBy}
+      </Badge>
+    );
+
     return (
       <div
         key={request.id}
@@ -343,6 +418,9 @@ const VerificationRequestRow = memo(
             <div>{getMethodDisplayName(request.method)}</div>
           </div>
 
+          {claimBadge}
+          <FlagBadge flag={request.flag} />
+
           <div className="flex items-center gap-2 pt-2 border-t">
             <Button variant="outline" size="sm" onClick={() => onReview(request)}>
               <Eye className="h-3 w-3 mr-1" />
@@ -391,8 +469,10 @@ const VerificationRequestRow = memo(
             </Badge>
           </div>
 
-          <div className="col-span-2 flex items-center">
+          <div className="col-span-2 flex flex-col justify-center items-start gap-1">
             <div className="text-sm text-gray-900">{getMethodDisplayName(request.method)}</div>
+            {claimBadge}
+            <FlagBadge flag={request.flag} />
           </div>
 
           <div className="col-span-2 flex items-center">
@@ -454,10 +534,20 @@ export default function VerificationRequestsPage() {
     note: '',
   });
   const [selectedFileIndex, setSelectedFileIndex] = useState(0);
+  // Set when another moderator holds the review claim on the open request
+  const [claimError, setClaimError] = useState<string | null>(null);
+  // "Review next" mode: after a decision, move straight on to the next unclaimed request
+  const [queueMode, setQueueMode] = useState(false);
 
   // Query client
   const queryClient = useQueryClient();
 
+  const { data: session } = useSession();
+  const currentUserId = session?.user.id;
+
+  // ?review=<requestId> opens that request's review, e.g. from the flagged items view
+  const reviewParam = useSearchParams().get('review');
+
   // Cities from client-side cache/provider
   const cities = useCities();
 
@@ -505,6 +595,82 @@ export default function VerificationRequestsPage() {
     staleTime: 30 * 1000,
   });
 
+  // Claim the request while its review dialog is open, renew periodically and release on close
+  useEffect(() => {
+    if (!reviewDialogOpen || !selectedRequest || selectedRequest.status !== 'PENDING') return;
+
+    const requestId = selectedRequest.id;
+    let cancelled = false;
+
+    const claim = () =>
+      claimVerificationRequest(requestId)
+        .then(() => !cancelled && setClaimError(null))
+        .catch((error: Error) => !cancelled && setClaimError(error.message));
+
+    claim();
+    const interval = setInterval(claim, REVIEW_CLAIM_RENEW_INTERVAL_MS);
+
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+      setClaimError(null);
+      releaseVerificationClaim(requestId);
+    };
+  }, [reviewDialogOpen, selectedRequest]);
+
+  const reviewNextRequest = useCallback(async () => {
+    try {
+      const next = await claimNextVerificationRequest({
+        method: filters.method,
+        cityId: filters.cityId,
+      });
+
+      if (!next) {
+        toast.info('No unclaimed pending verification requests left');
+        setQueueMode(false);
+        setReviewDialogOpen(false);
+        setSelectedRequest(null);
+        return;
+      }
+
+      const details = await fetchVerificationDetails(next.requestId);
+      setQueueMode(true);
+      setSelectedFileIndex(0);
+      setSelectedRequest(details.data);
+      setReviewDialogOpen(true);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to load next request');
+    }
+  }, [filters.method, filters.cityId]);
+
+  useEffect(() => {
+    const requestId = Number(reviewParam);
+    if (!Number.isInteger(requestId) || requestId <= 0) return;
+
+    fetchVerificationDetails(requestId)
+      .then((details) => {
+        setSelectedFileIndex(0);
+        setSelectedRequest(details.data);
+        setReviewDialogOpen(true);
+      })
+      .catch(() => toast.error('Failed to load verification request'));
+  }, [reviewParam]);
+
+  // After a decision: next request in queue mode, otherwise close the review
+  const finishReview = useCallback(() => {
+    if (queueMode) {
+      reviewNextRequest();
+    } else {
+      setReviewDialogOpen(false);
+      setSelectedRequest(null);
+    }
+  }, [queueMode, reviewNextRequest]);
+
+  const handleReviewDialogChange = useCallback((open: boolean) => {
+    setReviewDialogOpen(open);
+    if (!open) setQueueMode(false);
+  }, []);
+
   // Mutations
   const approveMutation = useMutation({
     mutationFn: approveVerificationRequest,
@@ -512,10 +678,11 @@ export default function VerificationRequestsPage() {
       queryClient.invalidateQueries({ queryKey: ['verification-requests'] });
       queryClient.invalidateQueries({ queryKey: ['verification-stats'] });
       toast.success('Verification request approved successfully');
-      setReviewDialogOpen(false);
-      setSelectedRequest(null);
+      finishReview();
     },
     onError: (error) => {
+      // Another moderator may have claimed or decided it meanwhile
+      queryClient.invalidateQueries({ queryKey: ['verification-requests'] });
       toast.error(`Failed to approve: ${error.message}`);
     },
   });
@@ -528,10 +695,12 @@ export default function VerificationRequestsPage() {
       queryClient.invalidateQueries({ queryKey: ['verification-stats'] });
       toast.success('Verification request rejected successfully');
       setRejectionDialogOpen(false);
-      setSelectedRequest(null);
       setRejectionForm({ code: '', note: '' });
+      finishReview();
     },
     onError: (error) => {
+      // Another moderator may have claimed or decided it meanwhile
+      queryClient.invalidateQueries({ queryKey: ['verification-requests'] });
       toast.error(`Failed to reject: ${error.message}`);
     },
   });
@@ -705,6 +874,10 @@ export default function VerificationRequestsPage() {
               <p className="text-gray-600">Review and manage user identity verification requests</p>
             </div>
             <div className="flex items-center gap-3">
+              <Button size="sm" onClick={reviewNextRequest}>
+                <SkipForward className="h-4 w-4 mr-2" />
+                Review next
+              </Button>
               <Button
                 variant="outline"
                 size="sm"
@@ -1015,6 +1188,7 @@ export default function VerificationRequestsPage() {
                     <VerificationRequestRow
                       key={request.id}
                       request={request}
+                      currentUserId={currentUserId}
                       isSelected={selectedRequests.has(request.id)}
                       onSelect={handleSelectRequest}
                       onReview={handleReviewRequest}
@@ -1079,7 +1253,7 @@ export default function VerificationRequestsPage() {
         </Card>
 
         {/* Review Dialog */}
-        <Dialog open={reviewDialogOpen} onOpenChange={setReviewDialogOpen}>
+        <Dialog open={reviewDialogOpen} onOpenChange={handleReviewDialogChange}>
           <DialogContent className="w-full sm:max-w-[98vw] max-w-[98vw] xl:max-w-[1800px] h-[92vh] overflow-hidden p-5">
             <DialogHeader>
               <DialogTitle>Review Verification Request</DialogTitle>
@@ -1283,29 +1457,53 @@ export default function VerificationRequestsPage() {
                       </div>
                     )}
 
-                    {details.status === 'PENDING' && (
-                      <div className="flex justify-end gap-3 pt-4">
-                        <Button
-                          variant="outline"
-                          onClick={() => setRejectionDialogOpen(true)}
-                          disabled={rejectMutation.isPending}
-                        >
-                          <X className="h-4 w-4 mr-2" />
-                          Reject
-                        </Button>
-                        <Button
-                          onClick={() => approveMutation.mutate(details.id)}
-                          disabled={approveMutation.isPending}
-                          className="bg-green-600 hover:bg-green-700"
-                        >
-                          {approveMutation.isPending && (
-                            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                          )}
-                          <Check className="h-4 w-4 mr-2" />
-                          Approve
-                        </Button>
+                    {details.status === 'PENDING' && claimError && (
+                      <div className="flex items-center gap-2 p-3 bg-amber-50 rounded-lg border border-amber-200 text-sm text-amber-900">
+                        <Lock className="h-4 w-4 shrink-0" />
+                        {claimError}. You can look, but decisions are locked until they finish.
                       </div>
                     )}
+
+                    <FlagNotice flag={details.flag} />
+
+                    <UserModerationNotes userId={details.userId} className="mt-4" />
+
+                    <div className="flex justify-between gap-3 pt-4">
+                      {/* Escalate without deciding; allowed while someone else holds the claim */}
+                      <FlagForAdminButton
+                        targetType="VERIFICATION"
+                        targetId={details.id}
+                        flagged={!!details.flag}
+                        onFlagged={() => {
+                          queryClient.invalidateQueries({ queryKey: ['verification-requests'] });
+                          queryClient.invalidateQueries({ queryKey: ['verification-details'] });
+                        }}
+                      />
+
+                      {details.status === 'PENDING' && (
+                        <div className="flex gap-3">
+                          <Button
+                            variant="outline"
+                            onClick={() => setRejectionDialogOpen(true)}
+                            disabled={rejectMutation.isPending || !!claimError}
+                          >
+                            <X className="h-4 w-4 mr-2" />
+                            Reject
+                          </Button>
+                          <Button
+                            onClick={() => approveMutation.mutate(details.id)}
+                            disabled={approveMutation.isPending || !!claimError}
+                            className="bg-green-600 hover:bg-green-700"
+                          >
+                            {approveMutation.isPending && (
+                              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                            )}
+                            <Check className="h-4 w-4 mr-2" />
+                            Approve
+                          </Button>
+                        </div>
+                      )}
+                    </div>
                   </div>
                 </div>
               </div>
@@ -1348,14 +1546,25 @@ export default function VerificationRequestsPage() {
                 </Select>
               </div>
 
+              <ResponseTemplatePicker
+                targetType="VERIFICATION"
+                code={rejectionForm.code}
+                values={{
+                  city: details?.city?.name,
+                  userName: details?.user?.name,
+                }}
+                onPick={(text) => setRejectionForm((prev) => ({ ...prev, note: text }))}
+              />
+
               <div>
                 <Label htmlFor="rejection-note">Additional Notes (Optional)</Label>
                 <Textarea
                   id="rejection-note"
+                  dir="auto"
                   placeholder="Provide specific feedback to help the user understand what needs to be corrected..."
                   value={rejectionForm.note}
                   onChange={(e) => setRejectionForm((prev) => ({ ...prev, note: e.target.value }))}
-                  rows={3}
+                  rows={5}
                 />
               </div>
             </div>
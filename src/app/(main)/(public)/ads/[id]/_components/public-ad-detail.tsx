@@ -0,0 +1,81 @@
+'use client';
+
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { AD_DETAIL_COMPONENTS } from '@/constants/ad-detail-components';
+import type { AdWithDetails } from '@/data/ads/ads';
+import { formatStatusLabel } from '@/lib/ad-utils';
+import { EyeOff } from 'lucide-react';
+import { useCallback, useEffect } from 'react';
+import { ReportAdDialog } from './report-ad-dialog';
+import { ShareAdLinks } from './share-ad-links';
+
+type TrackedAdEvent = 'view' | 'contact';
+
+/** Fire-and-forget; keepalive lets contact clicks finish while the tab navigates away */
+function trackAdEvent(adId: number, event: TrackedAdEvent) {
+  fetch(`/api/ads/${adId}/track`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ event }),
+    keepalive: true,
+  }).catch(() => {});
+}
+
+interface PublicAdDetailProps {
+  ad: AdWithDetails;
+  shareUrl: string;
+  shareTitle: string;
+  ownerTelegramHandle: string | null;
+  isOwner: boolean;
+}
+
+export function PublicAdDetail({
+  ad,
+  shareUrl,
+  shareTitle,
+  ownerTelegramHandle,
+  isOwner,
+}: PublicAdDetailProps) {
+  const renderDetail = AD_DETAIL_COMPONENTS[ad.category];
+  const isPublic = ad.status === 'ONLINE';
+  const shouldTrack = isPublic && !isOwner;
+
+  useEffect(() => {
+    if (shouldTrack) trackAdEvent(ad.id, 'view');
+  }, [ad.id, shouldTrack]);
+
+  const handleContactClick = useCallback(() => {
+    if (shouldTrack) trackAdEvent(ad.id, 'contact');
+  }, [ad.id, shouldTrack]);
+
+  return (
+    <div className="space-y-4">
+      {!isPublic && (
+        <Alert className="mx-4 md:mx-0">
+          <EyeOff className="h-4 w-4" />
+          <AlertTitle>Not publicly visible</AlertTitle>
+          <AlertDescription>
+            This ad is {formatStatusLabel(ad.status).toLowerCase()}. Only the owner and moderators
+            can see this page.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {isPublic && (
+        <div className="px-4 md:px-0 flex flex-wrap items-center justify-between gap-2">
+          <ShareAdLinks url={shareUrl} title={shareTitle} />
+          {!isOwner && <ReportAdDialog adId={ad.id} />}
+        </div>
+      )}
+
+      {renderDetail?.({
+        ad,
+        variant: 'public',
+        ownerTelegramHandle,
+        showContactButton: !isOwner && Boolean(ownerTelegramHandle),
+        showEditButton: false,
+        onContactClick: handleContactClick,
+      })}
+    </div>
+  );
+}
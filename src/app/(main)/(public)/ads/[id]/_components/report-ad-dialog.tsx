@@ -0,0 +1,233 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { SelectableList } from '@/components/ui/selectable-list';
+import { Textarea } from '@/components/ui/textarea';
+import { REPORT_REASON_OPTIONS } from '@/constants/report-config';
+import type { ReportReason } from '@/generated/enums';
+import { submitAdReportAction } from '@/lib/actions/report-actions';
+import { validateImageFile } from '@/lib/image_system/image-utils-client';
+import { REPORT_MAX_FILES, REPORT_NOTE_MAX_LENGTH } from '@/lib/schemas/report-schema';
+import { Flag, ImagePlus, X } from 'lucide-react';
+import { useRef, useState, useTransition } from 'react';
+import { toast } from 'sonner';
+
+interface ReportAdDialogProps {
+  adId: number;
+}
+
+/**
+ * "Report this ad" dialog shown on public ad pages.
+ * Visitors can report without an account; the server rate limits submissions.
+ */
+export function ReportAdDialog({ adId }: ReportAdDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [reason, setReason] = useState<ReportReason | undefined>(undefined);
+  const [note, setNote] = useState('');
+  const [files, setFiles] = useState<File[]>([]);
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const reset = () => {
+    setReason(undefined);
+    setNote('');
+    setFiles([]);
+    setFieldErrors({});
+    setSubmitError(null);
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (isPending) return;
+    setOpen(next);
+    if (!next) reset();
+  };
+
+  const handleFilesSelected = (selected: FileList | null) => {
+    if (!selected) return;
+
+    const accepted: File[] = [];
+    for (const file of Array.from(selected)) {
+      const validation = validateImageFile(file, 'report');
+      if (!validation.success) {
+        toast.error(validation.error);
+        continue;
+      }
+      accepted.push(file);
+    }
+
+    setFiles((prev) => [...prev, ...accepted].slice(0, REPORT_MAX_FILES));
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const handleSubmit = () => {
+    if (!reason) {
+      setFieldErrors({ reason: 'Please choose a reason' });
+      return;
+    }
+
+    const formData = new FormData();
+    formData.append('reason', reason);
+    if (note.trim()) formData.append('note', note.trim());
+    files.forEach((file) => formData.append('screenshots', file));
+
+    setSubmitError(null);
+    setFieldErrors({});
+
+    startTransition(async () => {
+      const result = await submitAdReportAction(adId, formData);
+
+      if (result.ok) {
+        toast.success('Thanks, our moderators will review this ad');
+        setOpen(false);
+        reset();
+        return;
+      }
+
+      setSubmitError(result.error);
+      if (result.fieldErrors) setFieldErrors(result.fieldErrors);
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" className="rounded-full gap-2 text-muted-foreground">
+          <Flag className="w-4 h-4" />
+          Report
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Report this ad</DialogTitle>
+          <DialogDescription>
+            Tell us what is wrong. Reports are anonymous to the ad owner.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          <div className="space-y-2">
+            <Label>Reason</Label>
+            <SelectableList
+              ariaLabel="Report reason"
+              value={reason}
+              onChange={(v) => {
+                setReason(v as ReportReason);
+                setFieldErrors((prev) => ({ ...prev, reason: '' }));
+              }}
+              options={REPORT_REASON_OPTIONS.map((o) => ({
+                value: o.value,
+                label: (
+                  <span className="flex flex-col">
+                    <span>{o.label}</span>
+                    {o.description && (
+                      <span className="text-xs text-muted-foreground">{o.description}</span>
+                    )}
+                  </span>
+                ),
+              }))}
+              error={!!fieldErrors.reason}
+            />
+            {fieldErrors.reason && <p className="text-sm text-destructive">{fieldErrors.reason}</p>}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="report-note">
+              Details{' '}
+              {reason !== 'OTHER' && (
+                <span className="text-xs font-light text-neutral-400">Optional</span>
+              )}
+            </Label>
+            <Textarea
+              id="report-note"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="Anything that helps our moderators understand the problem"
+              className="min-h-[100px] resize-none"
+              maxLength={REPORT_NOTE_MAX_LENGTH}
+              aria-invalid={!!fieldErrors.note}
+            />
+            {fieldErrors.note && <p className="text-sm text-destructive">{fieldErrors.note}</p>}
+          </div>
+
+          <div className="space-y-2">
+            <Label>
+              Screenshots{' '}
+              <span className="text-xs font-light text-neutral-400">
+                Optional, up to {REPORT_MAX_FILES}
+              </span>
+            </Label>
+            {files.length > 0 && (
+              <ul className="space-y-1">
+                {files.map((file, index) => (
+                  <li
+                    key={`${file.name}-${index}`}
+                    className="flex items-center justify-between gap-2 rounded-lg border px-3 py-1.5 text-sm"
+                  >
+                    <span className="truncate">{file.name}</span>
+                    <button
+                      type="button"
+                      className="text-muted-foreground hover:text-foreground"
+                      onClick={() => setFiles((prev) => prev.filter((_, i) => i !== index))}
+                      aria-label={`Remove ${file.name}`}
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+            {files.length < REPORT_MAX_FILES && (
+              <>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept="image/jpeg,image/png,image/webp"
+                  multiple
+                  className="hidden"
+                  onChange={(e) => handleFilesSelected(e.target.files)}
+                />
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  className="gap-2"
+                  onClick={() => fileInputRef.current?.click()}
+                >
+                  <ImagePlus className="w-4 h-4" />
+                  Add screenshot
+                </Button>
+              </>
+            )}
+          </div>
+
+          {submitError && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-800">
+              {submitError}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)} disabled={isPending}>
+            Cancel
+          </Button>
+          <Button variant="destructive" onClick={handleSubmit} disabled={isPending}>
+            {isPending ? 'Sending…' : 'Send report'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,75 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { Check, Copy, Share2 } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { FaWhatsapp } from 'react-icons/fa';
+import { RiTelegram2Fill } from 'react-icons/ri';
+import { toast } from 'sonner';
+
+interface ShareAdLinksProps {
+  url: string;
+  title: string;
+}
+
+export function ShareAdLinks({ url, title }: ShareAdLinksProps) {
+  const [copied, setCopied] = useState(false);
+  const [canNativeShare, setCanNativeShare] = useState(false);
+
+  // navigator.share only exists in the browser (mostly mobile)
+  useEffect(() => {
+    setCanNativeShare(typeof navigator !== 'undefined' && typeof navigator.share === 'function');
+  }, []);
+
+  const encodedUrl = encodeURIComponent(url);
+  const encodedTitle = encodeURIComponent(title);
+  const telegramHref = `https://t.me/share/url?url=${encodedUrl}&text=${encodedTitle}`;
+  const whatsappHref = `https://wa.me/?text=${encodeURIComponent(`${title} ${url}`)}`;
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(url);
+      setCopied(true);
+      toast.success('Link copied');
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      toast.error('Could not copy link');
+    }
+  };
+
+  const handleNativeShare = async () => {
+    try {
+      await navigator.share({ title, url });
+    } catch {
+      // User dismissed the share sheet
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <span className="text-sm text-muted-foreground mr-1">Share</span>
+      <Button variant="outline" size="sm" className="rounded-full gap-2" asChild>
+        <a href={telegramHref} target="_blank" rel="noopener noreferrer">
+          <RiTelegram2Fill className="w-4 h-4" />
+          Telegram
+        </a>
+      </Button>
+      <Button variant="outline" size="sm" className="rounded-full gap-2" asChild>
+        <a href={whatsappHref} target="_blank" rel="noopener noreferrer">
+          <FaWhatsapp className="w-4 h-4" />
+          WhatsApp
+        </a>
+      </Button>
+      <Button variant="outline" size="sm" className="rounded-full gap-2" onClick={handleCopy}>
+        {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+        Copy link
+      </Button>
+      {canNativeShare && (
+        <Button variant="ghost" size="sm" className="rounded-full" onClick={handleNativeShare}>
+          <Share2 className="w-4 h-4" />
+          <span className="sr-only">More sharing options</span>
+        </Button>
+      )}
+    </div>
+  );
+}
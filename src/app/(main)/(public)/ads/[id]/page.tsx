@@ -0,0 +1,156 @@
+import { getAdOwnerPublicProfile, getAdWithDetails, type AdWithDetails } from '@/data/ads/ads';
+import { getCurrentUser, hasPermission } from '@/lib/auth/server';
+import { getOpenGraphImageUrl } from '@/lib/image_system/image-utils-client';
+import { baseUrl, createMetadata } from '@/lib/metadata';
+import { humanize } from '@/lib/utils/enum-utils';
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import { cache } from 'react';
+import { PublicAdDetail } from './_components/public-ad-detail';
+
+interface PublicAdPageProps {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+// Shared between generateMetadata and the page within one request
+const loadAd = cache(async (id: string): Promise<AdWithDetails | null> => {
+  const adId = parseInt(id, 10);
+  if (isNaN(adId)) return null;
+  return getAdWithDetails(adId);
+});
+
+const DESCRIPTION_MAX_LENGTH = 160;
+
+function truncate(text: string, maxLength = DESCRIPTION_MAX_LENGTH): string {
+  const normalized = text.replace(/\s+/g, ' ').trim();
+  return normalized.length > maxLength ? `${normalized.slice(0, maxLength - 1)}…` : normalized;
+}
+
+function formatEuro(amount: string | null): string | null {
+  return amount ? `€${Number(amount)}` : null;
+}
+
+/**
+ * Title/description used for the page head and link previews
+ */
+function getAdSummary(ad: AdWithDetails): { title: string; description: string } {
+  const city = ad.city.name;
+
+  switch (ad.category) {
+    case 'HOUSING': {
+      const { housing } = ad;
+      const price = housing.priceNegotiable ? null : formatEuro(housing.priceAmount);
+      const period = housing.priceType === 'MONTHLY' ? '/month' : '/night';
+      const parts = [
+        `${humanize(housing.rentalKind)} rental`,
+        housing.neighborhood,
+        price ? `${price}${period}` : 'Price negotiable',
+      ].filter(Boolean);
+      return {
+        title: `${humanize(housing.unitType)} in ${city}`,
+        description: parts.join(' · '),
+      };
+    }
+    case 'TRANSPORTATION': {
+      const { transportation } = ad;
+      const flightDate = new Intl.DateTimeFormat('en-GB', { dateStyle: 'medium' }).format(
+        new Date(transportation.flightDate)
+      );
+      return {
+        title: `${transportation.departureCity} → ${transportation.arrivalCity}`,
+        description: `Package delivery on ${flightDate}`,
+      };
+    }
+    case 'MARKETPLACE':
+      return {
+        title: ad.marketplace.title,
+        description: truncate(
+          `${formatEuro(ad.marketplace.price)} · ${city} · ${ad.marketplace.description}`
+        ),
+      };
+    case 'SERVICES':
+      return {
+        title: ad.service.title,
+        description: truncate(`${city} · ${ad.service.description}`),
+      };
+    case 'CURRENCY': {
+      const { exchange } = ad;
+      const side = exchange.side === 'SELL_EUR' ? 'Selling' : 'Buying';
+      return {
+        title: `${side} ${formatEuro(exchange.amountEur)} in ${city}`,
+        description: `Currency exchange · ${humanize(exchange.rateType)} rate · ${humanize(exchange.exchangeMode)}`,
+      };
+    }
+  }
+}
+
+function getAdUrl(adId: number): string {
+  return new URL(`/ads/${adId}`, baseUrl).toString();
+}
+
+export async function generateMetadata({ params }: PublicAdPageProps): Promise<Metadata> {
+  const { id } = await params;
+  const ad = await loadAd(id);
+
+  // Don't leak details of ads that aren't public; owners/moderators still get the page itself.
+  // Ads past their expiration date come back as EXPIRED, matching excludeExpired on the lists.
+  if (!ad || ad.status !== 'ONLINE') {
+    return { title: 'Ad not found', robots: { index: false, follow: false } };
+  }
+
+  const { title, description } = getAdSummary(ad);
+  const url = getAdUrl(ad.id);
+  const coverKey = ad.coverMedia?.storageKey ?? ad.mediaAssets[0]?.storageKey;
+  const imageUrl = coverKey ? getOpenGraphImageUrl(coverKey) : null;
+  const images = imageUrl ? [{ url: imageUrl, width: 1200, height: 630, alt: title }] : undefined;
+
+  return createMetadata({
+    title,
+    description,
+    alternates: { canonical: url },
+    openGraph: {
+      type: 'article',
+      url,
+      ...(images && { images }),
+    },
+    twitter: {
+      ...(images && { images }),
+    },
+  });
+}
+
+export default async function PublicAdPage({ params }: PublicAdPageProps) {
+  const { id } = await params;
+  const ad = await loadAd(id);
+
+  if (!ad) {
+    notFound();
+  }
+
+  const user = await getCurrentUser();
+  const isOwner = user?.id === ad.userId;
+  const isModerator = hasPermission(user?.role, 'ads.moderate');
+
+  // PENDING, REJECTED and EXPIRED (including past their expiration date) ads are only visible
+  // to their owner and moderators
+  if (ad.status !== 'ONLINE' && !isOwner && !isModerator) {
+    notFound();
+  }
+
+  const owner = await getAdOwnerPublicProfile(ad.userId);
+  const { title } = getAdSummary(ad);
+
+  return (
+    <div className="w-full max-w-7xl mx-auto pb-24 md:pb-8">
+      <PublicAdDetail
+        ad={ad}
+        shareUrl={getAdUrl(ad.id)}
+        shareTitle={title}
+        ownerTelegramHandle={owner?.telegramHandle ?? null}
+        isOwner={isOwner}
+      />
+    </div>
+  );
+}
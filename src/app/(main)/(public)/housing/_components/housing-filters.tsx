@@ -0,0 +1,236 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useCities } from '@/contexts/cities-context';
+import { HousingPropertyType, HousingRentalKind, HousingUnitType } from '@/generated/enums';
+import {
+  buildHousingSearchQuery,
+  type HousingSearchFilters,
+  type HousingSearchSort,
+} from '@/lib/schemas/ads/housing-search-schema';
+import { RotateCcw } from 'lucide-react';
+import { usePathname, useRouter } from 'next/navigation';
+import { useEffect, useState, type FormEvent } from 'react';
+
+// Radix Select does not allow empty item values, so "any" uses a sentinel
+const ANY = 'any';
+
+const RENTAL_KIND_OPTIONS = [
+  { value: HousingRentalKind.TEMPORARY, label: 'Temporary' },
+  { value: HousingRentalKind.PERMANENT, label: 'Permanent' },
+];
+
+const UNIT_TYPE_OPTIONS = [
+  { value: HousingUnitType.WHOLE_APARTMENT, label: 'Whole apartment' },
+  { value: HousingUnitType.SINGLE_ROOM, label: 'Single room' },
+  { value: HousingUnitType.DOUBLE_ROOM, label: 'Double room' },
+  { value: HousingUnitType.TRIPLE_ROOM, label: 'Triple room' },
+];
+
+const PROPERTY_TYPE_OPTIONS = [
+  { value: HousingPropertyType.STUDIO, label: 'Studio' },
+  { value: HousingPropertyType.BILOCALE, label: 'Bilocale' },
+  { value: HousingPropertyType.TRILOCALE, label: 'Trilocale' },
+  { value: HousingPropertyType.QUADRILOCALE, label: 'Quadrilocale' },
+  { value: HousingPropertyType.OTHER, label: 'Other' },
+];
+
+const SORT_OPTIONS: { value: HousingSearchSort; label: string }[] = [
+  { value: 'created-desc', label: 'Newest first' },
+  { value: 'created-asc', label: 'Oldest first' },
+  { value: 'price-asc', label: 'Price: low to high' },
+  { value: 'price-desc', label: 'Price: high to low' },
+];
+
+interface HousingFiltersProps {
+  filters: HousingSearchFilters;
+}
+
+export function HousingFilters({ filters }: HousingFiltersProps) {
+  const router = useRouter();
+  const pathname = usePathname();
+  const cities = useCities();
+
+  const [minPrice, setMinPrice] = useState(filters.minPrice?.toString() ?? '');
+  const [maxPrice, setMaxPrice] = useState(filters.maxPrice?.toString() ?? '');
+
+  // Keep price inputs in sync with back/forward navigation
+  useEffect(() => {
+    setMinPrice(filters.minPrice?.toString() ?? '');
+    setMaxPrice(filters.maxPrice?.toString() ?? '');
+  }, [filters.minPrice, filters.maxPrice]);
+
+  // Any filter change starts again from the first page
+  const applyFilters = (changes: Partial<HousingSearchFilters>) => {
+    const query = buildHousingSearchQuery({ ...filters, ...changes, page: 1 });
+    router.push(query ? `${pathname}?${query}` : pathname);
+  };
+
+  const handlePriceSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    applyFilters({
+      minPrice: minPrice === '' ? undefined : Number(minPrice),
+      maxPrice: maxPrice === '' ? undefined : Number(maxPrice),
+    });
+  };
+
+  const hasActiveFilters = Boolean(
+    filters.cityId ||
+      filters.rentalKind ||
+      filters.unitType ||
+      filters.propertyType ||
+      filters.minPrice !== undefined ||
+      filters.maxPrice !== undefined
+  );
+
+  return (
+    <div className="mx-4 md:mx-0 space-y-3">
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+        <Select
+          value={filters.cityId ? String(filters.cityId) : ANY}
+          onValueChange={(value) =>
+            applyFilters({ cityId: value === ANY ? undefined : Number(value) })
+          }
+        >
+          <SelectTrigger aria-label="City" className="w-full">
+            <SelectValue placeholder="City" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY}>All cities</SelectItem>
+            {cities.map((city) => (
+              <SelectItem key={city.id} value={String(city.id)}>
+                {city.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Select
+          value={filters.rentalKind ?? ANY}
+          onValueChange={(value) =>
+            applyFilters({
+              rentalKind: value === ANY ? undefined : (value as HousingSearchFilters['rentalKind']),
+            })
+          }
+        >
+          <SelectTrigger aria-label="Rental kind" className="w-full">
+            <SelectValue placeholder="Rental kind" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY}>Any rental</SelectItem>
+            {RENTAL_KIND_OPTIONS.map(({ value, label }) => (
+              <SelectItem key={value} value={value}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Select
+          value={filters.unitType ?? ANY}
+          onValueChange={(value) =>
+            applyFilters({
+              unitType: value === ANY ? undefined : (value as HousingSearchFilters['unitType']),
+            })
+          }
+        >
+          <SelectTrigger aria-label="Unit type" className="w-full">
+            <SelectValue placeholder="Unit type" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY}>Any unit</SelectItem>
+            {UNIT_TYPE_OPTIONS.map(({ value, label }) => (
+              <SelectItem key={value} value={value}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Select
+          value={filters.propertyType ?? ANY}
+          onValueChange={(value) =>
+            applyFilters({
+              propertyType:
+                value === ANY ? undefined : (value as HousingSearchFilters['propertyType']),
+            })
+          }
+        >
+          <SelectTrigger aria-label="Property type" className="w-full">
+            <SelectValue placeholder="Property type" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY}>Any property</SelectItem>
+            {PROPERTY_TYPE_OPTIONS.map(({ value, label }) => (
+              <SelectItem key={value} value={value}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Select
+          value={filters.sort}
+          onValueChange={(value) => applyFilters({ sort: value as HousingSearchSort })}
+        >
+          <SelectTrigger aria-label="Sort ads" className="w-full">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {SORT_OPTIONS.map(({ value, label }) => (
+              <SelectItem key={value} value={value}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <form onSubmit={handlePriceSubmit} className="flex flex-wrap items-center gap-3">
+        <Input
+          type="number"
+          inputMode="numeric"
+          min={0}
+          placeholder="Min €"
+          aria-label="Minimum price"
+          value={minPrice}
+          onChange={(event) => setMinPrice(event.target.value)}
+          className="w-28"
+        />
+        <span className="text-muted-foreground">–</span>
+        <Input
+          type="number"
+          inputMode="numeric"
+          min={0}
+          placeholder="Max €"
+          aria-label="Maximum price"
+          value={maxPrice}
+          onChange={(event) => setMaxPrice(event.target.value)}
+          className="w-28"
+        />
+        <Button type="submit" variant="secondary">
+          Apply
+        </Button>
+        {hasActiveFilters && (
+          <Button
+            type="button"
+            variant="ghost"
+            className="gap-2"
+            onClick={() => router.push(pathname)}
+          >
+            <RotateCcw className="w-4 h-4" />
+            Clear filters
+          </Button>
+        )}
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+'use client';
+
+import { HousingAdCard, type HousingAdCardData } from '@/components/ad-cards/housing-ad-card';
+import { Pagination } from '@/components/dashboard/pagination';
+import type { HousingAdListItem } from '@/data/ads/housing-types';
+import {
+  buildHousingSearchQuery,
+  HOUSING_SEARCH_PAGE_SIZES,
+  parseHousingSearchParams,
+} from '@/lib/schemas/ads/housing-search-schema';
+import { SearchX } from 'lucide-react';
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
+
+interface HousingResultsProps {
+  items: HousingAdListItem[];
+  total: number;
+  page: number;
+  pageSize: number;
+  totalPages: number;
+}
+
+function toCardData(item: HousingAdListItem): HousingAdCardData {
+  return {
+    id: item.id,
+    category: 'HOUSING',
+    cityId: item.cityId,
+    createdAt: item.createdAt,
+    viewsCount: item.viewsCount,
+    contactClicksCount: item.contactClicksCount,
+    expirationDate: item.expirationDate,
+    coverMedia: item.coverImageStorageKey
+      ? { storageKey: item.coverImageStorageKey, alt: item.coverImageAlt }
+      : null,
+    housing: {
+      ...item,
+      priceAmount: item.priceAmount != null ? String(item.priceAmount) : null,
+    },
+  };
+}
+
+export function HousingResults({ items, total, page, pageSize, totalPages }: HousingResultsProps) {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+
+  const navigate = (changes: { page?: number; pageSize?: number }) => {
+    const current = parseHousingSearchParams(Object.fromEntries(searchParams.entries()));
+    const query = buildHousingSearchQuery({ ...current, ...changes });
+    router.push(query ? `${pathname}?${query}` : pathname);
+  };
+
+  if (items.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center py-12 px-4">
+        <div className="p-4 rounded-full bg-gray-50 mb-4">
+          <SearchX className="w-8 h-8 text-gray-400" />
+        </div>
+        <h3 className="text-lg font-semibold text-gray-900 mb-2">No housing ads found</h3>
+        <p className="text-sm text-gray-600 text-center max-w-md">
+          Try widening the price range or clearing some filters.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="px-4 md:px-0 text-sm text-muted-foreground">
+        {total} {total === 1 ? 'ad' : 'ads'} found
+      </p>
+      <div className="space-y-4 px-2">
+        {items.map((item) => (
+          <HousingAdCard key={item.id} ad={toCardData(item)} variant="public" />
+        ))}
+      </div>
+      {totalPages > 1 && (
+        <Pagination
+          currentPage={page}
+          totalPages={totalPages}
+          pageSize={pageSize}
+          onPageChange={(nextPage) => navigate({ page: nextPage })}
+          onPageSizeChange={(nextSize) => navigate({ page: 1, pageSize: nextSize })}
+          pageSizeOptions={[...HOUSING_SEARCH_PAGE_SIZES]}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+import { PageLabel } from '@/components/page-label';
+import { getRouteDefinition } from '@/config/routes';
+import { listHousingAds } from '@/data/ads/ad-housing';
+import { AdStatus } from '@/generated/prisma';
+import { parseHousingSearchParams } from '@/lib/schemas/ads/housing-search-schema';
+import { HousingFilters } from './_components/housing-filters';
+import { HousingResults } from './_components/housing-results';
+
+export const metadata = {
+  title: 'Housing',
+  description: 'Find rooms and apartments for rent across Italy.',
+};
+
+interface HousingSearchPageProps {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
+
+export default async function HousingSearchPage({ searchParams }: HousingSearchPageProps) {
+  const housingRoute = getRouteDefinition('housing');
+  const filters = parseHousingSearchParams(await searchParams);
+
+  const result = await listHousingAds({
+    ...filters,
+    status: AdStatus.ONLINE,
+    excludeExpired: true,
+  });
+
+  return (
+    <div className="w-full max-w-7xl mx-auto">
+      <PageLabel
+        icon={housingRoute.icon}
+        title={housingRoute.name}
+        description={housingRoute.description}
+      />
+      <div className="space-y-6">
+        <HousingFilters filters={filters} />
+        <HousingResults
+          items={result.items}
+          total={result.total}
+          page={result.page}
+          pageSize={result.pageSize}
+          totalPages={result.totalPages}
+        />
+      </div>
+    </div>
+  );
+}
@@ -2,6 +2,7 @@
 
 import { Badge } from '@/components/ui/badge';
 import { Card, CardDescription } from '@/components/ui/card';
+import Link from 'next/link';
 
 export default function HomePage() {
   const categories = [
@@ -11,6 +12,7 @@ export default function HomePage() {
       description: 'Find or offer apartments, rooms, and housing solutions across Italy',
       color: 'from-blue-500/10 to-blue-600/5',
       badge: 'Popular',
+      href: '/housing',
     },
     {
       image: '/home/currency.png',
@@ -54,6 +56,7 @@ export default function HomePage() {
             description={categories[0].description}
             badge={categories[0].badge}
             color={categories[0].color}
+            href={categories[0].href}
             className="col-span-3 row-span-1"
           />
 
@@ -108,10 +111,35 @@ type CategoryCardProps = {
   description: string;
   badge: string;
   color: string; // tailwind gradient color classes suffix used with bg-gradient-to-r
+  href?: string;
   className?: string;
 };
 
-function CategoryCard({ image, title, description, badge, color, className }: CategoryCardProps) {
+function CategoryCard({
+  image,
+  title,
+  description,
+  badge,
+  color,
+  href,
+  className,
+}: CategoryCardProps) {
+  // Grid placement classes move to the link so the card keeps its cell
+  if (href) {
+    return (
+      <Link href={href} className={`flex ${className ?? ''}`}>
+        <CategoryCard
+          image={image}
+          title={title}
+          description={description}
+          badge={badge}
+          color={color}
+          className="flex-1"
+        />
+      </Link>
+    );
+  }
+
   return (
     <Card
       className={`z-10 flex relative group border-0 px-4 pb-4 overflow-hidden hover:shadow-3xl transition-shadow duration-500 ${className ?? ''}`}
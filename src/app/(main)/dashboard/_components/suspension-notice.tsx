@@ -0,0 +1,26 @@
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import type { ActiveSuspension } from '@/data/user/suspension.dal';
+import { format } from 'date-fns';
+
+/**
+ * Banner shown on every dashboard page while the user is suspended
+ */
+export function SuspensionNotice({ suspension }: { suspension: ActiveSuspension }) {
+  return (
+    <Alert variant="destructive" className="mt-4">
+      <AlertTitle>
+        {suspension.expiresAt
+          ? `Your account is suspended until ${format(suspension.expiresAt, 'dd MMM yyyy, HH:mm')}`
+          : 'Your account is permanently suspended'}
+      </AlertTitle>
+      <AlertDescription>
+        <p>Reason: {suspension.reason}</p>
+        <p>
+          Your ads are hidden and you can’t post ads, request verification or send reports.
+          {suspension.expiresAt && ' Your ads will be visible again when the suspension ends.'} If
+          you think this is a mistake, contact support.
+        </p>
+      </AlertDescription>
+    </Alert>
+  );
+}
@@ -1,7 +1,11 @@
 'use client';
 
 import { DEFAULT_AD_DETAIL_VARIANT } from '@/components/ad-details/types';
+import { ExchangeDialog } from '@/components/ad-forms/exchange/exchange-dialog';
 import { HousingDialog } from '@/components/ad-forms/housing/housing-dialog';
+import { MarketDialog } from '@/components/ad-forms/market/market-dialog';
+import { ServicesDialog } from '@/components/ad-forms/services/services-dialog';
+import { TransportationDialog } from '@/components/ad-forms/transportation/transportation-dialog';
 import { OptimizedImage } from '@/components/optimized-image';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
@@ -16,16 +20,33 @@ import {
 } from '@/components/ui/dialog';
 import { Separator } from '@/components/ui/separator';
 import { AD_CATEGORY_BY_ID } from '@/constants/ad-categories';
+import { canRenewAd } from '@/constants/ad-renewal-config';
 import { AD_DETAIL_COMPONENTS } from '@/constants/ad-detail-components';
-import type { AdWithDetails, AdWithHousing } from '@/data/ads/ads';
+import { getAdReviewFieldLabel, type AdReviewField } from '@/constants/ad-review-fields';
+import { HOUSING_REVIEW_FIELD_STEPS } from '@/constants/housing-step-config';
+import type {
+  AdChangeRequest,
+  AdWithDetails,
+  AdWithExchange,
+  AdWithHousing,
+  AdWithMarketplace,
+  AdWithService,
+  AdWithTransportation,
+} from '@/data/ads/ads';
 import type { AdCategory, AdStatus } from '@/generated/prisma';
+import { renewAdAction } from '@/lib/actions/ad-renewal-actions';
+import { deleteExchangeAdAction } from '@/lib/actions/exchange-ad-actions';
 import { deleteHousingAdAction } from '@/lib/actions/housing-ad-actions';
+import { deleteMarketplaceAdAction } from '@/lib/actions/marketplace-ad-actions';
+import { deleteServicesAdAction } from '@/lib/actions/services-ad-actions';
+import { deleteTransportationAdAction } from '@/lib/actions/transportation-ad-actions';
 import { formatDaysLeftLabel, getExpirationColor, getExpirationDetails } from '@/lib/ad-utils';
 import { cn, formatDate } from '@/lib/utils';
 import { useQueryClient } from '@tanstack/react-query';
 import {
   AlertCircle,
   ArrowLeft,
+  Ban,
   BarChart3,
   CalendarDays,
   CalendarX,
@@ -36,17 +57,35 @@ import {
   Info,
   Loader2,
   MapPin,
+  MessageSquareWarning,
   MousePointerClick,
   RefreshCcw,
   Trash2,
 } from 'lucide-react';
 import { useRouter } from 'next/navigation';
 import { useCallback, useMemo, useState, useTransition } from 'react';
+import { toast } from 'sonner';
 
 interface AdDetailContentProps {
   ad: AdWithDetails;
+  // Latest moderator change request, while the ad is CHANGES_REQUESTED
+  changeRequest?: AdChangeRequest | null;
 }
 
+/** Categories whose delete action is implemented */
+const DELETE_ACTIONS: Partial<
+  Record<
+    AdCategory,
+    (adId: number) => Promise<{ success: true } | { success: false; error: string }>
+  >
+> = {
+  HOUSING: deleteHousingAdAction,
+  TRANSPORTATION: deleteTransportationAdAction,
+  MARKETPLACE: deleteMarketplaceAdAction,
+  SERVICES: deleteServicesAdAction,
+  CURRENCY: deleteExchangeAdAction,
+};
+
 const getPatternColor = (category: AdCategory) => {
   const colorMap: Record<AdCategory, string> = {
     HOUSING: 'text-emerald-400',
@@ -111,17 +150,39 @@ const getStatusConfig = (status: AdStatus) => {
       iconColor: 'text-gray-600',
       button: { label: 'Renew', action: 'renew' },
     },
+    CHANGES_REQUESTED: {
+      title: 'Changes Requested',
+      description:
+        'A moderator asked for a few changes. Update your ad and it goes back to review.',
+      icon: MessageSquareWarning,
+      bgColor: 'bg-gradient-to-br from-orange-50 to-amber-50',
+      borderColor: 'border-orange-200',
+      iconBgColor: 'bg-orange-100',
+      iconColor: 'text-orange-600',
+      button: { label: 'Update & Resubmit', action: 'resubmit' },
+    },
+    SUSPENDED: {
+      title: 'Hidden',
+      description:
+        'Your account is suspended, so this ad is hidden. It goes back online when the suspension ends.',
+      icon: Ban,
+      bgColor: 'bg-gradient-to-br from-red-50 to-rose-50',
+      borderColor: 'border-red-200',
+      iconBgColor: 'bg-red-100',
+      iconColor: 'text-red-600',
+    },
   };
   return configs[status];
 };
 
-export function AdDetailContent({ ad }: AdDetailContentProps) {
+export function AdDetailContent({ ad, changeRequest }: AdDetailContentProps) {
   const router = useRouter();
   const queryClient = useQueryClient();
   const categoryMeta = AD_CATEGORY_BY_ID[ad.category];
   const Icon = categoryMeta?.icon;
   const expirationDetails = ad.expirationDate ? getExpirationDetails(ad.expirationDate) : null;
   const statusConfig = getStatusConfig(ad.status);
+  const isRenewable = canRenewAd(ad);
 
   // Edit dialog state
   const [editDialogOpen, setEditDialogOpen] = useState(false);
@@ -134,6 +195,10 @@ export function AdDetailContent({ ad }: AdDetailContentProps) {
   const [deleteError, setDeleteError] = useState<string>('');
   const [isPendingDelete, startDeleteTransition] = useTransition();
 
+  // Renew state management
+  const [showRenewConfirm, setShowRenewConfirm] = useState(false);
+  const [isPendingRenew, startRenewTransition] = useTransition();
+
   /**
    * Get Edit button configuration based on ad status
    * Memoized to avoid recalculation on every render
@@ -141,6 +206,7 @@ export function AdDetailContent({ ad }: AdDetailContentProps) {
   const editButtonConfig = useMemo(() => {
     switch (ad.status) {
       case 'PENDING':
+      case 'SUSPENDED':
         return {
           text: 'Edit',
           disabled: true,
@@ -154,7 +220,31 @@ export function AdDetailContent({ ad }: AdDetailContentProps) {
           icon: Edit,
           initialStep: undefined,
         };
+      case 'CHANGES_REQUESTED':
+        return {
+          text: 'Update & Resubmit',
+          disabled: false,
+          icon: Edit,
+          // Housing wizard opens on the first step with a comment
+          initialStep:
+            ad.category === 'HOUSING' && changeRequest?.comments.length
+              ? Math.min(
+                  ...changeRequest.comments.map(
+                    (c) => HOUSING_REVIEW_FIELD_STEPS[c.field as AdReviewField] ?? 1
+                  )
+                )
+              : undefined,
+        };
       case 'EXPIRED':
+        // Renewable categories get a dedicated Renew button; others renew by editing dates
+        if (isRenewable) {
+          return {
+            text: 'Edit',
+            disabled: false,
+            icon: Edit,
+            initialStep: undefined,
+          };
+        }
         return {
           text: 'Renew',
           disabled: false,
@@ -170,7 +260,7 @@ export function AdDetailContent({ ad }: AdDetailContentProps) {
           initialStep: undefined,
         };
     }
-  }, [ad.status]);
+  }, [ad.status, ad.category, isRenewable, changeRequest]);
 
   /**
    * Handles opening the edit dialog with the appropriate initial step
@@ -213,15 +303,15 @@ export function AdDetailContent({ ad }: AdDetailContentProps) {
 
     startDeleteTransition(async () => {
       try {
-        // Only call delete action for housing ads
-        if (ad.category !== 'HOUSING') {
-          setDeleteError('Delete functionality is only available for housing ads at this time.');
+        const deleteAction = DELETE_ACTIONS[ad.category];
+        if (!deleteAction) {
+          setDeleteError('Delete functionality is not available for this ad category yet.');
           setShowDeleteLoading(false);
           setShowDeleteError(true);
           return;
         }
 
-        const result = await deleteHousingAdAction(ad.id);
+        const result = await deleteAction(ad.id);
 
         if (result.success) {
           // Invalidate the user-ads cache to trigger refetch
@@ -247,6 +337,32 @@ export function AdDetailContent({ ad }: AdDetailContentProps) {
     });
   };
 
+  /**
+   * Handles the confirmed renewal
+   * - Extends the expiration date, or sends the ad back to review if it changed
+   * - Refreshes the ad data on success
+   */
+  const handleConfirmRenew = () => {
+    setShowRenewConfirm(false);
+
+    startRenewTransition(async () => {
+      const result = await renewAdAction(ad.id);
+
+      if (!result.success) {
+        toast.error(result.error);
+        return;
+      }
+
+      toast.success(
+        result.requeued
+          ? 'Ad renewed and sent for review'
+          : `Ad renewed until ${formatDate(result.expirationDate)}`
+      );
+      await queryClient.invalidateQueries({ queryKey: ['user-ads'] });
+      router.refresh();
+    });
+  };
+
   return (
     <div className="max-w-6xl mx-auto space-y-6 pb-10">
       {/* Header with Actions */}
@@ -257,6 +373,20 @@ export function AdDetailContent({ ad }: AdDetailContentProps) {
             Back to Ads list
           </Button>
           <div className="flex gap-2">
+            {isRenewable && (
+              <Button
+                className="gap-2"
+                onClick={() => setShowRenewConfirm(true)}
+                disabled={isPendingRenew || isPendingDelete}
+              >
+                {isPendingRenew ? (
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                ) : (
+                  <RefreshCcw className="w-4 h-4" />
+                )}
+                Renew
+              </Button>
+            )}
             <Button
               variant="outline"
               className={cn(
@@ -317,19 +447,61 @@ export function AdDetailContent({ ad }: AdDetailContentProps) {
                 </div>
               )}
 
-              {statusConfig.button && (
+              {/* Requested Changes */}
+              {ad.status === 'CHANGES_REQUESTED' && changeRequest && (
+                <div className="bg-orange-50 border border-orange-100 rounded-lg p-3 mb-4 space-y-2">
+                  <p className="text-xs font-bold text-orange-700 uppercase">What to change</p>
+                  <ul className="space-y-1">
+                    {changeRequest.comments.map((c) => (
+                      <li key={c.field} className="text-sm text-orange-700">
+                        <span className="font-medium">{getAdReviewFieldLabel(c.field)}:</span>{' '}
+                        {c.comment}
+                      </li>
+                    ))}
+                  </ul>
+                  {changeRequest.note && (
+                    <p className="text-sm text-orange-700 whitespace-pre-line">
+                      {changeRequest.note}
+                    </p>
+                  )}
+                  <p className="text-xs text-orange-500">
+                    Requested on {formatDate(changeRequest.requestedAt)}
+                  </p>
+                </div>
+              )}
+
+              {ad.status === 'ONLINE' && isRenewable && (
+                <div className="bg-amber-50 border border-amber-100 rounded-lg p-3 mb-4">
+                  <p className="text-sm text-amber-700">
+                    Your ad expires soon. Renew it to keep it online.
+                  </p>
+                </div>
+              )}
+
+              {isRenewable ? (
                 <Button
                   className="w-full"
-                  variant={ad.status === 'REJECTED' ? 'destructive' : 'default'}
-                  onClick={() => handleOpenEditDialog(editButtonConfig.initialStep)}
+                  onClick={() => setShowRenewConfirm(true)}
+                  disabled={isPendingRenew}
                 >
-                  {ad.status === 'EXPIRED' ? (
-                    <RefreshCcw className="w-4 h-4 mr-2" />
-                  ) : (
-                    <Edit className="w-4 h-4 mr-2" />
-                  )}
-                  {statusConfig.button.label}
+                  <RefreshCcw className="w-4 h-4 mr-2" />
+                  Renew
                 </Button>
+              ) : (
+                statusConfig.button && (
+                  <Button
+                    className="w-full"
+                    variant={ad.status === 'REJECTED' ? 'destructive' : 'default'}
+                    onClick={() => handleOpenEditDialog(editButtonConfig.initialStep)}
+                  >
+                    {ad.status === 'EXPIRED' ? (
+                      <RefreshCcw className="w-4 h-4 mr-2" />
+                    ) : (
+                      <Edit className="w-4 h-4 mr-2" />
+                    )}
+                    {statusConfig.button.label}
+                  </Button>
+                )
               )}
             </CardContent>
           </Card>
@@ -503,7 +675,7 @@ export function AdDetailContent({ ad }: AdDetailContentProps) {
       {/* Category Specific Content */}
       <div className="pt-2">{renderCategoryDetails()}</div>
 
-      {/* Edit Dialog - Only render for housing ads */}
+      {/* Edit Dialog - rendered for categories with an edit wizard */}
       {ad.category === 'HOUSING' && 'housing' in ad && ad.housing && (
         <HousingDialog
           mode="edit"
@@ -511,8 +683,60 @@ export function AdDetailContent({ ad }: AdDetailContentProps) {
           open={editDialogOpen}
           onOpenChange={setEditDialogOpen}
           initialStep={editDialogInitialStep}
+          changeRequest={changeRequest}
         />
       )}
+      {ad.category === 'TRANSPORTATION' && 'transportation' in ad && ad.transportation && (
+        <TransportationDialog
+          mode="edit"
+          initialData={ad as AdWithTransportation}
+          open={editDialogOpen}
+          onOpenChange={setEditDialogOpen}
+          initialStep={editDialogInitialStep}
+        />
+      )}
+      {ad.category === 'MARKETPLACE' && 'marketplace' in ad && ad.marketplace && (
+        <MarketDialog
+          mode="edit"
+          initialData={ad as AdWithMarketplace}
+          open={editDialogOpen}
+          onOpenChange={setEditDialogOpen}
+        />
+      )}
+      {ad.category === 'SERVICES' && 'service' in ad && ad.service && (
+        <ServicesDialog
+          mode="edit"
+          initialData={ad as AdWithService}
+          open={editDialogOpen}
+          onOpenChange={setEditDialogOpen}
+          initialStep={editDialogInitialStep}
+        />
+      )}
+      {ad.category === 'CURRENCY' && 'exchange' in ad && ad.exchange && (
+        <ExchangeDialog
+          mode="edit"
+          initialData={ad as AdWithExchange}
+          open={editDialogOpen}
+          onOpenChange={setEditDialogOpen}
+          initialStep={editDialogInitialStep}
+        />
+      )}
+
+      {/* Renew Confirmation Dialog */}
+      <ConfirmDialog
+        open={showRenewConfirm}
+        onOpenChange={setShowRenewConfirm}
+        title="Renew this ad?"
+        description={
+          <>
+            Your ad will stay listed for another full period. If you edited it since it was last
+            approved, it will go back to review first.
+          </>
+        }
+        confirmText="Renew ad"
+        cancelText="Cancel"
+        onConfirm={handleConfirmRenew}
+      />
 
       {/* Delete Confirmation Dialog */}
       <ConfirmDialog
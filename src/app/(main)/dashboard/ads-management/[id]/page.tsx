@@ -1,4 +1,4 @@
-import { getAdWithDetails } from '@/data/ads/ads';
+import { getAdWithDetails, getLatestAdChangeRequest } from '@/data/ads/ads';
 import { requireUser } from '@/lib/auth/server';
 import { notFound, redirect } from 'next/navigation';
 import { AdDetailContent } from './_components/ad-detail-content';
@@ -29,6 +29,10 @@ export default async function AdDetailPage({ params }: AdDetailPageProps) {
     redirect('/dashboard/ads-management');
   }
 
+  // Moderator comments the owner has to address before resubmitting
+  const changeRequest =
+    ad.status === 'CHANGES_REQUESTED' ? await getLatestAdChangeRequest(adId) : null;
+
   // Serialize Decimal values for client component
   const serializedAd = {
     ...ad,
@@ -62,5 +66,5 @@ export default async function AdDetailPage({ params }: AdDetailPageProps) {
     }),
   };
 
-  return <AdDetailContent ad={serializedAd as typeof ad} />;
+  return <AdDetailContent ad={serializedAd as typeof ad} changeRequest={changeRequest} />;
 }
@@ -1,11 +1,15 @@
 'use client';
 
-import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Separator } from '@/components/ui/separator';
-import { useDashboardOverview, type OverviewStats } from '@/hooks/use-dashboard-overview';
+import {
+  useDashboardOverview,
+  type OverviewStats,
+  type RecentActivity,
+} from '@/hooks/use-dashboard-overview';
 import { cn } from '@/lib/utils';
 import { Activity, AlertTriangle, BarChart3, Eye, MessageCircle, TrendingUp } from 'lucide-react';
+import Link from 'next/link';
 import { memo, useMemo, type ReactNode } from 'react';
 
 const PERFORMANCE_PLACEHOLDER = {
@@ -219,13 +223,7 @@ const TopAdsSection = memo(function TopAdsSection({
 const RecentActivitySection = memo(function RecentActivitySection({
   recentActivity,
 }: {
-  recentActivity?: Array<{
-    createdAt: Date;
-    action: string;
-    entityType: string;
-    entityId?: number | null;
-    outcome: string;
-  }>;
+  recentActivity?: RecentActivity[];
 }) {
   return (
     <section className="flex min-h-0 flex-1 flex-col space-y-4">
@@ -238,32 +236,23 @@ const RecentActivitySection = memo(function RecentActivitySection({
 
       <div className="min-h-0 flex-1 space-y-2 overflow-auto">
         {recentActivity?.length ? (
-          recentActivity.slice(0, 6).map((activity, index) => (
-            <div
-              key={`${activity.action}-${index}`}
-              className="flex items-start gap-3 rounded-lg border border-border/30 bg-gradient-to-br from-background to-muted/10 p-2.5 transition-colors"
+          recentActivity.slice(0, 6).map((activity) => (
+            <Link
+              key={activity.id}
+              href={activity.href ?? '/dashboard/overview'}
+              className="flex items-start gap-3 rounded-lg border border-border/30 bg-gradient-to-br from-background to-muted/10 p-2.5 transition-colors hover:bg-muted/30"
             >
               <div className="rounded-full bg-primary/10 p-1.5">
                 <Activity className="h-3.5 w-3.5 text-primary" />
               </div>
               <div className="min-w-0 flex-1">
-                <div className="flex items-center gap-2">
-                  <span className="truncate text-xs font-medium">
-                    {formatActionLabel(activity.action)}
-                  </span>
-                  <Badge
-                    variant={activity.outcome === 'SUCCESS' ? 'default' : 'destructive'}
-                    className="shrink-0 text-[9px]"
-                  >
-                    {activity.outcome}
-                  </Badge>
-                </div>
+                <p className="truncate text-xs font-medium">{activity.message}</p>
                 <p className="mt-0.5 text-[10px] text-muted-foreground/80">
                   {activity.createdAt.toLocaleDateString()} ·{' '}
                   {activity.createdAt.toLocaleTimeString()}
                 </p>
               </div>
-            </div>
+            </Link>
           ))
         ) : (
           <EmptyStateMessage
@@ -277,10 +266,6 @@ const RecentActivitySection = memo(function RecentActivitySection({
   );
 });
 
-function formatActionLabel(action: string) {
-  return action.replace(/_/g, ' ').toLowerCase();
-}
-
 const MetricRow = memo(function MetricRow({
   icon,
   label,
@@ -21,8 +21,8 @@ export const CategoryTabs = memo(function CategoryTabs({
   return (
     <Tabs value={activeTab} onValueChange={(value) => onTabChange(value as AdCategory)}>
       <div className="w-full px-1 md:px-0 overflow-none">
-        <TabsList className="inline-flex p-1 gap-2 w-auto min-w-full md:grid md:grid-cols-4 h-auto rounded-2xl bg-white inset-shadow-sm shadow-md">
-          {AD_CATEGORY_CONFIG.slice(0, 4).map((categoryMeta) => {
+        <TabsList className="inline-flex p-1 gap-2 w-auto min-w-full md:grid md:grid-cols-5 h-auto rounded-2xl bg-white inset-shadow-sm shadow-md">
+          {AD_CATEGORY_CONFIG.map((categoryMeta) => {
             const isActive = activeTab === categoryMeta.id;
             const count = categoryCounts[categoryMeta.id] ?? 0;
             const Icon = categoryMeta.icon;
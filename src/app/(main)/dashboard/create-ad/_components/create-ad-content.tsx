@@ -7,6 +7,7 @@ import { cn } from '@/lib/utils';
 import { AnimatePresence, motion } from 'framer-motion';
 import Image from 'next/image';
 import { useState } from 'react';
+import { CurrencyCreateCard } from './currency-create-card';
 import { HousingCreateCard } from './housing-create-card';
 import { MarketCreateCard } from './market-create-card';
 import { ServicesCreateCard } from './services-create-card';
@@ -25,6 +26,8 @@ export function CreateAdContent() {
         return <MarketCreateCard />;
       case 'SERVICES':
         return <ServicesCreateCard />;
+      case 'CURRENCY':
+        return <CurrencyCreateCard />;
     }
   };
 
@@ -41,7 +44,7 @@ export function CreateAdContent() {
       {/* Category Selection */}
       <div className="flex justify-center w-full mt-16">
         <div className="w-full mx-auto h-[78px] md:h-[92px] lg:h-[105px] ">
-          <div className="grid grid-cols-4 h-full gap-1 md:gap-3 lg:gap-6 items-stretch">
+          <div className="grid grid-cols-5 h-full gap-1 md:gap-3 lg:gap-6 items-stretch">
             {AD_CATEGORY_CONFIG.map((category) => {
               const isActive = selectedCategory === category.id;
 
@@ -63,21 +66,33 @@ export function CreateAdContent() {
                   <div className="flex flex-col h-full items-center justify-center py-3.5">
                     {/* Icon - No circle background, just the icon */}
                     <div>
-                      <Image
-                        src={category.imageSrc}
-                        alt={category.name}
-                        width={500}
-                        height={500}
-                        loading="lazy"
-                        className={cn(
-                          'absolute left-1/2 top-1/2 transform -translate-x-1/2 -translate-y-[80%]',
-                          'transition-all duration-200 drop-shadow-sm object-contain',
-                          'select-none pointer-events-none',
-                          isActive
-                            ? 'w-24 h-24 md:w-30 md:h-30 lg:w-44 lg:h-44 drop-shadow-md'
-                            : 'w-20 h-20 md:w-26 md:h-26 lg:w-37 lg:h-37'
-                        )}
-                      />
+                      {category.imageSrc ? (
+                        <Image
+                          src={category.imageSrc}
+                          alt={category.name}
+                          width={500}
+                          height={500}
+                          loading="lazy"
+                          className={cn(
+                            'absolute left-1/2 top-1/2 transform -translate-x-1/2 -translate-y-[80%]',
+                            'transition-all duration-200 drop-shadow-sm object-contain',
+                            'select-none pointer-events-none',
+                            isActive
+                              ? 'w-24 h-24 md:w-30 md:h-30 lg:w-44 lg:h-44 drop-shadow-md'
+                              : 'w-20 h-20 md:w-26 md:h-26 lg:w-37 lg:h-37'
+                          )}
+                        />
+                      ) : (
+                        <category.icon
+                          className={cn(
+                            'absolute left-1/2 top-1/2 transform -translate-x-1/2 -translate-y-[80%]',
+                            'transition-all duration-200 drop-shadow-sm text-amber-500',
+                            isActive
+                              ? 'w-14 h-14 md:w-18 md:h-18 lg:w-24 lg:h-24 drop-shadow-md'
+                              : 'w-12 h-12 md:w-16 md:h-16 lg:w-20 lg:h-20'
+                          )}
+                        />
+                      )}
                     </div>
                     <div className="h-full flex flex-col items-center justify-end overflow-hidden">
                       {/* Label */}
@@ -0,0 +1,68 @@
+'use client';
+
+import { ExchangeDialog } from '@/components/ad-forms/exchange/exchange-dialog';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { AD_CATEGORY_BY_ID } from '@/constants/ad-categories';
+import { useSession } from '@/lib/auth/client';
+import { cn } from '@/lib/utils';
+import { ShieldCheck } from 'lucide-react';
+import Link from 'next/link';
+
+/**
+ * Exchange ads are limited to verified users. The server actions enforce
+ * this; the card only avoids opening a wizard that cannot be submitted.
+ */
+export function CurrencyCreateCard() {
+  const category = AD_CATEGORY_BY_ID.CURRENCY;
+  const { data: clientSession, isPending } = useSession();
+  const isVerified = !!clientSession?.user?.verified;
+
+  if (!category) {
+    return null;
+  }
+
+  const Icon = category.icon;
+
+  return (
+    <Card className={cn('w-full', category.bgPrimaryColor)}>
+      <CardHeader>
+        <div className="flex items-center gap-3">
+          <div className={cn('p-3 rounded-xl shadow-lg', category.bgSecondaryColor)}>
+            <Icon className="w-6 h-6 text-white" />
+          </div>
+          <div>
+            <CardTitle className="text-2xl">{category.cardTitle}</CardTitle>
+            <CardDescription className="text-base">{category.cardDescription}</CardDescription>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="shadow-sm rounded-3xl py-6 space-y-6 mx-2 bg-card">
+        <div className="space-y-3">
+          <h3 className="text-lg font-semibold">{category.guidelinesTitle}</h3>
+          <ul className="list-disc pl-5 space-y-1 text-sm text-muted-foreground">
+            {category.guidelines.map((guideline) => (
+              <li key={guideline}>{guideline}</li>
+            ))}
+          </ul>
+        </div>
+        {isPending ? null : isVerified ? (
+          <div className="flex justify-end">
+            <ExchangeDialog />
+          </div>
+        ) : (
+          <div className="flex flex-col sm:flex-row sm:items-center gap-3 rounded-2xl border border-amber-200 bg-amber-50 p-4">
+            <ShieldCheck className="w-6 h-6 shrink-0 text-amber-600" />
+            <p className="flex-1 text-sm text-amber-900">
+              Only verified members can publish currency exchange ads. Complete the verification to
+              unlock this category.
+            </p>
+            <Button asChild size="sm" className={category.bgSecondaryColor}>
+              <Link href="/dashboard/verification">Get verified</Link>
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -3,9 +3,11 @@ import { NotificationBell } from '@/components/notifications/notification-bell';
 import { Separator } from '@/components/ui/separator';
 import { SidebarInset, SidebarProvider, SidebarTrigger } from '@/components/ui/sidebar';
 import { UserDropDownMenu } from '@/components/user-dropdownmenu';
+import { getActiveSuspension } from '@/data/user/suspension.dal';
 import { requireUser } from '@/lib/auth/server';
 import type { Metadata } from 'next';
 import { AppSidebar } from './_components/sidebar/app-sidebar';
+import { SuspensionNotice } from './_components/suspension-notice';
 
 export const metadata: Metadata = {
   title: 'Dashboard',
@@ -17,6 +19,7 @@ export default async function DashboardLayout({
   children: React.ReactNode;
 }>) {
   const user = await requireUser();
+  const suspension = await getActiveSuspension(user.id);
 
   return (
     <div
@@ -52,7 +55,10 @@ export default async function DashboardLayout({
               </div>
             </div>
           </header>
-          <main className="md:px-8 mb-20 md:mb-0">{children}</main>
+          <main className="md:px-8 mb-20 md:mb-0">
+            {suspension && <SuspensionNotice suspension={suspension} />}
+            {children}
+          </main>
         </SidebarInset>
       </SidebarProvider>
     </div>
@@ -0,0 +1,123 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import type { UserActivityEntry } from '@/data/activity/activity';
+import { useInfiniteQuery } from '@tanstack/react-query';
+import { Activity, ChevronRight, Loader2 } from 'lucide-react';
+import Link from 'next/link';
+import { memo } from 'react';
+
+type ActivityPage = {
+  entries: UserActivityEntry[];
+  nextCursor: number | null;
+};
+
+type ActivityApiResponse = {
+  entries: Array<Omit<UserActivityEntry, 'createdAt'> & { createdAt: string }>;
+  nextCursor: number | null;
+};
+
+async function fetchActivityPage(cursor: number | null): Promise<ActivityPage> {
+  const params = new URLSearchParams({ limit: '10' });
+  if (cursor) params.set('cursor', String(cursor));
+
+  const response = await fetch(`/api/dashboard/activity?${params.toString()}`, {
+    cache: 'no-store',
+  });
+
+  if (!response.ok) {
+    throw new Error('Unable to load activity.');
+  }
+
+  const data: ActivityApiResponse = await response.json();
+  return {
+    entries: data.entries.map((entry) => ({ ...entry, createdAt: new Date(entry.createdAt) })),
+    nextCursor: data.nextCursor,
+  };
+}
+
+const ActivityRow = memo(function ActivityRow({ entry }: { entry: UserActivityEntry }) {
+  const content = (
+    <>
+      <div className="flex h-8 w-8 shrink-0 items-center justify-center rounded-full bg-muted">
+        <Activity className="h-4 w-4" />
+      </div>
+      <div className="flex-1 min-w-0">
+        <p className="text-sm font-medium truncate">{entry.message}</p>
+        <p className="text-xs text-muted-foreground">
+          {entry.createdAt.toLocaleDateString()} at {entry.createdAt.toLocaleTimeString()}
+        </p>
+      </div>
+      {entry.href && <ChevronRight className="h-4 w-4 text-muted-foreground" />}
+    </>
+  );
+
+  if (!entry.href) {
+    return <div className="flex items-center gap-3">{content}</div>;
+  }
+
+  return (
+    <Link
+      href={entry.href}
+      className="flex items-center gap-3 rounded-lg -mx-2 px-2 py-1 hover:bg-muted/50 transition-colors"
+    >
+      {content}
+    </Link>
+  );
+});
+
+interface ActivityFeedProps {
+  initialEntries: UserActivityEntry[];
+  initialCursor: number | null;
+}
+
+/**
+ * Recent activity list with "Load more"; the first page is rendered on the server
+ */
+export function ActivityFeed({ initialEntries, initialCursor }: ActivityFeedProps) {
+  const { data, fetchNextPage, hasNextPage, isFetchingNextPage, error } = useInfiniteQuery({
+    queryKey: ['dashboard-activity'],
+    queryFn: ({ pageParam }) => fetchActivityPage(pageParam),
+    initialPageParam: null as number | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    initialData: {
+      pages: [{ entries: initialEntries, nextCursor: initialCursor }],
+      pageParams: [null],
+    },
+    staleTime: Infinity,
+  });
+
+  const entries = data.pages.flatMap((page) => page.entries);
+
+  if (entries.length === 0) {
+    return (
+      <div className="text-center py-4">
+        <p className="text-sm text-muted-foreground">No recent activity</p>
+        <p className="text-xs text-muted-foreground mt-1">Your actions will appear here</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {entries.map((entry) => (
+        <ActivityRow key={entry.id} entry={entry} />
+      ))}
+
+      {error && <p className="text-xs text-destructive">{error.message}</p>}
+
+      {hasNextPage && (
+        <Button
+          variant="ghost"
+          size="sm"
+          className="w-full"
+          onClick={() => fetchNextPage()}
+          disabled={isFetchingNextPage}
+        >
+          {isFetchingNextPage && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          Load more
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -1,14 +1,15 @@
-import { Badge } from '@/components/ui/badge';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { getOverviewSnapshot } from '@/data/dashboard/overview';
-import { Activity, BarChart3, Eye, MessageCircle, TrendingUp } from 'lucide-react';
+import { BarChart3, Eye, MessageCircle, TrendingUp } from 'lucide-react';
+import { ActivityFeed } from './activity-feed';
 
 interface OverviewContentProps {
   userId: string;
 }
 
 export async function OverviewContent({ userId }: OverviewContentProps) {
-  const { adStats, topAds, recentActivity } = await getOverviewSnapshot(userId);
+  const { adStats, topAds, recentActivity, recentActivityCursor } =
+    await getOverviewSnapshot(userId);
 
   const totalAds = adStats.online + adStats.pending + adStats.rejected + adStats.expired;
 
@@ -151,39 +152,7 @@ export async function OverviewContent({ userId }: OverviewContentProps) {
           <CardDescription>Your latest actions on ItaliaHub</CardDescription>
         </CardHeader>
         <CardContent>
-          <div className="space-y-3">
-            {recentActivity.length > 0 ? (
-              recentActivity.map((activity, index) => (
-                <div key={index} className="flex items-center gap-3">
-                  <div className="flex h-8 w-8 items-center justify-center rounded-full bg-muted">
-                    <Activity className="h-4 w-4" />
-                  </div>
-                  <div className="flex-1">
-                    <div className="flex items-center gap-2">
-                      <span className="text-sm font-medium">
-                        {activity.action.replace('_', ' ').toLowerCase()}
-                      </span>
-                      <Badge
-                        variant={activity.outcome === 'SUCCESS' ? 'default' : 'destructive'}
-                        className="text-xs"
-                      >
-                        {activity.outcome}
-                      </Badge>
-                    </div>
-                    <p className="text-xs text-muted-foreground">
-                      {activity.createdAt.toLocaleDateString()} at{' '}
-                      {activity.createdAt.toLocaleTimeString()}
-                    </p>
-                  </div>
-                </div>
-              ))
-            ) : (
-              <div className="text-center py-4">
-                <p className="text-sm text-muted-foreground">No recent activity</p>
-                <p className="text-xs text-muted-foreground mt-1">Your actions will appear here</p>
-              </div>
-            )}
-          </div>
+          <ActivityFeed initialEntries={recentActivity} initialCursor={recentActivityCursor} />
         </CardContent>
       </Card>
     </div>
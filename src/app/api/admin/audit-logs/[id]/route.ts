@@ -0,0 +1,113 @@
+/**
+ * API Route: /api/admin/audit-logs/[id]
+ *
+ * GET: Fetch an audit entry with its metadata and the other entries of the same request
+ * PATCH: Hide the entry from the owner's activity feed, or show it again
+ */
+
+import { getAuditLogDetails, setAuditEntryHiddenFromUser } from '@/data/admin/audit-log.dal';
+import type { AuditActorRole } from '@/generated/prisma';
+import { PermissionError, requirePermission } from '@/lib/auth/server';
+import { setAuditEntryVisibilitySchema } from '@/lib/schemas/audit-log-schema';
+import { NextRequest, NextResponse } from 'next/server';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    // Check authentication and permission
+    await requirePermission('audit.view');
+
+    const { id } = await params;
+    const entryId = parseInt(id, 10);
+
+    if (isNaN(entryId)) {
+      return NextResponse.json({ error: 'Invalid audit entry ID' }, { status: 400 });
+    }
+
+    const entry = await getAuditLogDetails(entryId);
+
+    if (!entry) {
+      return NextResponse.json({ error: 'Audit entry not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: entry,
+    });
+  } catch (error) {
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error fetching audit entry:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch audit entry',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    // Check authentication and permission
+    const user = await requirePermission('audit.hide_entries');
+
+    const { id } = await params;
+    const entryId = parseInt(id, 10);
+
+    if (isNaN(entryId)) {
+      return NextResponse.json({ error: 'Invalid audit entry ID' }, { status: 400 });
+    }
+
+    // Parse and validate body
+    const body = await request.json();
+    const validationResult = setAuditEntryVisibilitySchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid request body',
+          details: validationResult.error.flatten(),
+        },
+        { status: 400 }
+      );
+    }
+
+    try {
+      const entry = await setAuditEntryHiddenFromUser(
+        entryId,
+        validationResult.data.hiddenFromUser,
+        user.id,
+        user.role as AuditActorRole
+      );
+
+      return NextResponse.json({
+        success: true,
+        data: entry,
+        message: entry.hiddenFromUser ? 'Entry hidden from the user' : 'Entry shown to the user',
+      });
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Audit entry not found') {
+        return NextResponse.json({ error: 'Audit entry not found' }, { status: 404 });
+      }
+      throw error;
+    }
+  } catch (error) {
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error updating audit entry:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to update audit entry',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,47 @@
+import type { AuditLogSearchParams } from '@/data/admin/audit-log.dal';
+import * as Enum from '@/generated/enums';
+import { z } from 'zod';
+
+// Filters shared by the list and export endpoints
+const auditSearchParamsSchema = z
+  .object({
+    actor: z.string().trim().min(1).max(255).optional(),
+    action: z.nativeEnum(Enum.AuditAction).optional(),
+    entityType: z.nativeEnum(Enum.AuditEntityType).optional(),
+    entity: z.string().trim().min(1).max(64).optional(),
+    outcome: z.nativeEnum(Enum.AuditOutcome).optional(),
+    requestId: z.string().trim().min(1).max(64).optional(),
+    ip: z.string().trim().min(1).max(45).optional(),
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+    cursor: z.string().max(64).optional(),
+    limit: z.coerce.number().int().positive().max(200).optional(),
+  })
+  .refine((data) => !data.from || !data.to || data.from <= data.to, {
+    message: '"from" must be before "to"',
+    path: ['from'],
+  });
+
+export function parseAuditSearchParams(
+  searchParams: URLSearchParams
+): z.SafeParseReturnType<unknown, AuditLogSearchParams> {
+  // Helper function to get non-null search params
+  const getParam = (key: string) => {
+    const value = searchParams.get(key);
+    return value && value !== '' && value !== 'all' ? value : undefined;
+  };
+
+  return auditSearchParamsSchema.safeParse({
+    actor: getParam('actor'),
+    action: getParam('action'),
+    entityType: getParam('entityType'),
+    entity: getParam('entity'),
+    outcome: getParam('outcome'),
+    requestId: getParam('requestId'),
+    ip: getParam('ip'),
+    from: getParam('from'),
+    to: getParam('to'),
+    cursor: getParam('cursor'),
+    limit: getParam('limit'),
+  });
+}
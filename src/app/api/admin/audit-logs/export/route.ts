@@ -0,0 +1,137 @@
+/**
+ * API Route: /api/admin/audit-logs/export
+ *
+ * Streams the entries matching the explorer filters as CSV or NDJSON (admins only).
+ * Accepts the same filters as /api/admin/audit-logs plus `format=csv|ndjson`.
+ */
+
+import {
+  AUDIT_EXPORT_MAX_ROWS,
+  iterateAuditLogs,
+  type AuditLogListItem,
+} from '@/data/admin/audit-log.dal';
+import type { Prisma } from '@/generated/prisma';
+import { PermissionError, requirePermission } from '@/lib/auth/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { parseAuditSearchParams } from '../_lib/audit-search-params';
+
+type ExportRow = AuditLogListItem & { metadata: Prisma.JsonValue | null };
+
+const CSV_COLUMNS = [
+  'id',
+  'createdAt',
+  'actorUserId',
+  'actorEmail',
+  'actorRole',
+  'action',
+  'outcome',
+  'errorCode',
+  'entityType',
+  'entityId',
+  'entityRef',
+  'requestId',
+  'sessionId',
+  'ip',
+  'userAgent',
+  'note',
+  'hiddenFromUser',
+  'metadata',
+] as const;
+
+function toCsvCell(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  let text = value instanceof Date ? value.toISOString() : String(value);
+  // Keep spreadsheet apps from evaluating cells as formulas
+  if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsvLine(row: ExportRow): string {
+  const values: Record<(typeof CSV_COLUMNS)[number], unknown> = {
+    ...row,
+    actorEmail: row.actor?.email,
+    metadata: row.metadata === null ? null : JSON.stringify(row.metadata),
+  };
+  return CSV_COLUMNS.map((column) => toCsvCell(values[column])).join(',');
+}
+
+function toNdjsonLine(row: ExportRow): string {
+  return JSON.stringify({ ...row, createdAt: row.createdAt.toISOString() });
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    // Check authentication and permission
+    await requirePermission('audit.view');
+
+    const format = request.nextUrl.searchParams.get('format') ?? 'csv';
+    if (format !== 'csv' && format !== 'ndjson') {
+      return NextResponse.json({ error: 'Unsupported export format' }, { status: 400 });
+    }
+
+    const validationResult = parseAuditSearchParams(request.nextUrl.searchParams);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid search parameters',
+          details: validationResult.error.flatten(),
+        },
+        { status: 400 }
+      );
+    }
+
+    // Exports always start from the newest entry; cursor and limit are ignored
+    const batches = iterateAuditLogs(validationResult.data);
+    const encoder = new TextEncoder();
+    const toLine = format === 'csv' ? toCsvLine : toNdjsonLine;
+
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        if (format === 'csv') {
+          controller.enqueue(encoder.encode(`${CSV_COLUMNS.join(',')}\n`));
+        }
+      },
+      async pull(controller) {
+        try {
+          const { value, done } = await batches.next();
+          if (done) {
+            controller.close();
+            return;
+          }
+          controller.enqueue(encoder.encode(value.map((row) => `${toLine(row)}\n`).join('')));
+        } catch (error) {
+          console.error('Error streaming audit log export:', error);
+          controller.error(error);
+        }
+      },
+      async cancel() {
+        await batches.return(undefined);
+      },
+    });
+
+    const date = new Date().toISOString().slice(0, 10);
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type':
+          format === 'csv' ? 'text/csv; charset=utf-8' : 'application/x-ndjson; charset=utf-8',
+        'Content-Disposition': `attachment; filename="audit-logs-${date}.${format}"`,
+        'Cache-Control': 'no-store',
+        'X-Export-Row-Limit': String(AUDIT_EXPORT_MAX_ROWS),
+      },
+    });
+  } catch (error) {
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error exporting audit logs:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to export audit logs',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
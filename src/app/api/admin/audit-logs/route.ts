@@ -0,0 +1,48 @@
+/**
+ * API Route: /api/admin/audit-logs
+ *
+ * Lists audit log entries with filters and cursor pagination (admins only).
+ */
+
+import { searchAuditLogs } from '@/data/admin/audit-log.dal';
+import { PermissionError, requirePermission } from '@/lib/auth/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { parseAuditSearchParams } from './_lib/audit-search-params';
+
+export async function GET(request: NextRequest) {
+  try {
+    // Check authentication and permission
+    await requirePermission('audit.view');
+
+    const validationResult = parseAuditSearchParams(request.nextUrl.searchParams);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid search parameters',
+          details: validationResult.error.flatten(),
+        },
+        { status: 400 }
+      );
+    }
+
+    const result = await searchAuditLogs(validationResult.data);
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error fetching audit logs:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch audit logs',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
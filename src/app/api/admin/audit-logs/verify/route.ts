@@ -0,0 +1,35 @@
+/**
+ * API Route: /api/admin/audit-logs/verify
+ *
+ * Walks the audit hash chain and reports the first broken link (admins only).
+ */
+
+import { verifyAuditChain } from '@/lib/audit/audit-chain';
+import { PermissionError, requirePermission } from '@/lib/auth/server';
+import { NextResponse } from 'next/server';
+
+export async function GET() {
+  try {
+    // Check authentication and permission
+    await requirePermission('audit.view');
+
+    const result = await verifyAuditChain();
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error verifying audit chain:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to verify audit chain',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
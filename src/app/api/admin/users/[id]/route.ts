@@ -0,0 +1,44 @@
+/**
+ * API Route: /api/admin/users/[id]
+ *
+ * GET: Fetch a user with their ads, verifications, filed reports and active sessions
+ */
+
+import { getUserDetailsForAdmin } from '@/data/admin/users.dal';
+import { PermissionError, requirePermission } from '@/lib/auth/server';
+import { NextRequest, NextResponse } from 'next/server';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    // Check authentication and permission
+    await requirePermission('users.view');
+
+    const { id } = await params;
+    const user = await getUserDetailsForAdmin(id);
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: user,
+    });
+  } catch (error) {
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error fetching user details:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch user details',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
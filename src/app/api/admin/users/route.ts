@@ -0,0 +1,69 @@
+/**
+ * API Route: /api/admin/users
+ *
+ * Searches users by email, userId, name or city with page pagination (admins only).
+ */
+
+import { searchUsersForAdmin } from '@/data/admin/users.dal';
+import * as Enum from '@/generated/enums';
+import { PermissionError, requirePermission } from '@/lib/auth/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+
+const searchParamsSchema = z.object({
+  query: z.string().trim().max(255).optional(),
+  role: z.nativeEnum(Enum.UserRole).optional(),
+  page: z.coerce.number().int().positive().optional(),
+  limit: z.coerce.number().int().positive().max(100).optional(),
+});
+
+export async function GET(request: NextRequest) {
+  try {
+    // Check authentication and permission
+    await requirePermission('users.view');
+
+    const { searchParams } = request.nextUrl;
+
+    // Helper function to get non-null search params
+    const getParam = (key: string) => {
+      const value = searchParams.get(key);
+      return value && value !== '' && value !== 'all' ? value : undefined;
+    };
+
+    const validationResult = searchParamsSchema.safeParse({
+      query: getParam('query'),
+      role: getParam('role'),
+      page: getParam('page'),
+      limit: getParam('limit'),
+    });
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid search parameters',
+          details: validationResult.error.flatten(),
+        },
+        { status: 400 }
+      );
+    }
+
+    const result = await searchUsersForAdmin(validationResult.data);
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error searching users:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to search users',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
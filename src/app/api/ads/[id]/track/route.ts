@@ -0,0 +1,64 @@
+/**
+ * API Route: /api/ads/[id]/track
+ *
+ * POST: Record a detail view or Telegram contact click for a public ad.
+ * Anonymous visitors are identified by their IP address and user agent, so
+ * clearing cookies doesn't make a client count again; the key is only stored hashed.
+ */
+
+import { getServerSession } from '@/lib/auth/server';
+import { recordAdEvent } from '@/lib/services/ad-metrics-service';
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+function getClientIp(request: NextRequest): string {
+  const ip =
+    request.headers.get('x-forwarded-for') ||
+    request.headers.get('x-real-ip') ||
+    request.headers.get('cf-connecting-ip') ||
+    '127.0.0.1';
+  return ip.split(',')[0].trim(); // First IP if multiple
+}
+
+const trackSchema = z.object({
+  event: z.enum(['view', 'contact']),
+});
+
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const { id } = await params;
+  const adId = parseInt(id, 10);
+
+  if (isNaN(adId)) {
+    return NextResponse.json({ error: 'Invalid ad ID' }, { status: 400 });
+  }
+
+  const body = await request.json().catch(() => null);
+  const parsed = trackSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Invalid event' }, { status: 400 });
+  }
+
+  try {
+    const session = await getServerSession();
+    const userAgent = request.headers.get('user-agent');
+
+    const result = await recordAdEvent({
+      adId,
+      event: parsed.data.event,
+      viewerKey: session?.user
+        ? `user:${session.user.id}`
+        : `anon:${getClientIp(request)}:${userAgent ?? ''}`,
+      viewerUserId: session?.user?.id ?? null,
+      userAgent,
+    });
+
+    return NextResponse.json({ success: true, data: result });
+  } catch (error) {
+    console.error('Error tracking ad event:', { adId, error });
+    return NextResponse.json({ error: 'Failed to track event' }, { status: 500 });
+  }
+}
@@ -3,7 +3,13 @@ import type { AdCategory, AdStatus } from '@/generated/prisma';
 import { requireUser } from '@/lib/auth/server';
 import { NextRequest, NextResponse } from 'next/server';
 
-const AD_STATUS_VALUES: AdStatus[] = ['PENDING', 'ONLINE', 'REJECTED', 'EXPIRED'];
+const AD_STATUS_VALUES: AdStatus[] = [
+  'PENDING',
+  'ONLINE',
+  'REJECTED',
+  'EXPIRED',
+  'CHANGES_REQUESTED',
+];
 
 export async function GET(request: NextRequest) {
   try {
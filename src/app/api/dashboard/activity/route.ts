@@ -0,0 +1,34 @@
+import { listUserActivity } from '@/data/activity/activity';
+import { requireUser } from '@/lib/auth/server';
+import { NextRequest, NextResponse } from 'next/server';
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireUser();
+
+    const searchParams = request.nextUrl.searchParams;
+    const cursor = parseInt(searchParams.get('cursor') ?? '', 10);
+    const limit = parseInt(searchParams.get('limit') ?? '', 10);
+
+    const page = await listUserActivity(user.id, {
+      cursor: Number.isNaN(cursor) ? null : cursor,
+      limit: Number.isNaN(limit) ? undefined : limit,
+    });
+
+    return NextResponse.json({
+      entries: page.entries.map((entry) => ({
+        ...entry,
+        createdAt: entry.createdAt.toISOString(),
+      })),
+      nextCursor: page.nextCursor,
+    });
+  } catch (error) {
+    console.error('Error fetching user activity:', error);
+
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    return NextResponse.json({ error: 'Failed to fetch activity' }, { status: 500 });
+  }
+}
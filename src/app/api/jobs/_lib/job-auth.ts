@@ -0,0 +1,16 @@
+import { timingSafeEqual } from 'crypto';
+import type { NextRequest } from 'next/server';
+
+/**
+ * Scheduled job routes require `Authorization: Bearer <CRON_SECRET>`.
+ * Without a configured secret every call is rejected.
+ */
+export function isAuthorizedJobRequest(request: NextRequest): boolean {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) return false;
+
+  const header = request.headers.get('authorization') ?? '';
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const received = Buffer.from(header);
+  return received.length === expected.length && timingSafeEqual(received, expected);
+}
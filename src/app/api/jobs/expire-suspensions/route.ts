@@ -0,0 +1,32 @@
+import { runSuspensionExpirationJob } from '@/lib/services/suspension-expiration-service';
+import { NextRequest, NextResponse } from 'next/server';
+import { isAuthorizedJobRequest } from '../_lib/job-auth';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Scheduled job trigger, called by the platform cron or `npm run jobs:expire-suspensions`.
+ */
+async function handle(request: NextRequest) {
+  if (!isAuthorizedJobRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const batchSizeParam = Number(request.nextUrl.searchParams.get('batchSize'));
+  const batchSize =
+    Number.isInteger(batchSizeParam) && batchSizeParam > 0
+      ? Math.min(batchSizeParam, 500)
+      : undefined;
+
+  try {
+    const result = await runSuspensionExpirationJob({ batchSize });
+    return NextResponse.json({ success: true, data: result });
+  } catch (error) {
+    console.error('Suspension expiration job failed:', error);
+    return NextResponse.json({ error: 'Suspension expiration job failed' }, { status: 500 });
+  }
+}
+
+// Vercel Cron issues GET requests; POST is for manual and CLI triggers
+export const GET = handle;
+export const POST = handle;
@@ -0,0 +1,26 @@
+import { runMetricsRollup } from '@/lib/services/ad-metrics-service';
+import { NextRequest, NextResponse } from 'next/server';
+import { isAuthorizedJobRequest } from '../_lib/job-auth';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Scheduled job trigger, called by the platform cron or `npm run jobs:metrics-rollup`.
+ */
+async function handle(request: NextRequest) {
+  if (!isAuthorizedJobRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const result = await runMetricsRollup();
+    return NextResponse.json({ success: true, data: result });
+  } catch (error) {
+    console.error('Metrics rollup failed:', error);
+    return NextResponse.json({ error: 'Metrics rollup failed' }, { status: 500 });
+  }
+}
+
+// Vercel Cron issues GET requests; POST is for manual and CLI triggers
+export const GET = handle;
+export const POST = handle;
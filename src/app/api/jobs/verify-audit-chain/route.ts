@@ -0,0 +1,39 @@
+import { verifyAuditChain } from '@/lib/audit/audit-chain';
+import { NextRequest, NextResponse } from 'next/server';
+import { isAuthorizedJobRequest } from '../_lib/job-auth';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Audit chain check, called by the platform cron or `npm run jobs:verify-audit-chain`.
+ * Responds 409 when a link is broken so schedulers and the CLI flag it as a failure.
+ */
+async function handle(request: NextRequest) {
+  if (!isAuthorizedJobRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const result = await verifyAuditChain();
+
+    if (!result.valid) {
+      console.error('Audit chain broken:', result);
+      return NextResponse.json(
+        {
+          error: `Audit chain broken at entry #${result.firstBrokenId} (${result.reason})`,
+          data: result,
+        },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ success: true, data: result });
+  } catch (error) {
+    console.error('Audit chain verification failed:', error);
+    return NextResponse.json({ error: 'Audit chain verification failed' }, { status: 500 });
+  }
+}
+
+// Vercel Cron issues GET requests; POST is for manual and CLI triggers
+export const GET = handle;
+export const POST = handle;
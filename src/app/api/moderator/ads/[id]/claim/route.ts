@@ -0,0 +1,90 @@
+/**
+ * API Route: /api/moderator/ads/[id]/claim
+ *
+ * POST: Claim a pending ad for review (or renew the claim) so other moderators can't decide it
+ * DELETE: Release the claim without deciding
+ */
+
+import { claimAdForReview, releaseAdReviewClaim } from '@/data/moderator/ad-moderation.dal';
+import { PermissionError, requirePermission } from '@/lib/auth/server';
+import { NextRequest, NextResponse } from 'next/server';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    // Check authentication and permission
+    await requirePermission('ads.moderate');
+
+    const { id } = await params;
+    const adId = parseInt(id, 10);
+
+    if (isNaN(adId)) {
+      return NextResponse.json({ error: 'Invalid ad ID' }, { status: 400 });
+    }
+
+    try {
+      const claim = await claimAdForReview(adId);
+
+      return NextResponse.json({
+        success: true,
+        data: claim,
+      });
+    } catch (error) {
+      if (error instanceof Error && error.name === 'ClaimedByOtherError') {
+        return NextResponse.json({ error: error.message }, { status: 409 });
+      }
+      if (error instanceof Error && error.message === 'Only pending ads can be claimed') {
+        return NextResponse.json({ error: error.message }, { status: 409 });
+      }
+      if (error instanceof Error && error.message === 'Ad not found') {
+        return NextResponse.json({ error: 'Ad not found' }, { status: 404 });
+      }
+      throw error;
+    }
+  } catch (error) {
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error claiming ad for review:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to claim ad',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    // Check authentication and permission
+    await requirePermission('ads.moderate');
+
+    const { id } = await params;
+    const adId = parseInt(id, 10);
+
+    if (isNaN(adId)) {
+      return NextResponse.json({ error: 'Invalid ad ID' }, { status: 400 });
+    }
+
+    await releaseAdReviewClaim(adId);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error releasing ad claim:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to release claim',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,47 @@
+/**
+ * API Route: /api/moderator/ads/[id]/revisions
+ *
+ * GET: Latest revision of an ad diffed against the last approved one.
+ * data is null when the ad has no revisions (created before they were recorded).
+ */
+
+import { getAdRevisionDiff } from '@/data/moderator/ad-moderation.dal';
+import { PermissionError, requirePermission } from '@/lib/auth/server';
+import { NextRequest, NextResponse } from 'next/server';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    // Check authentication and permission
+    await requirePermission('ads.moderate');
+
+    const { id } = await params;
+    const adId = parseInt(id, 10);
+
+    if (isNaN(adId)) {
+      return NextResponse.json({ error: 'Invalid ad ID' }, { status: 400 });
+    }
+
+    const diff = await getAdRevisionDiff(adId);
+
+    return NextResponse.json({
+      success: true,
+      data: diff,
+    });
+  } catch (error) {
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error fetching ad revisions:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch ad revisions',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -2,7 +2,7 @@
  * API Route: /api/moderator/ads/[id]
  *
  * GET: Fetch detailed ad information for review
- * PATCH: Approve, reject, or change ad status
+ * PATCH: Approve, reject, request changes, or change ad status
  */
 
 import {
@@ -10,10 +10,12 @@ import {
   moderatorApproveAd,
   moderatorChangeAdStatus,
   moderatorRejectAd,
+  moderatorRequestAdChanges,
 } from '@/data/moderator/ad-moderation.dal';
 import * as Enum from '@/generated/enums';
 import type { AdStatus, AuditActorRole, ModerationReasonCode } from '@/generated/prisma';
-import { getServerSession } from '@/lib/auth/server';
+import { PermissionError, requirePermission } from '@/lib/auth/server';
+import { adChangeRequestSchema } from '@/lib/schemas/ad-change-request-schema';
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 
@@ -28,6 +30,9 @@ const patchBodySchema = z.discriminatedUnion('action', [
     reasonCode: z.nativeEnum(Enum.ModerationReasonCode),
     reasonText: z.string().optional(),
   }),
+  adChangeRequestSchema.extend({
+    action: z.literal('request-changes'),
+  }),
   z.object({
     action: z.literal('change-status'),
     newStatus: z.nativeEnum(Enum.AdStatus),
@@ -41,17 +46,8 @@ interface RouteParams {
 
 export async function GET(request: NextRequest, { params }: RouteParams) {
   try {
-    // Check authentication and authorization
-    const session = await getServerSession();
-
-    if (!session?.user) {
-      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
-    }
-
-    // Check if user has moderator or admin role
-    if (!session.user.role || !['MODERATOR', 'ADMIN'].includes(session.user.role)) {
-      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
-    }
+    // Check authentication and permission
+    await requirePermission('ads.moderate');
 
     const { id } = await params;
     const adId = parseInt(id, 10);
@@ -71,6 +67,9 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       data: ad,
     });
   } catch (error) {
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
     console.error('Error fetching ad for moderation:', error);
     return NextResponse.json(
       {
@@ -84,17 +83,8 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
 
 export async function PATCH(request: NextRequest, { params }: RouteParams) {
   try {
-    // Check authentication and authorization
-    const session = await getServerSession();
-
-    if (!session?.user) {
-      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
-    }
-
-    // Check if user has moderator or admin role
-    if (!session.user.role || !['MODERATOR', 'ADMIN'].includes(session.user.role)) {
-      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
-    }
+    // Check authentication and permission
+    const user = await requirePermission('ads.moderate');
 
     const { id } = await params;
     const adId = parseInt(id, 10);
@@ -118,10 +108,10 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
     }
 
     const data = validationResult.data;
-    const moderatorRole = session.user.role as AuditActorRole;
+    const moderatorRole = user.role as AuditActorRole;
 
     if (data.action === 'approve') {
-      const result = await moderatorApproveAd(adId, session.user.id, moderatorRole, data.note);
+      const result = await moderatorApproveAd(adId, user.id, moderatorRole, data.note);
 
       if (!result.success) {
         return NextResponse.json({ error: result.error }, { status: 400 });
@@ -134,7 +124,7 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
     } else if (data.action === 'reject') {
       const result = await moderatorRejectAd(
         adId,
-        session.user.id,
+        user.id,
         {
           reasonCode: data.reasonCode as ModerationReasonCode,
           reasonText: data.reasonText,
@@ -150,11 +140,27 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
         success: true,
         message: 'Ad rejected successfully',
       });
+    } else if (data.action === 'request-changes') {
+      const result = await moderatorRequestAdChanges(
+        adId,
+        user.id,
+        { comments: data.comments, note: data.note },
+        moderatorRole
+      );
+
+      if (!result.success) {
+        return NextResponse.json({ error: result.error }, { status: 400 });
+      }
+
+      return NextResponse.json({
+        success: true,
+        message: 'Changes requested successfully',
+      });
     } else if (data.action === 'change-status') {
       const result = await moderatorChangeAdStatus(
         adId,
         data.newStatus as AdStatus,
-        session.user.id,
+        user.id,
         moderatorRole,
         data.note
       );
@@ -171,6 +177,9 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
 
     return NextResponse.json({ error: 'Invalid action' }, { status: 400 });
   } catch (error) {
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
     console.error('Error processing ad moderation action:', error);
     return NextResponse.json(
       {
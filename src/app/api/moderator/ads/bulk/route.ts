@@ -7,7 +7,7 @@
 import { bulkApproveAds, bulkRejectAds } from '@/data/moderator/ad-moderation.dal';
 import * as Enum from '@/generated/enums';
 import type { AuditActorRole, ModerationReasonCode } from '@/generated/prisma';
-import { getServerSession } from '@/lib/auth/server';
+import { PermissionError, requirePermission } from '@/lib/auth/server';
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 
@@ -27,17 +27,8 @@ const bulkOperationSchema = z.discriminatedUnion('action', [
 
 export async function POST(request: NextRequest) {
   try {
-    // Check authentication and authorization
-    const session = await getServerSession();
-
-    if (!session?.user) {
-      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
-    }
-
-    // Check if user has moderator or admin role
-    if (!session.user.role || !['MODERATOR', 'ADMIN'].includes(session.user.role)) {
-      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
-    }
+    // Check authentication and permission
+    const user = await requirePermission('ads.moderate');
 
     // Parse and validate body
     const body = await request.json();
@@ -54,10 +45,10 @@ export async function POST(request: NextRequest) {
     }
 
     const data = validationResult.data;
-    const moderatorRole = session.user.role as AuditActorRole;
+    const moderatorRole = user.role as AuditActorRole;
 
     if (data.action === 'approve') {
-      const result = await bulkApproveAds(data.ids, session.user.id, moderatorRole);
+      const result = await bulkApproveAds(data.ids, user.id, moderatorRole);
 
       return NextResponse.json({
         success: true,
@@ -67,7 +58,7 @@ export async function POST(request: NextRequest) {
     } else if (data.action === 'reject') {
       const result = await bulkRejectAds(
         data.ids,
-        session.user.id,
+        user.id,
         {
           reasonCode: data.reasonCode as ModerationReasonCode,
           reasonText: data.reasonText,
@@ -84,6 +75,9 @@ export async function POST(request: NextRequest) {
 
     return NextResponse.json({ error: 'Invalid action' }, { status: 400 });
   } catch (error) {
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
     console.error('Error processing bulk ad moderation:', error);
     return NextResponse.json(
       {
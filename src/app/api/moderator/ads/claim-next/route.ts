@@ -0,0 +1,59 @@
+/**
+ * API Route: /api/moderator/ads/claim-next
+ *
+ * POST: Claim the oldest pending ad nobody is reviewing (optionally within a category or city)
+ */
+
+import { claimNextAdForReview } from '@/data/moderator/ad-moderation.dal';
+import * as Enum from '@/generated/enums';
+import type { AdCategory } from '@/generated/prisma';
+import { PermissionError, requirePermission } from '@/lib/auth/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+
+const claimNextSchema = z.object({
+  category: z.nativeEnum(Enum.AdCategory).optional(),
+  cityId: z.number().int().positive().optional(),
+});
+
+export async function POST(request: NextRequest) {
+  try {
+    // Check authentication and permission
+    await requirePermission('ads.moderate');
+
+    // Parse and validate body
+    const body = await request.json().catch(() => ({}));
+    const validationResult = claimNextSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid request body',
+          details: validationResult.error.flatten(),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { category, cityId } = validationResult.data;
+    const claim = await claimNextAdForReview({ category: category as AdCategory, cityId });
+
+    return NextResponse.json({
+      success: true,
+      data: claim,
+      message: claim ? undefined : 'No unclaimed pending ads',
+    });
+  } catch (error) {
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error claiming next ad:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to claim next ad',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -9,7 +9,7 @@ import {
   type AdModerationSearchParams,
 } from '@/data/moderator/ad-moderation.dal';
 import * as Enum from '@/generated/enums';
-import { getServerSession } from '@/lib/auth/server';
+import { PermissionError, requirePermission } from '@/lib/auth/server';
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 
@@ -32,17 +32,8 @@ const searchParamsSchema = z.object({
 
 export async function GET(request: NextRequest) {
   try {
-    // Check authentication and authorization
-    const session = await getServerSession();
-
-    if (!session?.user) {
-      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
-    }
-
-    // Check if user has moderator or admin role
-    if (!session.user.role || !['MODERATOR', 'ADMIN'].includes(session.user.role)) {
-      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
-    }
+    // Check authentication and permission
+    await requirePermission('ads.moderate');
 
     const searchParams = request.nextUrl.searchParams;
 
@@ -102,6 +93,9 @@ export async function GET(request: NextRequest) {
       data: result,
     });
   } catch (error) {
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
     console.error('Error fetching ads for moderation:', error);
     return NextResponse.json(
       {
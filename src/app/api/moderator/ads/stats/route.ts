@@ -5,22 +5,13 @@
  */
 
 import { getAdModerationStats } from '@/data/moderator/ad-moderation.dal';
-import { getServerSession } from '@/lib/auth/server';
+import { PermissionError, requirePermission } from '@/lib/auth/server';
 import { NextResponse } from 'next/server';
 
 export async function GET() {
   try {
-    // Check authentication and authorization
-    const session = await getServerSession();
-
-    if (!session?.user) {
-      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
-    }
-
-    // Check if user has moderator or admin role
-    if (!session.user.role || !['MODERATOR', 'ADMIN'].includes(session.user.role)) {
-      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
-    }
+    // Check authentication and permission
+    await requirePermission('ads.moderate');
 
     const stats = await getAdModerationStats();
 
@@ -29,6 +20,9 @@ export async function GET() {
       data: stats,
     });
   } catch (error) {
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
     console.error('Error fetching ad moderation stats:', error);
     return NextResponse.json(
       {
@@ -0,0 +1,77 @@
+/**
+ * API Route: /api/moderator/flags/[id]
+ *
+ * PATCH: Resolve an open flag (admins)
+ */
+
+import { resolveFlag } from '@/data/moderator/moderation-flag.dal';
+import type { AuditActorRole } from '@/generated/prisma';
+import { PermissionError, requirePermission } from '@/lib/auth/server';
+import { resolveFlagSchema } from '@/lib/schemas/moderation-flag-schema';
+import { NextRequest, NextResponse } from 'next/server';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    // Check authentication and permission
+    const user = await requirePermission('flags.resolve');
+
+    const { id } = await params;
+    const flagId = parseInt(id, 10);
+
+    if (isNaN(flagId)) {
+      return NextResponse.json({ error: 'Invalid flag ID' }, { status: 400 });
+    }
+
+    // Parse and validate body
+    const body = await request.json();
+    const validationResult = resolveFlagSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid request body',
+          details: validationResult.error.flatten(),
+        },
+        { status: 400 }
+      );
+    }
+
+    try {
+      await resolveFlag(
+        flagId,
+        validationResult.data.resolutionNote || null,
+        user.id,
+        user.role as AuditActorRole
+      );
+
+      return NextResponse.json({
+        success: true,
+        message: 'Flag resolved',
+      });
+    } catch (error) {
+      if (error instanceof Error && error.name === 'FlagNotOpenError') {
+        return NextResponse.json({ error: 'Flag is already resolved' }, { status: 409 });
+      }
+      if (error instanceof Error && error.message === 'Flag not found') {
+        return NextResponse.json({ error: 'Flag not found' }, { status: 404 });
+      }
+      throw error;
+    }
+  } catch (error) {
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error resolving flag:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to resolve flag',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,132 @@
+/**
+ * API Route: /api/moderator/flags
+ *
+ * GET: Flagged items for admins, open or resolved
+ * POST: Flag an ad, verification request or report for admin review
+ */
+
+import { FLAG_TARGET_TYPES } from '@/constants/moderation-flag-config';
+import { flagItemForAdmin, getFlaggedItems } from '@/data/moderator/moderation-flag.dal';
+import type { AuditActorRole } from '@/generated/prisma';
+import { PermissionError, requirePermission } from '@/lib/auth/server';
+import { flagItemSchema } from '@/lib/schemas/moderation-flag-schema';
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+
+// Validation schema for search parameters
+const searchParamsSchema = z.object({
+  state: z.enum(['open', 'resolved']).optional().default('open'),
+  targetType: z.enum(FLAG_TARGET_TYPES).optional(),
+  page: z.coerce.number().int().positive().optional().default(1),
+  limit: z.coerce.number().int().positive().max(100).optional().default(20),
+});
+
+export async function GET(request: NextRequest) {
+  try {
+    // Check authentication and permission
+    await requirePermission('flags.resolve');
+
+    const searchParams = request.nextUrl.searchParams;
+
+    // Helper function to get non-null search params
+    const getParam = (key: string) => {
+      const value = searchParams.get(key);
+      return value && value !== '' && value !== 'all' ? value : undefined;
+    };
+
+    const validationResult = searchParamsSchema.safeParse({
+      state: getParam('state'),
+      targetType: getParam('targetType'),
+      page: getParam('page'),
+      limit: getParam('limit'),
+    });
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid search parameters',
+          details: validationResult.error.flatten(),
+        },
+        { status: 400 }
+      );
+    }
+
+    const result = await getFlaggedItems(validationResult.data);
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error fetching flagged items:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch flagged items',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    // The DAL checks the permission for the flagged kind of item
+    const user = await requirePermission('panel.access');
+
+    // Parse and validate body
+    const body = await request.json();
+    const validationResult = flagItemSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid request body',
+          details: validationResult.error.flatten(),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { targetType, targetId, note } = validationResult.data;
+
+    try {
+      const result = await flagItemForAdmin(
+        targetType,
+        targetId,
+        note,
+        user.id,
+        user.role as AuditActorRole
+      );
+
+      return NextResponse.json({
+        success: true,
+        data: result,
+        message: 'Flagged for admin review',
+      });
+    } catch (error) {
+      if (error instanceof Error && error.name === 'AlreadyFlaggedError') {
+        return NextResponse.json({ error: error.message }, { status: 409 });
+      }
+      if (error instanceof Error && error.message.endsWith('not found')) {
+        return NextResponse.json({ error: error.message }, { status: 404 });
+      }
+      throw error;
+    }
+  } catch (error) {
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error flagging item:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to flag item',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
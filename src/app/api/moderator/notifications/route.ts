@@ -1,12 +1,17 @@
-import { requireUser } from '@/lib/auth/server';
+import { hasPermission, PermissionError, requirePermission } from '@/lib/auth/server';
 import { prisma } from '@/lib/db';
 import { createNotification } from '@/lib/services/notification-service';
 import { NextRequest } from 'next/server';
 
 export async function POST(req: NextRequest) {
-  const actor = await requireUser();
-  if (actor.role !== 'MODERATOR' && actor.role !== 'ADMIN') {
-    return new Response(JSON.stringify({ error: 'Forbidden' }), { status: 403 });
+  let actor;
+  try {
+    actor = await requirePermission('notifications.send');
+  } catch (error) {
+    if (error instanceof PermissionError) {
+      return new Response(JSON.stringify({ error: error.message }), { status: error.status });
+    }
+    throw error;
   }
 
   const body = await req.json().catch(() => null);
@@ -55,6 +60,8 @@ export async function POST(req: NextRequest) {
     return new Response(JSON.stringify({ error: 'Invalid type' }), { status: 400 });
   if (!validSeverities.has(String(severity)))
     return new Response(JSON.stringify({ error: 'Invalid severity' }), { status: 400 });
+  if (type === 'SYSTEM_ANNOUNCEMENT' && !hasPermission(actor.role, 'announcements.publish'))
+    return new Response(JSON.stringify({ error: 'Insufficient permissions' }), { status: 403 });
 
   const notif = await createNotification({
     userId: targetUserId,
@@ -0,0 +1,113 @@
+/**
+ * API Route: /api/moderator/reports/[id]
+ *
+ * GET: Fetch a report with evidence files and history
+ * PATCH: Close or dismiss a report with an outcome
+ */
+
+import {
+  getReportForModerationById,
+  moderatorResolveReport,
+} from '@/data/moderator/report-moderation.dal';
+import type { AuditActorRole } from '@/generated/prisma';
+import { PermissionError, requirePermission } from '@/lib/auth/server';
+import { resolveReportSchema } from '@/lib/schemas/report-schema';
+import { NextRequest, NextResponse } from 'next/server';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    // Check authentication and permission
+    await requirePermission('reports.moderate');
+
+    const { id } = await params;
+    const reportId = parseInt(id, 10);
+
+    if (isNaN(reportId)) {
+      return NextResponse.json({ error: 'Invalid report ID' }, { status: 400 });
+    }
+
+    const report = await getReportForModerationById(reportId);
+
+    if (!report) {
+      return NextResponse.json({ error: 'Report not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: report,
+    });
+  } catch (error) {
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error fetching report for moderation:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch report',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    // Check authentication and permission
+    const user = await requirePermission('reports.moderate');
+
+    const { id } = await params;
+    const reportId = parseInt(id, 10);
+
+    if (isNaN(reportId)) {
+      return NextResponse.json({ error: 'Invalid report ID' }, { status: 400 });
+    }
+
+    // Parse and validate body
+    const body = await request.json();
+    const validationResult = resolveReportSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid request body',
+          details: validationResult.error.flatten(),
+        },
+        { status: 400 }
+      );
+    }
+
+    const data = validationResult.data;
+    const result = await moderatorResolveReport(
+      reportId,
+      user.id,
+      data,
+      user.role as AuditActorRole
+    );
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: data.action === 'dismiss' ? 'Report dismissed' : 'Report closed',
+    });
+  } catch (error) {
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error processing report moderation action:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to process moderation action',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,88 @@
+/**
+ * API Route: /api/moderator/reports
+ *
+ * Handles fetching ad reports with filters and pagination for the moderator panel.
+ */
+
+import {
+  getReportsForModeration,
+  type ReportModerationSearchParams,
+} from '@/data/moderator/report-moderation.dal';
+import * as Enum from '@/generated/enums';
+import { PermissionError, requirePermission } from '@/lib/auth/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+
+// Validation schema for search parameters
+const searchParamsSchema = z.object({
+  status: z.nativeEnum(Enum.ReportStatus).optional(),
+  reason: z.nativeEnum(Enum.ReportReason).optional(),
+  adId: z.coerce.number().int().positive().optional(),
+  sortOrder: z.enum(['asc', 'desc']).optional().default('asc'),
+  page: z.coerce.number().int().positive().optional().default(1),
+  limit: z.coerce.number().int().positive().max(100).optional().default(20),
+});
+
+export async function GET(request: NextRequest) {
+  try {
+    // Check authentication and permission
+    await requirePermission('reports.moderate');
+
+    const searchParams = request.nextUrl.searchParams;
+
+    // Helper function to get non-null search params
+    const getParam = (key: string) => {
+      const value = searchParams.get(key);
+      return value && value !== '' && value !== 'all' ? value : undefined;
+    };
+
+    const validationResult = searchParamsSchema.safeParse({
+      status: getParam('status'),
+      reason: getParam('reason'),
+      adId: getParam('adId'),
+      sortOrder: getParam('sortOrder'),
+      page: getParam('page'),
+      limit: getParam('limit'),
+    });
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid search parameters',
+          details: validationResult.error.flatten(),
+        },
+        { status: 400 }
+      );
+    }
+
+    const params = validationResult.data;
+
+    const dalParams: ReportModerationSearchParams = {
+      status: params.status,
+      reason: params.reason,
+      adId: params.adId,
+      sortOrder: params.sortOrder,
+      page: params.page,
+      limit: params.limit,
+    };
+
+    const result = await getReportsForModeration(dalParams);
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error fetching reports for moderation:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch reports',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
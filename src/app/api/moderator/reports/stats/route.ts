@@ -0,0 +1,35 @@
+/**
+ * API Route: /api/moderator/reports/stats
+ *
+ * Returns statistics for the report queue.
+ */
+
+import { getReportModerationStats } from '@/data/moderator/report-moderation.dal';
+import { PermissionError, requirePermission } from '@/lib/auth/server';
+import { NextResponse } from 'next/server';
+
+export async function GET() {
+  try {
+    // Check authentication and permission
+    await requirePermission('reports.moderate');
+
+    const stats = await getReportModerationStats();
+
+    return NextResponse.json({
+      success: true,
+      data: stats,
+    });
+  } catch (error) {
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error fetching report moderation stats:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch statistics',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,51 @@
+/**
+ * API Route: /api/moderator/response-templates
+ *
+ * GET: Canned responses for one kind of decision.
+ * Query: targetType=AD|VERIFICATION, includeInactive=true (admin console only)
+ */
+
+import { getResponseTemplates } from '@/data/moderator/response-template.dal';
+import { PermissionError } from '@/lib/auth/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+
+const querySchema = z.object({
+  targetType: z.enum(['AD', 'VERIFICATION']),
+  includeInactive: z.enum(['true', 'false']).optional(),
+});
+
+export async function GET(request: NextRequest) {
+  try {
+    const parsed = querySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams));
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid query parameters', details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    // Permission depends on the target; the DAL checks it
+    const templates = await getResponseTemplates(parsed.data.targetType, {
+      includeInactive: parsed.data.includeInactive === 'true',
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: templates,
+    });
+  } catch (error) {
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error fetching response templates:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch response templates',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
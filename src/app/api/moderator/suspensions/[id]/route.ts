@@ -0,0 +1,78 @@
+/**
+ * API Route: /api/moderator/suspensions/[id]
+ *
+ * PATCH: Lift an active suspension and put the user's hidden ads back online
+ */
+
+import { liftSuspension } from '@/data/moderator/suspension.dal';
+import type { AuditActorRole } from '@/generated/prisma';
+import { PermissionError, requirePermission } from '@/lib/auth/server';
+import { liftSuspensionSchema } from '@/lib/schemas/suspension-schema';
+import { NextRequest, NextResponse } from 'next/server';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    // Check authentication and permission
+    const user = await requirePermission('users.suspend');
+
+    const { id } = await params;
+    const suspensionId = parseInt(id, 10);
+
+    if (isNaN(suspensionId)) {
+      return NextResponse.json({ error: 'Invalid suspension ID' }, { status: 400 });
+    }
+
+    // Parse and validate body
+    const body = await request.json();
+    const validationResult = liftSuspensionSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid request body',
+          details: validationResult.error.flatten(),
+        },
+        { status: 400 }
+      );
+    }
+
+    try {
+      const result = await liftSuspension(
+        suspensionId,
+        validationResult.data.note || null,
+        user.id,
+        user.role as AuditActorRole
+      );
+
+      return NextResponse.json({
+        success: true,
+        data: result,
+        message: 'Suspension lifted',
+      });
+    } catch (error) {
+      if (error instanceof Error && error.name === 'SuspensionNotActiveError') {
+        return NextResponse.json({ error: 'Suspension is no longer active' }, { status: 409 });
+      }
+      if (error instanceof Error && error.message === 'Suspension not found') {
+        return NextResponse.json({ error: 'Suspension not found' }, { status: 404 });
+      }
+      throw error;
+    }
+  } catch (error) {
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error lifting suspension:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to lift suspension',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
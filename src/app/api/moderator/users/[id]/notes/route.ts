@@ -0,0 +1,106 @@
+/**
+ * API Route: /api/moderator/users/[id]/notes
+ *
+ * GET: Internal moderator notes on a user with their moderation summary
+ * POST: Add an internal note on a user
+ */
+
+import { addUserNote, getUserModerationProfile } from '@/data/moderator/user-note.dal';
+import type { AuditActorRole } from '@/generated/prisma';
+import { PermissionError, requirePermission } from '@/lib/auth/server';
+import { addUserNoteSchema } from '@/lib/schemas/user-note-schema';
+import { NextRequest, NextResponse } from 'next/server';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    // Check authentication and permission
+    await requirePermission('users.notes');
+
+    const { id } = await params;
+
+    try {
+      const profile = await getUserModerationProfile(id);
+
+      return NextResponse.json({
+        success: true,
+        data: profile,
+      });
+    } catch (error) {
+      if (error instanceof Error && error.message === 'User not found') {
+        return NextResponse.json({ error: 'User not found' }, { status: 404 });
+      }
+      throw error;
+    }
+  } catch (error) {
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error fetching user notes:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch user notes',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    // Check authentication and permission
+    const user = await requirePermission('users.notes');
+
+    const { id } = await params;
+
+    // Parse and validate body
+    const body = await request.json();
+    const validationResult = addUserNoteSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid request body',
+          details: validationResult.error.flatten(),
+        },
+        { status: 400 }
+      );
+    }
+
+    try {
+      const note = await addUserNote(
+        id,
+        validationResult.data.note,
+        user.id,
+        user.role as AuditActorRole
+      );
+
+      return NextResponse.json({
+        success: true,
+        data: note,
+        message: 'Note added',
+      });
+    } catch (error) {
+      if (error instanceof Error && error.message === 'User not found') {
+        return NextResponse.json({ error: 'User not found' }, { status: 404 });
+      }
+      throw error;
+    }
+  } catch (error) {
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error adding user note:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to add note',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,115 @@
+/**
+ * API Route: /api/moderator/users/[id]/suspensions
+ *
+ * GET: Suspension history of a user
+ * POST: Suspend a user, hiding their online ads
+ */
+
+import { getUserSuspensions, suspendUser } from '@/data/moderator/suspension.dal';
+import type { AuditActorRole } from '@/generated/prisma';
+import { PermissionError, requirePermission } from '@/lib/auth/server';
+import { suspendUserSchema } from '@/lib/schemas/suspension-schema';
+import { NextRequest, NextResponse } from 'next/server';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Domain errors and the status they map to */
+const DOMAIN_ERROR_STATUS: Record<string, { status: number; error: string }> = {
+  AlreadySuspendedError: { status: 409, error: 'User is already suspended' },
+  StaffSuspensionError: { status: 403, error: 'Moderators and admins cannot be suspended' },
+};
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    // Check authentication and permission
+    await requirePermission('users.suspend');
+
+    const { id } = await params;
+    const suspensions = await getUserSuspensions(id);
+
+    return NextResponse.json({
+      success: true,
+      data: suspensions,
+    });
+  } catch (error) {
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error fetching user suspensions:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch suspensions',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    // Check authentication and permission
+    const user = await requirePermission('users.suspend');
+
+    const { id } = await params;
+
+    // Parse and validate body
+    const body = await request.json();
+    const validationResult = suspendUserSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid request body',
+          details: validationResult.error.flatten(),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { reason, durationDays } = validationResult.data;
+
+    try {
+      const result = await suspendUser(
+        id,
+        {
+          reason,
+          expiresAt: durationDays ? new Date(Date.now() + durationDays * DAY_MS) : null,
+        },
+        user.id,
+        user.role as AuditActorRole
+      );
+
+      return NextResponse.json({
+        success: true,
+        data: result,
+        message: durationDays ? 'User suspended' : 'User banned',
+      });
+    } catch (error) {
+      const known = error instanceof Error ? DOMAIN_ERROR_STATUS[error.name] : undefined;
+      if (known) {
+        return NextResponse.json({ error: known.error }, { status: known.status });
+      }
+      if (error instanceof Error && error.message === 'User not found') {
+        return NextResponse.json({ error: 'User not found' }, { status: 404 });
+      }
+      throw error;
+    }
+  } catch (error) {
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error suspending user:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to suspend user',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,96 @@
+/**
+ * API Route: /api/moderator/verification-requests/[id]/claim
+ *
+ * POST: Claim a pending verification request for review (or renew the claim) so other moderators can't decide it
+ * DELETE: Release the claim without deciding
+ */
+
+import {
+  claimVerificationForReview,
+  releaseVerificationReviewClaim,
+} from '@/data/moderator/verification.dal';
+import { PermissionError, requirePermission } from '@/lib/auth/server';
+import { NextRequest, NextResponse } from 'next/server';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    // Check authentication and permission
+    await requirePermission('verifications.review');
+
+    const { id } = await params;
+    const requestId = parseInt(id, 10);
+
+    if (isNaN(requestId)) {
+      return NextResponse.json({ error: 'Invalid request ID' }, { status: 400 });
+    }
+
+    try {
+      const claim = await claimVerificationForReview(requestId);
+
+      return NextResponse.json({
+        success: true,
+        data: claim,
+      });
+    } catch (error) {
+      if (error instanceof Error && error.name === 'ClaimedByOtherError') {
+        return NextResponse.json({ error: error.message }, { status: 409 });
+      }
+      if (
+        error instanceof Error &&
+        error.message === 'Only pending verification requests can be claimed'
+      ) {
+        return NextResponse.json({ error: error.message }, { status: 409 });
+      }
+      if (error instanceof Error && error.message === 'Verification request not found') {
+        return NextResponse.json({ error: 'Verification request not found' }, { status: 404 });
+      }
+      throw error;
+    }
+  } catch (error) {
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error claiming verification request for review:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to claim verification request',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    // Check authentication and permission
+    await requirePermission('verifications.review');
+
+    const { id } = await params;
+    const requestId = parseInt(id, 10);
+
+    if (isNaN(requestId)) {
+      return NextResponse.json({ error: 'Invalid request ID' }, { status: 400 });
+    }
+
+    await releaseVerificationReviewClaim(requestId);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error releasing verification request claim:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to release claim',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -12,8 +12,8 @@ import {
   moderatorRejectVerification,
 } from '@/data/moderator/verification.dal';
 import * as Enum from '@/generated/enums';
-import type { VerificationRejectionCode } from '@/generated/prisma';
-import { getServerSession } from '@/lib/auth/server';
+import type { AuditActorRole, VerificationRejectionCode } from '@/generated/prisma';
+import { PermissionError, requirePermission } from '@/lib/auth/server';
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 
@@ -33,23 +33,14 @@ export async function GET(request: NextRequest, { params }: { params: Promise<{
       return NextResponse.json({ error: 'Invalid request ID' }, { status: 400 });
     }
 
-    // Check authentication and authorization
-    const session = await getServerSession();
-
-    if (!session?.user) {
-      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
-    }
-
-    // Check if user has moderator or admin role
-    if (!session.user.role || !['MODERATOR', 'ADMIN'].includes(session.user.role)) {
-      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
-    }
+    // Check authentication and permission
+    const user = await requirePermission('verifications.review');
 
     // Fetch verification request details
     const verificationRequest = await getVerificationRequestById(
       requestId,
-      session.user.id,
-      session.user.role as any
+      user.id,
+      user.role as AuditActorRole
     );
 
     if (!verificationRequest) {
@@ -63,6 +54,9 @@ export async function GET(request: NextRequest, { params }: { params: Promise<{
       },
     });
   } catch (error) {
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
     console.error('Error fetching verification request:', error);
 
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
@@ -78,17 +72,8 @@ export async function PATCH(request: NextRequest, { params }: { params: Promise<
       return NextResponse.json({ error: 'Invalid request ID' }, { status: 400 });
     }
 
-    // Check authentication and authorization
-    const session = await getServerSession();
-
-    if (!session?.user) {
-      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
-    }
-
-    // Check if user has moderator or admin role
-    if (!session.user.role || !['MODERATOR', 'ADMIN'].includes(session.user.role)) {
-      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
-    }
+    // Check authentication and permission
+    const user = await requirePermission('verifications.review');
 
     // Parse and validate request body
     const body = await request.json();
@@ -96,7 +81,7 @@ export async function PATCH(request: NextRequest, { params }: { params: Promise<
 
     // Perform the action
     if (action === 'approve') {
-      await moderatorApproveVerification(requestId, session.user.id, session.user.role as any);
+      await moderatorApproveVerification(requestId, user.id, user.role as AuditActorRole);
 
       return NextResponse.json({
         success: true,
@@ -113,12 +98,12 @@ export async function PATCH(request: NextRequest, { params }: { params: Promise<
 
       await moderatorRejectVerification(
         requestId,
-        session.user.id,
+        user.id,
         {
           rejectionCode: rejectionCode as VerificationRejectionCode,
           rejectionNote,
         },
-        session.user.role as any
+        user.role as AuditActorRole
       );
 
       return NextResponse.json({
@@ -132,6 +117,9 @@ export async function PATCH(request: NextRequest, { params }: { params: Promise<
       });
     }
   } catch (error) {
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
     console.error('Error processing verification request action:', error);
 
     if (error instanceof z.ZodError) {
@@ -146,6 +134,14 @@ export async function PATCH(request: NextRequest, { params }: { params: Promise<
 
     // Check for specific business logic errors
     if (error instanceof Error) {
+      if (error.name === 'OutOfScopeError') {
+        return NextResponse.json({ error: error.message }, { status: 403 });
+      }
+
+      if (error.name === 'ClaimedByOtherError' || error.name === 'ReviewConflictError') {
+        return NextResponse.json({ error: error.message }, { status: 409 });
+      }
+
       if (error.message.includes('not found')) {
         return NextResponse.json({ error: 'Verification request not found' }, { status: 404 });
       }
@@ -3,8 +3,8 @@ import {
   bulkRejectVerifications,
 } from '@/data/moderator/verification.dal';
 import * as Enum from '@/generated/enums';
-import type { VerificationRejectionCode } from '@/generated/prisma';
-import { auth } from '@/lib/auth/server';
+import type { AuditActorRole, VerificationRejectionCode } from '@/generated/prisma';
+import { PermissionError, requirePermission } from '@/lib/auth/server';
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 
@@ -20,33 +20,31 @@ const bulkRejectSchema = z.object({
 
 export async function POST(request: NextRequest) {
   try {
-    const session = await auth.api.getSession({ headers: request.headers });
-    if (!session?.user)
-      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
-    if (!session.user.role || !['MODERATOR', 'ADMIN'].includes(session.user.role)) {
-      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
-    }
+    const user = await requirePermission('verifications.review');
 
     const body = await request.json();
     // Support both approve and reject via action field
     const action = body?.action as 'approve' | 'reject' | undefined;
     if (action === 'approve') {
       const { ids } = bulkApproveSchema.parse(body);
-      const result = await bulkApproveVerifications(ids, session.user.id, session.user.role as any);
+      const result = await bulkApproveVerifications(ids, user.id, user.role as AuditActorRole);
       return NextResponse.json({ success: true, data: result });
     } else if (action === 'reject') {
       const { ids, rejectionCode, rejectionNote } = bulkRejectSchema.parse(body);
       const result = await bulkRejectVerifications(
         ids,
-        session.user.id,
+        user.id,
         { rejectionCode: rejectionCode as VerificationRejectionCode, rejectionNote },
-        session.user.role as any
+        user.role as AuditActorRole
       );
       return NextResponse.json({ success: true, data: result });
     }
 
     return NextResponse.json({ error: 'Invalid action' }, { status: 400 });
   } catch (error) {
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
     if (error instanceof z.ZodError) {
       return NextResponse.json(
         { error: 'Invalid request data', details: error.errors },
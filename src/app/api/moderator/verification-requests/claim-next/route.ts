@@ -0,0 +1,63 @@
+/**
+ * API Route: /api/moderator/verification-requests/claim-next
+ *
+ * POST: Claim the oldest pending verification request nobody is reviewing
+ * (optionally for one method or city)
+ */
+
+import { claimNextVerificationForReview } from '@/data/moderator/verification.dal';
+import * as Enum from '@/generated/enums';
+import type { VerificationMethod } from '@/generated/prisma';
+import { PermissionError, requirePermission } from '@/lib/auth/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+
+const claimNextSchema = z.object({
+  method: z.nativeEnum(Enum.VerificationMethod).optional(),
+  cityId: z.number().int().positive().optional(),
+});
+
+export async function POST(request: NextRequest) {
+  try {
+    // Check authentication and permission
+    await requirePermission('verifications.review');
+
+    // Parse and validate body
+    const body = await request.json().catch(() => ({}));
+    const validationResult = claimNextSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid request body',
+          details: validationResult.error.flatten(),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { method, cityId } = validationResult.data;
+    const claim = await claimNextVerificationForReview({
+      method: method as VerificationMethod,
+      cityId,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: claim,
+      message: claim ? undefined : 'No unclaimed pending verification requests',
+    });
+  } catch (error) {
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error claiming next verification request:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to claim next verification request',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
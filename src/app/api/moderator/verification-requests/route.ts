@@ -16,7 +16,7 @@ import type {
   VerificationRejectionCode,
   VerificationStatus,
 } from '@/generated/prisma';
-import { getServerSession } from '@/lib/auth/server';
+import { PermissionError, requirePermission } from '@/lib/auth/server';
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 
@@ -43,17 +43,8 @@ const searchParamsSchema = z.object({
 
 export async function GET(request: NextRequest) {
   try {
-    // Check authentication and authorization
-    const session = await getServerSession();
-
-    if (!session?.user) {
-      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
-    }
-
-    // Check if user has moderator or admin role
-    if (!session.user.role || !['MODERATOR', 'ADMIN'].includes(session.user.role)) {
-      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
-    }
+    // Check authentication and permission
+    const user = await requirePermission('verifications.review');
 
     const searchParams = request.nextUrl.searchParams;
 
@@ -89,8 +80,8 @@ export async function GET(request: NextRequest) {
     // Fetch verification requests
     const result = await getVerificationRequestsForModerators(
       searchFilters,
-      session.user.id,
-      session.user.role as any
+      user.id,
+      user.role as any
     );
 
     return NextResponse.json(
@@ -101,6 +92,9 @@ export async function GET(request: NextRequest) {
       { headers: { 'Cache-Control': 'no-store' } }
     );
   } catch (error) {
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
     console.error('Error fetching verification requests:', error);
 
     if (error instanceof z.ZodError) {
@@ -120,17 +114,8 @@ export async function GET(request: NextRequest) {
 // GET /api/moderator/verification-requests/stats
 export async function statsHandler(request: NextRequest) {
   try {
-    // Check authentication and authorization
-    const session = await getServerSession();
-
-    if (!session?.user) {
-      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
-    }
-
-    // Check if user has moderator or admin role
-    if (!session.user.role || !['MODERATOR', 'ADMIN'].includes(session.user.role)) {
-      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
-    }
+    // Check authentication and permission
+    await requirePermission('verifications.review');
 
     const stats = await getVerificationStats();
 
@@ -142,6 +127,9 @@ export async function statsHandler(request: NextRequest) {
       { headers: { 'Cache-Control': 'no-store' } }
     );
   } catch (error) {
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
     console.error('Error fetching verification stats:', error);
 
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
@@ -151,17 +139,8 @@ export async function statsHandler(request: NextRequest) {
 // GET /api/moderator/verification-requests/filters
 export async function filtersHandler(request: NextRequest) {
   try {
-    // Check authentication and authorization
-    const session = await getServerSession();
-
-    if (!session?.user) {
-      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
-    }
-
-    // Check if user has moderator or admin role
-    if (!session.user.role || !['MODERATOR', 'ADMIN'].includes(session.user.role)) {
-      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
-    }
+    // Check authentication and permission
+    await requirePermission('verifications.review');
 
     return NextResponse.json(
       {
@@ -178,6 +157,9 @@ export async function filtersHandler(request: NextRequest) {
       { headers: { 'Cache-Control': 'no-store' } }
     );
   } catch (error) {
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
     console.error('Error fetching filter options:', error);
 
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
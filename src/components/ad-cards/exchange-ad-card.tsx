@@ -0,0 +1,143 @@
+'use client';
+
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent } from '@/components/ui/card';
+import {
+  formatEur,
+  formatExchangeRate,
+  getExchangeModeLabel,
+  getExchangeSideLabel,
+  getSettlementMethodLabel,
+} from '@/constants/exchange-config';
+import type { AdWithExchange } from '@/data/ads/ads';
+import type {
+  ExchangeMode,
+  ExchangeRateType,
+  ExchangeSide,
+  SettlementMethod,
+} from '@/generated/enums';
+import { cn, formatDate } from '@/lib/utils';
+import { ArrowLeftRight, Banknote, MapPin } from 'lucide-react';
+import Link from 'next/link';
+import { DEFAULT_AD_CARD_VARIANT, getAdCardHref, type AdCardVariant } from './types';
+
+interface ExchangeAdCardProps {
+  ad: AdWithExchange;
+  variant?: AdCardVariant;
+}
+
+const CARD_VARIANT_CLASSES: Record<AdCardVariant, string> = {
+  manage: 'border-l-4 border-l-yellow-500/20 hover:border-l-yellow-500',
+  public: 'border border-muted/40 hover:border-primary/40',
+  moderator: 'border border-destructive/30',
+};
+
+export function ExchangeAdCard({ ad, variant = DEFAULT_AD_CARD_VARIANT }: ExchangeAdCardProps) {
+  const { exchange, status, city, createdAt, viewsCount, contactClicksCount } = ad;
+
+  const getStatusColor = (value: string) => {
+    switch (value) {
+      case 'ONLINE':
+        return 'bg-green-100 text-green-800';
+      case 'PENDING':
+        return 'bg-yellow-100 text-yellow-800';
+      case 'REJECTED':
+        return 'bg-red-100 text-red-800';
+      case 'EXPIRED':
+        return 'bg-gray-100 text-gray-800';
+      case 'SUSPENDED':
+        return 'bg-red-100 text-red-800';
+      case 'CHANGES_REQUESTED':
+        return 'bg-orange-100 text-orange-800';
+      default:
+        return 'bg-gray-100 text-gray-800';
+    }
+  };
+
+  const partialLabel = exchange.allowsPartial
+    ? exchange.minChunkEur
+      ? `Partial from ${formatEur(exchange.minChunkEur)}`
+      : 'Partial OK'
+    : 'Whole amount only';
+
+  const variantClasses = CARD_VARIANT_CLASSES[variant] ?? CARD_VARIANT_CLASSES.manage;
+
+  return (
+    <Link href={getAdCardHref(ad.id, variant)} data-variant={variant}>
+      <Card
+        className={cn('hover:shadow-lg transition-all duration-200 cursor-pointer', variantClasses)}
+      >
+        <CardContent className="p-3 md:p-4">
+          <div className="flex flex-col sm:flex-row gap-3 md:gap-4">
+            {/* Icon */}
+            <div className="flex-shrink-0 w-full sm:w-24 md:w-32">
+              <div className="w-full h-24 sm:h-24 md:h-32 bg-gradient-to-br from-yellow-50 to-amber-100 rounded-lg flex items-center justify-center">
+                <Banknote className="w-8 h-8 md:w-12 md:h-12 text-amber-500" />
+              </div>
+            </div>
+
+            {/* Content */}
+            <div className="flex-1 min-w-0 space-y-2">
+              <div className="flex items-start justify-between gap-2">
+                <div className="flex-1 min-w-0">
+                  <div className="flex flex-wrap items-center gap-1.5 mb-1.5">
+                    <Badge className={getStatusColor(status)} variant="secondary">
+                      {status}
+                    </Badge>
+                    <Badge variant="outline" className="text-xs">
+                      {getExchangeModeLabel(exchange.exchangeMode as ExchangeMode)}
+                    </Badge>
+                  </div>
+                  <h3 className="font-semibold text-base md:text-lg line-clamp-1">
+                    {getExchangeSideLabel(exchange.side as ExchangeSide)}
+                  </h3>
+                </div>
+                <div className="text-right flex-shrink-0">
+                  <p className="font-bold text-base md:text-lg text-primary whitespace-nowrap">
+                    {formatEur(exchange.amountEur)}
+                  </p>
+                </div>
+              </div>
+
+              <div className="space-y-1 text-xs md:text-sm text-muted-foreground">
+                <div className="flex items-center gap-1.5">
+                  <ArrowLeftRight className="w-3.5 h-3.5 md:w-4 md:h-4 flex-shrink-0" />
+                  <span className="truncate">
+                    {formatExchangeRate(exchange.rateType as ExchangeRateType, exchange.rateValue)}
+                    {' · '}
+                    {partialLabel}
+                  </span>
+                </div>
+                <div className="flex items-center gap-1.5">
+                  <MapPin className="w-3.5 h-3.5 md:w-4 md:h-4 flex-shrink-0" />
+                  <span className="truncate">{city.name}</span>
+                </div>
+                {exchange.settlementMethods.length > 0 && (
+                  <div className="flex gap-1 flex-wrap">
+                    {exchange.settlementMethods.map((method) => (
+                      <span
+                        key={method}
+                        className="text-[10px] md:text-xs bg-amber-50 text-amber-700 px-1.5 py-0.5 rounded"
+                      >
+                        {getSettlementMethodLabel(method as SettlementMethod)}
+                      </span>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              {/* Stats */}
+              <div className="flex flex-wrap gap-2 md:gap-4 pt-1 text-[10px] md:text-xs text-muted-foreground">
+                <span className="flex items-center gap-1">👁️ {viewsCount}</span>
+                <span className="flex items-center gap-1">📞 {contactClicksCount}</span>
+                <span className="hidden sm:flex items-center gap-1">
+                  🗓️ {formatDate(createdAt)}
+                </span>
+              </div>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+    </Link>
+  );
+}
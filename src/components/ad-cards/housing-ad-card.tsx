@@ -17,9 +17,57 @@ import Link from 'next/link';
 import { FaCalendar } from 'react-icons/fa';
 import { FaClock, FaHouse, FaPeoplePulling, FaPeopleRoof } from 'react-icons/fa6';
 import { Separator } from '../ui/separator';
-import { DEFAULT_AD_CARD_VARIANT, type AdCardVariant } from './types';
+import { DEFAULT_AD_CARD_VARIANT, getAdCardHref, type AdCardVariant } from './types';
+/**
+ * Subset of AdWithHousing the card reads.
+ * Lets list views (e.g. public search) render cards without loading full ad details.
+ */
+export type HousingAdCardData = Pick<
+  AdWithHousing,
+  | 'id'
+  | 'category'
+  | 'cityId'
+  | 'createdAt'
+  | 'viewsCount'
+  | 'contactClicksCount'
+  | 'expirationDate'
+> & {
+  coverMedia: Pick<NonNullable<AdWithHousing['coverMedia']>, 'storageKey' | 'alt'> | null;
+  housing: Pick<
+    AdWithHousing['housing'],
+    | 'rentalKind'
+    | 'unitType'
+    | 'propertyType'
+    | 'priceType'
+    | 'priceAmount'
+    | 'priceNegotiable'
+    | 'neighborhood'
+    | 'availabilityStartDate'
+    | 'availabilityEndDate'
+    | 'contractType'
+    | 'billsPolicy'
+    | 'heatingType'
+    | 'genderPreference'
+    | 'householdSize'
+    | 'floorNumber'
+    | 'numberOfBathrooms'
+    | 'newlyRenovated'
+    | 'furnished'
+    | 'kitchenEquipped'
+    | 'privateBathroom'
+    | 'balcony'
+    | 'hasElevator'
+    | 'wifi'
+    | 'airConditioning'
+    | 'dishwasher'
+    | 'washingMachine'
+    | 'clothesDryer'
+    | 'doubleGlazedWindows'
+  >;
+};
+
 interface HousingAdCardProps {
-  ad: AdWithHousing;
+  ad: HousingAdCardData;
   variant?: AdCardVariant;
 }
 
@@ -105,11 +153,7 @@ export function HousingAdCard({ ad, variant = DEFAULT_AD_CARD_VARIANT }: Housing
   const cardVariantClasses = CARD_VARIANT_CLASSES[variant] ?? CARD_VARIANT_CLASSES.manage;
 
   return (
-    <Link
-      href={`/dashboard/ads-management/${ad.id}`}
-      className="block group"
-      data-variant={variant}
-    >
+    <Link href={getAdCardHref(ad.id, variant)} className="block group" data-variant={variant}>
       <Card
         className={cn(
           'py-0 transition-all duration-300 rounded-none md:rounded-3xl cursor-pointer overflow-hidden',
@@ -7,7 +7,7 @@ import type { AdWithMarketplace } from '@/data/ads/ads';
 import { cn, formatDate } from '@/lib/utils';
 import { MapPin, ShoppingBag } from 'lucide-react';
 import Link from 'next/link';
-import { DEFAULT_AD_CARD_VARIANT, type AdCardVariant } from './types';
+import { DEFAULT_AD_CARD_VARIANT, getAdCardHref, type AdCardVariant } from './types';
 
 interface MarketplaceAdCardProps {
   ad: AdWithMarketplace;
@@ -36,6 +36,10 @@ export function MarketplaceAdCard({
         return 'bg-red-100 text-red-800';
       case 'EXPIRED':
         return 'bg-gray-100 text-gray-800';
+      case 'SUSPENDED':
+        return 'bg-red-100 text-red-800';
+      case 'CHANGES_REQUESTED':
+        return 'bg-orange-100 text-orange-800';
       default:
         return 'bg-gray-100 text-gray-800';
     }
@@ -55,7 +59,7 @@ export function MarketplaceAdCard({
   const variantClasses = CARD_VARIANT_CLASSES[variant] ?? CARD_VARIANT_CLASSES.manage;
 
   return (
-    <Link href={`/dashboard/ads-management/${ad.id}`} data-variant={variant}>
+    <Link href={getAdCardHref(ad.id, variant)} data-variant={variant}>
       <Card
         className={cn('hover:shadow-lg transition-all duration-200 cursor-pointer', variantClasses)}
       >
@@ -3,11 +3,17 @@
 import { OptimizedImage } from '@/components/optimized-image';
 import { Badge } from '@/components/ui/badge';
 import { Card, CardContent } from '@/components/ui/card';
+import {
+  formatServiceRate,
+  formatWeekdays,
+  getServiceCategoryLabel,
+} from '@/constants/services-config';
 import type { AdWithService } from '@/data/ads/ads';
+import type { ServiceCategory, ServiceRateBasis, Weekday } from '@/generated/enums';
 import { cn, formatDate } from '@/lib/utils';
-import { Briefcase, MapPin, Tag } from 'lucide-react';
+import { Briefcase, CalendarDays, MapPin, Tag } from 'lucide-react';
 import Link from 'next/link';
-import { DEFAULT_AD_CARD_VARIANT, type AdCardVariant } from './types';
+import { DEFAULT_AD_CARD_VARIANT, getAdCardHref, type AdCardVariant } from './types';
 
 interface ServiceAdCardProps {
   ad: AdWithService;
@@ -33,51 +39,21 @@ export function ServiceAdCard({ ad, variant = DEFAULT_AD_CARD_VARIANT }: Service
         return 'bg-red-100 text-red-800';
       case 'EXPIRED':
         return 'bg-gray-100 text-gray-800';
+      case 'SUSPENDED':
+        return 'bg-red-100 text-red-800';
+      case 'CHANGES_REQUESTED':
+        return 'bg-orange-100 text-orange-800';
       default:
         return 'bg-gray-100 text-gray-800';
     }
   };
 
-  const formatRate = () => {
-    if (!service.rateAmount) return 'Rate on request';
-    const amount = Number(service.rateAmount);
-
-    const basisLabels: Record<string, string> = {
-      HOURLY: '/hr',
-      DAILY: '/day',
-      PROJECT: '/project',
-      MONTHLY: '/mo',
-    };
-
-    return `€${amount}${basisLabels[service.rateBasis] || ''}`;
-  };
-
-  const getCategoryLabel = (category: string) => {
-    const labels: Record<string, string> = {
-      TRANSLATION: 'Translation',
-      TUTORING: 'Tutoring',
-      CONSULTING: 'Consulting',
-      TECH_IT: 'Tech & IT',
-      DESIGN_CREATIVE: 'Design & Creative',
-      WRITING: 'Writing',
-      LEGAL: 'Legal',
-      ACCOUNTING: 'Accounting',
-      HOME_REPAIR: 'Home Repair',
-      CLEANING: 'Cleaning',
-      MOVING: 'Moving',
-      PET_CARE: 'Pet Care',
-      CHILDCARE: 'Childcare',
-      PHOTOGRAPHY: 'Photography',
-      EVENT_PLANNING: 'Event Planning',
-      OTHER: 'Other',
-    };
-    return labels[category] || category;
-  };
+  const availableDays = formatWeekdays(service.availabilityDays as Weekday[]);
 
   const variantClasses = CARD_VARIANT_CLASSES[variant] ?? CARD_VARIANT_CLASSES.manage;
 
   return (
-    <Link href={`/dashboard/ads-management/${ad.id}`} data-variant={variant}>
+    <Link href={getAdCardHref(ad.id, variant)} data-variant={variant}>
       <Card
         className={cn('hover:shadow-lg transition-all duration-200 cursor-pointer', variantClasses)}
       >
@@ -109,16 +85,21 @@ export function ServiceAdCard({ ad, variant = DEFAULT_AD_CARD_VARIANT }: Service
                       {status}
                     </Badge>
                     <Badge variant="outline" className="text-xs">
-                      {getCategoryLabel(service.serviceCategory)}
+                      {getServiceCategoryLabel(service.serviceCategory as ServiceCategory)}
                     </Badge>
                   </div>
                   <h3 className="font-semibold text-base md:text-lg line-clamp-2">
                     {service.title}
                   </h3>
+                  {service.businessName && (
+                    <p className="text-xs md:text-sm text-muted-foreground truncate">
+                      {service.businessName}
+                    </p>
+                  )}
                 </div>
                 <div className="text-right flex-shrink-0">
                   <p className="font-bold text-base md:text-lg text-primary whitespace-nowrap">
-                    {formatRate()}
+                    {formatServiceRate(service.rateAmount, service.rateBasis as ServiceRateBasis)}
                   </p>
                 </div>
               </div>
@@ -127,8 +108,18 @@ export function ServiceAdCard({ ad, variant = DEFAULT_AD_CARD_VARIANT }: Service
                 <p className="line-clamp-2">{service.description}</p>
                 <div className="flex items-center gap-1.5">
                   <MapPin className="w-3.5 h-3.5 md:w-4 md:h-4 flex-shrink-0" />
-                  <span className="truncate">{city.name}</span>
+                  <span className="truncate">
+                    {service.serviceArea ? `${city.name} · ${service.serviceArea}` : city.name}
+                  </span>
                 </div>
+                {availableDays.length > 0 && (
+                  <div className="flex items-center gap-1.5">
+                    <CalendarDays className="w-3.5 h-3.5 md:w-4 md:h-4 flex-shrink-0" />
+                    <span className="truncate">
+                      {availableDays.length === 7 ? 'Every day' : availableDays.join(', ')}
+                    </span>
+                  </div>
+                )}
                 {service.tags.length > 0 && (
                   <div className="flex items-center gap-1.5 flex-wrap">
                     <Tag className="w-3.5 h-3.5 md:w-4 md:h-4 flex-shrink-0" />
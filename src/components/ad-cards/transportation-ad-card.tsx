@@ -3,11 +3,13 @@
 import { OptimizedImage } from '@/components/optimized-image';
 import { Badge } from '@/components/ui/badge';
 import { Card, CardContent } from '@/components/ui/card';
+import { getTransportDirectionLabel } from '@/constants/transportation-config';
 import type { AdWithTransportation } from '@/data/ads/ads';
+import type { TransportDirection } from '@/generated/enums';
 import { cn, formatDate } from '@/lib/utils';
 import { Calendar, MapPin, Package, Plane } from 'lucide-react';
 import Link from 'next/link';
-import { DEFAULT_AD_CARD_VARIANT, type AdCardVariant } from './types';
+import { DEFAULT_AD_CARD_VARIANT, getAdCardHref, type AdCardVariant } from './types';
 
 interface TransportationAdCardProps {
   ad: AdWithTransportation;
@@ -37,6 +39,10 @@ export function TransportationAdCard({
         return 'bg-red-100 text-red-800';
       case 'EXPIRED':
         return 'bg-gray-100 text-gray-800';
+      case 'SUSPENDED':
+        return 'bg-red-100 text-red-800';
+      case 'CHANGES_REQUESTED':
+        return 'bg-orange-100 text-orange-800';
       default:
         return 'bg-gray-100 text-gray-800';
     }
@@ -46,20 +52,16 @@ export function TransportationAdCard({
     if (transportation.priceMode === 'PER_KG' && transportation.pricePerKg) {
       return `€${Number(transportation.pricePerKg)}/kg`;
     }
-    if (transportation.priceMode === 'FIXED' && transportation.fixedTotalPrice) {
+    if (transportation.priceMode === 'FIXED_TOTAL' && transportation.fixedTotalPrice) {
       return `€${Number(transportation.fixedTotalPrice)} (fixed)`;
     }
-    return 'Price on request';
-  };
-
-  const getDirectionIcon = (direction: string) => {
-    return direction === 'TO_ITALY' ? '🇮🇹 ← ' : '🇮🇹 → ';
+    return transportation.priceMode === 'NEGOTIABLE' ? 'Negotiable' : 'Price on request';
   };
 
   const variantClasses = CARD_VARIANT_CLASSES[variant] ?? CARD_VARIANT_CLASSES.manage;
 
   return (
-    <Link href={`/dashboard/ads-management/${ad.id}`} data-variant={variant}>
+    <Link href={getAdCardHref(ad.id, variant)} data-variant={variant}>
       <Card
         className={cn('hover:shadow-lg transition-all duration-200 cursor-pointer', variantClasses)}
       >
@@ -91,11 +93,10 @@ export function TransportationAdCard({
                       {status}
                     </Badge>
                     <Badge variant="outline" className="text-xs">
-                      {transportation.direction === 'TO_ITALY' ? '→ Italy' : 'Italy →'}
+                      {getTransportDirectionLabel(transportation.direction as TransportDirection)}
                     </Badge>
                   </div>
                   <h3 className="font-semibold text-base md:text-lg line-clamp-2">
-                    {getDirectionIcon(transportation.direction)}
                     {transportation.departureCity} → {transportation.arrivalCity}
                   </h3>
                 </div>
@@ -1,3 +1,10 @@
 export type AdCardVariant = 'manage' | 'public' | 'moderator';
 
 export const DEFAULT_AD_CARD_VARIANT: AdCardVariant = 'manage';
+
+/**
+ * Where a card links to: owners manage from the dashboard, everyone else gets the public page
+ */
+export function getAdCardHref(adId: number, variant: AdCardVariant): string {
+  return variant === 'manage' ? `/dashboard/ads-management/${adId}` : `/ads/${adId}`;
+}
@@ -0,0 +1,45 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import { RiTelegram2Fill } from 'react-icons/ri';
+
+interface AdContactButtonProps {
+  ownerTelegramHandle?: string | null;
+  /** Called when the Telegram contact link is clicked (used for metrics) */
+  onContactClick?: () => void;
+  className?: string;
+}
+
+/**
+ * Telegram link to the ad's owner; renders nothing when they have no handle
+ */
+export function AdContactButton({
+  ownerTelegramHandle,
+  onContactClick,
+  className,
+}: AdContactButtonProps) {
+  if (!ownerTelegramHandle) return null;
+
+  return (
+    <Button
+      className={cn(
+        'w-full bg-gradient-to-r from-blue-600 to-blue-500 hover:from-blue-700 hover:to-blue-600 text-white shadow-lg shadow-blue-500/25 transition-all duration-200 hover:shadow-xl hover:shadow-blue-500/30 hover:-translate-y-0.5',
+        className
+      )}
+      size="lg"
+      asChild
+    >
+      <a
+        href={`https://t.me/${ownerTelegramHandle}`}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="flex items-center justify-center gap-2"
+        onClick={onContactClick}
+      >
+        <RiTelegram2Fill className="w-5 h-5" />
+        <span className="font-semibold">Contact Owner</span>
+      </a>
+    </Button>
+  );
+}
@@ -0,0 +1,171 @@
+'use client';
+
+import { getOptimizedUrl } from '@/lib/image_system/image-utils-client';
+import { cn } from '@/lib/utils';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import Image from 'next/image';
+import { useMemo, useState } from 'react';
+
+interface AdMediaGalleryProps {
+  adId: number;
+  images: Array<{ storageKey: string; alt: string | null }>;
+  className?: string;
+}
+
+// Minimum swipe distance (in px) to trigger navigation
+const MIN_SWIPE_DISTANCE = 50;
+
+/**
+ * Swipeable photo gallery shown at the top of an ad's detail view
+ */
+export function AdMediaGallery({ adId, images, className }: AdMediaGalleryProps) {
+  const [currentImageIndex, setCurrentImageIndex] = useState(0);
+  const [touchStart, setTouchStart] = useState<number | null>(null);
+  const [touchEnd, setTouchEnd] = useState<number | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [dragOffset, setDragOffset] = useState(0);
+
+  // Precompute all image URLs once to avoid refetching when switching images
+  const imageUrls = useMemo(
+    () => images.map((img) => getOptimizedUrl(img.storageKey, 'gallery')),
+    [images]
+  );
+
+  if (images.length === 0) return null;
+
+  const hasMultiple = images.length > 1;
+
+  const handlePrevImage = () => {
+    setCurrentImageIndex((prev) => (prev === 0 ? images.length - 1 : prev - 1));
+  };
+
+  const handleNextImage = () => {
+    setCurrentImageIndex((prev) => (prev === images.length - 1 ? 0 : prev + 1));
+  };
+
+  const navigateBySwipe = (start: number, end: number) => {
+    const distance = start - end;
+    if (distance > MIN_SWIPE_DISTANCE) {
+      handleNextImage();
+    } else if (distance < -MIN_SWIPE_DISTANCE) {
+      handlePrevImage();
+    }
+  };
+
+  // Touch handlers
+  const onTouchStart = (e: React.TouchEvent) => {
+    setTouchEnd(null);
+    setTouchStart(e.targetTouches[0].clientX);
+  };
+
+  const onTouchMove = (e: React.TouchEvent) => {
+    setTouchEnd(e.targetTouches[0].clientX);
+  };
+
+  const onTouchEnd = () => {
+    if (!touchStart || !touchEnd) return;
+
+    navigateBySwipe(touchStart, touchEnd);
+    setTouchStart(null);
+    setTouchEnd(null);
+  };
+
+  // Mouse drag handlers
+  const onMouseDown = (e: React.MouseEvent) => {
+    setIsDragging(true);
+    setTouchStart(e.clientX);
+    setTouchEnd(null);
+  };
+
+  const onMouseMove = (e: React.MouseEvent) => {
+    if (!isDragging || !touchStart) return;
+    setTouchEnd(e.clientX);
+    setDragOffset(e.clientX - touchStart);
+  };
+
+  const resetDrag = () => {
+    setIsDragging(false);
+    setTouchStart(null);
+    setTouchEnd(null);
+    setDragOffset(0);
+  };
+
+  const onMouseUp = () => {
+    if (isDragging && touchStart && touchEnd !== null) {
+      navigateBySwipe(touchStart, touchEnd);
+    }
+    resetDrag();
+  };
+
+  const onMouseLeave = () => {
+    if (isDragging) resetDrag();
+  };
+
+  return (
+    <div
+      className={cn(
+        'relative w-full h-[400px] md:h-[500px] md:rounded-3xl overflow-hidden mb-6 bg-muted select-none',
+        className
+      )}
+      onTouchStart={hasMultiple ? onTouchStart : undefined}
+      onTouchMove={hasMultiple ? onTouchMove : undefined}
+      onTouchEnd={hasMultiple ? onTouchEnd : undefined}
+      onMouseDown={hasMultiple ? onMouseDown : undefined}
+      onMouseMove={hasMultiple ? onMouseMove : undefined}
+      onMouseUp={hasMultiple ? onMouseUp : undefined}
+      onMouseLeave={hasMultiple ? onMouseLeave : undefined}
+      style={{ cursor: hasMultiple ? (isDragging ? 'grabbing' : 'grab') : 'default' }}
+    >
+      {/* Render all images but only show current one - prevents refetching */}
+      {imageUrls.map((url, index) =>
+        url ? (
+          <Image
+            key={`ad-${adId}-img-${index}`}
+            src={url}
+            alt={images[index]?.alt || `Image ${index + 1}`}
+            fill
+            sizes="(min-width: 1280px) 1152px, 100vw"
+            priority={index === 0}
+            className={cn(
+              'object-cover transition-all duration-300',
+              index === currentImageIndex ? 'opacity-100 z-10' : 'opacity-0 z-0'
+            )}
+            style={{
+              transform:
+                index === currentImageIndex && isDragging
+                  ? `translateX(${dragOffset}px)`
+                  : 'translateX(0)',
+              pointerEvents: 'none',
+            }}
+            draggable={false}
+          />
+        ) : null
+      )}
+
+      {/* Navigation Arrows */}
+      {hasMultiple && (
+        <>
+          <button
+            onClick={handlePrevImage}
+            className="absolute left-4 top-1/2 -translate-y-1/2 z-20 bg-black/30 hover:bg-black/50 rounded-full p-2 transition-colors"
+            aria-label="Previous image"
+          >
+            <ChevronLeft className="w-6 h-6 text-white" />
+          </button>
+          <button
+            onClick={handleNextImage}
+            className="absolute right-4 top-1/2 -translate-y-1/2 z-20 bg-black/30 hover:bg-black/50 rounded-full p-2 transition-colors"
+            aria-label="Next image"
+          >
+            <ChevronRight className="w-6 h-6 text-white" />
+          </button>
+
+          {/* Image Counter */}
+          <div className="absolute bottom-4 right-4 bg-black/70 text-white text-sm px-3 py-1.5 rounded-full backdrop-blur-sm z-20">
+            {currentImageIndex + 1} / {images.length}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,104 @@
+'use client';
+
+import { Card, CardContent } from '@/components/ui/card';
+import {
+  formatEur,
+  formatExchangeRate,
+  getExchangeModeLabel,
+  getExchangeSideLabel,
+  getSettlementMethodLabel,
+} from '@/constants/exchange-config';
+import type { AdWithExchange } from '@/data/ads/ads';
+import type {
+  ExchangeMode,
+  ExchangeRateType,
+  ExchangeSide,
+  SettlementMethod,
+} from '@/generated/enums';
+import { AdContactButton } from './ad-contact-button';
+import { AdMediaGallery } from './ad-media-gallery';
+import { DEFAULT_AD_DETAIL_VARIANT, type AdDetailVariant } from './types';
+
+interface ExchangeAdDetailsProps {
+  ad: AdWithExchange;
+  variant?: AdDetailVariant;
+  ownerTelegramHandle?: string | null;
+  showContactButton?: boolean;
+  showEditButton?: boolean;
+  /** Called when the Telegram contact link is clicked (used for metrics) */
+  onContactClick?: () => void;
+}
+
+const WRAPPER_VARIANT_CLASS: Record<AdDetailVariant, string> = {
+  manage: 'space-y-6',
+  public: 'space-y-6 border-t pt-6',
+  moderator: 'space-y-6 bg-muted/30 p-4 rounded-2xl',
+};
+
+export function ExchangeAdDetails({
+  ad,
+  variant = DEFAULT_AD_DETAIL_VARIANT,
+  ownerTelegramHandle,
+  showContactButton = true,
+  onContactClick,
+}: ExchangeAdDetailsProps) {
+  const wrapperClass = WRAPPER_VARIANT_CLASS[variant] ?? WRAPPER_VARIANT_CLASS.manage;
+  const e = ad.exchange;
+
+  const settlement = e.settlementMethods
+    .map((m) => getSettlementMethodLabel(m as SettlementMethod))
+    .join(', ');
+
+  const rows = [
+    { label: 'Offer', value: getExchangeSideLabel(e.side as ExchangeSide) },
+    { label: 'Amount', value: formatEur(e.amountEur) },
+    { label: 'Rate', value: formatExchangeRate(e.rateType as ExchangeRateType, e.rateValue) },
+    {
+      label: 'Partial exchange',
+      value: e.allowsPartial
+        ? e.minChunkEur
+          ? `Yes, from ${formatEur(e.minChunkEur)}`
+          : 'Yes'
+        : 'No, whole amount only',
+    },
+    { label: 'Exchange mode', value: getExchangeModeLabel(e.exchangeMode as ExchangeMode) },
+    { label: 'Settlement', value: settlement || '—' },
+  ];
+
+  const notes = [
+    { label: 'Other settlement method', value: e.otherSettlementNote },
+    { label: 'Notes', value: e.notes },
+  ].filter((n): n is { label: string; value: string } => !!n.value);
+
+  return (
+    <div className={wrapperClass}>
+      <AdMediaGallery adId={ad.id} images={ad.mediaAssets} className="mb-0" />
+      <Card>
+        <CardContent className="p-6 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {rows.map(({ label, value }) => (
+              <div key={label}>
+                <p className="text-sm font-medium text-muted-foreground">{label}</p>
+                <p className="text-lg font-semibold">{value}</p>
+              </div>
+            ))}
+          </div>
+          {notes.map(({ label, value }) => (
+            <div key={label}>
+              <p className="text-sm font-medium text-muted-foreground">{label}</p>
+              <p className="whitespace-pre-line">{value}</p>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      {showContactButton && (
+        <AdContactButton
+          ownerTelegramHandle={ownerTelegramHandle}
+          onContactClick={onContactClick}
+          className="md:w-auto"
+        />
+      )}
+    </div>
+  );
+}
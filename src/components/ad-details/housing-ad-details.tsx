@@ -11,12 +11,10 @@ import {
 } from '@/constants/housing-features-config';
 import { HOUSING_STEP_CONFIG } from '@/constants/housing-step-config';
 import type { AdWithHousing } from '@/data/ads/ads';
-import { getOptimizedUrl } from '@/lib/image_system/image-utils-client';
 import { cn, formatDate } from '@/lib/utils';
 import {
   Banknote,
   Calendar,
-  ChevronLeft,
   ChevronRight,
   Edit,
   Eye,
@@ -24,12 +22,13 @@ import {
   LogOut,
   MousePointerClick,
 } from 'lucide-react';
-import { useMemo, useState } from 'react';
+import { useState } from 'react';
 import { FaBan, FaCalendar, FaFileContract, FaRoad } from 'react-icons/fa';
 import { FaClock, FaLocationDot, FaPeoplePulling, FaPeopleRoof } from 'react-icons/fa6';
 import { MdLocationCity, MdStickyNote2 } from 'react-icons/md';
 import { RiTelegram2Fill } from 'react-icons/ri';
 import { Separator } from '../ui/separator';
+import { AdMediaGallery } from './ad-media-gallery';
 import { LocationMap } from './location-map';
 import { DEFAULT_AD_DETAIL_VARIANT, type AdDetailVariant } from './types';
 
@@ -39,6 +38,8 @@ interface HousingAdDetailsProps {
   ownerTelegramHandle?: string | null;
   showContactButton?: boolean;
   showEditButton?: boolean;
+  /** Called when the Telegram contact link is clicked (used for metrics) */
+  onContactClick?: () => void;
 }
 
 const WRAPPER_VARIANT_CLASS: Record<AdDetailVariant, string> = {
@@ -85,6 +86,7 @@ export function HousingAdDetails({
   ownerTelegramHandle,
   showContactButton = true,
   showEditButton = false,
+  onContactClick,
 }: HousingAdDetailsProps) {
   const housing = ad.housing;
   const isTemporary = housing.rentalKind === 'TEMPORARY';
@@ -129,173 +131,12 @@ export function HousingAdDetails({
 
   const priceDisplay = getPriceDisplay();
 
-  // Image gallery state
-  const [currentImageIndex, setCurrentImageIndex] = useState(0);
-  const [touchStart, setTouchStart] = useState<number | null>(null);
-  const [touchEnd, setTouchEnd] = useState<number | null>(null);
-  const [isDragging, setIsDragging] = useState(false);
-  const [dragOffset, setDragOffset] = useState(0);
-
-  const images = ad.mediaAssets || [];
-  const hasImages = images.length > 0;
-
-  // Precompute all image URLs once on mount to avoid refetching
-  // Use ad.id as dependency to ensure URLs are computed only once per ad
-  const imageUrls = useMemo(
-    () => (ad.mediaAssets || []).map((img) => getOptimizedUrl(img.storageKey, 'gallery')),
-    [ad.id]
-  );
-
-  const handlePrevImage = () => {
-    setCurrentImageIndex((prev) => (prev === 0 ? images.length - 1 : prev - 1));
-  };
-
-  const handleNextImage = () => {
-    setCurrentImageIndex((prev) => (prev === images.length - 1 ? 0 : prev + 1));
-  };
-
-  // Minimum swipe distance (in px) to trigger navigation
-  const minSwipeDistance = 50;
-
-  // Touch handlers
-  const onTouchStart = (e: React.TouchEvent) => {
-    setTouchEnd(null);
-    setTouchStart(e.targetTouches[0].clientX);
-  };
-
-  const onTouchMove = (e: React.TouchEvent) => {
-    setTouchEnd(e.targetTouches[0].clientX);
-  };
-
-  const onTouchEnd = () => {
-    if (!touchStart || !touchEnd) return;
-
-    const distance = touchStart - touchEnd;
-    const isLeftSwipe = distance > minSwipeDistance;
-    const isRightSwipe = distance < -minSwipeDistance;
-
-    if (isLeftSwipe) {
-      handleNextImage();
-    } else if (isRightSwipe) {
-      handlePrevImage();
-    }
-
-    setTouchStart(null);
-    setTouchEnd(null);
-  };
-
-  // Mouse drag handlers
-  const onMouseDown = (e: React.MouseEvent) => {
-    setIsDragging(true);
-    setTouchStart(e.clientX);
-    setTouchEnd(null);
-  };
-
-  const onMouseMove = (e: React.MouseEvent) => {
-    if (!isDragging || !touchStart) return;
-    setTouchEnd(e.clientX);
-    setDragOffset(e.clientX - touchStart);
-  };
-
-  const onMouseUp = () => {
-    if (!isDragging || !touchStart || touchEnd === null) {
-      setIsDragging(false);
-      setDragOffset(0);
-      return;
-    }
-
-    const distance = touchStart - touchEnd;
-    const isLeftSwipe = distance > minSwipeDistance;
-    const isRightSwipe = distance < -minSwipeDistance;
-
-    if (isLeftSwipe) {
-      handleNextImage();
-    } else if (isRightSwipe) {
-      handlePrevImage();
-    }
-
-    setIsDragging(false);
-    setTouchStart(null);
-    setTouchEnd(null);
-    setDragOffset(0);
-  };
-
-  const onMouseLeave = () => {
-    if (isDragging) {
-      setIsDragging(false);
-      setTouchStart(null);
-      setTouchEnd(null);
-      setDragOffset(0);
-    }
-  };
-
   return (
     <div
       className={cn(wrapperClass, 'bg-background pb-1 mb-4 md:rounded-3xl md:border md:shadow-sm')}
     >
       {/* Image Gallery */}
-      {hasImages && (
-        <div
-          className="relative w-full h-[400px] md:h-[500px] md:rounded-3xl overflow-hidden mb-6 bg-gray-100 select-none"
-          onTouchStart={images.length > 1 ? onTouchStart : undefined}
-          onTouchMove={images.length > 1 ? onTouchMove : undefined}
-          onTouchEnd={images.length > 1 ? onTouchEnd : undefined}
-          onMouseDown={images.length > 1 ? onMouseDown : undefined}
-          onMouseMove={images.length > 1 ? onMouseMove : undefined}
-          onMouseUp={images.length > 1 ? onMouseUp : undefined}
-          onMouseLeave={images.length > 1 ? onMouseLeave : undefined}
-          style={{ cursor: images.length > 1 ? (isDragging ? 'grabbing' : 'grab') : 'default' }}
-        >
-          {/* Render all images but only show current one - prevents refetching */}
-          {imageUrls.map((url, index) =>
-            url ? (
-              <img
-                key={`ad-${ad.id}-img-${index}`}
-                src={url}
-                alt={images[index]?.alt || `Image ${index + 1}`}
-                className={cn(
-                  'absolute inset-0 w-full h-full object-cover transition-all duration-300',
-                  index === currentImageIndex ? 'opacity-100 z-10' : 'opacity-0 z-0'
-                )}
-                style={{
-                  transform:
-                    index === currentImageIndex && isDragging
-                      ? `translateX(${dragOffset}px)`
-                      : 'translateX(0)',
-                  pointerEvents: 'none',
-                }}
-                loading={index === 0 ? 'eager' : 'lazy'}
-                draggable={false}
-              />
-            ) : null
-          )}
-
-          {/* Navigation Arrows */}
-          {images.length > 1 && (
-            <>
-              <button
-                onClick={handlePrevImage}
-                className="absolute left-4 top-1/2 -translate-y-1/2 z-20 bg-black/30 hover:bg-black/50 rounded-full p-2 transition-colors"
-                aria-label="Previous image"
-              >
-                <ChevronLeft className="w-6 h-6 text-white" />
-              </button>
-              <button
-                onClick={handleNextImage}
-                className="absolute right-4 top-1/2 -translate-y-1/2 z-20 bg-black/30 hover:bg-black/50 rounded-full p-2 transition-colors"
-                aria-label="Next image"
-              >
-                <ChevronRight className="w-6 h-6 text-white" />
-              </button>
-
-              {/* Image Counter */}
-              <div className="absolute bottom-4 right-4 bg-black/70 text-white text-sm px-3 py-1.5 rounded-full backdrop-blur-sm z-20">
-                {currentImageIndex + 1} / {images.length}
-              </div>
-            </>
-          )}
-        </div>
-      )}
+      <AdMediaGallery adId={ad.id} images={ad.mediaAssets} />
       <div className="px-4 space-y-4 mb-12">
         {/* Header: Property Title & Location */}
         <div className="pl-3 space-y-2 mb-3">
@@ -999,21 +840,24 @@ export function HousingAdDetails({
                   )}
 
                   {/* Contact Button */}
-                  <Button
-                    className="w-full bg-gradient-to-r from-blue-600 to-blue-500 hover:from-blue-700 hover:to-blue-600 text-white shadow-lg shadow-blue-500/25 transition-all duration-200 hover:shadow-xl hover:shadow-blue-500/30 hover:-translate-y-0.5"
-                    size="lg"
-                    asChild
-                  >
-                    <a
-                      href={`https://t.me/${ownerTelegramHandle || 'placeholder'}`}
-                      target="_blank"
-                      rel="noopener noreferrer"
-                      className="flex items-center justify-center gap-2"
+                  {showContactButton && (
+                    <Button
+                      className="w-full bg-gradient-to-r from-blue-600 to-blue-500 hover:from-blue-700 hover:to-blue-600 text-white shadow-lg shadow-blue-500/25 transition-all duration-200 hover:shadow-xl hover:shadow-blue-500/30 hover:-translate-y-0.5"
+                      size="lg"
+                      asChild
                     >
-                      <RiTelegram2Fill className="w-5 h-5" />
-                      <span className="font-semibold">Contact Owner</span>
-                    </a>
-                  </Button>
+                      <a
+                        href={`https://t.me/${ownerTelegramHandle || 'placeholder'}`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="flex items-center justify-center gap-2"
+                        onClick={onContactClick}
+                      >
+                        <RiTelegram2Fill className="w-5 h-5" />
+                        <span className="font-semibold">Contact Owner</span>
+                      </a>
+                    </Button>
+                  )}
                 </div>
               </div>
             </div>
@@ -1090,21 +934,24 @@ export function HousingAdDetails({
                 {housing.availabilityEndDate ? ` → ${formatDate(housing.availabilityEndDate)}` : ''}
               </p>
             </div>
-            <Button
-              className="bg-gradient-to-r from-blue-500 to-blue-600 hover:from-blue-600 hover:to-blue-700 text-white px-6 shadow-md"
-              size="lg"
-              asChild
-            >
-              <a
-                href={`https://t.me/${ownerTelegramHandle || 'placeholder'}`}
-                target="_blank"
-                rel="noopener noreferrer"
-                className="flex items-center gap-2"
+            {showContactButton && (
+              <Button
+                className="bg-gradient-to-r from-blue-500 to-blue-600 hover:from-blue-600 hover:to-blue-700 text-white px-6 shadow-md"
+                size="lg"
+                asChild
               >
-                <RiTelegram2Fill className="w-5 h-5" />
-                <span>Contact</span>
-              </a>
-            </Button>
+                <a
+                  href={`https://t.me/${ownerTelegramHandle || 'placeholder'}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="flex items-center gap-2"
+                  onClick={onContactClick}
+                >
+                  <RiTelegram2Fill className="w-5 h-5" />
+                  <span>Contact</span>
+                </a>
+              </Button>
+            )}
           </div>
         </div>
       </div>
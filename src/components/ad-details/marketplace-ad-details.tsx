@@ -1,13 +1,24 @@
 'use client';
 
 import { Card, CardContent } from '@/components/ui/card';
+import {
+  getMarketplaceCategoryLabel,
+  getMarketplaceConditionLabel,
+} from '@/constants/marketplace-config';
 import type { AdWithMarketplace } from '@/data/ads/ads';
+import type { MarketplaceCondition } from '@/generated/enums';
+import { AdContactButton } from './ad-contact-button';
+import { AdMediaGallery } from './ad-media-gallery';
 import { DEFAULT_AD_DETAIL_VARIANT, type AdDetailVariant } from './types';
 
 interface MarketplaceAdDetailsProps {
   ad: AdWithMarketplace;
   variant?: AdDetailVariant;
+  ownerTelegramHandle?: string | null;
+  showContactButton?: boolean;
   showEditButton?: boolean;
+  /** Called when the Telegram contact link is clicked (used for metrics) */
+  onContactClick?: () => void;
 }
 
 const WRAPPER_VARIANT_CLASS: Record<AdDetailVariant, string> = {
@@ -19,11 +30,16 @@ const WRAPPER_VARIANT_CLASS: Record<AdDetailVariant, string> = {
 export function MarketplaceAdDetails({
   ad,
   variant = DEFAULT_AD_DETAIL_VARIANT,
+  ownerTelegramHandle,
+  showContactButton = true,
+  onContactClick,
 }: MarketplaceAdDetailsProps) {
   const wrapperClass = WRAPPER_VARIANT_CLASS[variant] ?? WRAPPER_VARIANT_CLASS.manage;
+  const price = Number(ad.marketplace.price);
 
   return (
     <div className={wrapperClass}>
+      <AdMediaGallery adId={ad.id} images={ad.mediaAssets} className="mb-0" />
       <Card>
         <CardContent className="p-6 space-y-4">
           <div>
@@ -33,21 +49,33 @@ export function MarketplaceAdDetails({
           <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
             <div>
               <p className="text-sm font-medium text-muted-foreground">Price</p>
-              <p className="text-lg font-semibold">€{Number(ad.marketplace.price)}</p>
+              <p className="text-lg font-semibold">{price > 0 ? `€${price}` : 'Negotiable'}</p>
             </div>
             <div>
               <p className="text-sm font-medium text-muted-foreground">Condition</p>
-              <p className="text-lg font-semibold">{ad.marketplace.condition}</p>
+              <p className="text-lg font-semibold">
+                {getMarketplaceConditionLabel(ad.marketplace.condition as MarketplaceCondition)}
+              </p>
             </div>
             {ad.marketplace.category && (
               <div>
                 <p className="text-sm font-medium text-muted-foreground">Category</p>
-                <p className="text-lg font-semibold">{ad.marketplace.category}</p>
+                <p className="text-lg font-semibold">
+                  {getMarketplaceCategoryLabel(ad.marketplace.category)}
+                </p>
               </div>
             )}
           </div>
         </CardContent>
       </Card>
+
+      {showContactButton && (
+        <AdContactButton
+          ownerTelegramHandle={ownerTelegramHandle}
+          onContactClick={onContactClick}
+          className="md:w-auto"
+        />
+      )}
     </div>
   );
 }
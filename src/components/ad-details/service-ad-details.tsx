@@ -2,13 +2,26 @@
 
 import { Badge } from '@/components/ui/badge';
 import { Card, CardContent } from '@/components/ui/card';
+import {
+  formatServiceRate,
+  formatWeekdays,
+  getServiceCategoryLabel,
+  getServiceRateBasisLabel,
+} from '@/constants/services-config';
 import type { AdWithService } from '@/data/ads/ads';
+import type { ServiceCategory, ServiceRateBasis, Weekday } from '@/generated/enums';
+import { AdContactButton } from './ad-contact-button';
+import { AdMediaGallery } from './ad-media-gallery';
 import { DEFAULT_AD_DETAIL_VARIANT, type AdDetailVariant } from './types';
 
 interface ServiceAdDetailsProps {
   ad: AdWithService;
   variant?: AdDetailVariant;
+  ownerTelegramHandle?: string | null;
+  showContactButton?: boolean;
   showEditButton?: boolean;
+  /** Called when the Telegram contact link is clicked (used for metrics) */
+  onContactClick?: () => void;
 }
 
 const WRAPPER_VARIANT_CLASS: Record<AdDetailVariant, string> = {
@@ -20,66 +33,48 @@ const WRAPPER_VARIANT_CLASS: Record<AdDetailVariant, string> = {
 export function ServiceAdDetails({
   ad,
   variant = DEFAULT_AD_DETAIL_VARIANT,
+  ownerTelegramHandle,
+  showContactButton = true,
+  onContactClick,
 }: ServiceAdDetailsProps) {
   const wrapperClass = WRAPPER_VARIANT_CLASS[variant] ?? WRAPPER_VARIANT_CLASS.manage;
 
-  const formatRateLabel = () => {
-    if (!ad.service.rateAmount) return 'On request';
-    const basisLabels: Record<string, string> = {
-      HOURLY: '/hr',
-      DAILY: '/day',
-      PROJECT: '/project',
-      MONTHLY: '/mo',
-    };
-    return `€${Number(ad.service.rateAmount)}${basisLabels[ad.service.rateBasis] || ''}`;
-  };
-
-  const getCategoryLabel = (category: string) => {
-    const labels: Record<string, string> = {
-      TRANSLATION: 'Translation',
-      TUTORING: 'Tutoring',
-      CONSULTING: 'Consulting',
-      TECH_IT: 'Tech & IT',
-      DESIGN_CREATIVE: 'Design & Creative',
-      WRITING: 'Writing',
-      LEGAL: 'Legal',
-      ACCOUNTING: 'Accounting',
-      HOME_REPAIR: 'Home Repair',
-      CLEANING: 'Cleaning',
-      MOVING: 'Moving',
-      PET_CARE: 'Pet Care',
-      CHILDCARE: 'Childcare',
-      PHOTOGRAPHY: 'Photography',
-      EVENT_PLANNING: 'Event Planning',
-      OTHER: 'Other',
-    };
-    return labels[category] || category;
-  };
+  const s = ad.service;
+  const availableDays = formatWeekdays(s.availabilityDays as Weekday[]);
 
   return (
     <div className={wrapperClass}>
+      <AdMediaGallery adId={ad.id} images={ad.mediaAssets} className="mb-0" />
       <Card>
         <CardContent className="p-6 space-y-4">
           <div>
-            <h3 className="text-2xl font-bold mb-2">{ad.service.title}</h3>
-            <p className="text-muted-foreground">{ad.service.description}</p>
+            <h3 className="text-2xl font-bold mb-2">{s.title}</h3>
+            {s.businessName && (
+              <p className="text-sm font-medium text-muted-foreground mb-2">{s.businessName}</p>
+            )}
+            <p className="text-muted-foreground whitespace-pre-line">{s.description}</p>
           </div>
           <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
             <div>
               <p className="text-sm font-medium text-muted-foreground">Category</p>
               <p className="text-lg font-semibold">
-                {getCategoryLabel(ad.service.serviceCategory)}
+                {getServiceCategoryLabel(s.serviceCategory as ServiceCategory)}
               </p>
             </div>
             <div>
               <p className="text-sm font-medium text-muted-foreground">Rate</p>
-              <p className="text-lg font-semibold">{formatRateLabel()}</p>
+              <p className="text-lg font-semibold">
+                {formatServiceRate(s.rateAmount, s.rateBasis as ServiceRateBasis)}
+              </p>
+              <p className="text-xs text-muted-foreground">
+                {getServiceRateBasisLabel(s.rateBasis as ServiceRateBasis)}
+              </p>
             </div>
-            {ad.service.tags.length > 0 && (
+            {s.tags.length > 0 && (
               <div>
                 <p className="text-sm font-medium text-muted-foreground mb-2">Tags</p>
                 <div className="flex flex-wrap gap-2">
-                  {ad.service.tags.map((tag, index) => (
+                  {s.tags.map((tag, index) => (
                     <Badge key={index} variant="secondary">
                       {tag}
                     </Badge>
@@ -90,6 +85,50 @@ export function ServiceAdDetails({
           </div>
         </CardContent>
       </Card>
+
+      <Card>
+        <CardContent className="p-6 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <p className="text-sm font-medium text-muted-foreground">Available on</p>
+              <p className="font-semibold">
+                {availableDays.length === 7 ? 'Every day' : availableDays.join(', ') || '—'}
+              </p>
+            </div>
+            <div>
+              <p className="text-sm font-medium text-muted-foreground">Service area</p>
+              <p className="font-semibold">{s.serviceArea || '—'}</p>
+            </div>
+          </div>
+          {s.portfolioLinks.length > 0 && (
+            <div>
+              <p className="text-sm font-medium text-muted-foreground mb-2">Portfolio</p>
+              <ul className="space-y-1">
+                {s.portfolioLinks.map((link) => (
+                  <li key={link}>
+                    <a
+                      href={link}
+                      target="_blank"
+                      rel="noopener noreferrer nofollow ugc"
+                      className="text-sm text-primary underline-offset-4 hover:underline break-all"
+                    >
+                      {link}
+                    </a>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {showContactButton && (
+        <AdContactButton
+          ownerTelegramHandle={ownerTelegramHandle}
+          onContactClick={onContactClick}
+          className="md:w-auto"
+        />
+      )}
     </div>
   );
 }
@@ -1,14 +1,26 @@
 'use client';
 
 import { Card, CardContent } from '@/components/ui/card';
+import {
+  COUNTRY_LABELS,
+  getTransportDirectionLabel,
+  getTransportItemTypeLabel,
+} from '@/constants/transportation-config';
 import type { AdWithTransportation } from '@/data/ads/ads';
+import type { Country, TransportDirection } from '@/generated/enums';
 import { formatDate } from '@/lib/utils';
+import { AdContactButton } from './ad-contact-button';
+import { AdMediaGallery } from './ad-media-gallery';
 import { DEFAULT_AD_DETAIL_VARIANT, type AdDetailVariant } from './types';
 
 interface TransportationAdDetailsProps {
   ad: AdWithTransportation;
   variant?: AdDetailVariant;
+  ownerTelegramHandle?: string | null;
+  showContactButton?: boolean;
   showEditButton?: boolean;
+  /** Called when the Telegram contact link is clicked (used for metrics) */
+  onContactClick?: () => void;
 }
 
 const WRAPPER_VARIANT_CLASS: Record<AdDetailVariant, string> = {
@@ -20,6 +32,9 @@ const WRAPPER_VARIANT_CLASS: Record<AdDetailVariant, string> = {
 export function TransportationAdDetails({
   ad,
   variant = DEFAULT_AD_DETAIL_VARIANT,
+  ownerTelegramHandle,
+  showContactButton = true,
+  onContactClick,
 }: TransportationAdDetailsProps) {
   const sectionClass = WRAPPER_VARIANT_CLASS[variant] ?? WRAPPER_VARIANT_CLASS.manage;
 
@@ -27,21 +42,51 @@ export function TransportationAdDetails({
     if (ad.transportation.priceMode === 'PER_KG' && ad.transportation.pricePerKg) {
       return `€${Number(ad.transportation.pricePerKg)}/kg`;
     }
-    if (ad.transportation.priceMode === 'FIXED' && ad.transportation.fixedTotalPrice) {
+    if (ad.transportation.priceMode === 'FIXED_TOTAL' && ad.transportation.fixedTotalPrice) {
       return `€${Number(ad.transportation.fixedTotalPrice)} (fixed)`;
     }
-    return 'On request';
+    return ad.transportation.priceMode === 'NEGOTIABLE' ? 'Negotiable' : 'On request';
   };
 
+  const t = ad.transportation;
+  const yesNo = (value: boolean) => (value ? 'Yes' : 'No');
+  const list = (values: string[], format: (v: string) => string = (v) => v) =>
+    values.length ? values.map(format).join(', ') : '—';
+
+  const detailRows = [
+    { label: 'Other pickup cities', value: list(t.additionalPickupCities) },
+    { label: 'Other delivery cities', value: list(t.additionalDeliveryCities) },
+    { label: 'Accepted items', value: list(t.acceptedItemTypes, getTransportItemTypeLabel) },
+    { label: 'Not accepted', value: list(t.restrictedItemTypes, getTransportItemTypeLabel) },
+    { label: 'Minimum per sender', value: t.minAcceptKg != null ? `${t.minAcceptKg} kg` : '—' },
+    {
+      label: 'Delivery within',
+      value: t.deliveryEtaDays != null ? `${t.deliveryEtaDays} days` : '—',
+    },
+    { label: 'Packages inspected', value: yesNo(t.subjectToInspection) },
+    { label: 'Documents accepted', value: yesNo(t.documentsAccepted) },
+    { label: 'Postal forwarding', value: yesNo(t.offersPostalForwarding) },
+    { label: 'Postal drop-off', value: yesNo(t.acceptsPostalDropoff) },
+  ];
+
+  const notes = [
+    { label: 'Route notes', value: t.routeNotes },
+    { label: 'Capacity notes', value: t.specialCapacityNotes },
+    { label: 'Postal notes', value: t.postalNotes },
+    { label: 'Price notes', value: t.priceNotes },
+    { label: 'Terms', value: t.termsNotes },
+  ].filter((n): n is { label: string; value: string } => !!n.value);
+
   return (
     <div className={sectionClass}>
+      <AdMediaGallery adId={ad.id} images={ad.mediaAssets} className="mb-0" />
       <Card>
         <CardContent className="p-6 space-y-4">
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             <div>
               <p className="text-sm font-medium text-muted-foreground">Direction</p>
               <p className="text-lg font-semibold">
-                {ad.transportation.direction === 'TO_ITALY' ? 'To Italy' : 'From Italy'}
+                {getTransportDirectionLabel(ad.transportation.direction as TransportDirection)}
               </p>
             </div>
             <div>
@@ -51,13 +96,15 @@ export function TransportationAdDetails({
             <div>
               <p className="text-sm font-medium text-muted-foreground">From</p>
               <p className="text-lg font-semibold">
-                {ad.transportation.departureCity}, {ad.transportation.departureCountry}
+                {ad.transportation.departureCity},{' '}
+                {COUNTRY_LABELS[ad.transportation.departureCountry as Country]}
               </p>
             </div>
             <div>
               <p className="text-sm font-medium text-muted-foreground">To</p>
               <p className="text-lg font-semibold">
-                {ad.transportation.arrivalCity}, {ad.transportation.arrivalCountry}
+                {ad.transportation.arrivalCity},{' '}
+                {COUNTRY_LABELS[ad.transportation.arrivalCountry as Country]}
               </p>
             </div>
             {ad.transportation.capacityKg && (
@@ -73,6 +120,33 @@ export function TransportationAdDetails({
           </div>
         </CardContent>
       </Card>
+
+      <Card>
+        <CardContent className="p-6 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {detailRows.map(({ label, value }) => (
+              <div key={label}>
+                <p className="text-sm font-medium text-muted-foreground">{label}</p>
+                <p className="font-semibold">{value}</p>
+              </div>
+            ))}
+          </div>
+          {notes.map(({ label, value }) => (
+            <div key={label}>
+              <p className="text-sm font-medium text-muted-foreground">{label}</p>
+              <p className="whitespace-pre-line">{value}</p>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      {showContactButton && (
+        <AdContactButton
+          ownerTelegramHandle={ownerTelegramHandle}
+          onContactClick={onContactClick}
+          className="md:w-auto"
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,176 @@
+'use client';
+
+import { Checkbox } from '@/components/ui/checkbox';
+import { FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { SelectableList } from '@/components/ui/selectable-list';
+import { EXCHANGE_SIDE_OPTIONS } from '@/constants/exchange-config';
+import type { ExchangeFormValues } from '@/lib/schemas/ads/exchange-schema';
+import React from 'react';
+import type { Control, UseFormReturn } from 'react-hook-form';
+import { useWatch } from 'react-hook-form';
+import { FaEuroSign } from 'react-icons/fa';
+
+type Props = {
+  control: Control<ExchangeFormValues>;
+  revalidateField: (fieldName: keyof ExchangeFormValues) => Promise<void>;
+  form: UseFormReturn<ExchangeFormValues>;
+};
+
+/**
+ * Step 1: Offer
+ *
+ * The minimum chunk only applies when partial exchanges are allowed, so it is
+ * cleared when the checkbox is turned off.
+ */
+function ExchangeDialogStep1Component({ control, revalidateField, form }: Props) {
+  const allowsPartial = useWatch({ control, name: 'allowsPartial' });
+
+  return (
+    <div className="step-container">
+      {/* Header */}
+      <div className="step-header-wrapper">
+        <div className="step-header-content">
+          <div className="step-header-icon-wrapper">
+            <FaEuroSign className="step-header-icon" />
+          </div>
+          <div>
+            <h3 className="step-header-title">Your Offer</h3>
+            <p className="step-header-description">What you want to exchange and how much</p>
+          </div>
+        </div>
+      </div>
+
+      <div className="form-content-card space-y-5">
+        <FormField
+          control={control}
+          name="side"
+          render={({ field, fieldState }) => (
+            <FormItem>
+              <FormLabel>I am</FormLabel>
+              <SelectableList
+                className="mt-2"
+                ariaLabel="Exchange side"
+                value={field.value}
+                onChange={(v) => {
+                  field.onChange(v);
+                  void revalidateField('side');
+                }}
+                options={EXCHANGE_SIDE_OPTIONS.map((o) => ({
+                  value: o.value,
+                  label: (
+                    <span className="flex flex-col">
+                      <span>{o.label}</span>
+                      <span className="text-xs text-muted-foreground">{o.description}</span>
+                    </span>
+                  ),
+                }))}
+                error={!!fieldState.error}
+              />
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={control}
+          name="amountEur"
+          render={({ field, fieldState }) => (
+            <FormItem>
+              <FormLabel>Amount</FormLabel>
+              <FormControl>
+                <div className="relative">
+                  <span className="absolute left-3 top-1/2 -translate-y-1/2 text-sm">€</span>
+                  <Input
+                    className="pl-8"
+                    type="number"
+                    inputMode="decimal"
+                    step="0.01"
+                    {...field}
+                    value={field.value ?? ''}
+                    onChange={(e) => {
+                      field.onChange(e.target.value === '' ? null : Number(e.target.value));
+                      void revalidateField('amountEur');
+                      if (form.getValues('minChunkEur') != null) {
+                        void revalidateField('minChunkEur');
+                      }
+                    }}
+                    placeholder="e.g., 1500"
+                    aria-invalid={!!fieldState.error}
+                  />
+                </div>
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      </div>
+
+      <div className="form-content-card space-y-5">
+        <FormField
+          control={control}
+          name="allowsPartial"
+          render={({ field }) => (
+            <FormItem className="flex flex-row items-center gap-2">
+              <FormControl>
+                <Checkbox
+                  checked={!!field.value}
+                  onCheckedChange={(v) => {
+                    field.onChange(Boolean(v));
+                    if (!v) {
+                      form.setValue('minChunkEur', null, { shouldDirty: true });
+                      form.clearErrors('minChunkEur');
+                    }
+                  }}
+                />
+              </FormControl>
+              <div className="text-sm">Partial exchanges are fine</div>
+            </FormItem>
+          )}
+        />
+
+        {allowsPartial && (
+          <FormField
+            control={control}
+            name="minChunkEur"
+            render={({ field, fieldState }) => (
+              <FormItem>
+                <FormLabel>
+                  Minimum per exchange{' '}
+                  <span className="text-xs font-light text-neutral-400">Optional</span>
+                </FormLabel>
+                <FormControl>
+                  <div className="relative">
+                    <span className="absolute left-3 top-1/2 -translate-y-1/2 text-sm">€</span>
+                    <Input
+                      className="pl-8"
+                      type="number"
+                      inputMode="decimal"
+                      step="0.01"
+                      {...field}
+                      value={field.value ?? ''}
+                      onChange={(e) => {
+                        field.onChange(e.target.value === '' ? null : Number(e.target.value));
+                        void revalidateField('minChunkEur');
+                      }}
+                      placeholder="e.g., 200"
+                      aria-invalid={!!fieldState.error}
+                    />
+                  </div>
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Memoized version of Step 1 component to prevent unnecessary re-renders
+ */
+const ExchangeDialogStep1 = React.memo(ExchangeDialogStep1Component);
+
+export default ExchangeDialogStep1;
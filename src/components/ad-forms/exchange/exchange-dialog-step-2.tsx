@@ -0,0 +1,121 @@
+'use client';
+
+import { FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { SelectableList } from '@/components/ui/selectable-list';
+import { EXCHANGE_RATE_TYPE_OPTIONS, EXCHANGE_RATE_UNIT } from '@/constants/exchange-config';
+import type { ExchangeFormValues } from '@/lib/schemas/ads/exchange-schema';
+import React from 'react';
+import type { Control, UseFormReturn } from 'react-hook-form';
+import { useWatch } from 'react-hook-form';
+import { FaArrowRightArrowLeft } from 'react-icons/fa6';
+
+type Props = {
+  control: Control<ExchangeFormValues>;
+  revalidateField: (fieldName: keyof ExchangeFormValues) => Promise<void>;
+  form: UseFormReturn<ExchangeFormValues>;
+};
+
+/**
+ * Step 2: Rate
+ *
+ * A rate value is only asked for custom rates; switching to another rate
+ * type clears it.
+ */
+function ExchangeDialogStep2Component({ control, revalidateField, form }: Props) {
+  const rateType = useWatch({ control, name: 'rateType' });
+
+  return (
+    <div className="step-container">
+      {/* Header */}
+      <div className="step-header-wrapper">
+        <div className="step-header-content">
+          <div className="step-header-icon-wrapper">
+            <FaArrowRightArrowLeft className="step-header-icon" />
+          </div>
+          <div>
+            <h3 className="step-header-title">Rate</h3>
+            <p className="step-header-description">Which rate you want to exchange at</p>
+          </div>
+        </div>
+      </div>
+
+      <div className="form-content-card space-y-5">
+        <FormField
+          control={control}
+          name="rateType"
+          render={({ field, fieldState }) => (
+            <FormItem>
+              <FormLabel>Rate type</FormLabel>
+              <SelectableList
+                className="mt-2"
+                ariaLabel="Rate type"
+                value={field.value}
+                onChange={(v) => {
+                  field.onChange(v);
+                  if (v !== 'CUSTOM') {
+                    form.setValue('rateValue', null, { shouldDirty: true });
+                    form.clearErrors('rateValue');
+                  }
+                  void revalidateField('rateType');
+                }}
+                options={EXCHANGE_RATE_TYPE_OPTIONS.map((o) => ({
+                  value: o.value,
+                  label: (
+                    <span className="flex flex-col">
+                      <span>{o.label}</span>
+                      <span className="text-xs text-muted-foreground">{o.description}</span>
+                    </span>
+                  ),
+                }))}
+                error={!!fieldState.error}
+              />
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        {rateType === 'CUSTOM' && (
+          <FormField
+            control={control}
+            name="rateValue"
+            render={({ field, fieldState }) => (
+              <FormItem>
+                <FormLabel>Your rate</FormLabel>
+                <FormControl>
+                  <div className="relative">
+                    <Input
+                      className="pr-20"
+                      type="number"
+                      inputMode="decimal"
+                      step="0.0001"
+                      {...field}
+                      value={field.value ?? ''}
+                      onChange={(e) => {
+                        field.onChange(e.target.value === '' ? null : Number(e.target.value));
+                        void revalidateField('rateValue');
+                      }}
+                      placeholder="e.g., 95000"
+                      aria-invalid={!!fieldState.error}
+                    />
+                    <span className="absolute right-3 top-1/2 -translate-y-1/2 text-sm text-muted-foreground">
+                      {EXCHANGE_RATE_UNIT}
+                    </span>
+                  </div>
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Memoized version of Step 2 component to prevent unnecessary re-renders
+ */
+const ExchangeDialogStep2 = React.memo(ExchangeDialogStep2Component);
+
+export default ExchangeDialogStep2;
@@ -0,0 +1,196 @@
+'use client';
+
+import { Chip } from '@/components/ui/chip';
+import { FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { SelectableList } from '@/components/ui/selectable-list';
+import { Textarea } from '@/components/ui/textarea';
+import { EXCHANGE_MODE_OPTIONS, SETTLEMENT_METHOD_OPTIONS } from '@/constants/exchange-config';
+import type { SettlementMethod } from '@/generated/enums';
+import {
+  EXCHANGE_NOTES_MAX_LENGTH,
+  EXCHANGE_SETTLEMENT_NOTE_MAX_LENGTH,
+  type ExchangeFormValues,
+} from '@/lib/schemas/ads/exchange-schema';
+import React from 'react';
+import type { Control, UseFormReturn } from 'react-hook-form';
+import { useWatch } from 'react-hook-form';
+import { FaHandshake } from 'react-icons/fa6';
+
+type Props = {
+  control: Control<ExchangeFormValues>;
+  revalidateField: (fieldName: keyof ExchangeFormValues) => Promise<void>;
+  form: UseFormReturn<ExchangeFormValues>;
+};
+
+const SETTLEMENT_METHODS = SETTLEMENT_METHOD_OPTIONS.map((o) => o.value);
+
+/**
+ * Step 3: Settlement
+ *
+ * Methods keep the option order regardless of click order. Picking "Other"
+ * asks for a short description, which is cleared when "Other" is removed.
+ */
+function ExchangeDialogStep3Component({ control, revalidateField, form }: Props) {
+  const settlementMethods = useWatch({ control, name: 'settlementMethods' });
+  const hasOther = (settlementMethods ?? []).includes('OTHER');
+
+  const toggleMethod = (method: SettlementMethod) => {
+    const current = form.getValues('settlementMethods') ?? [];
+    const next = current.includes(method)
+      ? current.filter((m) => m !== method)
+      : [...current, method];
+
+    form.setValue(
+      'settlementMethods',
+      SETTLEMENT_METHODS.filter((m) => next.includes(m)),
+      { shouldDirty: true }
+    );
+    if (!next.includes('OTHER')) {
+      form.setValue('otherSettlementNote', null, { shouldDirty: true });
+      form.clearErrors('otherSettlementNote');
+    }
+    void revalidateField('settlementMethods');
+  };
+
+  return (
+    <div className="step-container">
+      {/* Header */}
+      <div className="step-header-wrapper">
+        <div className="step-header-content">
+          <div className="step-header-icon-wrapper">
+            <FaHandshake className="step-header-icon" />
+          </div>
+          <div>
+            <h3 className="step-header-title">Settlement</h3>
+            <p className="step-header-description">How and where the exchange happens</p>
+          </div>
+        </div>
+      </div>
+
+      <div className="form-content-card space-y-5">
+        <FormField
+          control={control}
+          name="exchangeMode"
+          render={({ field, fieldState }) => (
+            <FormItem>
+              <FormLabel>Exchange mode</FormLabel>
+              <SelectableList
+                className="mt-2"
+                ariaLabel="Exchange mode"
+                value={field.value}
+                onChange={(v) => {
+                  field.onChange(v);
+                  void revalidateField('exchangeMode');
+                }}
+                options={EXCHANGE_MODE_OPTIONS.map((o) => ({
+                  value: o.value,
+                  label: (
+                    <span className="flex flex-col">
+                      <span>{o.label}</span>
+                      <span className="text-xs text-muted-foreground">{o.description}</span>
+                    </span>
+                  ),
+                }))}
+                error={!!fieldState.error}
+              />
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={control}
+          name="settlementMethods"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Payment methods</FormLabel>
+              <div
+                className="flex flex-wrap gap-1.5 mt-1"
+                role="group"
+                aria-label="Payment methods"
+              >
+                {SETTLEMENT_METHOD_OPTIONS.map((o) => (
+                  <Chip
+                    key={o.value}
+                    size="sm"
+                    rounded="full"
+                    selectable
+                    tone="primary"
+                    selected={(field.value ?? []).includes(o.value)}
+                    onClick={() => toggleMethod(o.value)}
+                  >
+                    {o.label}
+                  </Chip>
+                ))}
+              </div>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        {hasOther && (
+          <FormField
+            control={control}
+            name="otherSettlementNote"
+            render={({ field, fieldState }) => (
+              <FormItem>
+                <FormLabel>Other method</FormLabel>
+                <FormControl>
+                  <Input
+                    {...field}
+                    value={field.value ?? ''}
+                    onChange={(e) => {
+                      field.onChange(e.target.value || null);
+                      void revalidateField('otherSettlementNote');
+                    }}
+                    placeholder="e.g., Wise"
+                    maxLength={EXCHANGE_SETTLEMENT_NOTE_MAX_LENGTH}
+                    aria-invalid={!!fieldState.error}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+      </div>
+
+      <div className="form-content-card space-y-5">
+        <FormField
+          control={control}
+          name="notes"
+          render={({ field, fieldState }) => (
+            <FormItem>
+              <FormLabel>
+                Notes <span className="text-xs font-light text-neutral-400">Optional</span>
+              </FormLabel>
+              <FormControl>
+                <Textarea
+                  {...field}
+                  value={field.value ?? ''}
+                  onChange={(e) => {
+                    field.onChange(e.target.value || null);
+                    void revalidateField('notes');
+                  }}
+                  placeholder="Timing, preferred meeting places, anything else worth knowing"
+                  className="min-h-[100px] resize-none"
+                  maxLength={EXCHANGE_NOTES_MAX_LENGTH}
+                  aria-invalid={!!fieldState.error}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Memoized version of Step 3 component to prevent unnecessary re-renders
+ */
+const ExchangeDialogStep3 = React.memo(ExchangeDialogStep3Component);
+
+export default ExchangeDialogStep3;
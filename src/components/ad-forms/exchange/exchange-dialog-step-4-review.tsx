@@ -0,0 +1,117 @@
+'use client';
+
+import { Separator } from '@/components/ui/separator';
+import {
+  formatEur,
+  formatExchangeRate,
+  getExchangeModeLabel,
+  getExchangeSideLabel,
+  getSettlementMethodLabel,
+} from '@/constants/exchange-config';
+import type { SettlementMethod } from '@/generated/enums';
+import type { ExchangeFormValues } from '@/lib/schemas/ads/exchange-schema';
+import React from 'react';
+import type { UseFormReturn } from 'react-hook-form';
+import { useWatch } from 'react-hook-form';
+import { FaEye } from 'react-icons/fa6';
+
+type Props = {
+  form: UseFormReturn<ExchangeFormValues>;
+};
+
+function ReviewRow({ label, value }: { label: string; value: React.ReactNode }) {
+  return (
+    <div className="flex flex-col gap-1">
+      <span className="text-[9px] sm:text-[10px] text-neutral-500 font-medium uppercase tracking-wide">
+        {label}
+      </span>
+      <span className="text-xs sm:text-sm font-semibold text-neutral-900 break-words">{value}</span>
+    </div>
+  );
+}
+
+function ReviewSection({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <div className="border pb-3 border-neutral-200 rounded-xl bg-white/50 overflow-hidden">
+      <h4 className="px-5 py-2 font-semibold text-xs sm:text-sm text-neutral-700">{title}</h4>
+      <Separator className="mb-2" />
+      <div className="grid grid-cols-2 gap-3 px-4">{children}</div>
+    </div>
+  );
+}
+
+/**
+ * Step 4: Review & Submit
+ * Read-only summary of the exchange ad before submission
+ */
+function ExchangeDialogStep4ReviewComponent({ form }: Props) {
+  const values = useWatch({ control: form.control }) as Partial<ExchangeFormValues>;
+  const { rateType } = values;
+
+  const partial = values.allowsPartial
+    ? values.minChunkEur != null
+      ? `Yes, from ${formatEur(values.minChunkEur)}`
+      : 'Yes'
+    : 'No';
+
+  const methods = (values.settlementMethods ?? []) as SettlementMethod[];
+
+  return (
+    <div className="step-container">
+      {/* Header */}
+      <div className="step-header-wrapper">
+        <div className="step-header-content">
+          <div className="step-header-icon-wrapper">
+            <FaEye className="step-header-icon" />
+          </div>
+          <div>
+            <h3 className="step-header-title">Review & Submit</h3>
+            <p className="step-header-description">
+              Please review all details before publishing your ad
+            </p>
+          </div>
+        </div>
+      </div>
+
+      <ReviewSection title="Offer">
+        <ReviewRow label="Side" value={values.side ? getExchangeSideLabel(values.side) : '—'} />
+        <ReviewRow
+          label="Amount"
+          value={values.amountEur != null ? formatEur(values.amountEur) : '—'}
+        />
+        <ReviewRow label="Partial exchange" value={partial} />
+      </ReviewSection>
+
+      <ReviewSection title="Rate">
+        <ReviewRow
+          label="Rate"
+          value={rateType ? formatExchangeRate(rateType, values.rateValue) : '—'}
+        />
+      </ReviewSection>
+
+      <ReviewSection title="Settlement">
+        <ReviewRow
+          label="Mode"
+          value={values.exchangeMode ? getExchangeModeLabel(values.exchangeMode) : '—'}
+        />
+        <ReviewRow
+          label="Payment methods"
+          value={methods.length ? methods.map(getSettlementMethodLabel).join(', ') : '—'}
+        />
+        {values.otherSettlementNote && (
+          <ReviewRow label="Other method" value={values.otherSettlementNote} />
+        )}
+        <div className="col-span-2">
+          <ReviewRow
+            label="Notes"
+            value={<span className="whitespace-pre-line font-normal">{values.notes || '—'}</span>}
+          />
+        </div>
+      </ReviewSection>
+    </div>
+  );
+}
+
+const ExchangeDialogStep4Review = React.memo(ExchangeDialogStep4ReviewComponent);
+
+export default ExchangeDialogStep4Review;
@@ -5,8 +5,11 @@ import {
   deleteHousingImageAction,
   uploadHousingImageAction,
 } from '@/lib/actions/housing-ad-images';
-import { resolveImageUrl, validateImageFile } from '@/lib/image_system/image-utils-client';
-import type { HousingFormValues } from '@/lib/schemas/ads/housing-schema';
+import {
+  resolveImageUrl,
+  validateImageFile,
+  type ImageType,
+} from '@/lib/image_system/image-utils-client';
 import { cn } from '@/lib/utils';
 import {
   AlertCircle,
@@ -23,12 +26,37 @@ import type { Control, UseFormReturn } from 'react-hook-form';
 import { FaImages } from 'react-icons/fa6';
 import { toast } from 'sonner';
 
+/**
+ * Only the image fields are touched, so any ad form that shares them can reuse this step
+ */
+export type ImageStepFormValues = {
+  images: string[];
+  coverImageStorageKey: string;
+};
+
+type UploadImageResult = { ok: true; data: { storageKey: string } } | { ok: false; error: string };
+type DeleteImageResult = { ok: true } | { ok: false; error: string };
+
 type Props = {
-  form: UseFormReturn<HousingFormValues>;
-  control: Control<HousingFormValues>;
-  revalidateField: (fieldName: keyof HousingFormValues) => Promise<void>;
+  form: UseFormReturn<ImageStepFormValues>;
+  control: Control<ImageStepFormValues>;
+  revalidateField: (fieldName: keyof ImageStepFormValues) => Promise<void>;
+  /** Validation config used for selected files (defaults to housing) */
+  imageType?: ImageType;
+  /** Uploads one file and returns its storage key (defaults to housing upload action) */
+  uploadImage?: (file: File) => Promise<UploadImageResult>;
+  /** Deletes an uploaded image by storage key (defaults to housing delete action) */
+  deleteImage?: (storageKey: string) => Promise<DeleteImageResult>;
+  title?: string;
+  description?: string;
 };
 
+function uploadHousingImage(file: File) {
+  const fd = new FormData();
+  fd.set('housingImage', file);
+  return uploadHousingImageAction(fd);
+}
+
 type ImageSlot = {
   storageKey: string;
   status: 'uploaded' | 'uploading' | 'error';
@@ -36,7 +64,16 @@ type ImageSlot = {
   tempId?: string;
 };
 
-function HousingDialogStep7ImagesComponent({ form, control, revalidateField }: Props) {
+function HousingDialogStep7ImagesComponent({
+  form,
+  control,
+  revalidateField,
+  imageType = 'ad-housing',
+  uploadImage = uploadHousingImage,
+  deleteImage = deleteHousingImageAction,
+  title = 'Property Images',
+  description = 'Showcase your property with stunning photos',
+}: Props) {
   const inputRef = useRef<HTMLInputElement | null>(null);
   const [slots, setSlots] = useState<(ImageSlot | null)[]>(Array(8).fill(null));
   const [draggedIndex, setDraggedIndex] = useState<number | null>(null);
@@ -108,7 +145,7 @@ function HousingDialogStep7ImagesComponent({ form, control, revalidateField }: P
       const validFiles: Array<{ file: File; slotIndex: number; tempId: string }> = [];
       for (let i = 0; i < toUpload.length; i++) {
         const file = toUpload[i];
-        const validation = validateImageFile(file, 'ad-housing');
+        const validation = validateImageFile(file, imageType);
         if (!validation.success) {
           toast.error(validation.error);
           continue;
@@ -142,9 +179,7 @@ function HousingDialogStep7ImagesComponent({ form, control, revalidateField }: P
       // Upload all files simultaneously
       const uploadPromises = validFiles.map(async ({ file, slotIndex, tempId }) => {
         try {
-          const fd = new FormData();
-          fd.set('housingImage', file);
-          const res = await uploadHousingImageAction(fd);
+          const res = await uploadImage(file);
           if (!res.ok) throw new Error(res.error);
 
           // Update slot with uploaded image
@@ -214,7 +249,7 @@ function HousingDialogStep7ImagesComponent({ form, control, revalidateField }: P
       await revalidateField('images');
       await revalidateField('coverImageStorageKey');
     },
-    [form, revalidateField, remainingSlots, slots]
+    [form, revalidateField, remainingSlots, slots, imageType, uploadImage]
   );
 
   const onRemoveImage = useCallback(
@@ -240,7 +275,7 @@ function HousingDialogStep7ImagesComponent({ form, control, revalidateField }: P
           });
         }
 
-        const del = await deleteHousingImageAction(storageKey);
+        const del = await deleteImage(storageKey);
         if (!('ok' in del) || !del.ok) {
           // Revert on failure
           form.setValue('images', prev, { shouldDirty: true, shouldTouch: true });
@@ -257,7 +292,7 @@ function HousingDialogStep7ImagesComponent({ form, control, revalidateField }: P
         toast.error(error?.message || 'Failed to remove image');
       }
     },
-    [form, revalidateField]
+    [form, revalidateField, deleteImage]
   );
 
   const onSetCover = useCallback(
@@ -357,8 +392,8 @@ function HousingDialogStep7ImagesComponent({ form, control, revalidateField }: P
             <FaImages className="step-header-icon" />
           </div>
           <div>
-            <h3 className="step-header-title">Property Images</h3>
-            <p className="step-header-description">Showcase your property with stunning photos</p>
+            <h3 className="step-header-title">{title}</h3>
+            <p className="step-header-description">{description}</p>
           </div>
         </div>
       </div>
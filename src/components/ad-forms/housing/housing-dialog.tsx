@@ -21,8 +21,9 @@ import {
 } from '@/components/ui/form';
 import { Textarea } from '@/components/ui/textarea';
 import { AD_CATEGORY_BY_ID } from '@/constants/ad-categories';
+import { getAdReviewFieldLabel, type AdReviewField } from '@/constants/ad-review-fields';
 import { useCityById } from '@/contexts/cities-context';
-import type { AdWithHousing } from '@/data/ads/ads';
+import type { AdChangeRequest, AdWithHousing } from '@/data/ads/ads';
 import {
   BillsPolicy,
   HousingPriceType,
@@ -41,12 +42,13 @@ import {
   type HousingFormValues,
 } from '@/lib/schemas/ads/housing-schema';
 import { cn } from '@/lib/utils';
-import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { ChevronLeft, ChevronRight, MessageSquareWarning } from 'lucide-react';
 import React, { useEffect, useMemo, useRef, useState, useTransition } from 'react';
 import type { FieldPath } from 'react-hook-form';
 import { useForm, useWatch } from 'react-hook-form';
 import { AdSuccessDialog } from '../../../app/(main)/dashboard/create-ad/_components/ad-success-dialog';
 import {
+  HOUSING_REVIEW_FIELD_STEPS,
   HOUSING_STEP_CONFIG,
   TOTAL_STEPS,
   getStepFields,
@@ -78,6 +80,8 @@ export interface HousingDialogProps {
   onSuccess?: (adId: number) => void;
   /** Initial step to display when dialog opens (1-8, defaults to 1, only for edit mode) */
   initialStep?: number;
+  /** Moderator change request; its steps are highlighted and comments shown (edit mode) */
+  changeRequest?: AdChangeRequest | null;
 }
 
 /**
@@ -189,10 +193,23 @@ export function HousingDialog({
   trigger,
   onSuccess,
   initialStep,
+  changeRequest,
 }: HousingDialogProps = {}) {
   const contentScrollRef = useRef<HTMLDivElement>(null);
   const isEditMode = mode === 'edit';
 
+  // Moderator comments grouped by the wizard step they refer to
+  const commentsByStep = useMemo(() => {
+    const byStep = new Map<number, AdChangeRequest['comments']>();
+    if (!isEditMode || !changeRequest) return byStep;
+    for (const c of changeRequest.comments) {
+      const step = HOUSING_REVIEW_FIELD_STEPS[c.field as AdReviewField] ?? TOTAL_STEPS;
+      byStep.set(step, [...(byStep.get(step) ?? []), c]);
+    }
+    return byStep;
+  }, [isEditMode, changeRequest]);
+  const getStepComments = (step: number) => commentsByStep.get(step) ?? [];
+
   // Server action state
   const [isPending, startTransition] = useTransition();
   const [submitError, setSubmitError] = useState<string | null>(null);
@@ -794,9 +811,15 @@ export function HousingDialog({
                 const idx = i + 1;
                 const isCurrent = idx === currentStep;
                 const isClickable = !isCurrent && canNavigateTo(idx);
-                const indicatorClass = isCurrent
-                  ? 'bg-primary text-primary-foreground'
-                  : 'bg-neutral-200 text-muted-foreground';
+                const isFlagged = commentsByStep.has(idx);
+                const indicatorClass = cn(
+                  isCurrent
+                    ? 'bg-primary text-primary-foreground'
+                    : isFlagged
+                      ? 'bg-orange-100 text-orange-700'
+                      : 'bg-neutral-200 text-muted-foreground',
+                  isFlagged && 'ring-2 ring-orange-400'
+                );
                 const isLast = idx === TOTAL_STEPS;
                 return (
                   <div key={idx} className="relative flex items-center">
@@ -862,6 +885,24 @@ export function HousingDialog({
                 currentStep === 8 && 'border-2 border-neutral-200'
               )}
             >
+              {/* Moderator comments on the current step */}
+              {getStepComments(currentStep).length > 0 && (
+                <div className="mx-2 mb-4 p-3 bg-orange-50 border border-orange-200 rounded-2xl text-sm text-orange-800">
+                  <p className="flex items-center gap-2 font-medium mb-1">
+                    <MessageSquareWarning className="h-4 w-4" />
+                    Requested by a moderator
+                  </p>
+                  <ul className="space-y-1">
+                    {getStepComments(currentStep).map((c) => (
+                      <li key={c.field}>
+                        <span className="font-medium">{getAdReviewFieldLabel(c.field)}:</span>{' '}
+                        {c.comment}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
               {/* Render steps dynamically based on configuration */}
               {HOUSING_STEP_CONFIG.map((stepConfig) => {
                 const { id, component: StepComponent, lazyMount } = stepConfig;
@@ -1041,12 +1082,13 @@ export function HousingDialog({
         title="Submit changes for review?"
         description={
           <>
-            Your ad will need to be reviewed and approved by our moderators before it goes live
-            again.
+            Changes to key details such as the title, description, price, location or photos need to
+            be approved by our moderators before they go live. Smaller updates to a live ad are
+            published right away.
             <br />
             <br />
             <span className="text-muted-foreground text-xs">
-              This typically takes 24-48 hours. Your ad will be set to &quot;Pending&quot; status
+              Reviews typically take 24-48 hours. Your ad will be set to &quot;Pending&quot; status
               until approved.
             </span>
           </>
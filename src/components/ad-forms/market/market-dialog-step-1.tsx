@@ -0,0 +1,167 @@
+'use client';
+
+import { FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { SelectableList } from '@/components/ui/selectable-list';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  MARKETPLACE_CATEGORY_OPTIONS,
+  MARKETPLACE_CONDITION_OPTIONS,
+} from '@/constants/marketplace-config';
+import {
+  MARKETPLACE_DESCRIPTION_MAX_LENGTH,
+  MARKETPLACE_TITLE_MAX_LENGTH,
+  type MarketplaceFormValues,
+} from '@/lib/schemas/ads/marketplace-schema';
+import React from 'react';
+import type { Control } from 'react-hook-form';
+import { FaBoxOpen } from 'react-icons/fa6';
+
+type Props = {
+  control: Control<MarketplaceFormValues>;
+  revalidateField: (fieldName: keyof MarketplaceFormValues) => Promise<void>;
+};
+
+/**
+ * Step 1: Item details (title, description, condition, category)
+ */
+function MarketDialogStep1Component({ control, revalidateField }: Props) {
+  return (
+    <div className="step-container">
+      {/* Header */}
+      <div className="step-header-wrapper">
+        <div className="step-header-content">
+          <div className="step-header-icon-wrapper">
+            <FaBoxOpen className="step-header-icon" />
+          </div>
+          <div>
+            <h3 className="step-header-title">Item Details</h3>
+            <p className="step-header-description">Tell buyers what you are selling</p>
+          </div>
+        </div>
+      </div>
+
+      <div className="form-content-card space-y-5">
+        <FormField
+          control={control}
+          name="title"
+          render={({ field, fieldState }) => (
+            <FormItem>
+              <FormLabel>Title</FormLabel>
+              <FormControl>
+                <Input
+                  {...field}
+                  value={field.value ?? ''}
+                  onChange={(e) => {
+                    field.onChange(e.target.value);
+                    void revalidateField('title');
+                  }}
+                  placeholder="e.g., IKEA desk, white, 120x60"
+                  maxLength={MARKETPLACE_TITLE_MAX_LENGTH}
+                  aria-invalid={!!fieldState.error}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={control}
+          name="description"
+          render={({ field, fieldState }) => (
+            <FormItem>
+              <FormLabel>Description</FormLabel>
+              <FormControl>
+                <Textarea
+                  {...field}
+                  value={field.value ?? ''}
+                  onChange={(e) => {
+                    field.onChange(e.target.value);
+                    void revalidateField('description');
+                  }}
+                  placeholder="Size, brand, defects, pick-up or delivery options..."
+                  className="min-h-[120px] resize-none"
+                  maxLength={MARKETPLACE_DESCRIPTION_MAX_LENGTH}
+                  aria-invalid={!!fieldState.error}
+                />
+              </FormControl>
+              <p className="text-xs text-muted-foreground text-right">
+                {field.value?.length || 0}/{MARKETPLACE_DESCRIPTION_MAX_LENGTH}
+              </p>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      </div>
+
+      <div className="form-content-card">
+        <FormField
+          control={control}
+          name="condition"
+          render={({ field, fieldState }) => (
+            <FormItem>
+              <FormLabel>Condition</FormLabel>
+              <SelectableList
+                className="mt-2"
+                ariaLabel="Condition"
+                value={field.value}
+                onChange={(v) => {
+                  field.onChange(v);
+                  void revalidateField('condition');
+                }}
+                options={MARKETPLACE_CONDITION_OPTIONS.map((o) => ({
+                  value: o.value,
+                  label: (
+                    <span className="flex flex-col">
+                      <span>{o.label}</span>
+                      <span className="text-xs text-muted-foreground">{o.description}</span>
+                    </span>
+                  ),
+                }))}
+                error={!!fieldState.error}
+              />
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      </div>
+
+      <div className="form-content-card">
+        <FormField
+          control={control}
+          name="category"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>
+                Category <span className="text-xs font-light text-neutral-400">Optional</span>
+              </FormLabel>
+              <SelectableList
+                className="mt-2"
+                ariaLabel="Category"
+                value={field.value ?? null}
+                onChange={(v) => {
+                  // Selecting the active category again clears it
+                  field.onChange(v === field.value ? null : v);
+                  void revalidateField('category');
+                }}
+                options={MARKETPLACE_CATEGORY_OPTIONS.map((o) => ({
+                  value: o.value,
+                  label: o.label,
+                }))}
+              />
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Memoized version of Step 1 component to prevent unnecessary re-renders
+ */
+const MarketDialogStep1 = React.memo(MarketDialogStep1Component);
+
+export default MarketDialogStep1;
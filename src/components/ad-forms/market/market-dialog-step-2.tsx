@@ -0,0 +1,107 @@
+'use client';
+
+import { Checkbox } from '@/components/ui/checkbox';
+import { FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import type { MarketplaceFormValues } from '@/lib/schemas/ads/marketplace-schema';
+import React from 'react';
+import type { Control, UseFormReturn } from 'react-hook-form';
+import { useWatch } from 'react-hook-form';
+import { FaEuroSign } from 'react-icons/fa';
+
+type Props = {
+  control: Control<MarketplaceFormValues>;
+  revalidateField: (fieldName: keyof MarketplaceFormValues) => Promise<void>;
+  form: UseFormReturn<MarketplaceFormValues>;
+};
+
+/**
+ * Step 2: Price
+ *
+ * Price is required unless the seller marks it negotiable, in which case
+ * the amount is cleared and stored as 0.00.
+ */
+function MarketDialogStep2Component({ control, revalidateField, form }: Props) {
+  const priceNegotiable = useWatch({ control, name: 'priceNegotiable' });
+
+  return (
+    <div className="step-container">
+      {/* Header */}
+      <div className="step-header-wrapper">
+        <div className="step-header-content">
+          <div className="step-header-icon-wrapper">
+            <FaEuroSign className="step-header-icon" />
+          </div>
+          <div>
+            <h3 className="step-header-title">Price</h3>
+            <p className="step-header-description">Set a fair price or let buyers make an offer</p>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex flex-col form-content-card">
+        <FormField
+          control={control}
+          name="price"
+          render={({ field, fieldState }) => (
+            <FormItem>
+              <FormLabel>Price</FormLabel>
+              <FormControl>
+                <div className="relative">
+                  <span className="absolute left-3 top-1/2 -translate-y-1/2 text-sm">€</span>
+                  <Input
+                    className="pl-8"
+                    type="number"
+                    inputMode="decimal"
+                    step="0.01"
+                    disabled={priceNegotiable}
+                    {...field}
+                    value={field.value ?? ''}
+                    onChange={(e) => {
+                      field.onChange(e.target.value === '' ? null : Number(e.target.value));
+                      void revalidateField('price');
+                    }}
+                    placeholder={priceNegotiable ? 'Negotiable' : 'Enter amount'}
+                    aria-invalid={!!fieldState.error}
+                  />
+                </div>
+              </FormControl>
+
+              <FormField
+                control={control}
+                name="priceNegotiable"
+                render={({ field: negotiableField }) => (
+                  <FormItem className="flex flex-row items-center justify-end gap-2 mt-2">
+                    <FormControl>
+                      <Checkbox
+                        checked={!!negotiableField.value}
+                        onCheckedChange={(v) => {
+                          negotiableField.onChange(Boolean(v));
+                          if (v) {
+                            form.setValue('price', null, { shouldDirty: true });
+                            form.clearErrors('price');
+                          } else {
+                            void revalidateField('price');
+                          }
+                        }}
+                      />
+                    </FormControl>
+                    <div className="text-sm">Negotiable</div>
+                  </FormItem>
+                )}
+              />
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Memoized version of Step 2 component to prevent unnecessary re-renders
+ */
+const MarketDialogStep2 = React.memo(MarketDialogStep2Component);
+
+export default MarketDialogStep2;
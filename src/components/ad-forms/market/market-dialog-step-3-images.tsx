@@ -0,0 +1,47 @@
+'use client';
+
+import {
+  HousingDialogStep7Images,
+  type ImageStepFormValues,
+} from '@/components/ad-forms/housing/housing-dialog-step-7-images';
+import {
+  deleteMarketplaceImageAction,
+  uploadMarketplaceImageAction,
+} from '@/lib/actions/marketplace-ad-images';
+import type { MarketplaceFormValues } from '@/lib/schemas/ads/marketplace-schema';
+import React from 'react';
+import type { Control, UseFormReturn } from 'react-hook-form';
+
+type Props = {
+  form: UseFormReturn<MarketplaceFormValues>;
+  control: Control<MarketplaceFormValues>;
+  revalidateField: (fieldName: keyof MarketplaceFormValues) => Promise<void>;
+};
+
+function uploadMarketplaceImage(file: File) {
+  const fd = new FormData();
+  fd.set('marketplaceImage', file);
+  return uploadMarketplaceImageAction(fd);
+}
+
+/**
+ * Step 3: Images
+ * Reuses the housing image grid with marketplace upload/delete actions.
+ */
+function MarketDialogStep3ImagesComponent({ form, control, revalidateField }: Props) {
+  return (
+    <HousingDialogStep7Images
+      // The image step only touches images/coverImageStorageKey, which share the same shape
+      form={form as unknown as UseFormReturn<ImageStepFormValues>}
+      control={control as unknown as Control<ImageStepFormValues>}
+      revalidateField={revalidateField}
+      imageType="ad-marketplace"
+      uploadImage={uploadMarketplaceImage}
+      deleteImage={deleteMarketplaceImageAction}
+      title="Item Photos"
+      description="Clear photos from a few angles help your item sell faster"
+    />
+  );
+}
+
+export const MarketDialogStep3Images = React.memo(MarketDialogStep3ImagesComponent);
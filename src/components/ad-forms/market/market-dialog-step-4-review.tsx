@@ -0,0 +1,117 @@
+'use client';
+
+import { Separator } from '@/components/ui/separator';
+import {
+  getMarketplaceCategoryLabel,
+  getMarketplaceConditionLabel,
+} from '@/constants/marketplace-config';
+import { resolveImageUrl } from '@/lib/image_system/image-utils-client';
+import type { MarketplaceFormValues } from '@/lib/schemas/ads/marketplace-schema';
+import Image from 'next/image';
+import React from 'react';
+import type { UseFormReturn } from 'react-hook-form';
+import { useWatch } from 'react-hook-form';
+import { FaEye } from 'react-icons/fa6';
+
+type Props = {
+  form: UseFormReturn<MarketplaceFormValues>;
+};
+
+function ReviewRow({ label, value }: { label: string; value: React.ReactNode }) {
+  return (
+    <div className="flex flex-col gap-1">
+      <span className="text-[9px] sm:text-[10px] text-neutral-500 font-medium uppercase tracking-wide">
+        {label}
+      </span>
+      <span className="text-xs sm:text-sm font-semibold text-neutral-900 break-words">{value}</span>
+    </div>
+  );
+}
+
+/**
+ * Step 4: Review & Submit
+ * Read-only summary of the marketplace ad before submission
+ */
+function MarketDialogStep4ReviewComponent({ form }: Props) {
+  const values = useWatch({ control: form.control }) as Partial<MarketplaceFormValues>;
+  const images = values.images ?? [];
+
+  const priceLabel = values.priceNegotiable
+    ? 'Negotiable'
+    : values.price != null
+      ? `€${values.price}`
+      : '—';
+
+  return (
+    <div className="step-container">
+      {/* Header */}
+      <div className="step-header-wrapper">
+        <div className="step-header-content">
+          <div className="step-header-icon-wrapper">
+            <FaEye className="step-header-icon" />
+          </div>
+          <div>
+            <h3 className="step-header-title">Review & Submit</h3>
+            <p className="step-header-description">
+              Please review all details before publishing your ad
+            </p>
+          </div>
+        </div>
+      </div>
+
+      <div className="border pb-3 border-neutral-200 rounded-xl bg-white/50 overflow-hidden">
+        <h4 className="px-5 py-2 font-semibold text-xs sm:text-sm text-neutral-700">Item</h4>
+        <Separator className="mb-2" />
+        <div className="grid grid-cols-2 gap-3 px-4">
+          <div className="col-span-2">
+            <ReviewRow label="Title" value={values.title || '—'} />
+          </div>
+          <ReviewRow
+            label="Condition"
+            value={
+              values.condition
+                ? getMarketplaceConditionLabel(values.condition)
+                : '—'
+            }
+          />
+          <ReviewRow label="Category" value={getMarketplaceCategoryLabel(values.category) ?? '—'} />
+          <ReviewRow label="Price" value={priceLabel} />
+          <div className="col-span-2">
+            <ReviewRow
+              label="Description"
+              value={
+                <span className="font-normal whitespace-pre-line">{values.description || '—'}</span>
+              }
+            />
+          </div>
+        </div>
+      </div>
+
+      <div className="border pb-3 border-neutral-200 rounded-xl bg-white/50 overflow-hidden">
+        <h4 className="px-5 py-2 font-semibold text-xs sm:text-sm text-neutral-700">
+          {images.length} photo{images.length !== 1 ? 's' : ''}
+        </h4>
+        <Separator className="mb-2" />
+        <div className="grid grid-cols-4 gap-2 px-4">
+          {images.map((key) => {
+            const url = resolveImageUrl(key, { width: 200, crop: 'fill' });
+            return url ? (
+              <Image
+                key={key}
+                src={url}
+                alt=""
+                width={200}
+                height={200}
+                className="aspect-square w-full rounded-lg object-cover"
+              />
+            ) : null;
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+const MarketDialogStep4Review = React.memo(MarketDialogStep4ReviewComponent);
+
+export default MarketDialogStep4Review;
@@ -0,0 +1,191 @@
+'use client';
+
+import { FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { SelectableList } from '@/components/ui/selectable-list';
+import { TagsInput } from '@/components/ui/tags-input';
+import { Textarea } from '@/components/ui/textarea';
+import { SERVICE_CATEGORY_OPTIONS } from '@/constants/services-config';
+import {
+  SERVICE_BUSINESS_NAME_MAX_LENGTH,
+  SERVICE_DESCRIPTION_MAX_LENGTH,
+  SERVICE_MAX_TAGS,
+  SERVICE_TAG_MAX_LENGTH,
+  SERVICE_TITLE_MAX_LENGTH,
+  type ServicesFormValues,
+} from '@/lib/schemas/ads/services-schema';
+import React from 'react';
+import type { Control } from 'react-hook-form';
+import { FaBriefcase } from 'react-icons/fa6';
+
+type Props = {
+  control: Control<ServicesFormValues>;
+  revalidateField: (fieldName: keyof ServicesFormValues) => Promise<void>;
+};
+
+/**
+ * Step 1: About the service (title, description, category, tags, business name)
+ */
+function ServicesDialogStep1Component({ control, revalidateField }: Props) {
+  return (
+    <div className="step-container">
+      {/* Header */}
+      <div className="step-header-wrapper">
+        <div className="step-header-content">
+          <div className="step-header-icon-wrapper">
+            <FaBriefcase className="step-header-icon" />
+          </div>
+          <div>
+            <h3 className="step-header-title">About the Service</h3>
+            <p className="step-header-description">Tell people what you offer</p>
+          </div>
+        </div>
+      </div>
+
+      <div className="form-content-card space-y-5">
+        <FormField
+          control={control}
+          name="title"
+          render={({ field, fieldState }) => (
+            <FormItem>
+              <FormLabel>Title</FormLabel>
+              <FormControl>
+                <Input
+                  {...field}
+                  value={field.value ?? ''}
+                  onChange={(e) => {
+                    field.onChange(e.target.value);
+                    void revalidateField('title');
+                  }}
+                  placeholder="e.g., Italian–Persian translation for documents"
+                  maxLength={SERVICE_TITLE_MAX_LENGTH}
+                  aria-invalid={!!fieldState.error}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={control}
+          name="description"
+          render={({ field, fieldState }) => (
+            <FormItem>
+              <FormLabel>Description</FormLabel>
+              <FormControl>
+                <Textarea
+                  {...field}
+                  value={field.value ?? ''}
+                  onChange={(e) => {
+                    field.onChange(e.target.value);
+                    void revalidateField('description');
+                  }}
+                  placeholder="Experience, what is included, languages you speak..."
+                  className="min-h-[120px] resize-none"
+                  maxLength={SERVICE_DESCRIPTION_MAX_LENGTH}
+                  aria-invalid={!!fieldState.error}
+                />
+              </FormControl>
+              <p className="text-xs text-muted-foreground text-right">
+                {field.value?.length || 0}/{SERVICE_DESCRIPTION_MAX_LENGTH}
+              </p>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={control}
+          name="businessName"
+          render={({ field, fieldState }) => (
+            <FormItem>
+              <FormLabel>
+                Business name <span className="text-xs font-light text-neutral-400">Optional</span>
+              </FormLabel>
+              <FormControl>
+                <Input
+                  {...field}
+                  value={field.value ?? ''}
+                  onChange={(e) => {
+                    field.onChange(e.target.value || null);
+                    void revalidateField('businessName');
+                  }}
+                  placeholder="If you work under a business name"
+                  maxLength={SERVICE_BUSINESS_NAME_MAX_LENGTH}
+                  aria-invalid={!!fieldState.error}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      </div>
+
+      <div className="form-content-card">
+        <FormField
+          control={control}
+          name="serviceCategory"
+          render={({ field, fieldState }) => (
+            <FormItem>
+              <FormLabel>Category</FormLabel>
+              <SelectableList
+                className="mt-2"
+                ariaLabel="Category"
+                value={field.value}
+                onChange={(v) => {
+                  field.onChange(v);
+                  void revalidateField('serviceCategory');
+                }}
+                options={SERVICE_CATEGORY_OPTIONS.map((o) => ({
+                  value: o.value,
+                  label: o.label,
+                }))}
+                error={!!fieldState.error}
+              />
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      </div>
+
+      <div className="form-content-card">
+        <FormField
+          control={control}
+          name="tags"
+          render={({ field, fieldState }) => (
+            <FormItem>
+              <FormLabel>
+                Tags <span className="text-xs font-light text-neutral-400">Optional</span>
+              </FormLabel>
+              <TagsInput
+                ariaLabel="Tags"
+                value={field.value ?? []}
+                onChange={(next) => {
+                  field.onChange(next);
+                  void revalidateField('tags');
+                }}
+                placeholder="e.g., math, high school — press Enter to add"
+                maxTags={SERVICE_MAX_TAGS}
+                maxLength={SERVICE_TAG_MAX_LENGTH}
+                normalize={(tag) => tag.toLowerCase()}
+                error={!!fieldState.error}
+              />
+              <p className="text-xs text-muted-foreground">
+                Tags help people find you in search ({field.value?.length || 0}/{SERVICE_MAX_TAGS})
+              </p>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Memoized version of Step 1 component to prevent unnecessary re-renders
+ */
+const ServicesDialogStep1 = React.memo(ServicesDialogStep1Component);
+
+export default ServicesDialogStep1;
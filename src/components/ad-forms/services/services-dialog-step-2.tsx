@@ -0,0 +1,214 @@
+'use client';
+
+import { Chip } from '@/components/ui/chip';
+import { FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { SelectableList } from '@/components/ui/selectable-list';
+import { SERVICE_RATE_BASIS_OPTIONS, WEEKDAY_OPTIONS } from '@/constants/services-config';
+import type { Weekday } from '@/generated/enums';
+import {
+  SERVICE_AREA_MAX_LENGTH,
+  type ServicesFormValues,
+} from '@/lib/schemas/ads/services-schema';
+import React from 'react';
+import type { Control, UseFormReturn } from 'react-hook-form';
+import { useWatch } from 'react-hook-form';
+import { FaRegCalendarCheck } from 'react-icons/fa6';
+
+type Props = {
+  control: Control<ServicesFormValues>;
+  revalidateField: (fieldName: keyof ServicesFormValues) => Promise<void>;
+  form: UseFormReturn<ServicesFormValues>;
+};
+
+const WEEKDAYS = WEEKDAY_OPTIONS.map((o) => o.value);
+const WORKING_DAYS = WEEKDAYS.slice(0, 5);
+
+/**
+ * Step 2: Rate & availability
+ *
+ * The rate amount is optional; leaving it empty shows "Rate on request".
+ * Weekdays are kept in Monday-first order regardless of click order.
+ */
+function ServicesDialogStep2Component({ control, revalidateField, form }: Props) {
+  const rateBasis = useWatch({ control, name: 'rateBasis' });
+  const rateSuffix = SERVICE_RATE_BASIS_OPTIONS.find((o) => o.value === rateBasis)?.suffix;
+
+  const setDays = (days: Weekday[]) => {
+    form.setValue(
+      'availabilityDays',
+      WEEKDAYS.filter((d) => days.includes(d)),
+      { shouldDirty: true }
+    );
+    void revalidateField('availabilityDays');
+  };
+
+  const toggleDay = (day: Weekday) => {
+    const current = form.getValues('availabilityDays') ?? [];
+    setDays(current.includes(day) ? current.filter((d) => d !== day) : [...current, day]);
+  };
+
+  return (
+    <div className="step-container">
+      {/* Header */}
+      <div className="step-header-wrapper">
+        <div className="step-header-content">
+          <div className="step-header-icon-wrapper">
+            <FaRegCalendarCheck className="step-header-icon" />
+          </div>
+          <div>
+            <h3 className="step-header-title">Rate & Availability</h3>
+            <p className="step-header-description">How you charge and when you can work</p>
+          </div>
+        </div>
+      </div>
+
+      <div className="form-content-card space-y-5">
+        <FormField
+          control={control}
+          name="rateBasis"
+          render={({ field, fieldState }) => (
+            <FormItem>
+              <FormLabel>Rate basis</FormLabel>
+              <SelectableList
+                className="mt-2"
+                ariaLabel="Rate basis"
+                value={field.value}
+                onChange={(v) => {
+                  field.onChange(v);
+                  void revalidateField('rateBasis');
+                }}
+                options={SERVICE_RATE_BASIS_OPTIONS.map((o) => ({
+                  value: o.value,
+                  label: (
+                    <span className="flex flex-col">
+                      <span>{o.label}</span>
+                      <span className="text-xs text-muted-foreground">{o.description}</span>
+                    </span>
+                  ),
+                }))}
+                error={!!fieldState.error}
+              />
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={control}
+          name="rateAmount"
+          render={({ field, fieldState }) => (
+            <FormItem>
+              <FormLabel>
+                Rate <span className="text-xs font-light text-neutral-400">Optional</span>
+              </FormLabel>
+              <FormControl>
+                <div className="relative">
+                  <span className="absolute left-3 top-1/2 -translate-y-1/2 text-sm">€</span>
+                  <Input
+                    className="pl-8 pr-14"
+                    type="number"
+                    inputMode="decimal"
+                    step="0.01"
+                    {...field}
+                    value={field.value ?? ''}
+                    onChange={(e) => {
+                      field.onChange(e.target.value === '' ? null : Number(e.target.value));
+                      void revalidateField('rateAmount');
+                    }}
+                    placeholder="Leave empty for rate on request"
+                    aria-invalid={!!fieldState.error}
+                  />
+                  {rateSuffix && (
+                    <span className="absolute right-3 top-1/2 -translate-y-1/2 text-sm text-muted-foreground">
+                      {rateSuffix}
+                    </span>
+                  )}
+                </div>
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      </div>
+
+      <div className="form-content-card space-y-5">
+        <FormField
+          control={control}
+          name="availabilityDays"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Available on</FormLabel>
+              <div className="flex flex-wrap gap-1.5 mt-1" role="group" aria-label="Available on">
+                {WEEKDAY_OPTIONS.map((o) => (
+                  <Chip
+                    key={o.value}
+                    size="sm"
+                    rounded="full"
+                    selectable
+                    tone="primary"
+                    selected={(field.value ?? []).includes(o.value)}
+                    onClick={() => toggleDay(o.value)}
+                    aria-label={o.label}
+                  >
+                    {o.short}
+                  </Chip>
+                ))}
+              </div>
+              <div className="flex gap-3 text-xs">
+                <button
+                  type="button"
+                  className="text-primary hover:underline"
+                  onClick={() => setDays(WORKING_DAYS)}
+                >
+                  Weekdays
+                </button>
+                <button
+                  type="button"
+                  className="text-primary hover:underline"
+                  onClick={() => setDays(WEEKDAYS)}
+                >
+                  Every day
+                </button>
+              </div>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={control}
+          name="serviceArea"
+          render={({ field, fieldState }) => (
+            <FormItem>
+              <FormLabel>
+                Service area <span className="text-xs font-light text-neutral-400">Optional</span>
+              </FormLabel>
+              <FormControl>
+                <Input
+                  {...field}
+                  value={field.value ?? ''}
+                  onChange={(e) => {
+                    field.onChange(e.target.value || null);
+                    void revalidateField('serviceArea');
+                  }}
+                  placeholder="e.g., Milan and hinterland, or online"
+                  maxLength={SERVICE_AREA_MAX_LENGTH}
+                  aria-invalid={!!fieldState.error}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Memoized version of Step 2 component to prevent unnecessary re-renders
+ */
+const ServicesDialogStep2 = React.memo(ServicesDialogStep2Component);
+
+export default ServicesDialogStep2;
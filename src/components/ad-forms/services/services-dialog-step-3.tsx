@@ -0,0 +1,151 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import {
+  SERVICE_MAX_PORTFOLIO_LINKS,
+  SERVICE_PORTFOLIO_LINK_MAX_LENGTH,
+  portfolioLinkSchema,
+  type ServicesFormValues,
+} from '@/lib/schemas/ads/services-schema';
+import { X } from 'lucide-react';
+import React, { useState } from 'react';
+import type { Control } from 'react-hook-form';
+import { FaLink } from 'react-icons/fa6';
+
+type Props = {
+  control: Control<ServicesFormValues>;
+  revalidateField: (fieldName: keyof ServicesFormValues) => Promise<void>;
+};
+
+/**
+ * Step 3: Portfolio links
+ *
+ * Links are checked one by one before they are added, so the list only
+ * ever holds valid http(s) URLs. Commas are valid in URLs, which is why
+ * this step does not reuse TagsInput.
+ */
+function ServicesDialogStep3Component({ control, revalidateField }: Props) {
+  const [draft, setDraft] = useState('');
+  const [draftError, setDraftError] = useState<string | null>(null);
+
+  return (
+    <div className="step-container">
+      {/* Header */}
+      <div className="step-header-wrapper">
+        <div className="step-header-content">
+          <div className="step-header-icon-wrapper">
+            <FaLink className="step-header-icon" />
+          </div>
+          <div>
+            <h3 className="step-header-title">Portfolio</h3>
+            <p className="step-header-description">
+              Link to previous work, reviews or your social pages
+            </p>
+          </div>
+        </div>
+      </div>
+
+      <div className="form-content-card">
+        <FormField
+          control={control}
+          name="portfolioLinks"
+          render={({ field }) => {
+            const links = field.value ?? [];
+            const isFull = links.length >= SERVICE_MAX_PORTFOLIO_LINKS;
+
+            const addLink = () => {
+              const parsed = portfolioLinkSchema.safeParse(draft);
+              if (!parsed.success) {
+                setDraftError(parsed.error.issues[0]?.message ?? 'Invalid link');
+                return;
+              }
+              const key = parsed.data.replace(/\/+$/, '').toLowerCase();
+              if (!links.some((l) => l.replace(/\/+$/, '').toLowerCase() === key)) {
+                field.onChange([...links, parsed.data]);
+                void revalidateField('portfolioLinks');
+              }
+              setDraft('');
+              setDraftError(null);
+            };
+
+            return (
+              <FormItem>
+                <FormLabel>
+                  Links <span className="text-xs font-light text-neutral-400">Optional</span>
+                </FormLabel>
+                <div className="flex gap-2">
+                  <Input
+                    type="url"
+                    inputMode="url"
+                    value={draft}
+                    onChange={(e) => {
+                      setDraft(e.target.value);
+                      if (draftError) setDraftError(null);
+                    }}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') {
+                        e.preventDefault();
+                        addLink();
+                      }
+                    }}
+                    placeholder="https://"
+                    maxLength={SERVICE_PORTFOLIO_LINK_MAX_LENGTH}
+                    disabled={isFull}
+                    aria-label="Portfolio link"
+                    aria-invalid={!!draftError}
+                  />
+                  <Button
+                    type="button"
+                    variant="secondary"
+                    onClick={addLink}
+                    disabled={isFull || draft.trim() === ''}
+                  >
+                    Add
+                  </Button>
+                </div>
+                {draftError && <p className="text-sm text-destructive">{draftError}</p>}
+
+                {links.length > 0 && (
+                  <ul className="space-y-1.5 mt-2">
+                    {links.map((link, index) => (
+                      <li
+                        key={link}
+                        className="flex items-center justify-between gap-2 rounded-xl border bg-card px-3 py-2"
+                      >
+                        <span className="text-sm break-all">{link}</span>
+                        <button
+                          type="button"
+                          className="text-muted-foreground hover:text-foreground"
+                          onClick={() => {
+                            field.onChange(links.filter((_, i) => i !== index));
+                            void revalidateField('portfolioLinks');
+                          }}
+                          aria-label={`Remove ${link}`}
+                        >
+                          <X className="size-4" />
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                <p className="text-xs text-muted-foreground">
+                  {links.length}/{SERVICE_MAX_PORTFOLIO_LINKS} links
+                </p>
+                <FormMessage />
+              </FormItem>
+            );
+          }}
+        />
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Memoized version of Step 3 component to prevent unnecessary re-renders
+ */
+const ServicesDialogStep3 = React.memo(ServicesDialogStep3Component);
+
+export default ServicesDialogStep3;
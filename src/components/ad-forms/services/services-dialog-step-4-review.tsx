@@ -0,0 +1,121 @@
+'use client';
+
+import { Separator } from '@/components/ui/separator';
+import {
+  formatServiceRate,
+  formatWeekdays,
+  getServiceCategoryLabel,
+  getServiceRateBasisLabel,
+} from '@/constants/services-config';
+import type { Weekday } from '@/generated/enums';
+import type { ServicesFormValues } from '@/lib/schemas/ads/services-schema';
+import React from 'react';
+import type { UseFormReturn } from 'react-hook-form';
+import { useWatch } from 'react-hook-form';
+import { FaEye } from 'react-icons/fa6';
+
+type Props = {
+  form: UseFormReturn<ServicesFormValues>;
+};
+
+function ReviewRow({ label, value }: { label: string; value: React.ReactNode }) {
+  return (
+    <div className="flex flex-col gap-1">
+      <span className="text-[9px] sm:text-[10px] text-neutral-500 font-medium uppercase tracking-wide">
+        {label}
+      </span>
+      <span className="text-xs sm:text-sm font-semibold text-neutral-900 break-words">{value}</span>
+    </div>
+  );
+}
+
+function ReviewSection({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <div className="border pb-3 border-neutral-200 rounded-xl bg-white/50 overflow-hidden">
+      <h4 className="px-5 py-2 font-semibold text-xs sm:text-sm text-neutral-700">{title}</h4>
+      <Separator className="mb-2" />
+      <div className="grid grid-cols-2 gap-3 px-4">{children}</div>
+    </div>
+  );
+}
+
+const listOrDash = (values: string[] | undefined) => (values?.length ? values.join(', ') : '—');
+
+/**
+ * Step 4: Review & Submit
+ * Read-only summary of the services ad before submission
+ */
+function ServicesDialogStep4ReviewComponent({ form }: Props) {
+  const values = useWatch({ control: form.control }) as Partial<ServicesFormValues>;
+  const { rateBasis } = values;
+
+  return (
+    <div className="step-container">
+      {/* Header */}
+      <div className="step-header-wrapper">
+        <div className="step-header-content">
+          <div className="step-header-icon-wrapper">
+            <FaEye className="step-header-icon" />
+          </div>
+          <div>
+            <h3 className="step-header-title">Review & Submit</h3>
+            <p className="step-header-description">
+              Please review all details before publishing your ad
+            </p>
+          </div>
+        </div>
+      </div>
+
+      <ReviewSection title="Service">
+        <div className="col-span-2">
+          <ReviewRow label="Title" value={values.title || '—'} />
+        </div>
+        <div className="col-span-2">
+          <ReviewRow
+            label="Description"
+            value={<span className="whitespace-pre-line font-normal">{values.description}</span>}
+          />
+        </div>
+        <ReviewRow
+          label="Category"
+          value={values.serviceCategory ? getServiceCategoryLabel(values.serviceCategory) : '—'}
+        />
+        <ReviewRow label="Business name" value={values.businessName || '—'} />
+        <div className="col-span-2">
+          <ReviewRow label="Tags" value={listOrDash(values.tags)} />
+        </div>
+      </ReviewSection>
+
+      <ReviewSection title="Rate & availability">
+        <ReviewRow
+          label="Rate"
+          value={rateBasis ? formatServiceRate(values.rateAmount, rateBasis) : '—'}
+        />
+        <ReviewRow label="Basis" value={rateBasis ? getServiceRateBasisLabel(rateBasis) : '—'} />
+        <ReviewRow
+          label="Available on"
+          value={listOrDash(formatWeekdays((values.availabilityDays ?? []) as Weekday[]))}
+        />
+        <ReviewRow label="Service area" value={values.serviceArea || '—'} />
+      </ReviewSection>
+
+      <ReviewSection title="Portfolio">
+        <div className="col-span-2 space-y-1">
+          {values.portfolioLinks?.length ? (
+            values.portfolioLinks.map((link) => (
+              <p key={link} className="text-xs sm:text-sm break-all">
+                {link}
+              </p>
+            ))
+          ) : (
+            <p className="text-xs sm:text-sm text-muted-foreground">No links added</p>
+          )}
+        </div>
+      </ReviewSection>
+    </div>
+  );
+}
+
+const ServicesDialogStep4Review = React.memo(ServicesDialogStep4ReviewComponent);
+
+export default ServicesDialogStep4Review;
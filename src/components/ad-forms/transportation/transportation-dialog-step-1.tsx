@@ -0,0 +1,196 @@
+'use client';
+
+import { FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { SelectableList } from '@/components/ui/selectable-list';
+import { TagsInput } from '@/components/ui/tags-input';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  COUNTRY_LABELS,
+  TRANSPORT_DIRECTION_OPTIONS,
+  getTransportDirectionOption,
+} from '@/constants/transportation-config';
+import {
+  TRANSPORT_CITY_MAX_LENGTH,
+  TRANSPORT_MAX_EXTRA_CITIES,
+  TRANSPORT_NOTES_MAX_LENGTH,
+  type TransportationFormValues,
+} from '@/lib/schemas/ads/transportation-schema';
+import React from 'react';
+import type { Control } from 'react-hook-form';
+import { useWatch } from 'react-hook-form';
+import { FaRoute } from 'react-icons/fa6';
+
+type Props = {
+  control: Control<TransportationFormValues>;
+  revalidateField: (fieldName: keyof TransportationFormValues) => Promise<void>;
+};
+
+type CityField = 'departureCity' | 'arrivalCity';
+type CityListField = 'additionalPickupCities' | 'additionalDeliveryCities';
+
+/**
+ * Step 1: Route (direction, main cities, extra pickup/delivery cities)
+ */
+function TransportationDialogStep1Component({ control, revalidateField }: Props) {
+  const direction = useWatch({ control, name: 'direction' });
+  const directionOption = direction ? getTransportDirectionOption(direction) : undefined;
+  const departureCountry = directionOption
+    ? COUNTRY_LABELS[directionOption.departureCountry]
+    : null;
+  const arrivalCountry = directionOption ? COUNTRY_LABELS[directionOption.arrivalCountry] : null;
+
+  const renderCityField = (name: CityField, label: string, placeholder: string) => (
+    <FormField
+      control={control}
+      name={name}
+      render={({ field, fieldState }) => (
+        <FormItem>
+          <FormLabel>{label}</FormLabel>
+          <FormControl>
+            <Input
+              {...field}
+              value={field.value ?? ''}
+              onChange={(e) => {
+                field.onChange(e.target.value);
+                void revalidateField(name);
+              }}
+              placeholder={placeholder}
+              maxLength={TRANSPORT_CITY_MAX_LENGTH}
+              aria-invalid={!!fieldState.error}
+            />
+          </FormControl>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+
+  const renderCityListField = (name: CityListField, label: string) => (
+    <FormField
+      control={control}
+      name={name}
+      render={({ field, fieldState }) => (
+        <FormItem>
+          <FormLabel>
+            {label} <span className="text-xs font-light text-neutral-400">Optional</span>
+          </FormLabel>
+          <TagsInput
+            ariaLabel={label}
+            value={field.value ?? []}
+            onChange={(next) => {
+              field.onChange(next);
+              void revalidateField(name);
+            }}
+            placeholder="Type a city and press Enter"
+            maxTags={TRANSPORT_MAX_EXTRA_CITIES}
+            maxLength={TRANSPORT_CITY_MAX_LENGTH}
+            error={!!fieldState.error}
+          />
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+
+  return (
+    <div className="step-container">
+      {/* Header */}
+      <div className="step-header-wrapper">
+        <div className="step-header-content">
+          <div className="step-header-icon-wrapper">
+            <FaRoute className="step-header-icon" />
+          </div>
+          <div>
+            <h3 className="step-header-title">Route</h3>
+            <p className="step-header-description">Where are you flying from and to?</p>
+          </div>
+        </div>
+      </div>
+
+      <div className="form-content-card">
+        <FormField
+          control={control}
+          name="direction"
+          render={({ field, fieldState }) => (
+            <FormItem>
+              <FormLabel>Direction</FormLabel>
+              <SelectableList
+                className="mt-2"
+                ariaLabel="Direction"
+                value={field.value}
+                onChange={(v) => {
+                  field.onChange(v);
+                  void revalidateField('direction');
+                }}
+                options={TRANSPORT_DIRECTION_OPTIONS.map((o) => ({
+                  value: o.value,
+                  label: (
+                    <span className="flex flex-col">
+                      <span>{o.label}</span>
+                      <span className="text-xs text-muted-foreground">{o.description}</span>
+                    </span>
+                  ),
+                }))}
+                error={!!fieldState.error}
+              />
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      </div>
+
+      <div className="form-content-card grid grid-cols-1 sm:grid-cols-2 gap-5">
+        {renderCityField(
+          'departureCity',
+          departureCountry ? `Departure city (${departureCountry})` : 'Departure city',
+          direction === 'IRAN_TO_ITALY' ? 'e.g., Tehran' : 'e.g., Milan'
+        )}
+        {renderCityField(
+          'arrivalCity',
+          arrivalCountry ? `Arrival city (${arrivalCountry})` : 'Arrival city',
+          direction === 'IRAN_TO_ITALY' ? 'e.g., Milan' : 'e.g., Tehran'
+        )}
+      </div>
+
+      <div className="form-content-card space-y-5">
+        {renderCityListField('additionalPickupCities', 'Other pickup cities')}
+        {renderCityListField('additionalDeliveryCities', 'Other delivery cities')}
+
+        <FormField
+          control={control}
+          name="routeNotes"
+          render={({ field, fieldState }) => (
+            <FormItem>
+              <FormLabel>
+                Route notes <span className="text-xs font-light text-neutral-400">Optional</span>
+              </FormLabel>
+              <FormControl>
+                <Textarea
+                  {...field}
+                  value={field.value ?? ''}
+                  onChange={(e) => {
+                    field.onChange(e.target.value || null);
+                    void revalidateField('routeNotes');
+                  }}
+                  placeholder="Layovers, where to meet for pickup..."
+                  className="min-h-[80px] resize-none"
+                  maxLength={TRANSPORT_NOTES_MAX_LENGTH}
+                  aria-invalid={!!fieldState.error}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Memoized version of Step 1 component to prevent unnecessary re-renders
+ */
+const TransportationDialogStep1 = React.memo(TransportationDialogStep1Component);
+
+export default TransportationDialogStep1;
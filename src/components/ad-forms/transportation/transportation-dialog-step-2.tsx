@@ -0,0 +1,310 @@
+'use client';
+
+import { Calendar } from '@/components/ui/calendar';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Chip } from '@/components/ui/chip';
+import { FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { TRANSPORT_ITEM_TYPE_OPTIONS } from '@/constants/transportation-config';
+import {
+  TRANSPORT_MAX_DAYS_AHEAD,
+  TRANSPORT_NOTES_MAX_LENGTH,
+  type TransportationFormValues,
+} from '@/lib/schemas/ads/transportation-schema';
+import { cn, formatDate } from '@/lib/utils';
+import React, { useMemo } from 'react';
+import type { Control, UseFormReturn } from 'react-hook-form';
+import { useWatch } from 'react-hook-form';
+import { FaPlaneDeparture } from 'react-icons/fa6';
+
+type Props = {
+  control: Control<TransportationFormValues>;
+  revalidateField: (fieldName: keyof TransportationFormValues) => Promise<void>;
+  form: UseFormReturn<TransportationFormValues>;
+};
+
+type NumberField = 'capacityKg' | 'minAcceptKg' | 'deliveryEtaDays';
+type BooleanField =
+  | 'subjectToInspection'
+  | 'documentsAccepted'
+  | 'offersPostalForwarding'
+  | 'acceptsPostalDropoff';
+type ItemTypeField = 'acceptedItemTypes' | 'restrictedItemTypes';
+type NotesField = 'specialCapacityNotes' | 'postalNotes';
+
+const startOfDay = (d: Date): Date => new Date(d.getFullYear(), d.getMonth(), d.getDate());
+
+/**
+ * Step 2: Flight & capacity
+ *
+ * An item type can only be in one of the accepted/restricted lists, so
+ * picking it in one list removes it from the other.
+ */
+function TransportationDialogStep2Component({ control, revalidateField, form }: Props) {
+  const flightDate = useWatch({ control, name: 'flightDate' });
+  const offersPostalForwarding = useWatch({ control, name: 'offersPostalForwarding' });
+  const acceptsPostalDropoff = useWatch({ control, name: 'acceptsPostalDropoff' });
+
+  const calendarRange = useMemo(() => {
+    const minDate = startOfDay(new Date());
+    const maxDate = new Date(minDate);
+    maxDate.setDate(maxDate.getDate() + TRANSPORT_MAX_DAYS_AHEAD);
+    return { minDate, maxDate };
+  }, []);
+
+  const toggleItemType = (field: ItemTypeField, value: string) => {
+    const other: ItemTypeField =
+      field === 'acceptedItemTypes' ? 'restrictedItemTypes' : 'acceptedItemTypes';
+    const current = form.getValues(field) ?? [];
+    const next = current.includes(value) ? current.filter((v) => v !== value) : [...current, value];
+
+    form.setValue(field, next, { shouldDirty: true });
+    if (!current.includes(value)) {
+      form.setValue(
+        other,
+        (form.getValues(other) ?? []).filter((v) => v !== value),
+        { shouldDirty: true }
+      );
+    }
+    void revalidateField('restrictedItemTypes');
+  };
+
+  const renderNumberField = (name: NumberField, label: string, suffix: string, step = '1') => (
+    <FormField
+      control={control}
+      name={name}
+      render={({ field, fieldState }) => (
+        <FormItem>
+          <FormLabel>
+            {label} <span className="text-xs font-light text-neutral-400">Optional</span>
+          </FormLabel>
+          <FormControl>
+            <div className="relative">
+              <Input
+                className="pr-12"
+                type="number"
+                inputMode={step === '1' ? 'numeric' : 'decimal'}
+                step={step}
+                {...field}
+                value={field.value ?? ''}
+                onChange={(e) => {
+                  field.onChange(e.target.value === '' ? null : Number(e.target.value));
+                  void revalidateField(name);
+                  if (name === 'capacityKg') void revalidateField('minAcceptKg');
+                }}
+                aria-invalid={!!fieldState.error}
+              />
+              <span className="absolute right-3 top-1/2 -translate-y-1/2 text-sm text-muted-foreground">
+                {suffix}
+              </span>
+            </div>
+          </FormControl>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+
+  const renderCheckboxField = (name: BooleanField, label: string, description: string) => (
+    <FormField
+      control={control}
+      name={name}
+      render={({ field }) => (
+        <FormItem className="flex flex-row items-start gap-3">
+          <FormControl>
+            <Checkbox
+              checked={!!field.value}
+              onCheckedChange={(v) => {
+                field.onChange(Boolean(v));
+                void revalidateField(name);
+              }}
+            />
+          </FormControl>
+          <div className="flex flex-col gap-0.5">
+            <FormLabel className="font-medium">{label}</FormLabel>
+            <span className="text-xs text-muted-foreground">{description}</span>
+          </div>
+        </FormItem>
+      )}
+    />
+  );
+
+  const renderItemTypeField = (name: ItemTypeField, label: string) => (
+    <FormField
+      control={control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>
+            {label} <span className="text-xs font-light text-neutral-400">Optional</span>
+          </FormLabel>
+          <div className="flex flex-wrap gap-1.5 mt-1">
+            {TRANSPORT_ITEM_TYPE_OPTIONS.map((o) => (
+              <Chip
+                key={o.value}
+                size="sm"
+                rounded="full"
+                selectable
+                tone={name === 'acceptedItemTypes' ? 'success' : 'destructive'}
+                selected={(field.value ?? []).includes(o.value)}
+                onClick={() => toggleItemType(name, o.value)}
+              >
+                {o.label}
+              </Chip>
+            ))}
+          </div>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+
+  const renderNotesField = (name: NotesField, label: string, placeholder: string) => (
+    <FormField
+      control={control}
+      name={name}
+      render={({ field, fieldState }) => (
+        <FormItem>
+          <FormLabel>
+            {label} <span className="text-xs font-light text-neutral-400">Optional</span>
+          </FormLabel>
+          <FormControl>
+            <Textarea
+              {...field}
+              value={field.value ?? ''}
+              onChange={(e) => {
+                field.onChange(e.target.value || null);
+                void revalidateField(name);
+              }}
+              placeholder={placeholder}
+              className="min-h-[70px] resize-none"
+              maxLength={TRANSPORT_NOTES_MAX_LENGTH}
+              aria-invalid={!!fieldState.error}
+            />
+          </FormControl>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+
+  return (
+    <div className="step-container">
+      {/* Header */}
+      <div className="step-header-wrapper">
+        <div className="step-header-content">
+          <div className="step-header-icon-wrapper">
+            <FaPlaneDeparture className="step-header-icon" />
+          </div>
+          <div>
+            <h3 className="step-header-title">Flight & Capacity</h3>
+            <p className="step-header-description">When you fly and what you can take with you</p>
+          </div>
+        </div>
+      </div>
+
+      {/* Flight date */}
+      <div className="form-content-card">
+        <FormField
+          control={control}
+          name="flightDate"
+          render={({ fieldState }) => (
+            <FormItem>
+              <FormLabel>
+                Flight date
+                {flightDate && (
+                  <span className="ml-2 text-xs font-normal text-muted-foreground">
+                    {formatDate(flightDate)}
+                  </span>
+                )}
+              </FormLabel>
+              <div
+                className={cn(
+                  'border bg-card shadow-xs rounded-4xl md:w-full md:max-w-[320px]',
+                  fieldState.error && 'ring-[3px] ring-destructive/20 border-destructive'
+                )}
+                aria-invalid={!!fieldState.error || undefined}
+              >
+                <Calendar
+                  className="mx-auto"
+                  mode="single"
+                  selected={flightDate ?? undefined}
+                  defaultMonth={flightDate ?? calendarRange.minDate}
+                  fromDate={calendarRange.minDate}
+                  toDate={calendarRange.maxDate}
+                  onSelect={(d?: Date) => {
+                    form.setValue('flightDate', d ?? null, {
+                      shouldDirty: true,
+                      shouldValidate: true,
+                    });
+                  }}
+                  disabled={(date) => {
+                    const day = startOfDay(date);
+                    return day < calendarRange.minDate || day > calendarRange.maxDate;
+                  }}
+                />
+              </div>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      </div>
+
+      {/* Capacity */}
+      <div className="form-content-card grid grid-cols-1 sm:grid-cols-3 gap-5">
+        {renderNumberField('capacityKg', 'Capacity', 'kg', '0.5')}
+        {renderNumberField('minAcceptKg', 'Minimum per sender', 'kg')}
+        {renderNumberField('deliveryEtaDays', 'Delivery within', 'days')}
+      </div>
+
+      {/* Conditions */}
+      <div className="form-content-card space-y-4">
+        {renderCheckboxField(
+          'subjectToInspection',
+          'Packages are inspected',
+          'You open and check every package before accepting it'
+        )}
+        {renderCheckboxField(
+          'documentsAccepted',
+          'Documents accepted',
+          'You carry letters, certificates and other paperwork'
+        )}
+      </div>
+
+      {/* Item types */}
+      <div className="form-content-card space-y-5">
+        {renderItemTypeField('acceptedItemTypes', 'Accepted items')}
+        {renderItemTypeField('restrictedItemTypes', 'Not accepted')}
+        {renderNotesField(
+          'specialCapacityNotes',
+          'Capacity notes',
+          'Size limits, fragile items, suitcase space...'
+        )}
+      </div>
+
+      {/* Postal */}
+      <div className="form-content-card space-y-4">
+        {renderCheckboxField(
+          'offersPostalForwarding',
+          'Postal forwarding',
+          'You post packages on to the recipient after landing'
+        )}
+        {renderCheckboxField(
+          'acceptsPostalDropoff',
+          'Postal drop-off',
+          'Senders can mail packages to you before the flight'
+        )}
+        {(offersPostalForwarding || acceptsPostalDropoff) &&
+          renderNotesField('postalNotes', 'Postal notes', 'Shipping costs, address details...')}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Memoized version of Step 2 component to prevent unnecessary re-renders
+ */
+const TransportationDialogStep2 = React.memo(TransportationDialogStep2Component);
+
+export default TransportationDialogStep2;
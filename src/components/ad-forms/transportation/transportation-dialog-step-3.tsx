@@ -0,0 +1,179 @@
+'use client';
+
+import { FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { SelectableList } from '@/components/ui/selectable-list';
+import { Textarea } from '@/components/ui/textarea';
+import { TRANSPORT_PRICE_MODE_OPTIONS } from '@/constants/transportation-config';
+import { TransportPriceMode } from '@/generated/enums';
+import {
+  TRANSPORT_NOTES_MAX_LENGTH,
+  type TransportationFormValues,
+} from '@/lib/schemas/ads/transportation-schema';
+import React from 'react';
+import type { Control, UseFormReturn } from 'react-hook-form';
+import { useWatch } from 'react-hook-form';
+import { FaEuroSign } from 'react-icons/fa';
+
+type Props = {
+  control: Control<TransportationFormValues>;
+  revalidateField: (fieldName: keyof TransportationFormValues) => Promise<void>;
+  form: UseFormReturn<TransportationFormValues>;
+};
+
+type AmountField = 'pricePerKg' | 'fixedTotalPrice';
+type NotesField = 'priceNotes' | 'termsNotes';
+
+/**
+ * Step 3: Pricing
+ *
+ * Only the amount matching the selected mode is shown; switching modes
+ * clears the other amount so the TransportPriceMode rules always hold.
+ */
+function TransportationDialogStep3Component({ control, revalidateField, form }: Props) {
+  const priceMode = useWatch({ control, name: 'priceMode' });
+
+  const handlePriceModeChange = (mode: TransportPriceMode) => {
+    if (mode !== TransportPriceMode.PER_KG) {
+      form.setValue('pricePerKg', null, { shouldDirty: true });
+      form.clearErrors('pricePerKg');
+    }
+    if (mode !== TransportPriceMode.FIXED_TOTAL) {
+      form.setValue('fixedTotalPrice', null, { shouldDirty: true });
+      form.clearErrors('fixedTotalPrice');
+    }
+  };
+
+  const renderAmountField = (name: AmountField, label: string, suffix?: string) => (
+    <FormField
+      control={control}
+      name={name}
+      render={({ field, fieldState }) => (
+        <FormItem>
+          <FormLabel>{label}</FormLabel>
+          <FormControl>
+            <div className="relative">
+              <span className="absolute left-3 top-1/2 -translate-y-1/2 text-sm">€</span>
+              <Input
+                className="pl-8"
+                type="number"
+                inputMode="decimal"
+                step="0.01"
+                {...field}
+                value={field.value ?? ''}
+                onChange={(e) => {
+                  field.onChange(e.target.value === '' ? null : Number(e.target.value));
+                  void revalidateField(name);
+                }}
+                placeholder="Enter amount"
+                aria-invalid={!!fieldState.error}
+              />
+              {suffix && (
+                <span className="absolute right-3 top-1/2 -translate-y-1/2 text-sm text-muted-foreground">
+                  {suffix}
+                </span>
+              )}
+            </div>
+          </FormControl>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+
+  const renderNotesField = (name: NotesField, label: string, placeholder: string) => (
+    <FormField
+      control={control}
+      name={name}
+      render={({ field, fieldState }) => (
+        <FormItem>
+          <FormLabel>
+            {label} <span className="text-xs font-light text-neutral-400">Optional</span>
+          </FormLabel>
+          <FormControl>
+            <Textarea
+              {...field}
+              value={field.value ?? ''}
+              onChange={(e) => {
+                field.onChange(e.target.value || null);
+                void revalidateField(name);
+              }}
+              placeholder={placeholder}
+              className="min-h-[70px] resize-none"
+              maxLength={TRANSPORT_NOTES_MAX_LENGTH}
+              aria-invalid={!!fieldState.error}
+            />
+          </FormControl>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+
+  return (
+    <div className="step-container">
+      {/* Header */}
+      <div className="step-header-wrapper">
+        <div className="step-header-content">
+          <div className="step-header-icon-wrapper">
+            <FaEuroSign className="step-header-icon" />
+          </div>
+          <div>
+            <h3 className="step-header-title">Pricing</h3>
+            <p className="step-header-description">How senders pay for your luggage space</p>
+          </div>
+        </div>
+      </div>
+
+      <div className="form-content-card space-y-5">
+        <FormField
+          control={control}
+          name="priceMode"
+          render={({ field, fieldState }) => (
+            <FormItem>
+              <FormLabel>Price mode</FormLabel>
+              <SelectableList
+                className="mt-2"
+                ariaLabel="Price mode"
+                value={field.value}
+                onChange={(v) => {
+                  field.onChange(v);
+                  handlePriceModeChange(v as TransportPriceMode);
+                  void revalidateField('priceMode');
+                }}
+                options={TRANSPORT_PRICE_MODE_OPTIONS.map((o) => ({
+                  value: o.value,
+                  label: (
+                    <span className="flex flex-col">
+                      <span>{o.label}</span>
+                      <span className="text-xs text-muted-foreground">{o.description}</span>
+                    </span>
+                  ),
+                }))}
+                error={!!fieldState.error}
+              />
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        {priceMode === TransportPriceMode.PER_KG &&
+          renderAmountField('pricePerKg', 'Price per kg', '/kg')}
+        {priceMode === TransportPriceMode.FIXED_TOTAL &&
+          renderAmountField('fixedTotalPrice', 'Total price')}
+      </div>
+
+      <div className="form-content-card space-y-5">
+        {renderNotesField('priceNotes', 'Price notes', 'Discounts for documents, minimum fee...')}
+        {renderNotesField('termsNotes', 'Terms', 'Payment in advance, liability, cancellations...')}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Memoized version of Step 3 component to prevent unnecessary re-renders
+ */
+const TransportationDialogStep3 = React.memo(TransportationDialogStep3Component);
+
+export default TransportationDialogStep3;
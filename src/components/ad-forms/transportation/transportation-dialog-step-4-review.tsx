@@ -0,0 +1,134 @@
+'use client';
+
+import { Separator } from '@/components/ui/separator';
+import {
+  getTransportDirectionLabel,
+  getTransportItemTypeLabel,
+  getTransportPriceModeLabel,
+} from '@/constants/transportation-config';
+import type { TransportationFormValues } from '@/lib/schemas/ads/transportation-schema';
+import { formatDate } from '@/lib/utils';
+import React from 'react';
+import type { UseFormReturn } from 'react-hook-form';
+import { useWatch } from 'react-hook-form';
+import { FaEye } from 'react-icons/fa6';
+
+type Props = {
+  form: UseFormReturn<TransportationFormValues>;
+};
+
+function ReviewRow({ label, value }: { label: string; value: React.ReactNode }) {
+  return (
+    <div className="flex flex-col gap-1">
+      <span className="text-[9px] sm:text-[10px] text-neutral-500 font-medium uppercase tracking-wide">
+        {label}
+      </span>
+      <span className="text-xs sm:text-sm font-semibold text-neutral-900 break-words">{value}</span>
+    </div>
+  );
+}
+
+function ReviewSection({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <div className="border pb-3 border-neutral-200 rounded-xl bg-white/50 overflow-hidden">
+      <h4 className="px-5 py-2 font-semibold text-xs sm:text-sm text-neutral-700">{title}</h4>
+      <Separator className="mb-2" />
+      <div className="grid grid-cols-2 gap-3 px-4">{children}</div>
+    </div>
+  );
+}
+
+const yesNo = (value: boolean | undefined) => (value ? 'Yes' : 'No');
+
+const listOrDash = (values: string[] | undefined, format: (v: string) => string = (v) => v) =>
+  values?.length ? values.map(format).join(', ') : '—';
+
+/**
+ * Step 4: Review & Submit
+ * Read-only summary of the transportation ad before submission
+ */
+function TransportationDialogStep4ReviewComponent({ form }: Props) {
+  const values = useWatch({ control: form.control }) as Partial<TransportationFormValues>;
+
+  const priceLabel = (() => {
+    if (values.priceMode === 'PER_KG' && values.pricePerKg != null) {
+      return `€${values.pricePerKg}/kg`;
+    }
+    if (values.priceMode === 'FIXED_TOTAL' && values.fixedTotalPrice != null) {
+      return `€${values.fixedTotalPrice}`;
+    }
+    return values.priceMode ? getTransportPriceModeLabel(values.priceMode) : '—';
+  })();
+
+  return (
+    <div className="step-container">
+      {/* Header */}
+      <div className="step-header-wrapper">
+        <div className="step-header-content">
+          <div className="step-header-icon-wrapper">
+            <FaEye className="step-header-icon" />
+          </div>
+          <div>
+            <h3 className="step-header-title">Review & Submit</h3>
+            <p className="step-header-description">
+              Please review all details before publishing your ad
+            </p>
+          </div>
+        </div>
+      </div>
+
+      <ReviewSection title="Route">
+        <div className="col-span-2">
+          <ReviewRow
+            label="Direction"
+            value={values.direction ? getTransportDirectionLabel(values.direction) : '—'}
+          />
+        </div>
+        <ReviewRow label="From" value={values.departureCity || '—'} />
+        <ReviewRow label="To" value={values.arrivalCity || '—'} />
+        <ReviewRow label="Other pickups" value={listOrDash(values.additionalPickupCities)} />
+        <ReviewRow label="Other deliveries" value={listOrDash(values.additionalDeliveryCities)} />
+      </ReviewSection>
+
+      <ReviewSection title="Flight & capacity">
+        <ReviewRow
+          label="Flight date"
+          value={values.flightDate ? formatDate(values.flightDate) : '—'}
+        />
+        <ReviewRow
+          label="Capacity"
+          value={values.capacityKg != null ? `${values.capacityKg} kg` : '—'}
+        />
+        <ReviewRow
+          label="Minimum per sender"
+          value={values.minAcceptKg != null ? `${values.minAcceptKg} kg` : '—'}
+        />
+        <ReviewRow
+          label="Delivery within"
+          value={values.deliveryEtaDays != null ? `${values.deliveryEtaDays} days` : '—'}
+        />
+        <ReviewRow label="Inspection" value={yesNo(values.subjectToInspection)} />
+        <ReviewRow label="Documents" value={yesNo(values.documentsAccepted)} />
+        <ReviewRow
+          label="Accepted"
+          value={listOrDash(values.acceptedItemTypes, getTransportItemTypeLabel)}
+        />
+        <ReviewRow
+          label="Not accepted"
+          value={listOrDash(values.restrictedItemTypes, getTransportItemTypeLabel)}
+        />
+        <ReviewRow label="Postal forwarding" value={yesNo(values.offersPostalForwarding)} />
+        <ReviewRow label="Postal drop-off" value={yesNo(values.acceptsPostalDropoff)} />
+      </ReviewSection>
+
+      <ReviewSection title="Pricing">
+        <ReviewRow label="Price" value={priceLabel} />
+        {values.priceNotes && <ReviewRow label="Price notes" value={values.priceNotes} />}
+      </ReviewSection>
+    </div>
+  );
+}
+
+const TransportationDialogStep4Review = React.memo(TransportationDialogStep4ReviewComponent);
+
+export default TransportationDialogStep4Review;
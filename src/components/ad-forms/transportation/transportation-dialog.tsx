@@ -1,90 +1,568 @@
 'use client';
 
 import { Button } from '@/components/ui/button';
+import { ConfirmDialog } from '@/components/ui/confirm-dialog';
 import {
   Dialog,
   DialogContent,
-  DialogDescription,
   DialogFooter,
   DialogHeader,
   DialogTitle,
   DialogTrigger,
 } from '@/components/ui/dialog';
-import { Input } from '@/components/ui/input';
-import { Label } from '@/components/ui/label';
-import { Textarea } from '@/components/ui/textarea';
+import { Form } from '@/components/ui/form';
 import { AD_CATEGORY_BY_ID } from '@/constants/ad-categories';
+import type { AdWithTransportation } from '@/data/ads/ads';
+import type { TransportDirection, TransportPriceMode } from '@/generated/enums';
 import { useConfirmBeforeClose } from '@/hooks/use-confirm-before-close';
+import { useFieldRevalidation } from '@/hooks/use-field-revalidation';
+import { useStepNavigation } from '@/hooks/use-step-navigation';
+import {
+  createTransportationAdAction,
+  updateTransportationAdAction,
+} from '@/lib/actions/transportation-ad-actions';
+import type { TransportationFormValues } from '@/lib/schemas/ads/transportation-schema';
 import { cn } from '@/lib/utils';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import React, { useEffect, useMemo, useRef, useState, useTransition } from 'react';
+import type { FieldPath } from 'react-hook-form';
+import { useForm, useWatch } from 'react-hook-form';
+import { AdSuccessDialog } from '../../../app/(main)/dashboard/create-ad/_components/ad-success-dialog';
+import {
+  TRANSPORTATION_STEP_CONFIG,
+  TRANSPORTATION_TOTAL_STEPS,
+  getTransportationStepFields,
+  getTransportationStepSchema,
+} from '../../../constants/transportation-step-config';
+
+/**
+ * Mode for the transportation dialog
+ * - 'create': Creating a new transportation ad
+ * - 'edit': Editing an existing transportation ad
+ */
+export type TransportationDialogMode = 'create' | 'edit';
+
+/**
+ * Props for the TransportationDialog component
+ */
+export interface TransportationDialogProps {
+  /** Mode: 'create' for new ads, 'edit' for existing ads */
+  mode?: TransportationDialogMode;
+  /** Initial data for edit mode (required when mode is 'edit') */
+  initialData?: AdWithTransportation;
+  /** Whether the dialog is controlled externally */
+  open?: boolean;
+  /** Callback when dialog open state changes */
+  onOpenChange?: (open: boolean) => void;
+  /** Custom trigger element (only used in create mode when not controlled) */
+  trigger?: React.ReactNode;
+  /** Callback after successful submission */
+  onSuccess?: (adId: number) => void;
+  /** Initial step to display when dialog opens (1-4, defaults to 1, only for edit mode) */
+  initialStep?: number;
+}
+
+const REVIEW_STEP = TRANSPORTATION_TOTAL_STEPS;
+
+/**
+ * Transforms AdWithTransportation data to TransportationFormValues for the form
+ */
+function transformAdToFormValues(ad: AdWithTransportation): Partial<TransportationFormValues> {
+  const { transportation: t } = ad;
+  const toNumber = (value: string | null) => (value != null ? Number(value) : null);
+
+  return {
+    direction: t.direction as TransportDirection,
+    departureCity: t.departureCity,
+    arrivalCity: t.arrivalCity,
+    additionalPickupCities: t.additionalPickupCities ?? [],
+    additionalDeliveryCities: t.additionalDeliveryCities ?? [],
+    routeNotes: t.routeNotes,
+    flightDate: new Date(t.flightDate),
+    capacityKg: toNumber(t.capacityKg),
+    minAcceptKg: t.minAcceptKg,
+    deliveryEtaDays: t.deliveryEtaDays,
+    subjectToInspection: t.subjectToInspection,
+    documentsAccepted: t.documentsAccepted,
+    acceptedItemTypes: t.acceptedItemTypes ?? [],
+    restrictedItemTypes: t.restrictedItemTypes ?? [],
+    specialCapacityNotes: t.specialCapacityNotes,
+    offersPostalForwarding: t.offersPostalForwarding,
+    acceptsPostalDropoff: t.acceptsPostalDropoff,
+    postalNotes: t.postalNotes,
+    priceMode: t.priceMode as TransportPriceMode,
+    pricePerKg: toNumber(t.pricePerKg),
+    fixedTotalPrice: toNumber(t.fixedTotalPrice),
+    priceNotes: t.priceNotes,
+    termsNotes: t.termsNotes,
+  };
+}
+
+/** Default form values for create mode */
+const CREATE_MODE_DEFAULTS: Partial<TransportationFormValues> = {
+  departureCity: '',
+  arrivalCity: '',
+  additionalPickupCities: [],
+  additionalDeliveryCities: [],
+  routeNotes: null,
+  flightDate: null,
+  capacityKg: null,
+  minAcceptKg: null,
+  deliveryEtaDays: null,
+  subjectToInspection: true,
+  documentsAccepted: true,
+  acceptedItemTypes: [],
+  restrictedItemTypes: [],
+  specialCapacityNotes: null,
+  offersPostalForwarding: false,
+  acceptsPostalDropoff: false,
+  postalNotes: null,
+  pricePerKg: null,
+  fixedTotalPrice: null,
+  priceNotes: null,
+  termsNotes: null,
+};
+
+/**
+ * Stable JSON stringifier used for dirty state comparison
+ */
+function stableStringify(value: unknown): string {
+  const normalize = (v: unknown): unknown => {
+    if (v === null || typeof v !== 'object') return v;
+    if (v instanceof Date) return v.toISOString();
+    if (Array.isArray(v)) return v.map(normalize);
+    const obj = v as Record<string, unknown>;
+    const out: Record<string, unknown> = {};
+    for (const k of Object.keys(obj).sort()) out[k] = normalize(obj[k]);
+    return out;
+  };
+  return JSON.stringify(normalize(value));
+}
+
+/**
+ * Builds the FormData payload expected by the transportation server actions
+ * Lists are sent as JSON, empty optional values are omitted.
+ */
+function buildFormData(values: TransportationFormValues): FormData {
+  const formData = new FormData();
+  const appendIfSet = (key: string, value: string | number | null | undefined) => {
+    if (value != null && value !== '') formData.append(key, String(value));
+  };
+
+  formData.append('direction', values.direction);
+  formData.append('departureCity', values.departureCity);
+  formData.append('arrivalCity', values.arrivalCity);
+  formData.append('additionalPickupCities', JSON.stringify(values.additionalPickupCities ?? []));
+  formData.append(
+    'additionalDeliveryCities',
+    JSON.stringify(values.additionalDeliveryCities ?? [])
+  );
+  appendIfSet('routeNotes', values.routeNotes);
+
+  if (values.flightDate) formData.append('flightDate', values.flightDate.toISOString());
+  appendIfSet('capacityKg', values.capacityKg);
+  appendIfSet('minAcceptKg', values.minAcceptKg);
+  appendIfSet('deliveryEtaDays', values.deliveryEtaDays);
+  formData.append('subjectToInspection', String(values.subjectToInspection));
+  formData.append('documentsAccepted', String(values.documentsAccepted));
+  formData.append('acceptedItemTypes', JSON.stringify(values.acceptedItemTypes ?? []));
+  formData.append('restrictedItemTypes', JSON.stringify(values.restrictedItemTypes ?? []));
+  appendIfSet('specialCapacityNotes', values.specialCapacityNotes);
+  formData.append('offersPostalForwarding', String(values.offersPostalForwarding));
+  formData.append('acceptsPostalDropoff', String(values.acceptsPostalDropoff));
+  appendIfSet('postalNotes', values.postalNotes);
+
+  formData.append('priceMode', values.priceMode);
+  appendIfSet('pricePerKg', values.pricePerKg);
+  appendIfSet('fixedTotalPrice', values.fixedTotalPrice);
+  appendIfSet('priceNotes', values.priceNotes);
+  appendIfSet('termsNotes', values.termsNotes);
+
+  return formData;
+}
+
+export function TransportationDialog({
+  mode = 'create',
+  initialData,
+  open: controlledOpen,
+  onOpenChange: controlledOnOpenChange,
+  trigger,
+  onSuccess,
+  initialStep,
+}: TransportationDialogProps = {}) {
+  const contentScrollRef = useRef<HTMLDivElement>(null);
+  const isEditMode = mode === 'edit';
+
+  // Server action state
+  const [isPending, startTransition] = useTransition();
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  const [resultAdId, setResultAdId] = useState<number | null>(null);
+  const [showSuccessDialog, setShowSuccessDialog] = useState(false);
+
+  // Edit mode: confirmation dialog before update (warns about re-approval)
+  const [showUpdateConfirmDialog, setShowUpdateConfirmDialog] = useState(false);
+
+  // Dirty state tracking: snapshot values on open and compare
+  const dirtySnapshotRef = useRef<string | null>(null);
+
+  // Reset callback - populated after hooks are initialized
+  const resetCallbackRef = useRef<(() => void) | null>(null);
+
+  const { open, onOpenChange, handleCancel, confirmDialog, isDirty, setIsDirty, setOpen } =
+    useConfirmBeforeClose({
+      onConfirmClose: () => resetCallbackRef.current?.(),
+      externalOpen: controlledOpen,
+      externalOnOpenChange: controlledOnOpenChange,
+    });
+
+  const defaultValues = useMemo(
+    () => (isEditMode && initialData ? transformAdToFormValues(initialData) : CREATE_MODE_DEFAULTS),
+    [isEditMode, initialData]
+  );
+
+  const form = useForm<TransportationFormValues>({
+    defaultValues,
+    mode: 'onChange',
+  });
+
+  const { control, handleSubmit, reset } = form;
+
+  const {
+    currentStep,
+    goNext,
+    goPrev,
+    goTo,
+    canNavigateTo,
+    reset: resetNavigation,
+    markAllVisited,
+  } = useStepNavigation({
+    totalSteps: TRANSPORTATION_TOTAL_STEPS,
+    form,
+    getStepSchema: getTransportationStepSchema,
+    getStepFields: getTransportationStepFields,
+    contentScrollRef,
+    initialStep: initialStep && isEditMode ? initialStep : undefined,
+  });
+
+  const revalidateField = useFieldRevalidation(form, currentStep, getTransportationStepSchema);
+
+  // Helper to reset the entire dialog state consistently
+  const resetDialogState = React.useCallback(() => {
+    form.reset(
+      isEditMode && initialData ? transformAdToFormValues(initialData) : CREATE_MODE_DEFAULTS
+    );
+    resetNavigation();
+    setSubmitError(null);
+    setResultAdId(null);
+    contentScrollRef.current?.scrollTo({ top: 0, behavior: 'auto' });
+
+    setTimeout(() => {
+      dirtySnapshotRef.current = stableStringify(form.getValues());
+      setIsDirty(false);
+    }, 0);
+  }, [form, resetNavigation, setIsDirty, isEditMode, initialData]);
+
+  resetCallbackRef.current = resetDialogState;
+
+  const prevOpenRef = useRef(open);
+  const initialStepRef = useRef(initialStep);
+  useEffect(() => {
+    initialStepRef.current = initialStep;
+  }, [initialStep]);
+
+  // On dialog open, set up form state based on mode
+  useEffect(() => {
+    const justOpened = open && !prevOpenRef.current;
+    prevOpenRef.current = open;
+
+    if (!justOpened) return;
+
+    if (isEditMode && initialData) {
+      reset(transformAdToFormValues(initialData));
+      markAllVisited?.();
+
+      const targetStep = initialStepRef.current;
+      if (targetStep !== undefined && targetStep > 1 && targetStep <= TRANSPORTATION_TOTAL_STEPS) {
+        const navTimeout = setTimeout(() => goTo(targetStep), 0);
+        return () => clearTimeout(navTimeout);
+      }
+    } else {
+      form.reset(CREATE_MODE_DEFAULTS);
+      resetNavigation();
+      setSubmitError(null);
+      setResultAdId(null);
+      contentScrollRef.current?.scrollTo({ top: 0, behavior: 'auto' });
+    }
+
+    const baselineTimeout = setTimeout(() => {
+      dirtySnapshotRef.current = stableStringify(form.getValues());
+      setIsDirty(false);
+    }, 0);
+
+    return () => clearTimeout(baselineTimeout);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open]);
+
+  // While open, watch all changes and update dirty state by comparing to snapshot
+  useEffect(() => {
+    if (!open) return;
+    const subscription = form.watch(() => {
+      const current = stableStringify(form.getValues());
+      setIsDirty(dirtySnapshotRef.current != null && dirtySnapshotRef.current !== current);
+    });
+    return () => subscription.unsubscribe();
+  }, [open, form, setIsDirty]);
+
+  /**
+   * Executes the actual form submission (create or update)
+   */
+  const executeSubmit = (values: TransportationFormValues) => {
+    setSubmitError(null);
+    const formData = buildFormData(values);
+
+    startTransition(async () => {
+      const result =
+        isEditMode && initialData
+          ? await updateTransportationAdAction(initialData.id, formData)
+          : await createTransportationAdAction(null, formData);
+
+      if (result.success) {
+        if (isEditMode) {
+          // Reload to show updated data and the new PENDING status
+          window.location.reload();
+          return;
+        }
+
+        setResultAdId(result.adId);
+        setIsDirty(false);
+        setOpen(false);
+
+        if (onSuccess) {
+          onSuccess(result.adId);
+        } else {
+          setShowSuccessDialog(true);
+        }
+      } else {
+        setSubmitError(result.error);
+
+        if (result.fieldErrors) {
+          Object.entries(result.fieldErrors).forEach(([field, message]) => {
+            form.setError(field as FieldPath<TransportationFormValues>, { message });
+          });
+        }
+      }
+    });
+  };
+
+  /**
+   * Edit mode asks for confirmation first because the ad may go back to review
+   */
+  const onSubmit = (values: TransportationFormValues) => {
+    if (isEditMode) {
+      setShowUpdateConfirmDialog(true);
+    } else {
+      executeSubmit(values);
+    }
+  };
+
+  const handleConfirmUpdate = () => {
+    setShowUpdateConfirmDialog(false);
+    executeSubmit(form.getValues());
+  };
+
+  // Watch fields relevant to current step for validation
+  const stepFields = getTransportationStepFields(currentStep);
+  useWatch({ control, name: stepFields as FieldPath<TransportationFormValues>[] });
 
-export function TransportationDialog() {
-  const { open, onOpenChange, markDirty, handleCancel, confirmDialog } = useConfirmBeforeClose();
   const transportationCategory = AD_CATEGORY_BY_ID.TRANSPORTATION;
+  const dialogTitle = isEditMode ? 'Edit transportation ad' : 'Create transportation ad';
+
+  const defaultTrigger = (
+    <Button size="lg" className={cn(transportationCategory?.bgSecondaryColor, 'hover:shadow-lg')}>
+      Start creating transportation ad
+    </Button>
+  );
+
+  // For edit mode without external control, we don't show a trigger
+  const showTrigger = controlledOpen === undefined && mode === 'create';
+
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogTrigger asChild>
-        <Button
-          size="lg"
-          className={cn(transportationCategory?.bgSecondaryColor, 'hover:shadow-lg transition-all')}
-        >
-          Start creating transportation ad
-        </Button>
-      </DialogTrigger>
+      {showTrigger && <DialogTrigger asChild>{trigger || defaultTrigger}</DialogTrigger>}
       <DialogContent
-        className="sm:max-w-2xl"
+        className="h-full md:h-[92vh] w-full min-w-full md:min-w-0 max-w-none md:max-w-3xl flex flex-col rounded-none md:rounded-4xl px-1"
         disableOutsideClose
         disableEscapeClose
         showCloseButton={false}
       >
-        <DialogHeader>
-          <DialogTitle>Create transportation ad</DialogTitle>
-          <DialogDescription>Fill out the details below to publish your listing.</DialogDescription>
+        <DialogHeader className="px-6 mb-2 flex flex-col items-center justify-center">
+          <DialogTitle>{dialogTitle}</DialogTitle>
         </DialogHeader>
 
-        <div className="space-y-4" onChange={markDirty}>
-          <div className="space-y-2">
-            <Label htmlFor="transport-title">Vehicle Title *</Label>
-            <Input id="transport-title" placeholder="e.g., 2020 Toyota Corolla - Like New" />
-          </div>
-
-          <div className="space-y-2">
-            <Label htmlFor="transport-description">Description *</Label>
-            <Textarea
-              id="transport-description"
-              placeholder="Describe your vehicle in detail..."
-              className="min-h-[120px] resize-none"
-            />
-          </div>
-
-          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-            <div className="space-y-2">
-              <Label htmlFor="transport-type">Vehicle Type</Label>
-              <Input id="transport-type" placeholder="e.g., Car, Motorcycle, Bicycle" />
-            </div>
+        {/* Stepper: four steps fit on every viewport, so no scrolling mask is needed */}
+        <div className="flex items-start justify-center pb-2">
+          {TRANSPORTATION_STEP_CONFIG.map((step) => {
+            const isCurrent = step.id === currentStep;
+            const isClickable = !isCurrent && canNavigateTo(step.id);
+            const isLast = step.id === TRANSPORTATION_TOTAL_STEPS;
+            return (
+              <div key={step.id} className="flex items-start">
+                <div className="flex flex-col items-center gap-1.5 w-11">
+                  <button
+                    type="button"
+                    onClick={() => (isClickable ? goTo(step.id) : undefined)}
+                    className={cn(
+                      'size-11 rounded-full flex items-center justify-center font-medium outline-none',
+                      isCurrent
+                        ? 'bg-primary text-primary-foreground'
+                        : 'bg-neutral-200 text-muted-foreground',
+                      isClickable && 'hover:opacity-90'
+                    )}
+                    disabled={!isClickable}
+                    aria-current={isCurrent ? 'step' : undefined}
+                  >
+                    {step.id}
+                  </button>
+                  <span
+                    className={cn(
+                      'whitespace-nowrap',
+                      isCurrent ? 'text-[11px]' : 'text-[10px] text-muted-foreground'
+                    )}
+                  >
+                    {step.label}
+                  </span>
+                </div>
+                {!isLast && <span className="mt-5 h-1 w-11 bg-neutral-200" />}
+              </div>
+            );
+          })}
+        </div>
+
+        <Form {...form}>
+          <form
+            onSubmit={handleSubmit(onSubmit)}
+            autoComplete="off"
+            className="flex flex-1 min-h-0 flex-col justify-between"
+          >
+            <div
+              ref={contentScrollRef}
+              className={cn(
+                'bg-neutral-50 h-full overflow-y-auto py-6 px-2 rounded-4xl inset-shadow-sm border',
+                currentStep === REVIEW_STEP && 'border-2 border-neutral-200'
+              )}
+            >
+              {TRANSPORTATION_STEP_CONFIG.map(({ id, component: StepComponent }) => {
+                if (!StepComponent) return null;
 
-            <div className="space-y-2">
-              <Label htmlFor="transport-price">Price (€)</Label>
-              <Input id="transport-price" type="number" placeholder="e.g., 15000" />
+                return (
+                  <div key={id} className={currentStep === id ? '' : 'hidden'}>
+                    <StepComponent
+                      control={control}
+                      form={form}
+                      revalidateField={revalidateField}
+                    />
+                  </div>
+                );
+              })}
             </div>
-          </div>
 
-          {/* Placeholder for additional form fields */}
-          <div className="pt-4 text-center text-sm text-muted-foreground">
-            <p>Additional fields will be implemented here</p>
-            <p className="text-xs mt-1">(Make, Model, Year, Mileage, Condition, etc.)</p>
-          </div>
-        </div>
+            <DialogFooter className="pt-4 px-4">
+              <div className="w-full">
+                {submitError && (
+                  <div className="w-full mb-3 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-800">
+                    {submitError}
+                  </div>
+                )}
 
-        <DialogFooter>
-          <Button variant="outline" size="lg" onClick={handleCancel}>
-            Cancel
-          </Button>
-          <Button size="lg" className="ad-transportation hover:shadow-lg transition-all">
-            Publish Ad
-          </Button>
-        </DialogFooter>
+                <div className="flex w-full items-center justify-between gap-2">
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="lg"
+                    onClick={handleCancel}
+                    disabled={isPending}
+                  >
+                    Cancel
+                  </Button>
+                  <div className="flex items-center gap-2 ml-auto">
+                    {currentStep > 1 && (
+                      <Button
+                        type="button"
+                        variant="secondary"
+                        onClick={goPrev}
+                        disabled={isPending}
+                      >
+                        <ChevronLeft />
+                        Back
+                      </Button>
+                    )}
+                    {currentStep < REVIEW_STEP && (
+                      <Button
+                        type="button"
+                        className="ad-transportation"
+                        onClick={goNext}
+                        disabled={isPending}
+                      >
+                        Next <ChevronRight />
+                      </Button>
+                    )}
+                    {isEditMode && isDirty && (
+                      <Button
+                        type="submit"
+                        size="lg"
+                        className="ad-transportation-bg-secondary hover:shadow-lg"
+                        disabled={isPending}
+                      >
+                        {isPending ? 'Saving…' : 'Save Changes'}
+                      </Button>
+                    )}
+                    {currentStep === REVIEW_STEP && !isEditMode && (
+                      <Button
+                        type="submit"
+                        size="lg"
+                        className="ad-transportation-bg-secondary hover:shadow-lg"
+                        disabled={isPending}
+                      >
+                        {isPending ? 'Submitting…' : 'Submit Ad'}
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              </div>
+            </DialogFooter>
+          </form>
+        </Form>
       </DialogContent>
       {confirmDialog}
+      <ConfirmDialog
+        open={showUpdateConfirmDialog}
+        onOpenChange={setShowUpdateConfirmDialog}
+        title="Submit changes for review?"
+        description={
+          <>
+            Changes to key details such as the title, description, price, location or photos need to
+            be approved by our moderators before they go live. Smaller updates to a live ad are
+            published right away.
+            <br />
+            <br />
+            <span className="text-muted-foreground text-xs">
+              Reviews typically take 24-48 hours. Your ad will be set to &quot;Pending&quot; status
+              until approved.
+            </span>
+          </>
+        }
+        confirmText="Yes, submit for review"
+        cancelText="Cancel"
+        confirmVariant="default"
+        onConfirm={handleConfirmUpdate}
+      />
+      {resultAdId && !isEditMode && (
+        <AdSuccessDialog
+          open={showSuccessDialog}
+          onOpenChange={setShowSuccessDialog}
+          adId={resultAdId}
+        />
+      )}
     </Dialog>
   );
 }
@@ -17,6 +17,10 @@ export function AdStatusBadge({ status, className }: StatusBadgeProps) {
         return 'destructive' as const;
       case 'EXPIRED':
         return 'outline' as const; // Secondary variant
+      case 'SUSPENDED':
+        return 'destructive' as const;
+      case 'CHANGES_REQUESTED':
+        return 'secondary' as const;
       default:
         return 'outline' as const;
     }
@@ -32,6 +36,10 @@ export function AdStatusBadge({ status, className }: StatusBadgeProps) {
         return 'Rejected';
       case 'EXPIRED':
         return 'Expired';
+      case 'SUSPENDED':
+        return 'Suspended';
+      case 'CHANGES_REQUESTED':
+        return 'Changes requested';
       default:
         return status;
     }
@@ -5,12 +5,15 @@ import {
   BadgeCheck,
   Bell,
   CircleStar,
+  Flag,
   Megaphone,
   MessageSquareWarning,
   Newspaper,
   Send,
+  ShieldAlert,
   UserCheck,
   UserStar,
+  UserX,
 } from 'lucide-react';
 import React from 'react';
 
@@ -29,6 +32,10 @@ export function getNotificationIcons(item: Pick<NotificationItem, 'type'>): {
       return { Icon: MessageSquareWarning, WmIcon: Send };
     case 'SYSTEM_ANNOUNCEMENT':
       return { Icon: Megaphone, WmIcon: UserStar };
+    case 'ACCOUNT_EVENT':
+      return { Icon: ShieldAlert, WmIcon: UserX };
+    case 'MODERATION_EVENT':
+      return { Icon: Flag, WmIcon: Flag };
     default:
       return { Icon: Bell, WmIcon: Bell };
   }
@@ -9,6 +9,10 @@ export function getNotificationHref(item: Pick<NotificationItem, 'type'>): strin
       return '/dashboard/ads';
     case 'VERIFICATION_EVENT':
       return '/dashboard/verification';
+    case 'ACCOUNT_EVENT':
+      return '/dashboard';
+    case 'MODERATION_EVENT':
+      return '/panel';
     case 'REPORT_EVENT':
     case 'SYSTEM_ANNOUNCEMENT':
     default:
@@ -171,6 +171,49 @@ export function getNotificationTheme(item: NotificationItem): NotificationShared
         bgMuted: 'bg-purple-50/25',
         wmColor: 'text-purple-600',
       };
+    case 'ACCOUNT_EVENT':
+      // Suspensions are errors; lifts and expiries are successes
+      if (item.severity === 'ERROR')
+        return {
+          ...base,
+          bgToast: 'bg-red-50',
+          dot: 'bg-red-500',
+          iconColor: 'text-red-600',
+          label: 'Account',
+          labelPillBg: 'bg-red-100/70',
+          labelPillText: 'text-red-700',
+          metaLabel: 'Account notification',
+          bgVibrant: 'bg-red-50/60',
+          bgMuted: 'bg-red-50/25',
+          wmColor: 'text-red-600',
+        };
+      return {
+        ...base,
+        bgToast: 'bg-emerald-50',
+        dot: 'bg-emerald-500',
+        iconColor: 'text-emerald-600',
+        label: 'Account',
+        labelPillBg: 'bg-emerald-100/70',
+        labelPillText: 'text-emerald-700',
+        metaLabel: 'Account notification',
+        bgVibrant: 'bg-emerald-50/60',
+        bgMuted: 'bg-emerald-50/25',
+        wmColor: 'text-emerald-600',
+      };
+    case 'MODERATION_EVENT':
+      return {
+        ...base,
+        bgToast: 'bg-orange-50',
+        dot: 'bg-orange-500',
+        iconColor: 'text-orange-600',
+        label: 'Moderation',
+        labelPillBg: 'bg-orange-100/70',
+        labelPillText: 'text-orange-700',
+        metaLabel: 'Moderation notification',
+        bgVibrant: 'bg-orange-50/60',
+        bgMuted: 'bg-orange-50/25',
+        wmColor: 'text-orange-600',
+      };
     default:
       return base;
   }
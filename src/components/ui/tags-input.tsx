@@ -0,0 +1,102 @@
+'use client';
+
+import { Chip } from '@/components/ui/chip';
+import { Input } from '@/components/ui/input';
+import { cn } from '@/lib/utils';
+import { X } from 'lucide-react';
+import * as React from 'react';
+
+export interface TagsInputProps {
+  value: string[];
+  onChange: (next: string[]) => void;
+  placeholder?: string;
+  /** Maximum number of tags; the input is disabled once reached */
+  maxTags?: number;
+  /** Maximum length of a single tag */
+  maxLength?: number;
+  /** Optional normalizer applied before a tag is added (e.g. lowercasing) */
+  normalize?: (tag: string) => string;
+  disabled?: boolean;
+  error?: boolean;
+  className?: string;
+  ariaLabel?: string;
+}
+
+/**
+ * Free-text tag entry: Enter or comma adds the typed value as a chip,
+ * Backspace on an empty input removes the last one. Duplicates are ignored
+ * (case-insensitive).
+ */
+export function TagsInput({
+  value,
+  onChange,
+  placeholder,
+  maxTags,
+  maxLength,
+  normalize = (tag) => tag,
+  disabled = false,
+  error = false,
+  className,
+  ariaLabel,
+}: TagsInputProps) {
+  const [draft, setDraft] = React.useState('');
+  const isFull = maxTags !== undefined && value.length >= maxTags;
+
+  const addTag = (raw: string) => {
+    const tag = normalize(raw.trim());
+    if (!tag || isFull) return;
+    if (value.some((t) => t.toLowerCase() === tag.toLowerCase())) {
+      setDraft('');
+      return;
+    }
+    onChange([...value, tag]);
+    setDraft('');
+  };
+
+  const removeTag = (index: number) => {
+    onChange(value.filter((_, i) => i !== index));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      addTag(draft);
+    } else if (e.key === 'Backspace' && draft === '' && value.length > 0) {
+      removeTag(value.length - 1);
+    }
+  };
+
+  return (
+    <div className={cn('space-y-2', className)}>
+      {value.length > 0 && (
+        <div className="flex flex-wrap gap-1.5">
+          {value.map((tag, index) => (
+            <Chip
+              key={tag}
+              size="sm"
+              rounded="full"
+              tone="primary"
+              disabled={disabled}
+              onClick={() => removeTag(index)}
+              aria-label={`Remove ${tag}`}
+              right={<X className="size-3" />}
+            >
+              {tag}
+            </Chip>
+          ))}
+        </div>
+      )}
+      <Input
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onKeyDown={handleKeyDown}
+        onBlur={() => addTag(draft)}
+        placeholder={isFull ? `Up to ${maxTags}` : placeholder}
+        maxLength={maxLength}
+        disabled={disabled || isFull}
+        aria-label={ariaLabel}
+        aria-invalid={error || undefined}
+      />
+    </div>
+  );
+}
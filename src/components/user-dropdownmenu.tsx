@@ -16,7 +16,7 @@ import { UserAvatar } from './user-avatar';
 
 import { ROUTE_DEFINITIONS } from '@/config/routes';
 // keep direct imports available for other parts, but use the reusable helper here
-import { authToasts, logout } from '@/lib/auth/client';
+import { authToasts, hasPermission, logout, type Permission } from '@/lib/auth/client';
 import { useRouter } from 'next/navigation';
 import { useState } from 'react';
 
@@ -45,10 +45,7 @@ export function UserDropDownMenu({ user }: Props) {
 
   const name = user.name ?? 'User';
   const email = user.email ?? '';
-  const hasRole = (required?: Array<'USER' | 'MODERATOR' | 'ADMIN'>) => {
-    if (!required || required.length === 0) return true;
-    return required.includes(user.role as any);
-  };
+  const canAccess = (required?: Permission) => !required || hasPermission(user.role, required);
 
   // Pull routes from centralized config
   const profileRoute = ROUTE_DEFINITIONS.find((r) => r.key === 'profile');
@@ -91,7 +88,7 @@ export function UserDropDownMenu({ user }: Props) {
             <span>{settingsRoute?.name ?? 'Security & Settings'}</span>
           </Link>
         </DropdownMenuItem>
-        {hasRole(panelRoute?.requiresRole) && (
+        {canAccess(panelRoute?.requiresPermission) && (
           <DropdownMenuItem asChild>
             <Link href={panelRoute?.url ?? '/panel'} className="flex items-center">
               <PanelIcon className="mr-2 h-4 w-4" />
@@ -1,5 +1,7 @@
+import type { Permission } from '@/lib/auth/permissions';
 import {
   Bell,
+  Building2,
   ChartColumn,
   CirclePlus,
   HeartHandshake,
@@ -21,8 +23,8 @@ export type AppRoute = {
   showInNav?: boolean;
   navOrder?: number;
   showInSidebar?: boolean; // if false, hide from sidebar; undefined means visible
-  // Optional list of roles required to access this route (empty/undefined means open to all)
-  requiresRole?: Array<'USER' | 'MODERATOR' | 'ADMIN'>;
+  // Optional permission required to access this route (undefined means open to all)
+  requiresPermission?: Permission;
   description: string;
   cta?: {
     label: string;
@@ -41,6 +43,13 @@ export const ROUTE_DEFINITIONS = [
     navOrder: 1,
     description: 'Discover the latest listings and updates from ItaliaHub.',
   },
+  {
+    key: 'housing',
+    name: 'Housing',
+    url: '/housing',
+    icon: Building2,
+    description: 'Find rooms and apartments for rent across Italy.',
+  },
 
   // Dashboard and sections
   {
@@ -124,7 +133,7 @@ export const ROUTE_DEFINITIONS = [
     name: 'Admin Panel',
     url: '/panel',
     icon: ShieldUser,
-    requiresRole: ['MODERATOR', 'ADMIN'],
+    requiresPermission: 'panel.access',
     description: 'Moderate content and manage users across ItaliaHub.',
   },
   // ensure trailing comma for future additions
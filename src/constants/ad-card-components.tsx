@@ -1,5 +1,6 @@
 'use client';
 
+import { ExchangeAdCard } from '@/components/ad-cards/exchange-ad-card';
 import { HousingAdCard } from '@/components/ad-cards/housing-ad-card';
 import { MarketplaceAdCard } from '@/components/ad-cards/marketplace-ad-card';
 import { ServiceAdCard } from '@/components/ad-cards/service-ad-card';
@@ -39,5 +40,5 @@ export const AD_CARD_COMPONENTS: Record<AdCategory, AdCardRenderer | null> = {
   TRANSPORTATION: createRenderer('TRANSPORTATION', TransportationAdCard),
   MARKETPLACE: createRenderer('MARKETPLACE', MarketplaceAdCard),
   SERVICES: createRenderer('SERVICES', ServiceAdCard),
-  CURRENCY: () => null,
+  CURRENCY: createRenderer('CURRENCY', ExchangeAdCard),
 };
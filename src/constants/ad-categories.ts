@@ -1,14 +1,15 @@
 import type { AdCategory } from '@/generated/prisma';
 import type { IconType } from 'react-icons';
 import { BiSolidPlaneAlt } from 'react-icons/bi';
-import { FaHouseChimney } from 'react-icons/fa6';
+import { FaHouseChimney, FaMoneyBillTransfer } from 'react-icons/fa6';
 import { HiShoppingBag } from 'react-icons/hi2';
 import { LuHandPlatter } from 'react-icons/lu';
 
 export type AdCategoryMeta = {
   id: AdCategory;
   name: string;
-  imageSrc: string;
+  /** Illustration for the create-ad picker; the icon is shown when missing */
+  imageSrc?: string;
   icon: IconType;
   cardTitle: string;
   cardDescription: string;
@@ -87,6 +88,22 @@ export const AD_CATEGORY_CONFIG: readonly AdCategoryMeta[] = [
     bgPrimaryColor: 'ad-services-bg-primary',
     bgSecondaryColor: 'ad-services-bg-secondary',
   },
+  {
+    id: 'CURRENCY',
+    name: 'Exchange',
+    icon: FaMoneyBillTransfer,
+    cardTitle: 'Currency Exchange Advertisement',
+    cardDescription: 'Find someone to exchange euros with',
+    guidelinesTitle: 'Before you create an exchange ad',
+    guidelines: [
+      'Only verified members can publish exchange ads.',
+      'State the amount and rate you actually intend to honour.',
+      'Meet in public places for in-person exchanges.',
+      'Never send money before agreeing on every detail in chat.',
+    ],
+    bgPrimaryColor: 'ad-currency-bg-primary',
+    bgSecondaryColor: 'ad-currency-bg-secondary',
+  },
 ] as const satisfies readonly AdCategoryMeta[];
 
 export const AD_CATEGORY_BY_ID: Partial<Record<AdCategory, AdCategoryMeta>> =
@@ -1,5 +1,6 @@
 'use client';
 
+import { ExchangeAdDetails } from '@/components/ad-details/exchange-ad-details';
 import { HousingAdDetails } from '@/components/ad-details/housing-ad-details';
 import { MarketplaceAdDetails } from '@/components/ad-details/marketplace-ad-details';
 import { ServiceAdDetails } from '@/components/ad-details/service-ad-details';
@@ -15,6 +16,7 @@ export type AdDetailRenderer = (options: {
   ownerTelegramHandle?: string | null;
   showContactButton?: boolean;
   showEditButton?: boolean;
+  onContactClick?: () => void;
 }) => JSX.Element | null;
 
 type AdWithCategory<C extends AdCategory> = Extract<AdWithDetails, { category: C }>;
@@ -25,13 +27,21 @@ type CategoryComponent<C extends AdCategory> = (props: {
   ownerTelegramHandle?: string | null;
   showContactButton?: boolean;
   showEditButton?: boolean;
+  onContactClick?: () => void;
 }) => JSX.Element;
 
 const createRenderer = <C extends AdCategory>(
   category: C,
   Component: CategoryComponent<C>
 ): AdDetailRenderer => {
-  return ({ ad, variant, ownerTelegramHandle, showContactButton, showEditButton }) => {
+  return function CategoryAdDetail({
+    ad,
+    variant,
+    ownerTelegramHandle,
+    showContactButton,
+    showEditButton,
+    onContactClick,
+  }) {
     if (ad.category !== category) {
       return null;
     }
@@ -43,6 +53,7 @@ const createRenderer = <C extends AdCategory>(
         ownerTelegramHandle={ownerTelegramHandle}
         showContactButton={showContactButton}
         showEditButton={showEditButton}
+        onContactClick={onContactClick}
       />
     );
   };
@@ -53,5 +64,5 @@ export const AD_DETAIL_COMPONENTS: Record<AdCategory, AdDetailRenderer | null> =
   TRANSPORTATION: createRenderer('TRANSPORTATION', TransportationAdDetails),
   MARKETPLACE: createRenderer('MARKETPLACE', MarketplaceAdDetails),
   SERVICES: createRenderer('SERVICES', ServiceAdDetails),
-  CURRENCY: () => null,
+  CURRENCY: createRenderer('CURRENCY', ExchangeAdDetails),
 };
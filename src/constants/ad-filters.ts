@@ -1,6 +1,6 @@
 import type { AdStatus } from '@/generated/prisma';
 import type { LucideIcon } from 'lucide-react';
-import { Clock3, Hourglass, Wifi, XCircle } from 'lucide-react';
+import { Ban, Clock3, Hourglass, MessageSquareWarning, Wifi, XCircle } from 'lucide-react';
 
 export type StatusTabConfig = {
   value: AdStatus;
@@ -44,6 +44,17 @@ export const STATUS_TABS: readonly StatusTabConfig[] = [
       badge: 'bg-amber-100 text-amber-700',
     },
   },
+  {
+    value: 'CHANGES_REQUESTED',
+    label: 'Changes requested',
+    icon: MessageSquareWarning,
+    colorClasses: {
+      active:
+        'data-[state=active]:bg-orange-500 data-[state=active]:text-white data-[state=active]:border-orange-500',
+      inactive: 'text-orange-700 hover:bg-orange-50 hover:text-orange-900',
+      badge: 'bg-orange-100 text-orange-700',
+    },
+  },
   {
     value: 'REJECTED',
     label: 'Rejected',
@@ -66,6 +77,17 @@ export const STATUS_TABS: readonly StatusTabConfig[] = [
       badge: 'bg-slate-100 text-slate-700',
     },
   },
+  {
+    value: 'SUSPENDED',
+    label: 'Suspended',
+    icon: Ban,
+    colorClasses: {
+      active:
+        'data-[state=active]:bg-red-600 data-[state=active]:text-white data-[state=active]:border-red-600',
+      inactive: 'text-red-700 hover:bg-red-50 hover:text-red-900',
+      badge: 'bg-red-100 text-red-700',
+    },
+  },
 ] as const;
 
 export const SORT_OPTIONS: readonly SortConfig[] = [
@@ -75,6 +97,7 @@ export const SORT_OPTIONS: readonly SortConfig[] = [
 
 export const STATUS_ORDER: readonly AdStatus[] = [
   'ONLINE',
+  'CHANGES_REQUESTED',
   'PENDING',
   'REJECTED',
   'EXPIRED',
@@ -0,0 +1,35 @@
+import type { AdCategory, AdStatus } from '@/generated/enums';
+
+/** Renewal opens this many days before expiry, when the reminder goes out */
+export const AD_RENEWAL_WINDOW_DAYS = 3;
+
+/** Renewals allowed per ad over a rolling 30-day window */
+export const AD_RENEWALS_PER_MONTH = 2;
+export const AD_RENEWAL_LIMIT_WINDOW_DAYS = 30;
+
+/**
+ * Categories with a fixed renewal period.
+ * Transportation expiry follows the flight date, so owners edit the date instead.
+ */
+export const RENEWABLE_AD_CATEGORIES: readonly AdCategory[] = [
+  'HOUSING',
+  'MARKETPLACE',
+  'SERVICES',
+  'CURRENCY',
+];
+
+/**
+ * Whether the owner can renew this ad right now: expired, or online and
+ * inside the renewal window
+ */
+export function canRenewAd(
+  ad: { category: AdCategory; status: AdStatus; expirationDate: Date | string | null },
+  now: Date = new Date()
+): boolean {
+  if (!RENEWABLE_AD_CATEGORIES.includes(ad.category)) return false;
+  if (ad.status === 'EXPIRED') return true;
+  if (ad.status !== 'ONLINE' || !ad.expirationDate) return false;
+
+  const msLeft = new Date(ad.expirationDate).getTime() - now.getTime();
+  return msLeft <= AD_RENEWAL_WINDOW_DAYS * 24 * 60 * 60 * 1000;
+}
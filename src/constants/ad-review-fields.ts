@@ -0,0 +1,39 @@
+/**
+ * Parts of an ad a moderator can comment on when requesting changes
+ */
+
+export const AD_REVIEW_FIELDS = [
+  'details',
+  'dates',
+  'price',
+  'features',
+  'description',
+  'location',
+  'photos',
+  'other',
+] as const;
+
+export type AdReviewField = (typeof AD_REVIEW_FIELDS)[number];
+
+export interface AdReviewFieldOption {
+  value: AdReviewField;
+  label: string;
+  description?: string;
+}
+
+export const AD_REVIEW_FIELD_OPTIONS: readonly AdReviewFieldOption[] = [
+  { value: 'details', label: 'Basic details', description: 'Type, title, category' },
+  { value: 'dates', label: 'Dates', description: 'Availability, travel or contract dates' },
+  { value: 'price', label: 'Price', description: 'Amount, deposit, fees, bills' },
+  { value: 'features', label: 'Features' },
+  { value: 'description', label: 'Description' },
+  { value: 'location', label: 'Location' },
+  { value: 'photos', label: 'Photos' },
+  { value: 'other', label: 'Other' },
+] as const;
+
+export const AD_REVIEW_COMMENT_MAX_LENGTH = 500;
+
+export function getAdReviewFieldLabel(field: string): string {
+  return AD_REVIEW_FIELD_OPTIONS.find((o) => o.value === field)?.label ?? field;
+}
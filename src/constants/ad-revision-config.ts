@@ -0,0 +1,51 @@
+import type { AdCategory } from '@/generated/enums';
+
+/**
+ * Detail fields an owner can change on an ONLINE ad without sending it back
+ * to review. Everything else (titles, descriptions, prices, location, route,
+ * photos, city) is material and requeues the ad. Housing availability start and
+ * flight dates set the expiry, so they stay material, as does an item's condition.
+ */
+export const NON_MATERIAL_REVISION_FIELDS: Record<AdCategory, readonly string[]> = {
+  HOUSING: [
+    'availabilityEndDate',
+    'residenzaAvailable',
+    'furnished',
+    'floorNumber',
+    'hasElevator',
+    'privateBathroom',
+    'kitchenEquipped',
+    'wifi',
+    'washingMachine',
+    'dishwasher',
+    'balcony',
+    'heatingType',
+    'doubleGlazedWindows',
+    'airConditioning',
+    'numberOfBathrooms',
+    'newlyRenovated',
+    'clothesDryer',
+    'householdSize',
+    'householdGender',
+    'genderPreference',
+  ],
+  TRANSPORTATION: [
+    'capacityKg',
+    'minAcceptKg',
+    'deliveryEtaDays',
+    'subjectToInspection',
+    'documentsAccepted',
+    'offersPostalForwarding',
+    'acceptsPostalDropoff',
+  ],
+  MARKETPLACE: [],
+  SERVICES: ['availabilityDays'],
+  CURRENCY: ['allowsPartial', 'minChunkEur'],
+};
+
+/** Labels for the top-level snapshot fields; detail fields use their humanized column name */
+export const AD_REVISION_FIELD_LABELS: Record<string, string> = {
+  cityId: 'City',
+  media: 'Photos',
+  cover: 'Cover photo',
+};
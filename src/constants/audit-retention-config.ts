@@ -0,0 +1,31 @@
+import type { AuditAction } from '@/generated/enums';
+
+function daysFromEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isInteger(value) && value > 0 ? value : fallback;
+}
+
+/** IP address and user agent are blanked on audit entries older than this */
+export const AUDIT_PII_RETENTION_DAYS = daysFromEnv('AUDIT_PII_RETENTION_DAYS', 90);
+
+/** Audit entries older than this are archived to storage and deleted */
+export const AUDIT_RETENTION_DAYS = daysFromEnv('AUDIT_RETENTION_DAYS', 365);
+
+/**
+ * Actions kept longer than AUDIT_RETENTION_DAYS.
+ * Privilege changes, suspensions and access to identity documents stay for five years.
+ */
+export const AUDIT_RETENTION_OVERRIDES: Partial<Record<AuditAction, number>> = {
+  ROLE_ASSIGN: 5 * 365,
+  ROLE_REVOKE: 5 * 365,
+  USER_SUSPEND: 5 * 365,
+  USER_UNSUSPEND: 5 * 365,
+  USER_SUSPENSION_EXPIRE: 5 * 365,
+  MODERATOR_SCOPE_UPDATE: 5 * 365,
+  VERIFICATION_ACCESS: 5 * 365,
+  VERIFICATION_APPROVE: 5 * 365,
+  VERIFICATION_REJECT: 5 * 365,
+  VERIFICATION_REVOKE: 5 * 365,
+  ACCOUNT_DELETE: 5 * 365,
+  BATCH_CLEANUP: 5 * 365,
+};
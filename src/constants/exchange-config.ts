@@ -0,0 +1,83 @@
+/**
+ * Shared option lists for currency exchange ads
+ *
+ * Custom rates are entered in Toman per euro, which is how the community
+ * quotes them.
+ */
+
+import type {
+  ExchangeMode,
+  ExchangeRateType,
+  ExchangeSide,
+  SettlementMethod,
+} from '@/generated/enums';
+
+export interface ExchangeOption<T extends string = string> {
+  value: T;
+  label: string;
+  description?: string;
+}
+
+/** Unit shown next to custom rate values */
+export const EXCHANGE_RATE_UNIT = 'Toman/€';
+
+export const EXCHANGE_SIDE_OPTIONS: readonly ExchangeOption<ExchangeSide>[] = [
+  { value: 'SELL_EUR', label: 'Selling euros', description: 'You have euros and want Toman' },
+  { value: 'BUY_EUR', label: 'Buying euros', description: 'You have Toman and want euros' },
+] as const;
+
+export const EXCHANGE_RATE_TYPE_OPTIONS: readonly ExchangeOption<ExchangeRateType>[] = [
+  { value: 'MARKET', label: 'Market rate', description: 'The open-market rate on the day' },
+  { value: 'CUSTOM', label: 'Custom rate', description: 'A fixed rate you set' },
+  { value: 'NEGOTIABLE', label: 'Negotiable', description: 'Agree on the rate in chat' },
+] as const;
+
+export const EXCHANGE_MODE_OPTIONS: readonly ExchangeOption<ExchangeMode>[] = [
+  { value: 'IN_PERSON', label: 'In person', description: 'Meet in your city' },
+  { value: 'ONLINE', label: 'Online', description: 'Transfers only' },
+  { value: 'EITHER', label: 'Either', description: 'Whatever suits the other side' },
+] as const;
+
+export const SETTLEMENT_METHOD_OPTIONS: readonly ExchangeOption<SettlementMethod>[] = [
+  { value: 'BONIFICO_SEPA', label: 'Bank transfer (SEPA)' },
+  { value: 'REVOLUT', label: 'Revolut' },
+  { value: 'PAYPAL', label: 'PayPal' },
+  { value: 'CASH_IN_PERSON', label: 'Cash in person' },
+  { value: 'OTHER', label: 'Other' },
+] as const;
+
+export function getExchangeSideLabel(side: ExchangeSide): string {
+  return EXCHANGE_SIDE_OPTIONS.find((o) => o.value === side)?.label ?? side;
+}
+
+export function getExchangeRateTypeLabel(rateType: ExchangeRateType): string {
+  return EXCHANGE_RATE_TYPE_OPTIONS.find((o) => o.value === rateType)?.label ?? rateType;
+}
+
+export function getExchangeModeLabel(mode: ExchangeMode): string {
+  return EXCHANGE_MODE_OPTIONS.find((o) => o.value === mode)?.label ?? mode;
+}
+
+export function getSettlementMethodLabel(method: SettlementMethod): string {
+  return SETTLEMENT_METHOD_OPTIONS.find((o) => o.value === method)?.label ?? method;
+}
+
+/**
+ * Format the rate for display: the custom value with its unit, otherwise the rate type label
+ */
+export function formatExchangeRate(
+  rateType: ExchangeRateType,
+  rateValue: number | string | null | undefined
+): string {
+  if (rateType === 'CUSTOM' && rateValue != null) {
+    return `${Number(rateValue).toLocaleString('en-US')} ${EXCHANGE_RATE_UNIT}`;
+  }
+  return getExchangeRateTypeLabel(rateType);
+}
+
+/**
+ * Format a euro amount without trailing zeros for whole values, e.g. "€1,500"
+ */
+export function formatEur(amount: number | string): string {
+  return `€${Number(amount).toLocaleString('en-US', { maximumFractionDigits: 2 })}`;
+}
@@ -0,0 +1,103 @@
+/**
+ * Step configuration for the currency exchange form wizard
+ *
+ * Same shape as HOUSING_STEP_CONFIG so all wizards share the step
+ * navigation hooks.
+ */
+
+import type { ComponentType } from 'react';
+import { FaEuroSign } from 'react-icons/fa';
+import { FaArrowRightArrowLeft, FaEye, FaHandshake } from 'react-icons/fa6';
+import type { ZodSchema } from 'zod';
+
+import {
+  EXCHANGE_STEP_FIELDS,
+  exchangeStep1Schema,
+  exchangeStep2Schema,
+  exchangeStep3Schema,
+  type ExchangeFormValues,
+} from '@/lib/schemas/ads/exchange-schema';
+
+import ExchangeDialogStep1 from '../components/ad-forms/exchange/exchange-dialog-step-1';
+import ExchangeDialogStep2 from '../components/ad-forms/exchange/exchange-dialog-step-2';
+import ExchangeDialogStep3 from '../components/ad-forms/exchange/exchange-dialog-step-3';
+import ExchangeDialogStep4Review from '../components/ad-forms/exchange/exchange-dialog-step-4-review';
+import type { StepComponentType } from './housing-step-config';
+
+/**
+ * Configuration for a single step in the exchange wizard
+ */
+export interface ExchangeStepConfig {
+  /** Unique step identifier (1-based) */
+  id: number;
+  /** Short label shown in stepper UI */
+  label: string;
+  /** Full title for accessibility */
+  title: string;
+  /** Icon component for visual representation */
+  icon: ComponentType<{ className?: string }>;
+  /** Zod validation schema for this step */
+  schema: ZodSchema | null;
+  /** Step component to render */
+  component: StepComponentType;
+  /** Form fields that belong to this step */
+  fields: (keyof ExchangeFormValues)[];
+}
+
+export const EXCHANGE_STEP_CONFIG: readonly ExchangeStepConfig[] = [
+  {
+    id: 1,
+    label: 'Offer',
+    title: 'Your Offer',
+    icon: FaEuroSign,
+    schema: exchangeStep1Schema,
+    component: ExchangeDialogStep1,
+    fields: EXCHANGE_STEP_FIELDS[1],
+  },
+  {
+    id: 2,
+    label: 'Rate',
+    title: 'Rate',
+    icon: FaArrowRightArrowLeft,
+    schema: exchangeStep2Schema,
+    component: ExchangeDialogStep2,
+    fields: EXCHANGE_STEP_FIELDS[2],
+  },
+  {
+    id: 3,
+    label: 'Settlement',
+    title: 'Settlement',
+    icon: FaHandshake,
+    schema: exchangeStep3Schema,
+    component: ExchangeDialogStep3,
+    fields: EXCHANGE_STEP_FIELDS[3],
+  },
+  {
+    id: 4,
+    label: 'Review',
+    title: 'Review & Submit',
+    icon: FaEye,
+    schema: null, // Review step doesn't need validation
+    component: ExchangeDialogStep4Review,
+    fields: [],
+  },
+] as const;
+
+/**
+ * Total number of steps in the wizard
+ */
+export const EXCHANGE_TOTAL_STEPS = EXCHANGE_STEP_CONFIG.length;
+
+/**
+ * Helper to get validation schema for a specific step
+ */
+export function getExchangeStepSchema(stepNumber: number): ZodSchema | null {
+  return EXCHANGE_STEP_CONFIG.find((step) => step.id === stepNumber)?.schema ?? null;
+}
+
+/**
+ * Helper to get fields for a specific step
+ */
+export function getExchangeStepFields(stepNumber: number): (keyof ExchangeFormValues)[] {
+  return EXCHANGE_STEP_CONFIG.find((step) => step.id === stepNumber)?.fields ?? [];
+}
@@ -34,6 +34,7 @@ import {
   type HousingFormValues,
 } from '@/lib/schemas/ads/housing-schema';
 
+import type { AdReviewField } from '@/constants/ad-review-fields';
 import { COMFORT_AMENITIES_CHIPS, CORE_FEATURES_CHIPS } from '@/constants/housing-features-config';
 import HousingDialogStep1 from '../components/ad-forms/housing/housing-dialog-step-1';
 import HousingDialogStep2 from '../components/ad-forms/housing/housing-dialog-step-2';
@@ -192,6 +193,21 @@ export const HOUSING_STEP_CONFIG: readonly StepConfig[] = [
   },
 ] as const;
 
+/**
+ * Wizard step holding each part of the ad a moderator can comment on.
+ * Used to highlight steps when the ad comes back with requested changes.
+ */
+export const HOUSING_REVIEW_FIELD_STEPS: Record<AdReviewField, number> = {
+  details: 1,
+  dates: 2,
+  price: 3,
+  features: 4,
+  description: 5,
+  location: 6,
+  photos: 7,
+  other: 8,
+};
+
 /**
  * Total number of steps in the wizard
  */
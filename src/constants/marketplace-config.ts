@@ -0,0 +1,44 @@
+/**
+ * Shared option lists for marketplace ads
+ *
+ * Category values are stored as plain strings on AdMarketplace.category,
+ * so keep existing values stable when renaming labels.
+ */
+
+import type { MarketplaceCondition } from '@/generated/enums';
+
+export interface MarketplaceOption<T extends string = string> {
+  value: T;
+  label: string;
+  description?: string;
+}
+
+export const MARKETPLACE_CATEGORY_OPTIONS: readonly MarketplaceOption[] = [
+  { value: 'electronics', label: 'Electronics' },
+  { value: 'home_goods', label: 'Home & furniture' },
+  { value: 'clothing', label: 'Clothing & accessories' },
+  { value: 'books', label: 'Books & study' },
+  { value: 'sports', label: 'Sports & hobbies' },
+  { value: 'vehicles', label: 'Bikes & vehicles' },
+  { value: 'food', label: 'Food & groceries' },
+  { value: 'other', label: 'Other' },
+] as const;
+
+export const MARKETPLACE_CONDITION_OPTIONS: readonly MarketplaceOption<MarketplaceCondition>[] = [
+  { value: 'NEW', label: 'New', description: 'Never used, possibly still in its box' },
+  { value: 'LIKE_NEW', label: 'Like new', description: 'Used a few times, no visible wear' },
+  { value: 'USED', label: 'Used', description: 'Works as expected with signs of use' },
+  { value: 'HANDMADE', label: 'Handmade', description: 'Made by you or a local maker' },
+] as const;
+
+/**
+ * Resolve a stored category value to its label, falling back to the raw value
+ */
+export function getMarketplaceCategoryLabel(value: string | null | undefined): string | null {
+  if (!value) return null;
+  return MARKETPLACE_CATEGORY_OPTIONS.find((o) => o.value === value)?.label ?? value;
+}
+
+export function getMarketplaceConditionLabel(value: MarketplaceCondition): string {
+  return MARKETPLACE_CONDITION_OPTIONS.find((o) => o.value === value)?.label ?? value;
+}
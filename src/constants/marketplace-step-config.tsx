@@ -0,0 +1,106 @@
+/**
+ * Step configuration for the marketplace form wizard
+ *
+ * Same shape as HOUSING_STEP_CONFIG so both wizards share the stepper UI
+ * and the step navigation hooks.
+ */
+
+import type { ComponentType } from 'react';
+import { FaEuroSign } from 'react-icons/fa';
+import { FaBoxOpen, FaEye, FaImages } from 'react-icons/fa6';
+import type { ZodSchema } from 'zod';
+
+import {
+  MARKETPLACE_STEP_FIELDS,
+  marketplaceStep1Schema,
+  marketplaceStep2Schema,
+  marketplaceStep3Schema,
+  type MarketplaceFormValues,
+} from '@/lib/schemas/ads/marketplace-schema';
+
+import MarketDialogStep1 from '../components/ad-forms/market/market-dialog-step-1';
+import MarketDialogStep2 from '../components/ad-forms/market/market-dialog-step-2';
+import { MarketDialogStep3Images } from '../components/ad-forms/market/market-dialog-step-3-images';
+import MarketDialogStep4Review from '../components/ad-forms/market/market-dialog-step-4-review';
+import type { StepComponentType } from './housing-step-config';
+
+/**
+ * Configuration for a single step in the marketplace wizard
+ */
+export interface MarketplaceStepConfig {
+  /** Unique step identifier (1-based) */
+  id: number;
+  /** Short label shown in stepper UI */
+  label: string;
+  /** Full title for accessibility */
+  title: string;
+  /** Icon component for visual representation */
+  icon: ComponentType<{ className?: string }>;
+  /** Zod validation schema for this step */
+  schema: ZodSchema | null;
+  /** Step component to render */
+  component: StepComponentType;
+  /** Form fields that belong to this step */
+  fields: (keyof MarketplaceFormValues)[];
+  /** Whether this step requires lazy mounting (for performance) */
+  lazyMount?: boolean;
+}
+
+export const MARKETPLACE_STEP_CONFIG: readonly MarketplaceStepConfig[] = [
+  {
+    id: 1,
+    label: 'Details',
+    title: 'Item Details',
+    icon: FaBoxOpen,
+    schema: marketplaceStep1Schema,
+    component: MarketDialogStep1,
+    fields: MARKETPLACE_STEP_FIELDS[1],
+  },
+  {
+    id: 2,
+    label: 'Price',
+    title: 'Price',
+    icon: FaEuroSign,
+    schema: marketplaceStep2Schema,
+    component: MarketDialogStep2,
+    fields: MARKETPLACE_STEP_FIELDS[2],
+  },
+  {
+    id: 3,
+    label: 'Photos',
+    title: 'Item Photos',
+    icon: FaImages,
+    schema: marketplaceStep3Schema,
+    component: MarketDialogStep3Images,
+    fields: MARKETPLACE_STEP_FIELDS[3],
+    lazyMount: true, // Image uploads are heavy, mount only when needed
+  },
+  {
+    id: 4,
+    label: 'Review',
+    title: 'Review & Submit',
+    icon: FaEye,
+    schema: null, // Review step doesn't need validation
+    component: MarketDialogStep4Review,
+    fields: [],
+  },
+] as const;
+
+/**
+ * Total number of steps in the wizard
+ */
+export const MARKETPLACE_TOTAL_STEPS = MARKETPLACE_STEP_CONFIG.length;
+
+/**
+ * Helper to get validation schema for a specific step
+ */
+export function getMarketplaceStepSchema(stepNumber: number): ZodSchema | null {
+  return MARKETPLACE_STEP_CONFIG.find((step) => step.id === stepNumber)?.schema ?? null;
+}
+
+/**
+ * Helper to get fields for a specific step
+ */
+export function getMarketplaceStepFields(stepNumber: number): (keyof MarketplaceFormValues)[] {
+  return MARKETPLACE_STEP_CONFIG.find((step) => step.id === stepNumber)?.fields ?? [];
+}
@@ -0,0 +1,33 @@
+/**
+ * Flags: moderators escalating an item to admins (see moderation-flag.dal.ts)
+ */
+
+import type { ModerationTargetType } from '@/generated/enums';
+
+export const FLAG_NOTE_MAX_LENGTH = 500;
+
+// Users carry notes instead of flags
+export type FlagTargetType = Extract<ModerationTargetType, 'AD' | 'VERIFICATION' | 'REPORT'>;
+
+export const FLAG_TARGET_TYPES = [
+  'AD',
+  'VERIFICATION',
+  'REPORT',
+] as const satisfies readonly FlagTargetType[];
+
+export const FLAG_TARGET_LABELS: Record<FlagTargetType, string> = {
+  AD: 'Ad',
+  VERIFICATION: 'Verification',
+  REPORT: 'Report',
+};
+
+const FLAG_TARGET_PAGES: Record<FlagTargetType, string> = {
+  AD: '/panel/ad-moderation',
+  VERIFICATION: '/panel/verification-requests',
+  REPORT: '/panel/reports',
+};
+
+/** Moderation page that opens the item's review dialog */
+export function getFlaggedItemHref(targetType: FlagTargetType, targetId: number): string {
+  return `${FLAG_TARGET_PAGES[targetType]}?review=${targetId}`;
+}
@@ -0,0 +1,42 @@
+/**
+ * Shared option lists for ad reports (reporter dialog and moderator queue)
+ */
+
+import type { ReportOutcome, ReportReason } from '@/generated/enums';
+
+export interface ReportOption<T extends string = string> {
+  value: T;
+  label: string;
+  description?: string;
+}
+
+export const REPORT_REASON_OPTIONS: readonly ReportOption<ReportReason>[] = [
+  {
+    value: 'SCAM_FRAUD',
+    label: 'Scam or fraud',
+    description: 'Asks for money up front, fake offer',
+  },
+  { value: 'MISLEADING', label: 'Misleading', description: 'Details, price or photos are wrong' },
+  { value: 'PROHIBITED_ITEM', label: 'Prohibited item', description: 'Not allowed on ItaliaHub' },
+  { value: 'OFFENSIVE_CONTENT', label: 'Offensive content' },
+  { value: 'WRONG_CATEGORY', label: 'Wrong category' },
+  { value: 'DUPLICATE', label: 'Duplicate ad' },
+  { value: 'SPAM', label: 'Spam' },
+  { value: 'OTHER', label: 'Something else' },
+] as const;
+
+export const REPORT_OUTCOME_OPTIONS: readonly ReportOption<ReportOutcome>[] = [
+  { value: 'NO_ACTION', label: 'No action needed' },
+  { value: 'AD_REMOVED', label: 'Ad removed' },
+  { value: 'AD_EDITED', label: 'Ad edited' },
+  { value: 'USER_WARNED', label: 'User warned' },
+  { value: 'OTHER', label: 'Other' },
+] as const;
+
+export function getReportReasonLabel(reason: ReportReason): string {
+  return REPORT_REASON_OPTIONS.find((o) => o.value === reason)?.label ?? reason;
+}
+
+export function getReportOutcomeLabel(outcome: ReportOutcome): string {
+  return REPORT_OUTCOME_OPTIONS.find((o) => o.value === outcome)?.label ?? outcome;
+}
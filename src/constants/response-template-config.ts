@@ -0,0 +1,81 @@
+import type {
+  ModerationReasonCode,
+  ModerationTargetType,
+  VerificationRejectionCode,
+} from '@/generated/enums';
+
+export type ResponseTemplateTarget = Extract<ModerationTargetType, 'AD' | 'VERIFICATION'>;
+
+export const RESPONSE_TEMPLATE_LOCALES = ['en', 'fa'] as const;
+export type ResponseTemplateLocale = (typeof RESPONSE_TEMPLATE_LOCALES)[number];
+
+export const RESPONSE_TEMPLATE_LOCALE_OPTIONS: Array<{
+  value: ResponseTemplateLocale;
+  label: string;
+  dir: 'ltr' | 'rtl';
+}> = [
+  { value: 'en', label: 'English', dir: 'ltr' },
+  { value: 'fa', label: 'فارسی', dir: 'rtl' },
+];
+
+export const RESPONSE_TEMPLATE_TITLE_MAX_LENGTH = 80;
+export const RESPONSE_TEMPLATE_BODY_MAX_LENGTH = 1000;
+
+export type ResponseTemplatePlaceholder = 'adTitle' | 'city' | 'userName';
+
+/** Placeholders each kind of template may use, written as {{name}} */
+export const RESPONSE_TEMPLATE_PLACEHOLDERS: Record<
+  ResponseTemplateTarget,
+  Array<{ key: ResponseTemplatePlaceholder; description: string }>
+> = {
+  AD: [
+    { key: 'adTitle', description: 'Ad title, or a short summary for ads without one' },
+    { key: 'city', description: 'City of the ad' },
+    { key: 'userName', description: 'Name of the ad owner' },
+  ],
+  VERIFICATION: [
+    { key: 'city', description: 'City the user asked to be verified in' },
+    { key: 'userName', description: 'Name of the user' },
+  ],
+};
+
+export const MODERATION_REASON_LABELS: Record<ModerationReasonCode, string> = {
+  OFF_TOPIC: 'Off Topic',
+  WRONG_CATEGORY: 'Wrong Category',
+  INCOMPLETE_DETAILS: 'Incomplete Details',
+  SPAM: 'Spam',
+  SCAM_FRAUD: 'Scam/Fraud',
+  PROHIBITED_ITEM: 'Prohibited Item',
+  DUPLICATE: 'Duplicate Ad',
+  EXPIRED: 'Expired Content',
+  OTHER: 'Other',
+};
+
+export const VERIFICATION_REJECTION_LABELS: Record<VerificationRejectionCode, string> = {
+  INSUFFICIENT_PROOF: 'Insufficient Proof',
+  CITY_MISMATCH: 'City Mismatch',
+  EXPIRED_DOCUMENT: 'Expired Document',
+  UNREADABLE: 'Unreadable Document',
+  OTHER: 'Other Reason',
+};
+
+const PLACEHOLDER_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+/** Placeholder names used in a template body */
+export function getTemplatePlaceholders(body: string): string[] {
+  return [...new Set([...body.matchAll(PLACEHOLDER_PATTERN)].map((match) => match[1]))];
+}
+
+/**
+ * Fill {{placeholders}} with the given values. Placeholders without a value are
+ * left as they are, so the server can fill them in later (e.g. per ad in bulk rejects).
+ */
+export function renderResponseTemplate(
+  body: string,
+  values: Partial<Record<ResponseTemplatePlaceholder, string | null>>
+): string {
+  return body.replace(PLACEHOLDER_PATTERN, (match, key: string) => {
+    const value = values[key as ResponseTemplatePlaceholder];
+    return value ? value : match;
+  });
+}
@@ -0,0 +1,5 @@
+/** How long a review claim holds before another moderator can take the item */
+export const REVIEW_CLAIM_TTL_MINUTES = 10;
+
+/** The review dialog renews its claim this often while it stays open */
+export const REVIEW_CLAIM_RENEW_INTERVAL_MS = 4 * 60 * 1000;
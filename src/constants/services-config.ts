@@ -0,0 +1,73 @@
+/**
+ * Shared option lists for services ads
+ */
+
+import type { ServiceCategory, ServiceRateBasis, Weekday } from '@/generated/enums';
+
+export interface ServiceOption<T extends string = string> {
+  value: T;
+  label: string;
+  description?: string;
+}
+
+export const SERVICE_CATEGORY_OPTIONS: readonly ServiceOption<ServiceCategory>[] = [
+  { value: 'COOKING', label: 'Cooking & catering' },
+  { value: 'REPAIRS', label: 'Repairs' },
+  { value: 'CLEANING', label: 'Cleaning' },
+  { value: 'TUTORING', label: 'Tutoring' },
+  { value: 'TRANSLATION', label: 'Translation' },
+  { value: 'BEAUTY', label: 'Beauty' },
+  { value: 'IT_HELP', label: 'IT help' },
+  { value: 'MOVING', label: 'Moving' },
+  { value: 'DELIVERY', label: 'Delivery' },
+  { value: 'OTHER', label: 'Other' },
+] as const;
+
+export interface ServiceRateBasisOption extends ServiceOption<ServiceRateBasis> {
+  /** Appended to the amount, e.g. "€20/hr" */
+  suffix: string;
+}
+
+export const SERVICE_RATE_BASIS_OPTIONS: readonly ServiceRateBasisOption[] = [
+  { value: 'HOURLY', label: 'Hourly', description: 'Clients pay per hour', suffix: '/hr' },
+  { value: 'PER_TASK', label: 'Per task', description: 'One price per job', suffix: '/task' },
+  { value: 'FIXED', label: 'Fixed', description: 'A flat price for the service', suffix: '' },
+] as const;
+
+/** Ordered Monday first, as in the Italian calendar */
+export const WEEKDAY_OPTIONS: readonly (ServiceOption<Weekday> & { short: string })[] = [
+  { value: 'MON', label: 'Monday', short: 'Mon' },
+  { value: 'TUE', label: 'Tuesday', short: 'Tue' },
+  { value: 'WED', label: 'Wednesday', short: 'Wed' },
+  { value: 'THU', label: 'Thursday', short: 'Thu' },
+  { value: 'FRI', label: 'Friday', short: 'Fri' },
+  { value: 'SAT', label: 'Saturday', short: 'Sat' },
+  { value: 'SUN', label: 'Sunday', short: 'Sun' },
+] as const;
+
+export function getServiceCategoryLabel(category: ServiceCategory): string {
+  return SERVICE_CATEGORY_OPTIONS.find((o) => o.value === category)?.label ?? category;
+}
+
+export function getServiceRateBasisLabel(basis: ServiceRateBasis): string {
+  return SERVICE_RATE_BASIS_OPTIONS.find((o) => o.value === basis)?.label ?? basis;
+}
+
+/**
+ * Format a rate for display, e.g. "€25/hr"; a missing amount means the rate is on request
+ */
+export function formatServiceRate(
+  amount: number | string | null | undefined,
+  basis: ServiceRateBasis
+): string {
+  if (amount == null || Number(amount) <= 0) return 'Rate on request';
+  const suffix = SERVICE_RATE_BASIS_OPTIONS.find((o) => o.value === basis)?.suffix ?? '';
+  return `€${Number(amount)}${suffix}`;
+}
+
+/**
+ * Sort weekdays Monday-first and return their short labels
+ */
+export function formatWeekdays(days: readonly Weekday[]): string[] {
+  return WEEKDAY_OPTIONS.filter((o) => days.includes(o.value)).map((o) => o.short);
+}
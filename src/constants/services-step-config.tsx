@@ -0,0 +1,102 @@
+/**
+ * Step configuration for the services form wizard
+ *
+ * Same shape as HOUSING_STEP_CONFIG so all wizards share the step
+ * navigation hooks.
+ */
+
+import type { ComponentType } from 'react';
+import { FaBriefcase, FaEye, FaLink, FaRegCalendarCheck } from 'react-icons/fa6';
+import type { ZodSchema } from 'zod';
+
+import {
+  SERVICES_STEP_FIELDS,
+  servicesStep1Schema,
+  servicesStep2Schema,
+  servicesStep3Schema,
+  type ServicesFormValues,
+} from '@/lib/schemas/ads/services-schema';
+
+import ServicesDialogStep1 from '../components/ad-forms/services/services-dialog-step-1';
+import ServicesDialogStep2 from '../components/ad-forms/services/services-dialog-step-2';
+import ServicesDialogStep3 from '../components/ad-forms/services/services-dialog-step-3';
+import ServicesDialogStep4Review from '../components/ad-forms/services/services-dialog-step-4-review';
+import type { StepComponentType } from './housing-step-config';
+
+/**
+ * Configuration for a single step in the services wizard
+ */
+export interface ServicesStepConfig {
+  /** Unique step identifier (1-based) */
+  id: number;
+  /** Short label shown in stepper UI */
+  label: string;
+  /** Full title for accessibility */
+  title: string;
+  /** Icon component for visual representation */
+  icon: ComponentType<{ className?: string }>;
+  /** Zod validation schema for this step */
+  schema: ZodSchema | null;
+  /** Step component to render */
+  component: StepComponentType;
+  /** Form fields that belong to this step */
+  fields: (keyof ServicesFormValues)[];
+}
+
+export const SERVICES_STEP_CONFIG: readonly ServicesStepConfig[] = [
+  {
+    id: 1,
+    label: 'Service',
+    title: 'About the Service',
+    icon: FaBriefcase,
+    schema: servicesStep1Schema,
+    component: ServicesDialogStep1,
+    fields: SERVICES_STEP_FIELDS[1],
+  },
+  {
+    id: 2,
+    label: 'Rate',
+    title: 'Rate & Availability',
+    icon: FaRegCalendarCheck,
+    schema: servicesStep2Schema,
+    component: ServicesDialogStep2,
+    fields: SERVICES_STEP_FIELDS[2],
+  },
+  {
+    id: 3,
+    label: 'Portfolio',
+    title: 'Portfolio',
+    icon: FaLink,
+    schema: servicesStep3Schema,
+    component: ServicesDialogStep3,
+    fields: SERVICES_STEP_FIELDS[3],
+  },
+  {
+    id: 4,
+    label: 'Review',
+    title: 'Review & Submit',
+    icon: FaEye,
+    schema: null, // Review step doesn't need validation
+    component: ServicesDialogStep4Review,
+    fields: [],
+  },
+] as const;
+
+/**
+ * Total number of steps in the wizard
+ */
+export const SERVICES_TOTAL_STEPS = SERVICES_STEP_CONFIG.length;
+
+/**
+ * Helper to get validation schema for a specific step
+ */
+export function getServicesStepSchema(stepNumber: number): ZodSchema | null {
+  return SERVICES_STEP_CONFIG.find((step) => step.id === stepNumber)?.schema ?? null;
+}
+
+/**
+ * Helper to get fields for a specific step
+ */
+export function getServicesStepFields(stepNumber: number): (keyof ServicesFormValues)[] {
+  return SERVICES_STEP_CONFIG.find((step) => step.id === stepNumber)?.fields ?? [];
+}
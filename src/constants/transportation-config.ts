@@ -0,0 +1,81 @@
+/**
+ * Shared option lists for transportation (carrier) ads
+ *
+ * Item type values are stored as plain strings on AdTransportation,
+ * so keep existing values stable when renaming labels.
+ */
+
+import type { Country, TransportDirection, TransportPriceMode } from '@/generated/enums';
+
+export interface TransportOption<T extends string = string> {
+  value: T;
+  label: string;
+  description?: string;
+}
+
+export interface TransportDirectionOption extends TransportOption<TransportDirection> {
+  departureCountry: Country;
+  arrivalCountry: Country;
+}
+
+export const TRANSPORT_DIRECTION_OPTIONS: readonly TransportDirectionOption[] = [
+  {
+    value: 'ITALY_TO_IRAN',
+    label: 'Italy → Iran',
+    description: 'You are flying from Italy to Iran',
+    departureCountry: 'ITALY',
+    arrivalCountry: 'IRAN',
+  },
+  {
+    value: 'IRAN_TO_ITALY',
+    label: 'Iran → Italy',
+    description: 'You are flying from Iran to Italy',
+    departureCountry: 'IRAN',
+    arrivalCountry: 'ITALY',
+  },
+] as const;
+
+export const TRANSPORT_PRICE_MODE_OPTIONS: readonly TransportOption<TransportPriceMode>[] = [
+  { value: 'PER_KG', label: 'Per kg', description: 'Senders pay for the weight they ship' },
+  { value: 'FIXED_TOTAL', label: 'Fixed total', description: 'One price for the whole package' },
+  { value: 'NEGOTIABLE', label: 'Negotiable', description: 'Agree on the price in chat' },
+] as const;
+
+export const TRANSPORT_ITEM_TYPE_OPTIONS: readonly TransportOption[] = [
+  { value: 'documents', label: 'Documents' },
+  { value: 'clothing', label: 'Clothing' },
+  { value: 'sealed_food', label: 'Sealed food' },
+  { value: 'spices', label: 'Spices & dried goods' },
+  { value: 'medicine', label: 'Medicine' },
+  { value: 'cosmetics', label: 'Cosmetics' },
+  { value: 'books', label: 'Books' },
+  { value: 'electronics', label: 'Electronics' },
+  { value: 'jewelry', label: 'Jewelry' },
+  { value: 'liquids', label: 'Liquids' },
+] as const;
+
+export const COUNTRY_LABELS: Record<Country, string> = {
+  ITALY: 'Italy',
+  IRAN: 'Iran',
+};
+
+export function getTransportDirectionOption(
+  direction: TransportDirection
+): TransportDirectionOption | undefined {
+  return TRANSPORT_DIRECTION_OPTIONS.find((o) => o.value === direction);
+}
+
+export function getTransportDirectionLabel(direction: TransportDirection): string {
+  return getTransportDirectionOption(direction)?.label ?? direction;
+}
+
+export function getTransportPriceModeLabel(mode: TransportPriceMode): string {
+  return TRANSPORT_PRICE_MODE_OPTIONS.find((o) => o.value === mode)?.label ?? mode;
+}
+
+/**
+ * Resolve a stored item type value to its label, falling back to the raw value
+ */
+export function getTransportItemTypeLabel(value: string): string {
+  return TRANSPORT_ITEM_TYPE_OPTIONS.find((o) => o.value === value)?.label ?? value;
+}
@@ -0,0 +1,105 @@
+/**
+ * Step configuration for the transportation form wizard
+ *
+ * Same shape as HOUSING_STEP_CONFIG so all wizards share the step
+ * navigation hooks.
+ */
+
+import type { ComponentType } from 'react';
+import { FaEuroSign } from 'react-icons/fa';
+import { FaEye, FaPlaneDeparture, FaRoute } from 'react-icons/fa6';
+import type { ZodSchema } from 'zod';
+
+import {
+  TRANSPORTATION_STEP_FIELDS,
+  transportationStep1Schema,
+  transportationStep2Schema,
+  transportationStep3Schema,
+  type TransportationFormValues,
+} from '@/lib/schemas/ads/transportation-schema';
+
+import TransportationDialogStep1 from '../components/ad-forms/transportation/transportation-dialog-step-1';
+import TransportationDialogStep2 from '../components/ad-forms/transportation/transportation-dialog-step-2';
+import TransportationDialogStep3 from '../components/ad-forms/transportation/transportation-dialog-step-3';
+import TransportationDialogStep4Review from '../components/ad-forms/transportation/transportation-dialog-step-4-review';
+import type { StepComponentType } from './housing-step-config';
+
+/**
+ * Configuration for a single step in the transportation wizard
+ */
+export interface TransportationStepConfig {
+  /** Unique step identifier (1-based) */
+  id: number;
+  /** Short label shown in stepper UI */
+  label: string;
+  /** Full title for accessibility */
+  title: string;
+  /** Icon component for visual representation */
+  icon: ComponentType<{ className?: string }>;
+  /** Zod validation schema for this step */
+  schema: ZodSchema | null;
+  /** Step component to render */
+  component: StepComponentType;
+  /** Form fields that belong to this step */
+  fields: (keyof TransportationFormValues)[];
+}
+
+export const TRANSPORTATION_STEP_CONFIG: readonly TransportationStepConfig[] = [
+  {
+    id: 1,
+    label: 'Route',
+    title: 'Route',
+    icon: FaRoute,
+    schema: transportationStep1Schema,
+    component: TransportationDialogStep1,
+    fields: TRANSPORTATION_STEP_FIELDS[1],
+  },
+  {
+    id: 2,
+    label: 'Flight',
+    title: 'Flight & Capacity',
+    icon: FaPlaneDeparture,
+    schema: transportationStep2Schema,
+    component: TransportationDialogStep2,
+    fields: TRANSPORTATION_STEP_FIELDS[2],
+  },
+  {
+    id: 3,
+    label: 'Pricing',
+    title: 'Pricing',
+    icon: FaEuroSign,
+    schema: transportationStep3Schema,
+    component: TransportationDialogStep3,
+    fields: TRANSPORTATION_STEP_FIELDS[3],
+  },
+  {
+    id: 4,
+    label: 'Review',
+    title: 'Review & Submit',
+    icon: FaEye,
+    schema: null, // Review step doesn't need validation
+    component: TransportationDialogStep4Review,
+    fields: [],
+  },
+] as const;
+
+/**
+ * Total number of steps in the wizard
+ */
+export const TRANSPORTATION_TOTAL_STEPS = TRANSPORTATION_STEP_CONFIG.length;
+
+/**
+ * Helper to get validation schema for a specific step
+ */
+export function getTransportationStepSchema(stepNumber: number): ZodSchema | null {
+  return TRANSPORTATION_STEP_CONFIG.find((step) => step.id === stepNumber)?.schema ?? null;
+}
+
+/**
+ * Helper to get fields for a specific step
+ */
+export function getTransportationStepFields(
+  stepNumber: number
+): (keyof TransportationFormValues)[] {
+  return TRANSPORTATION_STEP_CONFIG.find((step) => step.id === stepNumber)?.fields ?? [];
+}
@@ -0,0 +1,164 @@
+import { AD_CATEGORY_BY_ID } from '@/constants/ad-categories';
+import type { AdCategory, AuditAction, AuditEntityType } from '@/generated/prisma';
+
+/**
+ * Audit row fields needed to describe an activity entry
+ */
+export interface ActivitySource {
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId: number | null;
+}
+
+export interface ActivityDescription {
+  message: string;
+  href: string | null;
+}
+
+interface DescribeContext {
+  // True when the user performed the action themselves
+  isOwnAction: boolean;
+  // Category of the ad behind the entry, when known
+  adCategory?: AdCategory | null;
+  // Reported ad, for report entries
+  reportAdId?: number | null;
+}
+
+const ENTITY_TYPE_CATEGORY: Partial<Record<AuditEntityType, AdCategory>> = {
+  AD_HOUSING: 'HOUSING',
+  AD_TRANSPORTATION: 'TRANSPORTATION',
+  AD_MARKETPLACE: 'MARKETPLACE',
+  AD_SERVICE: 'SERVICES',
+  AD_EXCHANGE: 'CURRENCY',
+};
+
+export const AD_ENTITY_TYPES: AuditEntityType[] = [
+  'AD',
+  ...Object.keys(ENTITY_TYPE_CATEGORY),
+] as AuditEntityType[];
+
+/** Actions the user did themselves that belong in their feed */
+const OWN_ACTION_MESSAGES: Partial<Record<AuditAction, string>> = {
+  REGISTER: 'You joined ItaliaHub',
+  PASSWORD_CHANGE: 'You changed your password',
+  EMAIL_CHANGE_CONFIRM: 'You changed your email address',
+  OAUTH_LINK_GOOGLE: 'You linked your Google account',
+  OAUTH_UNLINK_GOOGLE: 'You unlinked your Google account',
+  SESSION_REVOKE_ALL: 'You signed out of all devices',
+  PROFILE_COMPLETE: 'You completed your profile',
+  PROFILE_EDIT: 'You updated your profile',
+  PROFILE_NAME_EDIT: 'You changed your name',
+  PROFILE_USERID_EDIT: 'You changed your user ID',
+  PROFILE_TELEGRAMID_EDIT: 'You changed your Telegram handle',
+  PROFILE_PHOTO_CHANGE: 'You changed your profile picture',
+  PROFILE_PHOTO_DELETE: 'You removed your profile picture',
+  CITY_CHANGE: 'You changed your city',
+  VERIFICATION_SUBMIT: 'You submitted a verification request',
+};
+
+/** Ad actions, phrased for the owner; `{ad}` is replaced with e.g. "housing ad #12" */
+const AD_ACTION_MESSAGES: Partial<Record<AuditAction, { own: string; other: string }>> = {
+  AD_CREATE: { own: 'You created {ad}', other: '{ad} was created' },
+  AD_EDIT: { own: 'You edited {ad}', other: 'A moderator updated your {ad}' },
+  AD_RENEW: { own: 'You renewed {ad}', other: 'Your {ad} was renewed' },
+  AD_DELETE: { own: 'You deleted {ad}', other: 'Your {ad} was deleted' },
+  AD_APPROVE: { own: '{ad} was approved', other: 'Your {ad} was approved' },
+  AD_REJECT: { own: '{ad} was rejected', other: 'Your {ad} was rejected' },
+  AD_REQUEST_CHANGES: {
+    own: 'Changes were requested on {ad}',
+    other: 'A moderator requested changes to your {ad}',
+  },
+  AD_EXPIRE: { own: '{ad} expired', other: 'Your {ad} expired' },
+  AD_RESTORE: { own: '{ad} was sent back to review', other: 'Your {ad} was sent back to review' },
+  AD_STATUS_SET: { own: '{ad} status changed', other: 'The status of your {ad} was changed' },
+};
+
+/** Verification decisions on the user's own requests */
+const VERIFICATION_MESSAGES: Partial<Record<AuditAction, string>> = {
+  VERIFICATION_APPROVE: 'Your verification was approved',
+  VERIFICATION_REJECT: 'Your verification request was rejected',
+  VERIFICATION_REVOKE: 'Your verification was revoked',
+};
+
+/** Report lifecycle, seen by the reporter */
+const REPORT_MESSAGES: Partial<Record<AuditAction, string>> = {
+  REPORT_SUBMIT: 'You reported ad #{adId}',
+  REPORT_CLOSE: 'Your report on ad #{adId} was resolved',
+  REPORT_DISMISS: 'Your report on ad #{adId} was reviewed',
+};
+
+/** Actions the user performs on their own account or as a reporter */
+export const SELF_ACTIONS = [...Object.keys(OWN_ACTION_MESSAGES), 'REPORT_SUBMIT'] as AuditAction[];
+
+/** Ad actions performed by the owner; also kept after the ad is deleted */
+export const OWNER_AD_ACTIONS: AuditAction[] = ['AD_CREATE', 'AD_EDIT', 'AD_RENEW', 'AD_DELETE'];
+
+/** Every action that can appear in a user's feed */
+export const USER_VISIBLE_ACTIONS = [
+  ...new Set([
+    ...Object.keys(OWN_ACTION_MESSAGES),
+    ...Object.keys(AD_ACTION_MESSAGES),
+    ...Object.keys(VERIFICATION_MESSAGES),
+    ...Object.keys(REPORT_MESSAGES),
+  ]),
+] as AuditAction[];
+
+export function getAdCategoryFromEntityType(entityType: AuditEntityType): AdCategory | null {
+  return ENTITY_TYPE_CATEGORY[entityType] ?? null;
+}
+
+function formatAdLabel(entityId: number | null, category?: AdCategory | null): string {
+  const categoryName = category ? AD_CATEGORY_BY_ID[category]?.name.toLowerCase() : null;
+  const noun = categoryName ? `${categoryName} ad` : 'ad';
+  return entityId ? `${noun} #${entityId}` : noun;
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+/**
+ * Turn an audit row into a feed entry, or null when it shouldn't be shown
+ */
+export function describeActivity(
+  row: ActivitySource,
+  context: DescribeContext
+): ActivityDescription | null {
+  const adTemplate = AD_ACTION_MESSAGES[row.action];
+  if (adTemplate && AD_ENTITY_TYPES.includes(row.entityType)) {
+    const category = context.adCategory ?? getAdCategoryFromEntityType(row.entityType);
+    const template = context.isOwnAction ? adTemplate.own : adTemplate.other;
+    return {
+      message: capitalize(template.replace('{ad}', formatAdLabel(row.entityId, category))),
+      // Deleted ads have nothing to link to
+      href:
+        row.entityId && row.action !== 'AD_DELETE'
+          ? `/dashboard/ads-management/${row.entityId}`
+          : null,
+    };
+  }
+
+  const verificationMessage = VERIFICATION_MESSAGES[row.action];
+  if (verificationMessage) {
+    return { message: verificationMessage, href: '/dashboard/verification' };
+  }
+
+  const reportMessage = REPORT_MESSAGES[row.action];
+  if (reportMessage) {
+    const adId = context.reportAdId ?? null;
+    return {
+      message: reportMessage.replace('ad #{adId}', adId ? `ad #${adId}` : 'an ad'),
+      href: adId ? `/ads/${adId}` : null,
+    };
+  }
+
+  const ownMessage = context.isOwnAction ? OWN_ACTION_MESSAGES[row.action] : undefined;
+  if (ownMessage) {
+    return {
+      message: ownMessage,
+      href: row.action === 'VERIFICATION_SUBMIT' ? '/dashboard/verification' : null,
+    };
+  }
+
+  return null;
+}
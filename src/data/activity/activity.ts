@@ -1,26 +1,121 @@
-import { AuditAction, AuditEntityType, AuditOutcome } from '@/generated/prisma';
+import type { AdCategory, AuditAction, AuditEntityType, AuditOutcome } from '@/generated/prisma';
+import { prisma } from '@/lib/db';
+import {
+  AD_ENTITY_TYPES,
+  OWNER_AD_ACTIONS,
+  SELF_ACTIONS,
+  USER_VISIBLE_ACTIONS,
+  describeActivity,
+  getAdCategoryFromEntityType,
+} from './activity-format';
 
-export async function listRecentUserActivity(
+export interface UserActivityEntry {
+  id: number;
+  createdAt: Date;
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId?: number | null;
+  outcome: AuditOutcome;
+  message: string;
+  href: string | null;
+}
+
+export interface UserActivityPage {
+  entries: UserActivityEntry[];
+  // Pass back as `cursor` to load the next page; null on the last page
+  nextCursor: number | null;
+}
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 50;
+
+/**
+ * Activity feed for a user: their own account and ad actions, plus entries on
+ * their ads, verification requests and reports.
+ * Internal entries and ones moderators hid are left out.
+ */
+export async function listUserActivity(
   userId: string,
-  limit = 20
-): Promise<
-  Array<{
-    createdAt: Date;
-    action: string;
-    entityType: string;
-    entityId?: number | null;
-    outcome: string;
-  }>
-> {
-  // For now, return mock data since there's a schema mismatch between User.id (String) and AuditLog.actorUserId (Int)
-  // This should be fixed in the database schema
-  return [
-    {
-      createdAt: new Date(),
-      action: AuditAction.AD_CREATE,
-      entityType: AuditEntityType.AD,
-      entityId: 1,
-      outcome: AuditOutcome.SUCCESS,
+  options: { cursor?: number | null; limit?: number } = {}
+): Promise<UserActivityPage> {
+  const limit = Math.min(Math.max(options.limit ?? DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+
+  const [ads, verifications, reports] = await Promise.all([
+    prisma.ad.findMany({ where: { userId }, select: { id: true, category: true } }),
+    prisma.verificationRequest.findMany({ where: { userId }, select: { id: true } }),
+    prisma.adReport.findMany({
+      where: { reporterUserId: userId },
+      select: { id: true, adId: true },
+    }),
+  ]);
+
+  const adCategories = new Map<number, AdCategory>(ads.map((ad) => [ad.id, ad.category]));
+  const reportAdIds = new Map<number, number>(reports.map((r) => [r.id, r.adId]));
+
+  const rows = await prisma.auditLog.findMany({
+    where: {
+      outcome: 'SUCCESS',
+      hiddenFromUser: false,
+      action: { in: USER_VISIBLE_ACTIONS },
+      ...(options.cursor ? { id: { lt: options.cursor } } : {}),
+      OR: [
+        { actorUserId: userId, action: { in: SELF_ACTIONS } },
+        // Owner-side ad actions; moderators' work on other people's ads stays out
+        {
+          actorUserId: userId,
+          actorRole: 'USER',
+          action: { in: OWNER_AD_ACTIONS },
+          entityType: { in: AD_ENTITY_TYPES },
+        },
+        { entityType: { in: AD_ENTITY_TYPES }, entityId: { in: [...adCategories.keys()] } },
+        { entityType: 'VERIFICATION_REQUEST', entityId: { in: verifications.map((v) => v.id) } },
+        { entityType: 'AD_REPORT', entityId: { in: [...reportAdIds.keys()] } },
+      ],
+    },
+    select: {
+      id: true,
+      createdAt: true,
+      action: true,
+      outcome: true,
+      entityType: true,
+      entityId: true,
+      actorUserId: true,
     },
-  ];
+    // Ids grow with time, so they double as a stable cursor
+    orderBy: { id: 'desc' },
+    take: limit + 1,
+  });
+
+  const hasMore = rows.length > limit;
+  const pageRows = hasMore ? rows.slice(0, limit) : rows;
+
+  const entries: UserActivityEntry[] = [];
+  for (const row of pageRows) {
+    const entityId = row.entityId ?? null;
+    const isAdEntry = AD_ENTITY_TYPES.includes(row.entityType);
+    const description = describeActivity(row, {
+      isOwnAction: row.actorUserId === userId,
+      adCategory:
+        (isAdEntry && entityId !== null ? adCategories.get(entityId) : null) ??
+        getAdCategoryFromEntityType(row.entityType),
+      reportAdId:
+        row.entityType === 'AD_REPORT' && entityId !== null ? reportAdIds.get(entityId) : null,
+    });
+    if (!description) continue;
+
+    entries.push({
+      id: row.id,
+      createdAt: row.createdAt,
+      action: row.action,
+      entityType: row.entityType,
+      entityId,
+      outcome: row.outcome,
+      ...description,
+    });
+  }
+
+  return {
+    entries,
+    nextCursor: hasMore ? pageRows[pageRows.length - 1].id : null,
+  };
 }
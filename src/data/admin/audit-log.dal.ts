@@ -0,0 +1,354 @@
+/**
+ * Admin DAL for the Audit Log
+ *
+ * Queries behind the /panel/audit explorer: filtered listing with cursor
+ * pagination, single-entry drill-down and batched export. The only write is
+ * hiding an entry from the owner's activity feed; hiddenFromUser is outside
+ * the chain hash, so toggling it keeps the chain valid.
+ */
+
+import type {
+  AuditAction,
+  AuditActorRole,
+  AuditEntityType,
+  AuditOutcome,
+  Prisma,
+} from '@/generated/prisma';
+import { logFailure, logSuccess, type AuditContext } from '@/lib/audit/audit';
+import { getEnhancedAuditContext } from '@/lib/audit/audit-context';
+import { requirePermission } from '@/lib/auth/server';
+import { prisma } from '@/lib/db';
+
+// =============================================================================
+// Types for the Audit Explorer
+// =============================================================================
+
+export interface AuditLogListItem {
+  id: number;
+  createdAt: Date;
+  actorUserId: string | null;
+  actorRole: AuditActorRole | null;
+  actor: {
+    name: string | null;
+    email: string;
+    userId: string | null;
+  } | null;
+  action: AuditAction;
+  outcome: AuditOutcome;
+  errorCode: string | null;
+  entityType: AuditEntityType;
+  entityId: number | null;
+  entityRef: string | null;
+  requestId: string | null;
+  sessionId: string | null;
+  ip: string | null;
+  userAgent: string | null;
+  note: string | null;
+  hiddenFromUser: boolean;
+}
+
+export interface AuditLogDetails extends AuditLogListItem {
+  metadata: Prisma.JsonValue | null;
+  // Other entries written during the same request, oldest first
+  relatedEntries: AuditLogListItem[];
+}
+
+export interface AuditLogSearchParams {
+  // User id, email or public user handle
+  actor?: string;
+  action?: AuditAction;
+  entityType?: AuditEntityType;
+  // Matches entityId for numeric values and entityRef otherwise
+  entity?: string;
+  outcome?: AuditOutcome;
+  requestId?: string;
+  ip?: string;
+  from?: Date;
+  to?: Date;
+  cursor?: string;
+  limit?: number;
+}
+
+export interface AuditLogListResult {
+  entries: AuditLogListItem[];
+  nextCursor: string | null;
+}
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+const MAX_RELATED_ENTRIES = 100;
+const EXPORT_BATCH_SIZE = 500;
+
+// Hard ceiling so a broad export can't run unbounded
+export const AUDIT_EXPORT_MAX_ROWS = 50_000;
+
+// =============================================================================
+// Shared Prisma Selects
+// =============================================================================
+
+const auditLogListSelect = {
+  id: true,
+  createdAt: true,
+  actorUserId: true,
+  actorRole: true,
+  action: true,
+  outcome: true,
+  errorCode: true,
+  entityType: true,
+  entityId: true,
+  entityRef: true,
+  requestId: true,
+  sessionId: true,
+  ip: true,
+  userAgent: true,
+  note: true,
+  hiddenFromUser: true,
+} as const;
+
+type AuditLogRow = Omit<AuditLogListItem, 'actor'>;
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+// Cursor is "<createdAt ms>_<id>": rows are ordered by createdAt, id breaks ties
+function encodeCursor(row: { createdAt: Date; id: number }): string {
+  return `${row.createdAt.getTime()}_${row.id}`;
+}
+
+function decodeCursor(cursor: string): { createdAt: Date; id: number } | null {
+  const [time, id] = cursor.split('_').map(Number);
+  if (!Number.isInteger(time) || !Number.isInteger(id)) return null;
+  return { createdAt: new Date(time), id };
+}
+
+async function resolveActorUserId(actor: string): Promise<string> {
+  const user = await prisma.user.findFirst({
+    where: { OR: [{ id: actor }, { email: actor.toLowerCase() }, { userId: actor.toLowerCase() }] },
+    select: { id: true },
+  });
+  // Unknown actors (e.g. deleted users) are still matched by raw id
+  return user?.id ?? actor;
+}
+
+async function buildWhere(params: AuditLogSearchParams): Promise<Prisma.AuditLogWhereInput> {
+  const and: Prisma.AuditLogWhereInput[] = [];
+
+  if (params.actor) {
+    and.push({ actorUserId: await resolveActorUserId(params.actor) });
+  }
+  if (params.action) and.push({ action: params.action });
+  if (params.entityType) and.push({ entityType: params.entityType });
+  if (params.outcome) and.push({ outcome: params.outcome });
+  if (params.requestId) and.push({ requestId: params.requestId });
+  if (params.ip) and.push({ ip: params.ip });
+
+  if (params.entity) {
+    and.push(
+      /^\d+$/.test(params.entity)
+        ? { OR: [{ entityId: Number(params.entity) }, { entityRef: params.entity }] }
+        : { entityRef: params.entity }
+    );
+  }
+
+  if (params.from || params.to) {
+    and.push({
+      createdAt: {
+        ...(params.from ? { gte: params.from } : {}),
+        ...(params.to ? { lte: params.to } : {}),
+      },
+    });
+  }
+
+  const cursor = params.cursor ? decodeCursor(params.cursor) : null;
+  if (cursor) {
+    and.push({
+      OR: [
+        { createdAt: { lt: cursor.createdAt } },
+        { createdAt: cursor.createdAt, id: { lt: cursor.id } },
+      ],
+    });
+  }
+
+  return and.length > 0 ? { AND: and } : {};
+}
+
+async function attachActors<T extends AuditLogRow>(
+  rows: T[]
+): Promise<Array<T & Pick<AuditLogListItem, 'actor'>>> {
+  const actorIds = [...new Set(rows.map((row) => row.actorUserId).filter(Boolean))] as string[];
+
+  const actors: Array<{ id: string } & NonNullable<AuditLogListItem['actor']>> =
+    actorIds.length > 0
+      ? await prisma.user.findMany({
+          where: { id: { in: actorIds } },
+          select: { id: true, name: true, email: true, userId: true },
+        })
+      : [];
+  const actorsById = new Map(actors.map((actor) => [actor.id, actor]));
+
+  return rows.map((row) => {
+    const actor = row.actorUserId ? actorsById.get(row.actorUserId) : undefined;
+    return {
+      ...row,
+      actor: actor ? { name: actor.name, email: actor.email, userId: actor.userId } : null,
+    };
+  });
+}
+
+// =============================================================================
+// Queries
+// =============================================================================
+
+/**
+ * List audit entries, newest first.
+ * Ordering on createdAt keeps the [createdAt] and [actorUserId, createdAt] indexes in play.
+ */
+export async function searchAuditLogs(
+  params: AuditLogSearchParams = {}
+): Promise<AuditLogListResult> {
+  await requirePermission('audit.view');
+
+  const limit = Math.min(Math.max(params.limit ?? DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+
+  const rows = await prisma.auditLog.findMany({
+    where: await buildWhere(params),
+    select: auditLogListSelect,
+    orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+    take: limit + 1,
+  });
+
+  const hasMore = rows.length > limit;
+  const pageRows = hasMore ? rows.slice(0, limit) : rows;
+
+  return {
+    entries: await attachActors(pageRows),
+    nextCursor: hasMore ? encodeCursor(pageRows[pageRows.length - 1]) : null,
+  };
+}
+
+/**
+ * Single entry with its metadata and the other entries from the same request
+ */
+export async function getAuditLogDetails(id: number): Promise<AuditLogDetails | null> {
+  await requirePermission('audit.view');
+
+  const row = await prisma.auditLog.findUnique({
+    where: { id },
+    select: { ...auditLogListSelect, metadata: true },
+  });
+
+  if (!row) return null;
+
+  const relatedRows = row.requestId
+    ? await prisma.auditLog.findMany({
+        where: { requestId: row.requestId, id: { not: row.id } },
+        select: auditLogListSelect,
+        orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+        take: MAX_RELATED_ENTRIES,
+      })
+    : [];
+
+  const [[entry], relatedEntries] = await Promise.all([
+    attachActors([row]),
+    attachActors(relatedRows),
+  ]);
+
+  return { ...entry, relatedEntries };
+}
+
+/**
+ * Walk every entry matching the filters in batches, for export.
+ * Stops after AUDIT_EXPORT_MAX_ROWS rows.
+ */
+export async function* iterateAuditLogs(
+  params: Omit<AuditLogSearchParams, 'cursor' | 'limit'> = {}
+): AsyncGenerator<Array<AuditLogListItem & { metadata: Prisma.JsonValue | null }>> {
+  await requirePermission('audit.view');
+
+  let cursor: string | undefined;
+  let exported = 0;
+
+  while (exported < AUDIT_EXPORT_MAX_ROWS) {
+    const take = Math.min(EXPORT_BATCH_SIZE, AUDIT_EXPORT_MAX_ROWS - exported);
+    const rows = await prisma.auditLog.findMany({
+      where: await buildWhere({ ...params, cursor }),
+      select: { ...auditLogListSelect, metadata: true },
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      take,
+    });
+
+    if (rows.length === 0) return;
+
+    yield await attachActors(rows);
+
+    exported += rows.length;
+    if (rows.length < take) return;
+    cursor = encodeCursor(rows[rows.length - 1]);
+  }
+}
+
+// =============================================================================
+// Admin Action Functions
+// =============================================================================
+
+/**
+ * Hide an entry from the owner's activity feed, or show it again (admin action)
+ * - Logs AUDIT_ENTRY_HIDE / AUDIT_ENTRY_UNHIDE, itself hidden from feeds
+ */
+export async function setAuditEntryHiddenFromUser(
+  entryId: number,
+  hiddenFromUser: boolean,
+  adminUserId: string,
+  adminRole: AuditActorRole = 'ADMIN'
+): Promise<{ id: number; hiddenFromUser: boolean }> {
+  await requirePermission('audit.hide_entries');
+
+  const action = (hiddenFromUser ? 'AUDIT_ENTRY_HIDE' : 'AUDIT_ENTRY_UNHIDE') as AuditAction;
+  const auditContext: Partial<AuditContext> = {
+    actorUserId: adminUserId,
+    actorRole: adminRole,
+    ...(await getEnhancedAuditContext()),
+    hiddenFromUser: true,
+  };
+
+  try {
+    const entry = await prisma.auditLog.findUnique({
+      where: { id: entryId },
+      select: { id: true, hiddenFromUser: true },
+    });
+
+    if (!entry) {
+      throw new Error('Audit entry not found');
+    }
+
+    const updated = await prisma.auditLog.update({
+      where: { id: entryId },
+      data: { hiddenFromUser },
+      select: { id: true, hiddenFromUser: true },
+    });
+
+    await logSuccess(
+      action,
+      'AUDIT_LOG' as AuditEntityType,
+      auditContext,
+      entryId,
+      { previous: entry.hiddenFromUser, hiddenFromUser },
+      hiddenFromUser ? 'Admin hid audit entry from user' : 'Admin showed audit entry to user'
+    );
+
+    return updated;
+  } catch (error) {
+    await logFailure(
+      action,
+      'AUDIT_LOG' as AuditEntityType,
+      error instanceof Error ? error.name.substring(0, 64) : 'UnknownError',
+      auditContext,
+      entryId,
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      'Failed to change audit entry visibility'
+    ).catch(console.error);
+
+    throw error;
+  }
+}
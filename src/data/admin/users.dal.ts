@@ -1,50 +1,381 @@
-import type { AuditAction, AuditActorRole, AuditEntityType, UserRole } from '@/generated/enums';
+/**
+ * Admin DAL for Users
+ *
+ * Database operations behind the /panel/users console: searching users,
+ * loading a user's ads, verifications, reports and sessions, changing roles
+ * and limiting moderators to cities or regions.
+ */
+
+import type {
+  AdCategory,
+  AdStatus,
+  AuditAction,
+  AuditActorRole,
+  AuditEntityType,
+  Prisma,
+  ReportReason,
+  ReportStatus,
+  UserRole,
+  VerificationStatus,
+} from '@/generated/prisma';
 import { auditServerAction } from '@/lib/audit/audit';
 import { getEnhancedAuditContext } from '@/lib/audit/audit-context';
+import { requirePermission } from '@/lib/auth/server';
 import { prisma } from '@/lib/db';
 
+// =============================================================================
+// Types for the Users Console
+// =============================================================================
+
+export interface AdminUserListItem {
+  id: string;
+  name: string;
+  email: string;
+  userId: string | null;
+  image: string | null;
+  role: UserRole;
+  verified: boolean;
+  cityName: string | null;
+  createdAt: Date;
+  adsCount: number;
+}
+
+export interface AdminUserDetails extends AdminUserListItem {
+  emailVerified: boolean;
+  telegramHandle: string | null;
+  isProfileComplete: boolean;
+  verifiedAt: Date | null;
+  ads: Array<{
+    id: number;
+    category: AdCategory;
+    status: AdStatus;
+    expirationDate: Date | null;
+    createdAt: Date;
+  }>;
+  verifications: Array<{
+    id: number;
+    status: VerificationStatus;
+    submittedAt: Date;
+    reviewedAt: Date | null;
+  }>;
+  reports: Array<{
+    id: number;
+    adId: number;
+    reason: ReportReason;
+    status: ReportStatus;
+    createdAt: Date;
+  }>;
+  sessions: Array<{
+    id: string;
+    createdAt: Date;
+    expiresAt: Date;
+    ipAddress: string | null;
+    userAgent: string | null;
+  }>;
+  // Only meaningful for moderators; empty means they moderate every city
+  moderationScope: ModeratorScopeAssignment;
+}
+
+export interface ModeratorScopeAssignment {
+  cities: Array<{ id: number; name: string; region: string | null }>;
+  regions: string[];
+}
+
+export interface SetModeratorScopeInput {
+  cityIds: number[];
+  regions: string[];
+}
+
+export interface AdminUserSearchParams {
+  // Matches email, userId, name or city name
+  query?: string;
+  role?: UserRole;
+  page?: number;
+  limit?: number;
+}
+
+export interface AdminUserListResult {
+  users: AdminUserListItem[];
+  total: number;
+  totalPages: number;
+  page: number;
+  limit: number;
+}
+
+// Rows shown per section of the detail view
+const DETAIL_SECTION_LIMIT = 50;
+
+/** Thrown when an admin tries to change their own role */
+export class SelfRoleChangeError extends Error {
+  constructor() {
+    super('Admins cannot change their own role');
+    this.name = 'SelfRoleChangeError';
+  }
+}
+
+/** Thrown when a change would leave the platform without an admin */
+export class LastAdminError extends Error {
+  constructor() {
+    super('At least one admin must remain');
+    this.name = 'LastAdminError';
+  }
+}
+
+/** Thrown when assigning a moderation scope to someone who isn't a moderator */
+export class NotModeratorError extends Error {
+  constructor(userId: string) {
+    super(`User ${userId} is not a moderator`);
+    this.name = 'NotModeratorError';
+  }
+}
+
+/** Thrown when a scope references a city or region that doesn't exist */
+export class UnknownScopeLocationError extends Error {
+  constructor(location: string) {
+    super(`Unknown city or region: ${location}`);
+    this.name = 'UnknownScopeLocationError';
+  }
+}
+
+// =============================================================================
+// Shared Prisma Selects
+// =============================================================================
+
+const userListSelect = {
+  id: true,
+  name: true,
+  email: true,
+  userId: true,
+  image: true,
+  role: true,
+  verified: true,
+  createdAt: true,
+  city: { select: { name: true } },
+  _count: { select: { ads: true } },
+} as const;
+
+function transformUserForList(
+  user: Prisma.UserGetPayload<{ select: typeof userListSelect }>
+): AdminUserListItem {
+  return {
+    id: user.id,
+    name: user.name,
+    email: user.email,
+    userId: user.userId,
+    image: user.image,
+    role: user.role,
+    verified: user.verified,
+    cityName: user.city?.name ?? null,
+    createdAt: user.createdAt,
+    adsCount: user._count.ads,
+  };
+}
+
+// =============================================================================
+// Queries
+// =============================================================================
+
 /**
- * Assign role to user (admin action)
+ * Search users for the admin console, newest first
  */
-export async function assignUserRole(
+export async function searchUsersForAdmin(
+  params: AdminUserSearchParams = {}
+): Promise<AdminUserListResult> {
+  await requirePermission('users.view');
+
+  const page = params.page ?? 1;
+  const limit = params.limit ?? 20;
+  const query = params.query?.trim();
+
+  const where: Prisma.UserWhereInput = {
+    ...(params.role ? { role: params.role } : {}),
+    ...(query
+      ? {
+          OR: [
+            { email: { contains: query, mode: 'insensitive' } },
+            { userId: { contains: query, mode: 'insensitive' } },
+            { name: { contains: query, mode: 'insensitive' } },
+            { city: { name: { contains: query, mode: 'insensitive' } } },
+          ],
+        }
+      : {}),
+  };
+
+  const [users, total] = await Promise.all([
+    prisma.user.findMany({
+      where,
+      select: userListSelect,
+      orderBy: { createdAt: 'desc' },
+      skip: (page - 1) * limit,
+      take: limit,
+    }),
+    prisma.user.count({ where }),
+  ]);
+
+  return {
+    users: users.map(transformUserForList),
+    total,
+    totalPages: Math.max(1, Math.ceil(total / limit)),
+    page,
+    limit,
+  };
+}
+
+/**
+ * Full profile for the admin detail view
+ */
+export async function getUserDetailsForAdmin(userId: string): Promise<AdminUserDetails | null> {
+  await requirePermission('users.view');
+
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: {
+      ...userListSelect,
+      emailVerified: true,
+      telegramHandle: true,
+      isProfileComplete: true,
+      verifiedAt: true,
+      ads: {
+        select: { id: true, category: true, status: true, expirationDate: true, createdAt: true },
+        orderBy: { createdAt: 'desc' },
+        take: DETAIL_SECTION_LIMIT,
+      },
+      verificationRequests: {
+        select: { id: true, status: true, submittedAt: true, reviewedAt: true },
+        orderBy: { submittedAt: 'desc' },
+        take: DETAIL_SECTION_LIMIT,
+      },
+      reportedAds: {
+        select: { id: true, adId: true, reason: true, status: true, createdAt: true },
+        orderBy: { createdAt: 'desc' },
+        take: DETAIL_SECTION_LIMIT,
+      },
+      sessions: {
+        where: { expiresAt: { gt: new Date() } },
+        select: { id: true, createdAt: true, expiresAt: true, ipAddress: true, userAgent: true },
+        orderBy: { createdAt: 'desc' },
+      },
+      moderatorScopes: {
+        select: { region: true, city: { select: { id: true, name: true, region: true } } },
+        orderBy: { createdAt: 'asc' },
+      },
+    },
+  });
+
+  if (!user) return null;
+
+  return {
+    ...transformUserForList(user),
+    emailVerified: user.emailVerified,
+    telegramHandle: user.telegramHandle,
+    isProfileComplete: user.isProfileComplete,
+    verifiedAt: user.verifiedAt,
+    ads: user.ads,
+    verifications: user.verificationRequests,
+    reports: user.reportedAds,
+    sessions: user.sessions,
+    moderationScope: {
+      cities: user.moderatorScopes.flatMap((scope) => (scope.city ? [scope.city] : [])),
+      regions: user.moderatorScopes.flatMap((scope) => (scope.region ? [scope.region] : [])),
+    },
+  };
+}
+
+// =============================================================================
+// Role Management
+// =============================================================================
+
+/**
+ * Update a user's role inside the audited operation, so rejected changes are
+ * logged too. Admins can't change their own role, and the last admin can't be demoted.
+ */
+async function changeUserRole(
+  action: AuditAction,
   targetUserId: string,
   newRole: UserRole,
   adminUserId: string,
-  adminRole: AuditActorRole = 'ADMIN'
+  adminRole: AuditActorRole,
+  note: string
 ): Promise<void> {
   const auditContext = await getEnhancedAuditContext();
 
+  const currentUser = await prisma.user.findUnique({
+    where: { id: targetUserId },
+    select: { role: true },
+  });
+
+  if (!currentUser) {
+    throw new Error('User not found');
+  }
+
+  const previousRole = currentUser.role;
+
   await auditServerAction(
-    'ROLE_ASSIGN' as AuditAction,
+    action,
     'USER' as AuditEntityType,
     async () => {
-      const currentUser = await prisma.user.findUnique({
-        where: { id: targetUserId },
-        select: { role: true },
-      });
-
-      if (!currentUser) {
-        throw new Error('User not found');
+      if (targetUserId === adminUserId) {
+        throw new SelfRoleChangeError();
       }
 
-      await prisma.user.update({
-        where: { id: targetUserId },
-        data: {
-          role: newRole,
-        },
-      });
+      await prisma.$transaction(async (tx) => {
+        // Lock the target and every admin, so two concurrent demotions can't
+        // both see another admin left
+        await tx.$queryRaw`SELECT "id" FROM "user" WHERE "role" = 'ADMIN' OR "id" = ${targetUserId} FOR UPDATE`;
 
-      return {
-        previousRole: currentUser.role,
-        newRole,
-      };
+        const target = await tx.user.findUnique({
+          where: { id: targetUserId },
+          select: { role: true },
+        });
+
+        if (!target) {
+          throw new Error('User not found');
+        }
+
+        if (target.role === 'ADMIN' && newRole !== 'ADMIN') {
+          const adminCount = await tx.user.count({ where: { role: 'ADMIN' } });
+          if (adminCount <= 1) throw new LastAdminError();
+        }
+
+        await tx.user.update({
+          where: { id: targetUserId },
+          data: { role: newRole },
+        });
+
+        // Scopes only apply to moderators; drop them when the user stops being one
+        if (newRole !== 'MODERATOR') {
+          await tx.moderatorScope.deleteMany({ where: { moderatorId: targetUserId } });
+        }
+      });
     },
     {
       actorUserId: adminUserId,
       actorRole: adminRole,
       ...auditContext,
     },
-    parseInt(targetUserId), // Target user as entity
+    targetUserId, // Target user as entity
+    note,
+    { previousRole, newRole }
+  );
+}
+
+/**
+ * Assign role to user (admin action)
+ */
+export async function assignUserRole(
+  targetUserId: string,
+  newRole: UserRole,
+  adminUserId: string,
+  adminRole: AuditActorRole = 'ADMIN'
+): Promise<void> {
+  await requirePermission('users.manage_roles');
+
+  await changeUserRole(
+    'ROLE_ASSIGN' as AuditAction,
+    targetUserId,
+    newRole,
+    adminUserId,
+    adminRole,
     `Admin assigned role ${newRole} to user`
   );
 }
@@ -57,39 +388,112 @@ export async function revokeUserRole(
   adminUserId: string,
   adminRole: AuditActorRole = 'ADMIN'
 ): Promise<void> {
-  const auditContext = await getEnhancedAuditContext();
+  await requirePermission('users.manage_roles');
 
-  await auditServerAction(
+  await changeUserRole(
     'ROLE_REVOKE' as AuditAction,
+    targetUserId,
+    'USER' as UserRole, // Default role
+    adminUserId,
+    adminRole,
+    'Admin revoked user role'
+  );
+}
+
+// =============================================================================
+// Moderation Scopes
+// =============================================================================
+
+/**
+ * Replace the cities and regions a moderator is limited to (admin action).
+ * An empty input removes the limit. Logs MODERATOR_SCOPE_UPDATE with the previous and new scope.
+ */
+export async function setModeratorScope(
+  targetUserId: string,
+  input: SetModeratorScopeInput,
+  adminUserId: string,
+  adminRole: AuditActorRole = 'ADMIN'
+): Promise<ModeratorScopeAssignment> {
+  await requirePermission('users.manage_roles');
+
+  const auditContext = await getEnhancedAuditContext();
+
+  const target = await prisma.user.findUnique({
+    where: { id: targetUserId },
+    select: {
+      role: true,
+      moderatorScopes: { select: { cityId: true, region: true } },
+    },
+  });
+
+  if (!target) {
+    throw new Error('User not found');
+  }
+
+  const cityIds = [...new Set(input.cityIds)];
+  const regions = [...new Set(input.regions.map((region) => region.trim()).filter(Boolean))];
+  const previous = {
+    cityIds: target.moderatorScopes.flatMap((scope) => (scope.cityId ? [scope.cityId] : [])),
+    regions: target.moderatorScopes.flatMap((scope) => (scope.region ? [scope.region] : [])),
+  };
+
+  return auditServerAction(
+    'MODERATOR_SCOPE_UPDATE' as AuditAction,
     'USER' as AuditEntityType,
     async () => {
-      const currentUser = await prisma.user.findUnique({
-        where: { id: targetUserId },
-        select: { role: true },
-      });
-
-      if (!currentUser) {
-        throw new Error('User not found');
+      if (target.role !== 'MODERATOR') {
+        throw new NotModeratorError(targetUserId);
       }
 
-      await prisma.user.update({
-        where: { id: targetUserId },
-        data: {
-          role: 'USER' as UserRole, // Default role
-        },
-      });
+      const [cities, knownRegions] = await Promise.all([
+        prisma.city.findMany({
+          where: { id: { in: cityIds } },
+          select: { id: true, name: true, region: true },
+          orderBy: { name: 'asc' },
+        }),
+        prisma.city.findMany({
+          where: { region: { in: regions } },
+          select: { region: true },
+          distinct: ['region'],
+        }),
+      ]);
 
-      return {
-        previousRole: currentUser.role,
-        newRole: 'USER',
-      };
+      const missingCity = cityIds.find((id) => !cities.some((city) => city.id === id));
+      if (missingCity !== undefined) throw new UnknownScopeLocationError(`city #${missingCity}`);
+      const missingRegion = regions.find(
+        (region) => !knownRegions.some((known) => known.region === region)
+      );
+      if (missingRegion !== undefined) throw new UnknownScopeLocationError(missingRegion);
+
+      await prisma.$transaction([
+        prisma.moderatorScope.deleteMany({ where: { moderatorId: targetUserId } }),
+        prisma.moderatorScope.createMany({
+          data: [
+            ...cityIds.map((cityId) => ({
+              moderatorId: targetUserId,
+              cityId,
+              assignedById: adminUserId,
+            })),
+            ...regions.map((region) => ({
+              moderatorId: targetUserId,
+              region,
+              assignedById: adminUserId,
+            })),
+          ],
+        }),
+      ]);
+
+      return { cities, regions };
     },
     {
       actorUserId: adminUserId,
       actorRole: adminRole,
       ...auditContext,
     },
-    parseInt(targetUserId), // Target user as entity
-    'Admin revoked user role'
+    targetUserId,
+    cityIds.length + regions.length > 0
+      ? 'Admin limited moderator to cities/regions'
+      : 'Admin removed moderator scope limits',
+    { previous, next: { cityIds, regions } }
   );
 }
@@ -0,0 +1,551 @@
+/**
+ * Exchange Ad Data Access Layer (DAL)
+ *
+ * Server-only functions for managing peer-to-peer EUR exchange ads:
+ * - Atomic transactions for Ad + AdExchange writes
+ * - Verification enforced inside the write transaction from `User.verified`,
+ *   so a stale session can never publish an offer
+ * - Filtered, paginated listings by side, amount range and settlement method
+ *
+ * Rates move quickly, so offers get a short fixed lifetime counted from
+ * creation.
+ */
+
+import { AdCategory, AdStatus, ExchangeRateType, type Prisma } from '@/generated/prisma';
+import { prisma } from '@/lib/db';
+import { Decimal } from '@prisma/client/runtime/library';
+
+import { assertAdEditable, recordAdEdit, recordAdRevision } from './ad-revisions';
+import type {
+  CreateExchangeAdInput,
+  ExchangeAdDetail,
+  ExchangeAdListItem,
+  ExchangeAdListResponse,
+  ListExchangeAdsParams,
+  ListUserExchangeAdsParams,
+  UpdateExchangeAdInput,
+} from './exchange-types';
+import { NotVerifiedError } from './exchange-types';
+import type { AdNotFoundError, CategoryMismatchError, NotOwnerError } from './housing-types';
+
+export * from './exchange-types';
+
+/**
+ * Days an exchange ad stays listed before it expires
+ */
+export const EXCHANGE_AD_LIFETIME_DAYS = 14;
+
+function getExchangeExpirationDate(from: Date = new Date()): Date {
+  const date = new Date(from);
+  date.setDate(date.getDate() + EXCHANGE_AD_LIFETIME_DAYS);
+  return date;
+}
+
+/**
+ * Relations loaded for the detail view
+ */
+const EXCHANGE_DETAIL_INCLUDE = {
+  exchange: true,
+  city: {
+    select: { name: true },
+  },
+  user: {
+    select: {
+      id: true,
+      name: true,
+      image: true,
+      verified: true,
+      telegramHandle: true,
+    },
+  },
+} as const;
+
+/**
+ * Relations loaded for list/card views
+ */
+const EXCHANGE_LIST_INCLUDE = {
+  exchange: {
+    select: {
+      side: true,
+      amountEur: true,
+      allowsPartial: true,
+      minChunkEur: true,
+      rateType: true,
+      rateValue: true,
+      exchangeMode: true,
+      settlementMethods: true,
+    },
+  },
+  city: {
+    select: { name: true },
+  },
+} as const;
+
+const trimOrNull = (value: string | null | undefined) => value?.trim() || null;
+
+/**
+ * Normalize exchange input into AdExchange column values
+ * Values that do not apply (chunk without partial, rate without CUSTOM) are dropped.
+ */
+function toExchangeData(input: CreateExchangeAdInput) {
+  const minChunk = input.allowsPartial ? input.minChunkEur : null;
+  const rateValue = input.rateType === ExchangeRateType.CUSTOM ? input.rateValue : null;
+
+  return {
+    side: input.side,
+    amountEur: new Decimal(input.amountEur),
+    allowsPartial: input.allowsPartial,
+    minChunkEur: minChunk != null ? new Decimal(minChunk) : null,
+    rateType: input.rateType,
+    rateValue: rateValue != null ? new Decimal(rateValue) : null,
+    exchangeMode: input.exchangeMode,
+    settlementMethods: [...new Set(input.settlementMethods)],
+    otherSettlementNote: input.settlementMethods.includes('OTHER')
+      ? trimOrNull(input.otherSettlementNote)
+      : null,
+    notes: trimOrNull(input.notes),
+  };
+}
+
+/**
+ * Throws unless the user row is currently marked as verified
+ */
+export async function assertUserVerified(
+  tx: Prisma.TransactionClient,
+  userId: string
+): Promise<void> {
+  const user = await tx.user.findUnique({
+    where: { id: userId },
+    select: { verified: true },
+  });
+
+  if (!user?.verified) {
+    throw new NotVerifiedError(userId);
+  }
+}
+
+/**
+ * Create a new exchange ad in a single atomic transaction
+ *
+ * @param input - Exchange ad data
+ * @returns Created ad with full details
+ *
+ * @throws {NotVerifiedError} If the user is not verified
+ *
+ * @example
+ * ```typescript
+ * const ad = await createExchangeAdWithDetails({
+ *   userId: 'user-123',
+ *   cityId: 1,
+ *   side: ExchangeSide.SELL_EUR,
+ *   amountEur: 1500,
+ *   allowsPartial: true,
+ *   minChunkEur: 200,
+ *   rateType: ExchangeRateType.MARKET,
+ *   exchangeMode: ExchangeMode.ONLINE,
+ *   settlementMethods: [SettlementMethod.BONIFICO_SEPA, SettlementMethod.REVOLUT],
+ * });
+ * ```
+ */
+export async function createExchangeAdWithDetails(
+  input: CreateExchangeAdInput
+): Promise<ExchangeAdDetail> {
+  const exchangeData = toExchangeData(input);
+
+  return prisma.$transaction(async (tx) => {
+    // 1. Only verified users can publish exchange offers
+    await assertUserVerified(tx, input.userId);
+
+    // 2. Create Ad
+    const ad = await tx.ad.create({
+      data: {
+        userId: input.userId,
+        cityId: input.cityId,
+        category: AdCategory.CURRENCY,
+        status: AdStatus.PENDING,
+        expirationDate: getExchangeExpirationDate(),
+      },
+    });
+
+    // 3. Create AdExchange
+    await tx.adExchange.create({
+      data: { adId: ad.id, ...exchangeData },
+    });
+
+    // 4. Record the first revision
+    await recordAdRevision(tx, ad.id);
+
+    // 5. Fetch and return complete ad with relations
+    const completeAd = await tx.ad.findUnique({
+      where: { id: ad.id },
+      include: EXCHANGE_DETAIL_INCLUDE,
+    });
+
+    if (!completeAd || !completeAd.exchange) {
+      throw new Error('Failed to fetch created ad');
+    }
+
+    return mapToExchangeAdDetail(completeAd);
+  });
+}
+
+/**
+ * Update an existing exchange ad in a single atomic transaction
+ * Material changes send the ad back to PENDING for review (see recordAdEdit).
+ * The expiration date is kept; only renewAd extends it.
+ *
+ * @param input - Updated exchange ad data with adId
+ * @returns Updated ad with full details
+ *
+ * @throws {AdNotFoundError} If ad doesn't exist
+ * @throws {NotOwnerError} If user is not the owner
+ * @throws {CategoryMismatchError} If ad is not an exchange ad
+ * @throws {AdExpiredError} If the ad has expired (renew it instead)
+ * @throws {NotVerifiedError} If the user is no longer verified
+ */
+export async function updateExchangeAdWithDetails(
+  input: UpdateExchangeAdInput
+): Promise<ExchangeAdDetail> {
+  const exchangeData = toExchangeData(input);
+
+  return prisma.$transaction(async (tx) => {
+    // 1. Verify ad exists and user is owner
+    const existingAd = await tx.ad.findUnique({
+      where: { id: input.adId },
+      select: { userId: true, category: true, status: true, expirationDate: true },
+    });
+
+    if (!existingAd) {
+      throw new Error(`Ad with id ${input.adId} not found`) as AdNotFoundError;
+    }
+
+    if (existingAd.userId !== input.userId) {
+      throw new Error(`User ${input.userId} is not the owner of ad ${input.adId}`) as NotOwnerError;
+    }
+
+    if (existingAd.category !== AdCategory.CURRENCY) {
+      throw new Error(
+        `Expected category CURRENCY but found ${existingAd.category}`
+      ) as CategoryMismatchError;
+    }
+
+    assertAdEditable(input.adId, existingAd);
+
+    // 2. An edit re-publishes the offer, so verification is checked again
+    await assertUserVerified(tx, input.userId);
+
+    // 3. Update Ad
+    await tx.ad.update({
+      where: { id: input.adId },
+      data: {
+        cityId: input.cityId,
+      },
+    });
+
+    // 4. Update AdExchange
+    await tx.adExchange.update({
+      where: { adId: input.adId },
+      data: exchangeData,
+    });
+
+    // 5. Record the revision; material changes send the ad back to review
+    await recordAdEdit(tx, input.adId, existingAd.status);
+
+    // 6. Fetch and return complete ad with relations
+    const completeAd = await tx.ad.findUnique({
+      where: { id: input.adId },
+      include: EXCHANGE_DETAIL_INCLUDE,
+    });
+
+    if (!completeAd || !completeAd.exchange) {
+      throw new Error('Failed to fetch updated ad');
+    }
+
+    return mapToExchangeAdDetail(completeAd);
+  });
+}
+
+/**
+ * Get an exchange ad by ID with full details
+ *
+ * @param adId - Ad ID
+ * @returns Full ad details or null if not found
+ */
+export async function getExchangeAdById(adId: number): Promise<ExchangeAdDetail | null> {
+  const ad = await prisma.ad.findUnique({
+    where: { id: adId },
+    include: EXCHANGE_DETAIL_INCLUDE,
+  });
+
+  if (!ad || !ad.exchange || ad.category !== AdCategory.CURRENCY) {
+    return null;
+  }
+
+  return mapToExchangeAdDetail(ad);
+}
+
+/**
+ * Get an exchange ad by ID ensuring user is the owner
+ *
+ * @param adId - Ad ID
+ * @param userId - User ID
+ * @returns Full ad details or null if not found or not owner
+ */
+export async function getExchangeAdByIdForUser(
+  adId: number,
+  userId: string
+): Promise<ExchangeAdDetail | null> {
+  const ad = await prisma.ad.findFirst({
+    where: {
+      id: adId,
+      userId,
+      category: AdCategory.CURRENCY,
+    },
+    include: EXCHANGE_DETAIL_INCLUDE,
+  });
+
+  if (!ad || !ad.exchange) {
+    return null;
+  }
+
+  return mapToExchangeAdDetail(ad);
+}
+
+/**
+ * List exchange ads with filtering and pagination
+ *
+ * @param params - Filter and pagination parameters
+ * @returns Paginated list of exchange ads
+ *
+ * @example
+ * ```typescript
+ * const result = await listExchangeAds({
+ *   cityId: 1,
+ *   status: AdStatus.ONLINE,
+ *   side: ExchangeSide.SELL_EUR,
+ *   minAmountEur: 500,
+ *   settlementMethods: [SettlementMethod.REVOLUT],
+ *   page: 1,
+ *   pageSize: 20,
+ * });
+ * ```
+ */
+export async function listExchangeAds(
+  params: ListExchangeAdsParams
+): Promise<ExchangeAdListResponse> {
+  const {
+    cityId,
+    status,
+    side,
+    minAmountEur,
+    maxAmountEur,
+    rateType,
+    exchangeMode,
+    settlementMethods,
+    excludeExpired = false,
+    page = 1,
+    pageSize = 20,
+    sort = 'created-desc',
+  } = params;
+
+  const where: Prisma.AdWhereInput = {
+    category: AdCategory.CURRENCY,
+  };
+
+  if (cityId) where.cityId = cityId;
+  if (status) where.status = status;
+
+  // Ads past their expiration date are treated as EXPIRED regardless of stored status
+  if (excludeExpired) {
+    where.OR = [{ expirationDate: null }, { expirationDate: { gte: new Date() } }];
+  }
+
+  // Exchange-specific filters
+  const exchangeWhere: Prisma.AdExchangeWhereInput = {};
+  if (side) exchangeWhere.side = side;
+  if (rateType) exchangeWhere.rateType = rateType;
+  if (exchangeMode) exchangeWhere.exchangeMode = exchangeMode;
+  if (settlementMethods?.length) {
+    exchangeWhere.settlementMethods = { hasSome: settlementMethods };
+  }
+
+  if (minAmountEur !== undefined || maxAmountEur !== undefined) {
+    exchangeWhere.amountEur = {
+      ...(minAmountEur !== undefined && { gte: new Decimal(minAmountEur) }),
+      ...(maxAmountEur !== undefined && { lte: new Decimal(maxAmountEur) }),
+    };
+  }
+
+  if (Object.keys(exchangeWhere).length > 0) {
+    where.exchange = exchangeWhere;
+  }
+
+  let orderBy: Prisma.AdOrderByWithRelationInput;
+  switch (sort) {
+    case 'created-asc':
+      orderBy = { createdAt: 'asc' };
+      break;
+    case 'amount-asc':
+      orderBy = { exchange: { amountEur: 'asc' } };
+      break;
+    case 'amount-desc':
+      orderBy = { exchange: { amountEur: 'desc' } };
+      break;
+    case 'created-desc':
+    default:
+      orderBy = { createdAt: 'desc' };
+      break;
+  }
+
+  const [items, total] = await Promise.all([
+    prisma.ad.findMany({
+      where,
+      include: EXCHANGE_LIST_INCLUDE,
+      orderBy,
+      skip: (page - 1) * pageSize,
+      take: pageSize,
+    }),
+    prisma.ad.count({ where }),
+  ]);
+
+  return {
+    items: items.filter((ad) => ad.exchange).map(mapToExchangeAdListItem),
+    total,
+    page,
+    pageSize,
+    totalPages: Math.ceil(total / pageSize),
+  };
+}
+
+/**
+ * List user's own exchange ads
+ *
+ * @param params - User ID and filter parameters
+ * @returns Paginated list of user's exchange ads
+ */
+export async function listUserExchangeAds(
+  params: ListUserExchangeAdsParams
+): Promise<ExchangeAdListResponse> {
+  const { userId, status, page = 1, pageSize = 20, sort = 'created-desc' } = params;
+
+  const where: Prisma.AdWhereInput = {
+    userId,
+    category: AdCategory.CURRENCY,
+  };
+
+  if (status) where.status = status;
+
+  const [items, total] = await Promise.all([
+    prisma.ad.findMany({
+      where,
+      include: EXCHANGE_LIST_INCLUDE,
+      orderBy: { createdAt: sort === 'created-asc' ? 'asc' : 'desc' },
+      skip: (page - 1) * pageSize,
+      take: pageSize,
+    }),
+    prisma.ad.count({ where }),
+  ]);
+
+  return {
+    items: items.filter((ad) => ad.exchange).map(mapToExchangeAdListItem),
+    total,
+    page,
+    pageSize,
+    totalPages: Math.ceil(total / pageSize),
+  };
+}
+
+/**
+ * Lifecycle: Delete ad (user action)
+ * Permanently removes ad and all related data. Deleting does not require
+ * verification, so users who lost their badge can still clean up.
+ */
+export async function deleteExchangeAd(adId: number, userId: string): Promise<void> {
+  await prisma.$transaction(async (tx) => {
+    const ad = await tx.ad.findFirst({
+      where: { id: adId, userId, category: AdCategory.CURRENCY },
+    });
+
+    if (!ad) {
+      throw new Error(`Ad ${adId} not found or not owned by user`) as AdNotFoundError;
+    }
+
+    // Cascade deletes will handle AdExchange
+    await tx.ad.delete({
+      where: { id: adId },
+    });
+  });
+}
+
+/**
+ * Helper: Map Prisma result to ExchangeAdDetail
+ */
+function mapToExchangeAdDetail(
+  ad: Prisma.AdGetPayload<{ include: typeof EXCHANGE_DETAIL_INCLUDE }>
+): ExchangeAdDetail {
+  // Callers check the exchange row before mapping
+  const e = ad.exchange!;
+
+  return {
+    id: ad.id,
+    userId: ad.userId,
+    cityId: ad.cityId,
+    cityName: ad.city.name,
+    category: ad.category,
+    status: ad.status,
+    expirationDate: ad.expirationDate,
+    viewsCount: ad.viewsCount,
+    contactClicksCount: ad.contactClicksCount,
+    createdAt: ad.createdAt,
+    updatedAt: ad.updatedAt,
+    exchange: {
+      side: e.side,
+      amountEur: e.amountEur.toNumber(),
+      allowsPartial: e.allowsPartial,
+      minChunkEur: e.minChunkEur?.toNumber() ?? null,
+      rateType: e.rateType,
+      rateValue: e.rateValue?.toNumber() ?? null,
+      exchangeMode: e.exchangeMode,
+      settlementMethods: e.settlementMethods,
+      otherSettlementNote: e.otherSettlementNote,
+      notes: e.notes,
+    },
+    user: {
+      id: ad.user.id,
+      name: ad.user.name,
+      image: ad.user.image,
+      verified: ad.user.verified,
+      telegramHandle: ad.user.telegramHandle,
+    },
+  };
+}
+
+/**
+ * Helper: Map Prisma result to ExchangeAdListItem
+ */
+function mapToExchangeAdListItem(
+  ad: Prisma.AdGetPayload<{ include: typeof EXCHANGE_LIST_INCLUDE }>
+): ExchangeAdListItem {
+  // Callers filter out ads without an exchange row
+  const e = ad.exchange!;
+
+  return {
+    id: ad.id,
+    userId: ad.userId,
+    cityId: ad.cityId,
+    cityName: ad.city.name,
+    status: ad.status,
+    expirationDate: ad.expirationDate,
+    viewsCount: ad.viewsCount,
+    contactClicksCount: ad.contactClicksCount,
+    createdAt: ad.createdAt,
+    side: e.side,
+    amountEur: e.amountEur.toNumber(),
+    allowsPartial: e.allowsPartial,
+    minChunkEur: e.minChunkEur?.toNumber() ?? null,
+    rateType: e.rateType,
+    rateValue: e.rateValue?.toNumber() ?? null,
+    exchangeMode: e.exchangeMode,
+    settlementMethods: e.settlementMethods,
+  };
+}
@@ -18,10 +18,12 @@ import {
   HousingContractType,
   HousingRentalKind,
   MediaRole,
+  type Prisma,
 } from '@/generated/prisma';
 import { prisma } from '@/lib/db';
 import { Decimal } from '@prisma/client/runtime/library';
 
+import { assertAdEditable, recordAdEdit, recordAdRevision } from './ad-revisions';
 import type {
   AdNotFoundError,
   CategoryMismatchError,
@@ -53,6 +55,51 @@ function fromDecimal(value: Decimal | null | undefined): number | null {
   return value.toNumber();
 }
 
+/**
+ * Relations loaded for list/card views
+ * Shared by public search and user listings so cards render the same preview
+ */
+const HOUSING_LIST_INCLUDE = {
+  housing: {
+    select: {
+      rentalKind: true,
+      unitType: true,
+      propertyType: true,
+      priceType: true,
+      priceAmount: true,
+      priceNegotiable: true,
+      neighborhood: true,
+      availabilityStartDate: true,
+      availabilityEndDate: true,
+      contractType: true,
+      billsPolicy: true,
+      heatingType: true,
+      genderPreference: true,
+      householdSize: true,
+      floorNumber: true,
+      numberOfBathrooms: true,
+      newlyRenovated: true,
+      furnished: true,
+      kitchenEquipped: true,
+      privateBathroom: true,
+      balcony: true,
+      hasElevator: true,
+      wifi: true,
+      airConditioning: true,
+      dishwasher: true,
+      washingMachine: true,
+      clothesDryer: true,
+      doubleGlazedWindows: true,
+    },
+  },
+  coverMedia: {
+    select: { storageKey: true, alt: true },
+  },
+  city: {
+    select: { name: true },
+  },
+} as const;
+
 /**
  * Normalize housing input based on rental kind
  * Ensures only applicable fields are set for each rental type
@@ -269,7 +316,10 @@ export async function createHousingAdWithMedia(
       data: { coverMediaId: coverMedia.id },
     });
 
-    // 5. Fetch and return complete ad with relations
+    // 5. Record the first revision
+    await recordAdRevision(tx, ad.id);
+
+    // 6. Fetch and return complete ad with relations
     const completeAd = await tx.ad.findUnique({
       where: { id: ad.id },
       include: {
@@ -312,6 +362,7 @@ export async function createHousingAdWithMedia(
  * @throws {AdNotFoundError} If ad doesn't exist
  * @throws {NotOwnerError} If user is not the owner
  * @throws {CategoryMismatchError} If ad is not a housing ad
+ * @throws {AdExpiredError} If the ad has expired (renew it instead)
  *
  * @example
  * ```typescript
@@ -363,14 +414,19 @@ export async function updateHousingAdWithMedia(
       ) as CategoryMismatchError;
     }
 
+    assertAdEditable(input.adId, existingAd);
+
     // 2. Update Ad
     await tx.ad.update({
       where: { id: input.adId },
       data: {
         cityId: input.cityId,
-        expirationDate: input.availabilityStartDate,
+        // Expiry follows the availability date, which is material, so moving it requeues the ad
+        ...(existingAd.expirationDate?.getTime() !== input.availabilityStartDate.getTime() && {
+          expirationDate: input.availabilityStartDate,
+          expiryReminderSentAt: null,
+        }),
         mediaCount: input.images.length,
-        status: AdStatus.PENDING, // Reset to pending on edit
         updatedAt: new Date(),
       },
     });
@@ -458,7 +514,10 @@ export async function updateHousingAdWithMedia(
       data: { coverMediaId: coverMedia.id },
     });
 
-    // 7. Fetch and return complete ad with relations
+    // 7. Record the revision; material changes send the ad back to review
+    await recordAdEdit(tx, input.adId, existingAd.status);
+
+    // 8. Fetch and return complete ad with relations
     const completeAd = await tx.ad.findUnique({
       where: { id: input.adId },
       include: {
@@ -605,6 +664,7 @@ export async function listHousingAds(params: ListHousingAdsParams): Promise<Hous
     propertyType,
     minPrice,
     maxPrice,
+    excludeExpired = false,
     page = 1,
     pageSize = 20,
     sort = 'created-desc',
@@ -618,6 +678,11 @@ export async function listHousingAds(params: ListHousingAdsParams): Promise<Hous
   if (cityId) where.cityId = cityId;
   if (status) where.status = status;
 
+  // Ads past their expiration date are treated as EXPIRED regardless of stored status
+  if (excludeExpired) {
+    where.OR = [{ expirationDate: null }, { expirationDate: { gte: new Date() } }];
+  }
+
   // Housing-specific filters
   const housingWhere: any = {};
   if (rentalKind) housingWhere.rentalKind = rentalKind;
@@ -657,26 +722,7 @@ export async function listHousingAds(params: ListHousingAdsParams): Promise<Hous
   const [items, total] = await Promise.all([
     prisma.ad.findMany({
       where,
-      include: {
-        housing: {
-          select: {
-            rentalKind: true,
-            unitType: true,
-            propertyType: true,
-            priceType: true,
-            priceAmount: true,
-            priceNegotiable: true,
-            neighborhood: true,
-            availabilityStartDate: true,
-          },
-        },
-        coverMedia: {
-          select: { storageKey: true },
-        },
-        city: {
-          select: { name: true },
-        },
-      },
+      include: HOUSING_LIST_INCLUDE,
       orderBy,
       skip: (page - 1) * pageSize,
       take: pageSize,
@@ -686,27 +732,7 @@ export async function listHousingAds(params: ListHousingAdsParams): Promise<Hous
 
   const mappedItems: HousingAdListItem[] = items
     .filter((ad) => ad.housing) // Ensure housing exists
-    .map((ad) => ({
-      id: ad.id,
-      userId: ad.userId,
-      cityId: ad.cityId,
-      cityName: ad.city.name,
-      status: ad.status,
-      expirationDate: ad.expirationDate,
-      viewsCount: ad.viewsCount,
-      contactClicksCount: ad.contactClicksCount,
-      createdAt: ad.createdAt,
-      rentalKind: ad.housing!.rentalKind,
-      unitType: ad.housing!.unitType,
-      propertyType: ad.housing!.propertyType,
-      priceType: ad.housing!.priceType,
-      priceAmount: fromDecimal(ad.housing!.priceAmount),
-      priceNegotiable: ad.housing!.priceNegotiable,
-      neighborhood: ad.housing!.neighborhood,
-      availabilityStartDate: ad.housing!.availabilityStartDate,
-      coverImageStorageKey: ad.coverMedia?.storageKey ?? null,
-      mediaCount: ad.mediaCount,
-    }));
+    .map(mapToHousingAdListItem);
 
   return {
     items: mappedItems,
@@ -750,26 +776,7 @@ export async function listUserHousingAds(
   const [items, total] = await Promise.all([
     prisma.ad.findMany({
       where,
-      include: {
-        housing: {
-          select: {
-            rentalKind: true,
-            unitType: true,
-            propertyType: true,
-            priceType: true,
-            priceAmount: true,
-            priceNegotiable: true,
-            neighborhood: true,
-            availabilityStartDate: true,
-          },
-        },
-        coverMedia: {
-          select: { storageKey: true },
-        },
-        city: {
-          select: { name: true },
-        },
-      },
+      include: HOUSING_LIST_INCLUDE,
       orderBy,
       skip: (page - 1) * pageSize,
       take: pageSize,
@@ -779,27 +786,7 @@ export async function listUserHousingAds(
 
   const mappedItems: HousingAdListItem[] = items
     .filter((ad) => ad.housing)
-    .map((ad) => ({
-      id: ad.id,
-      userId: ad.userId,
-      cityId: ad.cityId,
-      cityName: ad.city.name,
-      status: ad.status,
-      expirationDate: ad.expirationDate,
-      viewsCount: ad.viewsCount,
-      contactClicksCount: ad.contactClicksCount,
-      createdAt: ad.createdAt,
-      rentalKind: ad.housing!.rentalKind,
-      unitType: ad.housing!.unitType,
-      propertyType: ad.housing!.propertyType,
-      priceType: ad.housing!.priceType,
-      priceAmount: fromDecimal(ad.housing!.priceAmount),
-      priceNegotiable: ad.housing!.priceNegotiable,
-      neighborhood: ad.housing!.neighborhood,
-      availabilityStartDate: ad.housing!.availabilityStartDate,
-      coverImageStorageKey: ad.coverMedia?.storageKey ?? null,
-      mediaCount: ad.mediaCount,
-    }));
+    .map(mapToHousingAdListItem);
 
   return {
     items: mappedItems,
@@ -902,27 +889,6 @@ export async function deleteHousingAd(adId: number, userId: string): Promise<voi
   });
 }
 
-/**
- * Refresh ad expiration date based on availability start date
- */
-export async function refreshHousingAdExpiration(adId: number, userId: string): Promise<void> {
-  await prisma.$transaction(async (tx) => {
-    const ad = await tx.ad.findFirst({
-      where: { id: adId, userId, category: AdCategory.HOUSING },
-      include: { housing: true },
-    });
-
-    if (!ad || !ad.housing) {
-      throw new Error(`Ad ${adId} not found or not owned by user`) as AdNotFoundError;
-    }
-
-    await tx.ad.update({
-      where: { id: adId },
-      data: { expirationDate: ad.housing.availabilityStartDate },
-    });
-  });
-}
-
 /**
  * Helper: Map Prisma result to HousingAdDetail
  */
@@ -1003,3 +969,54 @@ function mapToHousingAdDetail(ad: any): HousingAdDetail {
     },
   };
 }
+
+/**
+ * Helper: Map Prisma result to HousingAdListItem
+ */
+function mapToHousingAdListItem(
+  ad: Prisma.AdGetPayload<{ include: typeof HOUSING_LIST_INCLUDE }>
+): HousingAdListItem {
+  return {
+    id: ad.id,
+    userId: ad.userId,
+    cityId: ad.cityId,
+    cityName: ad.city.name,
+    status: ad.status,
+    expirationDate: ad.expirationDate,
+    viewsCount: ad.viewsCount,
+    contactClicksCount: ad.contactClicksCount,
+    createdAt: ad.createdAt,
+    // Callers filter out ads without a housing row
+    rentalKind: ad.housing!.rentalKind,
+    unitType: ad.housing!.unitType,
+    propertyType: ad.housing!.propertyType,
+    priceType: ad.housing!.priceType,
+    priceAmount: fromDecimal(ad.housing!.priceAmount),
+    priceNegotiable: ad.housing!.priceNegotiable,
+    neighborhood: ad.housing!.neighborhood,
+    availabilityStartDate: ad.housing!.availabilityStartDate,
+    availabilityEndDate: ad.housing!.availabilityEndDate,
+    contractType: ad.housing!.contractType,
+    billsPolicy: ad.housing!.billsPolicy,
+    heatingType: ad.housing!.heatingType,
+    genderPreference: ad.housing!.genderPreference,
+    householdSize: ad.housing!.householdSize,
+    floorNumber: ad.housing!.floorNumber,
+    numberOfBathrooms: ad.housing!.numberOfBathrooms,
+    newlyRenovated: ad.housing!.newlyRenovated,
+    furnished: ad.housing!.furnished,
+    kitchenEquipped: ad.housing!.kitchenEquipped,
+    privateBathroom: ad.housing!.privateBathroom,
+    balcony: ad.housing!.balcony,
+    hasElevator: ad.housing!.hasElevator,
+    wifi: ad.housing!.wifi,
+    airConditioning: ad.housing!.airConditioning,
+    dishwasher: ad.housing!.dishwasher,
+    washingMachine: ad.housing!.washingMachine,
+    clothesDryer: ad.housing!.clothesDryer,
+    doubleGlazedWindows: ad.housing!.doubleGlazedWindows,
+    coverImageStorageKey: ad.coverMedia?.storageKey ?? null,
+    coverImageAlt: ad.coverMedia?.alt ?? null,
+    mediaCount: ad.mediaCount,
+  };
+}
@@ -0,0 +1,600 @@
+/**
+ * Marketplace Ad Data Access Layer (DAL)
+ *
+ * Server-only functions for managing marketplace (buy & sell) ads:
+ * - Atomic transactions for Ad + AdMarketplace + MediaAsset writes
+ * - Media asset management with cover image handling
+ * - Filtered, paginated listings for public and user views
+ *
+ * Marketplace ads have no date of their own, so expiration is a fixed
+ * lifetime counted from creation.
+ */
+
+import { AdCategory, AdStatus, MediaRole, type Prisma } from '@/generated/prisma';
+import { prisma } from '@/lib/db';
+import { Decimal } from '@prisma/client/runtime/library';
+
+import { assertAdEditable, recordAdEdit, recordAdRevision } from './ad-revisions';
+import type { AdNotFoundError, CategoryMismatchError, NotOwnerError } from './housing-types';
+import type {
+  CreateMarketplaceAdInput,
+  ListMarketplaceAdsParams,
+  ListUserMarketplaceAdsParams,
+  MarketplaceAdDetail,
+  MarketplaceAdListItem,
+  MarketplaceAdListResponse,
+  UpdateMarketplaceAdInput,
+} from './marketplace-types';
+
+export * from './marketplace-types';
+
+/**
+ * Days a marketplace ad stays listed before it expires
+ */
+export const MARKETPLACE_AD_LIFETIME_DAYS = 30;
+
+function getMarketplaceExpirationDate(from: Date = new Date()): Date {
+  const date = new Date(from);
+  date.setDate(date.getDate() + MARKETPLACE_AD_LIFETIME_DAYS);
+  return date;
+}
+
+/**
+ * Relations loaded for the detail view
+ */
+const MARKETPLACE_DETAIL_INCLUDE = {
+  marketplace: true,
+  mediaAssets: {
+    orderBy: { order: 'asc' },
+  },
+  city: {
+    select: { name: true },
+  },
+  user: {
+    select: {
+      id: true,
+      name: true,
+      image: true,
+      verified: true,
+      telegramHandle: true,
+    },
+  },
+} as const;
+
+/**
+ * Relations loaded for list/card views
+ */
+const MARKETPLACE_LIST_INCLUDE = {
+  marketplace: {
+    select: {
+      title: true,
+      price: true,
+      condition: true,
+      category: true,
+    },
+  },
+  coverMedia: {
+    select: { storageKey: true, alt: true },
+  },
+  city: {
+    select: { name: true },
+  },
+} as const;
+
+/**
+ * Validate images before any write
+ */
+function assertValidImages(input: CreateMarketplaceAdInput) {
+  // Validate: At least one image required
+  if (!input.images || input.images.length === 0) {
+    throw new Error('At least one image is required');
+  }
+
+  // Validate: Cover image must be in images array
+  const coverImageExists = input.images.some(
+    (img) => img.storageKey === input.coverImageStorageKey
+  );
+  if (!coverImageExists) {
+    throw new Error('Cover image must be one of the uploaded images');
+  }
+}
+
+/**
+ * Normalize marketplace input into AdMarketplace column values
+ */
+function toMarketplaceData(input: CreateMarketplaceAdInput) {
+  return {
+    title: input.title.trim(),
+    description: input.description.trim(),
+    price: new Decimal(input.price),
+    condition: input.condition,
+    category: input.category?.trim() || null,
+  };
+}
+
+/**
+ * Create media assets for an ad and point the ad's cover at the selected one
+ */
+async function writeMediaAssets(
+  tx: Prisma.TransactionClient,
+  adId: number,
+  input: CreateMarketplaceAdInput
+) {
+  const mediaAssets = await Promise.all(
+    input.images.map((img, index) =>
+      tx.mediaAsset.create({
+        data: {
+          adId,
+          role: MediaRole.GALLERY,
+          storageKey: img.storageKey,
+          mimeType: img.mimeType ?? null,
+          alt: img.alt ?? null,
+          width: img.width ?? null,
+          height: img.height ?? null,
+          bytes: img.bytes ?? null,
+          order: index,
+        },
+      })
+    )
+  );
+
+  const coverMedia = mediaAssets.find((m) => m.storageKey === input.coverImageStorageKey);
+  if (!coverMedia) {
+    throw new Error('Cover media not found after creation');
+  }
+
+  await tx.ad.update({
+    where: { id: adId },
+    data: { coverMediaId: coverMedia.id },
+  });
+}
+
+/**
+ * Create a new marketplace ad with media assets in a single atomic transaction
+ *
+ * @param input - Marketplace ad data with images
+ * @returns Created ad with full details
+ *
+ * @example
+ * ```typescript
+ * const ad = await createMarketplaceAdWithMedia({
+ *   userId: 'user-123',
+ *   cityId: 1,
+ *   title: 'IKEA desk',
+ *   description: 'White desk, 120x60, pick up only',
+ *   condition: MarketplaceCondition.USED,
+ *   category: 'home_goods',
+ *   price: 40,
+ *   images: [{ storageKey: 'ads/marketplace/img1.jpg', mimeType: 'image/jpeg' }],
+ *   coverImageStorageKey: 'ads/marketplace/img1.jpg',
+ * });
+ * ```
+ */
+export async function createMarketplaceAdWithMedia(
+  input: CreateMarketplaceAdInput
+): Promise<MarketplaceAdDetail> {
+  assertValidImages(input);
+
+  const marketplaceData = toMarketplaceData(input);
+
+  return prisma.$transaction(async (tx) => {
+    // 1. Create Ad
+    const ad = await tx.ad.create({
+      data: {
+        userId: input.userId,
+        cityId: input.cityId,
+        category: AdCategory.MARKETPLACE,
+        status: AdStatus.PENDING,
+        expirationDate: getMarketplaceExpirationDate(),
+        mediaCount: input.images.length,
+      },
+    });
+
+    // 2. Create AdMarketplace
+    await tx.adMarketplace.create({
+      data: { adId: ad.id, ...marketplaceData },
+    });
+
+    // 3. Create MediaAssets and set cover
+    await writeMediaAssets(tx, ad.id, input);
+
+    // 4. Record the first revision
+    await recordAdRevision(tx, ad.id);
+
+    // 5. Fetch and return complete ad with relations
+    const completeAd = await tx.ad.findUnique({
+      where: { id: ad.id },
+      include: MARKETPLACE_DETAIL_INCLUDE,
+    });
+
+    if (!completeAd || !completeAd.marketplace) {
+      throw new Error('Failed to fetch created ad');
+    }
+
+    return mapToMarketplaceAdDetail(completeAd);
+  });
+}
+
+/**
+ * Update an existing marketplace ad with media assets in a single atomic transaction
+ * Material changes send the ad back to PENDING for review (see recordAdEdit).
+ * The expiration date is kept; only renewAd extends it.
+ *
+ * @param input - Updated marketplace ad data with adId
+ * @returns Updated ad with full details
+ *
+ * @throws {AdNotFoundError} If ad doesn't exist
+ * @throws {NotOwnerError} If user is not the owner
+ * @throws {CategoryMismatchError} If ad is not a marketplace ad
+ * @throws {AdExpiredError} If the ad has expired (renew it instead)
+ */
+export async function updateMarketplaceAdWithMedia(
+  input: UpdateMarketplaceAdInput
+): Promise<MarketplaceAdDetail> {
+  assertValidImages(input);
+
+  const marketplaceData = toMarketplaceData(input);
+
+  return prisma.$transaction(async (tx) => {
+    // 1. Verify ad exists and user is owner
+    const existingAd = await tx.ad.findUnique({
+      where: { id: input.adId },
+      select: { userId: true, category: true, status: true, expirationDate: true },
+    });
+
+    if (!existingAd) {
+      throw new Error(`Ad with id ${input.adId} not found`) as AdNotFoundError;
+    }
+
+    if (existingAd.userId !== input.userId) {
+      throw new Error(`User ${input.userId} is not the owner of ad ${input.adId}`) as NotOwnerError;
+    }
+
+    if (existingAd.category !== AdCategory.MARKETPLACE) {
+      throw new Error(
+        `Expected category MARKETPLACE but found ${existingAd.category}`
+      ) as CategoryMismatchError;
+    }
+
+    assertAdEditable(input.adId, existingAd);
+
+    // 2. Update Ad
+    await tx.ad.update({
+      where: { id: input.adId },
+      data: {
+        cityId: input.cityId,
+        mediaCount: input.images.length,
+      },
+    });
+
+    // 3. Update AdMarketplace
+    await tx.adMarketplace.update({
+      where: { adId: input.adId },
+      data: marketplaceData,
+    });
+
+    // 4. Replace media assets and set cover
+    await tx.mediaAsset.deleteMany({
+      where: { adId: input.adId },
+    });
+    await writeMediaAssets(tx, input.adId, input);
+
+    // 5. Record the revision; material changes send the ad back to review
+    await recordAdEdit(tx, input.adId, existingAd.status);
+
+    // 6. Fetch and return complete ad with relations
+    const completeAd = await tx.ad.findUnique({
+      where: { id: input.adId },
+      include: MARKETPLACE_DETAIL_INCLUDE,
+    });
+
+    if (!completeAd || !completeAd.marketplace) {
+      throw new Error('Failed to fetch updated ad');
+    }
+
+    return mapToMarketplaceAdDetail(completeAd);
+  });
+}
+
+/**
+ * Get a marketplace ad by ID with full details
+ *
+ * @param adId - Ad ID
+ * @returns Full ad details or null if not found
+ */
+export async function getMarketplaceAdById(adId: number): Promise<MarketplaceAdDetail | null> {
+  const ad = await prisma.ad.findUnique({
+    where: { id: adId },
+    include: MARKETPLACE_DETAIL_INCLUDE,
+  });
+
+  if (!ad || !ad.marketplace || ad.category !== AdCategory.MARKETPLACE) {
+    return null;
+  }
+
+  return mapToMarketplaceAdDetail(ad);
+}
+
+/**
+ * Get a marketplace ad by ID ensuring user is the owner
+ *
+ * @param adId - Ad ID
+ * @param userId - User ID
+ * @returns Full ad details or null if not found or not owner
+ */
+export async function getMarketplaceAdByIdForUser(
+  adId: number,
+  userId: string
+): Promise<MarketplaceAdDetail | null> {
+  const ad = await prisma.ad.findFirst({
+    where: {
+      id: adId,
+      userId,
+      category: AdCategory.MARKETPLACE,
+    },
+    include: MARKETPLACE_DETAIL_INCLUDE,
+  });
+
+  if (!ad || !ad.marketplace) {
+    return null;
+  }
+
+  return mapToMarketplaceAdDetail(ad);
+}
+
+/**
+ * List marketplace ads with filtering and pagination
+ *
+ * @param params - Filter and pagination parameters
+ * @returns Paginated list of marketplace ads
+ *
+ * @example
+ * ```typescript
+ * const result = await listMarketplaceAds({
+ *   cityId: 1,
+ *   status: AdStatus.ONLINE,
+ *   condition: MarketplaceCondition.LIKE_NEW,
+ *   maxPrice: 100,
+ *   page: 1,
+ *   pageSize: 20,
+ * });
+ * ```
+ */
+export async function listMarketplaceAds(
+  params: ListMarketplaceAdsParams
+): Promise<MarketplaceAdListResponse> {
+  const {
+    cityId,
+    status,
+    condition,
+    itemCategory,
+    minPrice,
+    maxPrice,
+    search,
+    excludeExpired = false,
+    page = 1,
+    pageSize = 20,
+    sort = 'created-desc',
+  } = params;
+
+  const where: Prisma.AdWhereInput = {
+    category: AdCategory.MARKETPLACE,
+  };
+
+  if (cityId) where.cityId = cityId;
+  if (status) where.status = status;
+
+  // Ads past their expiration date are treated as EXPIRED regardless of stored status
+  if (excludeExpired) {
+    where.OR = [{ expirationDate: null }, { expirationDate: { gte: new Date() } }];
+  }
+
+  // Marketplace-specific filters
+  const marketplaceWhere: Prisma.AdMarketplaceWhereInput = {};
+  if (condition) marketplaceWhere.condition = condition;
+  if (itemCategory) marketplaceWhere.category = itemCategory;
+  if (search?.trim()) {
+    marketplaceWhere.title = { contains: search.trim(), mode: 'insensitive' };
+  }
+
+  // Price range filter
+  if (minPrice !== undefined || maxPrice !== undefined) {
+    marketplaceWhere.price = {
+      ...(minPrice !== undefined && { gte: new Decimal(minPrice) }),
+      ...(maxPrice !== undefined && { lte: new Decimal(maxPrice) }),
+    };
+  }
+
+  if (Object.keys(marketplaceWhere).length > 0) {
+    where.marketplace = marketplaceWhere;
+  }
+
+  let orderBy: Prisma.AdOrderByWithRelationInput;
+  switch (sort) {
+    case 'created-asc':
+      orderBy = { createdAt: 'asc' };
+      break;
+    case 'price-asc':
+      orderBy = { marketplace: { price: 'asc' } };
+      break;
+    case 'price-desc':
+      orderBy = { marketplace: { price: 'desc' } };
+      break;
+    case 'created-desc':
+    default:
+      orderBy = { createdAt: 'desc' };
+      break;
+  }
+
+  const [items, total] = await Promise.all([
+    prisma.ad.findMany({
+      where,
+      include: MARKETPLACE_LIST_INCLUDE,
+      orderBy,
+      skip: (page - 1) * pageSize,
+      take: pageSize,
+    }),
+    prisma.ad.count({ where }),
+  ]);
+
+  return {
+    items: items.filter((ad) => ad.marketplace).map(mapToMarketplaceAdListItem),
+    total,
+    page,
+    pageSize,
+    totalPages: Math.ceil(total / pageSize),
+  };
+}
+
+/**
+ * List user's own marketplace ads
+ *
+ * @param params - User ID and filter parameters
+ * @returns Paginated list of user's marketplace ads
+ */
+export async function listUserMarketplaceAds(
+  params: ListUserMarketplaceAdsParams
+): Promise<MarketplaceAdListResponse> {
+  const { userId, status, page = 1, pageSize = 20, sort = 'created-desc' } = params;
+
+  const where: Prisma.AdWhereInput = {
+    userId,
+    category: AdCategory.MARKETPLACE,
+  };
+
+  if (status) where.status = status;
+
+  const [items, total] = await Promise.all([
+    prisma.ad.findMany({
+      where,
+      include: MARKETPLACE_LIST_INCLUDE,
+      orderBy: { createdAt: sort === 'created-asc' ? 'asc' : 'desc' },
+      skip: (page - 1) * pageSize,
+      take: pageSize,
+    }),
+    prisma.ad.count({ where }),
+  ]);
+
+  return {
+    items: items.filter((ad) => ad.marketplace).map(mapToMarketplaceAdListItem),
+    total,
+    page,
+    pageSize,
+    totalPages: Math.ceil(total / pageSize),
+  };
+}
+
+/**
+ * Lifecycle: Delete ad (user action)
+ * Permanently removes ad and all related data
+ */
+export async function deleteMarketplaceAd(adId: number, userId: string): Promise<void> {
+  await prisma.$transaction(async (tx) => {
+    const ad = await tx.ad.findFirst({
+      where: { id: adId, userId, category: AdCategory.MARKETPLACE },
+    });
+
+    if (!ad) {
+      throw new Error(`Ad ${adId} not found or not owned by user`) as AdNotFoundError;
+    }
+
+    // Cascade deletes will handle AdMarketplace and MediaAssets
+    await tx.ad.delete({
+      where: { id: adId },
+    });
+  });
+}
+
+/**
+ * Whether an image is attached to an ad owned by someone other than the user
+ */
+export async function isMediaAttachedToOtherUsersAd(
+  storageKey: string,
+  userId: string
+): Promise<boolean> {
+  const media = await prisma.mediaAsset.findFirst({
+    where: { storageKey, ad: { userId: { not: userId } } },
+    select: { id: true },
+  });
+
+  return media !== null;
+}
+
+/**
+ * Helper: Map Prisma result to MarketplaceAdDetail
+ */
+function mapToMarketplaceAdDetail(
+  ad: Prisma.AdGetPayload<{ include: typeof MARKETPLACE_DETAIL_INCLUDE }>
+): MarketplaceAdDetail {
+  // Callers check the marketplace row before mapping
+  const marketplace = ad.marketplace!;
+
+  return {
+    id: ad.id,
+    userId: ad.userId,
+    cityId: ad.cityId,
+    cityName: ad.city.name,
+    category: ad.category,
+    status: ad.status,
+    expirationDate: ad.expirationDate,
+    viewsCount: ad.viewsCount,
+    contactClicksCount: ad.contactClicksCount,
+    createdAt: ad.createdAt,
+    updatedAt: ad.updatedAt,
+    marketplace: {
+      title: marketplace.title,
+      description: marketplace.description,
+      price: marketplace.price.toNumber(),
+      condition: marketplace.condition,
+      category: marketplace.category,
+    },
+    mediaAssets: ad.mediaAssets.map((m) => ({
+      id: m.id,
+      storageKey: m.storageKey,
+      mimeType: m.mimeType,
+      alt: m.alt,
+      order: m.order,
+      width: m.width,
+      height: m.height,
+      bytes: m.bytes,
+    })),
+    coverMediaId: ad.coverMediaId,
+    mediaCount: ad.mediaCount,
+    user: {
+      id: ad.user.id,
+      name: ad.user.name,
+      image: ad.user.image,
+      verified: ad.user.verified,
+      telegramHandle: ad.user.telegramHandle,
+    },
+  };
+}
+
+/**
+ * Helper: Map Prisma result to MarketplaceAdListItem
+ */
+function mapToMarketplaceAdListItem(
+  ad: Prisma.AdGetPayload<{ include: typeof MARKETPLACE_LIST_INCLUDE }>
+): MarketplaceAdListItem {
+  // Callers filter out ads without a marketplace row
+  const marketplace = ad.marketplace!;
+
+  return {
+    id: ad.id,
+    userId: ad.userId,
+    cityId: ad.cityId,
+    cityName: ad.city.name,
+    status: ad.status,
+    expirationDate: ad.expirationDate,
+    viewsCount: ad.viewsCount,
+    contactClicksCount: ad.contactClicksCount,
+    createdAt: ad.createdAt,
+    title: marketplace.title,
+    price: marketplace.price.toNumber(),
+    condition: marketplace.condition,
+    itemCategory: marketplace.category,
+    coverImageStorageKey: ad.coverMedia?.storageKey ?? null,
+    coverImageAlt: ad.coverMedia?.alt ?? null,
+    mediaCount: ad.mediaCount,
+  };
+}
@@ -0,0 +1,167 @@
+import {
+  AD_RENEWALS_PER_MONTH,
+  AD_RENEWAL_LIMIT_WINDOW_DAYS,
+  canRenewAd,
+} from '@/constants/ad-renewal-config';
+import { AdCategory, AdStatus } from '@/generated/prisma';
+import { prisma } from '@/lib/db';
+import { EXCHANGE_AD_LIFETIME_DAYS, assertUserVerified } from './ad-exchange';
+import { hasMaterialChangesSinceApproval } from './ad-revisions';
+import { MARKETPLACE_AD_LIFETIME_DAYS } from './ad-marketplace';
+import { SERVICES_AD_LIFETIME_DAYS } from './ad-services';
+import type { AdNotFoundError } from './housing-types';
+
+/**
+ * Days added per renewal. Categories without an entry can't be renewed.
+ */
+export const AD_RENEWAL_PERIOD_DAYS: Partial<Record<AdCategory, number>> = {
+  HOUSING: 30,
+  MARKETPLACE: MARKETPLACE_AD_LIFETIME_DAYS,
+  SERVICES: SERVICES_AD_LIFETIME_DAYS,
+  CURRENCY: EXCHANGE_AD_LIFETIME_DAYS,
+};
+
+const AD_AUDIT_ENTITY_TYPES = [
+  'AD',
+  'AD_HOUSING',
+  'AD_TRANSPORTATION',
+  'AD_MARKETPLACE',
+  'AD_SERVICE',
+  'AD_EXCHANGE',
+] as const;
+
+/**
+ * Domain errors
+ */
+export class AdNotRenewableError extends Error {
+  constructor(adId: number) {
+    super(`Ad ${adId} cannot be renewed in its current state`);
+    this.name = 'AdNotRenewableError';
+  }
+}
+
+export class RenewalLimitError extends Error {
+  constructor(adId: number) {
+    super(`Ad ${adId} reached the renewal limit`);
+    this.name = 'RenewalLimitError';
+  }
+}
+
+export interface RenewAdResult {
+  status: AdStatus;
+  expirationDate: Date;
+  previousStatus: AdStatus;
+  previousExpirationDate: Date | null;
+  // True when the ad went back to review instead of straight online
+  requeued: boolean;
+}
+
+/**
+ * Renewals of an ad within the limit window, counted from AD_RENEW audit entries
+ */
+export async function countRecentRenewals(adId: number, now: Date = new Date()): Promise<number> {
+  const since = new Date(now.getTime() - AD_RENEWAL_LIMIT_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+
+  return prisma.auditLog.count({
+    where: {
+      action: 'AD_RENEW',
+      outcome: 'SUCCESS',
+      entityType: 'AD',
+      entityId: adId,
+      createdAt: { gte: since },
+    },
+  });
+}
+
+/**
+ * Whether the owner edited the ad after its last approval.
+ * Ads that were never approved count as changed. Revisions decide when the ad
+ * has them, so minor edits don't requeue; older ads fall back to the audit log.
+ */
+async function hasContentChangedSinceApproval(adId: number, ownerId: string): Promise<boolean> {
+  const materialChange = await hasMaterialChangesSinceApproval(adId);
+  if (materialChange !== null) return materialChange;
+
+  const lastApproval = await prisma.moderationAction.findFirst({
+    where: { adId, action: 'APPROVE' },
+    orderBy: { createdAt: 'desc' },
+    select: { createdAt: true },
+  });
+
+  if (!lastApproval) return true;
+
+  const editAfterApproval = await prisma.auditLog.findFirst({
+    where: {
+      action: 'AD_EDIT',
+      outcome: 'SUCCESS',
+      actorUserId: ownerId,
+      entityType: { in: [...AD_AUDIT_ENTITY_TYPES] },
+      entityId: adId,
+      createdAt: { gt: lastApproval.createdAt },
+    },
+    select: { id: true },
+  });
+
+  return !!editAfterApproval;
+}
+
+/**
+ * Extend an expired or soon-to-expire ad by its category's renewal period.
+ * The new period starts from the current expiry when that is still ahead.
+ *
+ * @throws {AdNotFoundError} If the ad doesn't exist or isn't owned by the user
+ * @throws {AdNotRenewableError} If the ad isn't expired or inside the renewal window
+ * @throws {RenewalLimitError} If the monthly renewal cap is reached
+ * @throws {NotVerifiedError} If renewing a currency ad without verification
+ */
+export async function renewAd(adId: number, userId: string): Promise<RenewAdResult> {
+  const now = new Date();
+
+  return prisma.$transaction(async (tx) => {
+    // Lock the ad so a concurrent renewal waits and then sees the extended expiry
+    await tx.$executeRaw`SELECT 1 FROM "ads" WHERE "id" = ${adId} FOR UPDATE`;
+
+    const ad = await tx.ad.findFirst({
+      where: { id: adId, userId },
+      select: { id: true, category: true, status: true, expirationDate: true },
+    });
+
+    if (!ad) {
+      throw new Error(`Ad ${adId} not found or not owned by user`) as AdNotFoundError;
+    }
+
+    const periodDays = AD_RENEWAL_PERIOD_DAYS[ad.category];
+    if (!periodDays || !canRenewAd(ad, now)) {
+      throw new AdNotRenewableError(adId);
+    }
+
+    if ((await countRecentRenewals(adId, now)) >= AD_RENEWALS_PER_MONTH) {
+      throw new RenewalLimitError(adId);
+    }
+
+    if (ad.category === AdCategory.CURRENCY) {
+      await assertUserVerified(tx, userId);
+    }
+
+    const requeued = await hasContentChangedSinceApproval(adId, userId);
+
+    const base = ad.expirationDate && ad.expirationDate > now ? ad.expirationDate : now;
+    const expirationDate = new Date(base);
+    expirationDate.setDate(expirationDate.getDate() + periodDays);
+
+    const status = requeued ? AdStatus.PENDING : AdStatus.ONLINE;
+
+    await tx.ad.update({
+      where: { id: adId },
+      data: { status, expirationDate, expiryReminderSentAt: null },
+    });
+
+    return {
+      status,
+      expirationDate,
+      previousStatus: ad.status,
+      previousExpirationDate: ad.expirationDate,
+      requeued,
+    };
+  });
+}
@@ -0,0 +1,308 @@
+/**
+ * Ad Revisions Data Access Layer (DAL)
+ *
+ * Every create and edit stores a snapshot of the ad (city, category details
+ * and media set). Approving an ad marks its latest revision as approved, so
+ * moderators can diff later edits against what they signed off on.
+ *
+ * Edits to ONLINE ads stay online when they only touch fields listed in
+ * NON_MATERIAL_REVISION_FIELDS; any other change sends the ad back to PENDING.
+ */
+
+import { NON_MATERIAL_REVISION_FIELDS } from '@/constants/ad-revision-config';
+import { AdStatus, type AdCategory, type Prisma } from '@/generated/prisma';
+import { prisma } from '@/lib/db';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type AdRevisionValue = string | number | boolean | null | string[];
+
+export interface AdRevisionSnapshot {
+  category: AdCategory;
+  cityId: number;
+  // Category detail row (ad_housing, ad_marketplace, ...) without its key
+  details: Record<string, AdRevisionValue>;
+  // Storage keys in gallery order
+  media: string[];
+  coverStorageKey: string | null;
+}
+
+export interface AdRevisionItem {
+  id: number;
+  revisionNumber: number;
+  createdAt: Date;
+  approvedAt: Date | null;
+  snapshot: AdRevisionSnapshot;
+}
+
+export interface AdEditOutcome {
+  revisionNumber: number;
+  status: AdStatus;
+  // True when the edit sent the ad back to review
+  requeued: boolean;
+  changedFields: string[];
+}
+
+const snapshotInclude = {
+  housing: true,
+  transportation: true,
+  marketplace: true,
+  service: true,
+  exchange: true,
+  mediaAssets: { select: { storageKey: true }, orderBy: { order: 'asc' as const } },
+  coverMedia: { select: { storageKey: true } },
+} as const;
+
+// Top-level keys compared besides the category details
+const MEDIA_FIELD = 'media';
+const COVER_FIELD = 'cover';
+const CITY_FIELD = 'cityId';
+
+/**
+ * Domain errors
+ */
+export class AdExpiredError extends Error {
+  constructor(adId: number) {
+    super(`Ad ${adId} has expired and must be renewed before editing`);
+    this.name = 'AdExpiredError';
+  }
+}
+
+// =============================================================================
+// Snapshots
+// =============================================================================
+
+function toRevisionValue(value: unknown): AdRevisionValue {
+  if (value === null || value === undefined) return null;
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) return value.map((v) => String(v));
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+    return value;
+  }
+  // Prisma Decimal and anything else with a meaningful string form
+  return String(value);
+}
+
+async function buildSnapshot(
+  tx: Prisma.TransactionClient,
+  adId: number
+): Promise<AdRevisionSnapshot> {
+  const ad = await tx.ad.findUnique({ where: { id: adId }, include: snapshotInclude });
+
+  if (!ad) {
+    throw new Error(`Ad with id ${adId} not found`);
+  }
+
+  const detailRow = ad.housing ?? ad.transportation ?? ad.marketplace ?? ad.service ?? ad.exchange;
+  const details: Record<string, AdRevisionValue> = {};
+  for (const [key, value] of Object.entries(detailRow ?? {})) {
+    if (key === 'adId') continue;
+    details[key] = toRevisionValue(value);
+  }
+
+  return {
+    category: ad.category,
+    cityId: ad.cityId,
+    details,
+    media: ad.mediaAssets.map((m) => m.storageKey),
+    coverStorageKey: ad.coverMedia?.storageKey ?? null,
+  };
+}
+
+function toRevisionItem(revision: {
+  id: number;
+  revisionNumber: number;
+  createdAt: Date;
+  approvedAt: Date | null;
+  snapshot: Prisma.JsonValue;
+}): AdRevisionItem {
+  return {
+    id: revision.id,
+    revisionNumber: revision.revisionNumber,
+    createdAt: revision.createdAt,
+    approvedAt: revision.approvedAt,
+    snapshot: revision.snapshot as unknown as AdRevisionSnapshot,
+  };
+}
+
+/**
+ * Names of the fields that differ between two snapshots.
+ * Detail fields use their column name; media, cover and cityId are top-level.
+ */
+export function diffAdSnapshots(from: AdRevisionSnapshot, to: AdRevisionSnapshot): string[] {
+  const changed: string[] = [];
+
+  if (from.cityId !== to.cityId) changed.push(CITY_FIELD);
+
+  const keys = new Set([...Object.keys(from.details), ...Object.keys(to.details)]);
+  for (const key of keys) {
+    if (JSON.stringify(from.details[key] ?? null) !== JSON.stringify(to.details[key] ?? null)) {
+      changed.push(key);
+    }
+  }
+
+  if (JSON.stringify(from.media) !== JSON.stringify(to.media)) changed.push(MEDIA_FIELD);
+  if (from.coverStorageKey !== to.coverStorageKey) changed.push(COVER_FIELD);
+
+  return changed;
+}
+
+/**
+ * Changed fields that need a moderator to look again
+ */
+export function getMaterialChanges(category: AdCategory, changedFields: string[]): string[] {
+  const minor = NON_MATERIAL_REVISION_FIELDS[category] ?? [];
+  return changedFields.filter((field) => !minor.includes(field));
+}
+
+// =============================================================================
+// Recording
+// =============================================================================
+
+/**
+ * Store the ad's current state as its next revision.
+ * Call inside the create/edit transaction, after all writes.
+ */
+export async function recordAdRevision(
+  tx: Prisma.TransactionClient,
+  adId: number
+): Promise<{ revisionNumber: number; snapshot: AdRevisionSnapshot }> {
+  const snapshot = await buildSnapshot(tx, adId);
+
+  const last = await tx.adRevision.findFirst({
+    where: { adId },
+    orderBy: { revisionNumber: 'desc' },
+    select: { revisionNumber: true },
+  });
+  const revisionNumber = (last?.revisionNumber ?? 0) + 1;
+
+  await tx.adRevision.create({
+    data: {
+      adId,
+      revisionNumber,
+      snapshot: snapshot as unknown as Prisma.InputJsonValue,
+    },
+  });
+
+  return { revisionNumber, snapshot };
+}
+
+/**
+ * Refuse owner edits on expired ads; renewAd is the only way back online,
+ * so an edit can't bypass the renewal cap. Call before any writes.
+ *
+ * @throws {AdExpiredError} If the ad is EXPIRED or past its expiration date
+ */
+export function assertAdEditable(
+  adId: number,
+  ad: { status: AdStatus; expirationDate: Date | null },
+  now: Date = new Date()
+): void {
+  if (ad.status === AdStatus.EXPIRED || (ad.expirationDate && ad.expirationDate < now)) {
+    throw new AdExpiredError(adId);
+  }
+}
+
+/**
+ * Record an owner edit and set the resulting status.
+ * ONLINE ads stay online when nothing material changed since the last approved
+ * revision; everything else goes back to PENDING for review.
+ */
+export async function recordAdEdit(
+  tx: Prisma.TransactionClient,
+  adId: number,
+  prevStatus: AdStatus
+): Promise<AdEditOutcome> {
+  const approved = await tx.adRevision.findFirst({
+    where: { adId, approvedAt: { not: null } },
+    orderBy: { revisionNumber: 'desc' },
+    select: { snapshot: true },
+  });
+
+  const { revisionNumber, snapshot } = await recordAdRevision(tx, adId);
+
+  // Without an approved baseline every change counts as material
+  const changedFields = approved
+    ? diffAdSnapshots(approved.snapshot as unknown as AdRevisionSnapshot, snapshot)
+    : [];
+  const requeued =
+    prevStatus !== AdStatus.ONLINE ||
+    !approved ||
+    getMaterialChanges(snapshot.category, changedFields).length > 0;
+
+  const status = requeued ? AdStatus.PENDING : AdStatus.ONLINE;
+
+  await tx.ad.update({
+    where: { id: adId },
+    data: { status },
+  });
+
+  return { revisionNumber, status, requeued, changedFields };
+}
+
+/**
+ * Mark the latest revision as approved. Call inside the approval transaction.
+ */
+export async function markLatestRevisionApproved(
+  tx: Prisma.TransactionClient,
+  adId: number,
+  approvedAt: Date = new Date()
+): Promise<void> {
+  const latest = await tx.adRevision.findFirst({
+    where: { adId },
+    orderBy: { revisionNumber: 'desc' },
+    select: { id: true },
+  });
+
+  if (!latest) return;
+
+  await tx.adRevision.update({
+    where: { id: latest.id },
+    data: { approvedAt },
+  });
+}
+
+// =============================================================================
+// Queries
+// =============================================================================
+
+/**
+ * Latest revision and the last approved one (the same row when the latest is approved).
+ * Callers check access.
+ */
+export async function getAdRevisionPair(adId: number): Promise<{
+  latest: AdRevisionItem | null;
+  approved: AdRevisionItem | null;
+}> {
+  const [latest, approved] = await Promise.all([
+    prisma.adRevision.findFirst({
+      where: { adId },
+      orderBy: { revisionNumber: 'desc' },
+    }),
+    prisma.adRevision.findFirst({
+      where: { adId, approvedAt: { not: null } },
+      orderBy: { revisionNumber: 'desc' },
+    }),
+  ]);
+
+  return {
+    latest: latest ? toRevisionItem(latest) : null,
+    approved: approved ? toRevisionItem(approved) : null,
+  };
+}
+
+/**
+ * Whether the latest revision has material changes since the last approved one.
+ * null when the ad has no revisions yet (created before revisions were recorded).
+ */
+export async function hasMaterialChangesSinceApproval(adId: number): Promise<boolean | null> {
+  const { latest, approved } = await getAdRevisionPair(adId);
+
+  if (!latest) return null;
+  if (!approved) return true;
+
+  const changed = diffAdSnapshots(approved.snapshot, latest.snapshot);
+  return getMaterialChanges(latest.snapshot.category, changed).length > 0;
+}
@@ -0,0 +1,519 @@
+/**
+ * Services Ad Data Access Layer (DAL)
+ *
+ * Server-only functions for managing services ads:
+ * - Atomic transactions for Ad + AdService writes
+ * - Tags normalized to lower case so tag filters are exact matches
+ * - Filtered, paginated listings by category, rate, weekday and tag
+ *
+ * Like marketplace ads, a service has no date of its own, so expiration is
+ * a fixed lifetime counted from creation.
+ */
+
+import { AdCategory, AdStatus, type Prisma } from '@/generated/prisma';
+import { prisma } from '@/lib/db';
+import { Decimal } from '@prisma/client/runtime/library';
+
+import { assertAdEditable, recordAdEdit, recordAdRevision } from './ad-revisions';
+import type { AdNotFoundError, CategoryMismatchError, NotOwnerError } from './housing-types';
+import type {
+  CreateServicesAdInput,
+  ListServicesAdsParams,
+  ListUserServicesAdsParams,
+  ServicesAdDetail,
+  ServicesAdListItem,
+  ServicesAdListResponse,
+  UpdateServicesAdInput,
+} from './services-types';
+
+export * from './services-types';
+
+/**
+ * Days a services ad stays listed before it expires
+ */
+export const SERVICES_AD_LIFETIME_DAYS = 60;
+
+function getServicesExpirationDate(from: Date = new Date()): Date {
+  const date = new Date(from);
+  date.setDate(date.getDate() + SERVICES_AD_LIFETIME_DAYS);
+  return date;
+}
+
+/**
+ * Relations loaded for the detail view
+ */
+const SERVICES_DETAIL_INCLUDE = {
+  service: true,
+  city: {
+    select: { name: true },
+  },
+  user: {
+    select: {
+      id: true,
+      name: true,
+      image: true,
+      verified: true,
+      telegramHandle: true,
+    },
+  },
+} as const;
+
+/**
+ * Relations loaded for list/card views
+ */
+const SERVICES_LIST_INCLUDE = {
+  service: {
+    select: {
+      title: true,
+      serviceCategory: true,
+      tags: true,
+      rateBasis: true,
+      rateAmount: true,
+      availabilityDays: true,
+      serviceArea: true,
+      businessName: true,
+    },
+  },
+  city: {
+    select: { name: true },
+  },
+} as const;
+
+const trimOrNull = (value: string | null | undefined) => value?.trim() || null;
+
+/**
+ * Trim, lower-case and de-duplicate tags
+ */
+const normalizeTags = (tags: string[]) => [
+  ...new Set(tags.map((t) => t.trim().toLowerCase()).filter((t) => t.length > 0)),
+];
+
+/**
+ * Normalize services input into AdService column values
+ */
+function toServiceData(input: CreateServicesAdInput) {
+  return {
+    title: input.title.trim(),
+    description: input.description.trim(),
+    serviceCategory: input.serviceCategory,
+    tags: normalizeTags(input.tags),
+    rateBasis: input.rateBasis,
+    rateAmount: input.rateAmount != null ? new Decimal(input.rateAmount) : null,
+    availabilityDays: [...new Set(input.availabilityDays)],
+    serviceArea: trimOrNull(input.serviceArea),
+    businessName: trimOrNull(input.businessName),
+    portfolioLinks: input.portfolioLinks.map((l) => l.trim()).filter((l) => l.length > 0),
+  };
+}
+
+/**
+ * Create a new services ad in a single atomic transaction
+ *
+ * @param input - Services ad data
+ * @returns Created ad with full details
+ *
+ * @example
+ * ```typescript
+ * const ad = await createServicesAdWithDetails({
+ *   userId: 'user-123',
+ *   cityId: 1,
+ *   title: 'Persian cooking for events',
+ *   description: 'Home-made Persian dishes for parties up to 30 people...',
+ *   serviceCategory: ServiceCategory.COOKING,
+ *   tags: ['catering', 'persian food'],
+ *   rateBasis: ServiceRateBasis.PER_TASK,
+ *   rateAmount: 150,
+ *   availabilityDays: [Weekday.SAT, Weekday.SUN],
+ *   portfolioLinks: ['https://instagram.com/example'],
+ * });
+ * ```
+ */
+export async function createServicesAdWithDetails(
+  input: CreateServicesAdInput
+): Promise<ServicesAdDetail> {
+  const serviceData = toServiceData(input);
+
+  return prisma.$transaction(async (tx) => {
+    // 1. Create Ad
+    const ad = await tx.ad.create({
+      data: {
+        userId: input.userId,
+        cityId: input.cityId,
+        category: AdCategory.SERVICES,
+        status: AdStatus.PENDING,
+        expirationDate: getServicesExpirationDate(),
+      },
+    });
+
+    // 2. Create AdService
+    await tx.adService.create({
+      data: { adId: ad.id, ...serviceData },
+    });
+
+    // 3. Record the first revision
+    await recordAdRevision(tx, ad.id);
+
+    // 4. Fetch and return complete ad with relations
+    const completeAd = await tx.ad.findUnique({
+      where: { id: ad.id },
+      include: SERVICES_DETAIL_INCLUDE,
+    });
+
+    if (!completeAd || !completeAd.service) {
+      throw new Error('Failed to fetch created ad');
+    }
+
+    return mapToServicesAdDetail(completeAd);
+  });
+}
+
+/**
+ * Update an existing services ad in a single atomic transaction
+ * Material changes send the ad back to PENDING for review (see recordAdEdit).
+ * The expiration date is kept; only renewAd extends it.
+ *
+ * @param input - Updated services ad data with adId
+ * @returns Updated ad with full details
+ *
+ * @throws {AdNotFoundError} If ad doesn't exist
+ * @throws {NotOwnerError} If user is not the owner
+ * @throws {CategoryMismatchError} If ad is not a services ad
+ * @throws {AdExpiredError} If the ad has expired (renew it instead)
+ */
+export async function updateServicesAdWithDetails(
+  input: UpdateServicesAdInput
+): Promise<ServicesAdDetail> {
+  const serviceData = toServiceData(input);
+
+  return prisma.$transaction(async (tx) => {
+    // 1. Verify ad exists and user is owner
+    const existingAd = await tx.ad.findUnique({
+      where: { id: input.adId },
+      select: { userId: true, category: true, status: true, expirationDate: true },
+    });
+
+    if (!existingAd) {
+      throw new Error(`Ad with id ${input.adId} not found`) as AdNotFoundError;
+    }
+
+    if (existingAd.userId !== input.userId) {
+      throw new Error(`User ${input.userId} is not the owner of ad ${input.adId}`) as NotOwnerError;
+    }
+
+    if (existingAd.category !== AdCategory.SERVICES) {
+      throw new Error(
+        `Expected category SERVICES but found ${existingAd.category}`
+      ) as CategoryMismatchError;
+    }
+
+    assertAdEditable(input.adId, existingAd);
+
+    // 2. Update Ad
+    await tx.ad.update({
+      where: { id: input.adId },
+      data: {
+        cityId: input.cityId,
+      },
+    });
+
+    // 3. Update AdService
+    await tx.adService.update({
+      where: { adId: input.adId },
+      data: serviceData,
+    });
+
+    // 4. Record the revision; material changes send the ad back to review
+    await recordAdEdit(tx, input.adId, existingAd.status);
+
+    // 5. Fetch and return complete ad with relations
+    const completeAd = await tx.ad.findUnique({
+      where: { id: input.adId },
+      include: SERVICES_DETAIL_INCLUDE,
+    });
+
+    if (!completeAd || !completeAd.service) {
+      throw new Error('Failed to fetch updated ad');
+    }
+
+    return mapToServicesAdDetail(completeAd);
+  });
+}
+
+/**
+ * Get a services ad by ID with full details
+ *
+ * @param adId - Ad ID
+ * @returns Full ad details or null if not found
+ */
+export async function getServicesAdById(adId: number): Promise<ServicesAdDetail | null> {
+  const ad = await prisma.ad.findUnique({
+    where: { id: adId },
+    include: SERVICES_DETAIL_INCLUDE,
+  });
+
+  if (!ad || !ad.service || ad.category !== AdCategory.SERVICES) {
+    return null;
+  }
+
+  return mapToServicesAdDetail(ad);
+}
+
+/**
+ * Get a services ad by ID ensuring user is the owner
+ *
+ * @param adId - Ad ID
+ * @param userId - User ID
+ * @returns Full ad details or null if not found or not owner
+ */
+export async function getServicesAdByIdForUser(
+  adId: number,
+  userId: string
+): Promise<ServicesAdDetail | null> {
+  const ad = await prisma.ad.findFirst({
+    where: {
+      id: adId,
+      userId,
+      category: AdCategory.SERVICES,
+    },
+    include: SERVICES_DETAIL_INCLUDE,
+  });
+
+  if (!ad || !ad.service) {
+    return null;
+  }
+
+  return mapToServicesAdDetail(ad);
+}
+
+/**
+ * List services ads with filtering and pagination
+ *
+ * @param params - Filter and pagination parameters
+ * @returns Paginated list of services ads
+ *
+ * @example
+ * ```typescript
+ * const result = await listServicesAds({
+ *   cityId: 1,
+ *   status: AdStatus.ONLINE,
+ *   serviceCategory: ServiceCategory.TUTORING,
+ *   availableOn: [Weekday.SAT, Weekday.SUN],
+ *   tag: 'math',
+ *   page: 1,
+ *   pageSize: 20,
+ * });
+ * ```
+ */
+export async function listServicesAds(
+  params: ListServicesAdsParams
+): Promise<ServicesAdListResponse> {
+  const {
+    cityId,
+    status,
+    serviceCategory,
+    rateBasis,
+    maxRate,
+    availableOn,
+    tag,
+    search,
+    excludeExpired = false,
+    page = 1,
+    pageSize = 20,
+    sort = 'created-desc',
+  } = params;
+
+  const where: Prisma.AdWhereInput = {
+    category: AdCategory.SERVICES,
+  };
+
+  if (cityId) where.cityId = cityId;
+  if (status) where.status = status;
+
+  // Ads past their expiration date are treated as EXPIRED regardless of stored status
+  if (excludeExpired) {
+    where.OR = [{ expirationDate: null }, { expirationDate: { gte: new Date() } }];
+  }
+
+  // Service-specific filters
+  const serviceWhere: Prisma.AdServiceWhereInput = {};
+  if (serviceCategory) serviceWhere.serviceCategory = serviceCategory;
+  if (rateBasis) serviceWhere.rateBasis = rateBasis;
+  if (maxRate !== undefined) serviceWhere.rateAmount = { lte: new Decimal(maxRate) };
+  if (availableOn?.length) serviceWhere.availabilityDays = { hasSome: availableOn };
+  if (tag?.trim()) serviceWhere.tags = { has: tag.trim().toLowerCase() };
+  if (search?.trim()) {
+    serviceWhere.title = { contains: search.trim(), mode: 'insensitive' };
+  }
+
+  if (Object.keys(serviceWhere).length > 0) {
+    where.service = serviceWhere;
+  }
+
+  let orderBy: Prisma.AdOrderByWithRelationInput;
+  switch (sort) {
+    case 'created-asc':
+      orderBy = { createdAt: 'asc' };
+      break;
+    case 'rate-asc':
+      orderBy = { service: { rateAmount: { sort: 'asc', nulls: 'last' } } };
+      break;
+    case 'rate-desc':
+      orderBy = { service: { rateAmount: { sort: 'desc', nulls: 'last' } } };
+      break;
+    case 'created-desc':
+    default:
+      orderBy = { createdAt: 'desc' };
+      break;
+  }
+
+  const [items, total] = await Promise.all([
+    prisma.ad.findMany({
+      where,
+      include: SERVICES_LIST_INCLUDE,
+      orderBy,
+      skip: (page - 1) * pageSize,
+      take: pageSize,
+    }),
+    prisma.ad.count({ where }),
+  ]);
+
+  return {
+    items: items.filter((ad) => ad.service).map(mapToServicesAdListItem),
+    total,
+    page,
+    pageSize,
+    totalPages: Math.ceil(total / pageSize),
+  };
+}
+
+/**
+ * List user's own services ads
+ *
+ * @param params - User ID and filter parameters
+ * @returns Paginated list of user's services ads
+ */
+export async function listUserServicesAds(
+  params: ListUserServicesAdsParams
+): Promise<ServicesAdListResponse> {
+  const { userId, status, page = 1, pageSize = 20, sort = 'created-desc' } = params;
+
+  const where: Prisma.AdWhereInput = {
+    userId,
+    category: AdCategory.SERVICES,
+  };
+
+  if (status) where.status = status;
+
+  const [items, total] = await Promise.all([
+    prisma.ad.findMany({
+      where,
+      include: SERVICES_LIST_INCLUDE,
+      orderBy: { createdAt: sort === 'created-asc' ? 'asc' : 'desc' },
+      skip: (page - 1) * pageSize,
+      take: pageSize,
+    }),
+    prisma.ad.count({ where }),
+  ]);
+
+  return {
+    items: items.filter((ad) => ad.service).map(mapToServicesAdListItem),
+    total,
+    page,
+    pageSize,
+    totalPages: Math.ceil(total / pageSize),
+  };
+}
+
+/**
+ * Lifecycle: Delete ad (user action)
+ * Permanently removes ad and all related data
+ */
+export async function deleteServicesAd(adId: number, userId: string): Promise<void> {
+  await prisma.$transaction(async (tx) => {
+    const ad = await tx.ad.findFirst({
+      where: { id: adId, userId, category: AdCategory.SERVICES },
+    });
+
+    if (!ad) {
+      throw new Error(`Ad ${adId} not found or not owned by user`) as AdNotFoundError;
+    }
+
+    // Cascade deletes will handle AdService
+    await tx.ad.delete({
+      where: { id: adId },
+    });
+  });
+}
+
+/**
+ * Helper: Map Prisma result to ServicesAdDetail
+ */
+function mapToServicesAdDetail(
+  ad: Prisma.AdGetPayload<{ include: typeof SERVICES_DETAIL_INCLUDE }>
+): ServicesAdDetail {
+  // Callers check the service row before mapping
+  const s = ad.service!;
+
+  return {
+    id: ad.id,
+    userId: ad.userId,
+    cityId: ad.cityId,
+    cityName: ad.city.name,
+    category: ad.category,
+    status: ad.status,
+    expirationDate: ad.expirationDate,
+    viewsCount: ad.viewsCount,
+    contactClicksCount: ad.contactClicksCount,
+    createdAt: ad.createdAt,
+    updatedAt: ad.updatedAt,
+    service: {
+      title: s.title,
+      description: s.description,
+      serviceCategory: s.serviceCategory,
+      tags: s.tags,
+      rateBasis: s.rateBasis,
+      rateAmount: s.rateAmount?.toNumber() ?? null,
+      availabilityDays: s.availabilityDays,
+      serviceArea: s.serviceArea,
+      businessName: s.businessName,
+      portfolioLinks: s.portfolioLinks,
+    },
+    user: {
+      id: ad.user.id,
+      name: ad.user.name,
+      image: ad.user.image,
+      verified: ad.user.verified,
+      telegramHandle: ad.user.telegramHandle,
+    },
+  };
+}
+
+/**
+ * Helper: Map Prisma result to ServicesAdListItem
+ */
+function mapToServicesAdListItem(
+  ad: Prisma.AdGetPayload<{ include: typeof SERVICES_LIST_INCLUDE }>
+): ServicesAdListItem {
+  // Callers filter out ads without a service row
+  const s = ad.service!;
+
+  return {
+    id: ad.id,
+    userId: ad.userId,
+    cityId: ad.cityId,
+    cityName: ad.city.name,
+    status: ad.status,
+    expirationDate: ad.expirationDate,
+    viewsCount: ad.viewsCount,
+    contactClicksCount: ad.contactClicksCount,
+    createdAt: ad.createdAt,
+    title: s.title,
+    serviceCategory: s.serviceCategory,
+    tags: s.tags,
+    rateBasis: s.rateBasis,
+    rateAmount: s.rateAmount?.toNumber() ?? null,
+    availabilityDays: s.availabilityDays,
+    serviceArea: s.serviceArea,
+    businessName: s.businessName,
+  };
+}
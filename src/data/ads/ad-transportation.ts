@@ -0,0 +1,579 @@
+/**
+ * Transportation Ad Data Access Layer (DAL)
+ *
+ * Server-only functions for managing carrier ads (Iran ↔ Italy):
+ * - Atomic transactions for Ad + AdTransportation writes
+ * - Countries derived from the direction so routes stay consistent
+ * - Filtered, paginated listings by direction, flight date window and city pair
+ *
+ * A carrier ad is only useful until the flight leaves, so its expiration
+ * date is the end of the flight day.
+ */
+
+import { AdCategory, AdStatus, Country, TransportDirection, type Prisma } from '@/generated/prisma';
+import { prisma } from '@/lib/db';
+import { Decimal } from '@prisma/client/runtime/library';
+
+import { assertAdEditable, recordAdEdit, recordAdRevision } from './ad-revisions';
+import type { AdNotFoundError, CategoryMismatchError, NotOwnerError } from './housing-types';
+import type {
+  CreateTransportationAdInput,
+  ListTransportationAdsParams,
+  ListUserTransportationAdsParams,
+  TransportationAdDetail,
+  TransportationAdListItem,
+  TransportationAdListResponse,
+  UpdateTransportationAdInput,
+} from './transportation-types';
+
+export * from './transportation-types';
+
+/**
+ * Departure and arrival country for each direction
+ */
+const DIRECTION_COUNTRIES: Record<TransportDirection, { departure: Country; arrival: Country }> = {
+  [TransportDirection.ITALY_TO_IRAN]: { departure: Country.ITALY, arrival: Country.IRAN },
+  [TransportDirection.IRAN_TO_ITALY]: { departure: Country.IRAN, arrival: Country.ITALY },
+};
+
+/**
+ * The ad stays listed until the end of the flight day
+ */
+function getTransportationExpirationDate(flightDate: Date): Date {
+  const date = new Date(flightDate);
+  date.setHours(23, 59, 59, 999);
+  return date;
+}
+
+/**
+ * Relations loaded for the detail view
+ */
+const TRANSPORTATION_DETAIL_INCLUDE = {
+  transportation: true,
+  city: {
+    select: { name: true },
+  },
+  user: {
+    select: {
+      id: true,
+      name: true,
+      image: true,
+      verified: true,
+      telegramHandle: true,
+    },
+  },
+} as const;
+
+/**
+ * Relations loaded for list/card views
+ */
+const TRANSPORTATION_LIST_INCLUDE = {
+  transportation: {
+    select: {
+      direction: true,
+      departureCity: true,
+      arrivalCity: true,
+      flightDate: true,
+      capacityKg: true,
+      priceMode: true,
+      pricePerKg: true,
+      fixedTotalPrice: true,
+    },
+  },
+  city: {
+    select: { name: true },
+  },
+} as const;
+
+const toDecimal = (value: number | null | undefined) => (value != null ? new Decimal(value) : null);
+
+const trimOrNull = (value: string | null | undefined) => value?.trim() || null;
+
+const cleanList = (values: string[]) => values.map((v) => v.trim()).filter((v) => v.length > 0);
+
+/**
+ * Normalize transportation input into AdTransportation column values
+ */
+function toTransportationData(input: CreateTransportationAdInput) {
+  const countries = DIRECTION_COUNTRIES[input.direction];
+
+  return {
+    direction: input.direction,
+    departureCity: input.departureCity.trim(),
+    departureCountry: countries.departure,
+    arrivalCity: input.arrivalCity.trim(),
+    arrivalCountry: countries.arrival,
+    additionalPickupCities: cleanList(input.additionalPickupCities),
+    additionalDeliveryCities: cleanList(input.additionalDeliveryCities),
+    routeNotes: trimOrNull(input.routeNotes),
+    flightDate: input.flightDate,
+    capacityKg: toDecimal(input.capacityKg),
+    minAcceptKg: input.minAcceptKg ?? null,
+    subjectToInspection: input.subjectToInspection,
+    documentsAccepted: input.documentsAccepted,
+    acceptedItemTypes: input.acceptedItemTypes,
+    restrictedItemTypes: input.restrictedItemTypes,
+    specialCapacityNotes: trimOrNull(input.specialCapacityNotes),
+    offersPostalForwarding: input.offersPostalForwarding,
+    acceptsPostalDropoff: input.acceptsPostalDropoff,
+    postalNotes: trimOrNull(input.postalNotes),
+    deliveryEtaDays: input.deliveryEtaDays ?? null,
+    priceMode: input.priceMode,
+    pricePerKg: toDecimal(input.pricePerKg),
+    fixedTotalPrice: toDecimal(input.fixedTotalPrice),
+    priceNotes: trimOrNull(input.priceNotes),
+    termsNotes: trimOrNull(input.termsNotes),
+  };
+}
+
+/**
+ * Create a new transportation ad in a single atomic transaction
+ *
+ * @param input - Transportation ad data
+ * @returns Created ad with full details
+ *
+ * @example
+ * ```typescript
+ * const ad = await createTransportationAdWithDetails({
+ *   userId: 'user-123',
+ *   cityId: 1,
+ *   direction: TransportDirection.ITALY_TO_IRAN,
+ *   departureCity: 'Milan',
+ *   arrivalCity: 'Tehran',
+ *   additionalPickupCities: ['Bologna'],
+ *   additionalDeliveryCities: [],
+ *   flightDate: new Date('2025-03-10'),
+ *   capacityKg: 10,
+ *   subjectToInspection: true,
+ *   documentsAccepted: true,
+ *   acceptedItemTypes: ['documents', 'clothing'],
+ *   restrictedItemTypes: ['liquids'],
+ *   offersPostalForwarding: false,
+ *   acceptsPostalDropoff: false,
+ *   priceMode: TransportPriceMode.PER_KG,
+ *   pricePerKg: 15,
+ * });
+ * ```
+ */
+export async function createTransportationAdWithDetails(
+  input: CreateTransportationAdInput
+): Promise<TransportationAdDetail> {
+  const transportationData = toTransportationData(input);
+
+  return prisma.$transaction(async (tx) => {
+    // 1. Create Ad
+    const ad = await tx.ad.create({
+      data: {
+        userId: input.userId,
+        cityId: input.cityId,
+        category: AdCategory.TRANSPORTATION,
+        status: AdStatus.PENDING,
+        expirationDate: getTransportationExpirationDate(input.flightDate),
+      },
+    });
+
+    // 2. Create AdTransportation
+    await tx.adTransportation.create({
+      data: { adId: ad.id, ...transportationData },
+    });
+
+    // 3. Record the first revision
+    await recordAdRevision(tx, ad.id);
+
+    // 4. Fetch and return complete ad with relations
+    const completeAd = await tx.ad.findUnique({
+      where: { id: ad.id },
+      include: TRANSPORTATION_DETAIL_INCLUDE,
+    });
+
+    if (!completeAd || !completeAd.transportation) {
+      throw new Error('Failed to fetch created ad');
+    }
+
+    return mapToTransportationAdDetail(completeAd);
+  });
+}
+
+/**
+ * Update an existing transportation ad in a single atomic transaction
+ * Material changes send the ad back to PENDING for review (see recordAdEdit).
+ *
+ * @param input - Updated transportation ad data with adId
+ * @returns Updated ad with full details
+ *
+ * @throws {AdNotFoundError} If ad doesn't exist
+ * @throws {NotOwnerError} If user is not the owner
+ * @throws {CategoryMismatchError} If ad is not a transportation ad
+ * @throws {AdExpiredError} If the ad has expired (renew it instead)
+ */
+export async function updateTransportationAdWithDetails(
+  input: UpdateTransportationAdInput
+): Promise<TransportationAdDetail> {
+  const transportationData = toTransportationData(input);
+
+  return prisma.$transaction(async (tx) => {
+    // 1. Verify ad exists and user is owner
+    const existingAd = await tx.ad.findUnique({
+      where: { id: input.adId },
+      select: { userId: true, category: true, status: true, expirationDate: true },
+    });
+
+    if (!existingAd) {
+      throw new Error(`Ad with id ${input.adId} not found`) as AdNotFoundError;
+    }
+
+    if (existingAd.userId !== input.userId) {
+      throw new Error(`User ${input.userId} is not the owner of ad ${input.adId}`) as NotOwnerError;
+    }
+
+    if (existingAd.category !== AdCategory.TRANSPORTATION) {
+      throw new Error(
+        `Expected category TRANSPORTATION but found ${existingAd.category}`
+      ) as CategoryMismatchError;
+    }
+
+    assertAdEditable(input.adId, existingAd);
+
+    // 2. Update Ad; expiry follows the flight date, which is material, so moving it requeues the ad
+    const expirationDate = getTransportationExpirationDate(input.flightDate);
+    await tx.ad.update({
+      where: { id: input.adId },
+      data: {
+        cityId: input.cityId,
+        ...(existingAd.expirationDate?.getTime() !== expirationDate.getTime() && {
+          expirationDate,
+          expiryReminderSentAt: null,
+        }),
+      },
+    });
+
+    // 3. Update AdTransportation
+    await tx.adTransportation.update({
+      where: { adId: input.adId },
+      data: transportationData,
+    });
+
+    // 4. Record the revision; material changes send the ad back to review
+    await recordAdEdit(tx, input.adId, existingAd.status);
+
+    // 5. Fetch and return complete ad with relations
+    const completeAd = await tx.ad.findUnique({
+      where: { id: input.adId },
+      include: TRANSPORTATION_DETAIL_INCLUDE,
+    });
+
+    if (!completeAd || !completeAd.transportation) {
+      throw new Error('Failed to fetch updated ad');
+    }
+
+    return mapToTransportationAdDetail(completeAd);
+  });
+}
+
+/**
+ * Get a transportation ad by ID with full details
+ *
+ * @param adId - Ad ID
+ * @returns Full ad details or null if not found
+ */
+export async function getTransportationAdById(
+  adId: number
+): Promise<TransportationAdDetail | null> {
+  const ad = await prisma.ad.findUnique({
+    where: { id: adId },
+    include: TRANSPORTATION_DETAIL_INCLUDE,
+  });
+
+  if (!ad || !ad.transportation || ad.category !== AdCategory.TRANSPORTATION) {
+    return null;
+  }
+
+  return mapToTransportationAdDetail(ad);
+}
+
+/**
+ * Get a transportation ad by ID ensuring user is the owner
+ *
+ * @param adId - Ad ID
+ * @param userId - User ID
+ * @returns Full ad details or null if not found or not owner
+ */
+export async function getTransportationAdByIdForUser(
+  adId: number,
+  userId: string
+): Promise<TransportationAdDetail | null> {
+  const ad = await prisma.ad.findFirst({
+    where: {
+      id: adId,
+      userId,
+      category: AdCategory.TRANSPORTATION,
+    },
+    include: TRANSPORTATION_DETAIL_INCLUDE,
+  });
+
+  if (!ad || !ad.transportation) {
+    return null;
+  }
+
+  return mapToTransportationAdDetail(ad);
+}
+
+/**
+ * List transportation ads with filtering and pagination
+ *
+ * Direction is translated to the departure/arrival country pair and combined
+ * with the flight date window so the query can use the
+ * [departureCountry, arrivalCountry, flightDate] index.
+ *
+ * @param params - Filter and pagination parameters
+ * @returns Paginated list of transportation ads
+ *
+ * @example
+ * ```typescript
+ * const result = await listTransportationAds({
+ *   status: AdStatus.ONLINE,
+ *   direction: TransportDirection.IRAN_TO_ITALY,
+ *   flightDateFrom: new Date('2025-03-01'),
+ *   flightDateTo: new Date('2025-03-31'),
+ *   arrivalCity: 'Milan',
+ *   page: 1,
+ *   pageSize: 20,
+ * });
+ * ```
+ */
+export async function listTransportationAds(
+  params: ListTransportationAdsParams
+): Promise<TransportationAdListResponse> {
+  const {
+    status,
+    direction,
+    flightDateFrom,
+    flightDateTo,
+    departureCity,
+    arrivalCity,
+    priceMode,
+    excludeExpired = false,
+    page = 1,
+    pageSize = 20,
+    sort = 'flight-asc',
+  } = params;
+
+  const where: Prisma.AdWhereInput = {
+    category: AdCategory.TRANSPORTATION,
+  };
+
+  if (status) where.status = status;
+
+  // Ads past their expiration date are treated as EXPIRED regardless of stored status
+  if (excludeExpired) {
+    where.OR = [{ expirationDate: null }, { expirationDate: { gte: new Date() } }];
+  }
+
+  // Transportation-specific filters
+  const transportationWhere: Prisma.AdTransportationWhereInput = {};
+
+  if (direction) {
+    const countries = DIRECTION_COUNTRIES[direction];
+    transportationWhere.departureCountry = countries.departure;
+    transportationWhere.arrivalCountry = countries.arrival;
+  }
+
+  if (flightDateFrom || flightDateTo) {
+    transportationWhere.flightDate = {
+      ...(flightDateFrom && { gte: flightDateFrom }),
+      ...(flightDateTo && { lte: flightDateTo }),
+    };
+  }
+
+  if (departureCity?.trim()) {
+    transportationWhere.departureCity = { equals: departureCity.trim(), mode: 'insensitive' };
+  }
+  if (arrivalCity?.trim()) {
+    transportationWhere.arrivalCity = { equals: arrivalCity.trim(), mode: 'insensitive' };
+  }
+  if (priceMode) transportationWhere.priceMode = priceMode;
+
+  if (Object.keys(transportationWhere).length > 0) {
+    where.transportation = transportationWhere;
+  }
+
+  let orderBy: Prisma.AdOrderByWithRelationInput;
+  switch (sort) {
+    case 'flight-desc':
+      orderBy = { transportation: { flightDate: 'desc' } };
+      break;
+    case 'created-desc':
+      orderBy = { createdAt: 'desc' };
+      break;
+    case 'flight-asc':
+    default:
+      orderBy = { transportation: { flightDate: 'asc' } };
+      break;
+  }
+
+  const [items, total] = await Promise.all([
+    prisma.ad.findMany({
+      where,
+      include: TRANSPORTATION_LIST_INCLUDE,
+      orderBy,
+      skip: (page - 1) * pageSize,
+      take: pageSize,
+    }),
+    prisma.ad.count({ where }),
+  ]);
+
+  return {
+    items: items.filter((ad) => ad.transportation).map(mapToTransportationAdListItem),
+    total,
+    page,
+    pageSize,
+    totalPages: Math.ceil(total / pageSize),
+  };
+}
+
+/**
+ * List user's own transportation ads
+ *
+ * @param params - User ID and filter parameters
+ * @returns Paginated list of user's transportation ads
+ */
+export async function listUserTransportationAds(
+  params: ListUserTransportationAdsParams
+): Promise<TransportationAdListResponse> {
+  const { userId, status, page = 1, pageSize = 20, sort = 'created-desc' } = params;
+
+  const where: Prisma.AdWhereInput = {
+    userId,
+    category: AdCategory.TRANSPORTATION,
+  };
+
+  if (status) where.status = status;
+
+  const [items, total] = await Promise.all([
+    prisma.ad.findMany({
+      where,
+      include: TRANSPORTATION_LIST_INCLUDE,
+      orderBy: { createdAt: sort === 'created-asc' ? 'asc' : 'desc' },
+      skip: (page - 1) * pageSize,
+      take: pageSize,
+    }),
+    prisma.ad.count({ where }),
+  ]);
+
+  return {
+    items: items.filter((ad) => ad.transportation).map(mapToTransportationAdListItem),
+    total,
+    page,
+    pageSize,
+    totalPages: Math.ceil(total / pageSize),
+  };
+}
+
+/**
+ * Lifecycle: Delete ad (user action)
+ * Permanently removes ad and all related data
+ */
+export async function deleteTransportationAd(adId: number, userId: string): Promise<void> {
+  await prisma.$transaction(async (tx) => {
+    const ad = await tx.ad.findFirst({
+      where: { id: adId, userId, category: AdCategory.TRANSPORTATION },
+    });
+
+    if (!ad) {
+      throw new Error(`Ad ${adId} not found or not owned by user`) as AdNotFoundError;
+    }
+
+    // Cascade deletes will handle AdTransportation
+    await tx.ad.delete({
+      where: { id: adId },
+    });
+  });
+}
+
+/**
+ * Helper: Map Prisma result to TransportationAdDetail
+ */
+function mapToTransportationAdDetail(
+  ad: Prisma.AdGetPayload<{ include: typeof TRANSPORTATION_DETAIL_INCLUDE }>
+): TransportationAdDetail {
+  // Callers check the transportation row before mapping
+  const t = ad.transportation!;
+
+  return {
+    id: ad.id,
+    userId: ad.userId,
+    cityId: ad.cityId,
+    cityName: ad.city.name,
+    category: ad.category,
+    status: ad.status,
+    expirationDate: ad.expirationDate,
+    viewsCount: ad.viewsCount,
+    contactClicksCount: ad.contactClicksCount,
+    createdAt: ad.createdAt,
+    updatedAt: ad.updatedAt,
+    transportation: {
+      direction: t.direction,
+      departureCity: t.departureCity,
+      departureCountry: t.departureCountry,
+      arrivalCity: t.arrivalCity,
+      arrivalCountry: t.arrivalCountry,
+      additionalPickupCities: t.additionalPickupCities,
+      additionalDeliveryCities: t.additionalDeliveryCities,
+      routeNotes: t.routeNotes,
+      flightDate: t.flightDate,
+      capacityKg: t.capacityKg?.toNumber() ?? null,
+      minAcceptKg: t.minAcceptKg,
+      subjectToInspection: t.subjectToInspection,
+      documentsAccepted: t.documentsAccepted,
+      acceptedItemTypes: t.acceptedItemTypes,
+      restrictedItemTypes: t.restrictedItemTypes,
+      specialCapacityNotes: t.specialCapacityNotes,
+      offersPostalForwarding: t.offersPostalForwarding,
+      acceptsPostalDropoff: t.acceptsPostalDropoff,
+      postalNotes: t.postalNotes,
+      deliveryEtaDays: t.deliveryEtaDays,
+      priceMode: t.priceMode,
+      pricePerKg: t.pricePerKg?.toNumber() ?? null,
+      fixedTotalPrice: t.fixedTotalPrice?.toNumber() ?? null,
+      priceNotes: t.priceNotes,
+      termsNotes: t.termsNotes,
+    },
+    user: {
+      id: ad.user.id,
+      name: ad.user.name,
+      image: ad.user.image,
+      verified: ad.user.verified,
+      telegramHandle: ad.user.telegramHandle,
+    },
+  };
+}
+
+/**
+ * Helper: Map Prisma result to TransportationAdListItem
+ */
+function mapToTransportationAdListItem(
+  ad: Prisma.AdGetPayload<{ include: typeof TRANSPORTATION_LIST_INCLUDE }>
+): TransportationAdListItem {
+  // Callers filter out ads without a transportation row
+  const t = ad.transportation!;
+
+  return {
+    id: ad.id,
+    userId: ad.userId,
+    cityId: ad.cityId,
+    cityName: ad.city.name,
+    status: ad.status,
+    expirationDate: ad.expirationDate,
+    viewsCount: ad.viewsCount,
+    contactClicksCount: ad.contactClicksCount,
+    createdAt: ad.createdAt,
+    direction: t.direction,
+    departureCity: t.departureCity,
+    arrivalCity: t.arrivalCity,
+    flightDate: t.flightDate,
+    capacityKg: t.capacityKg?.toNumber() ?? null,
+    priceMode: t.priceMode,
+    pricePerKg: t.pricePerKg?.toNumber() ?? null,
+    fixedTotalPrice: t.fixedTotalPrice?.toNumber() ?? null,
+  };
+}
@@ -124,11 +124,26 @@ export type AdWithTransportation = {
     departureCountry: string;
     arrivalCity: string;
     arrivalCountry: string;
+    additionalPickupCities: string[];
+    additionalDeliveryCities: string[];
+    routeNotes: string | null;
     flightDate: Date;
+    capacityKg: string | null;
+    minAcceptKg: number | null;
+    subjectToInspection: boolean;
+    documentsAccepted: boolean;
+    acceptedItemTypes: string[];
+    restrictedItemTypes: string[];
+    specialCapacityNotes: string | null;
+    offersPostalForwarding: boolean;
+    acceptsPostalDropoff: boolean;
+    postalNotes: string | null;
+    deliveryEtaDays: number | null;
     priceMode: string;
     pricePerKg: string | null;
     fixedTotalPrice: string | null;
-    capacityKg: string | null;
+    priceNotes: string | null;
+    termsNotes: string | null;
   };
 };
 
@@ -202,6 +217,51 @@ export type AdWithService = {
     rateBasis: string;
     rateAmount: string | null;
     tags: string[];
+    availabilityDays: string[];
+    serviceArea: string | null;
+    businessName: string | null;
+    portfolioLinks: string[];
+  };
+};
+
+export type AdWithExchange = {
+  id: number;
+  category: 'CURRENCY';
+  status: AdStatus;
+  cityId: number;
+  userId: string;
+  createdAt: Date;
+  updatedAt: Date;
+  expirationDate: Date | null;
+  viewsCount: number;
+  contactClicksCount: number;
+  coverMedia: {
+    id: number;
+    storageKey: string;
+    alt: string | null;
+  } | null;
+  mediaAssets: Array<{
+    id: number;
+    storageKey: string;
+    alt: string | null;
+    order: number;
+  }>;
+  city: {
+    id: number;
+    name: string;
+  };
+  exchange: {
+    adId: number;
+    side: string;
+    amountEur: string;
+    allowsPartial: boolean;
+    minChunkEur: string | null;
+    rateType: string;
+    rateValue: string | null;
+    exchangeMode: string;
+    settlementMethods: string[];
+    otherSettlementNote: string | null;
+    notes: string | null;
   };
 };
 
@@ -209,7 +269,8 @@ export type AdWithDetails =
   | AdWithHousing
   | AdWithTransportation
   | AdWithMarketplace
-  | AdWithService;
+  | AdWithService
+  | AdWithExchange;
 
 /**
  * Fetch a single ad with its category-specific details
@@ -355,11 +416,26 @@ export async function getAdWithDetails(id: number): Promise<AdWithDetails | null
               departureCountry: true,
               arrivalCity: true,
               arrivalCountry: true,
+              additionalPickupCities: true,
+              additionalDeliveryCities: true,
+              routeNotes: true,
               flightDate: true,
+              capacityKg: true,
+              minAcceptKg: true,
+              subjectToInspection: true,
+              documentsAccepted: true,
+              acceptedItemTypes: true,
+              restrictedItemTypes: true,
+              specialCapacityNotes: true,
+              offersPostalForwarding: true,
+              acceptsPostalDropoff: true,
+              postalNotes: true,
+              deliveryEtaDays: true,
               priceMode: true,
               pricePerKg: true,
               fixedTotalPrice: true,
-              capacityKg: true,
+              priceNotes: true,
+              termsNotes: true,
             },
           },
         },
@@ -425,6 +501,10 @@ export async function getAdWithDetails(id: number): Promise<AdWithDetails | null
               rateBasis: true,
               rateAmount: true,
               tags: true,
+              availabilityDays: true,
+              serviceArea: true,
+              businessName: true,
+              portfolioLinks: true,
             },
           },
         },
@@ -443,11 +523,108 @@ export async function getAdWithDetails(id: number): Promise<AdWithDetails | null
       } as AdWithService;
     }
 
+    case 'CURRENCY': {
+      const result = await prisma.ad.findUnique({
+        where: { id },
+        select: {
+          ...commonSelect,
+          exchange: {
+            select: {
+              adId: true,
+              side: true,
+              amountEur: true,
+              allowsPartial: true,
+              minChunkEur: true,
+              rateType: true,
+              rateValue: true,
+              exchangeMode: true,
+              settlementMethods: true,
+              otherSettlementNote: true,
+              notes: true,
+            },
+          },
+        },
+      });
+
+      if (!result) return null;
+      const normalizedStatus = deriveAdStatus(result.status, result.expirationDate, now);
+
+      return {
+        ...result,
+        status: normalizedStatus,
+        exchange: {
+          ...result.exchange!,
+          amountEur: result.exchange!.amountEur.toString(),
+          minChunkEur: serializeDecimal(result.exchange!.minChunkEur),
+          rateValue: serializeDecimal(result.exchange!.rateValue),
+        },
+      } as AdWithExchange;
+    }
+
     default:
       return null;
   }
 }
 
+export type AdOwnerPublicProfile = {
+  id: string;
+  name: string;
+  image: string | null;
+  verified: boolean;
+  telegramHandle: string | null;
+};
+
+/**
+ * Fetch the public-facing profile of an ad owner (contact button, seller badge)
+ */
+export async function getAdOwnerPublicProfile(
+  userId: string
+): Promise<AdOwnerPublicProfile | null> {
+  return prisma.user.findUnique({
+    where: { id: userId },
+    select: {
+      id: true,
+      name: true,
+      image: true,
+      verified: true,
+      telegramHandle: true,
+    },
+  });
+}
+
+export type AdChangeRequest = {
+  requestedAt: Date;
+  note: string | null;
+  comments: Array<{ field: string; comment: string }>;
+};
+
+/**
+ * Latest moderator change request on an ad, with its field comments.
+ * Callers check ownership; the owner page only shows it while the ad is CHANGES_REQUESTED.
+ */
+export async function getLatestAdChangeRequest(adId: number): Promise<AdChangeRequest | null> {
+  const action = await prisma.moderationAction.findFirst({
+    where: { adId, action: 'REQUEST_CHANGES' },
+    orderBy: { createdAt: 'desc' },
+    select: {
+      createdAt: true,
+      reasonText: true,
+      fieldComments: {
+        select: { field: true, comment: true },
+        orderBy: { id: 'asc' },
+      },
+    },
+  });
+
+  if (!action) return null;
+
+  return {
+    requestedAt: action.createdAt,
+    note: action.reasonText,
+    comments: action.fieldComments,
+  };
+}
+
 /**
  * Fetch all ads for a user with category-specific details
  */
@@ -548,11 +725,26 @@ export async function getUserAdsWithDetails(
           departureCountry: true,
           arrivalCity: true,
           arrivalCountry: true,
+          additionalPickupCities: true,
+          additionalDeliveryCities: true,
+          routeNotes: true,
           flightDate: true,
+          capacityKg: true,
+          minAcceptKg: true,
+          subjectToInspection: true,
+          documentsAccepted: true,
+          acceptedItemTypes: true,
+          restrictedItemTypes: true,
+          specialCapacityNotes: true,
+          offersPostalForwarding: true,
+          acceptsPostalDropoff: true,
+          postalNotes: true,
+          deliveryEtaDays: true,
           priceMode: true,
           pricePerKg: true,
           fixedTotalPrice: true,
-          capacityKg: true,
+          priceNotes: true,
+          termsNotes: true,
         },
       },
       marketplace: {
@@ -574,6 +766,25 @@ export async function getUserAdsWithDetails(
           rateBasis: true,
           rateAmount: true,
           tags: true,
+          availabilityDays: true,
+          serviceArea: true,
+          businessName: true,
+          portfolioLinks: true,
+        },
+      },
+      exchange: {
+        select: {
+          adId: true,
+          side: true,
+          amountEur: true,
+          allowsPartial: true,
+          minChunkEur: true,
+          rateType: true,
+          rateValue: true,
+          exchangeMode: true,
+          settlementMethods: true,
+          otherSettlementNote: true,
+          notes: true,
         },
       },
     },
@@ -640,6 +851,20 @@ export async function getUserAdsWithDetails(
       return acc;
     }
 
+    if (ad.category === 'CURRENCY' && ad.exchange) {
+      acc.push({
+        ...ad,
+        status: normalizedStatus,
+        exchange: {
+          ...ad.exchange,
+          amountEur: ad.exchange.amountEur.toString(),
+          minChunkEur: serializeDecimal(ad.exchange.minChunkEur),
+          rateValue: serializeDecimal(ad.exchange.rateValue),
+        },
+      } as AdWithExchange);
+      return acc;
+    }
+
     return acc;
   }, []);
 
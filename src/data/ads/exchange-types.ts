@@ -0,0 +1,167 @@
+/**
+ * Exchange Ad DAL Types
+ * Separate input DTOs from Prisma models for clean separation of concerns
+ */
+
+import type {
+  AdCategory,
+  AdStatus,
+  ExchangeMode,
+  ExchangeRateType,
+  ExchangeSide,
+  SettlementMethod,
+} from '@/generated/prisma';
+
+/**
+ * Input DTO for creating an exchange ad
+ * Independent of Prisma types, validated before hitting DAL
+ */
+export interface CreateExchangeAdInput {
+  // User and location
+  userId: string;
+  cityId: number;
+
+  // Offer
+  side: ExchangeSide;
+  amountEur: number;
+  allowsPartial: boolean;
+  minChunkEur?: number | null;
+
+  // Rate (rateValue only for CUSTOM)
+  rateType: ExchangeRateType;
+  rateValue?: number | null;
+
+  // Settlement
+  exchangeMode: ExchangeMode;
+  settlementMethods: SettlementMethod[];
+  otherSettlementNote?: string | null;
+
+  // Meta
+  notes?: string | null;
+}
+
+/**
+ * Input DTO for updating an exchange ad
+ */
+export interface UpdateExchangeAdInput extends CreateExchangeAdInput {
+  adId: number;
+}
+
+/**
+ * Exchange ad with full details for detail page
+ */
+export interface ExchangeAdDetail {
+  // Ad fields
+  id: number;
+  userId: string;
+  cityId: number;
+  cityName: string;
+  category: AdCategory;
+  status: AdStatus;
+  expirationDate: Date | null;
+  viewsCount: number;
+  contactClicksCount: number;
+  createdAt: Date;
+  updatedAt: Date;
+
+  // Exchange-specific fields
+  exchange: {
+    side: ExchangeSide;
+    amountEur: number;
+    allowsPartial: boolean;
+    minChunkEur: number | null;
+    rateType: ExchangeRateType;
+    rateValue: number | null;
+    exchangeMode: ExchangeMode;
+    settlementMethods: SettlementMethod[];
+    otherSettlementNote: string | null;
+    notes: string | null;
+  };
+
+  // User info
+  user: {
+    id: string;
+    name: string;
+    image: string | null;
+    verified: boolean;
+    telegramHandle: string | null;
+  };
+}
+
+/**
+ * Exchange ad list item for list/card views
+ */
+export interface ExchangeAdListItem {
+  id: number;
+  userId: string;
+  cityId: number;
+  cityName: string;
+  status: AdStatus;
+  expirationDate: Date | null;
+  viewsCount: number;
+  contactClicksCount: number;
+  createdAt: Date;
+
+  // Offer preview fields
+  side: ExchangeSide;
+  amountEur: number;
+  allowsPartial: boolean;
+  minChunkEur: number | null;
+  rateType: ExchangeRateType;
+  rateValue: number | null;
+  exchangeMode: ExchangeMode;
+  settlementMethods: SettlementMethod[];
+}
+
+/**
+ * List params for querying exchange ads
+ */
+export interface ListExchangeAdsParams {
+  cityId?: number;
+  status?: AdStatus;
+  side?: ExchangeSide;
+  /** Inclusive range on the offered amount */
+  minAmountEur?: number;
+  maxAmountEur?: number;
+  rateType?: ExchangeRateType;
+  exchangeMode?: ExchangeMode;
+  /** Ads accepting at least one of these methods */
+  settlementMethods?: SettlementMethod[];
+  /** Exclude ads whose expiration date has already passed */
+  excludeExpired?: boolean;
+  page?: number;
+  pageSize?: number;
+  sort?: 'created-desc' | 'created-asc' | 'amount-asc' | 'amount-desc';
+}
+
+/**
+ * List params for user's own exchange ads
+ */
+export interface ListUserExchangeAdsParams {
+  userId: string;
+  status?: AdStatus;
+  page?: number;
+  pageSize?: number;
+  sort?: 'created-desc' | 'created-asc';
+}
+
+/**
+ * List response with pagination
+ */
+export interface ExchangeAdListResponse {
+  items: ExchangeAdListItem[];
+  total: number;
+  page: number;
+  pageSize: number;
+  totalPages: number;
+}
+
+/**
+ * Domain errors
+ */
+export class NotVerifiedError extends Error {
+  constructor(userId: string) {
+    super(`User ${userId} is not verified`);
+    this.name = 'NotVerifiedError';
+  }
+}
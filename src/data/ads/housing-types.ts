@@ -217,9 +217,32 @@ export interface HousingAdListItem {
   priceNegotiable: boolean;
   neighborhood: string | null;
   availabilityStartDate: Date;
+  availabilityEndDate: Date | null;
+  contractType: HousingContractType;
+  billsPolicy: BillsPolicy;
+  heatingType: HeatingType;
+  genderPreference: GenderPreference;
+  householdSize: number | null;
+  floorNumber: number | null;
+  numberOfBathrooms: number | null;
+
+  // Feature flags shown as chips on cards
+  newlyRenovated: boolean | null;
+  furnished: boolean | null;
+  kitchenEquipped: boolean | null;
+  privateBathroom: boolean | null;
+  balcony: boolean | null;
+  hasElevator: boolean | null;
+  wifi: boolean | null;
+  airConditioning: boolean | null;
+  dishwasher: boolean | null;
+  washingMachine: boolean | null;
+  clothesDryer: boolean | null;
+  doubleGlazedWindows: boolean | null;
 
   // Cover image
   coverImageStorageKey: string | null;
+  coverImageAlt: string | null;
   mediaCount: number;
 }
 
@@ -234,6 +257,8 @@ export interface ListHousingAdsParams {
   propertyType?: HousingPropertyType;
   minPrice?: number;
   maxPrice?: number;
+  /** Exclude ads whose expiration date has already passed */
+  excludeExpired?: boolean;
   page?: number;
   pageSize?: number;
   sort?: 'created-desc' | 'created-asc' | 'price-asc' | 'price-desc';
@@ -0,0 +1,155 @@
+/**
+ * Marketplace Ad DAL Types
+ * Separate input DTOs from Prisma models for clean separation of concerns
+ */
+
+import type { AdCategory, AdStatus, MarketplaceCondition } from '@/generated/prisma';
+
+import type { MediaImageInput } from './housing-types';
+
+/**
+ * Input DTO for creating a marketplace ad
+ * Independent of Prisma types, validated before hitting DAL
+ */
+export interface CreateMarketplaceAdInput {
+  // User and location
+  userId: string;
+  cityId: number;
+
+  // Item details
+  title: string;
+  description: string;
+  condition: MarketplaceCondition;
+  category?: string | null;
+
+  // Price (0 = negotiable)
+  price: number;
+
+  // Images
+  images: MediaImageInput[];
+  coverImageStorageKey: string;
+}
+
+/**
+ * Input DTO for updating a marketplace ad
+ */
+export interface UpdateMarketplaceAdInput extends CreateMarketplaceAdInput {
+  adId: number;
+}
+
+/**
+ * Marketplace ad with full details for detail page
+ */
+export interface MarketplaceAdDetail {
+  // Ad fields
+  id: number;
+  userId: string;
+  cityId: number;
+  cityName: string;
+  category: AdCategory;
+  status: AdStatus;
+  expirationDate: Date | null;
+  viewsCount: number;
+  contactClicksCount: number;
+  createdAt: Date;
+  updatedAt: Date;
+
+  // Marketplace-specific fields
+  marketplace: {
+    title: string;
+    description: string;
+    price: number;
+    condition: MarketplaceCondition;
+    category: string | null;
+  };
+
+  // Media
+  mediaAssets: {
+    id: number;
+    storageKey: string;
+    mimeType: string | null;
+    alt: string | null;
+    order: number;
+    width: number | null;
+    height: number | null;
+    bytes: number | null;
+  }[];
+  coverMediaId: number | null;
+  mediaCount: number;
+
+  // User info
+  user: {
+    id: string;
+    name: string;
+    image: string | null;
+    verified: boolean;
+    telegramHandle: string | null;
+  };
+}
+
+/**
+ * Marketplace ad list item for list/card views
+ */
+export interface MarketplaceAdListItem {
+  id: number;
+  userId: string;
+  cityId: number;
+  cityName: string;
+  status: AdStatus;
+  expirationDate: Date | null;
+  viewsCount: number;
+  contactClicksCount: number;
+  createdAt: Date;
+
+  // Marketplace preview fields
+  title: string;
+  price: number;
+  condition: MarketplaceCondition;
+  itemCategory: string | null;
+
+  // Cover image
+  coverImageStorageKey: string | null;
+  coverImageAlt: string | null;
+  mediaCount: number;
+}
+
+/**
+ * List params for querying marketplace ads
+ */
+export interface ListMarketplaceAdsParams {
+  cityId?: number;
+  status?: AdStatus;
+  condition?: MarketplaceCondition;
+  itemCategory?: string;
+  minPrice?: number;
+  maxPrice?: number;
+  /** Case-insensitive match on title */
+  search?: string;
+  /** Exclude ads whose expiration date has already passed */
+  excludeExpired?: boolean;
+  page?: number;
+  pageSize?: number;
+  sort?: 'created-desc' | 'created-asc' | 'price-asc' | 'price-desc';
+}
+
+/**
+ * List params for user's own marketplace ads
+ */
+export interface ListUserMarketplaceAdsParams {
+  userId: string;
+  status?: AdStatus;
+  page?: number;
+  pageSize?: number;
+  sort?: 'created-desc' | 'created-asc';
+}
+
+/**
+ * List response with pagination
+ */
+export interface MarketplaceAdListResponse {
+  items: MarketplaceAdListItem[];
+  total: number;
+  page: number;
+  pageSize: number;
+  totalPages: number;
+}
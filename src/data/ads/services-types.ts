@@ -0,0 +1,156 @@
+/**
+ * Services Ad DAL Types
+ * Separate input DTOs from Prisma models for clean separation of concerns
+ */
+
+import type {
+  AdCategory,
+  AdStatus,
+  ServiceCategory,
+  ServiceRateBasis,
+  Weekday,
+} from '@/generated/prisma';
+
+/**
+ * Input DTO for creating a services ad
+ * Independent of Prisma types, validated before hitting DAL
+ */
+export interface CreateServicesAdInput {
+  // User and location
+  userId: string;
+  cityId: number;
+
+  // About the service
+  title: string;
+  description: string;
+  serviceCategory: ServiceCategory;
+  tags: string[];
+  businessName?: string | null;
+
+  // Rate & availability (null amount = rate on request)
+  rateBasis: ServiceRateBasis;
+  rateAmount?: number | null;
+  availabilityDays: Weekday[];
+  serviceArea?: string | null;
+
+  // Portfolio
+  portfolioLinks: string[];
+}
+
+/**
+ * Input DTO for updating a services ad
+ */
+export interface UpdateServicesAdInput extends CreateServicesAdInput {
+  adId: number;
+}
+
+/**
+ * Services ad with full details for detail page
+ */
+export interface ServicesAdDetail {
+  // Ad fields
+  id: number;
+  userId: string;
+  cityId: number;
+  cityName: string;
+  category: AdCategory;
+  status: AdStatus;
+  expirationDate: Date | null;
+  viewsCount: number;
+  contactClicksCount: number;
+  createdAt: Date;
+  updatedAt: Date;
+
+  // Service-specific fields
+  service: {
+    title: string;
+    description: string;
+    serviceCategory: ServiceCategory;
+    tags: string[];
+    rateBasis: ServiceRateBasis;
+    rateAmount: number | null;
+    availabilityDays: Weekday[];
+    serviceArea: string | null;
+    businessName: string | null;
+    portfolioLinks: string[];
+  };
+
+  // User info
+  user: {
+    id: string;
+    name: string;
+    image: string | null;
+    verified: boolean;
+    telegramHandle: string | null;
+  };
+}
+
+/**
+ * Services ad list item for list/card views
+ */
+export interface ServicesAdListItem {
+  id: number;
+  userId: string;
+  cityId: number;
+  cityName: string;
+  status: AdStatus;
+  expirationDate: Date | null;
+  viewsCount: number;
+  contactClicksCount: number;
+  createdAt: Date;
+
+  // Service preview fields
+  title: string;
+  serviceCategory: ServiceCategory;
+  tags: string[];
+  rateBasis: ServiceRateBasis;
+  rateAmount: number | null;
+  availabilityDays: Weekday[];
+  serviceArea: string | null;
+  businessName: string | null;
+}
+
+/**
+ * List params for querying services ads
+ */
+export interface ListServicesAdsParams {
+  cityId?: number;
+  status?: AdStatus;
+  serviceCategory?: ServiceCategory;
+  rateBasis?: ServiceRateBasis;
+  /** Upper bound on the rate; ads with the rate on request are excluded when set */
+  maxRate?: number;
+  /** Ads available on at least one of these days */
+  availableOn?: Weekday[];
+  /** Exact tag match; tags are stored lower-cased */
+  tag?: string;
+  /** Case-insensitive match on title */
+  search?: string;
+  /** Exclude ads whose expiration date has already passed */
+  excludeExpired?: boolean;
+  page?: number;
+  pageSize?: number;
+  sort?: 'created-desc' | 'created-asc' | 'rate-asc' | 'rate-desc';
+}
+
+/**
+ * List params for user's own services ads
+ */
+export interface ListUserServicesAdsParams {
+  userId: string;
+  status?: AdStatus;
+  page?: number;
+  pageSize?: number;
+  sort?: 'created-desc' | 'created-asc';
+}
+
+/**
+ * List response with pagination
+ */
+export interface ServicesAdListResponse {
+  items: ServicesAdListItem[];
+  total: number;
+  page: number;
+  pageSize: number;
+  totalPages: number;
+}
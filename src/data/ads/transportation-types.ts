@@ -0,0 +1,185 @@
+/**
+ * Transportation Ad DAL Types
+ * Separate input DTOs from Prisma models for clean separation of concerns
+ */
+
+import type {
+  AdCategory,
+  AdStatus,
+  Country,
+  TransportDirection,
+  TransportPriceMode,
+} from '@/generated/prisma';
+
+/**
+ * Input DTO for creating a transportation ad
+ * Independent of Prisma types, validated before hitting DAL.
+ * Countries are derived from the direction inside the DAL.
+ */
+export interface CreateTransportationAdInput {
+  // User and location
+  userId: string;
+  cityId: number;
+
+  // Route
+  direction: TransportDirection;
+  departureCity: string;
+  arrivalCity: string;
+  additionalPickupCities: string[];
+  additionalDeliveryCities: string[];
+  routeNotes?: string | null;
+
+  // Flight & logistics
+  flightDate: Date;
+  capacityKg?: number | null;
+  minAcceptKg?: number | null;
+  subjectToInspection: boolean;
+  documentsAccepted: boolean;
+  acceptedItemTypes: string[];
+  restrictedItemTypes: string[];
+  specialCapacityNotes?: string | null;
+  offersPostalForwarding: boolean;
+  acceptsPostalDropoff: boolean;
+  postalNotes?: string | null;
+  deliveryEtaDays?: number | null;
+
+  // Pricing
+  priceMode: TransportPriceMode;
+  pricePerKg?: number | null;
+  fixedTotalPrice?: number | null;
+  priceNotes?: string | null;
+
+  // Misc
+  termsNotes?: string | null;
+}
+
+/**
+ * Input DTO for updating a transportation ad
+ */
+export interface UpdateTransportationAdInput extends CreateTransportationAdInput {
+  adId: number;
+}
+
+/**
+ * Transportation ad with full details for detail page
+ */
+export interface TransportationAdDetail {
+  // Ad fields
+  id: number;
+  userId: string;
+  cityId: number;
+  cityName: string;
+  category: AdCategory;
+  status: AdStatus;
+  expirationDate: Date | null;
+  viewsCount: number;
+  contactClicksCount: number;
+  createdAt: Date;
+  updatedAt: Date;
+
+  // Transportation-specific fields
+  transportation: {
+    direction: TransportDirection;
+    departureCity: string;
+    departureCountry: Country;
+    arrivalCity: string;
+    arrivalCountry: Country;
+    additionalPickupCities: string[];
+    additionalDeliveryCities: string[];
+    routeNotes: string | null;
+    flightDate: Date;
+    capacityKg: number | null;
+    minAcceptKg: number | null;
+    subjectToInspection: boolean;
+    documentsAccepted: boolean;
+    acceptedItemTypes: string[];
+    restrictedItemTypes: string[];
+    specialCapacityNotes: string | null;
+    offersPostalForwarding: boolean;
+    acceptsPostalDropoff: boolean;
+    postalNotes: string | null;
+    deliveryEtaDays: number | null;
+    priceMode: TransportPriceMode;
+    pricePerKg: number | null;
+    fixedTotalPrice: number | null;
+    priceNotes: string | null;
+    termsNotes: string | null;
+  };
+
+  // User info
+  user: {
+    id: string;
+    name: string;
+    image: string | null;
+    verified: boolean;
+    telegramHandle: string | null;
+  };
+}
+
+/**
+ * Transportation ad list item for list/card views
+ */
+export interface TransportationAdListItem {
+  id: number;
+  userId: string;
+  cityId: number;
+  cityName: string;
+  status: AdStatus;
+  expirationDate: Date | null;
+  viewsCount: number;
+  contactClicksCount: number;
+  createdAt: Date;
+
+  // Route preview fields
+  direction: TransportDirection;
+  departureCity: string;
+  arrivalCity: string;
+  flightDate: Date;
+  capacityKg: number | null;
+  priceMode: TransportPriceMode;
+  pricePerKg: number | null;
+  fixedTotalPrice: number | null;
+}
+
+/**
+ * List params for querying transportation ads
+ */
+export interface ListTransportationAdsParams {
+  status?: AdStatus;
+  /** Narrows to the country pair, which is the prefix of the route index */
+  direction?: TransportDirection;
+  /** Inclusive flight date window */
+  flightDateFrom?: Date;
+  flightDateTo?: Date;
+  /** City pair, matched case-insensitively */
+  departureCity?: string;
+  arrivalCity?: string;
+  priceMode?: TransportPriceMode;
+  /** Exclude ads whose expiration date has already passed */
+  excludeExpired?: boolean;
+  page?: number;
+  pageSize?: number;
+  sort?: 'flight-asc' | 'flight-desc' | 'created-desc';
+}
+
+/**
+ * List params for user's own transportation ads
+ */
+export interface ListUserTransportationAdsParams {
+  userId: string;
+  status?: AdStatus;
+  page?: number;
+  pageSize?: number;
+  sort?: 'created-desc' | 'created-asc';
+}
+
+/**
+ * List response with pagination
+ */
+export interface TransportationAdListResponse {
+  items: TransportationAdListItem[];
+  total: number;
+  page: number;
+  pageSize: number;
+  totalPages: number;
+}
@@ -1,4 +1,4 @@
-import { listRecentUserActivity } from '@/data/activity/activity';
+import { listUserActivity, type UserActivityEntry } from '@/data/activity/activity';
 import { getUserAdStats } from '@/data/ads/ads';
 import { getOnlineAdsWithCounters } from '@/data/metrics/metrics';
 
@@ -10,19 +10,22 @@ export type OverviewSnapshot = {
     expired: number;
   };
   topAds: Awaited<ReturnType<typeof getOnlineAdsWithCounters>>;
-  recentActivity: Awaited<ReturnType<typeof listRecentUserActivity>>;
+  recentActivity: UserActivityEntry[];
+  // Cursor for loading older activity; null when there is none
+  recentActivityCursor: number | null;
 };
 
 export async function getOverviewSnapshot(userId: string): Promise<OverviewSnapshot> {
-  const [adStats, topAds, recentActivity] = await Promise.all([
+  const [adStats, topAds, activity] = await Promise.all([
     getUserAdStats(userId),
     getOnlineAdsWithCounters(userId),
-    listRecentUserActivity(userId, 10),
+    listUserActivity(userId, { limit: 10 }),
   ]);
 
   return {
     adStats,
     topAds,
-    recentActivity,
+    recentActivity: activity.entries,
+    recentActivityCursor: activity.nextCursor,
   };
 }
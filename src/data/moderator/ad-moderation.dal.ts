@@ -5,6 +5,33 @@
  * to review and manage user ads (approve, reject, etc.).
  */
 
+import { getAdReviewFieldLabel, type AdReviewField } from '@/constants/ad-review-fields';
+import { renderResponseTemplate } from '@/constants/response-template-config';
+import {
+  diffAdSnapshots,
+  getAdRevisionPair,
+  getMaterialChanges,
+  markLatestRevisionApproved,
+  type AdRevisionItem,
+} from '@/data/ads/ad-revisions';
+import {
+  assertCityInScope,
+  getModerationScope,
+  isCityInScope,
+  scopedCityFilter,
+} from '@/data/moderator/moderator-scope.dal';
+import { getOpenFlags, type ModerationFlagInfo } from '@/data/moderator/moderation-flag.dal';
+import {
+  acquireReviewClaim,
+  ClaimedByOtherError,
+  getActiveReviewClaims,
+  getClaimedTargetIds,
+  releaseReviewClaim,
+  ReviewConflictError,
+  settleReviewClaim,
+  type ReviewClaimInfo,
+} from '@/data/moderator/review-claim.dal';
+import { getActiveSuspension } from '@/data/user/suspension.dal';
 import * as Enum from '@/generated/enums';
 import type {
   AdCategory,
@@ -17,6 +44,7 @@ import type {
 } from '@/generated/prisma';
 import { auditServerAction, logFailure, logSuccess } from '@/lib/audit/audit';
 import { getEnhancedAuditContext } from '@/lib/audit/audit-context';
+import { requirePermission } from '@/lib/auth/server';
 import { prisma } from '@/lib/db';
 import { createNotification } from '@/lib/services/notification-service';
 
@@ -58,6 +86,10 @@ export interface AdForModerationListItem {
   // Category-specific title/summary (for list display)
   _categoryTitle: string | null;
   _categorySummary: string | null;
+  // Moderator currently reviewing it, if any
+  reviewClaim: ReviewClaimInfo | null;
+  // Open flag for admin review, if any
+  flag: ModerationFlagInfo | null;
 }
 
 export interface AdForModerationDetails extends AdForModerationListItem {
@@ -76,17 +108,20 @@ export interface AdForModerationDetails extends AdForModerationListItem {
   // Moderation history
   moderationActions: Array<{
     id: number;
-    actorUserId: string;
+    actorUserId: string | null;
     action: ModerationActionType;
     reasonCode: ModerationReasonCode | null;
     reasonText: string | null;
     prevStatus: string | null;
     nextStatus: string | null;
     createdAt: Date;
+    // Per-field comments of REQUEST_CHANGES actions
+    fieldComments: Array<{ field: string; comment: string }>;
+    // null for SYSTEM actions such as scheduled expiry
     actor: {
       name: string | null;
       userId: string | null;
-    };
+    } | null;
   }>;
 }
 
@@ -217,6 +252,10 @@ const adDetailSelect = {
       prevStatus: true,
       nextStatus: true,
       createdAt: true,
+      fieldComments: {
+        select: { field: true, comment: true },
+        orderBy: { id: 'asc' as const },
+      },
       actor: {
         select: {
           name: true,
@@ -298,6 +337,8 @@ function transformAdForList(ad: any): AdForModerationListItem {
     coverMedia: ad.coverMedia,
     _categoryTitle: generateAdTitle(ad),
     _categorySummary: generateAdSummary(ad),
+    reviewClaim: null,
+    flag: null,
   };
 }
 
@@ -311,6 +352,9 @@ function transformAdForList(ad: any): AdForModerationListItem {
 export async function getAdsForModeration(
   params: AdModerationSearchParams
 ): Promise<AdModerationListResult> {
+  const moderator = await requirePermission('ads.moderate');
+  const scope = await getModerationScope(moderator.id, moderator.role);
+
   const {
     search = '',
     status,
@@ -337,8 +381,10 @@ export async function getAdsForModeration(
     where.category = category;
   }
 
-  if (cityId) {
-    where.cityId = cityId;
+  // Scoped moderators only see ads in their cities
+  const cityFilter = scopedCityFilter(scope, cityId);
+  if (cityFilter !== undefined) {
+    where.cityId = cityFilter;
   }
 
   if (dateFrom || dateTo) {
@@ -393,9 +439,18 @@ export async function getAdsForModeration(
   ]);
 
   const totalPages = Math.ceil(total / limit);
+  const adIds = ads.map((ad) => ad.id);
+  const [claims, flags] = await Promise.all([
+    getActiveReviewClaims('AD', adIds),
+    getOpenFlags('AD', adIds),
+  ]);
 
   return {
-    ads: ads.map(transformAdForList),
+    ads: ads.map((ad) => ({
+      ...transformAdForList(ad),
+      reviewClaim: claims.get(ad.id) ?? null,
+      flag: flags.get(ad.id) ?? null,
+    })),
     total,
     totalPages,
     page,
@@ -407,15 +462,25 @@ export async function getAdsForModeration(
  * Get detailed ad by ID for moderator review
  */
 export async function getAdForModerationById(adId: number): Promise<AdForModerationDetails | null> {
+  const moderator = await requirePermission('ads.moderate');
+  const scope = await getModerationScope(moderator.id, moderator.role);
+
   const ad = await prisma.ad.findUnique({
     where: { id: adId },
     select: adDetailSelect,
   });
 
-  if (!ad) return null;
+  if (!ad || !isCityInScope(scope, ad.cityId)) return null;
+
+  const [claims, flags] = await Promise.all([
+    getActiveReviewClaims('AD', [adId]),
+    getOpenFlags('AD', [adId]),
+  ]);
 
   return {
     ...transformAdForList(ad),
+    reviewClaim: claims.get(adId) ?? null,
+    flag: flags.get(adId) ?? null,
     mediaAssets: ad.mediaAssets,
     housing: ad.housing,
     transportation: ad.transportation,
@@ -425,6 +490,126 @@ export async function getAdForModerationById(adId: number): Promise<AdForModerat
   };
 }
 
+export interface AdRevisionDiff {
+  current: AdRevisionItem;
+  // Last revision a moderator approved; null when the ad was never approved
+  approved: AdRevisionItem | null;
+  changedFields: string[];
+  // Subset of changedFields that sends an ONLINE ad back to review
+  materialFields: string[];
+  cityNames: Record<number, string>;
+}
+
+/**
+ * Latest revision of an ad diffed against its last approved one.
+ * Returns null when the ad is out of scope or has no revisions yet.
+ */
+export async function getAdRevisionDiff(adId: number): Promise<AdRevisionDiff | null> {
+  const moderator = await requirePermission('ads.moderate');
+  const scope = await getModerationScope(moderator.id, moderator.role);
+
+  const ad = await prisma.ad.findUnique({
+    where: { id: adId },
+    select: { cityId: true },
+  });
+
+  if (!ad || !isCityInScope(scope, ad.cityId)) return null;
+
+  const { latest, approved } = await getAdRevisionPair(adId);
+  if (!latest) return null;
+
+  const changedFields = approved ? diffAdSnapshots(approved.snapshot, latest.snapshot) : [];
+  const cityIds = [
+    ...new Set([latest.snapshot.cityId, approved?.snapshot.cityId ?? latest.snapshot.cityId]),
+  ];
+  const cities = await prisma.city.findMany({
+    where: { id: { in: cityIds } },
+    select: { id: true, name: true },
+  });
+
+  return {
+    current: latest,
+    approved,
+    changedFields,
+    materialFields: getMaterialChanges(latest.snapshot.category, changedFields),
+    cityNames: Object.fromEntries(cities.map((city) => [city.id, city.name])),
+  };
+}
+
+// =============================================================================
+// Review Claims
+// =============================================================================
+
+/**
+ * Claim a pending ad for review, or renew the moderator's own claim.
+ * Throws ClaimedByOtherError while another moderator is reviewing it.
+ */
+export async function claimAdForReview(adId: number): Promise<{ expiresAt: Date }> {
+  const moderator = await requirePermission('ads.moderate');
+  const scope = await getModerationScope(moderator.id, moderator.role);
+
+  const ad = await prisma.ad.findUnique({
+    where: { id: adId },
+    select: { status: true, cityId: true },
+  });
+
+  if (!ad || !isCityInScope(scope, ad.cityId)) {
+    throw new Error('Ad not found');
+  }
+  if (ad.status !== 'PENDING') {
+    throw new Error('Only pending ads can be claimed');
+  }
+
+  return acquireReviewClaim('AD', adId, moderator.id, 'Ad');
+}
+
+/**
+ * Give up the moderator's claim on an ad without deciding it
+ */
+export async function releaseAdReviewClaim(adId: number): Promise<void> {
+  const moderator = await requirePermission('ads.moderate');
+  await releaseReviewClaim('AD', adId, moderator.id);
+}
+
+/**
+ * Claim the oldest pending ad nobody is reviewing, within the moderator's scope
+ * and the optional filters. Returns null when there's nothing left.
+ */
+export async function claimNextAdForReview(
+  filters: { category?: AdCategory; cityId?: number } = {}
+): Promise<{ adId: number; expiresAt: Date } | null> {
+  const moderator = await requirePermission('ads.moderate');
+  const scope = await getModerationScope(moderator.id, moderator.role);
+  const cityFilter = scopedCityFilter(scope, filters.cityId);
+
+  // Retry a few times in case another moderator grabs the same ad first
+  for (let attempt = 0; attempt < 3; attempt++) {
+    const claimedIds = await getClaimedTargetIds('AD');
+
+    const next = await prisma.ad.findFirst({
+      where: {
+        status: 'PENDING',
+        ...(filters.category && { category: filters.category }),
+        ...(cityFilter !== undefined && { cityId: cityFilter }),
+        id: { notIn: claimedIds },
+      },
+      select: { id: true },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    if (!next) return null;
+
+    try {
+      const claim = await acquireReviewClaim('AD', next.id, moderator.id, 'Ad');
+      return { adId: next.id, ...claim };
+    } catch (error) {
+      if (!(error instanceof ClaimedByOtherError)) throw error;
+    }
+  }
+
+  return null;
+}
+
 // =============================================================================
 // Statistics Functions
 // =============================================================================
@@ -433,10 +618,17 @@ export async function getAdForModerationById(adId: number): Promise<AdForModerat
  * Get ad moderation statistics for dashboard
  */
 export async function getAdModerationStats(): Promise<AdModerationStats> {
+  const moderator = await requirePermission('ads.moderate');
+  const scope = await getModerationScope(moderator.id, moderator.role);
+
   const now = new Date();
   const oneWeekAgo = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
   const oneMonthAgo = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
 
+  // Scoped moderators get stats for their cities only
+  const cityWhere = scope ? { cityId: { in: scope.cityIds } } : {};
+  const scopeCityIds = scope?.cityIds ?? null;
+
   const [
     totalAds,
     pendingAds,
@@ -448,16 +640,17 @@ export async function getAdModerationStats(): Promise<AdModerationStats> {
     categoryStats,
     cityStats,
   ] = await Promise.all([
-    prisma.ad.count(),
-    prisma.ad.count({ where: { status: 'PENDING' } }),
-    prisma.ad.count({ where: { status: 'ONLINE' } }),
-    prisma.ad.count({ where: { status: 'REJECTED' } }),
-    prisma.ad.count({ where: { status: 'EXPIRED' } }),
-    prisma.ad.count({ where: { createdAt: { gte: oneWeekAgo } } }),
-    prisma.ad.count({ where: { createdAt: { gte: oneMonthAgo } } }),
+    prisma.ad.count({ where: cityWhere }),
+    prisma.ad.count({ where: { ...cityWhere, status: 'PENDING' } }),
+    prisma.ad.count({ where: { ...cityWhere, status: 'ONLINE' } }),
+    prisma.ad.count({ where: { ...cityWhere, status: 'REJECTED' } }),
+    prisma.ad.count({ where: { ...cityWhere, status: 'EXPIRED' } }),
+    prisma.ad.count({ where: { ...cityWhere, createdAt: { gte: oneWeekAgo } } }),
+    prisma.ad.count({ where: { ...cityWhere, createdAt: { gte: oneMonthAgo } } }),
     // Category statistics
     prisma.ad.groupBy({
       by: ['category'],
+      where: cityWhere,
       _count: { category: true },
     }),
     // City statistics with pending count
@@ -468,6 +661,7 @@ export async function getAdModerationStats(): Promise<AdModerationStats> {
         COUNT(*)::int as "total"
       FROM "cities" c
       LEFT JOIN "ads" a ON c.id = a."cityId"
+      WHERE ${scopeCityIds === null} OR c.id = ANY(${scopeCityIds ?? []}::int[])
       GROUP BY c.id, c.name
       HAVING COUNT(*) > 0
       ORDER BY "pending" DESC, "total" DESC
@@ -478,7 +672,7 @@ export async function getAdModerationStats(): Promise<AdModerationStats> {
   // Get pending count per category
   const pendingByCategory = await prisma.ad.groupBy({
     by: ['category'],
-    where: { status: 'PENDING' },
+    where: { ...cityWhere, status: 'PENDING' },
     _count: { category: true },
   });
 
@@ -515,6 +709,16 @@ export interface RejectAdResult {
   error?: string;
 }
 
+export interface RequestAdChangesResult {
+  success: boolean;
+  error?: string;
+}
+
+export interface AdChangeRequestData {
+  comments: Array<{ field: AdReviewField; comment: string }>;
+  note?: string;
+}
+
 /**
  * Approve an ad (moderator action)
  * - Updates ad status to ONLINE
@@ -528,6 +732,9 @@ export async function moderatorApproveAd(
   moderatorRole: AuditActorRole = 'MODERATOR',
   note?: string
 ): Promise<ApproveAdResult> {
+  const moderator = await requirePermission('ads.moderate');
+  const scope = await getModerationScope(moderator.id, moderator.role);
+
   const auditContext = await getEnhancedAuditContext();
 
   try {
@@ -538,30 +745,42 @@ export async function moderatorApproveAd(
         // Get the ad first
         const ad = await prisma.ad.findUnique({
           where: { id: adId },
-          select: { id: true, userId: true, status: true, category: true },
+          select: { id: true, userId: true, status: true, category: true, cityId: true },
         });
 
         if (!ad) {
           throw new Error('Ad not found');
         }
 
+        assertCityInScope(scope, ad.cityId, 'Ad');
+
         if (ad.status !== 'PENDING') {
           throw new Error('Can only approve ads with PENDING status');
         }
 
+        if (await getActiveSuspension(ad.userId)) {
+          throw new Error('Cannot approve ads of a suspended user');
+        }
+
         const prevStatus = ad.status;
         const nextStatus = 'ONLINE';
 
         // Use transaction for atomicity
         await prisma.$transaction(async (tx) => {
-          // Update ad status
-          await tx.ad.update({
-            where: { id: adId },
+          await settleReviewClaim(tx, 'AD', adId, moderatorUserId, 'Ad');
+
+          // Only moves the ad if nobody decided it since we read it
+          const updated = await tx.ad.updateMany({
+            where: { id: adId, status: prevStatus },
             data: {
               status: nextStatus,
               updatedAt: new Date(),
             },
           });
+          if (updated.count === 0) throw new ReviewConflictError('Ad');
+
+          // Later edits are diffed against the revision approved here
+          await markLatestRevisionApproved(tx, adId);
 
           // Create moderation action record
           await tx.moderationAction.create({
@@ -639,6 +858,9 @@ export async function moderatorRejectAd(
   },
   moderatorRole: AuditActorRole = 'MODERATOR'
 ): Promise<RejectAdResult> {
+  const moderator = await requirePermission('ads.moderate');
+  const scope = await getModerationScope(moderator.id, moderator.role);
+
   const auditContext = await getEnhancedAuditContext();
 
   try {
@@ -649,13 +871,28 @@ export async function moderatorRejectAd(
         // Get the ad first
         const ad = await prisma.ad.findUnique({
           where: { id: adId },
-          select: { id: true, userId: true, status: true, category: true },
+          select: {
+            id: true,
+            userId: true,
+            status: true,
+            category: true,
+            cityId: true,
+            // For canned response placeholders
+            city: { select: { name: true } },
+            user: { select: { name: true } },
+            housing: { select: { unitType: true, neighborhood: true } },
+            marketplace: { select: { title: true } },
+            service: { select: { title: true } },
+            transportation: { select: { departureCity: true, arrivalCity: true } },
+          },
         });
 
         if (!ad) {
           throw new Error('Ad not found');
         }
 
+        assertCityInScope(scope, ad.cityId, 'Ad');
+
         if (ad.status !== 'PENDING') {
           throw new Error('Can only reject ads with PENDING status');
         }
@@ -663,16 +900,28 @@ export async function moderatorRejectAd(
         const prevStatus = ad.status;
         const nextStatus = 'REJECTED';
 
+        // Fill placeholders left in a canned response (bulk rejects send the raw template)
+        const reasonText = rejectionData.reasonText
+          ? renderResponseTemplate(rejectionData.reasonText, {
+              adTitle: generateAdTitle(ad) ?? `ad #${adId}`,
+              city: ad.city.name,
+              userName: ad.user.name,
+            })
+          : null;
+
         // Use transaction for atomicity
         await prisma.$transaction(async (tx) => {
-          // Update ad status
-          await tx.ad.update({
-            where: { id: adId },
+          await settleReviewClaim(tx, 'AD', adId, moderatorUserId, 'Ad');
+
+          // Only moves the ad if nobody decided it since we read it
+          const updated = await tx.ad.updateMany({
+            where: { id: adId, status: prevStatus },
             data: {
               status: nextStatus,
               updatedAt: new Date(),
             },
           });
+          if (updated.count === 0) throw new ReviewConflictError('Ad');
 
           // Create moderation action record
           await tx.moderationAction.create({
@@ -682,7 +931,7 @@ export async function moderatorRejectAd(
               targetType: 'AD',
               action: 'REJECT',
               reasonCode: rejectionData.reasonCode,
-              reasonText: rejectionData.reasonText || null,
+              reasonText,
               prevStatus,
               nextStatus,
             },
@@ -706,8 +955,8 @@ export async function moderatorRejectAd(
         };
 
         const reasonLabel = humanizeReasonCode(rejectionData.reasonCode);
-        const notificationBody = rejectionData.reasonText
-          ? `Reason: ${reasonLabel}. ${rejectionData.reasonText}`
+        const notificationBody = reasonText
+          ? `Reason: ${reasonLabel}. ${reasonText}`
           : `Reason: ${reasonLabel}`;
 
         // Send notification to ad owner (outside transaction)
@@ -761,6 +1010,136 @@ export async function moderatorRejectAd(
   }
 }
 
+/**
+ * Send an ad back to its owner with per-field comments (moderator action)
+ * - Updates ad status to CHANGES_REQUESTED; the owner's next edit resubmits it as PENDING
+ * - Creates a REQUEST_CHANGES ModerationAction with its field comments
+ * - Logs audit entry
+ * - Sends notification to ad owner
+ */
+export async function moderatorRequestAdChanges(
+  adId: number,
+  moderatorUserId: string,
+  changeRequest: AdChangeRequestData,
+  moderatorRole: AuditActorRole = 'MODERATOR'
+): Promise<RequestAdChangesResult> {
+  const moderator = await requirePermission('ads.moderate');
+  const scope = await getModerationScope(moderator.id, moderator.role);
+
+  const auditContext = await getEnhancedAuditContext();
+  const fields = changeRequest.comments.map((c) => c.field);
+
+  try {
+    await auditServerAction(
+      Enum.AuditAction.AD_REQUEST_CHANGES as AuditAction,
+      Enum.AuditEntityType.AD as AuditEntityType,
+      async () => {
+        // Get the ad first
+        const ad = await prisma.ad.findUnique({
+          where: { id: adId },
+          select: { id: true, userId: true, status: true, category: true, cityId: true },
+        });
+
+        if (!ad) {
+          throw new Error('Ad not found');
+        }
+
+        assertCityInScope(scope, ad.cityId, 'Ad');
+
+        if (ad.status !== 'PENDING') {
+          throw new Error('Can only request changes on ads with PENDING status');
+        }
+
+        if (changeRequest.comments.length === 0) {
+          throw new Error('At least one field comment is required');
+        }
+
+        const prevStatus = ad.status;
+        const nextStatus = 'CHANGES_REQUESTED';
+
+        // Use transaction for atomicity
+        await prisma.$transaction(async (tx) => {
+          await settleReviewClaim(tx, 'AD', adId, moderatorUserId, 'Ad');
+
+          // Only moves the ad if nobody decided it since we read it
+          const updated = await tx.ad.updateMany({
+            where: { id: adId, status: prevStatus },
+            data: {
+              status: nextStatus,
+              updatedAt: new Date(),
+            },
+          });
+          if (updated.count === 0) throw new ReviewConflictError('Ad');
+
+          // Create moderation action record with its field comments
+          await tx.moderationAction.create({
+            data: {
+              actorUserId: moderatorUserId,
+              adId: adId,
+              targetType: 'AD',
+              action: 'REQUEST_CHANGES',
+              reasonText: changeRequest.note || null,
+              prevStatus,
+              nextStatus,
+              fieldComments: {
+                create: changeRequest.comments.map((c) => ({
+                  field: c.field,
+                  comment: c.comment,
+                })),
+              },
+            },
+          });
+        });
+
+        const fieldLabels = fields.map(getAdReviewFieldLabel).join(', ');
+
+        // Send notification to ad owner (outside transaction)
+        await createNotification({
+          userId: ad.userId,
+          type: 'AD_EVENT',
+          severity: 'WARNING',
+          title: 'Changes requested',
+          body: `A moderator asked you to update your ad: ${fieldLabels}. Edit it to send it back for review.`,
+          adId: adId,
+          deepLink: `/dashboard/ads-management/${adId}`,
+          data: { category: ad.category, prevStatus, nextStatus, fields },
+        });
+
+        return { success: true };
+      },
+      {
+        actorUserId: moderatorUserId,
+        actorRole: moderatorRole,
+        ...auditContext,
+      },
+      adId,
+      'Moderator requested changes on ad',
+      { fields }
+    );
+
+    return { success: true };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to request changes';
+
+    // Log failure
+    await logFailure(
+      Enum.AuditAction.AD_REQUEST_CHANGES as AuditAction,
+      Enum.AuditEntityType.AD as AuditEntityType,
+      'REQUEST_CHANGES_FAILED',
+      {
+        actorUserId: moderatorUserId,
+        actorRole: moderatorRole,
+        ...auditContext,
+      },
+      adId,
+      { error: errorMessage, fields },
+      'Failed to request changes on ad'
+    ).catch(console.error);
+
+    return { success: false, error: errorMessage };
+  }
+}
+
 /**
  * Bulk approve multiple ads
  */
@@ -769,6 +1148,8 @@ export async function bulkApproveAds(
   moderatorUserId: string,
   moderatorRole: AuditActorRole = 'MODERATOR'
 ): Promise<{ successful: number[]; failed: { id: number; error: string }[] }> {
+  await requirePermission('ads.moderate');
+
   const auditContext = await getEnhancedAuditContext();
   const successful: number[] = [];
   const failed: { id: number; error: string }[] = [];
@@ -827,6 +1208,9 @@ export async function moderatorChangeAdStatus(
   moderatorRole: AuditActorRole = 'MODERATOR',
   note?: string
 ): Promise<ChangeAdStatusResult> {
+  const moderator = await requirePermission('ads.moderate');
+  const scope = await getModerationScope(moderator.id, moderator.role);
+
   const auditContext = await getEnhancedAuditContext();
 
   // Determine appropriate audit action based on status change
@@ -880,6 +1264,8 @@ export async function moderatorChangeAdStatus(
       ONLINE: 'Online',
       REJECTED: 'Rejected',
       EXPIRED: 'Expired',
+      SUSPENDED: 'Suspended',
+      CHANGES_REQUESTED: 'Changes Requested',
     };
     return names[status] || status;
   };
@@ -894,30 +1280,53 @@ export async function moderatorChangeAdStatus(
         // Get the ad first
         const ad = await prisma.ad.findUnique({
           where: { id: adId },
-          select: { id: true, userId: true, status: true, category: true },
+          select: { id: true, userId: true, status: true, category: true, cityId: true },
         });
 
         if (!ad) {
           throw new Error('Ad not found');
         }
 
+        assertCityInScope(scope, ad.cityId, 'Ad');
+
         if (ad.status === newStatus) {
           throw new Error(`Ad is already in ${newStatus} status`);
         }
 
+        // SUSPENDED follows the owner's suspension; it is set and cleared by suspension.dal
+        if (newStatus === 'SUSPENDED') {
+          throw new Error('Ads are suspended by suspending their owner');
+        }
+
+        // Change requests need field comments for the owner
+        if (newStatus === 'CHANGES_REQUESTED') {
+          throw new Error('Use request changes to send an ad back to its owner');
+        }
+
+        if (newStatus === 'ONLINE' && (await getActiveSuspension(ad.userId))) {
+          throw new Error('Cannot put ads of a suspended user online');
+        }
+
         const prevStatus = ad.status;
         const nextStatus = newStatus;
 
         // Use transaction for atomicity
         await prisma.$transaction(async (tx) => {
-          // Update ad status
-          await tx.ad.update({
-            where: { id: adId },
+          await settleReviewClaim(tx, 'AD', adId, moderatorUserId, 'Ad');
+
+          // Only moves the ad if nobody changed it since we read it
+          const updated = await tx.ad.updateMany({
+            where: { id: adId, status: prevStatus },
             data: {
               status: nextStatus,
               updatedAt: new Date(),
             },
           });
+          if (updated.count === 0) throw new ReviewConflictError('Ad');
+
+          if (nextStatus === 'ONLINE') {
+            await markLatestRevisionApproved(tx, adId);
+          }
 
           // Create moderation action record
           await tx.moderationAction.create({
@@ -998,6 +1407,8 @@ export async function bulkRejectAds(
   },
   moderatorRole: AuditActorRole = 'MODERATOR'
 ): Promise<{ successful: number[]; failed: { id: number; error: string }[] }> {
+  await requirePermission('ads.moderate');
+
   const auditContext = await getEnhancedAuditContext();
   const successful: number[] = [];
   const failed: { id: number; error: string }[] = [];
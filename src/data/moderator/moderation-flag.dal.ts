@@ -0,0 +1,535 @@
+/**
+ * Moderator DAL for Flags
+ *
+ * A moderator who shouldn't decide an ad, verification request or report alone
+ * flags it for admins with a note. The flag shows as a badge in the moderation
+ * lists and stays open until an admin resolves it from /panel/flags. Raising a
+ * flag notifies every admin over SSE; both steps leave a FLAG / UNFLAG
+ * ModerationAction on the item.
+ */
+
+import { AD_CATEGORY_BY_ID } from '@/constants/ad-categories';
+import {
+  FLAG_TARGET_LABELS,
+  FLAG_TARGET_TYPES,
+  type FlagTargetType,
+} from '@/constants/moderation-flag-config';
+import { getModerationScope, isCityInScope } from '@/data/moderator/moderator-scope.dal';
+import {
+  Prisma,
+  type AuditAction,
+  type AuditActorRole,
+  type AuditEntityType,
+  type UserRole,
+} from '@/generated/prisma';
+import { logFailure, logSuccess, type AuditContext } from '@/lib/audit/audit';
+import { getEnhancedAuditContext } from '@/lib/audit/audit-context';
+import { hasPermission, ROLE_PERMISSIONS, type Permission } from '@/lib/auth/permissions';
+import { requirePermission } from '@/lib/auth/server';
+import { prisma } from '@/lib/db';
+import { createNotification } from '@/lib/services/notification-service';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** Open flag as shown next to an item in the moderation lists */
+export interface ModerationFlagInfo {
+  id: number;
+  note: string;
+  flaggedByName: string;
+  createdAt: Date;
+}
+
+export interface FlaggedItem {
+  id: number;
+  targetType: FlagTargetType;
+  targetId: number;
+  note: string;
+  createdAt: Date;
+  flaggedBy: { name: string; userId: string | null };
+  resolvedAt: Date | null;
+  resolvedBy: { name: string; userId: string | null } | null;
+  resolutionNote: string | null;
+  // null when the item was deleted after it was flagged
+  target: { label: string; status: string; cityName: string } | null;
+}
+
+export interface FlaggedItemsParams {
+  state?: 'open' | 'resolved';
+  targetType?: FlagTargetType;
+  page?: number;
+  limit?: number;
+}
+
+export interface FlaggedItemsResult {
+  items: FlaggedItem[];
+  total: number;
+  totalPages: number;
+  page: number;
+  limit: number;
+}
+
+/**
+ * Domain errors
+ */
+export class AlreadyFlaggedError extends Error {
+  constructor(entity: string) {
+    super(`${entity} is already flagged for admin review`);
+    this.name = 'AlreadyFlaggedError';
+  }
+}
+
+export class FlagNotOpenError extends Error {
+  constructor(flagId: number) {
+    super(`Flag ${flagId} is already resolved`);
+    this.name = 'FlagNotOpenError';
+  }
+}
+
+interface FlagTarget {
+  label: string;
+  status: string;
+  cityId: number;
+  cityName: string;
+}
+
+// Per target: who may flag it and how flags are audited
+const FLAG_TARGETS: Record<
+  FlagTargetType,
+  {
+    permission: Permission;
+    entity: string;
+    entityType: AuditEntityType;
+    flagAction: AuditAction;
+    unflagAction: AuditAction;
+  }
+> = {
+  AD: {
+    permission: 'ads.moderate',
+    entity: 'Ad',
+    entityType: 'AD' as AuditEntityType,
+    flagAction: 'AD_FLAG' as AuditAction,
+    unflagAction: 'AD_UNFLAG' as AuditAction,
+  },
+  VERIFICATION: {
+    permission: 'verifications.review',
+    entity: 'Verification request',
+    entityType: 'VERIFICATION_REQUEST' as AuditEntityType,
+    flagAction: 'VERIFICATION_FLAG' as AuditAction,
+    unflagAction: 'VERIFICATION_UNFLAG' as AuditAction,
+  },
+  REPORT: {
+    permission: 'reports.moderate',
+    entity: 'Report',
+    entityType: 'AD_REPORT' as AuditEntityType,
+    flagAction: 'REPORT_FLAG' as AuditAction,
+    unflagAction: 'REPORT_UNFLAG' as AuditAction,
+  },
+};
+
+const actorSelect = { select: { name: true, userId: true } } as const;
+
+// ModerationAction / Notification column pointing at the item
+function targetRelation(targetType: FlagTargetType, targetId: number) {
+  switch (targetType) {
+    case 'AD':
+      return { adId: targetId };
+    case 'VERIFICATION':
+      return { verificationId: targetId };
+    case 'REPORT':
+      return { reportId: targetId };
+  }
+}
+
+/**
+ * Label, status and city of the given items, keyed by id. Deleted items are missing.
+ */
+async function loadFlagTargets(
+  targetType: FlagTargetType,
+  targetIds: number[]
+): Promise<Map<number, FlagTarget>> {
+  if (targetIds.length === 0) return new Map();
+
+  switch (targetType) {
+    case 'AD': {
+      const ads = await prisma.ad.findMany({
+        where: { id: { in: targetIds } },
+        select: {
+          id: true,
+          category: true,
+          status: true,
+          cityId: true,
+          city: { select: { name: true } },
+        },
+      });
+      return new Map(
+        ads.map((ad) => [
+          ad.id,
+          {
+            label: `${AD_CATEGORY_BY_ID[ad.category]?.name ?? 'Ad'} ad #${ad.id}`,
+            status: ad.status,
+            cityId: ad.cityId,
+            cityName: ad.city.name,
+          },
+        ])
+      );
+    }
+    case 'VERIFICATION': {
+      const requests = await prisma.verificationRequest.findMany({
+        where: { id: { in: targetIds } },
+        select: {
+          id: true,
+          status: true,
+          cityId: true,
+          city: { select: { name: true } },
+          user: { select: { name: true } },
+        },
+      });
+      return new Map(
+        requests.map((request) => [
+          request.id,
+          {
+            label: `Verification #${request.id} of ${request.user.name}`,
+            status: request.status,
+            cityId: request.cityId,
+            cityName: request.city.name,
+          },
+        ])
+      );
+    }
+    case 'REPORT': {
+      const reports = await prisma.adReport.findMany({
+        where: { id: { in: targetIds } },
+        select: {
+          id: true,
+          adId: true,
+          status: true,
+          ad: { select: { cityId: true, city: { select: { name: true } } } },
+        },
+      });
+      return new Map(
+        reports.map((report) => [
+          report.id,
+          {
+            label: `Report #${report.id} on ad #${report.adId}`,
+            status: report.status,
+            cityId: report.ad.cityId,
+            cityName: report.ad.city.name,
+          },
+        ])
+      );
+    }
+  }
+}
+
+async function notifyFlagResolvers(
+  flag: { id: number; targetType: FlagTargetType; targetId: number; note: string },
+  target: FlagTarget,
+  flaggedBy: { id: string; name: string }
+): Promise<void> {
+  const roles = (Object.keys(ROLE_PERMISSIONS) as UserRole[]).filter((role) =>
+    hasPermission(role, 'flags.resolve')
+  );
+  const admins = await prisma.user.findMany({
+    where: { role: { in: roles }, id: { not: flaggedBy.id } },
+    select: { id: true },
+  });
+
+  await Promise.all(
+    admins.map((admin) =>
+      createNotification({
+        userId: admin.id,
+        type: 'MODERATION_EVENT',
+        severity: 'WARNING',
+        title: `${target.label} flagged for review`,
+        body: `${flaggedBy.name} (${target.cityName}): ${flag.note}`,
+        deepLink: '/panel/flags',
+        ...targetRelation(flag.targetType, flag.targetId),
+        data: { kind: 'FLAGGED', flagId: flag.id, targetType: flag.targetType },
+      })
+    )
+  );
+}
+
+// =============================================================================
+// Queries
+// =============================================================================
+
+/**
+ * Open flags on the given items, keyed by target id.
+ * No permission check; the list DALs call it after their own.
+ */
+export async function getOpenFlags(
+  targetType: FlagTargetType,
+  targetIds: number[]
+): Promise<Map<number, ModerationFlagInfo>> {
+  if (targetIds.length === 0) return new Map();
+
+  const flags = await prisma.moderationFlag.findMany({
+    where: { targetType, targetId: { in: targetIds }, resolvedAt: null },
+    select: { id: true, targetId: true, note: true, createdAt: true, flaggedBy: actorSelect },
+  });
+
+  return new Map(
+    flags.map((flag) => [
+      flag.targetId,
+      {
+        id: flag.id,
+        note: flag.note,
+        flaggedByName: flag.flaggedBy.name || flag.flaggedBy.userId || 'a moderator',
+        createdAt: flag.createdAt,
+      },
+    ])
+  );
+}
+
+/**
+ * Flags for the admin view: open ones oldest first, resolved ones newest first
+ */
+export async function getFlaggedItems(params: FlaggedItemsParams): Promise<FlaggedItemsResult> {
+  await requirePermission('flags.resolve');
+
+  const { state = 'open', targetType, page = 1, limit = 20 } = params;
+
+  const where = {
+    resolvedAt: state === 'open' ? null : { not: null },
+    ...(targetType ? { targetType } : {}),
+  };
+
+  const [flags, total] = await Promise.all([
+    prisma.moderationFlag.findMany({
+      where,
+      include: { flaggedBy: actorSelect, resolvedBy: actorSelect },
+      orderBy: state === 'open' ? { createdAt: 'asc' } : { resolvedAt: 'desc' },
+      skip: (page - 1) * limit,
+      take: limit,
+    }),
+    prisma.moderationFlag.count({ where }),
+  ]);
+
+  const targetsByType = new Map<FlagTargetType, Map<number, FlagTarget>>();
+  for (const type of FLAG_TARGET_TYPES) {
+    const ids = flags.filter((flag) => flag.targetType === type).map((flag) => flag.targetId);
+    targetsByType.set(type, await loadFlagTargets(type, ids));
+  }
+
+  return {
+    items: flags.map((flag) => {
+      const targetType = flag.targetType as FlagTargetType;
+      const target = targetsByType.get(targetType)?.get(flag.targetId);
+      return {
+        id: flag.id,
+        targetType,
+        targetId: flag.targetId,
+        note: flag.note,
+        createdAt: flag.createdAt,
+        flaggedBy: flag.flaggedBy,
+        resolvedAt: flag.resolvedAt,
+        resolvedBy: flag.resolvedBy,
+        resolutionNote: flag.resolutionNote,
+        target: target
+          ? { label: target.label, status: target.status, cityName: target.cityName }
+          : null,
+      };
+    }),
+    total,
+    totalPages: Math.ceil(total / limit),
+    page,
+    limit,
+  };
+}
+
+// =============================================================================
+// Moderator Action Functions
+// =============================================================================
+
+/**
+ * Flag an item for admin review (moderator action)
+ * - Needs the permission that moderates the item and the item in the moderator's scope
+ * - Records a FLAG ModerationAction without changing the item's status
+ * - Logs AD_FLAG / VERIFICATION_FLAG / REPORT_FLAG and notifies admins
+ */
+export async function flagItemForAdmin(
+  targetType: FlagTargetType,
+  targetId: number,
+  note: string,
+  moderatorUserId: string,
+  moderatorRole: AuditActorRole = 'MODERATOR'
+): Promise<{ flagId: number }> {
+  const config = FLAG_TARGETS[targetType];
+  const moderator = await requirePermission(config.permission);
+  const scope = await getModerationScope(moderator.id, moderator.role);
+
+  const auditContext: Partial<AuditContext> = {
+    actorUserId: moderatorUserId,
+    actorRole: moderatorRole,
+    ...(await getEnhancedAuditContext()),
+  };
+
+  try {
+    const target = (await loadFlagTargets(targetType, [targetId])).get(targetId);
+
+    if (!target || !isCityInScope(scope, target.cityId)) {
+      throw new Error(`${config.entity} not found`);
+    }
+
+    const flag = await prisma.$transaction(async (tx) => {
+      // A partial unique index allows one open flag per item, so a concurrent flag fails here
+      const created = await tx.moderationFlag
+        .create({
+          data: { targetType, targetId, flaggedById: moderatorUserId, note },
+          select: { id: true, targetId: true, note: true },
+        })
+        .catch((error) => {
+          if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+            throw new AlreadyFlaggedError(config.entity);
+          }
+          throw error;
+        });
+
+      await tx.moderationAction.create({
+        data: {
+          actorUserId: moderatorUserId,
+          ...targetRelation(targetType, targetId),
+          targetType,
+          action: 'FLAG',
+          reasonText: note,
+          prevStatus: target.status,
+          nextStatus: target.status,
+        },
+      });
+
+      return created;
+    });
+
+    await logSuccess(
+      config.flagAction,
+      config.entityType,
+      auditContext,
+      targetId,
+      { flagId: flag.id, note },
+      'Moderator flagged item for admin review'
+    );
+
+    await notifyFlagResolvers({ ...flag, targetType }, target, {
+      id: moderator.id,
+      name: moderator.name || 'A moderator',
+    });
+
+    return { flagId: flag.id };
+  } catch (error) {
+    await logFailure(
+      config.flagAction,
+      config.entityType,
+      error instanceof Error ? error.name.substring(0, 64) : 'UnknownError',
+      auditContext,
+      targetId,
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      'Failed to flag item'
+    ).catch(console.error);
+
+    throw error;
+  }
+}
+
+// =============================================================================
+// Admin Action Functions
+// =============================================================================
+
+/**
+ * Resolve an open flag (admin action)
+ * - Records an UNFLAG ModerationAction on the item
+ * - Logs AD_UNFLAG / VERIFICATION_UNFLAG / REPORT_UNFLAG and tells the moderator who raised it
+ */
+export async function resolveFlag(
+  flagId: number,
+  resolutionNote: string | null,
+  adminUserId: string,
+  adminRole: AuditActorRole = 'ADMIN'
+): Promise<void> {
+  await requirePermission('flags.resolve');
+
+  const auditContext: Partial<AuditContext> = {
+    actorUserId: adminUserId,
+    actorRole: adminRole,
+    ...(await getEnhancedAuditContext()),
+  };
+
+  const flag = await prisma.moderationFlag.findUnique({
+    where: { id: flagId },
+    select: { id: true, targetType: true, targetId: true, flaggedById: true, resolvedAt: true },
+  });
+
+  if (!flag) {
+    throw new Error('Flag not found');
+  }
+
+  // Flags are only ever raised on FlagTargetType items
+  const targetType = flag.targetType as FlagTargetType;
+  const config = FLAG_TARGETS[targetType];
+
+  try {
+    if (flag.resolvedAt) throw new FlagNotOpenError(flagId);
+
+    const target = (await loadFlagTargets(targetType, [flag.targetId])).get(flag.targetId);
+
+    await prisma.$transaction(async (tx) => {
+      // Guard against two admins resolving at once
+      const resolved = await tx.moderationFlag.updateMany({
+        where: { id: flagId, resolvedAt: null },
+        data: { resolvedAt: new Date(), resolvedById: adminUserId, resolutionNote },
+      });
+      if (resolved.count === 0) throw new FlagNotOpenError(flagId);
+
+      // The item may be gone by now; its flag can still be closed
+      if (target) {
+        await tx.moderationAction.create({
+          data: {
+            actorUserId: adminUserId,
+            ...targetRelation(targetType, flag.targetId),
+            targetType,
+            action: 'UNFLAG',
+            reasonText: resolutionNote,
+            prevStatus: target.status,
+            nextStatus: target.status,
+          },
+        });
+      }
+    });
+
+    await logSuccess(
+      config.unflagAction,
+      config.entityType,
+      auditContext,
+      flag.targetId,
+      { flagId, resolutionNote },
+      'Admin resolved flag'
+    );
+
+    if (flag.flaggedById !== adminUserId) {
+      const label = target?.label ?? `${FLAG_TARGET_LABELS[targetType]} #${flag.targetId}`;
+      await createNotification({
+        userId: flag.flaggedById,
+        type: 'MODERATION_EVENT',
+        severity: 'INFO',
+        title: `Your flag on ${label} was resolved`,
+        body: resolutionNote || 'An admin looked into the item you flagged.',
+        ...(target ? targetRelation(targetType, flag.targetId) : {}),
+        data: { kind: 'FLAG_RESOLVED', flagId, targetType },
+      });
+    }
+  } catch (error) {
+    await logFailure(
+      config.unflagAction,
+      config.entityType,
+      error instanceof Error ? error.name.substring(0, 64) : 'UnknownError',
+      auditContext,
+      flag.targetId,
+      { error: error instanceof Error ? error.message : 'Unknown error', flagId },
+      'Failed to resolve flag'
+    ).catch(console.error);
+
+    throw error;
+  }
+}
@@ -0,0 +1,93 @@
+/**
+ * Moderator DAL for Moderation Scopes
+ *
+ * Admins can limit a moderator to cities and regions (see /panel/users).
+ * The moderation DALs resolve the acting moderator's scope to a list of city
+ * ids and restrict queues, stats, actions and document access to it.
+ * Roles with `moderation.global` and moderators without any scope see everything.
+ */
+
+import { hasPermission } from '@/lib/auth/permissions';
+import { prisma } from '@/lib/db';
+import { cache } from 'react';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** Cities a scoped moderator may act on; null means unrestricted */
+export type ModerationScope = { cityIds: number[] } | null;
+
+/**
+ * Domain errors
+ */
+export class OutOfScopeError extends Error {
+  constructor(entity: string) {
+    super(`${entity} is outside your moderation scope`);
+    this.name = 'OutOfScopeError';
+  }
+}
+
+// =============================================================================
+// Scope Resolution
+// =============================================================================
+
+/**
+ * Resolve a moderator's scope rows (cities and regions) to city ids.
+ * Memoized per request; every moderation DAL call asks for it.
+ */
+export const getModerationScope = cache(
+  async (userId: string, role: string | null | undefined): Promise<ModerationScope> => {
+    if (hasPermission(role, 'moderation.global')) return null;
+
+    const rows = await prisma.moderatorScope.findMany({
+      where: { moderatorId: userId },
+      select: { cityId: true, region: true },
+    });
+
+    if (rows.length === 0) return null;
+
+    const cityIds = new Set<number>();
+    const regions: string[] = [];
+    for (const row of rows) {
+      if (row.cityId !== null) cityIds.add(row.cityId);
+      if (row.region) regions.push(row.region);
+    }
+
+    if (regions.length > 0) {
+      const regionCities = await prisma.city.findMany({
+        where: { region: { in: regions } },
+        select: { id: true },
+      });
+      for (const city of regionCities) cityIds.add(city.id);
+    }
+
+    return { cityIds: [...cityIds] };
+  }
+);
+
+/**
+ * Value for a Prisma `cityId` filter combining the scope with an optional requested city.
+ * undefined means no filter. A requested city outside the scope matches nothing.
+ */
+export function scopedCityFilter(
+  scope: ModerationScope,
+  cityId?: number
+): number | { in: number[] } | undefined {
+  if (!scope) return cityId;
+  if (cityId) return scope.cityIds.includes(cityId) ? cityId : { in: [] };
+  return { in: scope.cityIds };
+}
+
+export function isCityInScope(scope: ModerationScope, cityId: number): boolean {
+  return !scope || scope.cityIds.includes(cityId);
+}
+
+/**
+ * Throw OutOfScopeError when cityId is outside the scope
+ */
+export function assertCityInScope(scope: ModerationScope, cityId: number, entity: string): void {
+  if (!isCityInScope(scope, cityId)) {
+    throw new OutOfScopeError(entity);
+  }
+}
@@ -0,0 +1,463 @@
+/**
+ * Moderator DAL for Ad Reports
+ *
+ * Database operations behind the /panel/reports queue: listing reports and
+ * closing or dismissing them with an outcome.
+ */
+
+import {
+  assertCityInScope,
+  getModerationScope,
+  isCityInScope,
+} from '@/data/moderator/moderator-scope.dal';
+import { getOpenFlags, type ModerationFlagInfo } from '@/data/moderator/moderation-flag.dal';
+import * as Enum from '@/generated/enums';
+import type {
+  AdCategory,
+  AdStatus,
+  AuditAction,
+  AuditActorRole,
+  AuditEntityType,
+  Prisma,
+  ReportOutcome,
+  ReportReason,
+  ReportStatus,
+} from '@/generated/prisma';
+import { auditServerAction, logFailure } from '@/lib/audit/audit';
+import { getEnhancedAuditContext } from '@/lib/audit/audit-context';
+import { requirePermission } from '@/lib/auth/server';
+import { prisma } from '@/lib/db';
+import { getSignedUrl } from '@/lib/image_system/image-utils-server';
+import { createNotification } from '@/lib/services/notification-service';
+
+// =============================================================================
+// Types for Report Moderation
+// =============================================================================
+
+export interface ReportForModerationListItem {
+  id: number;
+  adId: number;
+  reason: ReportReason;
+  note: string | null;
+  status: ReportStatus;
+  outcome: ReportOutcome | null;
+  createdAt: Date;
+  closedAt: Date | null;
+  filesCount: number;
+  reporter: {
+    id: string;
+    name: string | null;
+    userId: string | null;
+  } | null;
+  ad: {
+    id: number;
+    category: AdCategory;
+    status: AdStatus;
+    userId: string;
+    cityName: string;
+  };
+  // Open reports on the same ad, this one included
+  openReportsOnAd: number;
+  // Open flag for admin review, if any
+  flag: ModerationFlagInfo | null;
+}
+
+export interface ReportForModerationDetails extends ReportForModerationListItem {
+  resolutionNote: string | null;
+  closedByUserId: string | null;
+  files: Array<{
+    id: number;
+    storageKey: string;
+    mimeType: string | null;
+    bytes: number | null;
+    // Screenshots are private uploads; this is the only way to view them
+    signedUrl: string | null;
+  }>;
+  moderationActions: Array<{
+    id: number;
+    action: string;
+    reasonText: string | null;
+    createdAt: Date;
+    actor: {
+      name: string | null;
+      userId: string | null;
+    } | null;
+  }>;
+}
+
+export interface ReportModerationSearchParams {
+  status?: ReportStatus;
+  reason?: ReportReason;
+  adId?: number;
+  sortOrder?: 'asc' | 'desc';
+  page?: number;
+  limit?: number;
+}
+
+export interface ReportModerationListResult {
+  reports: ReportForModerationListItem[];
+  total: number;
+  totalPages: number;
+  page: number;
+  limit: number;
+}
+
+export interface ReportModerationStats {
+  openReports: number;
+  closedReports: number;
+  reportsThisWeek: number;
+  openByReason: { reason: ReportReason; count: number }[];
+}
+
+export interface ResolveReportResult {
+  success: boolean;
+  error?: string;
+}
+
+// =============================================================================
+// Shared Prisma Selects
+// =============================================================================
+
+const reportListSelect = {
+  id: true,
+  adId: true,
+  reason: true,
+  note: true,
+  status: true,
+  outcome: true,
+  createdAt: true,
+  closedAt: true,
+  _count: { select: { files: true } },
+  reporter: {
+    select: { id: true, name: true, userId: true },
+  },
+  ad: {
+    select: {
+      id: true,
+      category: true,
+      status: true,
+      userId: true,
+      cityId: true,
+      city: { select: { name: true } },
+    },
+  },
+} as const;
+
+const reportDetailSelect = {
+  ...reportListSelect,
+  resolutionNote: true,
+  closedByUserId: true,
+  files: {
+    select: { id: true, storageKey: true, mimeType: true, bytes: true },
+    orderBy: { id: 'asc' as const },
+  },
+  moderationActions: {
+    select: {
+      id: true,
+      action: true,
+      reasonText: true,
+      createdAt: true,
+      actor: { select: { name: true, userId: true } },
+    },
+    orderBy: { createdAt: 'desc' as const },
+  },
+} as const;
+
+// =============================================================================
+// Helper Functions
+// =============================================================================
+
+async function countOpenReportsByAd(adIds: number[]): Promise<Map<number, number>> {
+  if (adIds.length === 0) return new Map();
+
+  const grouped = await prisma.adReport.groupBy({
+    by: ['adId'],
+    where: { adId: { in: adIds }, status: 'OPEN' },
+    _count: { adId: true },
+  });
+
+  return new Map(grouped.map((g) => [g.adId, g._count.adId]));
+}
+
+function transformReportForList(
+  report: Prisma.AdReportGetPayload<{ select: typeof reportListSelect }>,
+  openCounts: Map<number, number>,
+  flags: Map<number, ModerationFlagInfo>
+) {
+  return {
+    id: report.id,
+    adId: report.adId,
+    reason: report.reason,
+    note: report.note,
+    status: report.status,
+    outcome: report.outcome,
+    createdAt: report.createdAt,
+    closedAt: report.closedAt,
+    filesCount: report._count.files,
+    reporter: report.reporter,
+    ad: {
+      id: report.ad.id,
+      category: report.ad.category,
+      status: report.ad.status,
+      userId: report.ad.userId,
+      cityName: report.ad.city.name,
+    },
+    openReportsOnAd: openCounts.get(report.adId) ?? 0,
+    flag: flags.get(report.id) ?? null,
+  } satisfies ReportForModerationListItem;
+}
+
+// =============================================================================
+// Search and Pagination Functions
+// =============================================================================
+
+/**
+ * Get reports for the moderator queue, open ones first by default filter
+ */
+export async function getReportsForModeration(
+  params: ReportModerationSearchParams
+): Promise<ReportModerationListResult> {
+  const moderator = await requirePermission('reports.moderate');
+  const scope = await getModerationScope(moderator.id, moderator.role);
+
+  const { status, reason, adId, sortOrder = 'asc', page = 1, limit = 20 } = params;
+
+  const offset = (page - 1) * limit;
+
+  const where: Prisma.AdReportWhereInput = {};
+  if (status) where.status = status;
+  if (reason) where.reason = reason;
+  if (adId) where.adId = adId;
+  // Scoped moderators only see reports on ads in their cities
+  if (scope) where.ad = { cityId: { in: scope.cityIds } };
+
+  const [reports, total] = await Promise.all([
+    prisma.adReport.findMany({
+      where,
+      select: reportListSelect,
+      // Oldest first so the queue is worked in arrival order
+      orderBy: { createdAt: sortOrder },
+      skip: offset,
+      take: limit,
+    }),
+    prisma.adReport.count({ where }),
+  ]);
+
+  const [openCounts, flags] = await Promise.all([
+    countOpenReportsByAd([...new Set(reports.map((r) => r.adId))]),
+    getOpenFlags(
+      'REPORT',
+      reports.map((r) => r.id)
+    ),
+  ]);
+
+  return {
+    reports: reports.map((r) => transformReportForList(r, openCounts, flags)),
+    total,
+    totalPages: Math.ceil(total / limit),
+    page,
+    limit,
+  };
+}
+
+/**
+ * Get a report with its evidence files and moderation history
+ */
+export async function getReportForModerationById(
+  reportId: number
+): Promise<ReportForModerationDetails | null> {
+  const moderator = await requirePermission('reports.moderate');
+  const scope = await getModerationScope(moderator.id, moderator.role);
+
+  const report = await prisma.adReport.findUnique({
+    where: { id: reportId },
+    select: reportDetailSelect,
+  });
+
+  if (!report || !isCityInScope(scope, report.ad.cityId)) return null;
+
+  const [openCounts, flags] = await Promise.all([
+    countOpenReportsByAd([report.adId]),
+    getOpenFlags('REPORT', [reportId]),
+  ]);
+
+  return {
+    ...transformReportForList(report, openCounts, flags),
+    resolutionNote: report.resolutionNote,
+    closedByUserId: report.closedByUserId,
+    files: report.files.map((file) => ({
+      ...file,
+      signedUrl: getSignedUrl(file.storageKey, { private: true }),
+    })),
+    moderationActions: report.moderationActions,
+  };
+}
+
+// =============================================================================
+// Statistics Functions
+// =============================================================================
+
+export async function getReportModerationStats(): Promise<ReportModerationStats> {
+  const moderator = await requirePermission('reports.moderate');
+  const scope = await getModerationScope(moderator.id, moderator.role);
+
+  const oneWeekAgo = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000);
+  const adWhere = scope ? { ad: { cityId: { in: scope.cityIds } } } : {};
+
+  const [openReports, closedReports, reportsThisWeek, openByReason] = await Promise.all([
+    prisma.adReport.count({ where: { ...adWhere, status: 'OPEN' } }),
+    prisma.adReport.count({ where: { ...adWhere, status: 'CLOSED' } }),
+    prisma.adReport.count({ where: { ...adWhere, createdAt: { gte: oneWeekAgo } } }),
+    prisma.adReport.groupBy({
+      by: ['reason'],
+      where: { ...adWhere, status: 'OPEN' },
+      _count: { reason: true },
+    }),
+  ]);
+
+  return {
+    openReports,
+    closedReports,
+    reportsThisWeek,
+    openByReason: openByReason
+      .map((r) => ({ reason: r.reason, count: r._count.reason }))
+      .sort((a, b) => b.count - a.count),
+  };
+}
+
+// =============================================================================
+// Moderator Action Functions
+// =============================================================================
+
+/**
+ * Close or dismiss an open report (moderator action)
+ * - Marks the report CLOSED with the outcome and note
+ * - Creates a ModerationAction record (targetType REPORT)
+ * - Logs audit entry
+ * - Notifies the reporter, when the report wasn't anonymous
+ */
+export async function moderatorResolveReport(
+  reportId: number,
+  moderatorUserId: string,
+  resolution: {
+    action: 'close' | 'dismiss';
+    outcome: ReportOutcome;
+    resolutionNote?: string;
+  },
+  moderatorRole: AuditActorRole = 'MODERATOR'
+): Promise<ResolveReportResult> {
+  const moderator = await requirePermission('reports.moderate');
+  const scope = await getModerationScope(moderator.id, moderator.role);
+
+  const auditContext = await getEnhancedAuditContext();
+  const isDismiss = resolution.action === 'dismiss';
+  const auditAction = (
+    isDismiss ? Enum.AuditAction.REPORT_DISMISS : Enum.AuditAction.REPORT_CLOSE
+  ) as AuditAction;
+
+  try {
+    await auditServerAction(
+      auditAction,
+      Enum.AuditEntityType.AD_REPORT as AuditEntityType,
+      async () => {
+        const report = await prisma.adReport.findUnique({
+          where: { id: reportId },
+          select: {
+            id: true,
+            adId: true,
+            status: true,
+            reporterUserId: true,
+            ad: { select: { cityId: true } },
+          },
+        });
+
+        if (!report) {
+          throw new Error('Report not found');
+        }
+
+        assertCityInScope(scope, report.ad.cityId, 'Report');
+
+        if (report.status !== 'OPEN') {
+          throw new Error('Report is already closed');
+        }
+
+        const prevStatus = report.status;
+        const nextStatus = 'CLOSED';
+
+        await prisma.$transaction(async (tx) => {
+          // Only close it if still open, so two moderators can't both resolve it
+          const updated = await tx.adReport.updateMany({
+            where: { id: reportId, status: 'OPEN' },
+            data: {
+              status: nextStatus,
+              outcome: resolution.outcome,
+              resolutionNote: resolution.resolutionNote || null,
+              closedAt: new Date(),
+              closedByUserId: moderatorUserId,
+            },
+          });
+
+          if (updated.count === 0) {
+            throw new Error('Report is already closed');
+          }
+
+          await tx.moderationAction.create({
+            data: {
+              actorUserId: moderatorUserId,
+              reportId,
+              targetType: 'REPORT',
+              action: isDismiss ? 'DISMISS' : 'CLOSE',
+              reasonText: resolution.resolutionNote || null,
+              prevStatus,
+              nextStatus,
+            },
+          });
+        });
+
+        if (report.reporterUserId) {
+          await createNotification({
+            userId: report.reporterUserId,
+            type: 'REPORT_EVENT',
+            severity: isDismiss ? 'INFO' : 'SUCCESS',
+            title: isDismiss ? 'Report reviewed' : 'Report resolved',
+            body: isDismiss
+              ? 'Thanks for your report. Our moderators reviewed the ad and found no issue.'
+              : 'Thanks for your report. Our moderators reviewed the ad and took action.',
+            reportId,
+            data: { adId: report.adId, outcome: resolution.outcome },
+          });
+        }
+
+        return { success: true };
+      },
+      {
+        actorUserId: moderatorUserId,
+        actorRole: moderatorRole,
+        ...auditContext,
+      },
+      reportId,
+      isDismiss ? 'Moderator dismissed report' : 'Moderator closed report',
+      { outcome: resolution.outcome }
+    );
+
+    return { success: true };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to resolve report';
+
+    await logFailure(
+      auditAction,
+      Enum.AuditEntityType.AD_REPORT as AuditEntityType,
+      'RESOLVE_FAILED',
+      {
+        actorUserId: moderatorUserId,
+        actorRole: moderatorRole,
+        ...auditContext,
+      },
+      reportId,
+      { error: errorMessage, outcome: resolution.outcome },
+      'Failed to resolve report'
+    ).catch(console.error);
+
+    return { success: false, error: errorMessage };
+  }
+}
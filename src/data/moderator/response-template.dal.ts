@@ -0,0 +1,194 @@
+/**
+ * Moderator DAL for Canned Responses
+ *
+ * Admins keep reusable rejection texts per ModerationReasonCode (ads) and
+ * VerificationRejectionCode (verifications), in English and Persian. Moderators
+ * pick one in the reject dialog, edit it and send it; placeholders are filled
+ * in by renderResponseTemplate.
+ */
+
+import type { ResponseTemplateTarget } from '@/constants/response-template-config';
+import type { AuditAction, AuditActorRole, AuditEntityType } from '@/generated/prisma';
+import { auditServerAction } from '@/lib/audit/audit';
+import { getEnhancedAuditContext } from '@/lib/audit/audit-context';
+import { requirePermission } from '@/lib/auth/server';
+import { prisma } from '@/lib/db';
+import type { ResponseTemplateInput } from '@/lib/schemas/response-template-schema';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface ResponseTemplateItem {
+  id: number;
+  targetType: ResponseTemplateTarget;
+  reasonCode: string | null;
+  verificationCode: string | null;
+  locale: string;
+  title: string;
+  body: string;
+  isActive: boolean;
+  updatedAt: Date;
+  createdBy: { name: string; userId: string | null } | null;
+}
+
+const templateSelect = {
+  id: true,
+  targetType: true,
+  reasonCode: true,
+  verificationCode: true,
+  locale: true,
+  title: true,
+  body: true,
+  isActive: true,
+  updatedAt: true,
+  createdBy: { select: { name: true, userId: true } },
+} as const;
+
+// Only the code matching the target is stored
+function toTemplateData(input: ResponseTemplateInput) {
+  return {
+    targetType: input.targetType,
+    reasonCode: input.targetType === 'AD' ? input.reasonCode : null,
+    verificationCode: input.targetType === 'VERIFICATION' ? input.verificationCode : null,
+    locale: input.locale,
+    title: input.title,
+    body: input.body,
+    isActive: input.isActive,
+  };
+}
+
+// =============================================================================
+// Queries
+// =============================================================================
+
+/**
+ * Templates for one kind of decision, ordered by code, locale and title.
+ * Moderators reviewing that kind get the active ones; includeInactive is for the admin console.
+ */
+export async function getResponseTemplates(
+  targetType: ResponseTemplateTarget,
+  { includeInactive = false }: { includeInactive?: boolean } = {}
+): Promise<ResponseTemplateItem[]> {
+  if (includeInactive) {
+    await requirePermission('responses.manage');
+  } else {
+    await requirePermission(targetType === 'AD' ? 'ads.moderate' : 'verifications.review');
+  }
+
+  const templates = await prisma.moderationResponseTemplate.findMany({
+    where: { targetType, ...(includeInactive ? {} : { isActive: true }) },
+    select: templateSelect,
+    orderBy: [
+      { reasonCode: 'asc' },
+      { verificationCode: 'asc' },
+      { locale: 'asc' },
+      { title: 'asc' },
+    ],
+  });
+
+  return templates as ResponseTemplateItem[];
+}
+
+// =============================================================================
+// Admin Actions
+// =============================================================================
+
+/**
+ * Create a canned response (admin action). Logs RESPONSE_TEMPLATE_CREATE.
+ */
+export async function createResponseTemplate(
+  input: ResponseTemplateInput,
+  adminUserId: string,
+  adminRole: AuditActorRole = 'ADMIN'
+): Promise<ResponseTemplateItem> {
+  await requirePermission('responses.manage');
+
+  const auditContext = await getEnhancedAuditContext();
+
+  const template = await auditServerAction(
+    'RESPONSE_TEMPLATE_CREATE' as AuditAction,
+    'RESPONSE_TEMPLATE' as AuditEntityType,
+    () =>
+      prisma.moderationResponseTemplate.create({
+        data: { ...toTemplateData(input), createdById: adminUserId },
+        select: templateSelect,
+      }),
+    { actorUserId: adminUserId, actorRole: adminRole, ...auditContext },
+    undefined,
+    'Admin created response template',
+    { targetType: input.targetType, locale: input.locale, title: input.title }
+  );
+
+  return template as ResponseTemplateItem;
+}
+
+/**
+ * Replace a canned response's content (admin action). Logs RESPONSE_TEMPLATE_UPDATE.
+ */
+export async function updateResponseTemplate(
+  templateId: number,
+  input: ResponseTemplateInput,
+  adminUserId: string,
+  adminRole: AuditActorRole = 'ADMIN'
+): Promise<ResponseTemplateItem> {
+  await requirePermission('responses.manage');
+
+  const auditContext = await getEnhancedAuditContext();
+
+  const template = await auditServerAction(
+    'RESPONSE_TEMPLATE_UPDATE' as AuditAction,
+    'RESPONSE_TEMPLATE' as AuditEntityType,
+    async () => {
+      const existing = await prisma.moderationResponseTemplate.findUnique({
+        where: { id: templateId },
+        select: { id: true },
+      });
+      if (!existing) {
+        throw new Error('Response template not found');
+      }
+
+      return prisma.moderationResponseTemplate.update({
+        where: { id: templateId },
+        data: toTemplateData(input),
+        select: templateSelect,
+      });
+    },
+    { actorUserId: adminUserId, actorRole: adminRole, ...auditContext },
+    templateId,
+    'Admin updated response template',
+    { targetType: input.targetType, locale: input.locale, isActive: input.isActive }
+  );
+
+  return template as ResponseTemplateItem;
+}
+
+/**
+ * Delete a canned response (admin action). Logs RESPONSE_TEMPLATE_DELETE.
+ * Texts already sent live on in ModerationAction rows and notifications.
+ */
+export async function deleteResponseTemplate(
+  templateId: number,
+  adminUserId: string,
+  adminRole: AuditActorRole = 'ADMIN'
+): Promise<void> {
+  await requirePermission('responses.manage');
+
+  const auditContext = await getEnhancedAuditContext();
+
+  await auditServerAction(
+    'RESPONSE_TEMPLATE_DELETE' as AuditAction,
+    'RESPONSE_TEMPLATE' as AuditEntityType,
+    async () => {
+      const deleted = await prisma.moderationResponseTemplate.deleteMany({
+        where: { id: templateId },
+      });
+      if (deleted.count === 0) {
+        throw new Error('Response template not found');
+      }
+    },
+    { actorUserId: adminUserId, actorRole: adminRole, ...auditContext },
+    templateId,
+    'Admin deleted response template'
+  );
+}
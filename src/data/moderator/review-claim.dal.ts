@@ -0,0 +1,187 @@
+/**
+ * Moderator DAL for Review Claims
+ *
+ * A moderator opening a pending ad or verification claims it for
+ * REVIEW_CLAIM_TTL_MINUTES. While the claim is held, other moderators see who
+ * is reviewing it and can't decide it. Claims are dropped when the item is
+ * decided, released when the review closes, and otherwise simply expire.
+ *
+ * These helpers don't check permissions; the ad and verification DALs call
+ * them after their own permission and scope checks.
+ */
+
+import { REVIEW_CLAIM_TTL_MINUTES } from '@/constants/review-claim-config';
+import { Prisma, type ModerationTargetType } from '@/generated/prisma';
+import { prisma } from '@/lib/db';
+import { addMinutes } from 'date-fns';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type ReviewClaimTarget = Extract<ModerationTargetType, 'AD' | 'VERIFICATION'>;
+
+export interface ReviewClaimInfo {
+  moderatorId: string;
+  moderatorName: string;
+  expiresAt: Date;
+}
+
+/**
+ * Domain errors
+ */
+export class ClaimedByOtherError extends Error {
+  constructor(entity: string, holderName: string) {
+    super(`${entity} is being reviewed by ${holderName}`);
+    this.name = 'ClaimedByOtherError';
+  }
+}
+
+/** The item changed between loading it and writing the decision */
+export class ReviewConflictError extends Error {
+  constructor(entity: string) {
+    super(`${entity} was already decided by another moderator`);
+    this.name = 'ReviewConflictError';
+  }
+}
+
+const claimInclude = { moderator: { select: { name: true, userId: true } } } as const;
+
+function toClaimInfo(claim: {
+  moderatorId: string;
+  expiresAt: Date;
+  moderator: { name: string | null; userId: string | null };
+}): ReviewClaimInfo {
+  return {
+    moderatorId: claim.moderatorId,
+    moderatorName: claim.moderator.name || claim.moderator.userId || 'another moderator',
+    expiresAt: claim.expiresAt,
+  };
+}
+
+// =============================================================================
+// Queries
+// =============================================================================
+
+/**
+ * Unexpired claims on the given items, keyed by target id
+ */
+export async function getActiveReviewClaims(
+  targetType: ReviewClaimTarget,
+  targetIds: number[],
+  now: Date = new Date()
+): Promise<Map<number, ReviewClaimInfo>> {
+  if (targetIds.length === 0) return new Map();
+
+  const claims = await prisma.reviewClaim.findMany({
+    where: { targetType, targetId: { in: targetIds }, expiresAt: { gt: now } },
+    include: claimInclude,
+  });
+
+  return new Map(claims.map((claim) => [claim.targetId, toClaimInfo(claim)]));
+}
+
+/**
+ * Ids of items anyone is reviewing right now
+ */
+export async function getClaimedTargetIds(
+  targetType: ReviewClaimTarget,
+  now: Date = new Date()
+): Promise<number[]> {
+  const claims = await prisma.reviewClaim.findMany({
+    where: { targetType, expiresAt: { gt: now } },
+    select: { targetId: true },
+  });
+
+  return claims.map((claim) => claim.targetId);
+}
+
+// =============================================================================
+// Claim Lifecycle
+// =============================================================================
+
+/**
+ * Take the claim, or renew it when the moderator already holds it.
+ * Expired claims are taken over. Throws ClaimedByOtherError while someone else holds it.
+ */
+export async function acquireReviewClaim(
+  targetType: ReviewClaimTarget,
+  targetId: number,
+  moderatorId: string,
+  entity: string
+): Promise<{ expiresAt: Date }> {
+  const now = new Date();
+  const expiresAt = addMinutes(now, REVIEW_CLAIM_TTL_MINUTES);
+
+  const taken = await prisma.reviewClaim.updateMany({
+    where: {
+      targetType,
+      targetId,
+      OR: [{ moderatorId }, { expiresAt: { lte: now } }],
+    },
+    data: { moderatorId, expiresAt },
+  });
+
+  if (taken.count > 0) return { expiresAt };
+
+  try {
+    await prisma.reviewClaim.create({
+      data: { targetType, targetId, moderatorId, expiresAt },
+    });
+  } catch (error) {
+    if (!(error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002')) {
+      throw error;
+    }
+
+    // Lost the race to another moderator
+    const holder = await prisma.reviewClaim.findUnique({
+      where: { targetType_targetId: { targetType, targetId } },
+      include: claimInclude,
+    });
+    throw new ClaimedByOtherError(
+      entity,
+      holder ? toClaimInfo(holder).moderatorName : 'another moderator'
+    );
+  }
+
+  return { expiresAt };
+}
+
+/**
+ * Drop the moderator's claim, e.g. when they close the review without deciding
+ */
+export async function releaseReviewClaim(
+  targetType: ReviewClaimTarget,
+  targetId: number,
+  moderatorId: string
+): Promise<void> {
+  await prisma.reviewClaim.deleteMany({
+    where: { targetType, targetId, moderatorId },
+  });
+}
+
+/**
+ * Call inside the transaction that writes a decision. Throws ClaimedByOtherError
+ * when someone else holds an active claim, otherwise drops the claim.
+ */
+export async function settleReviewClaim(
+  tx: Prisma.TransactionClient,
+  targetType: ReviewClaimTarget,
+  targetId: number,
+  moderatorId: string,
+  entity: string
+): Promise<void> {
+  const claim = await tx.reviewClaim.findUnique({
+    where: { targetType_targetId: { targetType, targetId } },
+    include: claimInclude,
+  });
+
+  if (!claim) return;
+
+  if (claim.moderatorId !== moderatorId && claim.expiresAt > new Date()) {
+    throw new ClaimedByOtherError(entity, toClaimInfo(claim).moderatorName);
+  }
+
+  // A concurrent settle or the TTL sweep may already have removed it
+  await tx.reviewClaim.deleteMany({ where: { id: claim.id } });
+}
@@ -0,0 +1,370 @@
+/**
+ * Moderator DAL for User Suspensions
+ *
+ * Suspending a user hides their ONLINE ads (status SUSPENDED) and blocks
+ * requireActiveUser-gated actions. Lifting or expiring the suspension puts the
+ * hidden ads back ONLINE. Every transition is audited and notifies the user.
+ */
+
+import { activeSuspensionWhere } from '@/data/user/suspension.dal';
+import {
+  Prisma,
+  type AuditAction,
+  type AuditActorRole,
+  type AuditEntityType,
+} from '@/generated/prisma';
+import { logFailure, logSuccess, type AuditContext } from '@/lib/audit/audit';
+import { getEnhancedAuditContext } from '@/lib/audit/audit-context';
+import { requirePermission } from '@/lib/auth/server';
+import { prisma } from '@/lib/db';
+import { createNotification } from '@/lib/services/notification-service';
+import { format } from 'date-fns';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type SuspensionState = 'ACTIVE' | 'LIFTED' | 'EXPIRED';
+
+export interface UserSuspensionItem {
+  id: number;
+  reason: string;
+  expiresAt: Date | null;
+  liftedAt: Date | null;
+  liftNote: string | null;
+  createdAt: Date;
+  state: SuspensionState;
+  hiddenAdsCount: number;
+  issuedBy: { name: string; userId: string | null } | null;
+  liftedBy: { name: string; userId: string | null } | null;
+}
+
+export interface SuspendUserInput {
+  reason: string;
+  // null for a permanent ban
+  expiresAt: Date | null;
+}
+
+export interface EndedSuspension {
+  suspensionId: number;
+  userId: string;
+  restoredAdIds: number[];
+}
+
+/**
+ * Domain errors
+ */
+export class AlreadySuspendedError extends Error {
+  constructor(userId: string) {
+    super(`User ${userId} already has an active suspension`);
+    this.name = 'AlreadySuspendedError';
+  }
+}
+
+export class SuspensionNotActiveError extends Error {
+  constructor(suspensionId: number) {
+    super(`Suspension ${suspensionId} is not active`);
+    this.name = 'SuspensionNotActiveError';
+  }
+}
+
+/** Moderators and admins must be demoted before they can be suspended */
+export class StaffSuspensionError extends Error {
+  constructor(userId: string) {
+    super(`User ${userId} is staff and cannot be suspended`);
+    this.name = 'StaffSuspensionError';
+  }
+}
+
+const actorSelect = { select: { name: true, userId: true } } as const;
+
+function getSuspensionState(
+  suspension: { liftedAt: Date | null; liftedById: string | null; expiresAt: Date | null },
+  now: Date
+): SuspensionState {
+  if (suspension.liftedAt) return suspension.liftedById ? 'LIFTED' : 'EXPIRED';
+  if (suspension.expiresAt && suspension.expiresAt <= now) return 'EXPIRED';
+  return 'ACTIVE';
+}
+
+function describeExpiry(expiresAt: Date | null): string {
+  return expiresAt ? `until ${format(expiresAt, 'dd MMM yyyy, HH:mm')}` : 'permanently';
+}
+
+// =============================================================================
+// Queries
+// =============================================================================
+
+/**
+ * Suspension history for a user, newest first
+ */
+export async function getUserSuspensions(userId: string): Promise<UserSuspensionItem[]> {
+  await requirePermission('users.suspend');
+
+  const now = new Date();
+  const suspensions = await prisma.userSuspension.findMany({
+    where: { userId },
+    include: { issuedBy: actorSelect, liftedBy: actorSelect },
+    orderBy: { createdAt: 'desc' },
+  });
+
+  return suspensions.map((suspension) => ({
+    id: suspension.id,
+    reason: suspension.reason,
+    expiresAt: suspension.expiresAt,
+    liftedAt: suspension.liftedAt,
+    liftNote: suspension.liftNote,
+    createdAt: suspension.createdAt,
+    state: getSuspensionState(suspension, now),
+    hiddenAdsCount: suspension.hiddenAdIds.length,
+    issuedBy: suspension.issuedBy,
+    liftedBy: suspension.liftedBy,
+  }));
+}
+
+// =============================================================================
+// Moderator Action Functions
+// =============================================================================
+
+/**
+ * Suspend a user (moderator action)
+ * - Moves their ONLINE ads to SUSPENDED and remembers which ones
+ * - Logs USER_SUSPEND and notifies the user
+ */
+export async function suspendUser(
+  targetUserId: string,
+  input: SuspendUserInput,
+  moderatorUserId: string,
+  moderatorRole: AuditActorRole = 'MODERATOR'
+): Promise<{ suspensionId: number; hiddenAdIds: number[] }> {
+  await requirePermission('users.suspend');
+
+  const auditContext: Partial<AuditContext> = {
+    actorUserId: moderatorUserId,
+    actorRole: moderatorRole,
+    ...(await getEnhancedAuditContext()),
+  };
+
+  try {
+    const target = await prisma.user.findUnique({
+      where: { id: targetUserId },
+      select: { role: true },
+    });
+
+    if (!target) {
+      throw new Error('User not found');
+    }
+    if (target.role !== 'USER') {
+      throw new StaffSuspensionError(targetUserId);
+    }
+
+    const suspension = await prisma.$transaction(async (tx) => {
+      const active = await tx.userSuspension.findFirst({
+        where: { userId: targetUserId, ...activeSuspensionWhere() },
+        select: { id: true },
+      });
+      if (active) throw new AlreadySuspendedError(targetUserId);
+
+      // An expired suspension the scheduler hasn't closed yet still holds the
+      // one open slot; close it and carry over the ads it still hides
+      const expired = await tx.userSuspension.findMany({
+        where: { userId: targetUserId, liftedAt: null },
+        select: { id: true, hiddenAdIds: true },
+      });
+      if (expired.length > 0) {
+        await tx.userSuspension.updateMany({
+          where: { id: { in: expired.map((s) => s.id) }, liftedAt: null },
+          data: { liftedAt: new Date() },
+        });
+      }
+
+      const adsToHide = await tx.ad.findMany({
+        where: {
+          userId: targetUserId,
+          OR: [
+            { status: 'ONLINE' },
+            { id: { in: expired.flatMap((s) => s.hiddenAdIds) }, status: 'SUSPENDED' },
+          ],
+        },
+        select: { id: true },
+      });
+      const hiddenAdIds = adsToHide.map((ad) => ad.id);
+
+      if (hiddenAdIds.length > 0) {
+        await tx.ad.updateMany({
+          where: { id: { in: hiddenAdIds }, status: 'ONLINE' },
+          data: { status: 'SUSPENDED' },
+        });
+      }
+
+      // The partial unique index allows one open suspension per user, so a
+      // concurrent suspend fails here instead of hiding the ads twice
+      return tx.userSuspension
+        .create({
+          data: {
+            userId: targetUserId,
+            reason: input.reason,
+            expiresAt: input.expiresAt,
+            issuedById: moderatorUserId,
+            hiddenAdIds,
+          },
+          select: { id: true, hiddenAdIds: true },
+        })
+        .catch((error) => {
+          if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+            throw new AlreadySuspendedError(targetUserId);
+          }
+          throw error;
+        });
+    });
+
+    await logSuccess(
+      'USER_SUSPEND' as AuditAction,
+      'USER' as AuditEntityType,
+      auditContext,
+      targetUserId,
+      {
+        suspensionId: suspension.id,
+        reason: input.reason,
+        expiresAt: input.expiresAt,
+        hiddenAdIds: suspension.hiddenAdIds,
+      },
+      input.expiresAt ? 'Moderator suspended user' : 'Moderator banned user'
+    );
+
+    await createNotification({
+      userId: targetUserId,
+      type: 'ACCOUNT_EVENT',
+      severity: 'ERROR',
+      title: 'Account suspended',
+      body: `Your account has been suspended ${describeExpiry(input.expiresAt)}. Reason: ${input.reason}`,
+      deepLink: '/dashboard',
+      data: { kind: 'SUSPENDED', suspensionId: suspension.id, expiresAt: input.expiresAt },
+    });
+
+    return { suspensionId: suspension.id, hiddenAdIds: suspension.hiddenAdIds };
+  } catch (error) {
+    await logFailure(
+      'USER_SUSPEND' as AuditAction,
+      'USER' as AuditEntityType,
+      error instanceof Error ? error.name.substring(0, 64) : 'UnknownError',
+      auditContext,
+      targetUserId,
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      'Failed to suspend user'
+    ).catch(console.error);
+
+    throw error;
+  }
+}
+
+/**
+ * Close a suspension and put its hidden ads back ONLINE.
+ * Returns null when it was already closed, so concurrent lift/expire runs act once.
+ * liftedById is null when the scheduler expires it.
+ */
+export async function endUserSuspension(
+  suspensionId: number,
+  liftedById: string | null,
+  liftNote: string | null,
+  now: Date = new Date()
+): Promise<EndedSuspension | null> {
+  return prisma.$transaction(async (tx) => {
+    const suspension = await tx.userSuspension.findUnique({
+      where: { id: suspensionId },
+      select: { userId: true, hiddenAdIds: true },
+    });
+    if (!suspension) return null;
+
+    const closed = await tx.userSuspension.updateMany({
+      where: { id: suspensionId, liftedAt: null },
+      data: { liftedAt: now, liftedById, liftNote },
+    });
+    if (closed.count === 0) return null;
+
+    // Ads deleted or changed by a moderator meanwhile stay as they are
+    const restorable = await tx.ad.findMany({
+      where: { id: { in: suspension.hiddenAdIds }, status: 'SUSPENDED' },
+      select: { id: true },
+    });
+    const restoredAdIds = restorable.map((ad) => ad.id);
+
+    if (restoredAdIds.length > 0) {
+      await tx.ad.updateMany({
+        where: { id: { in: restoredAdIds }, status: 'SUSPENDED' },
+        data: { status: 'ONLINE' },
+      });
+    }
+
+    return { suspensionId, userId: suspension.userId, restoredAdIds };
+  });
+}
+
+/**
+ * Lift an active suspension early (moderator action)
+ */
+export async function liftSuspension(
+  suspensionId: number,
+  note: string | null,
+  moderatorUserId: string,
+  moderatorRole: AuditActorRole = 'MODERATOR'
+): Promise<EndedSuspension> {
+  await requirePermission('users.suspend');
+
+  const auditContext: Partial<AuditContext> = {
+    actorUserId: moderatorUserId,
+    actorRole: moderatorRole,
+    ...(await getEnhancedAuditContext()),
+  };
+
+  const suspension = await prisma.userSuspension.findUnique({
+    where: { id: suspensionId },
+    select: { userId: true, liftedAt: true, expiresAt: true },
+  });
+
+  try {
+    if (!suspension) {
+      throw new Error('Suspension not found');
+    }
+    // Expired ones are left for the scheduler so they're recorded as expirations
+    if (suspension.liftedAt || (suspension.expiresAt && suspension.expiresAt <= new Date())) {
+      throw new SuspensionNotActiveError(suspensionId);
+    }
+
+    const ended = await endUserSuspension(suspensionId, moderatorUserId, note);
+    if (!ended) throw new SuspensionNotActiveError(suspensionId);
+
+    await logSuccess(
+      'USER_UNSUSPEND' as AuditAction,
+      'USER' as AuditEntityType,
+      auditContext,
+      ended.userId,
+      { suspensionId, note, restoredAdIds: ended.restoredAdIds },
+      'Moderator lifted suspension'
+    );
+
+    await createNotification({
+      userId: ended.userId,
+      type: 'ACCOUNT_EVENT',
+      severity: 'SUCCESS',
+      title: 'Suspension lifted',
+      body: 'Your account suspension has been lifted. Your ads are visible again and you can post as usual.',
+      deepLink: '/dashboard',
+      data: { kind: 'UNSUSPENDED', suspensionId },
+    });
+
+    return ended;
+  } catch (error) {
+    await logFailure(
+      'USER_UNSUSPEND' as AuditAction,
+      'USER' as AuditEntityType,
+      error instanceof Error ? error.name.substring(0, 64) : 'UnknownError',
+      auditContext,
+      suspension?.userId,
+      { suspensionId, error: error instanceof Error ? error.message : 'Unknown error' },
+      'Failed to lift suspension'
+    ).catch(console.error);
+
+    throw error;
+  }
+}
@@ -0,0 +1,191 @@
+/**
+ * Moderator DAL for User Notes
+ *
+ * Internal notes moderators keep on a user, so whoever reviews their next ad,
+ * verification or report sees what colleagues already noticed. A note is an
+ * EDIT_NOTE ModerationAction targeting the user; it is never shown to them.
+ * The review dialogs show the notes next to a summary of the user's past
+ * rejections, reports and suspensions.
+ */
+
+import type { AuditAction, AuditActorRole, AuditEntityType } from '@/generated/prisma';
+import { logFailure, logSuccess, type AuditContext } from '@/lib/audit/audit';
+import { getEnhancedAuditContext } from '@/lib/audit/audit-context';
+import { requirePermission } from '@/lib/auth/server';
+import { prisma } from '@/lib/db';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface UserNoteItem {
+  id: number;
+  note: string;
+  createdAt: Date;
+  author: { name: string; userId: string | null } | null;
+}
+
+export interface UserModerationSummary {
+  adRejections: number;
+  verificationRejections: number;
+  // Reports on the user's ads
+  reportsReceived: number;
+  reportsOpen: number;
+  // Closed with an outcome other than NO_ACTION
+  reportsUpheld: number;
+  // Reports the user filed on other ads
+  reportsFiled: number;
+  suspensions: number;
+}
+
+export interface UserModerationProfile {
+  summary: UserModerationSummary;
+  notes: UserNoteItem[];
+}
+
+const noteSelect = {
+  id: true,
+  reasonText: true,
+  createdAt: true,
+  actor: { select: { name: true, userId: true } },
+} as const;
+
+function toNoteItem(action: {
+  id: number;
+  reasonText: string | null;
+  createdAt: Date;
+  actor: { name: string; userId: string | null } | null;
+}): UserNoteItem {
+  return {
+    id: action.id,
+    note: action.reasonText ?? '',
+    createdAt: action.createdAt,
+    author: action.actor,
+  };
+}
+
+// =============================================================================
+// Queries
+// =============================================================================
+
+/**
+ * Notes on a user, newest first, with their moderation summary
+ */
+export async function getUserModerationProfile(userId: string): Promise<UserModerationProfile> {
+  await requirePermission('users.notes');
+
+  const user = await prisma.user.findUnique({ where: { id: userId }, select: { id: true } });
+  if (!user) {
+    throw new Error('User not found');
+  }
+
+  const [
+    notes,
+    adRejections,
+    verificationRejections,
+    reportsReceived,
+    reportsOpen,
+    reportsUpheld,
+    reportsFiled,
+    suspensions,
+  ] = await Promise.all([
+    prisma.moderationAction.findMany({
+      where: { subjectUserId: userId, targetType: 'USER', action: 'EDIT_NOTE' },
+      select: noteSelect,
+      orderBy: { createdAt: 'desc' },
+    }),
+    prisma.moderationAction.count({
+      where: { targetType: 'AD', action: 'REJECT', ad: { userId } },
+    }),
+    prisma.verificationRequest.count({ where: { userId, status: 'REJECTED' } }),
+    prisma.adReport.count({ where: { ad: { userId } } }),
+    prisma.adReport.count({ where: { ad: { userId }, status: 'OPEN' } }),
+    prisma.adReport.count({
+      where: { ad: { userId }, status: 'CLOSED', outcome: { not: 'NO_ACTION' } },
+    }),
+    prisma.adReport.count({ where: { reporterUserId: userId } }),
+    prisma.userSuspension.count({ where: { userId } }),
+  ]);
+
+  return {
+    summary: {
+      adRejections,
+      verificationRejections,
+      reportsReceived,
+      reportsOpen,
+      reportsUpheld,
+      reportsFiled,
+      suspensions,
+    },
+    notes: notes.map(toNoteItem),
+  };
+}
+
+// =============================================================================
+// Moderator Action Functions
+// =============================================================================
+
+/**
+ * Add an internal note on a user (moderator action)
+ * - Stores an EDIT_NOTE moderation action targeting the user
+ * - Logs USER_NOTE_ADD; the user is not notified
+ */
+export async function addUserNote(
+  targetUserId: string,
+  note: string,
+  moderatorUserId: string,
+  moderatorRole: AuditActorRole = 'MODERATOR'
+): Promise<UserNoteItem> {
+  await requirePermission('users.notes');
+
+  const auditContext: Partial<AuditContext> = {
+    actorUserId: moderatorUserId,
+    actorRole: moderatorRole,
+    ...(await getEnhancedAuditContext()),
+  };
+
+  try {
+    const target = await prisma.user.findUnique({
+      where: { id: targetUserId },
+      select: { id: true },
+    });
+
+    if (!target) {
+      throw new Error('User not found');
+    }
+
+    const action = await prisma.moderationAction.create({
+      data: {
+        actorUserId: moderatorUserId,
+        subjectUserId: targetUserId,
+        targetType: 'USER',
+        action: 'EDIT_NOTE',
+        reasonText: note,
+      },
+      select: noteSelect,
+    });
+
+    await logSuccess(
+      'USER_NOTE_ADD' as AuditAction,
+      'USER' as AuditEntityType,
+      auditContext,
+      targetUserId,
+      { moderationActionId: action.id, note },
+      'Moderator added note on user'
+    );
+
+    return toNoteItem(action);
+  } catch (error) {
+    await logFailure(
+      'USER_NOTE_ADD' as AuditAction,
+      'USER' as AuditEntityType,
+      error instanceof Error ? error.name.substring(0, 64) : 'UnknownError',
+      auditContext,
+      targetUserId,
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      'Failed to add note on user'
+    ).catch(console.error);
+
+    throw error;
+  }
+}
@@ -5,6 +5,24 @@
  * to review and manage user verification requests.
  */
 
+import { renderResponseTemplate } from '@/constants/response-template-config';
+import {
+  assertCityInScope,
+  getModerationScope,
+  isCityInScope,
+  scopedCityFilter,
+} from '@/data/moderator/moderator-scope.dal';
+import { getOpenFlags, type ModerationFlagInfo } from '@/data/moderator/moderation-flag.dal';
+import {
+  acquireReviewClaim,
+  ClaimedByOtherError,
+  getActiveReviewClaims,
+  getClaimedTargetIds,
+  releaseReviewClaim,
+  ReviewConflictError,
+  settleReviewClaim,
+  type ReviewClaimInfo,
+} from '@/data/moderator/review-claim.dal';
 import * as Enum from '@/generated/enums';
 import type {
   AuditAction,
@@ -17,6 +35,7 @@ import type {
 } from '@/generated/prisma';
 import { auditServerAction, logFailure, logSuccess } from '@/lib/audit/audit';
 import { getEnhancedAuditContext } from '@/lib/audit/audit-context';
+import { hasPermission, requirePermission } from '@/lib/auth/server';
 import { prisma } from '@/lib/db';
 import { createNotification } from '@/lib/services/notification-service';
 
@@ -60,6 +79,10 @@ export interface VerificationRequestWithDetails {
     role: VerificationFileRole;
     createdAt: Date;
   }[];
+  // Moderator currently reviewing it, if any
+  reviewClaim: ReviewClaimInfo | null;
+  // Open flag for admin review, if any
+  flag: ModerationFlagInfo | null;
 }
 
 export interface VerificationSearchParams {
@@ -144,6 +167,10 @@ export async function getVerificationRequestsForModerators(
   accessorUserId: string,
   accessorRole: AuditActorRole = 'MODERATOR'
 ): Promise<VerificationListResult> {
+  const accessor = await requirePermission('verifications.review');
+  const scope = await getModerationScope(accessor.id, accessor.role);
+  const canViewDocuments = hasPermission(accessor.role, 'verifications.view_documents');
+
   const {
     search = '',
     status,
@@ -174,9 +201,10 @@ export async function getVerificationRequestsForModerators(
     where.method = method;
   }
 
-  // City filter
-  if (cityId) {
-    where.cityId = cityId;
+  // City filter, limited to the moderator's scope
+  const cityFilter = scopedCityFilter(scope, cityId);
+  if (cityFilter !== undefined) {
+    where.cityId = cityFilter;
   }
 
   // Rejection code filter
@@ -258,6 +286,11 @@ export async function getVerificationRequestsForModerators(
   ]);
 
   const totalPages = Math.ceil(total / limit);
+  const requestIds = requests.map((request) => request.id);
+  const [claims, flags] = await Promise.all([
+    getActiveReviewClaims('VERIFICATION', requestIds),
+    getOpenFlags('VERIFICATION', requestIds),
+  ]);
 
   // Transform data and add filesCount
   const requestsWithDetails: VerificationRequestWithDetails[] = requests.map((request) => ({
@@ -275,7 +308,9 @@ export async function getVerificationRequestsForModerators(
     filesCount: request._count.files,
     user: request.user,
     city: request.city,
-    files: request.files,
+    files: canViewDocuments ? request.files : [],
+    reviewClaim: claims.get(request.id) ?? null,
+    flag: flags.get(request.id) ?? null,
   }));
 
   return {
@@ -295,15 +330,24 @@ export async function getVerificationRequestById(
   accessorUserId: string,
   accessorRole: AuditActorRole = 'MODERATOR'
 ): Promise<VerificationRequestWithDetails | null> {
+  const accessor = await requirePermission('verifications.review');
+  const scope = await getModerationScope(accessor.id, accessor.role);
+
   const request = await prisma.verificationRequest.findUnique({
     where: { id: requestId },
     include: verificationDetailsInclude,
   });
 
-  if (!request) {
+  // Requests (and their documents) outside the moderator's scope are treated as missing
+  if (!request || !isCityInScope(scope, request.cityId)) {
     return null;
   }
 
+  const [claims, flags] = await Promise.all([
+    getActiveReviewClaims('VERIFICATION', [requestId]),
+    getOpenFlags('VERIFICATION', [requestId]),
+  ]);
+
   return {
     id: request.id,
     userId: request.userId,
@@ -319,10 +363,92 @@ export async function getVerificationRequestById(
     filesCount: request._count.files,
     user: request.user,
     city: request.city,
-    files: request.files,
+    // Identity documents are only returned to roles allowed to see them
+    files: hasPermission(accessor.role, 'verifications.view_documents') ? request.files : [],
+    reviewClaim: claims.get(requestId) ?? null,
+    flag: flags.get(requestId) ?? null,
   };
 }
 
+// =============================================================================
+// Review Claims
+// =============================================================================
+
+/**
+ * Claim a pending verification request for review, or renew the moderator's own claim.
+ * Throws ClaimedByOtherError while another moderator is reviewing it.
+ */
+export async function claimVerificationForReview(requestId: number): Promise<{ expiresAt: Date }> {
+  const moderator = await requirePermission('verifications.review');
+  const scope = await getModerationScope(moderator.id, moderator.role);
+
+  const request = await prisma.verificationRequest.findUnique({
+    where: { id: requestId },
+    select: { status: true, cityId: true },
+  });
+
+  if (!request || !isCityInScope(scope, request.cityId)) {
+    throw new Error('Verification request not found');
+  }
+  if (request.status !== 'PENDING') {
+    throw new Error('Only pending verification requests can be claimed');
+  }
+
+  return acquireReviewClaim('VERIFICATION', requestId, moderator.id, 'Verification request');
+}
+
+/**
+ * Give up the moderator's claim on a verification request without deciding it
+ */
+export async function releaseVerificationReviewClaim(requestId: number): Promise<void> {
+  const moderator = await requirePermission('verifications.review');
+  await releaseReviewClaim('VERIFICATION', requestId, moderator.id);
+}
+
+/**
+ * Claim the oldest pending verification request nobody is reviewing, within the
+ * moderator's scope and the optional filters. Returns null when there's nothing left.
+ */
+export async function claimNextVerificationForReview(
+  filters: { method?: VerificationMethod; cityId?: number } = {}
+): Promise<{ requestId: number; expiresAt: Date } | null> {
+  const moderator = await requirePermission('verifications.review');
+  const scope = await getModerationScope(moderator.id, moderator.role);
+  const cityFilter = scopedCityFilter(scope, filters.cityId);
+
+  // Retry a few times in case another moderator grabs the same request first
+  for (let attempt = 0; attempt < 3; attempt++) {
+    const claimedIds = await getClaimedTargetIds('VERIFICATION');
+
+    const next = await prisma.verificationRequest.findFirst({
+      where: {
+        status: 'PENDING',
+        ...(filters.method && { method: filters.method }),
+        ...(cityFilter !== undefined && { cityId: cityFilter }),
+        id: { notIn: claimedIds },
+      },
+      select: { id: true },
+      orderBy: { submittedAt: 'asc' },
+    });
+
+    if (!next) return null;
+
+    try {
+      const claim = await acquireReviewClaim(
+        'VERIFICATION',
+        next.id,
+        moderator.id,
+        'Verification request'
+      );
+      return { requestId: next.id, ...claim };
+    } catch (error) {
+      if (!(error instanceof ClaimedByOtherError)) throw error;
+    }
+  }
+
+  return null;
+}
+
 // =============================================================================
 // Statistics and Analytics Functions
 // =============================================================================
@@ -331,10 +457,17 @@ export async function getVerificationRequestById(
  * Get verification statistics for moderator dashboard
  */
 export async function getVerificationStats(): Promise<VerificationStats> {
+  const accessor = await requirePermission('verifications.review');
+  const scope = await getModerationScope(accessor.id, accessor.role);
+
   const now = new Date();
   const oneWeekAgo = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
   const oneMonthAgo = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
 
+  // Scoped moderators get stats for their cities only
+  const cityWhere = scope ? { cityId: { in: scope.cityIds } } : {};
+  const scopeCityIds = scope?.cityIds ?? null;
+
   const [
     totalRequests,
     pendingRequests,
@@ -346,16 +479,18 @@ export async function getVerificationStats(): Promise<VerificationStats> {
     cityStats,
     processingTimes,
   ] = await Promise.all([
-    prisma.verificationRequest.count(),
-    prisma.verificationRequest.count({ where: { status: 'PENDING' } }),
-    prisma.verificationRequest.count({ where: { status: 'APPROVED' } }),
-    prisma.verificationRequest.count({ where: { status: 'REJECTED' } }),
-    prisma.verificationRequest.count({ where: { submittedAt: { gte: oneWeekAgo } } }),
-    prisma.verificationRequest.count({ where: { submittedAt: { gte: oneMonthAgo } } }),
+    prisma.verificationRequest.count({ where: cityWhere }),
+    prisma.verificationRequest.count({ where: { ...cityWhere, status: 'PENDING' } }),
+    prisma.verificationRequest.count({ where: { ...cityWhere, status: 'APPROVED' } }),
+    prisma.verificationRequest.count({ where: { ...cityWhere, status: 'REJECTED' } }),
+    prisma.verificationRequest.count({ where: { ...cityWhere, submittedAt: { gte: oneWeekAgo } } }),
+    prisma.verificationRequest.count({
+      where: { ...cityWhere, submittedAt: { gte: oneMonthAgo } },
+    }),
     // Top rejection reasons
     prisma.verificationRequest.groupBy({
       by: ['rejectionCode'],
-      where: { status: 'REJECTED', rejectionCode: { not: null } },
+      where: { ...cityWhere, status: 'REJECTED', rejectionCode: { not: null } },
       _count: { rejectionCode: true },
       orderBy: { _count: { rejectionCode: 'desc' } },
       take: 5,
@@ -368,6 +503,7 @@ export async function getVerificationStats(): Promise<VerificationStats> {
         COUNT(*)::int as "total"
       FROM "cities" c
       LEFT JOIN "verification_requests" vr ON c.id = vr."cityId"
+      WHERE ${scopeCityIds === null} OR c.id = ANY(${scopeCityIds ?? []}::int[])
       GROUP BY c.id, c.name
       HAVING COUNT(*) > 0
       ORDER BY "pending" DESC, "total" DESC
@@ -376,6 +512,7 @@ export async function getVerificationStats(): Promise<VerificationStats> {
     // Average processing time
     prisma.verificationRequest.findMany({
       where: {
+        ...cityWhere,
         status: { in: ['APPROVED', 'REJECTED'] },
         reviewedAt: { not: null },
       },
@@ -429,6 +566,9 @@ export async function moderatorApproveVerification(
   moderatorUserId: string,
   moderatorRole: AuditActorRole = 'MODERATOR'
 ): Promise<void> {
+  const moderator = await requirePermission('verifications.review');
+  const scope = await getModerationScope(moderator.id, moderator.role);
+
   const auditContext = await getEnhancedAuditContext();
 
   await auditServerAction(
@@ -444,21 +584,32 @@ export async function moderatorApproveVerification(
         throw new Error('Verification request not found');
       }
 
+      assertCityInScope(scope, request.cityId, 'Verification request');
+
       if (request.status !== 'PENDING') {
         throw new Error('Can only approve pending verification requests');
       }
 
       // Use transaction to ensure both updates succeed
       await prisma.$transaction(async (tx) => {
-        // Update verification request
-        await tx.verificationRequest.update({
-          where: { id: requestId },
+        await settleReviewClaim(
+          tx,
+          'VERIFICATION',
+          requestId,
+          moderatorUserId,
+          'Verification request'
+        );
+
+        // Only decides the request if nobody decided it since we read it
+        const updated = await tx.verificationRequest.updateMany({
+          where: { id: requestId, status: 'PENDING' },
           data: {
             status: 'APPROVED',
             reviewedAt: new Date(),
             reviewedByUserId: moderatorUserId,
           },
         });
+        if (updated.count === 0) throw new ReviewConflictError('Verification request');
 
         // Update user profile to mark as verified
         await tx.user.update({
@@ -506,6 +657,9 @@ export async function moderatorRejectVerification(
   },
   moderatorRole: AuditActorRole = 'MODERATOR'
 ): Promise<void> {
+  const moderator = await requirePermission('verifications.review');
+  const scope = await getModerationScope(moderator.id, moderator.role);
+
   const auditContext = await getEnhancedAuditContext();
 
   await auditServerAction(
@@ -514,26 +668,68 @@ export async function moderatorRejectVerification(
     async () => {
       const request = await prisma.verificationRequest.findUnique({
         where: { id: requestId },
-        select: { status: true, userId: true, method: true },
+        select: {
+          status: true,
+          userId: true,
+          method: true,
+          cityId: true,
+          // For canned response placeholders
+          city: { select: { name: true } },
+          user: { select: { name: true } },
+        },
       });
 
       if (!request) {
         throw new Error('Verification request not found');
       }
 
+      assertCityInScope(scope, request.cityId, 'Verification request');
+
       if (request.status !== 'PENDING') {
         throw new Error('Can only reject pending verification requests');
       }
 
-      const updated = await prisma.verificationRequest.update({
-        where: { id: requestId },
-        data: {
-          status: 'REJECTED',
-          reviewedAt: new Date(),
-          reviewedByUserId: moderatorUserId,
-          rejectionCode: rejectionData.rejectionCode,
-          rejectionNote: rejectionData.rejectionNote,
-        },
+      // Fill placeholders left in a canned response (bulk rejects send the raw template)
+      const rejectionNote = rejectionData.rejectionNote
+        ? renderResponseTemplate(rejectionData.rejectionNote, {
+            city: request.city.name,
+            userName: request.user.name,
+          })
+        : undefined;
+
+      await prisma.$transaction(async (tx) => {
+        await settleReviewClaim(
+          tx,
+          'VERIFICATION',
+          requestId,
+          moderatorUserId,
+          'Verification request'
+        );
+
+        // Only decides the request if nobody decided it since we read it
+        const updated = await tx.verificationRequest.updateMany({
+          where: { id: requestId, status: 'PENDING' },
+          data: {
+            status: 'REJECTED',
+            reviewedAt: new Date(),
+            reviewedByUserId: moderatorUserId,
+            rejectionCode: rejectionData.rejectionCode,
+            rejectionNote,
+          },
+        });
+        if (updated.count === 0) throw new ReviewConflictError('Verification request');
+
+        await tx.moderationAction.create({
+          data: {
+            actorUserId: moderatorUserId,
+            verificationId: requestId,
+            targetType: 'VERIFICATION',
+            action: 'REJECT',
+            reasonText: rejectionNote ?? null,
+            prevStatus: 'PENDING',
+            nextStatus: 'REJECTED',
+          },
+        });
       });
 
       // Helper to humanize rejection codes for user-facing text
@@ -555,7 +751,9 @@ export async function moderatorRejectVerification(
       };
 
       const reasonText = humanizeRejectionCode(rejectionData.rejectionCode);
-      const bodyText = `Reason: ${reasonText}`;
+      const bodyText = rejectionNote
+        ? `Reason: ${reasonText}. ${rejectionNote}`
+        : `Reason: ${reasonText}`;
 
       // Notify the user about the rejection
       await createNotification({
@@ -589,6 +787,8 @@ export async function bulkApproveVerifications(
   moderatorUserId: string,
   moderatorRole: AuditActorRole = 'MODERATOR'
 ): Promise<{ successful: number[]; failed: { id: number; error: string }[] }> {
+  await requirePermission('verifications.review');
+
   const auditContext = await getEnhancedAuditContext();
   const successful: number[] = [];
   const failed: { id: number; error: string }[] = [];
@@ -665,6 +865,8 @@ export async function bulkRejectVerifications(
   },
   moderatorRole: AuditActorRole = 'MODERATOR'
 ): Promise<{ successful: number[]; failed: { id: number; error: string }[] }> {
+  await requirePermission('verifications.review');
+
   const auditContext = await getEnhancedAuditContext();
   const successful: number[] = [];
   const failed: { id: number; error: string }[] = [];
@@ -0,0 +1,133 @@
+import type {
+  AuditAction,
+  AuditActorRole,
+  AuditEntityType,
+  ReportReason,
+} from '@/generated/prisma';
+import { logSuccess, type AuditContext } from '@/lib/audit/audit';
+import { prisma } from '@/lib/db';
+import { mimeFromStorageKey } from '@/lib/image_system/image-utils-server';
+
+/**
+ * Reporting limits, counted over a sliding window.
+ * Per-IP counting covers anonymous visitors and users hopping between accounts.
+ */
+export const REPORT_RATE_LIMIT = {
+  windowMs: 60 * 60 * 1000,
+  perReporter: 5,
+  perIp: 10,
+} as const;
+
+/**
+ * Count reports submitted recently by a reporter and from an IP address.
+ * IP counts come from REPORT_SUBMIT audit entries since reports don't store the IP.
+ */
+export async function countRecentReports(params: {
+  reporterUserId?: string | null;
+  ip?: string | null;
+  since: Date;
+}): Promise<{ byReporter: number; byIp: number }> {
+  const { reporterUserId, ip, since } = params;
+
+  const [byReporter, byIp] = await Promise.all([
+    reporterUserId
+      ? prisma.adReport.count({ where: { reporterUserId, createdAt: { gte: since } } })
+      : Promise.resolve(0),
+    ip
+      ? prisma.auditLog.count({
+          where: {
+            action: 'REPORT_SUBMIT',
+            outcome: 'SUCCESS',
+            ip,
+            createdAt: { gte: since },
+          },
+        })
+      : Promise.resolve(0),
+  ]);
+
+  return { byReporter, byIp };
+}
+
+/**
+ * Whether the user already has an open report on this ad
+ */
+export async function hasOpenReportForAd(adId: number, reporterUserId: string): Promise<boolean> {
+  const existing = await prisma.adReport.findFirst({
+    where: { adId, reporterUserId, status: 'OPEN' },
+    select: { id: true },
+  });
+  return !!existing;
+}
+
+/**
+ * Create a report on a live ad, with already-uploaded screenshots.
+ * Owners can't report their own ads.
+ */
+export async function createAdReport(
+  data: {
+    adId: number;
+    reporterUserId: string | null;
+    reason: ReportReason;
+    note?: string | null;
+    files: { storageKey: string; bytes?: number | null }[];
+  },
+  auditContext: AuditContext
+): Promise<{ reportId: number }> {
+  const ad = await prisma.ad.findUnique({
+    where: { id: data.adId },
+    select: { id: true, userId: true, status: true },
+  });
+
+  if (!ad || ad.status !== 'ONLINE') {
+    throw new Error('Ad not found');
+  }
+
+  if (data.reporterUserId && ad.userId === data.reporterUserId) {
+    throw new Error('You cannot report your own ad');
+  }
+
+  const report = await prisma.adReport.create({
+    data: {
+      adId: data.adId,
+      reporterUserId: data.reporterUserId,
+      reason: data.reason,
+      note: data.note || null,
+      files: {
+        create: data.files.map((file) => ({
+          storageKey: file.storageKey,
+          // Normalize mimeType based on trusted storageKey extension
+          mimeType: mimeFromStorageKey(file.storageKey),
+          bytes: file.bytes ?? null,
+        })),
+      },
+    },
+    select: { id: true },
+  });
+
+  const context = {
+    ...auditContext,
+    actorUserId: data.reporterUserId,
+    actorRole: data.reporterUserId ? ('USER' as AuditActorRole) : undefined,
+  };
+
+  await logSuccess(
+    'REPORT_SUBMIT' as AuditAction,
+    'AD_REPORT' as AuditEntityType,
+    context,
+    report.id,
+    { adId: data.adId, reason: data.reason, files: data.files.length },
+    'Ad reported'
+  );
+
+  if (data.files.length > 0) {
+    await logSuccess(
+      'REPORT_FILE_UPLOAD' as AuditAction,
+      'REPORT_FILE' as AuditEntityType,
+      context,
+      report.id,
+      { count: data.files.length }
+    );
+  }
+
+  return { reportId: report.id };
+}
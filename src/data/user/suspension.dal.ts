@@ -0,0 +1,58 @@
+import { prisma } from '@/lib/db';
+import { cache } from 'react';
+
+/** Shown wherever a suspended user is turned away */
+export const ACCOUNT_SUSPENDED_MESSAGE =
+  'Your account is suspended. You can’t post ads, request verification or send reports until the suspension ends.';
+
+export interface ActiveSuspension {
+  id: number;
+  reason: string;
+  // null for a permanent ban
+  expiresAt: Date | null;
+  createdAt: Date;
+}
+
+/**
+ * Domain errors
+ */
+export class UserSuspendedError extends Error {
+  constructor(userId: string) {
+    super(`User ${userId} is suspended`);
+    this.name = 'UserSuspendedError';
+  }
+}
+
+/**
+ * Prisma filter for suspensions in force at `now`.
+ * Suspensions past expiresAt stop applying right away, even before the scheduler marks them lifted.
+ */
+export function activeSuspensionWhere(now: Date = new Date()) {
+  return {
+    liftedAt: null,
+    OR: [{ expiresAt: null }, { expiresAt: { gt: now } }],
+  };
+}
+
+/**
+ * The user's suspension in force right now, if any.
+ * Memoized per request; guards and the dashboard notice may both ask.
+ */
+export const getActiveSuspension = cache(
+  async (userId: string): Promise<ActiveSuspension | null> => {
+    return prisma.userSuspension.findFirst({
+      where: { userId, ...activeSuspensionWhere() },
+      select: { id: true, reason: true, expiresAt: true, createdAt: true },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+);
+
+/**
+ * Throw UserSuspendedError when the user is suspended
+ */
+export async function assertNotSuspended(userId: string): Promise<void> {
+  if (await getActiveSuspension(userId)) {
+    throw new UserSuspendedError(userId);
+  }
+}
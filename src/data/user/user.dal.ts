@@ -140,7 +140,7 @@ export async function updateProfileName(
       actorRole: 'USER' as AuditActorRole,
       ...auditContext,
     },
-    undefined,
+    userId,
     'User updated profile name',
     metadata
   );
@@ -174,7 +174,7 @@ export async function updateProfileUserId(
       actorRole: 'USER' as AuditActorRole,
       ...auditContext,
     },
-    undefined,
+    userId,
     'User updated profile userId',
     metadata
   );
@@ -208,7 +208,7 @@ export async function updateProfileTelegram(
       actorRole: 'USER' as AuditActorRole,
       ...auditContext,
     },
-    undefined,
+    userId,
     'User updated profile telegram handle',
     metadata
   );
@@ -269,7 +269,7 @@ export async function changeCity(
       actorRole: 'USER' as AuditActorRole,
       ...auditContext,
     },
-    undefined,
+    userId,
     'User changed city'
   );
 }
@@ -299,7 +299,7 @@ export async function updateUserProfilePicture(userId: string, imageKey: string)
       actorRole: 'USER' as AuditActorRole,
       ...auditContext,
     },
-    undefined,
+    userId,
     'User updated profile picture'
   );
 }
@@ -341,7 +341,7 @@ export async function deleteUserProfilePicture(userId: string): Promise<void> {
       actorRole: 'USER' as AuditActorRole,
       ...auditContext,
     },
-    undefined,
+    userId,
     'User deleted profile picture'
   );
 }
@@ -21,6 +21,8 @@ export const AdStatus = {
   ONLINE: 'ONLINE',
   REJECTED: 'REJECTED',
   EXPIRED: 'EXPIRED',
+  SUSPENDED: 'SUSPENDED',
+  CHANGES_REQUESTED: 'CHANGES_REQUESTED',
 } as const
 
 export type AdStatus = typeof AdStatus[keyof typeof AdStatus]
@@ -271,6 +273,7 @@ export const ModerationTargetType = {
   AD: 'AD',
   VERIFICATION: 'VERIFICATION',
   REPORT: 'REPORT',
+  USER: 'USER',
 } as const
 
 export type ModerationTargetType =
@@ -342,6 +345,8 @@ export const NotificationType = {
   VERIFICATION_EVENT: 'VERIFICATION_EVENT',
   REPORT_EVENT: 'REPORT_EVENT',
   SYSTEM_ANNOUNCEMENT: 'SYSTEM_ANNOUNCEMENT',
+  ACCOUNT_EVENT: 'ACCOUNT_EVENT',
+  MODERATION_EVENT: 'MODERATION_EVENT',
 } as const
 
 export type NotificationType =
@@ -409,7 +414,9 @@ export const AuditEntityType = {
   AD_SERVICE: 'AD_SERVICE',
   AD_EXCHANGE: 'AD_EXCHANGE',
   USER: 'USER',
+  SESSION: 'SESSION',
   MODERATION_ACTION: 'MODERATION_ACTION',
+  RESPONSE_TEMPLATE: 'RESPONSE_TEMPLATE',
   VERIFICATION_REQUEST: 'VERIFICATION_REQUEST',
   VERIFICATION_FILE: 'VERIFICATION_FILE',
   AD_REPORT: 'AD_REPORT',
@@ -420,6 +427,7 @@ export const AuditEntityType = {
   POLICY_ACCEPTANCE: 'POLICY_ACCEPTANCE',
   MEDIA_ASSET: 'MEDIA_ASSET',
   CITY: 'CITY',
+  AUDIT_LOG: 'AUDIT_LOG',
   OTHER: 'OTHER',
 } as const
 
@@ -452,6 +460,16 @@ export const AuditAction = {
   CITY_CHANGE: 'CITY_CHANGE',
   ROLE_ASSIGN: 'ROLE_ASSIGN',
   ROLE_REVOKE: 'ROLE_REVOKE',
+  USER_SUSPEND: 'USER_SUSPEND',
+  USER_UNSUSPEND: 'USER_UNSUSPEND',
+  USER_SUSPENSION_EXPIRE: 'USER_SUSPENSION_EXPIRE',
+  USER_NOTE_ADD: 'USER_NOTE_ADD',
+  MODERATOR_SCOPE_UPDATE: 'MODERATOR_SCOPE_UPDATE',
+  RESPONSE_TEMPLATE_CREATE: 'RESPONSE_TEMPLATE_CREATE',
+  RESPONSE_TEMPLATE_UPDATE: 'RESPONSE_TEMPLATE_UPDATE',
+  RESPONSE_TEMPLATE_DELETE: 'RESPONSE_TEMPLATE_DELETE',
+  AUDIT_ENTRY_HIDE: 'AUDIT_ENTRY_HIDE',
+  AUDIT_ENTRY_UNHIDE: 'AUDIT_ENTRY_UNHIDE',
   VERIFICATION_SUBMIT: 'VERIFICATION_SUBMIT',
   VERIFICATION_FILE_UPLOAD: 'VERIFICATION_FILE_UPLOAD',
   VERIFICATION_FILE_DELETE: 'VERIFICATION_FILE_DELETE',
@@ -459,6 +477,8 @@ export const AuditAction = {
   VERIFICATION_REJECT: 'VERIFICATION_REJECT',
   VERIFICATION_REVOKE: 'VERIFICATION_REVOKE',
   VERIFICATION_ACCESS: 'VERIFICATION_ACCESS',
+  VERIFICATION_FLAG: 'VERIFICATION_FLAG',
+  VERIFICATION_UNFLAG: 'VERIFICATION_UNFLAG',
   AD_CREATE: 'AD_CREATE',
   AD_EDIT: 'AD_EDIT',
   AD_RENEW: 'AD_RENEW',
@@ -471,9 +491,12 @@ export const AuditAction = {
   AD_CONTACT_REVEAL: 'AD_CONTACT_REVEAL',
   AD_APPROVE: 'AD_APPROVE',
   AD_REJECT: 'AD_REJECT',
+  AD_REQUEST_CHANGES: 'AD_REQUEST_CHANGES',
   AD_EXPIRE: 'AD_EXPIRE',
   AD_RESTORE: 'AD_RESTORE',
   AD_STATUS_SET: 'AD_STATUS_SET',
+  AD_FLAG: 'AD_FLAG',
+  AD_UNFLAG: 'AD_UNFLAG',
   REPORT_SUBMIT: 'REPORT_SUBMIT',
   REPORT_FILE_UPLOAD: 'REPORT_FILE_UPLOAD',
   REPORT_FILE_DELETE: 'REPORT_FILE_DELETE',
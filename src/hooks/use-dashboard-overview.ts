@@ -15,11 +15,14 @@ export type TopAd = {
 };
 
 export type RecentActivity = {
+  id: number;
   createdAt: Date;
   action: string;
   entityType: string;
   entityId?: number | null;
   outcome: string;
+  message: string;
+  href: string | null;
 };
 
 export type DashboardOverview = {
@@ -31,13 +34,7 @@ export type DashboardOverview = {
 type OverviewApiResponse = {
   stats: OverviewStats;
   topAds: TopAd[];
-  recentActivity: Array<{
-    createdAt: string;
-    action: string;
-    entityType: string;
-    entityId?: number | null;
-    outcome: string;
-  }>;
+  recentActivity: Array<Omit<RecentActivity, 'createdAt'> & { createdAt: string }>;
 };
 
 /**
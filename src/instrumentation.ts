@@ -0,0 +1,15 @@
+/**
+ * Runs once when a server instance starts.
+ *
+ * Audit writes are HMAC-chained with AUDIT_CHAIN_SECRET and swallow their own
+ * errors, so without the secret every entry would be dropped silently, along
+ * with the report rate limit and renewal cap that count audit rows.
+ * Refuse to start instead.
+ */
+export function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') return;
+
+  if (!process.env.AUDIT_CHAIN_SECRET) {
+    throw new Error('AUDIT_CHAIN_SECRET is not configured; the server cannot write audit logs');
+  }
+}
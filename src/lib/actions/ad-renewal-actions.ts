@@ -0,0 +1,72 @@
+'use server';
+
+import { AD_RENEWALS_PER_MONTH } from '@/constants/ad-renewal-config';
+import { renewAd } from '@/data/ads/ad-renewal';
+import { ACCOUNT_SUSPENDED_MESSAGE, assertNotSuspended } from '@/data/user/suspension.dal';
+import type { AdStatus, AuditActorRole } from '@/generated/enums';
+import { logFailure, logSuccess } from '@/lib/audit/audit';
+import { requireUser } from '@/lib/auth/server';
+
+export type RenewAdActionResult =
+  | { success: true; status: AdStatus; expirationDate: Date; requeued: boolean }
+  | { success: false; error: string };
+
+/** Map of domain errors to user-friendly messages */
+const DOMAIN_ERROR_MESSAGES: Record<string, string> = {
+  AdNotRenewableError: 'This ad can only be renewed once it has expired or is about to expire.',
+  RenewalLimitError: `You can renew an ad up to ${AD_RENEWALS_PER_MONTH} times a month.`,
+  NotVerifiedError: 'Only verified users can publish currency exchange ads.',
+  UserSuspendedError: ACCOUNT_SUSPENDED_MESSAGE,
+};
+
+/**
+ * Renew an expired or soon-to-expire ad owned by the current user
+ */
+export async function renewAdAction(adId: number): Promise<RenewAdActionResult> {
+  const user = await requireUser();
+  const context = { actorUserId: user.id, actorRole: 'USER' as AuditActorRole };
+
+  try {
+    await assertNotSuspended(user.id);
+    const result = await renewAd(adId, user.id);
+
+    await logSuccess(
+      'AD_RENEW',
+      'AD',
+      context,
+      adId,
+      {
+        prevStatus: result.previousStatus,
+        nextStatus: result.status,
+        prevExpirationDate: result.previousExpirationDate,
+        expirationDate: result.expirationDate,
+        requeued: result.requeued,
+      },
+      result.requeued ? 'Ad renewed and sent back to review' : 'Ad renewed'
+    );
+
+    return {
+      success: true,
+      status: result.status,
+      expirationDate: result.expirationDate,
+      requeued: result.requeued,
+    };
+  } catch (error) {
+    const name = error instanceof Error ? error.name : 'UnknownError';
+    const message = error instanceof Error ? error.message : '';
+
+    await logFailure('AD_RENEW', 'AD', name.substring(0, 64), context, adId, {
+      error: message,
+    }).catch(console.error);
+
+    if (DOMAIN_ERROR_MESSAGES[name]) {
+      return { success: false, error: DOMAIN_ERROR_MESSAGES[name] };
+    }
+    if (message.includes('not found') || message.includes('not owned')) {
+      return { success: false, error: 'Ad not found or you do not have permission to renew it.' };
+    }
+
+    console.error('Error renewing ad:', error);
+    return { success: false, error: 'Failed to renew ad. Please try again later.' };
+  }
+}
@@ -119,7 +119,7 @@ export async function completeProfileAction(formData: FormData): Promise<Complet
           actorRole: 'USER' as AuditActorRole,
           ...auditContext,
         },
-        undefined,
+        user.id,
         'User completed profile setup'
       );
 
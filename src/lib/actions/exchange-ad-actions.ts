@@ -0,0 +1,391 @@
+'use server';
+
+import {
+  createExchangeAdWithDetails,
+  deleteExchangeAd,
+  getExchangeAdByIdForUser,
+  updateExchangeAdWithDetails,
+} from '@/data/ads/ad-exchange';
+import type { CreateExchangeAdInput, UpdateExchangeAdInput } from '@/data/ads/exchange-types';
+import { ACCOUNT_SUSPENDED_MESSAGE } from '@/data/user/suspension.dal';
+import {
+  ExchangeMode,
+  ExchangeRateType,
+  ExchangeSide,
+  SettlementMethod,
+  type AuditActorRole,
+} from '@/generated/enums';
+import { logSuccess } from '@/lib/audit/audit';
+import { requireActiveUser, requireUser } from '@/lib/auth/server';
+import { exchangeSchema, type ExchangeFormValues } from '@/lib/schemas/ads/exchange-schema';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Form field value type from FormData.get() */
+type FormDataValue = FormDataEntryValue | null;
+
+/**
+ * Unified result type for exchange ad actions (create/update)
+ */
+export type ExchangeAdActionResult =
+  | { success: true; adId: number }
+  | { success: false; error: string; fieldErrors?: Record<string, string> };
+
+// ============================================================================
+// Error Handling
+// ============================================================================
+
+const NOT_VERIFIED_MESSAGE = 'Only verified users can publish currency exchange ads.';
+
+/** Known domain error types from DAL */
+type DomainErrorName =
+  | 'AdNotFoundError'
+  | 'NotOwnerError'
+  | 'CategoryMismatchError'
+  | 'NotVerifiedError'
+  | 'UserSuspendedError'
+  | 'AdExpiredError';
+
+/** Map of domain errors to user-friendly messages */
+const DOMAIN_ERROR_MESSAGES: Record<DomainErrorName, string> = {
+  AdNotFoundError: 'Ad not found.',
+  NotOwnerError: 'You do not have permission to perform this action.',
+  CategoryMismatchError: 'Invalid ad category.',
+  NotVerifiedError: NOT_VERIFIED_MESSAGE,
+  UserSuspendedError: ACCOUNT_SUSPENDED_MESSAGE,
+  AdExpiredError: 'This ad has expired. Renew it before making changes.',
+};
+
+/** Map of error message patterns to user-friendly messages */
+const ERROR_MESSAGE_PATTERNS: Array<{ pattern: string; message: string }> = [
+  { pattern: 'not found', message: 'Ad not found.' },
+  { pattern: 'not the owner', message: 'You do not have permission to edit this ad.' },
+  { pattern: 'Expected category', message: 'Invalid ad category.' },
+];
+
+/**
+ * Maps errors to user-friendly result objects
+ */
+function handleActionError(error: unknown, context: 'create' | 'update'): ExchangeAdActionResult {
+  if (!(error instanceof Error)) {
+    return { success: false, error: 'An unexpected error occurred. Please try again later.' };
+  }
+
+  // Check for known domain error names
+  const domainMessage = DOMAIN_ERROR_MESSAGES[error.name as DomainErrorName];
+  if (domainMessage) {
+    return { success: false, error: domainMessage };
+  }
+
+  // Check for error message patterns
+  for (const { pattern, message } of ERROR_MESSAGE_PATTERNS) {
+    if (error.message.includes(pattern)) {
+      return { success: false, error: message };
+    }
+  }
+
+  // Log unexpected errors for debugging
+  console.error(`Error ${context}ing exchange ad:`, error);
+
+  return { success: false, error: 'An unexpected error occurred. Please try again later.' };
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+/**
+ * Validates form data and returns parsed data
+ */
+function validateAndParse(
+  formData: FormData
+): { valid: true; data: ExchangeFormValues } | { valid: false; result: ExchangeAdActionResult } {
+  const validation = exchangeSchema.safeParse(extractFormData(formData));
+  if (!validation.success) {
+    const fieldErrors: Record<string, string> = {};
+    for (const issue of validation.error.issues) {
+      const path = issue.path.join('.');
+      if (path) fieldErrors[path] = issue.message;
+    }
+    return {
+      valid: false,
+      result: {
+        success: false,
+        error: 'Please fix the validation errors in the form.',
+        fieldErrors,
+      },
+    };
+  }
+
+  return { valid: true, data: validation.data };
+}
+
+// ============================================================================
+// DAL Input Building
+// ============================================================================
+
+/**
+ * Builds the common DAL input from validated data
+ * Values that do not apply to the chosen options are dropped.
+ */
+function buildDalInput(
+  data: ExchangeFormValues,
+  userId: string,
+  cityId: number
+): CreateExchangeAdInput {
+  return {
+    userId,
+    cityId,
+    side: data.side,
+    // Checked by the schema refinement
+    amountEur: data.amountEur!,
+    allowsPartial: data.allowsPartial,
+    minChunkEur: data.allowsPartial ? (data.minChunkEur ?? null) : null,
+    rateType: data.rateType,
+    rateValue: data.rateType === ExchangeRateType.CUSTOM ? (data.rateValue ?? null) : null,
+    exchangeMode: data.exchangeMode,
+    settlementMethods: data.settlementMethods,
+    otherSettlementNote: data.settlementMethods.includes(SettlementMethod.OTHER)
+      ? (data.otherSettlementNote ?? null)
+      : null,
+    notes: data.notes ?? null,
+  };
+}
+
+/**
+ * Builds audit metadata from the form data
+ */
+function buildAuditMetadata(data: ExchangeFormValues, userId: string, cityId: number) {
+  return {
+    userId,
+    cityId,
+    side: data.side,
+    amountEur: data.amountEur ?? null,
+    allowsPartial: data.allowsPartial,
+    minChunkEur: data.minChunkEur ?? null,
+    rateType: data.rateType,
+    rateValue: data.rateValue ?? null,
+    exchangeMode: data.exchangeMode,
+    settlementMethods: data.settlementMethods,
+  };
+}
+
+// ============================================================================
+// Server Actions
+// ============================================================================
+
+/**
+ * Server action to create a exchange ad
+ *
+ * Validates the form data, derives the userId from the session, and calls the DAL.
+ */
+export async function createExchangeAdAction(
+  _prevState: ExchangeAdActionResult | null,
+  formData: FormData
+): Promise<ExchangeAdActionResult> {
+  try {
+    // 1. Authenticate user
+    const user = await requireActiveUser();
+
+    // 2. Require a city and a verified account
+    if (!user.cityId) {
+      return {
+        success: false,
+        error: 'Please complete your profile and select a city before creating an ad.',
+      };
+    }
+
+    // The DAL re-checks this against the database; the session flag gives an early answer
+    if (!user.verified) {
+      return { success: false, error: NOT_VERIFIED_MESSAGE };
+    }
+
+    // 3. Validate and parse form data
+    const validation = validateAndParse(formData);
+    if (!validation.valid) return validation.result;
+
+    const { data } = validation;
+
+    // 4. Build DAL input and create ad
+    const ad = await createExchangeAdWithDetails(buildDalInput(data, user.id, user.cityId));
+
+    // 5. Log to audit system
+    await logSuccess(
+      'AD_CREATE',
+      'AD_EXCHANGE',
+      { actorUserId: user.id, actorRole: 'USER' as AuditActorRole },
+      ad.id,
+      buildAuditMetadata(data, user.id, user.cityId),
+      'Exchange ad created successfully'
+    );
+
+    return { success: true, adId: ad.id };
+  } catch (error) {
+    return handleActionError(error, 'create');
+  }
+}
+
+/**
+ * Server action to update an existing exchange ad
+ *
+ * Validates the form data, ensures the user owns the ad, and updates via the DAL.
+ * After update, the ad status is reset to PENDING for re-moderation.
+ */
+export async function updateExchangeAdAction(
+  adId: number,
+  formData: FormData
+): Promise<ExchangeAdActionResult> {
+  try {
+    // 1. Authenticate user
+    const user = await requireActiveUser();
+
+    // 2. Require a city and a verified account
+    if (!user.cityId) {
+      return {
+        success: false,
+        error: 'Please complete your profile and select a city before updating an ad.',
+      };
+    }
+
+    // The DAL re-checks this against the database; the session flag gives an early answer
+    if (!user.verified) {
+      return { success: false, error: NOT_VERIFIED_MESSAGE };
+    }
+
+    // 3. Validate and parse form data
+    const validation = validateAndParse(formData);
+    if (!validation.valid) return validation.result;
+
+    const { data } = validation;
+
+    // 4. Build DAL input and update ad
+    const dalInput: UpdateExchangeAdInput = {
+      adId,
+      ...buildDalInput(data, user.id, user.cityId),
+    };
+    const ad = await updateExchangeAdWithDetails(dalInput);
+
+    // 5. Log to audit system
+    await logSuccess(
+      'AD_EDIT',
+      'AD_EXCHANGE',
+      { actorUserId: user.id, actorRole: 'USER' as AuditActorRole },
+      ad.id,
+      buildAuditMetadata(data, user.id, user.cityId),
+      'Exchange ad updated successfully'
+    );
+
+    return { success: true, adId: ad.id };
+  } catch (error) {
+    return handleActionError(error, 'update');
+  }
+}
+
+// ============================================================================
+// Delete Action
+// ============================================================================
+
+/**
+ * Result type for delete action
+ */
+export type DeleteExchangeAdResult = { success: true } | { success: false; error: string };
+
+/**
+ * Server action to delete a exchange ad
+ *
+ * Only the owner of the ad can delete it.
+ */
+export async function deleteExchangeAdAction(adId: number): Promise<DeleteExchangeAdResult> {
+  try {
+    // 1. Authenticate user
+    const user = await requireUser();
+
+    // 2. Verify ownership
+    const ad = await getExchangeAdByIdForUser(adId, user.id);
+    if (!ad) {
+      return {
+        success: false,
+        error: 'Ad not found or you do not have permission to delete it.',
+      };
+    }
+
+    // 3. Delete from database
+    await deleteExchangeAd(adId, user.id);
+
+    // 4. Log to audit system
+    await logSuccess(
+      'AD_DELETE',
+      'AD_EXCHANGE',
+      { actorUserId: user.id, actorRole: 'USER' as AuditActorRole },
+      adId,
+      { adId, userId: user.id },
+      'Exchange ad deleted successfully'
+    );
+
+    return { success: true };
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message.includes('not found') || error.message.includes('not owned')) {
+        return {
+          success: false,
+          error: 'Ad not found or you do not have permission to delete it.',
+        };
+      }
+    }
+
+    console.error('Error deleting exchange ad:', error);
+    return {
+      success: false,
+      error: 'An unexpected error occurred while deleting the ad. Please try again.',
+    };
+  }
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Extract and parse form data into an object the zod schema can validate
+ */
+function extractFormData(formData: FormData) {
+  const parseString = (value: FormDataValue): string | null =>
+    typeof value === 'string' && value.trim() !== '' ? value : null;
+
+  const parseNumber = (value: FormDataValue): number | null => {
+    if (value === null || value === '') return null;
+    const num = Number(value);
+    return Number.isFinite(num) ? num : null;
+  };
+
+  const parseBoolean = (value: FormDataValue): boolean => value === 'true';
+
+  const parseStringList = (value: FormDataValue): string[] => {
+    if (typeof value !== 'string' || value === '') return [];
+    try {
+      const parsed: unknown = JSON.parse(value);
+      return Array.isArray(parsed) ? parsed.filter((v): v is string => typeof v === 'string') : [];
+    } catch {
+      return [];
+    }
+  };
+
+  const parseEnum = <T extends string>(value: FormDataValue, values: Record<string, T>) =>
+    Object.values(values).includes(value as T) ? (value as T) : null;
+
+  return {
+    side: parseEnum(formData.get('side'), ExchangeSide),
+    amountEur: parseNumber(formData.get('amountEur')),
+    allowsPartial: parseBoolean(formData.get('allowsPartial')),
+    minChunkEur: parseNumber(formData.get('minChunkEur')),
+    rateType: parseEnum(formData.get('rateType'), ExchangeRateType),
+    rateValue: parseNumber(formData.get('rateValue')),
+    exchangeMode: parseEnum(formData.get('exchangeMode'), ExchangeMode),
+    // Unknown values are kept so the schema reports them instead of dropping them silently
+    settlementMethods: parseStringList(formData.get('settlementMethods')) as SettlementMethod[],
+    otherSettlementNote: parseString(formData.get('otherSettlementNote')),
+    notes: parseString(formData.get('notes')),
+  };
+}
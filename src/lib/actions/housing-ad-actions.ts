@@ -11,6 +11,7 @@ import type {
   MediaImageInput,
   UpdateHousingAdInput,
 } from '@/data/ads/housing-types';
+import { ACCOUNT_SUSPENDED_MESSAGE } from '@/data/user/suspension.dal';
 import type { AuditActorRole } from '@/generated/enums';
 import {
   BillsPolicy,
@@ -24,7 +25,7 @@ import {
   HousingUnitType,
 } from '@/generated/prisma';
 import { logSuccess } from '@/lib/audit/audit';
-import { requireUser } from '@/lib/auth/server';
+import { requireActiveUser, requireUser } from '@/lib/auth/server';
 import { housingSchema, pruneHousingValuesForBranch } from '@/lib/schemas/ads/housing-schema';
 import { getStorageProvider } from '@/lib/storage';
 import type { z } from 'zod';
@@ -63,13 +64,20 @@ export type UpdateHousingAdResult = HousingAdActionResult;
 // ============================================================================
 
 /** Known domain error types from DAL */
-type DomainErrorName = 'AdNotFoundError' | 'NotOwnerError' | 'CategoryMismatchError';
+type DomainErrorName =
+  | 'AdNotFoundError'
+  | 'NotOwnerError'
+  | 'CategoryMismatchError'
+  | 'UserSuspendedError'
+  | 'AdExpiredError';
 
 /** Map of domain errors to user-friendly messages */
 const DOMAIN_ERROR_MESSAGES: Record<DomainErrorName, string> = {
   AdNotFoundError: 'Ad not found.',
   NotOwnerError: 'You do not have permission to perform this action.',
   CategoryMismatchError: 'Invalid ad category.',
+  UserSuspendedError: ACCOUNT_SUSPENDED_MESSAGE,
+  AdExpiredError: 'This ad has expired. Renew it before making changes.',
 };
 
 /** Map of error message patterns to user-friendly messages */
@@ -298,7 +306,7 @@ export async function createHousingAdAction(
 ): Promise<HousingAdActionResult> {
   try {
     // 1. Authenticate user
-    const user = await requireUser();
+    const user = await requireActiveUser();
     if (!user.cityId) {
       return {
         success: false,
@@ -350,7 +358,7 @@ export async function updateHousingAdAction(
 ): Promise<HousingAdActionResult> {
   try {
     // 1. Authenticate user
-    const user = await requireUser();
+    const user = await requireActiveUser();
     if (!user.cityId) {
       return {
         success: false,
@@ -1,6 +1,7 @@
 'use server';
 
-import { requireUser } from '@/lib/auth/server';
+import { ACCOUNT_SUSPENDED_MESSAGE } from '@/data/user/suspension.dal';
+import { requireActiveUser, requireUser } from '@/lib/auth/server';
 import {
   HousingAdImageService,
   type ImageUploadResult,
@@ -17,7 +18,7 @@ export async function uploadHousingImageAction(
   formData: FormData
 ): Promise<UploadHousingImageResult> {
   try {
-    const user = await requireUser();
+    const user = await requireActiveUser();
 
     const file = formData.get('housingImage') as File;
     if (!file || typeof file.arrayBuffer !== 'function') {
@@ -29,6 +30,8 @@ export async function uploadHousingImageAction(
 
     return { ok: true, data: result.data };
   } catch (error: any) {
+    if (error?.name === 'UserSuspendedError')
+      return { ok: false, error: ACCOUNT_SUSPENDED_MESSAGE };
     const msg = error?.message || 'Image upload failed';
     return { ok: false, error: msg };
   }
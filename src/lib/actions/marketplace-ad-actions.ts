@@ -0,0 +1,438 @@
+'use server';
+
+import {
+  createMarketplaceAdWithMedia,
+  deleteMarketplaceAd,
+  getMarketplaceAdByIdForUser,
+  updateMarketplaceAdWithMedia,
+} from '@/data/ads/ad-marketplace';
+import type { MediaImageInput } from '@/data/ads/housing-types';
+import type {
+  CreateMarketplaceAdInput,
+  UpdateMarketplaceAdInput,
+} from '@/data/ads/marketplace-types';
+import { ACCOUNT_SUSPENDED_MESSAGE } from '@/data/user/suspension.dal';
+import { MarketplaceCondition, type AuditActorRole } from '@/generated/enums';
+import { logSuccess } from '@/lib/audit/audit';
+import { requireActiveUser, requireUser } from '@/lib/auth/server';
+import {
+  marketplaceSchema,
+  type MarketplaceFormValues,
+} from '@/lib/schemas/ads/marketplace-schema';
+import { getStorageProvider } from '@/lib/storage';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Raw image data structure from form JSON */
+interface RawImageData {
+  storageKey?: string;
+  mimeType?: string | null;
+  alt?: string | null;
+  width?: number | null;
+  height?: number | null;
+  bytes?: number | null;
+}
+
+/** Form field value type from FormData.get() */
+type FormDataValue = FormDataEntryValue | null;
+
+/**
+ * Unified result type for marketplace ad actions (create/update)
+ */
+export type MarketplaceAdActionResult =
+  | { success: true; adId: number }
+  | { success: false; error: string; fieldErrors?: Record<string, string> };
+
+// ============================================================================
+// Error Handling
+// ============================================================================
+
+/** Known domain error types from DAL */
+type DomainErrorName =
+  | 'AdNotFoundError'
+  | 'NotOwnerError'
+  | 'CategoryMismatchError'
+  | 'UserSuspendedError'
+  | 'AdExpiredError';
+
+/** Map of domain errors to user-friendly messages */
+const DOMAIN_ERROR_MESSAGES: Record<DomainErrorName, string> = {
+  AdNotFoundError: 'Ad not found.',
+  NotOwnerError: 'You do not have permission to perform this action.',
+  CategoryMismatchError: 'Invalid ad category.',
+  UserSuspendedError: ACCOUNT_SUSPENDED_MESSAGE,
+  AdExpiredError: 'This ad has expired. Renew it before making changes.',
+};
+
+/** Map of error message patterns to user-friendly messages */
+const ERROR_MESSAGE_PATTERNS: Array<{ pattern: string; message: string }> = [
+  { pattern: 'not found', message: 'Ad not found.' },
+  { pattern: 'not the owner', message: 'You do not have permission to edit this ad.' },
+  { pattern: 'Expected category', message: 'Invalid ad category.' },
+  { pattern: 'At least one image is required', message: 'At least one image is required.' },
+  { pattern: 'Cover image must be', message: 'Cover image must be one of the uploaded images.' },
+];
+
+/**
+ * Maps errors to user-friendly result objects
+ */
+function handleActionError(
+  error: unknown,
+  context: 'create' | 'update'
+): MarketplaceAdActionResult {
+  if (!(error instanceof Error)) {
+    return { success: false, error: 'An unexpected error occurred. Please try again later.' };
+  }
+
+  // Check for known domain error names
+  const domainMessage = DOMAIN_ERROR_MESSAGES[error.name as DomainErrorName];
+  if (domainMessage) {
+    return { success: false, error: domainMessage };
+  }
+
+  // Check for error message patterns
+  for (const { pattern, message } of ERROR_MESSAGE_PATTERNS) {
+    if (error.message.includes(pattern)) {
+      return { success: false, error: message };
+    }
+  }
+
+  // Log unexpected errors for debugging
+  console.error(`Error ${context}ing marketplace ad:`, error);
+
+  return { success: false, error: 'An unexpected error occurred. Please try again later.' };
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+/**
+ * Validates form data and returns parsed data with image metadata
+ */
+function validateAndParse(
+  formData: FormData
+):
+  | { valid: true; data: MarketplaceFormValues; images: MediaImageInput[] }
+  | { valid: false; result: MarketplaceAdActionResult } {
+  const validation = marketplaceSchema.safeParse(extractFormData(formData));
+  if (!validation.success) {
+    const fieldErrors: Record<string, string> = {};
+    for (const issue of validation.error.issues) {
+      const path = issue.path.join('.');
+      if (path) fieldErrors[path] = issue.message;
+    }
+    return {
+      valid: false,
+      result: {
+        success: false,
+        error: 'Please fix the validation errors in the form.',
+        fieldErrors,
+      },
+    };
+  }
+
+  const images = parseImagesFromFormData(formData);
+  if (!images) {
+    return {
+      valid: false,
+      result: { success: false, error: 'Invalid image data format.' },
+    };
+  }
+
+  if (!images.some((img) => img.storageKey === validation.data.coverImageStorageKey)) {
+    return {
+      valid: false,
+      result: { success: false, error: 'Cover image must be one of the uploaded images.' },
+    };
+  }
+
+  return { valid: true, data: validation.data, images };
+}
+
+// ============================================================================
+// DAL Input Building
+// ============================================================================
+
+/**
+ * Builds the common DAL input from validated data
+ */
+function buildDalInput(
+  data: MarketplaceFormValues,
+  images: MediaImageInput[],
+  userId: string,
+  cityId: number
+): CreateMarketplaceAdInput {
+  return {
+    userId,
+    cityId,
+    title: data.title,
+    description: data.description,
+    condition: data.condition,
+    category: data.category ?? null,
+    // 0.00 is the stored marker for negotiable items
+    price: data.priceNegotiable ? 0 : (data.price ?? 0),
+    images,
+    coverImageStorageKey: data.coverImageStorageKey,
+  };
+}
+
+/**
+ * Builds audit metadata from the form data
+ */
+function buildAuditMetadata(
+  data: MarketplaceFormValues,
+  images: MediaImageInput[],
+  userId: string,
+  cityId: number
+) {
+  return {
+    userId,
+    cityId,
+    title: data.title,
+    condition: data.condition,
+    itemCategory: data.category ?? null,
+    price: data.priceNegotiable ? null : data.price,
+    priceNegotiable: data.priceNegotiable,
+    imageCount: images.length,
+    hasCoverImage: !!data.coverImageStorageKey,
+  };
+}
+
+// ============================================================================
+// Server Actions
+// ============================================================================
+
+/**
+ * Server action to create a marketplace ad
+ *
+ * Validates the form data, derives the userId from the session, and calls the DAL.
+ */
+export async function createMarketplaceAdAction(
+  _prevState: MarketplaceAdActionResult | null,
+  formData: FormData
+): Promise<MarketplaceAdActionResult> {
+  try {
+    // 1. Authenticate user
+    const user = await requireActiveUser();
+    if (!user.cityId) {
+      return {
+        success: false,
+        error: 'Please complete your profile and select a city before creating an ad.',
+      };
+    }
+
+    // 2. Validate and parse form data
+    const validation = validateAndParse(formData);
+    if (!validation.valid) return validation.result;
+
+    const { data, images } = validation;
+
+    // 3. Build DAL input and create ad
+    const ad = await createMarketplaceAdWithMedia(
+      buildDalInput(data, images, user.id, user.cityId)
+    );
+
+    // 4. Log to audit system
+    await logSuccess(
+      'AD_CREATE',
+      'AD_MARKETPLACE',
+      { actorUserId: user.id, actorRole: 'USER' as AuditActorRole },
+      ad.id,
+      buildAuditMetadata(data, images, user.id, user.cityId),
+      'Marketplace ad created successfully'
+    );
+
+    return { success: true, adId: ad.id };
+  } catch (error) {
+    return handleActionError(error, 'create');
+  }
+}
+
+/**
+ * Server action to update an existing marketplace ad
+ *
+ * Validates the form data, ensures the user owns the ad, and updates via the DAL.
+ * After update, the ad status is reset to PENDING for re-moderation.
+ */
+export async function updateMarketplaceAdAction(
+  adId: number,
+  formData: FormData
+): Promise<MarketplaceAdActionResult> {
+  try {
+    // 1. Authenticate user
+    const user = await requireActiveUser();
+    if (!user.cityId) {
+      return {
+        success: false,
+        error: 'Please complete your profile and select a city before updating an ad.',
+      };
+    }
+
+    // 2. Validate and parse form data
+    const validation = validateAndParse(formData);
+    if (!validation.valid) return validation.result;
+
+    const { data, images } = validation;
+
+    // 3. Build DAL input and update ad
+    const dalInput: UpdateMarketplaceAdInput = {
+      adId,
+      ...buildDalInput(data, images, user.id, user.cityId),
+    };
+    const ad = await updateMarketplaceAdWithMedia(dalInput);
+
+    // 4. Log to audit system
+    await logSuccess(
+      'AD_EDIT',
+      'AD_MARKETPLACE',
+      { actorUserId: user.id, actorRole: 'USER' as AuditActorRole },
+      ad.id,
+      buildAuditMetadata(data, images, user.id, user.cityId),
+      'Marketplace ad updated successfully'
+    );
+
+    return { success: true, adId: ad.id };
+  } catch (error) {
+    return handleActionError(error, 'update');
+  }
+}
+
+// ============================================================================
+// Delete Action
+// ============================================================================
+
+/**
+ * Result type for delete action
+ */
+export type DeleteMarketplaceAdResult = { success: true } | { success: false; error: string };
+
+/**
+ * Server action to delete a marketplace ad
+ *
+ * Deletes the ad from the database and removes all associated images from storage.
+ * Only the owner of the ad can delete it.
+ */
+export async function deleteMarketplaceAdAction(adId: number): Promise<DeleteMarketplaceAdResult> {
+  try {
+    // 1. Authenticate user
+    const user = await requireUser();
+
+    // 2. Fetch the ad to get image storage keys (and verify ownership)
+    const ad = await getMarketplaceAdByIdForUser(adId, user.id);
+    if (!ad) {
+      return {
+        success: false,
+        error: 'Ad not found or you do not have permission to delete it.',
+      };
+    }
+
+    const storageKeys = ad.mediaAssets
+      .map((asset) => asset.storageKey)
+      .filter((key): key is string => !!key);
+
+    // 3. Delete from database first (ensures data consistency)
+    await deleteMarketplaceAd(adId, user.id);
+
+    // 4. Delete images from storage (best effort - don't fail if this fails)
+    if (storageKeys.length > 0) {
+      try {
+        await getStorageProvider().deleteManyByStorageKeys(storageKeys);
+      } catch (storageError) {
+        console.error('Failed to delete marketplace images from storage:', storageError);
+      }
+    }
+
+    // 5. Log to audit system
+    await logSuccess(
+      'AD_DELETE',
+      'AD_MARKETPLACE',
+      { actorUserId: user.id, actorRole: 'USER' as AuditActorRole },
+      adId,
+      {
+        adId,
+        userId: user.id,
+        deletedImageCount: storageKeys.length,
+      },
+      'Marketplace ad deleted successfully'
+    );
+
+    return { success: true };
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message.includes('not found') || error.message.includes('not owned')) {
+        return {
+          success: false,
+          error: 'Ad not found or you do not have permission to delete it.',
+        };
+      }
+    }
+
+    console.error('Error deleting marketplace ad:', error);
+    return {
+      success: false,
+      error: 'An unexpected error occurred while deleting the ad. Please try again.',
+    };
+  }
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Parse images from FormData imagesJson field
+ */
+function parseImagesFromFormData(formData: FormData): MediaImageInput[] | null {
+  try {
+    const imagesJson = formData.get('imagesJson');
+    if (!imagesJson || typeof imagesJson !== 'string') return null;
+
+    const parsed: unknown = JSON.parse(imagesJson);
+    if (!Array.isArray(parsed) || parsed.length === 0) return null;
+
+    return parsed.map((img: RawImageData) => ({
+      storageKey: String(img.storageKey ?? ''),
+      mimeType: img.mimeType ? String(img.mimeType) : null,
+      alt: img.alt ? String(img.alt) : null,
+      width: img.width != null ? Number(img.width) : null,
+      height: img.height != null ? Number(img.height) : null,
+      bytes: img.bytes != null ? Number(img.bytes) : null,
+    }));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Extract and parse form data into an object the zod schema can validate
+ */
+function extractFormData(formData: FormData) {
+  const parseString = (value: FormDataValue): string | null =>
+    typeof value === 'string' && value.trim() !== '' ? value : null;
+
+  const parseNumber = (value: FormDataValue): number | null => {
+    if (value === null || value === '') return null;
+    const num = Number(value);
+    return Number.isFinite(num) ? num : null;
+  };
+
+  const condition = formData.get('condition');
+
+  return {
+    title: parseString(formData.get('title')) ?? '',
+    description: parseString(formData.get('description')) ?? '',
+    category: parseString(formData.get('category')),
+    condition: Object.values(MarketplaceCondition).includes(condition as MarketplaceCondition)
+      ? (condition as MarketplaceCondition)
+      : null,
+    price: parseNumber(formData.get('price')),
+    priceNegotiable: formData.get('priceNegotiable') === 'true',
+    images: (parseImagesFromFormData(formData) ?? [])
+      .map((img) => img.storageKey)
+      .filter((key) => key.length > 0),
+    coverImageStorageKey: parseString(formData.get('coverImageStorageKey')) ?? '',
+  };
+}
@@ -0,0 +1,72 @@
+'use server';
+
+import { isMediaAttachedToOtherUsersAd } from '@/data/ads/ad-marketplace';
+import { ACCOUNT_SUSPENDED_MESSAGE } from '@/data/user/suspension.dal';
+import { requireActiveUser, requireUser } from '@/lib/auth/server';
+import { IMAGE_TYPE_CONFIGS } from '@/lib/image_system/image-utils-client';
+import {
+  MarketplaceAdImageService,
+  type ImageUploadResult,
+} from '@/lib/image_system/image-utils-server';
+
+export type UploadMarketplaceImageResult =
+  | { ok: true; data: ImageUploadResult }
+  | { ok: false; error: string };
+
+/**
+ * Upload a single marketplace ad image
+ */
+export async function uploadMarketplaceImageAction(
+  formData: FormData
+): Promise<UploadMarketplaceImageResult> {
+  try {
+    const user = await requireActiveUser();
+
+    const file = formData.get('marketplaceImage') as File;
+    if (!file || typeof file.arrayBuffer !== 'function') {
+      return { ok: false, error: 'No valid file provided' };
+    }
+
+    const result = await MarketplaceAdImageService.upload(file, user.id);
+    if (!result.success) return { ok: false, error: result.error };
+
+    return { ok: true, data: result.data };
+  } catch (error) {
+    if (error instanceof Error && error.name === 'UserSuspendedError') {
+      return { ok: false, error: ACCOUNT_SUSPENDED_MESSAGE };
+    }
+    const msg = error instanceof Error ? error.message : 'Image upload failed';
+    return { ok: false, error: msg };
+  }
+}
+
+/**
+ * Delete a marketplace ad image by storage key
+ * - Only images the caller uploaded (under their own folder) can be deleted
+ * - Images attached to another user's ad are refused
+ */
+export async function deleteMarketplaceImageAction(
+  storageKey: string
+): Promise<{ ok: true } | { ok: false; error: string }> {
+  try {
+    const user = await requireUser();
+    if (!storageKey) return { ok: false, error: 'Invalid image' };
+
+    const ownFolder = `${IMAGE_TYPE_CONFIGS['ad-marketplace'].folder}/${user.id}/`;
+    if (!storageKey.startsWith(ownFolder) || storageKey.includes('..')) {
+      return { ok: false, error: 'Invalid image' };
+    }
+    if (await isMediaAttachedToOtherUsersAd(storageKey, user.id)) {
+      return { ok: false, error: 'Invalid image' };
+    }
+
+    const res = await MarketplaceAdImageService.deleteImage(storageKey);
+    if (!res.success) return { ok: false, error: res.error };
+    return { ok: true };
+  } catch (error) {
+    return {
+      ok: false,
+      error: error instanceof Error ? error.message : 'Failed to delete image',
+    };
+  }
+}
@@ -0,0 +1,128 @@
+'use server';
+
+import {
+  REPORT_RATE_LIMIT,
+  countRecentReports,
+  createAdReport,
+  hasOpenReportForAd,
+} from '@/data/user/report.dal';
+import { ACCOUNT_SUSPENDED_MESSAGE, getActiveSuspension } from '@/data/user/suspension.dal';
+import { getEnhancedAuditContext } from '@/lib/audit/audit-context';
+import { getCurrentUser } from '@/lib/auth/server';
+import { ImageService } from '@/lib/image_system/image-utils-server';
+import { REPORT_MAX_FILES, reportAdSchema } from '@/lib/schemas/report-schema';
+
+export type SubmitAdReportResult =
+  | { ok: true; data: { reportId: number } }
+  | { ok: false; error: string; fieldErrors?: Record<string, string> };
+
+// Anonymous uploads still need an owner segment in the storage path
+const ANONYMOUS_UPLOAD_OWNER = 'anonymous';
+
+/**
+ * Report an ad. Works for signed-in users and visitors; both are rate limited
+ * per reporter and per IP.
+ *
+ * FormData: reason, note (optional), screenshots (0..REPORT_MAX_FILES images)
+ */
+export async function submitAdReportAction(
+  adId: number,
+  formData: FormData
+): Promise<SubmitAdReportResult> {
+  const user = await getCurrentUser();
+  const auditContext = await getEnhancedAuditContext();
+
+  if (user && (await getActiveSuspension(user.id))) {
+    return { ok: false, error: ACCOUNT_SUSPENDED_MESSAGE };
+  }
+
+  // Step 1: Validate input
+  const parsed = reportAdSchema.safeParse({
+    reason: formData.get('reason') || undefined,
+    note: typeof formData.get('note') === 'string' ? formData.get('note') : null,
+  });
+
+  if (!parsed.success) {
+    const fieldErrors: Record<string, string> = {};
+    for (const issue of parsed.error.issues) {
+      const key = issue.path.join('.');
+      if (key && !fieldErrors[key]) fieldErrors[key] = issue.message;
+    }
+    return { ok: false, error: 'Please check the report details', fieldErrors };
+  }
+
+  const files = formData
+    .getAll('screenshots')
+    .filter((f): f is File => typeof f === 'object' && f !== null && f.size > 0);
+
+  if (files.length > REPORT_MAX_FILES) {
+    return { ok: false, error: `You can attach up to ${REPORT_MAX_FILES} screenshots` };
+  }
+
+  // Step 2: Rate limit and duplicate check
+  const { byReporter, byIp } = await countRecentReports({
+    reporterUserId: user?.id,
+    ip: auditContext.ip,
+    since: new Date(Date.now() - REPORT_RATE_LIMIT.windowMs),
+  });
+
+  if (byReporter >= REPORT_RATE_LIMIT.perReporter || byIp >= REPORT_RATE_LIMIT.perIp) {
+    return {
+      ok: false,
+      error: 'You have sent a lot of reports recently. Please try again later.',
+    };
+  }
+
+  if (user && (await hasOpenReportForAd(adId, user.id))) {
+    return {
+      ok: false,
+      error: 'You already reported this ad. Our moderators will look into it.',
+    };
+  }
+
+  // Step 3: Upload screenshots
+  const uploaded: { storageKey: string; bytes?: number | null }[] = [];
+  const cleanup = async () => {
+    for (const file of uploaded) {
+      await ImageService.deleteImage(file.storageKey, { private: true });
+    }
+  };
+
+  for (const file of files) {
+    const result = await ImageService.uploadImage(
+      file,
+      user?.id ?? ANONYMOUS_UPLOAD_OWNER,
+      'report'
+    );
+    if (!result.success) {
+      await cleanup();
+      return { ok: false, error: result.error };
+    }
+    uploaded.push({ storageKey: result.data.storageKey, bytes: result.data.bytes });
+  }
+
+  // Step 4: Create the report
+  try {
+    const { reportId } = await createAdReport(
+      {
+        adId,
+        reporterUserId: user?.id ?? null,
+        reason: parsed.data.reason,
+        note: parsed.data.note,
+        files: uploaded,
+      },
+      auditContext
+    );
+
+    return { ok: true, data: { reportId } };
+  } catch (error) {
+    await cleanup();
+    console.error('Ad report submission error:', { adId, error });
+
+    const message = error instanceof Error ? error.message : '';
+    if (message === 'Ad not found' || message === 'You cannot report your own ad') {
+      return { ok: false, error: message };
+    }
+    return { ok: false, error: 'Failed to send the report. Please try again.' };
+  }
+}
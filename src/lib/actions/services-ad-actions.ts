@@ -0,0 +1,360 @@
+'use server';
+
+import {
+  createServicesAdWithDetails,
+  deleteServicesAd,
+  getServicesAdByIdForUser,
+  updateServicesAdWithDetails,
+} from '@/data/ads/ad-services';
+import type { CreateServicesAdInput, UpdateServicesAdInput } from '@/data/ads/services-types';
+import { ACCOUNT_SUSPENDED_MESSAGE } from '@/data/user/suspension.dal';
+import { ServiceCategory, ServiceRateBasis, Weekday, type AuditActorRole } from '@/generated/enums';
+import { logSuccess } from '@/lib/audit/audit';
+import { requireActiveUser, requireUser } from '@/lib/auth/server';
+import { servicesSchema, type ServicesFormValues } from '@/lib/schemas/ads/services-schema';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Form field value type from FormData.get() */
+type FormDataValue = FormDataEntryValue | null;
+
+/**
+ * Unified result type for services ad actions (create/update)
+ */
+export type ServicesAdActionResult =
+  | { success: true; adId: number }
+  | { success: false; error: string; fieldErrors?: Record<string, string> };
+
+// ============================================================================
+// Error Handling
+// ============================================================================
+
+/** Known domain error types from DAL */
+type DomainErrorName =
+  | 'AdNotFoundError'
+  | 'NotOwnerError'
+  | 'CategoryMismatchError'
+  | 'UserSuspendedError'
+  | 'AdExpiredError';
+
+/** Map of domain errors to user-friendly messages */
+const DOMAIN_ERROR_MESSAGES: Record<DomainErrorName, string> = {
+  AdNotFoundError: 'Ad not found.',
+  NotOwnerError: 'You do not have permission to perform this action.',
+  CategoryMismatchError: 'Invalid ad category.',
+  UserSuspendedError: ACCOUNT_SUSPENDED_MESSAGE,
+  AdExpiredError: 'This ad has expired. Renew it before making changes.',
+};
+
+/** Map of error message patterns to user-friendly messages */
+const ERROR_MESSAGE_PATTERNS: Array<{ pattern: string; message: string }> = [
+  { pattern: 'not found', message: 'Ad not found.' },
+  { pattern: 'not the owner', message: 'You do not have permission to edit this ad.' },
+  { pattern: 'Expected category', message: 'Invalid ad category.' },
+];
+
+/**
+ * Maps errors to user-friendly result objects
+ */
+function handleActionError(error: unknown, context: 'create' | 'update'): ServicesAdActionResult {
+  if (!(error instanceof Error)) {
+    return { success: false, error: 'An unexpected error occurred. Please try again later.' };
+  }
+
+  // Check for known domain error names
+  const domainMessage = DOMAIN_ERROR_MESSAGES[error.name as DomainErrorName];
+  if (domainMessage) {
+    return { success: false, error: domainMessage };
+  }
+
+  // Check for error message patterns
+  for (const { pattern, message } of ERROR_MESSAGE_PATTERNS) {
+    if (error.message.includes(pattern)) {
+      return { success: false, error: message };
+    }
+  }
+
+  // Log unexpected errors for debugging
+  console.error(`Error ${context}ing services ad:`, error);
+
+  return { success: false, error: 'An unexpected error occurred. Please try again later.' };
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+/**
+ * Validates form data and returns parsed data
+ */
+function validateAndParse(
+  formData: FormData
+): { valid: true; data: ServicesFormValues } | { valid: false; result: ServicesAdActionResult } {
+  const validation = servicesSchema.safeParse(extractFormData(formData));
+  if (!validation.success) {
+    const fieldErrors: Record<string, string> = {};
+    for (const issue of validation.error.issues) {
+      const path = issue.path.join('.');
+      if (path) fieldErrors[path] = issue.message;
+    }
+    return {
+      valid: false,
+      result: {
+        success: false,
+        error: 'Please fix the validation errors in the form.',
+        fieldErrors,
+      },
+    };
+  }
+
+  return { valid: true, data: validation.data };
+}
+
+// ============================================================================
+// DAL Input Building
+// ============================================================================
+
+/**
+ * Builds the common DAL input from validated data
+ */
+function buildDalInput(
+  data: ServicesFormValues,
+  userId: string,
+  cityId: number
+): CreateServicesAdInput {
+  return {
+    userId,
+    cityId,
+    title: data.title,
+    description: data.description,
+    serviceCategory: data.serviceCategory,
+    tags: data.tags,
+    businessName: data.businessName ?? null,
+    rateBasis: data.rateBasis,
+    rateAmount: data.rateAmount ?? null,
+    availabilityDays: data.availabilityDays,
+    serviceArea: data.serviceArea ?? null,
+    portfolioLinks: data.portfolioLinks,
+  };
+}
+
+/**
+ * Builds audit metadata from the form data
+ */
+function buildAuditMetadata(data: ServicesFormValues, userId: string, cityId: number) {
+  return {
+    userId,
+    cityId,
+    title: data.title,
+    serviceCategory: data.serviceCategory,
+    tagsCount: data.tags.length,
+    rateBasis: data.rateBasis,
+    rateAmount: data.rateAmount ?? null,
+    availabilityDays: data.availabilityDays,
+    portfolioLinksCount: data.portfolioLinks.length,
+  };
+}
+
+// ============================================================================
+// Server Actions
+// ============================================================================
+
+/**
+ * Server action to create a services ad
+ *
+ * Validates the form data, derives the userId from the session, and calls the DAL.
+ */
+export async function createServicesAdAction(
+  _prevState: ServicesAdActionResult | null,
+  formData: FormData
+): Promise<ServicesAdActionResult> {
+  try {
+    // 1. Authenticate user
+    const user = await requireActiveUser();
+    if (!user.cityId) {
+      return {
+        success: false,
+        error: 'Please complete your profile and select a city before creating an ad.',
+      };
+    }
+
+    // 2. Validate and parse form data
+    const validation = validateAndParse(formData);
+    if (!validation.valid) return validation.result;
+
+    const { data } = validation;
+
+    // 3. Build DAL input and create ad
+    const ad = await createServicesAdWithDetails(buildDalInput(data, user.id, user.cityId));
+
+    // 4. Log to audit system
+    await logSuccess(
+      'AD_CREATE',
+      'AD_SERVICE',
+      { actorUserId: user.id, actorRole: 'USER' as AuditActorRole },
+      ad.id,
+      buildAuditMetadata(data, user.id, user.cityId),
+      'Services ad created successfully'
+    );
+
+    return { success: true, adId: ad.id };
+  } catch (error) {
+    return handleActionError(error, 'create');
+  }
+}
+
+/**
+ * Server action to update an existing services ad
+ *
+ * Validates the form data, ensures the user owns the ad, and updates via the DAL.
+ * After update, the ad status is reset to PENDING for re-moderation.
+ */
+export async function updateServicesAdAction(
+  adId: number,
+  formData: FormData
+): Promise<ServicesAdActionResult> {
+  try {
+    // 1. Authenticate user
+    const user = await requireActiveUser();
+    if (!user.cityId) {
+      return {
+        success: false,
+        error: 'Please complete your profile and select a city before updating an ad.',
+      };
+    }
+
+    // 2. Validate and parse form data
+    const validation = validateAndParse(formData);
+    if (!validation.valid) return validation.result;
+
+    const { data } = validation;
+
+    // 3. Build DAL input and update ad
+    const dalInput: UpdateServicesAdInput = {
+      adId,
+      ...buildDalInput(data, user.id, user.cityId),
+    };
+    const ad = await updateServicesAdWithDetails(dalInput);
+
+    // 4. Log to audit system
+    await logSuccess(
+      'AD_EDIT',
+      'AD_SERVICE',
+      { actorUserId: user.id, actorRole: 'USER' as AuditActorRole },
+      ad.id,
+      buildAuditMetadata(data, user.id, user.cityId),
+      'Services ad updated successfully'
+    );
+
+    return { success: true, adId: ad.id };
+  } catch (error) {
+    return handleActionError(error, 'update');
+  }
+}
+
+// ============================================================================
+// Delete Action
+// ============================================================================
+
+/**
+ * Result type for delete action
+ */
+export type DeleteServicesAdResult = { success: true } | { success: false; error: string };
+
+/**
+ * Server action to delete a services ad
+ *
+ * Only the owner of the ad can delete it.
+ */
+export async function deleteServicesAdAction(adId: number): Promise<DeleteServicesAdResult> {
+  try {
+    // 1. Authenticate user
+    const user = await requireUser();
+
+    // 2. Verify ownership
+    const ad = await getServicesAdByIdForUser(adId, user.id);
+    if (!ad) {
+      return {
+        success: false,
+        error: 'Ad not found or you do not have permission to delete it.',
+      };
+    }
+
+    // 3. Delete from database
+    await deleteServicesAd(adId, user.id);
+
+    // 4. Log to audit system
+    await logSuccess(
+      'AD_DELETE',
+      'AD_SERVICE',
+      { actorUserId: user.id, actorRole: 'USER' as AuditActorRole },
+      adId,
+      { adId, userId: user.id },
+      'Services ad deleted successfully'
+    );
+
+    return { success: true };
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message.includes('not found') || error.message.includes('not owned')) {
+        return {
+          success: false,
+          error: 'Ad not found or you do not have permission to delete it.',
+        };
+      }
+    }
+
+    console.error('Error deleting services ad:', error);
+    return {
+      success: false,
+      error: 'An unexpected error occurred while deleting the ad. Please try again.',
+    };
+  }
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Extract and parse form data into an object the zod schema can validate
+ */
+function extractFormData(formData: FormData) {
+  const parseString = (value: FormDataValue): string | null =>
+    typeof value === 'string' && value.trim() !== '' ? value : null;
+
+  const parseNumber = (value: FormDataValue): number | null => {
+    if (value === null || value === '') return null;
+    const num = Number(value);
+    return Number.isFinite(num) ? num : null;
+  };
+
+  const parseStringList = (value: FormDataValue): string[] => {
+    if (typeof value !== 'string' || value === '') return [];
+    try {
+      const parsed: unknown = JSON.parse(value);
+      return Array.isArray(parsed) ? parsed.filter((v): v is string => typeof v === 'string') : [];
+    } catch {
+      return [];
+    }
+  };
+
+  const parseEnum = <T extends string>(value: FormDataValue, values: Record<string, T>) =>
+    Object.values(values).includes(value as T) ? (value as T) : null;
+
+  return {
+    title: parseString(formData.get('title')) ?? '',
+    description: parseString(formData.get('description')) ?? '',
+    serviceCategory: parseEnum(formData.get('serviceCategory'), ServiceCategory),
+    tags: parseStringList(formData.get('tags')),
+    businessName: parseString(formData.get('businessName')),
+    rateBasis: parseEnum(formData.get('rateBasis'), ServiceRateBasis),
+    rateAmount: parseNumber(formData.get('rateAmount')),
+    // Unknown values are kept so the schema reports them instead of dropping them silently
+    availabilityDays: parseStringList(formData.get('availabilityDays')) as Weekday[],
+    serviceArea: parseString(formData.get('serviceArea')),
+    portfolioLinks: parseStringList(formData.get('portfolioLinks')),
+  };
+}
@@ -85,7 +85,7 @@ export async function changePasswordAction(input: {
       'PASSWORD_CHANGE' as AuditAction,
       'USER' as AuditEntityType,
       { actorUserId: user.id, actorRole: 'USER' as AuditActorRole },
-      undefined,
+      user.id,
       undefined,
       'User changed password'
     );
@@ -0,0 +1,410 @@
+'use server';
+
+import {
+  createTransportationAdWithDetails,
+  deleteTransportationAd,
+  getTransportationAdByIdForUser,
+  updateTransportationAdWithDetails,
+} from '@/data/ads/ad-transportation';
+import type {
+  CreateTransportationAdInput,
+  UpdateTransportationAdInput,
+} from '@/data/ads/transportation-types';
+import { ACCOUNT_SUSPENDED_MESSAGE } from '@/data/user/suspension.dal';
+import { TransportDirection, TransportPriceMode, type AuditActorRole } from '@/generated/enums';
+import { logSuccess } from '@/lib/audit/audit';
+import { requireActiveUser, requireUser } from '@/lib/auth/server';
+import {
+  transportationSchema,
+  type TransportationFormValues,
+} from '@/lib/schemas/ads/transportation-schema';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Form field value type from FormData.get() */
+type FormDataValue = FormDataEntryValue | null;
+
+/**
+ * Unified result type for transportation ad actions (create/update)
+ */
+export type TransportationAdActionResult =
+  | { success: true; adId: number }
+  | { success: false; error: string; fieldErrors?: Record<string, string> };
+
+// ============================================================================
+// Error Handling
+// ============================================================================
+
+/** Known domain error types from DAL */
+type DomainErrorName =
+  | 'AdNotFoundError'
+  | 'NotOwnerError'
+  | 'CategoryMismatchError'
+  | 'UserSuspendedError'
+  | 'AdExpiredError';
+
+/** Map of domain errors to user-friendly messages */
+const DOMAIN_ERROR_MESSAGES: Record<DomainErrorName, string> = {
+  AdNotFoundError: 'Ad not found.',
+  NotOwnerError: 'You do not have permission to perform this action.',
+  CategoryMismatchError: 'Invalid ad category.',
+  UserSuspendedError: ACCOUNT_SUSPENDED_MESSAGE,
+  AdExpiredError: 'This ad has expired. Renew it before making changes.',
+};
+
+/** Map of error message patterns to user-friendly messages */
+const ERROR_MESSAGE_PATTERNS: Array<{ pattern: string; message: string }> = [
+  { pattern: 'not found', message: 'Ad not found.' },
+  { pattern: 'not the owner', message: 'You do not have permission to edit this ad.' },
+  { pattern: 'Expected category', message: 'Invalid ad category.' },
+];
+
+/**
+ * Maps errors to user-friendly result objects
+ */
+function handleActionError(
+  error: unknown,
+  context: 'create' | 'update'
+): TransportationAdActionResult {
+  if (!(error instanceof Error)) {
+    return { success: false, error: 'An unexpected error occurred. Please try again later.' };
+  }
+
+  // Check for known domain error names
+  const domainMessage = DOMAIN_ERROR_MESSAGES[error.name as DomainErrorName];
+  if (domainMessage) {
+    return { success: false, error: domainMessage };
+  }
+
+  // Check for error message patterns
+  for (const { pattern, message } of ERROR_MESSAGE_PATTERNS) {
+    if (error.message.includes(pattern)) {
+      return { success: false, error: message };
+    }
+  }
+
+  // Log unexpected errors for debugging
+  console.error(`Error ${context}ing transportation ad:`, error);
+
+  return { success: false, error: 'An unexpected error occurred. Please try again later.' };
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+/**
+ * Validates form data and returns parsed data
+ */
+function validateAndParse(
+  formData: FormData
+):
+  | { valid: true; data: TransportationFormValues }
+  | { valid: false; result: TransportationAdActionResult } {
+  const validation = transportationSchema.safeParse(extractFormData(formData));
+  if (!validation.success) {
+    const fieldErrors: Record<string, string> = {};
+    for (const issue of validation.error.issues) {
+      const path = issue.path.join('.');
+      if (path) fieldErrors[path] = issue.message;
+    }
+    return {
+      valid: false,
+      result: {
+        success: false,
+        error: 'Please fix the validation errors in the form.',
+        fieldErrors,
+      },
+    };
+  }
+
+  return { valid: true, data: validation.data };
+}
+
+// ============================================================================
+// DAL Input Building
+// ============================================================================
+
+/**
+ * Builds the common DAL input from validated data
+ * Amounts that do not belong to the selected price mode are dropped.
+ */
+function buildDalInput(
+  data: TransportationFormValues,
+  userId: string,
+  cityId: number
+): CreateTransportationAdInput {
+  return {
+    userId,
+    cityId,
+    direction: data.direction,
+    departureCity: data.departureCity,
+    arrivalCity: data.arrivalCity,
+    additionalPickupCities: data.additionalPickupCities,
+    additionalDeliveryCities: data.additionalDeliveryCities,
+    routeNotes: data.routeNotes ?? null,
+    // Checked by the schema refinement
+    flightDate: data.flightDate!,
+    capacityKg: data.capacityKg ?? null,
+    minAcceptKg: data.minAcceptKg ?? null,
+    subjectToInspection: data.subjectToInspection,
+    documentsAccepted: data.documentsAccepted,
+    acceptedItemTypes: data.acceptedItemTypes,
+    restrictedItemTypes: data.restrictedItemTypes,
+    specialCapacityNotes: data.specialCapacityNotes ?? null,
+    offersPostalForwarding: data.offersPostalForwarding,
+    acceptsPostalDropoff: data.acceptsPostalDropoff,
+    postalNotes: data.postalNotes ?? null,
+    deliveryEtaDays: data.deliveryEtaDays ?? null,
+    priceMode: data.priceMode,
+    pricePerKg: data.priceMode === TransportPriceMode.PER_KG ? (data.pricePerKg ?? null) : null,
+    fixedTotalPrice:
+      data.priceMode === TransportPriceMode.FIXED_TOTAL ? (data.fixedTotalPrice ?? null) : null,
+    priceNotes: data.priceNotes ?? null,
+    termsNotes: data.termsNotes ?? null,
+  };
+}
+
+/**
+ * Builds audit metadata from the form data
+ */
+function buildAuditMetadata(data: TransportationFormValues, userId: string, cityId: number) {
+  return {
+    userId,
+    cityId,
+    direction: data.direction,
+    departureCity: data.departureCity,
+    arrivalCity: data.arrivalCity,
+    flightDate: data.flightDate?.toISOString(),
+    capacityKg: data.capacityKg ?? null,
+    priceMode: data.priceMode,
+    pricePerKg: data.pricePerKg ?? null,
+    fixedTotalPrice: data.fixedTotalPrice ?? null,
+  };
+}
+
+// ============================================================================
+// Server Actions
+// ============================================================================
+
+/**
+ * Server action to create a transportation ad
+ *
+ * Validates the form data, derives the userId from the session, and calls the DAL.
+ */
+export async function createTransportationAdAction(
+  _prevState: TransportationAdActionResult | null,
+  formData: FormData
+): Promise<TransportationAdActionResult> {
+  try {
+    // 1. Authenticate user
+    const user = await requireActiveUser();
+    if (!user.cityId) {
+      return {
+        success: false,
+        error: 'Please complete your profile and select a city before creating an ad.',
+      };
+    }
+
+    // 2. Validate and parse form data
+    const validation = validateAndParse(formData);
+    if (!validation.valid) return validation.result;
+
+    const { data } = validation;
+
+    // 3. Build DAL input and create ad
+    const ad = await createTransportationAdWithDetails(buildDalInput(data, user.id, user.cityId));
+
+    // 4. Log to audit system
+    await logSuccess(
+      'AD_CREATE',
+      'AD_TRANSPORTATION',
+      { actorUserId: user.id, actorRole: 'USER' as AuditActorRole },
+      ad.id,
+      buildAuditMetadata(data, user.id, user.cityId),
+      'Transportation ad created successfully'
+    );
+
+    return { success: true, adId: ad.id };
+  } catch (error) {
+    return handleActionError(error, 'create');
+  }
+}
+
+/**
+ * Server action to update an existing transportation ad
+ *
+ * Validates the form data, ensures the user owns the ad, and updates via the DAL.
+ * After update, the ad status is reset to PENDING for re-moderation.
+ */
+export async function updateTransportationAdAction(
+  adId: number,
+  formData: FormData
+): Promise<TransportationAdActionResult> {
+  try {
+    // 1. Authenticate user
+    const user = await requireActiveUser();
+    if (!user.cityId) {
+      return {
+        success: false,
+        error: 'Please complete your profile and select a city before updating an ad.',
+      };
+    }
+
+    // 2. Validate and parse form data
+    const validation = validateAndParse(formData);
+    if (!validation.valid) return validation.result;
+
+    const { data } = validation;
+
+    // 3. Build DAL input and update ad
+    const dalInput: UpdateTransportationAdInput = {
+      adId,
+      ...buildDalInput(data, user.id, user.cityId),
+    };
+    const ad = await updateTransportationAdWithDetails(dalInput);
+
+    // 4. Log to audit system
+    await logSuccess(
+      'AD_EDIT',
+      'AD_TRANSPORTATION',
+      { actorUserId: user.id, actorRole: 'USER' as AuditActorRole },
+      ad.id,
+      buildAuditMetadata(data, user.id, user.cityId),
+      'Transportation ad updated successfully'
+    );
+
+    return { success: true, adId: ad.id };
+  } catch (error) {
+    return handleActionError(error, 'update');
+  }
+}
+
+// ============================================================================
+// Delete Action
+// ============================================================================
+
+/**
+ * Result type for delete action
+ */
+export type DeleteTransportationAdResult = { success: true } | { success: false; error: string };
+
+/**
+ * Server action to delete a transportation ad
+ *
+ * Only the owner of the ad can delete it.
+ */
+export async function deleteTransportationAdAction(
+  adId: number
+): Promise<DeleteTransportationAdResult> {
+  try {
+    // 1. Authenticate user
+    const user = await requireUser();
+
+    // 2. Verify ownership
+    const ad = await getTransportationAdByIdForUser(adId, user.id);
+    if (!ad) {
+      return {
+        success: false,
+        error: 'Ad not found or you do not have permission to delete it.',
+      };
+    }
+
+    // 3. Delete from database
+    await deleteTransportationAd(adId, user.id);
+
+    // 4. Log to audit system
+    await logSuccess(
+      'AD_DELETE',
+      'AD_TRANSPORTATION',
+      { actorUserId: user.id, actorRole: 'USER' as AuditActorRole },
+      adId,
+      { adId, userId: user.id },
+      'Transportation ad deleted successfully'
+    );
+
+    return { success: true };
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message.includes('not found') || error.message.includes('not owned')) {
+        return {
+          success: false,
+          error: 'Ad not found or you do not have permission to delete it.',
+        };
+      }
+    }
+
+    console.error('Error deleting transportation ad:', error);
+    return {
+      success: false,
+      error: 'An unexpected error occurred while deleting the ad. Please try again.',
+    };
+  }
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Extract and parse form data into an object the zod schema can validate
+ */
+function extractFormData(formData: FormData) {
+  const parseString = (value: FormDataValue): string | null =>
+    typeof value === 'string' && value.trim() !== '' ? value : null;
+
+  const parseNumber = (value: FormDataValue): number | null => {
+    if (value === null || value === '') return null;
+    const num = Number(value);
+    return Number.isFinite(num) ? num : null;
+  };
+
+  const parseBoolean = (value: FormDataValue): boolean => value === 'true';
+
+  const parseDate = (value: FormDataValue): Date | null => {
+    if (typeof value !== 'string' || value === '') return null;
+    const date = new Date(value);
+    return Number.isNaN(date.getTime()) ? null : date;
+  };
+
+  const parseStringList = (value: FormDataValue): string[] => {
+    if (typeof value !== 'string' || value === '') return [];
+    try {
+      const parsed: unknown = JSON.parse(value);
+      return Array.isArray(parsed) ? parsed.filter((v): v is string => typeof v === 'string') : [];
+    } catch {
+      return [];
+    }
+  };
+
+  const parseEnum = <T extends string>(value: FormDataValue, values: Record<string, T>) =>
+    Object.values(values).includes(value as T) ? (value as T) : null;
+
+  return {
+    direction: parseEnum(formData.get('direction'), TransportDirection),
+    departureCity: parseString(formData.get('departureCity')) ?? '',
+    arrivalCity: parseString(formData.get('arrivalCity')) ?? '',
+    additionalPickupCities: parseStringList(formData.get('additionalPickupCities')),
+    additionalDeliveryCities: parseStringList(formData.get('additionalDeliveryCities')),
+    routeNotes: parseString(formData.get('routeNotes')),
+    flightDate: parseDate(formData.get('flightDate')),
+    capacityKg: parseNumber(formData.get('capacityKg')),
+    minAcceptKg: parseNumber(formData.get('minAcceptKg')),
+    deliveryEtaDays: parseNumber(formData.get('deliveryEtaDays')),
+    subjectToInspection: parseBoolean(formData.get('subjectToInspection')),
+    documentsAccepted: parseBoolean(formData.get('documentsAccepted')),
+    acceptedItemTypes: parseStringList(formData.get('acceptedItemTypes')),
+    restrictedItemTypes: parseStringList(formData.get('restrictedItemTypes')),
+    specialCapacityNotes: parseString(formData.get('specialCapacityNotes')),
+    offersPostalForwarding: parseBoolean(formData.get('offersPostalForwarding')),
+    acceptsPostalDropoff: parseBoolean(formData.get('acceptsPostalDropoff')),
+    postalNotes: parseString(formData.get('postalNotes')),
+    priceMode: parseEnum(formData.get('priceMode'), TransportPriceMode),
+    pricePerKg: parseNumber(formData.get('pricePerKg')),
+    fixedTotalPrice: parseNumber(formData.get('fixedTotalPrice')),
+    priceNotes: parseString(formData.get('priceNotes')),
+    termsNotes: parseString(formData.get('termsNotes')),
+  };
+}
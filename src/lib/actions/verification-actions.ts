@@ -6,10 +6,11 @@ import {
   removeVerificationFile,
   submitVerificationRequest,
 } from '@/data/user/verification.dal';
+import { ACCOUNT_SUSPENDED_MESSAGE, getActiveSuspension } from '@/data/user/suspension.dal';
 import type { VerificationMethod } from '@/generated/prisma';
 import { VerificationFileRole } from '@/generated/prisma';
 import { auditServerAction } from '@/lib/audit/audit';
-import { requireUser } from '@/lib/auth/server';
+import { requireActiveUser, requireUser } from '@/lib/auth/server';
 import { ImageService } from '@/lib/image_system/image-utils-server';
 
 export type UploadVerificationFileResult =
@@ -29,6 +30,9 @@ export async function uploadVerificationFileAction(
 ): Promise<UploadVerificationFileResult> {
   // Step 1: Authenticate user
   const user = await requireUser();
+  if (await getActiveSuspension(user.id)) {
+    return { ok: false, error: ACCOUNT_SUSPENDED_MESSAGE };
+  }
 
   return await auditServerAction(
     'VERIFICATION_FILE_UPLOAD',
@@ -108,7 +112,7 @@ export async function submitVerificationRequestAction(data: {
 }): Promise<SubmitVerificationRequestResult> {
   try {
     // Step 1: Authenticate user
-    const user = await requireUser();
+    const user = await requireActiveUser();
 
     // Step 2: Validate input
     if (!data.method) {
@@ -164,7 +168,9 @@ export async function submitVerificationRequestAction(data: {
     // Provide user-friendly error messages
     let userMessage = 'Failed to submit verification request. Please try again.';
 
-    if (error?.message?.includes('VerificationFileRole')) {
+    if (error?.name === 'UserSuspendedError') {
+      userMessage = ACCOUNT_SUSPENDED_MESSAGE;
+    } else if (error?.message?.includes('VerificationFileRole')) {
       userMessage = 'There was an issue with your file upload. Please try uploading again.';
     } else if (
       error?.message?.includes('duplicate key') ||
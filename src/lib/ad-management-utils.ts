@@ -30,6 +30,8 @@ export function calculateAdCounts(ads: AdWithDetails[], activeCategory: AdCatego
     ONLINE: 0,
     REJECTED: 0,
     EXPIRED: 0,
+    SUSPENDED: 0,
+    CHANGES_REQUESTED: 0,
   };
 
   ads.forEach((ad) => {
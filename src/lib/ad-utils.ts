@@ -9,6 +9,8 @@ export function getStatusColor(status: AdStatus): string {
     PENDING: 'bg-amber-50 text-amber-700 border-amber-200',
     REJECTED: 'bg-rose-50 text-rose-700 border-rose-200',
     EXPIRED: 'bg-gray-50 text-gray-600 border-gray-200',
+    SUSPENDED: 'bg-red-50 text-red-700 border-red-200',
+    CHANGES_REQUESTED: 'bg-orange-50 text-orange-700 border-orange-200',
   };
   return colorMap[status];
 }
@@ -22,6 +24,8 @@ export function getStatusDotColor(status: AdStatus): string {
     PENDING: 'bg-amber-500',
     REJECTED: 'bg-rose-500',
     EXPIRED: 'bg-gray-400',
+    SUSPENDED: 'bg-red-600',
+    CHANGES_REQUESTED: 'bg-orange-500',
   };
   return colorMap[status];
 }
@@ -0,0 +1,388 @@
+import type { AuditAction, AuditActorRole, AuditEntityType, AuditOutcome } from '@/generated/enums';
+import type { Prisma } from '@/generated/prisma';
+import { createHmac } from 'crypto';
+import { prisma } from '../db';
+import { getStorageProvider } from '../storage';
+
+/**
+ * Tamper-evident hash chain over audit_logs.
+ *
+ * Each entry stores the hash of the previous chained entry (prevHash) and an
+ * HMAC-SHA256 over its own fields plus prevHash (hash), keyed with
+ * AUDIT_CHAIN_SECRET, so someone with database access alone can't recompute
+ * the chain after editing it. Appends take a Postgres advisory lock so
+ * concurrent writers can't fork the chain, and ids are assigned under that
+ * lock, so id order is chain order.
+ *
+ * IP and user agent are covered through piiHash, a keyed digest of the two,
+ * so the retention job can blank them without breaking the chain. Archival
+ * leaves holes in the chain; each archive records the entries whose
+ * predecessor it removed (chainGapIds) and verification accepts those links
+ * once the archive row's own keyed hash checks out.
+ *
+ * Deleting the newest entries leaves a valid chain behind, so the retention
+ * job also uploads the current head to storage (anchorAuditChainHead), and
+ * verification fails when the anchored entry is gone without an archive.
+ */
+
+// Arbitrary constant identifying the audit chain lock
+const AUDIT_CHAIN_LOCK_KEY = 7_263_541;
+
+const VERIFY_BATCH_SIZE = 1000;
+
+// Fixed key, overwritten on every anchor, so verification finds it without the database
+const ANCHOR_FOLDER = 'audit-anchors';
+const ANCHOR_PUBLIC_ID = 'audit-chain-head';
+const ANCHOR_STORAGE_KEY = `${ANCHOR_FOLDER}/${ANCHOR_PUBLIC_ID}`;
+
+/**
+ * Entry fields covered by the hash; hiddenFromUser is excluded because admins may change it.
+ * ip and userAgent only count through piiHash, except on rows chained before piiHash existed.
+ */
+export interface ChainedAuditFields {
+  actorUserId: string | null;
+  actorRole: AuditActorRole | null;
+  action: AuditAction;
+  outcome: AuditOutcome;
+  errorCode: string | null;
+  entityType: AuditEntityType;
+  entityId: number | null;
+  entityRef: string | null;
+  requestId: string | null;
+  sessionId: string | null;
+  ip: string | null;
+  userAgent: string | null;
+  metadata: Prisma.JsonValue | null;
+  note: string | null;
+  piiHash: string | null;
+  createdAt: Date;
+}
+
+/**
+ * Archive row fields covered by its hash
+ */
+export interface ChainedArchiveFields {
+  storageKey: string;
+  rowCount: number;
+  minEntryId: number;
+  maxEntryId: number;
+  fromCreatedAt: Date;
+  toCreatedAt: Date;
+  chainGapIds: number[];
+}
+
+export interface AuditChainAnchor {
+  entryId: number;
+  hash: string;
+  anchoredAt: string;
+}
+
+export type AuditChainBreakReason =
+  | 'HASH_MISMATCH'
+  | 'PREV_HASH_MISMATCH'
+  | 'MISSING_HASH'
+  // An archive row was edited, e.g. to excuse a deletion through chainGapIds
+  | 'ARCHIVE_MISMATCH'
+  // The anchored head is gone and no archive covers it
+  | 'TAIL_MISSING';
+
+export interface AuditChainVerification {
+  valid: boolean;
+  checked: number;
+  // First entry that doesn't verify, when valid is false
+  firstBrokenId: number | null;
+  reason: AuditChainBreakReason | null;
+}
+
+// JSON with sorted object keys; jsonb doesn't preserve key order, so hashes
+// must not depend on it
+function canonicalJson(value: unknown): string {
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value ?? null);
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  const entries = Object.entries(value as Record<string, unknown>)
+    .filter(([, v]) => v !== undefined)
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(',')}}`;
+}
+
+function getChainKey(): string {
+  const secret = process.env.AUDIT_CHAIN_SECRET;
+  if (!secret) {
+    throw new Error('AUDIT_CHAIN_SECRET is not configured');
+  }
+  return secret;
+}
+
+// Keyed so the IPv4 space can't be brute-forced back from a scrubbed row's digest
+export function computePiiHash(ip: string | null, userAgent: string | null): string {
+  return createHmac('sha256', getChainKey()).update(canonicalJson({ ip, userAgent })).digest('hex');
+}
+
+export function computeAuditHash(fields: ChainedAuditFields, prevHash: string | null): string {
+  // Rows from before piiHash hashed the raw values
+  const pii = fields.piiHash
+    ? { piiHash: fields.piiHash }
+    : { ip: fields.ip, userAgent: fields.userAgent };
+
+  return createHmac('sha256', getChainKey())
+    .update(
+      canonicalJson({
+        prevHash,
+        actorUserId: fields.actorUserId,
+        actorRole: fields.actorRole,
+        action: fields.action,
+        outcome: fields.outcome,
+        errorCode: fields.errorCode,
+        entityType: fields.entityType,
+        entityId: fields.entityId,
+        entityRef: fields.entityRef,
+        requestId: fields.requestId,
+        sessionId: fields.sessionId,
+        ...pii,
+        metadata: fields.metadata,
+        note: fields.note,
+        createdAt: fields.createdAt.toISOString(),
+      })
+    )
+    .digest('hex');
+}
+
+export function computeArchiveHash(fields: ChainedArchiveFields): string {
+  return createHmac('sha256', getChainKey())
+    .update(
+      canonicalJson({
+        storageKey: fields.storageKey,
+        rowCount: fields.rowCount,
+        minEntryId: fields.minEntryId,
+        maxEntryId: fields.maxEntryId,
+        fromCreatedAt: fields.fromCreatedAt.toISOString(),
+        toCreatedAt: fields.toCreatedAt.toISOString(),
+        chainGapIds: fields.chainGapIds,
+      })
+    )
+    .digest('hex');
+}
+
+/**
+ * Append entries to the chain, in order, inside one transaction.
+ * Metadata is round-tripped through JSON first so the hash matches what the
+ * database will hand back on verification.
+ */
+export async function appendAuditEntries(
+  entries: Array<Omit<ChainedAuditFields, 'piiHash' | 'createdAt'> & { hiddenFromUser: boolean }>
+): Promise<void> {
+  if (entries.length === 0) return;
+
+  await prisma.$transaction(async (tx) => {
+    await tx.$executeRaw`SELECT pg_advisory_xact_lock(${AUDIT_CHAIN_LOCK_KEY})`;
+
+    const last = await tx.auditLog.findFirst({
+      where: { hash: { not: null } },
+      orderBy: { id: 'desc' },
+      select: { hash: true },
+    });
+    let prevHash: string | null = last?.hash ?? null;
+
+    for (const entry of entries) {
+      const metadata =
+        entry.metadata === null
+          ? null
+          : (JSON.parse(JSON.stringify(entry.metadata)) as Prisma.JsonValue);
+      const fields: ChainedAuditFields = {
+        ...entry,
+        metadata,
+        piiHash: computePiiHash(entry.ip, entry.userAgent),
+        createdAt: new Date(),
+      };
+      const hash = computeAuditHash(fields, prevHash);
+
+      await tx.auditLog.create({
+        data: {
+          ...fields,
+          metadata: (metadata ?? undefined) as Prisma.InputJsonValue | undefined,
+          hiddenFromUser: entry.hiddenFromUser,
+          prevHash,
+          hash,
+        },
+      });
+
+      prevHash = hash;
+    }
+  });
+}
+
+/**
+ * Upload the newest chained entry to storage as the head anchor.
+ * Returns null when the chain is empty.
+ */
+export async function anchorAuditChainHead(
+  now: Date = new Date()
+): Promise<AuditChainAnchor | null> {
+  const head = await prisma.auditLog.findFirst({
+    where: { hash: { not: null } },
+    orderBy: { id: 'desc' },
+    select: { id: true, hash: true },
+  });
+
+  if (!head?.hash) return null;
+
+  const anchor: AuditChainAnchor = {
+    entryId: head.id,
+    hash: head.hash,
+    anchoredAt: now.toISOString(),
+  };
+
+  await getStorageProvider().uploadBuffer(Buffer.from(JSON.stringify(anchor), 'utf8'), {
+    folder: ANCHOR_FOLDER,
+    publicId: ANCHOR_PUBLIC_ID,
+    resourceType: 'raw',
+    private: true,
+  });
+
+  return anchor;
+}
+
+// Latest head anchor, or null before the first one is written
+async function fetchAuditChainAnchor(): Promise<AuditChainAnchor | null> {
+  const url = getStorageProvider().getSignedUrl?.(ANCHOR_STORAGE_KEY, {
+    resourceType: 'raw',
+    private: true,
+  });
+  if (!url) return null;
+
+  const response = await fetch(url, { cache: 'no-store' });
+  if (response.status === 404) return null;
+  if (!response.ok) {
+    throw new Error(`Failed to fetch audit chain anchor (${response.status})`);
+  }
+
+  return (await response.json()) as AuditChainAnchor;
+}
+
+/**
+ * Walk the chain from the oldest chained entry and report the first broken link.
+ * Entries written before the chain existed (no hash, lower ids) are skipped; the
+ * oldest remaining entry is trusted as the start, so archiving old rows is fine.
+ * Archive rows must match their keyed hash, and the head anchored in storage
+ * must still be in the table or inside an archive.
+ */
+export async function verifyAuditChain(): Promise<AuditChainVerification> {
+  const archives = await prisma.auditLogArchive.findMany({ orderBy: { id: 'asc' } });
+
+  for (const archive of archives) {
+    if (!archive.hash || computeArchiveHash(archive) !== archive.hash) {
+      return {
+        valid: false,
+        checked: 0,
+        firstBrokenId: archive.minEntryId,
+        reason: 'ARCHIVE_MISMATCH',
+      };
+    }
+  }
+
+  const archivedGaps = new Set<number>(archives.flatMap((archive) => archive.chainGapIds));
+
+  const headAnchor = await fetchAuditChainAnchor();
+  if (headAnchor) {
+    const anchored = await prisma.auditLog.findUnique({
+      where: { id: headAnchor.entryId },
+      select: { hash: true },
+    });
+    const archived = archives.some(
+      (archive) =>
+        archive.minEntryId <= headAnchor.entryId && headAnchor.entryId <= archive.maxEntryId
+    );
+
+    if (anchored ? anchored.hash !== headAnchor.hash : !archived) {
+      return {
+        valid: false,
+        checked: 0,
+        firstBrokenId: headAnchor.entryId,
+        reason: anchored ? 'HASH_MISMATCH' : 'TAIL_MISSING',
+      };
+    }
+  }
+
+  const start = await prisma.auditLog.findFirst({
+    where: { hash: { not: null } },
+    orderBy: { id: 'asc' },
+    select: { id: true },
+  });
+
+  if (!start) {
+    return { valid: true, checked: 0, firstBrokenId: null, reason: null };
+  }
+
+  let checked = 0;
+  let prevHash: string | null | undefined;
+  let afterId = start.id - 1;
+
+  for (;;) {
+    const rows = await prisma.auditLog.findMany({
+      where: { id: { gt: afterId } },
+      orderBy: { id: 'asc' },
+      take: VERIFY_BATCH_SIZE,
+      select: {
+        id: true,
+        actorUserId: true,
+        actorRole: true,
+        action: true,
+        outcome: true,
+        errorCode: true,
+        entityType: true,
+        entityId: true,
+        entityRef: true,
+        requestId: true,
+        sessionId: true,
+        ip: true,
+        userAgent: true,
+        metadata: true,
+        note: true,
+        piiHash: true,
+        piiScrubbedAt: true,
+        createdAt: true,
+        prevHash: true,
+        hash: true,
+      },
+    });
+
+    if (rows.length === 0) break;
+
+    for (const row of rows) {
+      const broken = (reason: AuditChainBreakReason): AuditChainVerification => ({
+        valid: false,
+        checked,
+        firstBrokenId: row.id,
+        reason,
+      });
+
+      if (!row.hash) return broken('MISSING_HASH');
+      // The first entry's own prevHash can't be checked, nor links into archived entries
+      if (prevHash !== undefined && row.prevHash !== prevHash && !archivedGaps.has(row.id)) {
+        return broken('PREV_HASH_MISMATCH');
+      }
+      // Until scrubbed, the stored IP and user agent must still match their digest;
+      // once scrubbed they must be gone
+      if (row.piiHash) {
+        const piiIntact = row.piiScrubbedAt
+          ? row.ip === null && row.userAgent === null
+          : computePiiHash(row.ip, row.userAgent) === row.piiHash;
+        if (!piiIntact) return broken('HASH_MISMATCH');
+      }
+      if (computeAuditHash({ ...row, metadata: row.metadata ?? null }, row.prevHash) !== row.hash) {
+        return broken('HASH_MISMATCH');
+      }
+
+      prevHash = row.hash;
+      checked++;
+    }
+
+    afterId = rows[rows.length - 1].id;
+  }
+
+  return { valid: true, checked, firstBrokenId: null, reason: null };
+}
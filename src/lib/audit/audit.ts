@@ -1,8 +1,12 @@
 import type { AuditAction, AuditActorRole, AuditEntityType, AuditOutcome } from '@/generated/enums';
 import { headers } from 'next/headers';
-import { prisma } from '../db';
+import { appendAuditEntries } from './audit-chain';
 
 // Types for audit logging
+
+// Numeric ids (ads, reports, ...) go to entityId, string ids (users, sessions) to entityRef
+export type AuditEntityId = number | string;
+
 export interface AuditContext {
   actorUserId?: string | null;
   actorRole?: AuditActorRole;
@@ -10,6 +14,8 @@ export interface AuditContext {
   sessionId?: string;
   ip?: string;
   userAgent?: string;
+  // Keep the entry out of the owner's activity feed
+  hiddenFromUser?: boolean;
 }
 
 export interface AuditLogEntry {
@@ -24,7 +30,7 @@ export interface AuditLogEntry {
 
   // WHICH RESOURCE
   entityType: AuditEntityType;
-  entityId?: number;
+  entityId?: AuditEntityId;
 
   // CONTEXT
   requestId?: string;
@@ -35,6 +41,7 @@ export interface AuditLogEntry {
   // DETAILS
   metadata?: Record<string, any>;
   note?: string;
+  hiddenFromUser?: boolean;
 }
 
 export interface AuthActionMetadata {
@@ -78,29 +85,45 @@ function generateRequestId(): string {
   return `req_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 }
 
+// Split an entity id into the entityId / entityRef columns
+function toEntityColumns(entityId?: AuditEntityId): {
+  entityId: number | null;
+  entityRef: string | null;
+} {
+  if (typeof entityId === 'string') {
+    return { entityId: null, entityRef: entityId.substring(0, 64) };
+  }
+  if (typeof entityId === 'number' && Number.isInteger(entityId)) {
+    return { entityId, entityRef: null };
+  }
+  return { entityId: null, entityRef: null };
+}
+
+// Normalize an entry into the row written to the hash chain
+function toChainedEntry(entry: AuditLogEntry): Parameters<typeof appendAuditEntries>[0][number] {
+  return {
+    actorUserId: entry.actorUserId ?? null,
+    actorRole: entry.actorRole ?? null,
+    action: entry.action,
+    outcome: entry.outcome,
+    errorCode: entry.errorCode?.substring(0, 64) ?? null,
+    entityType: entry.entityType,
+    ...toEntityColumns(entry.entityId),
+    requestId: entry.requestId?.substring(0, 64) ?? null,
+    sessionId: entry.sessionId?.substring(0, 64) ?? null,
+    ip: entry.ip?.substring(0, 45) ?? null,
+    userAgent: entry.userAgent?.substring(0, 512) ?? null,
+    // Sanitize metadata to remove any sensitive information
+    metadata: entry.metadata ? sanitizeMetadata(entry.metadata) : null,
+    note: entry.note ?? null,
+    hiddenFromUser: entry.hiddenFromUser ?? false,
+  };
+}
+
 // Core audit logging function
 async function logAuditInternal(entry: AuditLogEntry): Promise<void> {
   try {
-    // Sanitize metadata to remove any sensitive information
-    const sanitizedMetadata = entry.metadata ? sanitizeMetadata(entry.metadata) : undefined;
-
-    await prisma.auditLog.create({
-      data: {
-        actorUserId: entry.actorUserId,
-        actorRole: entry.actorRole,
-        action: entry.action,
-        outcome: entry.outcome,
-        errorCode: entry.errorCode?.substring(0, 64),
-        entityType: entry.entityType,
-        entityId: entry.entityId,
-        requestId: entry.requestId?.substring(0, 64),
-        sessionId: entry.sessionId?.substring(0, 64),
-        ip: entry.ip?.substring(0, 45),
-        userAgent: entry.userAgent?.substring(0, 512),
-        metadata: sanitizedMetadata,
-        note: entry.note,
-      },
-    });
+    await appendAuditEntries([toChainedEntry(entry)]);
   } catch (error) {
     // Log audit failures to console but don't throw to avoid breaking main functionality
     console.error('Failed to write audit log:', error);
@@ -171,7 +194,7 @@ async function logSuccessInternal(
   action: AuditAction,
   entityType: AuditEntityType,
   context: Partial<AuditContext> = {},
-  entityId?: number,
+  entityId?: AuditEntityId,
   metadata?: Record<string, any>,
   note?: string
 ): Promise<void> {
@@ -195,7 +218,7 @@ async function logFailureInternal(
   entityType: AuditEntityType,
   errorCode: string,
   context: Partial<AuditContext> = {},
-  entityId?: number,
+  entityId?: AuditEntityId,
   metadata?: Record<string, any>,
   note?: string
 ): Promise<void> {
@@ -229,7 +252,7 @@ export class AuthAuditor {
         actorUserId: userId,
         actorRole: 'USER' as AuditActorRole,
       },
-      undefined, // entityId not needed for user registration
+      userId,
       {
         email,
         ...metadata,
@@ -275,7 +298,7 @@ export class AuthAuditor {
         actorRole: 'USER' as AuditActorRole,
         sessionId,
       },
-      undefined,
+      userId,
       metadata,
       'User login successful'
     );
@@ -304,7 +327,7 @@ export class AuthAuditor {
     );
   }
 
-  // Log successful logout
+  // Log successful logout; the ended session is the target when known
   static async logLogoutSuccess(
     userId: string,
     sessionId?: string,
@@ -312,13 +335,13 @@ export class AuthAuditor {
   ): Promise<void> {
     await logSuccessInternal(
       'LOGOUT' as AuditAction,
-      'USER' as AuditEntityType,
+      (sessionId ? 'SESSION' : 'USER') as AuditEntityType,
       {
         actorUserId: userId,
         actorRole: 'USER' as AuditActorRole,
         sessionId,
       },
-      undefined,
+      sessionId ?? userId,
       metadata,
       'User logout successful'
     );
@@ -342,7 +365,7 @@ export class AuthAuditor {
         actorUserId: userId,
         actorRole: 'USER' as AuditActorRole,
       },
-      undefined,
+      userId,
       {
         provider,
         ...metadata,
@@ -370,7 +393,7 @@ export class AuthAuditor {
         actorUserId: userId,
         actorRole: userId ? ('USER' as AuditActorRole) : undefined,
       },
-      undefined,
+      userId ?? undefined,
       {
         provider,
         ...metadata,
@@ -392,7 +415,7 @@ export class AuthAuditor {
         actorUserId: userId || null,
         actorRole: userId ? ('USER' as AuditActorRole) : undefined,
       },
-      undefined,
+      userId,
       {
         email,
         ...metadata,
@@ -412,7 +435,7 @@ export class AuthAuditor {
         actorUserId: userId,
         actorRole: 'USER' as AuditActorRole,
       },
-      undefined,
+      userId,
       metadata,
       'Password reset confirmed'
     );
@@ -425,7 +448,7 @@ async function auditServerActionInternal<T>(
   entityType: AuditEntityType,
   operation: () => Promise<T>,
   context: Partial<AuditContext> = {},
-  entityId?: number,
+  entityId?: AuditEntityId,
   note?: string,
   metadata?: Record<string, any>
 ): Promise<T> {
@@ -469,26 +492,8 @@ async function logAuditBatchInternal(entries: AuditLogEntry[]): Promise<void> {
   if (entries.length === 0) return;
 
   try {
-    const sanitizedEntries = entries.map((entry) => ({
-      actorUserId: entry.actorUserId,
-      actorRole: entry.actorRole,
-      action: entry.action,
-      outcome: entry.outcome,
-      errorCode: entry.errorCode?.substring(0, 64),
-      entityType: entry.entityType,
-      entityId: entry.entityId,
-      requestId: entry.requestId?.substring(0, 64),
-      sessionId: entry.sessionId?.substring(0, 64),
-      ip: entry.ip?.substring(0, 45),
-      userAgent: entry.userAgent?.substring(0, 512),
-      metadata: entry.metadata ? sanitizeMetadata(entry.metadata) : undefined,
-      note: entry.note,
-    }));
-
-    await prisma.auditLog.createMany({
-      data: sanitizedEntries,
-      skipDuplicates: true,
-    });
+    // One chain append keeps the batch contiguous and in order
+    await appendAuditEntries(entries.map(toChainedEntry));
   } catch (error) {
     console.error('Failed to write audit log batch:', error);
     console.error('Audit entries were:', JSON.stringify(entries, null, 2));
@@ -13,6 +13,7 @@ export {
 
 export { authToasts } from './auth-toasts';
 export { logout } from './logout';
+export { hasPermission, type Permission } from './permissions';
 
 // Re-export types only (erased at compile time, no runtime import)
 export type { Session, User } from './auth';
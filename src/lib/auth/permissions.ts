@@ -0,0 +1,89 @@
+// Central permission map. Safe to import anywhere (server, client, middleware).
+// Check permissions, not roles: hasPermission(user.role, 'ads.moderate').
+
+import type { UserRole } from '@/generated/enums';
+
+export const PERMISSIONS = [
+  'panel.access',
+  'ads.moderate',
+  'reports.moderate',
+  'verifications.review',
+  'verifications.view_documents',
+  'users.suspend',
+  // Read and write internal moderator notes on users
+  'users.notes',
+  // Moderate every city regardless of assigned moderation scopes
+  'moderation.global',
+  'users.view',
+  'users.manage_roles',
+  'audit.view',
+  // Hide audit entries from, or show them in, the owner's activity feed
+  'audit.hide_entries',
+  'notifications.send',
+  'announcements.publish',
+  // Create and edit canned moderation responses
+  'responses.manage',
+  // See and resolve items moderators flagged for admin review
+  'flags.resolve',
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+const MODERATOR_PERMISSIONS: readonly Permission[] = [
+  'panel.access',
+  'ads.moderate',
+  'reports.moderate',
+  'verifications.review',
+  'verifications.view_documents',
+  'users.suspend',
+  'users.notes',
+  'notifications.send',
+  'announcements.publish',
+];
+
+export const ROLE_PERMISSIONS: Record<UserRole, readonly Permission[]> = {
+  USER: [],
+  MODERATOR: MODERATOR_PERMISSIONS,
+  ADMIN: PERMISSIONS,
+};
+
+// Most specific prefix first; anything else under /panel needs panel.access
+const PANEL_ROUTE_PERMISSIONS: Array<{ prefix: string; permission: Permission }> = [
+  { prefix: '/panel/users', permission: 'users.view' },
+  { prefix: '/panel/audit', permission: 'audit.view' },
+  { prefix: '/panel/responses', permission: 'responses.manage' },
+  { prefix: '/panel/flags', permission: 'flags.resolve' },
+  { prefix: '/panel/ad-moderation', permission: 'ads.moderate' },
+  { prefix: '/panel/reports', permission: 'reports.moderate' },
+  { prefix: '/panel/verification-requests', permission: 'verifications.review' },
+  { prefix: '/panel/Send-notification', permission: 'notifications.send' },
+  { prefix: '/panel', permission: 'panel.access' },
+];
+
+/**
+ * Thrown by requirePermission. status is 401 without a session, 403 otherwise.
+ */
+export class PermissionError extends Error {
+  constructor(
+    public readonly permission: Permission,
+    public readonly status: 401 | 403
+  ) {
+    super(status === 401 ? 'Authentication required' : 'Insufficient permissions');
+    this.name = 'PermissionError';
+  }
+}
+
+export function hasPermission(role: string | null | undefined, permission: Permission): boolean {
+  if (!role || !(role in ROLE_PERMISSIONS)) return false;
+  return ROLE_PERMISSIONS[role as UserRole].includes(permission);
+}
+
+/**
+ * Permission needed to open a /panel page, or null for paths outside the panel
+ */
+export function getPanelRoutePermission(pathname: string): Permission | null {
+  const match = PANEL_ROUTE_PERMISSIONS.find(
+    ({ prefix }) => pathname === prefix || pathname.startsWith(`${prefix}/`)
+  );
+  return match?.permission ?? null;
+}
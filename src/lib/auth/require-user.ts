@@ -1,8 +1,10 @@
+import { assertNotSuspended } from '@/data/user/suspension.dal';
 import { getServerSession } from '@/lib/auth/server';
 import { unauthorized } from 'next/navigation';
 import { cache } from 'react';
 import 'server-only';
 import type { User } from './auth';
+import { hasPermission, PermissionError, type Permission } from './permissions';
 
 // Returns the current user if authenticated, otherwise null.
 // Memoized per-request using React cache to avoid duplicate auth lookups.
@@ -20,3 +22,25 @@ export const requireUser = cache(async (): Promise<User> => {
   }
   return user;
 });
+
+// Like requireUser, but also throws UserSuspendedError for suspended users.
+// Use it in actions that publish content: ads, verification requests, reports.
+export const requireActiveUser = cache(async (): Promise<User> => {
+  const user = await requireUser();
+  await assertNotSuspended(user.id);
+  return user;
+});
+
+// Ensures the current user's role grants `permission`.
+// Throws PermissionError (401 without a session, 403 without the permission) so route
+// handlers can answer with JSON and server actions can map it to a message.
+export async function requirePermission(permission: Permission): Promise<User> {
+  const user = await getCurrentUser();
+  if (!user) {
+    throw new PermissionError(permission, 401);
+  }
+  if (!hasPermission(user.role, permission)) {
+    throw new PermissionError(permission, 403);
+  }
+  return user;
+}
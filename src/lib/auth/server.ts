@@ -3,7 +3,8 @@ import 'server-only';
 
 export { auth } from './auth';
 export { getServerSession } from './get-session';
-export { getCurrentUser, requireUser } from './require-user';
+export { hasPermission, PermissionError, type Permission } from './permissions';
+export { getCurrentUser, requireActiveUser, requirePermission, requireUser } from './require-user';
 
 // Re-export types
 export type { Session, User } from './auth';
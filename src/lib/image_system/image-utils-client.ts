@@ -26,7 +26,9 @@ export type ImageType =
   | 'icon' // Icons and logos - small, crisp
   | 'banner' // Banner images - wide, medium quality
   | 'verification' // User verification documents/images
-  | 'ad-housing'; // Housing ad listing images (multiple per ad)
+  | 'ad-housing' // Housing ad listing images (multiple per ad)
+  | 'ad-marketplace' // Marketplace item photos (multiple per ad)
+  | 'report'; // Screenshots attached to ad reports (private)
 
 /**
  * Image configuration for different types
@@ -41,6 +43,7 @@ export interface ImageTypeConfig {
   };
   quality?: 'auto' | number;
   folder: string; // Cloudinary folder structure
+  private?: boolean; // Stored as authenticated resources; served through signed URLs only
 }
 
 /**
@@ -124,6 +127,21 @@ export const IMAGE_TYPE_CONFIGS: Record<ImageType, ImageTypeConfig> = {
     // Cloudinary folder for housing ads
     folder: 'ads/housing',
   },
+  'ad-marketplace': {
+    // Item photos are usually taken on phones; same limits as housing
+    maxSizeBytes: 15 * 1024 * 1024, // 15MB
+    allowedMimeTypes: ['image/jpeg', 'image/png', 'image/webp', 'image/avif'] as const,
+    quality: 90,
+    folder: 'ads/marketplace',
+  },
+  report: {
+    // Evidence screenshots; only moderators ever see them
+    maxSizeBytes: 8 * 1024 * 1024, // 8MB
+    allowedMimeTypes: ['image/jpeg', 'image/png', 'image/webp'] as const,
+    quality: 85,
+    folder: 'reports',
+    private: true,
+  },
 };
 
 /**
@@ -416,6 +434,27 @@ export function getOptimizedUrl(storageKey: string, imageType: ImageType): strin
   return generateCloudinaryUrl(publicId, options);
 }
 
+/**
+ * Generate a 1200x630 JPEG for OpenGraph previews (Telegram, WhatsApp, etc.)
+ * Crawlers don't negotiate formats, so f_auto is avoided here.
+ */
+export function getOpenGraphImageUrl(storageKey: string): string | null {
+  const publicId = storageKey.replace(/\.[^.]+$/, '');
+
+  try {
+    return generateCloudinaryUrl(publicId, {
+      width: 1200,
+      height: 630,
+      crop: 'fill',
+      gravity: 'center',
+      format: 'jpg',
+    });
+  } catch (error) {
+    console.warn('Failed to generate OpenGraph image URL:', error);
+    return null;
+  }
+}
+
 /**
  * Generate responsive image URLs for different screen sizes
  */
@@ -80,6 +80,7 @@ async function uploadBufferToCloudinary(
     folder: config.folder,
     resourceType,
     transformation: Object.keys(transformation).length ? transformation : undefined,
+    private: config.private,
   });
   const ms = Date.now() - start;
   console.info('[image] upload', { imageType, publicId: result.publicId, bytes: result.bytes, ms });
@@ -148,12 +149,15 @@ export async function uploadImageToCloudinary(
 /**
  * Delete image from Cloudinary by storage key
  */
-export async function deleteCloudinaryImage(storageKey: string): Promise<void> {
+export async function deleteCloudinaryImage(
+  storageKey: string,
+  options?: { private?: boolean }
+): Promise<void> {
   try {
     if (!storageKey) return;
 
     const start = Date.now();
-    await storage.deleteByStorageKey(storageKey);
+    await storage.deleteByStorageKey(storageKey, options);
     console.info('[image] delete', { storageKey, ms: Date.now() - start });
   } catch (error) {
     // Log error but don't throw - deletion is often best-effort
@@ -184,7 +188,10 @@ export async function bulkDeleteCloudinaryImages(storageKeys: string[]): Promise
  * Generate a signed URL (short TTL implied via CDN config). Useful for private assets.
  * Note: Requires Cloudinary to be configured for authenticated delivery.
  */
-export function getSignedUrl(storageKey: string, options?: { resourceType?: 'image' | 'raw' }) {
+export function getSignedUrl(
+  storageKey: string,
+  options?: { resourceType?: 'image' | 'raw'; private?: boolean }
+) {
   return storage.getSignedUrl?.(storageKey, options) ?? null;
 }
 
@@ -254,9 +261,12 @@ export class ImageService {
   /**
    * Delete image with cleanup
    */
-  static async deleteImage(storageKey: string): Promise<ServiceResult<void>> {
+  static async deleteImage(
+    storageKey: string,
+    options?: { private?: boolean }
+  ): Promise<ServiceResult<void>> {
     try {
-      await deleteCloudinaryImage(storageKey);
+      await deleteCloudinaryImage(storageKey, options);
       return { success: true, data: undefined };
     } catch (error) {
       return handleServiceError(error, 'Failed to delete image');
@@ -459,4 +469,22 @@ export class HousingAdImageService extends ImageService {
   }
 }
 
+/**
+ * Marketplace Ad Image Service
+ * - Multiple item photos per ad (up to 8 at UI level)
+ * - Uses 'ad-marketplace' image type configuration
+ */
+export class MarketplaceAdImageService extends ImageService {
+  static async upload(file: File, userId: string): Promise<ServiceResult<ImageUploadResult>> {
+    return ImageService.uploadImage(file, userId, 'ad-marketplace');
+  }
+
+  static async uploadMany(
+    files: File[],
+    userId: string
+  ): Promise<ServiceResult<ImageUploadResult[]>> {
+    return ImageService.batchUploadImages(files, userId, 'ad-marketplace');
+  }
+}
+
 // All services are already exported above
@@ -1,28 +1,35 @@
 import type { Metadata } from 'next/types';
 
+// Prefer the canonical domain so shared links don't point at a deployment-specific URL
+export const baseUrl =
+  process.env.NODE_ENV === 'development'
+    ? new URL('http://localhost:3000')
+    : new URL(
+        process.env.BETTER_AUTH_URL ||
+          (process.env.VERCEL_URL ? `https://${process.env.VERCEL_URL}` : 'http://localhost:3000')
+      );
+
+const SITE_NAME = 'ItaliaHub';
+const DEFAULT_OG_IMAGE = new URL('/logo.png', baseUrl).toString();
+
 export function createMetadata(override: Metadata): Metadata {
   return {
     ...override,
+    metadataBase: override.metadataBase ?? baseUrl,
     openGraph: {
       title: override.title ?? undefined,
       description: override.description ?? undefined,
-      url: 'https://demo.better-auth.com',
-      images: 'https://demo.better-auth.com/og.png',
-      siteName: 'Better Auth',
+      url: baseUrl.toString(),
+      images: DEFAULT_OG_IMAGE,
+      siteName: SITE_NAME,
       ...override.openGraph,
     },
     twitter: {
       card: 'summary_large_image',
-      creator: '@beakcru',
       title: override.title ?? undefined,
       description: override.description ?? undefined,
-      images: 'https://demo.better-auth.com/og.png',
+      images: DEFAULT_OG_IMAGE,
       ...override.twitter,
     },
   };
 }
-
-export const baseUrl =
-  process.env.NODE_ENV === 'development'
-    ? new URL('http://localhost:3000')
-    : new URL(`https://${process.env.VERCEL_URL!}`);
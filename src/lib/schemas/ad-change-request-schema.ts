@@ -0,0 +1,29 @@
+import { AD_REVIEW_COMMENT_MAX_LENGTH, AD_REVIEW_FIELDS } from '@/constants/ad-review-fields';
+import { z } from 'zod';
+
+// Moderator sending an ad back to its owner; at most one comment per field
+export const adChangeRequestSchema = z.object({
+  comments: z
+    .array(
+      z.object({
+        field: z.enum(AD_REVIEW_FIELDS),
+        comment: z
+          .string()
+          .trim()
+          .min(3, 'Please describe what should change')
+          .max(
+            AD_REVIEW_COMMENT_MAX_LENGTH,
+            `Comment must be at most ${AD_REVIEW_COMMENT_MAX_LENGTH} characters`
+          ),
+      })
+    )
+    .min(1, 'Add at least one comment')
+    .max(AD_REVIEW_FIELDS.length)
+    .refine(
+      (comments) => new Set(comments.map((c) => c.field)).size === comments.length,
+      'Only one comment per field'
+    ),
+  note: z.string().trim().max(AD_REVIEW_COMMENT_MAX_LENGTH).optional(),
+});
+
+export type AdChangeRequestInput = z.infer<typeof adChangeRequestSchema>;
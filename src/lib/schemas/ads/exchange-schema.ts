@@ -0,0 +1,201 @@
+/**
+ * Currency exchange ad form schemas
+ *
+ * Mirrors the housing wizard structure:
+ * - One base schema holding every field the form edits
+ * - Step-specific schemas picked from the base for incremental validation
+ * - STEP_FIELDS mapping used by the step navigation hooks
+ *
+ * Only verified users can publish exchange ads; that check lives in the
+ * server action and the DAL, not in the form schema.
+ */
+
+import { ExchangeMode, ExchangeRateType, ExchangeSide, SettlementMethod } from '@/generated/enums';
+import { z } from 'zod';
+
+import { requiredEnum } from './housing/utils';
+import { VALIDATION_MESSAGES } from './housing/validation-messages';
+
+export const EXCHANGE_MIN_AMOUNT_EUR = 10;
+export const EXCHANGE_MAX_AMOUNT_EUR = 50_000;
+export const EXCHANGE_MAX_RATE_VALUE = 10_000_000;
+export const EXCHANGE_SETTLEMENT_NOTE_MAX_LENGTH = 200;
+export const EXCHANGE_NOTES_MAX_LENGTH = 1000;
+
+const eurAmount = z
+  .number({ invalid_type_error: VALIDATION_MESSAGES.PRICE.INVALID_NUMBER })
+  .min(EXCHANGE_MIN_AMOUNT_EUR, `Minimum is €${EXCHANGE_MIN_AMOUNT_EUR}`)
+  .max(EXCHANGE_MAX_AMOUNT_EUR, `Maximum is €${EXCHANGE_MAX_AMOUNT_EUR}`)
+  .multipleOf(0.01, 'Use at most 2 decimals');
+
+/**
+ * Base schema for all exchange fields
+ */
+const baseExchangeSchema = z.object({
+  // Step 1: Offer
+  side: requiredEnum(ExchangeSide, VALIDATION_MESSAGES.SELECT_OPTION),
+  amountEur: eurAmount.optional().nullable(),
+  allowsPartial: z.boolean().default(true),
+  minChunkEur: eurAmount.optional().nullable(),
+
+  // Step 2: Rate
+  rateType: requiredEnum(ExchangeRateType, VALIDATION_MESSAGES.SELECT_OPTION),
+  rateValue: z
+    .number({ invalid_type_error: VALIDATION_MESSAGES.PRICE.INVALID_NUMBER })
+    .positive('Rate must be greater than 0')
+    .max(EXCHANGE_MAX_RATE_VALUE, `Maximum is ${EXCHANGE_MAX_RATE_VALUE}`)
+    .multipleOf(0.0001, 'Use at most 4 decimals')
+    .optional()
+    .nullable(),
+
+  // Step 3: Settlement
+  exchangeMode: requiredEnum(ExchangeMode, VALIDATION_MESSAGES.SELECT_OPTION),
+  settlementMethods: z.array(z.nativeEnum(SettlementMethod)).default([]),
+  otherSettlementNote: z
+    .string()
+    .trim()
+    .max(
+      EXCHANGE_SETTLEMENT_NOTE_MAX_LENGTH,
+      `Too long (max ${EXCHANGE_SETTLEMENT_NOTE_MAX_LENGTH} chars)`
+    )
+    .optional()
+    .nullable(),
+  notes: z
+    .string()
+    .trim()
+    .max(EXCHANGE_NOTES_MAX_LENGTH, `Too long (max ${EXCHANGE_NOTES_MAX_LENGTH} chars)`)
+    .optional()
+    .nullable(),
+});
+
+/**
+ * Amount is required; a minimum chunk only makes sense for partial offers
+ * and can never be larger than the whole amount
+ */
+function applyAmountRules(
+  val: { amountEur?: number | null; allowsPartial?: boolean; minChunkEur?: number | null },
+  ctx: z.RefinementCtx
+) {
+  if (val.amountEur == null) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'Enter the amount in euros',
+      path: ['amountEur'],
+    });
+  }
+
+  if (val.minChunkEur == null) return;
+
+  if (!val.allowsPartial) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'Only used when partial exchanges are allowed',
+      path: ['minChunkEur'],
+    });
+  } else if (val.amountEur != null && val.minChunkEur > val.amountEur) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'Minimum chunk cannot exceed the total amount',
+      path: ['minChunkEur'],
+    });
+  }
+}
+
+/**
+ * ExchangeRateType rules:
+ * - CUSTOM: rateValue required
+ * - MARKET / NEGOTIABLE: no rateValue
+ */
+function applyRateRules(
+  val: { rateType?: string | null; rateValue?: number | null },
+  ctx: z.RefinementCtx
+) {
+  if (val.rateType === ExchangeRateType.CUSTOM) {
+    if (val.rateValue == null) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'Enter your rate',
+        path: ['rateValue'],
+      });
+    }
+  } else if (val.rateType && val.rateValue != null) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'Only used with a custom rate',
+      path: ['rateValue'],
+    });
+  }
+}
+
+/**
+ * At least one settlement method; OTHER needs a short explanation
+ */
+function applySettlementRules(
+  val: { settlementMethods?: string[]; otherSettlementNote?: string | null },
+  ctx: z.RefinementCtx
+) {
+  const methods = val.settlementMethods ?? [];
+  if (methods.length === 0) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'Pick at least one settlement method',
+      path: ['settlementMethods'],
+    });
+  }
+
+  if (methods.includes(SettlementMethod.OTHER) && !val.otherSettlementNote?.trim()) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'Describe the other settlement method',
+      path: ['otherSettlementNote'],
+    });
+  }
+}
+
+/**
+ * Full exchange schema used on submit (client) and in server actions
+ */
+export const exchangeSchema = baseExchangeSchema.superRefine((val, ctx) => {
+  applyAmountRules(val, ctx);
+  applyRateRules(val, ctx);
+  applySettlementRules(val, ctx);
+});
+
+export type ExchangeFormValues = z.infer<typeof exchangeSchema>;
+
+/** Step 1: Side, amount and partial exchange options */
+export const exchangeStep1Schema = baseExchangeSchema
+  .pick({
+    side: true,
+    amountEur: true,
+    allowsPartial: true,
+    minChunkEur: true,
+  })
+  .superRefine(applyAmountRules);
+
+/** Step 2: Rate type and value */
+export const exchangeStep2Schema = baseExchangeSchema
+  .pick({
+    rateType: true,
+    rateValue: true,
+  })
+  .superRefine(applyRateRules);
+
+/** Step 3: Exchange mode, settlement methods and notes */
+export const exchangeStep3Schema = baseExchangeSchema
+  .pick({
+    exchangeMode: true,
+    settlementMethods: true,
+    otherSettlementNote: true,
+    notes: true,
+  })
+  .superRefine(applySettlementRules);
+
+/**
+ * Maps each step to the form fields it uses for watching changes
+ */
+export const EXCHANGE_STEP_FIELDS: Record<number, (keyof ExchangeFormValues)[]> = {
+  1: ['side', 'amountEur', 'allowsPartial', 'minChunkEur'],
+  2: ['rateType', 'rateValue'],
+  3: ['exchangeMode', 'settlementMethods', 'otherSettlementNote', 'notes'],
+};
@@ -0,0 +1,89 @@
+/**
+ * Housing search params schema
+ *
+ * Parses the public /housing search query string into typed filters.
+ * Invalid or unknown values are dropped instead of failing the page, so a
+ * hand-edited or stale URL still renders results.
+ */
+
+import { HousingPropertyType, HousingRentalKind, HousingUnitType } from '@/generated/enums';
+import { z } from 'zod';
+
+export const HOUSING_SEARCH_PAGE_SIZES = [12, 24, 48] as const;
+export const HOUSING_SEARCH_DEFAULT_PAGE_SIZE = 12;
+
+export const HOUSING_SEARCH_SORTS = [
+  'created-desc',
+  'created-asc',
+  'price-asc',
+  'price-desc',
+] as const;
+export type HousingSearchSort = (typeof HOUSING_SEARCH_SORTS)[number];
+
+// Empty strings and garbage become undefined rather than validation errors
+const optionalPositiveInt = z.coerce.number().int().positive().optional().catch(undefined);
+const optionalPrice = z.coerce.number().nonnegative().optional().catch(undefined);
+
+export const housingSearchSchema = z
+  .object({
+    cityId: optionalPositiveInt,
+    rentalKind: z.nativeEnum(HousingRentalKind).optional().catch(undefined),
+    unitType: z.nativeEnum(HousingUnitType).optional().catch(undefined),
+    propertyType: z.nativeEnum(HousingPropertyType).optional().catch(undefined),
+    minPrice: optionalPrice,
+    maxPrice: optionalPrice,
+    sort: z.enum(HOUSING_SEARCH_SORTS).catch('created-desc'),
+    page: z.coerce.number().int().min(1).catch(1),
+    pageSize: z.coerce
+      .number()
+      .int()
+      .refine((value) => (HOUSING_SEARCH_PAGE_SIZES as readonly number[]).includes(value))
+      .catch(HOUSING_SEARCH_DEFAULT_PAGE_SIZE),
+  })
+  .transform((values) => {
+    // Swap an inverted range instead of returning nothing
+    if (
+      values.minPrice !== undefined &&
+      values.maxPrice !== undefined &&
+      values.minPrice > values.maxPrice
+    ) {
+      return { ...values, minPrice: values.maxPrice, maxPrice: values.minPrice };
+    }
+    return values;
+  });
+
+export type HousingSearchFilters = z.infer<typeof housingSearchSchema>;
+
+type RawSearchParams = Record<string, string | string[] | undefined>;
+
+/**
+ * Parse Next.js searchParams into housing filters
+ */
+export function parseHousingSearchParams(searchParams: RawSearchParams): HousingSearchFilters {
+  const flat: Record<string, string | undefined> = {};
+  for (const [key, value] of Object.entries(searchParams)) {
+    flat[key] = Array.isArray(value) ? value[0] : value;
+  }
+  return housingSearchSchema.parse(flat);
+}
+
+/**
+ * Build a query string from housing filters, omitting defaults so URLs stay short
+ */
+export function buildHousingSearchQuery(filters: Partial<HousingSearchFilters>): string {
+  const params = new URLSearchParams();
+
+  if (filters.cityId) params.set('cityId', String(filters.cityId));
+  if (filters.rentalKind) params.set('rentalKind', filters.rentalKind);
+  if (filters.unitType) params.set('unitType', filters.unitType);
+  if (filters.propertyType) params.set('propertyType', filters.propertyType);
+  if (filters.minPrice !== undefined) params.set('minPrice', String(filters.minPrice));
+  if (filters.maxPrice !== undefined) params.set('maxPrice', String(filters.maxPrice));
+  if (filters.sort && filters.sort !== 'created-desc') params.set('sort', filters.sort);
+  if (filters.page && filters.page > 1) params.set('page', String(filters.page));
+  if (filters.pageSize && filters.pageSize !== HOUSING_SEARCH_DEFAULT_PAGE_SIZE) {
+    params.set('pageSize', String(filters.pageSize));
+  }
+
+  return params.toString();
+}
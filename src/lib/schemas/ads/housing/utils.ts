@@ -36,12 +36,8 @@ export const currencyInt = z
  * @param e - Enum object
  * @param message - Error message when value is null
  */
-export function requiredEnum<E extends Record<string, string | number>>(
-  e: E,
-  message = 'Select an option!'
-) {
-  const values = Object.values(e).filter((v): v is string => typeof v === 'string');
-  const base = z.enum(values as [string, ...string[]]);
+export function requiredEnum<E extends z.EnumLike>(e: E, message = 'Select an option!') {
+  const base = z.nativeEnum(e);
   return z
     .union([base, z.null(), z.undefined()])
     .superRefine((v, ctx) => {
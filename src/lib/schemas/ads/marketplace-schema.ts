@@ -0,0 +1,143 @@
+/**
+ * Marketplace ad form schemas
+ *
+ * Mirrors the housing wizard structure:
+ * - One base schema holding every field the form edits
+ * - Step-specific schemas picked from the base for incremental validation
+ * - STEP_FIELDS mapping used by the step navigation hooks
+ */
+
+import { MarketplaceCondition } from '@/generated/enums';
+import { z } from 'zod';
+
+import { requiredEnum } from './housing/utils';
+import { VALIDATION_MESSAGES } from './housing/validation-messages';
+
+export const MARKETPLACE_TITLE_MAX_LENGTH = 120;
+export const MARKETPLACE_DESCRIPTION_MAX_LENGTH = 2000;
+export const MARKETPLACE_MAX_PRICE = 100_000;
+export const MARKETPLACE_MAX_IMAGES = 8;
+
+/**
+ * Base schema for all marketplace fields
+ */
+const baseMarketplaceSchema = z.object({
+  // Step 1: Item details
+  title: z
+    .string({ required_error: VALIDATION_MESSAGES.REQUIRED })
+    .trim()
+    .min(5, 'Title must be at least 5 characters')
+    .max(MARKETPLACE_TITLE_MAX_LENGTH, `Too long (max ${MARKETPLACE_TITLE_MAX_LENGTH} chars)`),
+  description: z
+    .string({ required_error: VALIDATION_MESSAGES.REQUIRED })
+    .trim()
+    .min(20, 'Description must be at least 20 characters')
+    .max(
+      MARKETPLACE_DESCRIPTION_MAX_LENGTH,
+      `Too long (max ${MARKETPLACE_DESCRIPTION_MAX_LENGTH} chars)`
+    ),
+  category: z.string().trim().max(50).optional().nullable(),
+  condition: requiredEnum(MarketplaceCondition, VALIDATION_MESSAGES.SELECT_OPTION),
+
+  // Step 2: Price (0.00 is stored for negotiable items)
+  price: z
+    .number({ invalid_type_error: VALIDATION_MESSAGES.PRICE.INVALID_NUMBER })
+    .min(0, VALIDATION_MESSAGES.PRICE.CANNOT_BE_NEGATIVE)
+    .max(MARKETPLACE_MAX_PRICE, `Maximum is ${MARKETPLACE_MAX_PRICE}`)
+    .multipleOf(0.01, 'Use at most 2 decimals')
+    .optional()
+    .nullable(),
+  priceNegotiable: z.boolean().default(false),
+
+  // Step 3: Images
+  images: z
+    .array(z.string().min(1, 'Invalid image key'))
+    .max(MARKETPLACE_MAX_IMAGES, `You can upload up to ${MARKETPLACE_MAX_IMAGES} images`)
+    .default([]),
+  coverImageStorageKey: z.string(),
+});
+
+/**
+ * Price is required unless the seller marked the item as negotiable
+ */
+function applyPriceRules(
+  val: { price?: number | null; priceNegotiable?: boolean },
+  ctx: z.RefinementCtx
+) {
+  if (!val.priceNegotiable && (val.price == null || val.price <= 0)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: VALIDATION_MESSAGES.PRICE.REQUIRED_WHEN_NOT_NEGOTIABLE,
+      path: ['price'],
+    });
+  }
+}
+
+/**
+ * Cover must be one of the uploaded images and at least one image is required
+ */
+function applyImageRules(
+  val: { images?: string[]; coverImageStorageKey?: string },
+  ctx: z.RefinementCtx
+) {
+  const images = val.images || [];
+  if (images.length === 0) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'Please upload at least one image',
+      path: ['images'],
+    });
+    return;
+  }
+
+  if (!val.coverImageStorageKey || !images.includes(val.coverImageStorageKey)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'Select a cover image',
+      path: ['coverImageStorageKey'],
+    });
+  }
+}
+
+/**
+ * Full marketplace schema used on submit (client) and in server actions
+ */
+export const marketplaceSchema = baseMarketplaceSchema.superRefine((val, ctx) => {
+  applyPriceRules(val, ctx);
+  applyImageRules(val, ctx);
+});
+
+export type MarketplaceFormValues = z.infer<typeof marketplaceSchema>;
+
+/** Step 1: Title, description, category and condition */
+export const marketplaceStep1Schema = baseMarketplaceSchema.pick({
+  title: true,
+  description: true,
+  category: true,
+  condition: true,
+});
+
+/** Step 2: Price or negotiable flag */
+export const marketplaceStep2Schema = baseMarketplaceSchema
+  .pick({
+    price: true,
+    priceNegotiable: true,
+  })
+  .superRefine(applyPriceRules);
+
+/** Step 3: Images (requires at least 1 image and a valid cover among them) */
+export const marketplaceStep3Schema = baseMarketplaceSchema
+  .pick({
+    images: true,
+    coverImageStorageKey: true,
+  })
+  .superRefine(applyImageRules);
+
+/**
+ * Maps each step to the form fields it uses for watching changes
+ */
+export const MARKETPLACE_STEP_FIELDS: Record<number, (keyof MarketplaceFormValues)[]> = {
+  1: ['title', 'description', 'category', 'condition'],
+  2: ['price', 'priceNegotiable'],
+  3: ['images', 'coverImageStorageKey'],
+};
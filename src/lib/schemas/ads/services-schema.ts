@@ -0,0 +1,196 @@
+/**
+ * Services ad form schemas
+ *
+ * Mirrors the housing wizard structure:
+ * - One base schema holding every field the form edits
+ * - Step-specific schemas picked from the base for incremental validation
+ * - STEP_FIELDS mapping used by the step navigation hooks
+ */
+
+import { ServiceCategory, ServiceRateBasis, Weekday } from '@/generated/enums';
+import { z } from 'zod';
+
+import { requiredEnum } from './housing/utils';
+import { VALIDATION_MESSAGES } from './housing/validation-messages';
+
+export const SERVICE_TITLE_MAX_LENGTH = 120;
+export const SERVICE_DESCRIPTION_MAX_LENGTH = 2000;
+export const SERVICE_MAX_TAGS = 10;
+export const SERVICE_TAG_MAX_LENGTH = 30;
+export const SERVICE_MAX_RATE = 10_000;
+export const SERVICE_AREA_MAX_LENGTH = 120;
+export const SERVICE_BUSINESS_NAME_MAX_LENGTH = 100;
+export const SERVICE_MAX_PORTFOLIO_LINKS = 5;
+export const SERVICE_PORTFOLIO_LINK_MAX_LENGTH = 500;
+
+const optionalText = (max: number) =>
+  z.string().trim().max(max, `Too long (max ${max} chars)`).optional().nullable();
+
+/**
+ * Only absolute http(s) links are accepted so nothing like `javascript:` ends up in an href
+ */
+export const portfolioLinkSchema = z
+  .string()
+  .trim()
+  .max(SERVICE_PORTFOLIO_LINK_MAX_LENGTH, 'Link is too long')
+  .refine((value) => {
+    try {
+      const url = new URL(value);
+      return (url.protocol === 'http:' || url.protocol === 'https:') && url.hostname.includes('.');
+    } catch {
+      return false;
+    }
+  }, 'Enter a full link starting with https://');
+
+/**
+ * Base schema for all services fields
+ */
+const baseServicesSchema = z.object({
+  // Step 1: About the service
+  title: z
+    .string({ required_error: VALIDATION_MESSAGES.REQUIRED })
+    .trim()
+    .min(5, 'Title must be at least 5 characters')
+    .max(SERVICE_TITLE_MAX_LENGTH, `Too long (max ${SERVICE_TITLE_MAX_LENGTH} chars)`),
+  description: z
+    .string({ required_error: VALIDATION_MESSAGES.REQUIRED })
+    .trim()
+    .min(20, 'Description must be at least 20 characters')
+    .max(SERVICE_DESCRIPTION_MAX_LENGTH, `Too long (max ${SERVICE_DESCRIPTION_MAX_LENGTH} chars)`),
+  serviceCategory: requiredEnum(ServiceCategory, VALIDATION_MESSAGES.SELECT_OPTION),
+  tags: z
+    .array(
+      z
+        .string()
+        .trim()
+        .min(2, 'Tags must be at least 2 characters')
+        .max(SERVICE_TAG_MAX_LENGTH, `Tags can be at most ${SERVICE_TAG_MAX_LENGTH} chars`)
+    )
+    .max(SERVICE_MAX_TAGS, `You can add up to ${SERVICE_MAX_TAGS} tags`)
+    .default([]),
+  businessName: optionalText(SERVICE_BUSINESS_NAME_MAX_LENGTH),
+
+  // Step 2: Rate & availability (no amount means "rate on request")
+  rateBasis: requiredEnum(ServiceRateBasis, VALIDATION_MESSAGES.SELECT_OPTION),
+  rateAmount: z
+    .number({ invalid_type_error: VALIDATION_MESSAGES.PRICE.INVALID_NUMBER })
+    .positive('Rate must be greater than 0')
+    .max(SERVICE_MAX_RATE, `Maximum is ${SERVICE_MAX_RATE}`)
+    .multipleOf(0.01, 'Use at most 2 decimals')
+    .optional()
+    .nullable(),
+  availabilityDays: z.array(z.nativeEnum(Weekday)).default([]),
+  serviceArea: optionalText(SERVICE_AREA_MAX_LENGTH),
+
+  // Step 3: Portfolio
+  portfolioLinks: z
+    .array(portfolioLinkSchema)
+    .max(SERVICE_MAX_PORTFOLIO_LINKS, `You can add up to ${SERVICE_MAX_PORTFOLIO_LINKS} links`)
+    .default([]),
+});
+
+/**
+ * Tags are compared case-insensitively
+ */
+function applyTagRules(val: { tags?: string[] }, ctx: z.RefinementCtx) {
+  const seen = new Set<string>();
+  for (const tag of val.tags ?? []) {
+    const key = tag.trim().toLowerCase();
+    if (seen.has(key)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `"${tag}" is already in the list`,
+        path: ['tags'],
+      });
+      return;
+    }
+    seen.add(key);
+  }
+}
+
+/**
+ * At least one weekday must be picked, each at most once
+ */
+function applyAvailabilityRules(val: { availabilityDays?: string[] }, ctx: z.RefinementCtx) {
+  const days = val.availabilityDays ?? [];
+  if (days.length === 0) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'Pick at least one day you are available',
+      path: ['availabilityDays'],
+    });
+  } else if (new Set(days).size !== days.length) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'Each day can only be picked once',
+      path: ['availabilityDays'],
+    });
+  }
+}
+
+/**
+ * The same link cannot be listed twice
+ */
+function applyPortfolioRules(val: { portfolioLinks?: string[] }, ctx: z.RefinementCtx) {
+  const seen = new Set<string>();
+  for (const link of val.portfolioLinks ?? []) {
+    const key = link.trim().replace(/\/+$/, '').toLowerCase();
+    if (seen.has(key)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'This link is already in the list',
+        path: ['portfolioLinks'],
+      });
+      return;
+    }
+    seen.add(key);
+  }
+}
+
+/**
+ * Full services schema used on submit (client) and in server actions
+ */
+export const servicesSchema = baseServicesSchema.superRefine((val, ctx) => {
+  applyTagRules(val, ctx);
+  applyAvailabilityRules(val, ctx);
+  applyPortfolioRules(val, ctx);
+});
+
+export type ServicesFormValues = z.infer<typeof servicesSchema>;
+
+/** Step 1: Title, description, category, tags and business name */
+export const servicesStep1Schema = baseServicesSchema
+  .pick({
+    title: true,
+    description: true,
+    serviceCategory: true,
+    tags: true,
+    businessName: true,
+  })
+  .superRefine(applyTagRules);
+
+/** Step 2: Rate basis, amount, weekdays and service area */
+export const servicesStep2Schema = baseServicesSchema
+  .pick({
+    rateBasis: true,
+    rateAmount: true,
+    availabilityDays: true,
+    serviceArea: true,
+  })
+  .superRefine(applyAvailabilityRules);
+
+/** Step 3: Portfolio links */
+export const servicesStep3Schema = baseServicesSchema
+  .pick({
+    portfolioLinks: true,
+  })
+  .superRefine(applyPortfolioRules);
+
+/**
+ * Maps each step to the form fields it uses for watching changes
+ */
+export const SERVICES_STEP_FIELDS: Record<number, (keyof ServicesFormValues)[]> = {
+  1: ['title', 'description', 'serviceCategory', 'tags', 'businessName'],
+  2: ['rateBasis', 'rateAmount', 'availabilityDays', 'serviceArea'],
+  3: ['portfolioLinks'],
+};
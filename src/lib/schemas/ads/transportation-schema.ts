@@ -0,0 +1,335 @@
+/**
+ * Transportation (carrier) ad form schemas
+ *
+ * Mirrors the housing wizard structure:
+ * - One base schema holding every field the form edits
+ * - Step-specific schemas picked from the base for incremental validation
+ * - STEP_FIELDS mapping used by the step navigation hooks
+ *
+ * Countries are not part of the form: they are derived from the direction
+ * on the server so a route can never point the wrong way.
+ */
+
+import { TransportDirection, TransportPriceMode } from '@/generated/enums';
+import { z } from 'zod';
+
+import { requiredEnum } from './housing/utils';
+import { VALIDATION_MESSAGES } from './housing/validation-messages';
+
+export const TRANSPORT_CITY_MAX_LENGTH = 80;
+export const TRANSPORT_MAX_EXTRA_CITIES = 5;
+export const TRANSPORT_NOTES_MAX_LENGTH = 500;
+export const TRANSPORT_MAX_CAPACITY_KG = 200;
+export const TRANSPORT_MAX_PRICE_PER_KG = 100;
+export const TRANSPORT_MAX_FIXED_PRICE = 5000;
+export const TRANSPORT_MAX_ETA_DAYS = 60;
+/** Flights can be announced up to this many days ahead */
+export const TRANSPORT_MAX_DAYS_AHEAD = 180;
+
+const cityName = z
+  .string({ required_error: VALIDATION_MESSAGES.REQUIRED })
+  .trim()
+  .min(2, 'Enter a city name')
+  .max(TRANSPORT_CITY_MAX_LENGTH, `Too long (max ${TRANSPORT_CITY_MAX_LENGTH} chars)`);
+
+const cityList = z
+  .array(cityName)
+  .max(TRANSPORT_MAX_EXTRA_CITIES, `You can add up to ${TRANSPORT_MAX_EXTRA_CITIES} cities`)
+  .default([]);
+
+const notes = z
+  .string()
+  .trim()
+  .max(TRANSPORT_NOTES_MAX_LENGTH, `Too long (max ${TRANSPORT_NOTES_MAX_LENGTH} chars)`)
+  .optional()
+  .nullable();
+
+const itemTypeList = z.array(z.string().min(1)).default([]);
+
+/**
+ * Base schema for all transportation fields
+ */
+const baseTransportationSchema = z.object({
+  // Step 1: Route
+  direction: requiredEnum(TransportDirection, VALIDATION_MESSAGES.SELECT_OPTION),
+  departureCity: cityName,
+  arrivalCity: cityName,
+  additionalPickupCities: cityList,
+  additionalDeliveryCities: cityList,
+  routeNotes: notes,
+
+  // Step 2: Flight & capacity
+  flightDate: z.date().optional().nullable(),
+  capacityKg: z
+    .number({ invalid_type_error: VALIDATION_MESSAGES.PRICE.INVALID_NUMBER })
+    .positive('Capacity must be greater than 0')
+    .max(TRANSPORT_MAX_CAPACITY_KG, `Maximum is ${TRANSPORT_MAX_CAPACITY_KG} kg`)
+    .multipleOf(0.01, 'Use at most 2 decimals')
+    .optional()
+    .nullable(),
+  minAcceptKg: z
+    .number({ invalid_type_error: VALIDATION_MESSAGES.PRICE.INVALID_NUMBER })
+    .int(VALIDATION_MESSAGES.PRICE.MUST_BE_WHOLE_NUMBER)
+    .min(1, VALIDATION_MESSAGES.PRICE.MIN_VALUE)
+    .optional()
+    .nullable(),
+  deliveryEtaDays: z
+    .number({ invalid_type_error: VALIDATION_MESSAGES.PRICE.INVALID_NUMBER })
+    .int(VALIDATION_MESSAGES.PRICE.MUST_BE_WHOLE_NUMBER)
+    .min(1, VALIDATION_MESSAGES.PRICE.MIN_VALUE)
+    .max(TRANSPORT_MAX_ETA_DAYS, `Maximum is ${TRANSPORT_MAX_ETA_DAYS} days`)
+    .optional()
+    .nullable(),
+  subjectToInspection: z.boolean().default(true),
+  documentsAccepted: z.boolean().default(true),
+  acceptedItemTypes: itemTypeList,
+  restrictedItemTypes: itemTypeList,
+  specialCapacityNotes: notes,
+  offersPostalForwarding: z.boolean().default(false),
+  acceptsPostalDropoff: z.boolean().default(false),
+  postalNotes: notes,
+
+  // Step 3: Pricing
+  priceMode: requiredEnum(TransportPriceMode, VALIDATION_MESSAGES.SELECT_OPTION),
+  pricePerKg: z
+    .number({ invalid_type_error: VALIDATION_MESSAGES.PRICE.INVALID_NUMBER })
+    .min(0, VALIDATION_MESSAGES.PRICE.CANNOT_BE_NEGATIVE)
+    .max(TRANSPORT_MAX_PRICE_PER_KG, `Maximum is ${TRANSPORT_MAX_PRICE_PER_KG}`)
+    .multipleOf(0.01, 'Use at most 2 decimals')
+    .optional()
+    .nullable(),
+  fixedTotalPrice: z
+    .number({ invalid_type_error: VALIDATION_MESSAGES.PRICE.INVALID_NUMBER })
+    .min(0, VALIDATION_MESSAGES.PRICE.CANNOT_BE_NEGATIVE)
+    .max(TRANSPORT_MAX_FIXED_PRICE, `Maximum is ${TRANSPORT_MAX_FIXED_PRICE}`)
+    .multipleOf(0.01, 'Use at most 2 decimals')
+    .optional()
+    .nullable(),
+  priceNotes: notes,
+  termsNotes: notes,
+});
+
+/**
+ * Extra cities must not repeat each other or the main city of the same side
+ */
+function applyRouteRules(
+  val: {
+    departureCity?: string;
+    arrivalCity?: string;
+    additionalPickupCities?: string[];
+    additionalDeliveryCities?: string[];
+  },
+  ctx: z.RefinementCtx
+) {
+  const checkList = (
+    main: string | undefined,
+    list: string[] | undefined,
+    path: 'additionalPickupCities' | 'additionalDeliveryCities'
+  ) => {
+    const seen = new Set(main ? [main.trim().toLowerCase()] : []);
+    for (const city of list ?? []) {
+      const key = city.trim().toLowerCase();
+      if (seen.has(key)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `"${city}" is already on the route`,
+          path: [path],
+        });
+        return;
+      }
+      seen.add(key);
+    }
+  };
+
+  checkList(val.departureCity, val.additionalPickupCities, 'additionalPickupCities');
+  checkList(val.arrivalCity, val.additionalDeliveryCities, 'additionalDeliveryCities');
+}
+
+/**
+ * Flight date is required and must fall between today and the booking horizon;
+ * the minimum accepted weight cannot exceed the announced capacity;
+ * an item type cannot be both accepted and restricted
+ */
+function applyFlightRules(
+  val: {
+    flightDate?: Date | null;
+    capacityKg?: number | null;
+    minAcceptKg?: number | null;
+    acceptedItemTypes?: string[];
+    restrictedItemTypes?: string[];
+  },
+  ctx: z.RefinementCtx
+) {
+  if (!val.flightDate) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'Select the flight date',
+      path: ['flightDate'],
+    });
+  } else {
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+    const horizon = new Date(today);
+    horizon.setDate(horizon.getDate() + TRANSPORT_MAX_DAYS_AHEAD);
+    // The client sends local midnight, which is the previous day in UTC east of Greenwich
+    const earliest = new Date(today);
+    earliest.setDate(earliest.getDate() - 1);
+
+    if (val.flightDate < earliest) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'Flight date cannot be in the past',
+        path: ['flightDate'],
+      });
+    } else if (val.flightDate > horizon) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Flight date must be within ${TRANSPORT_MAX_DAYS_AHEAD} days`,
+        path: ['flightDate'],
+      });
+    }
+  }
+
+  if (val.minAcceptKg != null && val.capacityKg != null && val.minAcceptKg > val.capacityKg) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'Minimum weight cannot exceed the capacity',
+      path: ['minAcceptKg'],
+    });
+  }
+
+  const accepted = new Set(val.acceptedItemTypes ?? []);
+  if ((val.restrictedItemTypes ?? []).some((t) => accepted.has(t))) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'An item type cannot be both accepted and restricted',
+      path: ['restrictedItemTypes'],
+    });
+  }
+}
+
+/**
+ * TransportPriceMode rules:
+ * - PER_KG: pricePerKg required, no fixed total
+ * - FIXED_TOTAL: fixedTotalPrice required, no per-kg price
+ * - NEGOTIABLE: neither amount is set
+ */
+function applyPriceModeRules(
+  val: {
+    priceMode?: string | null;
+    pricePerKg?: number | null;
+    fixedTotalPrice?: number | null;
+  },
+  ctx: z.RefinementCtx
+) {
+  const requireAmount = (value: number | null | undefined, path: string) => {
+    if (value == null || value <= 0) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: VALIDATION_MESSAGES.PRICE.REQUIRED_WHEN_NOT_NEGOTIABLE,
+        path: [path],
+      });
+    }
+  };
+  const forbidAmount = (value: number | null | undefined, path: string, message: string) => {
+    if (value != null) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message, path: [path] });
+    }
+  };
+
+  switch (val.priceMode) {
+    case TransportPriceMode.PER_KG:
+      requireAmount(val.pricePerKg, 'pricePerKg');
+      forbidAmount(val.fixedTotalPrice, 'fixedTotalPrice', 'Not used with per-kg pricing');
+      break;
+    case TransportPriceMode.FIXED_TOTAL:
+      requireAmount(val.fixedTotalPrice, 'fixedTotalPrice');
+      forbidAmount(val.pricePerKg, 'pricePerKg', 'Not used with a fixed total');
+      break;
+    case TransportPriceMode.NEGOTIABLE:
+      forbidAmount(val.pricePerKg, 'pricePerKg', 'Not used when the price is negotiable');
+      forbidAmount(val.fixedTotalPrice, 'fixedTotalPrice', 'Not used when the price is negotiable');
+      break;
+  }
+}
+
+/**
+ * Full transportation schema used on submit (client) and in server actions
+ */
+export const transportationSchema = baseTransportationSchema.superRefine((val, ctx) => {
+  applyRouteRules(val, ctx);
+  applyFlightRules(val, ctx);
+  applyPriceModeRules(val, ctx);
+});
+
+export type TransportationFormValues = z.infer<typeof transportationSchema>;
+
+/** Step 1: Direction, cities and route notes */
+export const transportationStep1Schema = baseTransportationSchema
+  .pick({
+    direction: true,
+    departureCity: true,
+    arrivalCity: true,
+    additionalPickupCities: true,
+    additionalDeliveryCities: true,
+    routeNotes: true,
+  })
+  .superRefine(applyRouteRules);
+
+/** Step 2: Flight date, capacity, accepted items and postal options */
+export const transportationStep2Schema = baseTransportationSchema
+  .pick({
+    flightDate: true,
+    capacityKg: true,
+    minAcceptKg: true,
+    deliveryEtaDays: true,
+    subjectToInspection: true,
+    documentsAccepted: true,
+    acceptedItemTypes: true,
+    restrictedItemTypes: true,
+    specialCapacityNotes: true,
+    offersPostalForwarding: true,
+    acceptsPostalDropoff: true,
+    postalNotes: true,
+  })
+  .superRefine(applyFlightRules);
+
+/** Step 3: Price mode and amounts */
+export const transportationStep3Schema = baseTransportationSchema
+  .pick({
+    priceMode: true,
+    pricePerKg: true,
+    fixedTotalPrice: true,
+    priceNotes: true,
+    termsNotes: true,
+  })
+  .superRefine(applyPriceModeRules);
+
+/**
+ * Maps each step to the form fields it uses for watching changes
+ */
+export const TRANSPORTATION_STEP_FIELDS: Record<number, (keyof TransportationFormValues)[]> = {
+  1: [
+    'direction',
+    'departureCity',
+    'arrivalCity',
+    'additionalPickupCities',
+    'additionalDeliveryCities',
+    'routeNotes',
+  ],
+  2: [
+    'flightDate',
+    'capacityKg',
+    'minAcceptKg',
+    'deliveryEtaDays',
+    'subjectToInspection',
+    'documentsAccepted',
+    'acceptedItemTypes',
+    'restrictedItemTypes',
+    'specialCapacityNotes',
+    'offersPostalForwarding',
+    'acceptsPostalDropoff',
+    'postalNotes',
+  ],
+  3: ['priceMode', 'pricePerKg', 'fixedTotalPrice', 'priceNotes', 'termsNotes'],
+};
@@ -0,0 +1,8 @@
+import { z } from 'zod';
+
+// Admin hiding an audit entry from, or showing it in, the owner's activity feed
+export const setAuditEntryVisibilitySchema = z.object({
+  hiddenFromUser: z.boolean(),
+});
+
+export type SetAuditEntryVisibilityInput = z.infer<typeof setAuditEntryVisibilitySchema>;
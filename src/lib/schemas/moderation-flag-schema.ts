@@ -0,0 +1,26 @@
+import { FLAG_NOTE_MAX_LENGTH, FLAG_TARGET_TYPES } from '@/constants/moderation-flag-config';
+import { z } from 'zod';
+
+// Moderator escalating an item to admins; the note says what they should look at
+export const flagItemSchema = z.object({
+  targetType: z.enum(FLAG_TARGET_TYPES),
+  targetId: z.number().int().positive(),
+  note: z
+    .string()
+    .trim()
+    .min(5, 'Please tell the admins what to look at')
+    .max(FLAG_NOTE_MAX_LENGTH, `Note must be at most ${FLAG_NOTE_MAX_LENGTH} characters`),
+});
+
+export type FlagItemInput = z.infer<typeof flagItemSchema>;
+
+// Admin closing a flag
+export const resolveFlagSchema = z.object({
+  resolutionNote: z
+    .string()
+    .trim()
+    .max(FLAG_NOTE_MAX_LENGTH, `Note must be at most ${FLAG_NOTE_MAX_LENGTH} characters`)
+    .optional(),
+});
+
+export type ResolveFlagInput = z.infer<typeof resolveFlagSchema>;
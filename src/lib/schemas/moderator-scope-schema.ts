@@ -0,0 +1,13 @@
+import { z } from 'zod';
+
+// Generous caps; a scope is a handful of cities or regions in practice
+export const MODERATOR_SCOPE_MAX_CITIES = 200;
+export const MODERATOR_SCOPE_MAX_REGIONS = 20;
+
+// Admin limiting a moderator to cities and/or regions; both empty removes the limit
+export const moderatorScopeSchema = z.object({
+  cityIds: z.array(z.number().int().positive()).max(MODERATOR_SCOPE_MAX_CITIES),
+  regions: z.array(z.string().trim().min(1).max(120)).max(MODERATOR_SCOPE_MAX_REGIONS),
+});
+
+export type ModeratorScopeInput = z.infer<typeof moderatorScopeSchema>;
@@ -0,0 +1,45 @@
+import { ReportOutcome, ReportReason } from '@/generated/enums';
+import { z } from 'zod';
+
+export const REPORT_NOTE_MAX_LENGTH = 1000;
+export const REPORT_RESOLUTION_NOTE_MAX_LENGTH = 1000;
+export const REPORT_MAX_FILES = 3;
+
+// Report submitted from an ad detail page; "Something else" needs an explanation
+export const reportAdSchema = z
+  .object({
+    reason: z.nativeEnum(ReportReason, { required_error: 'Please choose a reason' }),
+    note: z
+      .string()
+      .trim()
+      .max(REPORT_NOTE_MAX_LENGTH, `Note must be at most ${REPORT_NOTE_MAX_LENGTH} characters`)
+      .optional()
+      .nullable(),
+  })
+  .superRefine((val, ctx) => {
+    if (val.reason === ReportReason.OTHER && !val.note) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'Tell us what is wrong with this ad',
+        path: ['note'],
+      });
+    }
+  });
+
+export type ReportAdFormValues = z.infer<typeof reportAdSchema>;
+
+// Moderator decision on an open report
+export const resolveReportSchema = z.object({
+  action: z.enum(['close', 'dismiss']),
+  outcome: z.nativeEnum(ReportOutcome),
+  resolutionNote: z
+    .string()
+    .trim()
+    .max(
+      REPORT_RESOLUTION_NOTE_MAX_LENGTH,
+      `Note must be at most ${REPORT_RESOLUTION_NOTE_MAX_LENGTH} characters`
+    )
+    .optional(),
+});
+
+export type ResolveReportInput = z.infer<typeof resolveReportSchema>;
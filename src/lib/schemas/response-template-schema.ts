@@ -0,0 +1,58 @@
+import {
+  getTemplatePlaceholders,
+  RESPONSE_TEMPLATE_BODY_MAX_LENGTH,
+  RESPONSE_TEMPLATE_LOCALES,
+  RESPONSE_TEMPLATE_PLACEHOLDERS,
+  RESPONSE_TEMPLATE_TITLE_MAX_LENGTH,
+} from '@/constants/response-template-config';
+import * as Enum from '@/generated/enums';
+import { z } from 'zod';
+
+const templateContent = {
+  locale: z.enum(RESPONSE_TEMPLATE_LOCALES),
+  title: z
+    .string()
+    .trim()
+    .min(3, 'Please give the template a title')
+    .max(
+      RESPONSE_TEMPLATE_TITLE_MAX_LENGTH,
+      `Title must be at most ${RESPONSE_TEMPLATE_TITLE_MAX_LENGTH} characters`
+    ),
+  body: z
+    .string()
+    .trim()
+    .min(10, 'Template text is too short')
+    .max(
+      RESPONSE_TEMPLATE_BODY_MAX_LENGTH,
+      `Template text must be at most ${RESPONSE_TEMPLATE_BODY_MAX_LENGTH} characters`
+    ),
+  isActive: z.boolean(),
+};
+
+// Admin creating or editing a canned response; the code set depends on the target
+export const responseTemplateSchema = z
+  .discriminatedUnion('targetType', [
+    z.object({
+      targetType: z.literal('AD'),
+      reasonCode: z.nativeEnum(Enum.ModerationReasonCode),
+      ...templateContent,
+    }),
+    z.object({
+      targetType: z.literal('VERIFICATION'),
+      verificationCode: z.nativeEnum(Enum.VerificationRejectionCode),
+      ...templateContent,
+    }),
+  ])
+  .superRefine((value, ctx) => {
+    const allowed = RESPONSE_TEMPLATE_PLACEHOLDERS[value.targetType].map((p) => p.key as string);
+    const unknown = getTemplatePlaceholders(value.body).filter((key) => !allowed.includes(key));
+    if (unknown.length > 0) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['body'],
+        message: `Unknown placeholder: ${unknown.map((key) => `{{${key}}}`).join(', ')}`,
+      });
+    }
+  });
+
+export type ResponseTemplateInput = z.infer<typeof responseTemplateSchema>;
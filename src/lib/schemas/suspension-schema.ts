@@ -0,0 +1,34 @@
+import { z } from 'zod';
+
+export const SUSPENSION_REASON_MAX_LENGTH = 1000;
+export const SUSPENSION_MAX_DAYS = 3650;
+
+// Moderator suspending a user; no duration means a permanent ban
+export const suspendUserSchema = z.object({
+  reason: z
+    .string()
+    .trim()
+    .min(3, 'Please give a reason')
+    .max(
+      SUSPENSION_REASON_MAX_LENGTH,
+      `Reason must be at most ${SUSPENSION_REASON_MAX_LENGTH} characters`
+    ),
+  durationDays: z.number().int().positive().max(SUSPENSION_MAX_DAYS).nullable(),
+});
+
+export type SuspendUserFormValues = z.infer<typeof suspendUserSchema>;
+
+// Moderator lifting a suspension early
+export const liftSuspensionSchema = z.object({
+  action: z.literal('lift'),
+  note: z
+    .string()
+    .trim()
+    .max(
+      SUSPENSION_REASON_MAX_LENGTH,
+      `Note must be at most ${SUSPENSION_REASON_MAX_LENGTH} characters`
+    )
+    .optional(),
+});
+
+export type LiftSuspensionInput = z.infer<typeof liftSuspensionSchema>;
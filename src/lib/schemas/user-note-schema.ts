@@ -0,0 +1,14 @@
+import { z } from 'zod';
+
+export const USER_NOTE_MAX_LENGTH = 1000;
+
+// Moderator adding an internal note on a user; never shown to the user
+export const addUserNoteSchema = z.object({
+  note: z
+    .string()
+    .trim()
+    .min(3, 'Please write a note')
+    .max(USER_NOTE_MAX_LENGTH, `Note must be at most ${USER_NOTE_MAX_LENGTH} characters`),
+});
+
+export type AddUserNoteInput = z.infer<typeof addUserNoteSchema>;
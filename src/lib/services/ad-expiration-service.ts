@@ -0,0 +1,184 @@
+import { AD_RENEWAL_WINDOW_DAYS } from '@/constants/ad-renewal-config';
+import type { AuditAction, AuditActorRole, AuditEntityType } from '@/generated/prisma';
+import { logFailure, logSuccess } from '@/lib/audit/audit';
+import { prisma } from '@/lib/db';
+import { createNotification } from '@/lib/services/notification-service';
+
+/** Owners get a reminder this long before their ad expires, when renewal opens */
+export const EXPIRY_REMINDER_LEAD_DAYS = AD_RENEWAL_WINDOW_DAYS;
+
+const DEFAULT_BATCH_SIZE = 100;
+// Upper bound per run so a huge backlog can't keep a request open forever;
+// the next run picks up where this one stopped
+const MAX_BATCHES_PER_RUN = 50;
+
+export interface AdExpirationJobOptions {
+  batchSize?: number;
+  now?: Date;
+}
+
+export interface AdExpirationJobResult {
+  expired: number;
+  reminded: number;
+  // True when the batch cap was hit and overdue ads may remain
+  hasMore: boolean;
+}
+
+const systemContext = { actorUserId: null, actorRole: 'SYSTEM' as AuditActorRole };
+
+/**
+ * Send the pre-expiry reminder for ONLINE ads expiring within the lead window.
+ * Each ad is claimed through expiryReminderSentAt, so re-runs never send twice.
+ */
+async function sendExpiryReminders(now: Date, batchSize: number) {
+  const windowEnd = new Date(now.getTime() + EXPIRY_REMINDER_LEAD_DAYS * 24 * 60 * 60 * 1000);
+  let reminded = 0;
+
+  for (let batch = 0; batch < MAX_BATCHES_PER_RUN; batch++) {
+    const ads = await prisma.ad.findMany({
+      where: {
+        status: 'ONLINE',
+        expiryReminderSentAt: null,
+        expirationDate: { gt: now, lte: windowEnd },
+      },
+      select: { id: true, userId: true, category: true, expirationDate: true },
+      orderBy: { expirationDate: 'asc' },
+      take: batchSize,
+    });
+
+    for (const ad of ads) {
+      const claimed = await prisma.ad.updateMany({
+        where: { id: ad.id, status: 'ONLINE', expiryReminderSentAt: null },
+        data: { expiryReminderSentAt: now },
+      });
+      if (claimed.count === 0) continue;
+
+      await createNotification({
+        userId: ad.userId,
+        type: 'AD_EVENT',
+        severity: 'WARNING',
+        title: 'Ad Expiring Soon',
+        body: `Your ad expires in less than ${EXPIRY_REMINDER_LEAD_DAYS} days. Renew it to keep it online.`,
+        adId: ad.id,
+        deepLink: `/dashboard/ads-management/${ad.id}`,
+        data: { category: ad.category, expirationDate: ad.expirationDate, kind: 'EXPIRY_REMINDER' },
+      });
+      reminded++;
+    }
+
+    if (ads.length < batchSize) return { reminded, hasMore: false };
+  }
+
+  return { reminded, hasMore: true };
+}
+
+/**
+ * Move overdue ONLINE ads to EXPIRED.
+ * The status check inside the update makes each transition happen at most once.
+ */
+async function expireOverdueAds(now: Date, batchSize: number) {
+  let expired = 0;
+
+  for (let batch = 0; batch < MAX_BATCHES_PER_RUN; batch++) {
+    const ads = await prisma.ad.findMany({
+      where: { status: 'ONLINE', expirationDate: { lte: now } },
+      select: { id: true, userId: true, category: true },
+      orderBy: { expirationDate: 'asc' },
+      take: batchSize,
+    });
+
+    for (const ad of ads) {
+      const transitioned = await prisma.$transaction(async (tx) => {
+        const updated = await tx.ad.updateMany({
+          where: { id: ad.id, status: 'ONLINE' },
+          data: { status: 'EXPIRED' },
+        });
+        if (updated.count === 0) return false;
+
+        await tx.moderationAction.create({
+          data: {
+            actorUserId: null,
+            adId: ad.id,
+            targetType: 'AD',
+            action: 'EXPIRE',
+            reasonText: 'Expiration date reached',
+            prevStatus: 'ONLINE',
+            nextStatus: 'EXPIRED',
+          },
+        });
+        return true;
+      });
+      if (!transitioned) continue;
+
+      await logSuccess(
+        'AD_EXPIRE' as AuditAction,
+        'AD' as AuditEntityType,
+        systemContext,
+        ad.id,
+        { category: ad.category, prevStatus: 'ONLINE', nextStatus: 'EXPIRED' },
+        'Ad expired by scheduler'
+      );
+
+      await createNotification({
+        userId: ad.userId,
+        type: 'AD_EVENT',
+        severity: 'INFO',
+        title: 'Ad Expired',
+        body: 'Your ad has reached its expiration date and is no longer visible. You can renew it from your dashboard.',
+        adId: ad.id,
+        deepLink: `/dashboard/ads-management/${ad.id}`,
+        data: { category: ad.category, prevStatus: 'ONLINE', nextStatus: 'EXPIRED' },
+      });
+      expired++;
+    }
+
+    if (ads.length < batchSize) return { expired, hasMore: false };
+  }
+
+  return { expired, hasMore: true };
+}
+
+/**
+ * Scheduled job: send pre-expiry reminders, then expire overdue ads.
+ * Safe to run as often as needed; every step is idempotent.
+ */
+export async function runAdExpirationJob(
+  options: AdExpirationJobOptions = {}
+): Promise<AdExpirationJobResult> {
+  const now = options.now ?? new Date();
+  const batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+
+  try {
+    const reminders = await sendExpiryReminders(now, batchSize);
+    const expiry = await expireOverdueAds(now, batchSize);
+
+    const result: AdExpirationJobResult = {
+      expired: expiry.expired,
+      reminded: reminders.reminded,
+      hasMore: reminders.hasMore || expiry.hasMore,
+    };
+
+    await logSuccess(
+      'SCHEDULER_EXPIRE_ADS' as AuditAction,
+      'AD' as AuditEntityType,
+      systemContext,
+      undefined,
+      { ...result, batchSize, ranAt: now.toISOString() },
+      'Scheduled ad expiration run'
+    );
+
+    return result;
+  } catch (error) {
+    await logFailure(
+      'SCHEDULER_EXPIRE_ADS' as AuditAction,
+      'AD' as AuditEntityType,
+      'JOB_FAILED',
+      systemContext,
+      undefined,
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      'Scheduled ad expiration run failed'
+    ).catch(console.error);
+
+    throw error;
+  }
+}
@@ -0,0 +1,179 @@
+import type { AuditAction, AuditActorRole, AuditEntityType } from '@/generated/prisma';
+import { logFailure, logSuccess } from '@/lib/audit/audit';
+import { prisma } from '@/lib/db';
+import { createHash } from 'crypto';
+
+export type AdMetricEvent = 'view' | 'contact';
+
+export type RecordAdEventResult =
+  | { recorded: true }
+  | { recorded: false; reason: 'bot' | 'not_found' | 'owner' | 'duplicate' };
+
+export interface MetricsRollupResult {
+  adsReconciled: number;
+  dedupKeysPruned: number;
+}
+
+const METRICS_TIME_ZONE = 'Europe/Rome';
+
+// Dedup keys only matter for the current day; keep one extra day for clock skew
+const DEDUP_RETENTION_MS = 2 * 24 * 60 * 60 * 1000;
+
+// Crawlers, link-preview fetchers and headless clients
+const BOT_USER_AGENT_PATTERN =
+  /bot|crawl|spider|slurp|preview|facebookexternalhit|whatsapp|telegram|discord|embedly|headless|lighthouse|curl|wget|python-requests|axios|node-fetch|go-http-client/i;
+
+const systemContext = { actorUserId: null, actorRole: 'SYSTEM' as AuditActorRole };
+
+export function isBotUserAgent(userAgent: string | null | undefined): boolean {
+  if (!userAgent) return true;
+  return BOT_USER_AGENT_PATTERN.test(userAgent);
+}
+
+/**
+ * Start of the Europe/Rome calendar day containing `date`, as a UTC instant.
+ * AdMetricsDaily rows are keyed by this value.
+ */
+export function getMetricsDayStart(date: Date = new Date()): Date {
+  const parts = new Intl.DateTimeFormat('en-CA', {
+    timeZone: METRICS_TIME_ZONE,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).formatToParts(date);
+  const get = (type: string) => Number(parts.find((p) => p.type === type)?.value);
+
+  const utcMidnight = Date.UTC(get('year'), get('month') - 1, get('day'));
+
+  // Rome's UTC offset at that midnight (DST switches happen later in the night)
+  const romeWallClock = new Date(
+    new Date(utcMidnight).toLocaleString('en-US', { timeZone: METRICS_TIME_ZONE })
+  );
+  const utcWallClock = new Date(new Date(utcMidnight).toLocaleString('en-US', { timeZone: 'UTC' }));
+  const offsetMs = romeWallClock.getTime() - utcWallClock.getTime();
+
+  return new Date(utcMidnight - offsetMs);
+}
+
+/**
+ * Record a detail view or contact click for an ONLINE ad.
+ * Each viewer (user id, or anonymous IP + user agent) counts once per ad, event and day.
+ * The viewer key is hashed into the dedup key and never stored as-is.
+ */
+export async function recordAdEvent(params: {
+  adId: number;
+  event: AdMetricEvent;
+  viewerKey: string;
+  viewerUserId?: string | null;
+  userAgent?: string | null;
+}): Promise<RecordAdEventResult> {
+  const { adId, event, viewerKey, viewerUserId, userAgent } = params;
+
+  if (isBotUserAgent(userAgent)) {
+    return { recorded: false, reason: 'bot' };
+  }
+
+  const ad = await prisma.ad.findUnique({
+    where: { id: adId },
+    select: { userId: true, status: true },
+  });
+
+  if (!ad || ad.status !== 'ONLINE') {
+    return { recorded: false, reason: 'not_found' };
+  }
+
+  // Owners looking at their own ad don't count
+  if (viewerUserId && viewerUserId === ad.userId) {
+    return { recorded: false, reason: 'owner' };
+  }
+
+  const day = getMetricsDayStart();
+  const key = createHash('sha256')
+    .update(`${event}:${adId}:${viewerKey}:${day.toISOString()}`)
+    .digest('hex');
+
+  const recorded = await prisma.$transaction(async (tx) => {
+    const seen = await tx.adMetricsDedup.createMany({
+      data: [{ key, adId }],
+      skipDuplicates: true,
+    });
+    if (seen.count === 0) return false;
+
+    const increment = event === 'view' ? { views: 1 } : { contactClicks: 1 };
+    await tx.adMetricsDaily.upsert({
+      where: { adId_date: { adId, date: day } },
+      create: { adId, date: day, ...increment },
+      update: event === 'view' ? { views: { increment: 1 } } : { contactClicks: { increment: 1 } },
+    });
+    return true;
+  });
+
+  if (!recorded) {
+    return { recorded: false, reason: 'duplicate' };
+  }
+
+  if (event === 'contact') {
+    await logSuccess(
+      'AD_CONTACT_REVEAL' as AuditAction,
+      'AD' as AuditEntityType,
+      {
+        actorUserId: viewerUserId ?? null,
+        actorRole: viewerUserId ? ('USER' as AuditActorRole) : undefined,
+      },
+      adId,
+      { channel: 'telegram' }
+    );
+  }
+
+  return { recorded: true };
+}
+
+/**
+ * Scheduled job: reconcile Ad.viewsCount / contactClicksCount with the daily
+ * rollups and prune old dedup keys.
+ * Counters are written with raw SQL so ads' updatedAt stays untouched.
+ */
+export async function runMetricsRollup(): Promise<MetricsRollupResult> {
+  try {
+    const adsReconciled = await prisma.$executeRaw`
+      UPDATE "ads" a
+      SET "viewsCount" = m.views, "contactClicksCount" = m.clicks
+      FROM (
+        SELECT "adId", SUM(views)::int AS views, SUM("contactClicks")::int AS clicks
+        FROM "ad_metrics_daily"
+        GROUP BY "adId"
+      ) m
+      WHERE a.id = m."adId"
+        AND (a."viewsCount" <> m.views OR a."contactClicksCount" <> m.clicks)
+    `;
+
+    const pruned = await prisma.adMetricsDedup.deleteMany({
+      where: { createdAt: { lt: new Date(Date.now() - DEDUP_RETENTION_MS) } },
+    });
+
+    const result = { adsReconciled, dedupKeysPruned: pruned.count };
+
+    await logSuccess(
+      'METRICS_ROLLUP' as AuditAction,
+      'AD' as AuditEntityType,
+      systemContext,
+      undefined,
+      result,
+      'Scheduled metrics rollup'
+    );
+
+    return result;
+  } catch (error) {
+    await logFailure(
+      'METRICS_ROLLUP' as AuditAction,
+      'AD' as AuditEntityType,
+      'JOB_FAILED',
+      systemContext,
+      undefined,
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      'Scheduled metrics rollup failed'
+    ).catch(console.error);
+
+    throw error;
+  }
+}
@@ -0,0 +1,234 @@
+import {
+  AUDIT_PII_RETENTION_DAYS,
+  AUDIT_RETENTION_DAYS,
+  AUDIT_RETENTION_OVERRIDES,
+} from '@/constants/audit-retention-config';
+import type { AuditAction, AuditActorRole, AuditEntityType, Prisma } from '@/generated/prisma';
+import { logFailure, logSuccess } from '@/lib/audit/audit';
+import { anchorAuditChainHead, computeArchiveHash } from '@/lib/audit/audit-chain';
+import { prisma } from '@/lib/db';
+import { getStorageProvider } from '@/lib/storage';
+import { gzipSync } from 'zlib';
+
+const DEFAULT_BATCH_SIZE = 1000;
+// Upper bound per run so a huge backlog can't keep a request open forever;
+// the next run picks up where this one stopped
+const MAX_BATCHES_PER_RUN = 20;
+
+const ARCHIVE_FOLDER = 'audit-archives';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface AuditRetentionJobOptions {
+  batchSize?: number;
+  now?: Date;
+}
+
+export interface AuditRetentionJobResult {
+  scrubbed: number;
+  archived: number;
+  archiveFiles: number;
+  // True when the batch cap was hit and expired entries may remain
+  hasMore: boolean;
+  // Chain head uploaded to storage at the end of the run
+  anchoredEntryId: number | null;
+}
+
+const systemContext = { actorUserId: null, actorRole: 'SYSTEM' as AuditActorRole };
+
+function daysBefore(now: Date, days: number): Date {
+  return new Date(now.getTime() - days * DAY_MS);
+}
+
+/**
+ * Blank IP address and user agent on entries past the PII window.
+ * The chain hash only covers their digest (piiHash), so this keeps the chain valid.
+ */
+async function scrubExpiredPii(now: Date, batchSize: number) {
+  const cutoff = daysBefore(now, AUDIT_PII_RETENTION_DAYS);
+  let scrubbed = 0;
+
+  for (let batch = 0; batch < MAX_BATCHES_PER_RUN; batch++) {
+    const rows = await prisma.auditLog.findMany({
+      where: {
+        createdAt: { lt: cutoff },
+        piiScrubbedAt: null,
+        OR: [{ ip: { not: null } }, { userAgent: { not: null } }],
+        // Entries chained before piiHash existed hash the raw values; they wait for archival
+        NOT: { hash: { not: null }, piiHash: null },
+      },
+      select: { id: true },
+      orderBy: { id: 'asc' },
+      take: batchSize,
+    });
+
+    if (rows.length > 0) {
+      const updated = await prisma.auditLog.updateMany({
+        where: { id: { in: rows.map((row) => row.id) }, piiScrubbedAt: null },
+        data: { ip: null, userAgent: null, piiScrubbedAt: now },
+      });
+      scrubbed += updated.count;
+    }
+
+    if (rows.length < batchSize) return { scrubbed, hasMore: false };
+  }
+
+  return { scrubbed, hasMore: true };
+}
+
+/**
+ * Remaining entries whose chain predecessor is among `ids` (sorted ascending).
+ * Verification accepts the broken link on exactly these entries.
+ */
+async function findChainGaps(ids: number[]): Promise<number[]> {
+  const minId = ids[0];
+  const maxId = ids[ids.length - 1];
+  const archived = new Set(ids);
+
+  const [kept, next] = await Promise.all([
+    // Entries inside the range kept by a longer retention override
+    prisma.auditLog.findMany({
+      where: { id: { gt: minId, lt: maxId, notIn: ids } },
+      select: { id: true },
+    }),
+    prisma.auditLog.findFirst({
+      where: { id: { gt: maxId } },
+      select: { id: true },
+      orderBy: { id: 'asc' },
+    }),
+  ]);
+
+  const ordered = [...ids, ...kept.map((row) => row.id), ...(next ? [next.id] : [])].sort(
+    (a, b) => a - b
+  );
+
+  return ordered.filter(
+    (id, index) => index > 0 && !archived.has(id) && archived.has(ordered[index - 1])
+  );
+}
+
+/**
+ * Upload entries past their retention window as gzipped NDJSON, then delete them.
+ * Nothing is deleted unless the upload succeeded.
+ */
+async function archiveExpiredEntries(now: Date, batchSize: number) {
+  const overriddenActions = Object.keys(AUDIT_RETENTION_OVERRIDES) as AuditAction[];
+  const where: Prisma.AuditLogWhereInput = {
+    OR: [
+      {
+        action: { notIn: overriddenActions },
+        createdAt: { lt: daysBefore(now, AUDIT_RETENTION_DAYS) },
+      },
+      ...Object.entries(AUDIT_RETENTION_OVERRIDES).map(([action, days]) => ({
+        action: action as AuditAction,
+        createdAt: { lt: daysBefore(now, days ?? AUDIT_RETENTION_DAYS) },
+      })),
+    ],
+  };
+
+  const storage = getStorageProvider();
+  let archived = 0;
+  let archiveFiles = 0;
+
+  for (let batch = 0; batch < MAX_BATCHES_PER_RUN; batch++) {
+    const rows = await prisma.auditLog.findMany({
+      where,
+      orderBy: { id: 'asc' },
+      take: batchSize,
+    });
+
+    if (rows.length === 0) return { archived, archiveFiles, hasMore: false };
+
+    const ids = rows.map((row) => row.id);
+    const minId = ids[0];
+    const maxId = ids[ids.length - 1];
+    const createdAts = rows.map((row) => row.createdAt.getTime());
+
+    const ndjson = rows.map((row) => JSON.stringify(row)).join('\n') + '\n';
+    const upload = await storage.uploadBuffer(gzipSync(Buffer.from(ndjson, 'utf8')), {
+      folder: ARCHIVE_FOLDER,
+      publicId: `audit-logs-${minId}-${maxId}-${now.getTime()}.ndjson.gz`,
+      resourceType: 'raw',
+      private: true,
+    });
+
+    const archive = {
+      storageKey: upload.storageKey,
+      rowCount: rows.length,
+      minEntryId: minId,
+      maxEntryId: maxId,
+      fromCreatedAt: new Date(Math.min(...createdAts)),
+      toCreatedAt: new Date(Math.max(...createdAts)),
+      chainGapIds: await findChainGaps(ids),
+    };
+
+    await prisma.$transaction([
+      prisma.auditLogArchive.create({
+        data: { ...archive, hash: computeArchiveHash(archive) },
+      }),
+      prisma.auditLog.deleteMany({ where: { id: { in: ids } } }),
+    ]);
+
+    archived += rows.length;
+    archiveFiles++;
+
+    if (rows.length < batchSize) return { archived, archiveFiles, hasMore: false };
+  }
+
+  return { archived, archiveFiles, hasMore: true };
+}
+
+/**
+ * Scheduled job: scrub PII from aging audit entries, archive and delete
+ * entries past their retention window, then anchor the chain head in storage.
+ * Every step is safe to re-run.
+ */
+export async function runAuditRetentionJob(
+  options: AuditRetentionJobOptions = {}
+): Promise<AuditRetentionJobResult> {
+  const now = options.now ?? new Date();
+  const batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+
+  try {
+    const pii = await scrubExpiredPii(now, batchSize);
+    const archival = await archiveExpiredEntries(now, batchSize);
+    const anchor = await anchorAuditChainHead(now);
+
+    const result: AuditRetentionJobResult = {
+      scrubbed: pii.scrubbed,
+      archived: archival.archived,
+      archiveFiles: archival.archiveFiles,
+      hasMore: pii.hasMore || archival.hasMore,
+      anchoredEntryId: anchor?.entryId ?? null,
+    };
+
+    await logSuccess(
+      'BATCH_CLEANUP' as AuditAction,
+      'OTHER' as AuditEntityType,
+      systemContext,
+      undefined,
+      {
+        ...result,
+        job: 'audit-retention',
+        piiRetentionDays: AUDIT_PII_RETENTION_DAYS,
+        retentionDays: AUDIT_RETENTION_DAYS,
+        batchSize,
+        ranAt: now.toISOString(),
+      },
+      'Scheduled audit retention run'
+    );
+
+    return result;
+  } catch (error) {
+    await logFailure(
+      'BATCH_CLEANUP' as AuditAction,
+      'OTHER' as AuditEntityType,
+      'JOB_FAILED',
+      systemContext,
+      undefined,
+      { job: 'audit-retention', error: error instanceof Error ? error.message : 'Unknown error' },
+      'Scheduled audit retention run failed'
+    ).catch(console.error);
+
+    throw error;
+  }
+}
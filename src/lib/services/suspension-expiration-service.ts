@@ -0,0 +1,103 @@
+import { endUserSuspension } from '@/data/moderator/suspension.dal';
+import type { AuditAction, AuditActorRole, AuditEntityType } from '@/generated/prisma';
+import { logFailure, logSuccess } from '@/lib/audit/audit';
+import { prisma } from '@/lib/db';
+import { createNotification } from '@/lib/services/notification-service';
+
+const DEFAULT_BATCH_SIZE = 100;
+// Upper bound per run so a huge backlog can't keep a request open forever;
+// the next run picks up where this one stopped
+const MAX_BATCHES_PER_RUN = 50;
+
+export interface SuspensionExpirationJobOptions {
+  batchSize?: number;
+  now?: Date;
+}
+
+export interface SuspensionExpirationJobResult {
+  expired: number;
+  restoredAds: number;
+  // True when the batch cap was hit and overdue suspensions may remain
+  hasMore: boolean;
+}
+
+const systemContext = { actorUserId: null, actorRole: 'SYSTEM' as AuditActorRole };
+
+/**
+ * Scheduled job: close suspensions past their expiry and put the hidden ads back ONLINE.
+ * Users regain access at expiresAt regardless; this run restores their ads and notifies them.
+ * Safe to run as often as needed; each suspension is closed at most once.
+ */
+export async function runSuspensionExpirationJob(
+  options: SuspensionExpirationJobOptions = {}
+): Promise<SuspensionExpirationJobResult> {
+  const now = options.now ?? new Date();
+  const batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+  let expired = 0;
+  let restoredAds = 0;
+  let hasMore = true;
+
+  for (let batch = 0; batch < MAX_BATCHES_PER_RUN; batch++) {
+    const suspensions = await prisma.userSuspension.findMany({
+      where: { liftedAt: null, expiresAt: { lte: now } },
+      select: { id: true, expiresAt: true },
+      orderBy: { expiresAt: 'asc' },
+      take: batchSize,
+    });
+
+    for (const suspension of suspensions) {
+      try {
+        const ended = await endUserSuspension(suspension.id, null, null, now);
+        if (!ended) continue;
+
+        await logSuccess(
+          'USER_SUSPENSION_EXPIRE' as AuditAction,
+          'USER' as AuditEntityType,
+          systemContext,
+          ended.userId,
+          {
+            suspensionId: suspension.id,
+            expiresAt: suspension.expiresAt,
+            restoredAdIds: ended.restoredAdIds,
+          },
+          'Suspension expired by scheduler'
+        );
+
+        await createNotification({
+          userId: ended.userId,
+          type: 'ACCOUNT_EVENT',
+          severity: 'SUCCESS',
+          title: 'Suspension ended',
+          body: 'Your account suspension has ended. Your ads are visible again and you can post as usual.',
+          deepLink: '/dashboard',
+          data: { kind: 'SUSPENSION_EXPIRED', suspensionId: suspension.id },
+        });
+
+        expired++;
+        restoredAds += ended.restoredAdIds.length;
+      } catch (error) {
+        await logFailure(
+          'USER_SUSPENSION_EXPIRE' as AuditAction,
+          'USER' as AuditEntityType,
+          'JOB_FAILED',
+          systemContext,
+          undefined,
+          {
+            suspensionId: suspension.id,
+            error: error instanceof Error ? error.message : 'Unknown error',
+          },
+          'Scheduled suspension expiry failed'
+        ).catch(console.error);
+
+        throw error;
+      }
+    }
+
+    if (suspensions.length < batchSize) {
+      hasMore = false;
+      break;
+    }
+  }
+
+  return { expired, restoredAds, hasMore };
+}
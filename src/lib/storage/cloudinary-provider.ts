@@ -21,11 +21,15 @@ export class CloudinaryProvider implements IStorageProvider {
         quality_analysis: true,
       };
       if (opts.transformation) uploadOptions.transformation = opts.transformation;
+      if (opts.private) uploadOptions.type = 'authenticated';
 
       const stream = cloudinary.uploader.upload_stream(uploadOptions, (error, result) => {
         if (error || !result) return reject(error || new Error('Upload failed'));
 
-        const storageKey = `${result.public_id}.${result.format}`;
+        // Raw files keep their extension in the public id and have no format
+        const storageKey = result.format
+          ? `${result.public_id}.${result.format}`
+          : result.public_id;
         resolve({
           storageKey,
           publicId: result.public_id,
@@ -42,10 +46,10 @@ export class CloudinaryProvider implements IStorageProvider {
     });
   }
 
-  async deleteByStorageKey(storageKey: string): Promise<void> {
+  async deleteByStorageKey(storageKey: string, options?: { private?: boolean }): Promise<void> {
     if (!storageKey) return;
     const publicId = storageKey.replace(/\.[^.]+$/, '');
-    await cloudinary.uploader.destroy(publicId);
+    await cloudinary.uploader.destroy(publicId, options?.private ? { type: 'authenticated' } : {});
   }
 
   async deleteManyByStorageKeys(storageKeys: string[]): Promise<void> {
@@ -65,10 +69,15 @@ export class CloudinaryProvider implements IStorageProvider {
     });
   }
 
-  getSignedUrl(storageKey: string, options?: { resourceType?: 'image' | 'raw' }): string | null {
+  getSignedUrl(
+    storageKey: string,
+    options?: { resourceType?: 'image' | 'raw'; private?: boolean }
+  ): string | null {
     const publicId = storageKey.replace(/\.[^.]+$/, '');
     return cloudinary.url(publicId, {
       resource_type: options?.resourceType ?? 'image',
+      // Private uploads are stored as authenticated resources
+      ...(options?.private && { type: 'authenticated' }),
       sign_url: true,
       secure: true,
     });
@@ -2,7 +2,9 @@ export type UploadOptions = {
   publicId?: string; // provider-specific id suggestion
   folder?: string;
   transformation?: Record<string, any>;
-  resourceType?: 'image' | 'auto';
+  resourceType?: 'image' | 'auto' | 'raw';
+  // Only reachable through signed URLs
+  private?: boolean;
 };
 
 export type UploadResult = {
@@ -18,9 +20,12 @@ export type UploadResult = {
 
 export interface IStorageProvider {
   uploadBuffer(buffer: Buffer, opts: UploadOptions): Promise<UploadResult>;
-  deleteByStorageKey(storageKey: string): Promise<void>;
+  deleteByStorageKey(storageKey: string, options?: { private?: boolean }): Promise<void>;
   deleteManyByStorageKeys(storageKeys: string[]): Promise<void>;
   // Optional provider-specific helpers
   getPreviewUrl?(publicId: string, options?: { width?: number; page?: number }): string | null;
-  getSignedUrl?(storageKey: string, options?: { resourceType?: 'image' | 'raw' }): string | null;
+  getSignedUrl?(
+    storageKey: string,
+    options?: { resourceType?: 'image' | 'raw'; private?: boolean }
+  ): string | null;
 }